@@ -0,0 +1,357 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./VisibilityServices.sol";
+
+/**
+ * @title DisputeArbitration
+ * @notice Lets a panel of arbiters vote on disputed service executions, instead of
+ *         relying on a single dispute resolver.
+ * @dev Must hold the `DISPUTE_RESOLVER_ROLE` of `VisibilityServices`.
+ *      Each arbiter votes the share of the escrowed credits refunded to the requester.
+ *      Once the voting period is over, anyone can tally a dispute that reached the
+ *      quorum: the average of the votes is applied with `resolveServiceExecution`.
+ *      Disputes without quorum fall back to `settleExpiredDispute`, so the voting
+ *      period must be shorter than the dispute resolution delay of `VisibilityServices`.
+ *      The voting deadline and quorum of a dispute are fixed by its first vote.
+ */
+contract DisputeArbitration is AccessControlDefaultAdminRules {
+	using EnumerableSet for EnumerableSet.AddressSet;
+
+	// Struct tracking the votes on a disputed execution
+	struct Ballot {
+		uint256 votingDeadline; // End of the voting period, zero until the first vote
+		uint256 quorum; // Minimum votes to tally the dispute, set with the deadline
+		uint256 votesCount; // Number of arbiters who voted
+		uint256 refundBpsSum; // Sum of the refund shares voted, in basis points
+		mapping(address => bool) voted; // Arbiters who already voted
+	}
+
+	event ArbiterAdded(address indexed arbiter);
+
+	event ArbiterRemoved(address indexed arbiter);
+
+	event ArbitrationSettingsUpdated(uint256 quorum, uint256 votingPeriod);
+
+	event DisputeVoteCast(
+		uint256 indexed serviceNonce,
+		uint256 indexed executionNonce,
+		address indexed arbiter,
+		uint256 refundBps,
+		string reason
+	);
+
+	event DisputeVotesTallied(
+		uint256 indexed serviceNonce,
+		uint256 indexed executionNonce,
+		uint256 votesCount,
+		uint256 refundBps
+	);
+
+	// Custom errors for more specific revert reasons
+	error AlreadyVoted(); // Error for an arbiter voting twice on a dispute
+	error InvalidArbiter(); // Error for adding an arbiter twice or removing a non-arbiter
+	error InvalidQuorum(); // Error for a quorum of zero votes or above the size of the panel
+	error InvalidRefundBps(); // Error for a refund share above 100%
+	error InvalidVotingPeriod(); // Error for a voting period of zero or not shorter than the dispute resolution delay
+	error NotArbiter(); // Error for a vote from an account outside the panel
+	error NotDisputed(); // Error for voting on or tallying an execution that is not disputed
+	error QuorumNotReached(); // Error for tallying a dispute with too few votes
+	error VotingClosed(); // Error for voting after the voting period
+	error VotingOpen(); // Error for tallying during the voting period
+
+	uint256 public constant BPS_DENOMINATOR = 10000; // Basis points of a vote, as in VisibilityServices
+
+	EnumerableSet.AddressSet private _arbiters; // Members of the panel
+
+	uint256 public quorum; // Minimum votes to tally a new dispute
+	uint256 public votingPeriod; // Time given to the arbiters from a new dispute
+
+	mapping(uint256 => mapping(uint256 => Ballot)) private _ballots; // Votes by service and execution nonces
+
+	VisibilityServices public immutable visibilityServices; // Contract whose disputes are arbitrated
+
+	/**
+	 * @dev Constructor to initialize the contract.
+	 * @param _visibilityServices Address of the VisibilityServices contract.
+	 * @param _arbiters Initial members of the panel.
+	 * @param _quorum Minimum votes to tally a dispute.
+	 * @param _votingPeriod Time given to the arbiters from the dispute.
+	 */
+	constructor(
+		address _visibilityServices,
+		address[] memory _arbiters,
+		uint256 _quorum,
+		uint256 _votingPeriod
+	) AccessControlDefaultAdminRules(3 days, msg.sender) {
+		visibilityServices = VisibilityServices(_visibilityServices);
+		for (uint256 i = 0; i < _arbiters.length; i++) {
+			_addArbiter(_arbiters[i]);
+		}
+		_setArbitrationSettings(_quorum, _votingPeriod);
+	}
+
+	/**
+	 * @notice Adds an arbiter to the panel.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 * @param arbiter The address of the arbiter.
+	 */
+	function addArbiter(address arbiter) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		_addArbiter(arbiter);
+	}
+
+	/**
+	 * @notice Removes an arbiter from the panel.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 *      The votes already cast by the arbiter still count. The panel
+	 *      cannot get smaller than the quorum.
+	 * @param arbiter The address of the arbiter.
+	 */
+	function removeArbiter(
+		address arbiter
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		if (!isArbiter(arbiter)) revert InvalidArbiter();
+		if (arbitersCount() == quorum) revert InvalidQuorum();
+
+		_arbiters.remove(arbiter);
+
+		emit ArbiterRemoved(arbiter);
+	}
+
+	/**
+	 * @notice Sets the quorum and the voting period of disputes.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 *      Disputes with votes keep their voting deadline and quorum.
+	 * @param _quorum Minimum votes to tally a dispute.
+	 * @param _votingPeriod Time given to the arbiters from the dispute.
+	 */
+	function setArbitrationSettings(
+		uint256 _quorum,
+		uint256 _votingPeriod
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		_setArbitrationSettings(_quorum, _votingPeriod);
+	}
+
+	/**
+	 * @notice Votes on a disputed execution.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 * @param refundBps The share of the escrowed credits to refund to the requester, in basis points.
+	 * @param reason The motivation of the vote.
+	 */
+	function castVote(
+		uint256 serviceNonce,
+		uint256 executionNonce,
+		uint256 refundBps,
+		string calldata reason
+	) external {
+		if (!isArbiter(msg.sender)) revert NotArbiter();
+		if (refundBps > BPS_DENOMINATOR) revert InvalidRefundBps();
+
+		uint256 votingDeadline = getVotingDeadline(
+			serviceNonce,
+			executionNonce
+		);
+		if (block.timestamp > votingDeadline) revert VotingClosed();
+
+		Ballot storage ballot = _ballots[serviceNonce][executionNonce];
+		if (ballot.voted[msg.sender]) revert AlreadyVoted();
+
+		// the first vote fixes the settings of the dispute
+		if (ballot.votingDeadline == 0) {
+			ballot.votingDeadline = votingDeadline;
+			ballot.quorum = quorum;
+		}
+
+		ballot.voted[msg.sender] = true;
+		ballot.votesCount += 1;
+		ballot.refundBpsSum += refundBps;
+
+		emit DisputeVoteCast(
+			serviceNonce,
+			executionNonce,
+			msg.sender,
+			refundBps,
+			reason
+		);
+	}
+
+	/**
+	 * @notice Appends evidence to the thread of a disputed execution, as an arbiter.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 * @param evidence The evidence, or a URI pointing to it.
+	 */
+	function submitEvidence(
+		uint256 serviceNonce,
+		uint256 executionNonce,
+		string calldata evidence
+	) external {
+		if (!isArbiter(msg.sender)) revert NotArbiter();
+
+		visibilityServices.submitDisputeEvidenceFor(
+			serviceNonce,
+			executionNonce,
+			msg.sender,
+			evidence
+		);
+	}
+
+	/**
+	 * @notice Resolves a disputed execution with the average of the votes.
+	 * @dev Callable by anyone once the voting period is over, if the quorum is reached.
+	 *      The average is rounded down, in favor of the creator.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 */
+	function tallyVotes(uint256 serviceNonce, uint256 executionNonce) external {
+		if (block.timestamp <= getVotingDeadline(serviceNonce, executionNonce))
+			revert VotingOpen();
+
+		Ballot storage ballot = _ballots[serviceNonce][executionNonce];
+		if (ballot.votesCount == 0 || ballot.votesCount < ballot.quorum)
+			revert QuorumNotReached();
+
+		uint256 refundBps = ballot.refundBpsSum / ballot.votesCount;
+
+		emit DisputeVotesTallied(
+			serviceNonce,
+			executionNonce,
+			ballot.votesCount,
+			refundBps
+		);
+
+		visibilityServices.resolveServiceExecution(
+			serviceNonce,
+			executionNonce,
+			refundBps,
+			""
+		);
+	}
+
+	/**
+	 * @notice Checks if an account is a member of the panel.
+	 * @param account The address of the account.
+	 */
+	function isArbiter(address account) public view returns (bool) {
+		return _arbiters.contains(account);
+	}
+
+	/**
+	 * @notice Retrieves the size of the panel.
+	 */
+	function arbitersCount() public view returns (uint256) {
+		return _arbiters.length();
+	}
+
+	/**
+	 * @notice Retrieves the members of the panel, in no particular order.
+	 * @dev Lets indexers pick up a panel they did not see assembled.
+	 */
+	function getArbiters() external view returns (address[] memory) {
+		return _arbiters.values();
+	}
+
+	/**
+	 * @notice Retrieves the votes on a disputed execution.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 * @return votesCount The number of arbiters who voted.
+	 * @return refundBpsSum The sum of the refund shares voted, in basis points.
+	 */
+	function getBallot(
+		uint256 serviceNonce,
+		uint256 executionNonce
+	) external view returns (uint256 votesCount, uint256 refundBpsSum) {
+		Ballot storage ballot = _ballots[serviceNonce][executionNonce];
+		return (ballot.votesCount, ballot.refundBpsSum);
+	}
+
+	/**
+	 * @notice Checks if an arbiter voted on a disputed execution.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 * @param arbiter The address of the arbiter.
+	 */
+	function hasVoted(
+		uint256 serviceNonce,
+		uint256 executionNonce,
+		address arbiter
+	) external view returns (bool) {
+		return _ballots[serviceNonce][executionNonce].voted[arbiter];
+	}
+
+	/**
+	 * @notice Retrieves the minimum votes to tally a disputed execution.
+	 * @dev The current quorum until the first vote on the dispute.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 */
+	function getQuorum(
+		uint256 serviceNonce,
+		uint256 executionNonce
+	) external view returns (uint256) {
+		Ballot storage ballot = _ballots[serviceNonce][executionNonce];
+		return ballot.votingDeadline == 0 ? quorum : ballot.quorum;
+	}
+
+	/**
+	 * @notice Retrieves the end of the voting period of a disputed execution.
+	 * @dev Reverts if the execution is not disputed. Based on the current
+	 *      voting period until the first vote on the dispute.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 */
+	function getVotingDeadline(
+		uint256 serviceNonce,
+		uint256 executionNonce
+	) public view returns (uint256) {
+		(
+			VisibilityServices.ExecutionState state,
+			,
+			uint256 lastUpdateTimestamp,
+			,
+			,
+			,
+
+		) = visibilityServices.getServiceExecution(
+				serviceNonce,
+				executionNonce
+			);
+		if (state != VisibilityServices.ExecutionState.DISPUTED)
+			revert NotDisputed();
+
+		uint256 votingDeadline = _ballots[serviceNonce][executionNonce]
+			.votingDeadline;
+		if (votingDeadline != 0) return votingDeadline;
+
+		// a disputed execution was last updated by the dispute
+		return lastUpdateTimestamp + votingPeriod;
+	}
+
+	function _addArbiter(address arbiter) private {
+		if (arbiter == address(0) || !_arbiters.add(arbiter))
+			revert InvalidArbiter();
+
+		emit ArbiterAdded(arbiter);
+	}
+
+	function _setArbitrationSettings(
+		uint256 _quorum,
+		uint256 _votingPeriod
+	) private {
+		if (_quorum == 0 || _quorum > arbitersCount()) revert InvalidQuorum();
+		// leaves time to tally before the dispute can be settled by default
+		if (
+			_votingPeriod == 0 ||
+			_votingPeriod >= visibilityServices.disputeResolutionDelay()
+		) revert InvalidVotingPeriod();
+
+		quorum = _quorum;
+		votingPeriod = _votingPeriod;
+
+		emit ArbitrationSettingsUpdated(_quorum, _votingPeriod);
+	}
+}
@@ -4,7 +4,10 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/utils/Address.sol";
 import "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "./interfaces/IVisibilityCredits.sol";
+import "./interfaces/IVisibilityCreditsAdapter.sol";
 
 /**
  * @title VisibilityCredits
@@ -14,13 +17,17 @@ import "./interfaces/IVisibilityCredits.sol";
 contract VisibilityCredits is
 	IVisibilityCredits,
 	AccessControlDefaultAdminRules,
-	ReentrancyGuard
+	ReentrancyGuard,
+	EIP712
 {
 	struct Visibility {
 		address creator; // The address receiving creator fees.
 		uint256 totalSupply; // Total visibility credits in circulation.
 		uint256 claimableFeeBalance; // Accumulated creator fees awaiting withdrawal.
+		CurveParams curve; // Custom bonding curve, the default one if unset (zero basePrice).
+		uint256 attestationNonce; // Incremented on each creator link, invalidating pending attestations.
 		mapping(address => uint256) creditBalances; // User credit balances.
+		mapping(address => mapping(address => bool)) operatorApprovals; // Owner => operator => approved.
 	}
 
 	/**
@@ -30,6 +37,9 @@ contract VisibilityCredits is
 	 *        PRICE = BASE_PRICE + A * totalSupply^2 + B * totalSupply
 	 *      - BASE_PRICE: The initial price when totalSupply is zero.
 	 *      - A, B: Constants that determine the curvature of the price function.
+	 *
+	 *      These are the default parameters, a visibility can be assigned its own
+	 *      curve profile before its first trade (see `setVisibilityCurve`).
 	 */
 	uint256 public constant A = 0.000000015 ether;
 	uint256 public constant B = 0.000025 ether;
@@ -38,80 +48,833 @@ contract VisibilityCredits is
 	/// @dev to avoid overflow on bonding curve computations
 	uint256 public constant MAX_TOTAL_SUPPLY = type(uint64).max;
 
+	/**
+	 * @dev Upper bound of custom curve parameters. Buying MAX_TOTAL_SUPPLY credits
+	 *      costs about A * 2^190 (the sum of squares), and fees multiply that cost
+	 *      by up to MAX_TOTAL_FEE (below 2^17) before dividing it: A must stay
+	 *      below 2^49 for the product to fit in 256 bits.
+	 */
+	uint256 public constant MAX_CURVE_PARAM = 0.0001 ether;
+
 	bytes32 public constant CREDITS_TRANSFER_ROLE =
 		keccak256("CREDITS_TRANSFER_ROLE");
 	bytes32 public constant CREATORS_CHECKER_ROLE =
 		keccak256("CREATORS_CHECKER_ROLE");
 
-	/// @notice Fee percentages in ppm (parts per million).
-	uint256 public constant FEE_DENOMINATOR = 1_000_000; // Using parts per million (ppm)
-	uint256 public constant CREATOR_FEE = 20_000; // 2% fee to the creator for each trade
-	uint256 public constant PROTOCOL_FEE = 20_000; // should be higher than referrer fee
-	uint256 public constant REFERRER_FEE = 10_000; // if any referrer, 1% fee to the referrer (deduced from protocol fee)
+	/**
+	 * @notice EIP-712 type of the attestations signed by a `CREATORS_CHECKER_ROLE` account,
+	 *         stating that `visibilityId` belongs to `creator` until `deadline`.
+	 */
+	bytes32 public constant CREATOR_ATTESTATION_TYPEHASH =
+		keccak256(
+			"CreatorAttestation(string visibilityId,address creator,uint256 nonce,uint256 deadline)"
+		);
+
+	/// @dev platform prefixes are lowercase letters and digits, at most this long
+	uint256 public constant MAX_PLATFORM_PREFIX_LENGTH = 16;
+
+	/// @notice Fee percentages in ppm (parts per million).
+	uint256 public constant FEE_DENOMINATOR = 1_000_000; // Using parts per million (ppm)
+	uint256 public constant MAX_TOTAL_FEE = 100_000; // creator + protocol fees cannot exceed 10% of a trade
+
+	address payable public protocolTreasury;
+
+	/**
+	 * @notice Protocol and referrer fees are credited to these balances and pulled
+	 *         with `claimProtocolFees` / `claimReferrerFees`, so that a recipient
+	 *         unable to receive Ether cannot make trades revert.
+	 */
+	uint256 public claimableProtocolFees;
+	mapping(address => uint256) public claimableReferrerFees;
+
+	/**
+	 * @notice Fees applied on each trade, in ppm:
+	 *         - creatorFee: to the creator
+	 *         - protocolFee: to the treasury, should be higher than the referrer fee
+	 *         - referrerFee: if any referrer, to the referrer (deduced from the protocol fee)
+	 *
+	 * @dev Changes are scheduled by the admin and can only be applied once `defaultAdminDelay()`
+	 *      has passed, the same delay protecting admin transfers.
+	 */
+	FeeParams public fees;
+
+	FeeParams private _pendingFees;
+	uint48 private _pendingFeesSchedule; // 0 == unset
+
+	/**
+	 * @notice This contract is agnostic to specific visibility interfaces.
+	 *         We define a naming convention for visibility IDs: `{platformPrefix}-{creatorHandle}`.
+	 *         For example, `x-vitalikbuterin` links visibility credits to Vitalik Buterin's X (formerly Twitter) account.
+	 *         This approach allows for easy extension to other platforms by using different prefixes.
+	 *
+	 *         The convention is enforced on the first trade of a visibility ID: its prefix must be
+	 *         registered (see `setPlatform`) and its handle follow the platform rules, in canonical
+	 *         form (e.g. lowercase), so that a creator cannot end up with several markets.
+	 *
+	 * @dev Access a creator's visibility information using `visibilityCredits[visibilityId]`, where:
+	 *      `bytes32 visibilityId = keccak256(abi.encode(visibilityIdString));`
+	 */
+	mapping(bytes32 => Visibility) public visibilityCredits;
+
+	/**
+	 * @notice Optional contract notified of every credit movement, exposing
+	 *         the credits through a token standard (see `VisibilityCredits1155`).
+	 */
+	IVisibilityCreditsAdapter public tokenAdapter;
+
+	/// @dev Set on the first credits bought, packed with `tokenAdapter`.
+	bool private _creditsIssued;
+
+	/// @dev Registered platforms, by keccak256 of their prefix.
+	mapping(bytes32 => PlatformRules) private _platforms;
+
+	/**
+	 * @notice Initializes the contract with the protocol treasury and creator linker.
+	 * @param treasury The address of the protocol treasury.
+	 * @param creatorLinker The address that can set creators for visibility IDs.
+	 *
+	 * @dev Contract deployer is the default admin (`DEFAULT_ADMIN_ROLE`) at deployment.
+	 *      The `AccessControlDefaultAdminRules` contract manages admin access with a delay for changes.
+	 */
+	constructor(
+		address treasury,
+		address creatorLinker
+	)
+		AccessControlDefaultAdminRules(3 days, msg.sender)
+		EIP712("VisibilityCredits", "1")
+	{
+		_setFees(
+			FeeParams({
+				creatorFee: 20_000, // 2%
+				protocolFee: 20_000, // 2%
+				referrerFee: 10_000 // 1%
+			})
+		);
+
+		if (treasury == address(0)) revert InvalidAddress();
+		protocolTreasury = payable(treasury);
+
+		if (creatorLinker == address(0)) revert InvalidAddress();
+		_grantRole(CREATORS_CHECKER_ROLE, creatorLinker);
+
+		// handles are case insensitive on these platforms
+		_setPlatform("x", PlatformRules(true, true, 1, 15, "_")); // X (formerly Twitter)
+		_setPlatform("fc", PlatformRules(true, true, 1, 16, "-")); // Farcaster
+		_setPlatform("yt", PlatformRules(true, true, 3, 30, "._-")); // YouTube
+	}
+
+	/**
+	 * @notice Buys a specified amount of visibility credits.
+	 * @dev Users must send sufficient Ether to cover the cost and fees.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param amount The amount of credits to buy.
+	 * @param referrer The address of the referrer (optional).
+	 */
+	function buyCredits(
+		string calldata visibilityId,
+		uint256 amount,
+		address referrer
+	) external payable nonReentrant {
+		_settle(
+			_buyCredits(visibilityId, amount, referrer, type(uint256).max),
+			0
+		);
+	}
+
+	/**
+	 * @notice Buys a specified amount of visibility credits, with slippage protection.
+	 * @dev Reverts if the price moved so that the total cost exceeds `maxTotalCost`,
+	 *      or if the transaction is mined after `deadline`.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param amount The amount of credits to buy.
+	 * @param referrer The address of the referrer (optional).
+	 * @param maxTotalCost The maximum total cost accepted, fees included.
+	 * @param deadline The timestamp after which the trade is no longer valid.
+	 */
+	function buyCreditsWithSlippage(
+		string calldata visibilityId,
+		uint256 amount,
+		address referrer,
+		uint256 maxTotalCost,
+		uint256 deadline
+	) external payable nonReentrant {
+		_checkDeadline(deadline);
+		_settle(
+			_buyCredits(visibilityId, amount, referrer, maxTotalCost),
+			0
+		);
+	}
+
+	/**
+	 * @notice Sells a specified amount of visibility credits.
+	 * @dev Users receive Ether minus applicable fees.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param amount The amount of credits to sell.
+	 * @param referrer The address of the referrer (optional).
+	 */
+	function sellCredits(
+		string calldata visibilityId,
+		uint256 amount,
+		address referrer
+	) external nonReentrant {
+		_settle(0, _sellCredits(visibilityId, amount, referrer, 0));
+	}
+
+	/**
+	 * @notice Sells a specified amount of visibility credits, with slippage protection.
+	 * @dev Reverts if the price moved so that the reimbursement is below `minReimbursement`,
+	 *      or if the transaction is mined after `deadline`.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param amount The amount of credits to sell.
+	 * @param referrer The address of the referrer (optional).
+	 * @param minReimbursement The minimum reimbursement accepted, fees deducted.
+	 * @param deadline The timestamp after which the trade is no longer valid.
+	 */
+	function sellCreditsWithSlippage(
+		string calldata visibilityId,
+		uint256 amount,
+		address referrer,
+		uint256 minReimbursement,
+		uint256 deadline
+	) external nonReentrant {
+		_checkDeadline(deadline);
+		_settle(
+			0,
+			_sellCredits(visibilityId, amount, referrer, minReimbursement)
+		);
+	}
+
+	/**
+	 * @notice Executes a list of buys and sells, settled with a single Ether transfer.
+	 * @dev Legs are executed in order, each one emitting its own `CreditsTrade` event.
+	 *      Sell reimbursements fund the buys: `msg.value` only needs to cover the difference,
+	 *      anything in excess is refunded at the end.
+	 *      Reverts if any leg exceeds its limit, or if the transaction is mined after `deadline`.
+	 * @param legs The trades to execute, see `TradeLeg`.
+	 * @param referrer The address of the referrer (optional), for all legs.
+	 * @param deadline The timestamp after which the trades are no longer valid.
+	 */
+	function tradeCreditsBatch(
+		TradeLeg[] calldata legs,
+		address referrer,
+		uint256 deadline
+	) external payable nonReentrant {
+		_checkDeadline(deadline);
+
+		if (legs.length == 0) {
+			revert InvalidAmount();
+		}
+
+		uint256 totalCost;
+		uint256 totalReimbursement;
+
+		for (uint256 i = 0; i < legs.length; i++) {
+			TradeLeg calldata leg = legs[i];
+			if (leg.isBuy) {
+				totalCost += _buyCredits(
+					leg.visibilityId,
+					leg.amount,
+					referrer,
+					leg.limit
+				);
+			} else {
+				totalReimbursement += _sellCredits(
+					leg.visibilityId,
+					leg.amount,
+					referrer,
+					leg.limit
+				);
+			}
+		}
+
+		_settle(totalCost, totalReimbursement);
+	}
+
+	/**
+	 * @notice Allows creators to claim their accumulated fees.
+	 * @param visibilityId The ID representing the visibility credits.
+	 */
+	function claimCreatorFee(
+		string calldata visibilityId
+	) external nonReentrant {
+		Visibility storage visibility = visibilityCredits[
+			getVisibilityKey(visibilityId)
+		];
+
+		uint256 claimableFeeBalance = visibility.claimableFeeBalance;
+
+		if (claimableFeeBalance == 0) {
+			revert InvalidAmount();
+		}
+
+		address creator = visibility.creator;
+
+		if (creator == address(0)) {
+			revert InvalidCreator();
+		}
+
+		visibility.claimableFeeBalance = 0;
+
+		Address.sendValue(payable(creator), claimableFeeBalance);
+
+		emit CreatorFeeClaimed(creator, visibilityId, claimableFeeBalance);
+	}
+
+	/**
+	 * @notice Allows referrers to claim their accumulated fees.
+	 */
+	function claimReferrerFees() external nonReentrant {
+		uint256 amount = claimableReferrerFees[msg.sender];
+
+		if (amount == 0) {
+			revert InvalidAmount();
+		}
+
+		claimableReferrerFees[msg.sender] = 0;
+
+		Address.sendValue(payable(msg.sender), amount);
+
+		emit ReferrerFeesClaimed(msg.sender, amount);
+	}
+
+	/**
+	 * @notice Sends the accumulated protocol fees to the protocol treasury.
+	 * @dev Callable by anyone, the funds can only go to `protocolTreasury`.
+	 */
+	function claimProtocolFees() external nonReentrant {
+		uint256 amount = claimableProtocolFees;
+
+		if (amount == 0) {
+			revert InvalidAmount();
+		}
+
+		claimableProtocolFees = 0;
+
+		Address.sendValue(protocolTreasury, amount);
+
+		emit ProtocolFeesClaimed(protocolTreasury, amount);
+	}
+
+	/**
+	 * @notice Grants the `CREDITS_TRANSFER_ROLE` to a specified account.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 * @param grantee The address to grant the role. *
+	 */
+	function grantCreatorTransferRole(
+		address grantee
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		_grantRole(CREDITS_TRANSFER_ROLE, grantee);
+	}
+
+	/**
+	 * @notice Sets the creator for a specific visibility ID.
+	 * @dev Only callable by an account with the `CREATORS_CHECKER_ROLE`.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param creator The address of the creator, can be address(0).
+	 */
+	function setCreatorVisibility(
+		string calldata visibilityId,
+		address creator
+	) external onlyRole(CREATORS_CHECKER_ROLE) {
+		_setCreatorVisibility(visibilityId, creator);
+	}
+
+	/**
+	 * @notice Sets the creator for a specific visibility ID, with an attestation
+	 *         signed by an account with the `CREATORS_CHECKER_ROLE`.
+	 * @dev Callable by anyone. An attestation can only be used once, and is invalidated
+	 *      by any other creator link of the visibility ID (see `getCreatorAttestationNonce`).
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param creator The address of the creator, can be address(0).
+	 * @param deadline The timestamp after which the attestation is no longer valid.
+	 * @param signature The EIP-712 signature of the `CreatorAttestation`.
+	 */
+	function setCreatorVisibilityWithAttestation(
+		string calldata visibilityId,
+		address creator,
+		uint256 deadline,
+		bytes calldata signature
+	) external {
+		_checkDeadline(deadline);
+
+		bytes32 structHash = keccak256(
+			abi.encode(
+				CREATOR_ATTESTATION_TYPEHASH,
+				keccak256(bytes(visibilityId)),
+				creator,
+				visibilityCredits[getVisibilityKey(visibilityId)]
+					.attestationNonce,
+				deadline
+			)
+		);
+		(address signer, , ) = ECDSA.tryRecover(
+			_hashTypedDataV4(structHash),
+			signature
+		);
+
+		if (!hasRole(CREATORS_CHECKER_ROLE, signer)) {
+			revert InvalidAttestation();
+		}
+
+		_setCreatorVisibility(visibilityId, creator);
+	}
+
+	/**
+	 * @notice Assigns a bonding curve profile to a visibility ID.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE` or the `CREATORS_CHECKER_ROLE`,
+	 *      while no credits are in circulation, so that no holder is repriced.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param a The quadratic coefficient of the curve.
+	 * @param b The linear coefficient of the curve.
+	 * @param basePrice The price of the first credit (cannot be zero).
+	 */
+	function setVisibilityCurve(
+		string calldata visibilityId,
+		uint256 a,
+		uint256 b,
+		uint256 basePrice
+	) external {
+		if (!hasRole(DEFAULT_ADMIN_ROLE, msg.sender)) {
+			_checkRole(CREATORS_CHECKER_ROLE);
+		}
+
+		if (
+			basePrice == 0 ||
+			basePrice > MAX_CURVE_PARAM ||
+			a > MAX_CURVE_PARAM ||
+			b > MAX_CURVE_PARAM
+		) {
+			revert InvalidCurveParams();
+		}
+
+		Visibility storage visibility = visibilityCredits[
+			getVisibilityKey(visibilityId)
+		];
+
+		if (visibility.totalSupply != 0) {
+			revert CurveLocked();
+		}
+
+		visibility.curve = CurveParams({ a: a, b: b, basePrice: basePrice });
+
+		emit CurveSet(visibilityId, a, b, basePrice);
+	}
+
+	/**
+	 * @notice Transfers visibility credits between users.
+	 * @dev Only callable by an account with the `CREDITS_TRANSFER_ROLE`.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param from The address to transfer credits from.
+	 * @param to The address to transfer credits to (cannot be address(0)).
+	 * @param amount The amount of credits to transfer.
+	 */
+	function transferCredits(
+		string calldata visibilityId,
+		address from,
+		address to,
+		uint256 amount
+	) external onlyRole(CREDITS_TRANSFER_ROLE) {
+		_transferCredits(visibilityId, from, to, amount);
+	}
+
+	/**
+	 * @notice Transfers visibility credits on behalf of their owner.
+	 * @dev Callable by `from` itself, to send its own credits, or by an operator
+	 *      `from` approved for this visibility ID.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param from The address to transfer credits from.
+	 * @param to The address to transfer credits to (cannot be address(0)).
+	 * @param amount The amount of credits to transfer.
+	 */
+	function transferCreditsFrom(
+		string calldata visibilityId,
+		address from,
+		address to,
+		uint256 amount
+	) external {
+		if (
+			from != msg.sender &&
+			!visibilityCredits[getVisibilityKey(visibilityId)]
+				.operatorApprovals[from][msg.sender]
+		) {
+			revert NotOperator();
+		}
+
+		_transferCredits(visibilityId, from, to, amount);
+	}
+
+	/**
+	 * @notice Allows or revokes an operator to transfer the caller's credits of a visibility ID.
+	 * @param visibilityId The ID representing the visibility credits.
+	 * @param operator The address of the operator (cannot be address(0)).
+	 * @param approved Whether the operator is approved.
+	 */
+	function setOperatorApproval(
+		string calldata visibilityId,
+		address operator,
+		bool approved
+	) external {
+		if (operator == address(0)) {
+			revert InvalidAddress();
+		}
+
+		visibilityCredits[getVisibilityKey(visibilityId)].operatorApprovals[
+			msg.sender
+		][operator] = approved;
+
+		emit OperatorApprovalSet(visibilityId, msg.sender, operator, approved);
+	}
+
+	/**
+	 * @notice Updates the protocol treasury address.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 * @param treasury The address of the new protocol treasury (cannot be address(0)).
+	 */
+	function updateTreasury(
+		address treasury
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		if (treasury == address(0)) {
+			revert InvalidAddress();
+		}
+		protocolTreasury = payable(treasury);
+	}
+
+	/**
+	 * @notice Sets the contract notified of every credit mint, burn and transfer.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 *      The adapter is trusted: trades and transfers revert if it does.
+	 *      Locked once credits were bought, as the adapter would miss the
+	 *      mints of the existing balances.
+	 * @param adapter The address of the adapter, address(0) to disable notifications.
+	 */
+	function setTokenAdapter(
+		address adapter
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		if (_creditsIssued) {
+			revert TokenAdapterLocked();
+		}
+
+		tokenAdapter = IVisibilityCreditsAdapter(adapter);
+
+		emit TokenAdapterSet(adapter);
+	}
+
+	/**
+	 * @notice Registers, updates or disables a platform prefix of visibility IDs.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 *      Rules are only checked on the first trade of a visibility ID: existing markets
+	 *      are not affected by a change.
+	 * @param prefix The platform prefix, lowercase letters and digits.
+	 * @param rules The rules of the platform handles.
+	 */
+	function setPlatform(
+		string calldata prefix,
+		PlatformRules calldata rules
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		_setPlatform(prefix, rules);
+	}
+
+	/**
+	 * @notice Schedules a change of the trading fees.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 *      Replaces any pending change, which is then canceled.
+	 * @param creatorFee The new creator fee, in ppm.
+	 * @param protocolFee The new protocol fee, in ppm (must be higher than `referrerFee`).
+	 * @param referrerFee The new referrer fee, in ppm.
+	 */
+	function beginFeeChange(
+		uint256 creatorFee,
+		uint256 protocolFee,
+		uint256 referrerFee
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		FeeParams memory newFees = FeeParams({
+			creatorFee: creatorFee,
+			protocolFee: protocolFee,
+			referrerFee: referrerFee
+		});
+		_checkFees(newFees);
+
+		uint48 effectSchedule = SafeCast.toUint48(block.timestamp) +
+			defaultAdminDelay();
+		_setPendingFees(newFees, effectSchedule);
+
+		emit FeeChangeScheduled(
+			creatorFee,
+			protocolFee,
+			referrerFee,
+			effectSchedule
+		);
+	}
+
+	/**
+	 * @notice Cancels the pending fee change, if any.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 */
+	function cancelFeeChange() external onlyRole(DEFAULT_ADMIN_ROLE) {
+		_setPendingFees(FeeParams(0, 0, 0), 0);
+	}
+
+	/**
+	 * @notice Applies the pending fee change once its delay has passed.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 */
+	function applyFeeChange() external onlyRole(DEFAULT_ADMIN_ROLE) {
+		uint48 effectSchedule = _pendingFeesSchedule;
+		if (effectSchedule == 0 || effectSchedule > block.timestamp) {
+			revert FeeChangeNotReady();
+		}
+
+		FeeParams memory newFees = _pendingFees;
+		delete _pendingFees;
+		delete _pendingFeesSchedule;
+
+		_setFees(newFees);
+	}
+
+	function pendingFeeChange()
+		external
+		view
+		returns (
+			uint256 creatorFee,
+			uint256 protocolFee,
+			uint256 referrerFee,
+			uint48 effectSchedule
+		)
+	{
+		return (
+			_pendingFees.creatorFee,
+			_pendingFees.protocolFee,
+			_pendingFees.referrerFee,
+			_pendingFeesSchedule
+		);
+	}
+
+	function getVisibility(
+		string calldata visibilityId
+	)
+		external
+		view
+		returns (
+			address creator,
+			uint256 totalSupply,
+			uint256 claimableFeeBalance
+		)
+	{
+		Visibility storage visibility = visibilityCredits[
+			getVisibilityKey(visibilityId)
+		];
+		return (
+			visibility.creator,
+			visibility.totalSupply,
+			visibility.claimableFeeBalance
+		);
+	}
+
+	function getCreatorAttestationNonce(
+		string calldata visibilityId
+	) external view returns (uint256) {
+		return
+			visibilityCredits[getVisibilityKey(visibilityId)].attestationNonce;
+	}
+
+	function getVisibilityCurve(
+		string calldata visibilityId
+	) external view returns (uint256 a, uint256 b, uint256 basePrice) {
+		CurveParams memory curve = _getCurve(
+			visibilityCredits[getVisibilityKey(visibilityId)]
+		);
+		return (curve.a, curve.b, curve.basePrice);
+	}
+
+	function getVisibilityCreditBalance(
+		string calldata visibilityId,
+		address account
+	) external view returns (uint256) {
+		return
+			visibilityCredits[getVisibilityKey(visibilityId)].creditBalances[
+				account
+			];
+	}
+
+	function getVisibilityCreditBalanceByKey(
+		bytes32 visibilityKey,
+		address account
+	) external view returns (uint256) {
+		return visibilityCredits[visibilityKey].creditBalances[account];
+	}
+
+	function isOperatorApproved(
+		string calldata visibilityId,
+		address owner,
+		address operator
+	) external view returns (bool) {
+		return
+			visibilityCredits[getVisibilityKey(visibilityId)]
+				.operatorApprovals[owner][operator];
+	}
+
+	function getVisibilityCurrentPrice(
+		string calldata visibilityId
+	) external view returns (uint256) {
+		Visibility storage visibility = visibilityCredits[
+			getVisibilityKey(visibilityId)
+		];
+		return _getCurrentPrice(_getCurve(visibility), visibility.totalSupply);
+	}
+
+	function buyCostWithFees(
+		string calldata visibilityId,
+		uint256 amount,
+		address referrer
+	)
+		external
+		view
+		returns (
+			uint256 totalCost,
+			uint256 tradeCost,
+			uint256 creatorFee,
+			uint256 protocolFee,
+			uint256 referrerFee
+		)
+	{
+		Visibility storage visibility = visibilityCredits[
+			getVisibilityKey(visibilityId)
+		];
+		(tradeCost, creatorFee, protocolFee, referrerFee) = _tradeCostWithFees(
+			_getCurve(visibility),
+			visibility.totalSupply,
+			amount,
+			true,
+			referrer
+		);
+		totalCost = tradeCost + creatorFee + protocolFee + referrerFee;
+	}
+
+	function sellCostWithFees(
+		string calldata visibilityId,
+		uint256 amount,
+		address referrer
+	)
+		external
+		view
+		returns (
+			uint256 reimbursement,
+			uint256 tradeCost,
+			uint256 creatorFee,
+			uint256 protocolFee,
+			uint256 referrerFee
+		)
+	{
+		Visibility storage visibility = visibilityCredits[
+			getVisibilityKey(visibilityId)
+		];
+		(tradeCost, creatorFee, protocolFee, referrerFee) = _tradeCostWithFees(
+			_getCurve(visibility),
+			visibility.totalSupply,
+			amount,
+			false,
+			referrer
+		);
+		reimbursement = tradeCost - creatorFee - protocolFee - referrerFee;
+	}
+
+	function getPlatform(
+		string calldata prefix
+	) external view returns (PlatformRules memory) {
+		return _platforms[keccak256(bytes(prefix))];
+	}
 
-	address payable public protocolTreasury;
+	function getVisibilityKey(
+		string calldata visibilityId
+	) public pure returns (bytes32) {
+		return keccak256(abi.encode(visibilityId));
+	}
 
 	/**
-	 * @notice This contract is agnostic to specific visibility interfaces.
-	 *         We define a naming convention for visibility IDs: `{platformPrefix}-{creatorHandle}`.
-	 *         For example, `x-VitalikButerin` links visibility credits to Vitalik Buterin's X (formerly Twitter) account.
-	 *         This approach allows for easy extension to other platforms by using different prefixes.
-	 *
-	 * @dev Access a creator's visibility information using `visibilityCredits[visibilityId]`, where:
-	 *      `bytes32 visibilityId = keccak256(abi.encode(visibilityIdString));`
+	 * @notice Whether a visibility ID is a canonical `{platformPrefix}-{creatorHandle}`
+	 *         of an enabled platform, required for its first trade.
 	 */
-	mapping(bytes32 => Visibility) public visibilityCredits;
+	function isValidVisibilityId(
+		string calldata visibilityId
+	) public view returns (bool) {
+		bytes calldata id = bytes(visibilityId);
 
-	/**
-	 * @notice Initializes the contract with the protocol treasury and creator linker.
-	 * @param treasury The address of the protocol treasury.
-	 * @param creatorLinker The address that can set creators for visibility IDs.
-	 *
-	 * @dev Contract deployer is the default admin (`DEFAULT_ADMIN_ROLE`) at deployment.
-	 *      The `AccessControlDefaultAdminRules` contract manages admin access with a delay for changes.
-	 */
-	constructor(
-		address treasury,
-		address creatorLinker
-	) AccessControlDefaultAdminRules(3 days, msg.sender) {
-		if (PROTOCOL_FEE <= REFERRER_FEE) revert InvalidFeeParams();
+		uint256 separatorIndex;
+		while (separatorIndex < id.length && id[separatorIndex] != "-") {
+			separatorIndex++;
+		}
+		if (separatorIndex == 0 || separatorIndex == id.length) {
+			return false;
+		}
 
-		if (treasury == address(0)) revert InvalidAddress();
-		protocolTreasury = payable(treasury);
+		PlatformRules storage rules = _platforms[
+			keccak256(id[:separatorIndex])
+		];
+		uint256 handleLength = id.length - separatorIndex - 1;
+
+		if (
+			!rules.enabled ||
+			handleLength < rules.minHandleLength ||
+			handleLength > rules.maxHandleLength
+		) {
+			return false;
+		}
 
-		if (creatorLinker == address(0)) revert InvalidAddress();
-		_grantRole(CREATORS_CHECKER_ROLE, creatorLinker);
+		bytes memory allowedSymbols = bytes(rules.allowedSymbols);
+		bool lowercase = rules.lowercase;
+
+		for (uint256 i = separatorIndex + 1; i < id.length; i++) {
+			bytes1 char = id[i];
+			if ((char >= "a" && char <= "z") || (char >= "0" && char <= "9")) {
+				continue;
+			}
+			if (char >= "A" && char <= "Z") {
+				if (lowercase) {
+					return false;
+				}
+				continue;
+			}
+			if (!_containsByte(allowedSymbols, char)) {
+				return false;
+			}
+		}
+
+		return true;
 	}
 
 	/**
-	 * @notice Buys a specified amount of visibility credits.
-	 * @dev Users must send sufficient Ether to cover the cost and fees.
-	 * @param visibilityId The ID representing the visibility credits.
-	 * @param amount The amount of credits to buy.
-	 * @param referrer The address of the referrer (optional).
+	 * @dev Buys credits for `msg.sender`, reverting if the total cost exceeds `maxTotalCost`.
+	 *      The caller must `_settle` the returned total cost.
 	 */
-	function buyCredits(
+	function _buyCredits(
 		string calldata visibilityId,
 		uint256 amount,
-		address referrer
-	) external payable nonReentrant {
+		address referrer,
+		uint256 maxTotalCost
+	) private returns (uint256 totalCost) {
 		Visibility storage visibility = visibilityCredits[
 			getVisibilityKey(visibilityId)
 		];
 
 		uint256 totalSupply = visibility.totalSupply;
 
+		if (totalSupply == 0 && !isValidVisibilityId(visibilityId)) {
+			revert InvalidVisibilityId();
+		}
+
+		CurveParams memory curve = _getCurve(visibility);
+
 		(
 			uint256 tradeCost,
 			uint256 creatorFee,
 			uint256 protocolFee,
 			uint256 referrerFee
-		) = _tradeCostWithFees(totalSupply, amount, true, referrer);
+		) = _tradeCostWithFees(curve, totalSupply, amount, true, referrer);
 
-		uint256 totalCost = tradeCost + creatorFee + protocolFee + referrerFee;
+		totalCost = tradeCost + creatorFee + protocolFee + referrerFee;
 
-		if (msg.value < totalCost) {
-			revert NotEnoughEthSent();
+		if (totalCost > maxTotalCost) {
+			revert MaxTotalCostExceeded();
 		}
 
 		if (totalSupply + amount > MAX_TOTAL_SUPPLY) {
@@ -125,16 +888,17 @@ contract VisibilityCredits is
 		visibility.creditBalances[msg.sender] += amount;
 
 		if (referrerFee > 0) {
-			Address.sendValue(payable(referrer), referrerFee);
+			claimableReferrerFees[referrer] += referrerFee;
 		}
 
-		Address.sendValue(protocolTreasury, protocolFee);
+		claimableProtocolFees += protocolFee;
 
-		// Refund excess Ether sent
-		if (msg.value > totalCost) {
-			Address.sendValue(payable(msg.sender), msg.value - totalCost);
+		if (!_creditsIssued) {
+			_creditsIssued = true;
 		}
 
+		_notifyTokenAdapter(address(0), msg.sender, visibilityId, amount);
+
 		CreditsTradeEvent memory tradeEvent = CreditsTradeEvent({
 			from: msg.sender,
 			visibilityId: visibilityId,
@@ -146,24 +910,22 @@ contract VisibilityCredits is
 			referrerFee: referrerFee,
 			referrer: referrer,
 			newTotalSupply: totalSupply,
-			newCurrentPrice: _getCurrentPrice(totalSupply)
+			newCurrentPrice: _getCurrentPrice(curve, totalSupply)
 		});
 
 		emit CreditsTrade(tradeEvent);
 	}
 
 	/**
-	 * @notice Sells a specified amount of visibility credits.
-	 * @dev Users receive Ether minus applicable fees.
-	 * @param visibilityId The ID representing the visibility credits.
-	 * @param amount The amount of credits to sell.
-	 * @param referrer The address of the referrer (optional).
+	 * @dev Sells credits of `msg.sender`, reverting if the reimbursement is below `minReimbursement`.
+	 *      The caller must `_settle` the returned reimbursement.
 	 */
-	function sellCredits(
+	function _sellCredits(
 		string calldata visibilityId,
 		uint256 amount,
-		address referrer
-	) external nonReentrant {
+		address referrer,
+		uint256 minReimbursement
+	) private returns (uint256 reimbursement) {
 		Visibility storage visibility = visibilityCredits[
 			getVisibilityKey(visibilityId)
 		];
@@ -173,19 +935,24 @@ contract VisibilityCredits is
 		}
 
 		uint256 totalSupply = visibility.totalSupply;
+		CurveParams memory curve = _getCurve(visibility);
 
 		(
 			uint256 tradeCost,
 			uint256 creatorFee,
 			uint256 protocolFee,
 			uint256 referrerFee
-		) = _tradeCostWithFees(totalSupply, amount, false, referrer);
+		) = _tradeCostWithFees(curve, totalSupply, amount, false, referrer);
 
-		uint256 reimbursement = tradeCost -
+		reimbursement = tradeCost -
 			creatorFee -
 			protocolFee -
 			referrerFee;
 
+		if (reimbursement < minReimbursement) {
+			revert MinReimbursementNotReached();
+		}
+
 		totalSupply -= amount;
 
 		visibility.totalSupply = totalSupply;
@@ -193,13 +960,13 @@ contract VisibilityCredits is
 
 		visibility.creditBalances[msg.sender] -= amount;
 
-		Address.sendValue(payable(msg.sender), reimbursement);
-
 		if (referrerFee > 0) {
-			Address.sendValue(payable(referrer), referrerFee);
+			claimableReferrerFees[referrer] += referrerFee;
 		}
 
-		Address.sendValue(protocolTreasury, protocolFee);
+		claimableProtocolFees += protocolFee;
+
+		_notifyTokenAdapter(msg.sender, address(0), visibilityId, amount);
 
 		CreditsTradeEvent memory tradeEvent = CreditsTradeEvent({
 			from: msg.sender,
@@ -212,85 +979,36 @@ contract VisibilityCredits is
 			referrerFee: referrerFee,
 			referrer: referrer,
 			newTotalSupply: totalSupply,
-			newCurrentPrice: _getCurrentPrice(totalSupply)
+			newCurrentPrice: _getCurrentPrice(curve, totalSupply)
 		});
 
 		emit CreditsTrade(tradeEvent);
 	}
 
-	/**
-	 * @notice Allows creators to claim their accumulated fees.
-	 * @param visibilityId The ID representing the visibility credits.
-	 */
-	function claimCreatorFee(
-		string calldata visibilityId
-	) external nonReentrant {
-		Visibility storage visibility = visibilityCredits[
-			getVisibilityKey(visibilityId)
-		];
-
-		uint256 claimableFeeBalance = visibility.claimableFeeBalance;
-
-		if (claimableFeeBalance == 0) {
-			revert InvalidAmount();
-		}
-
-		address creator = visibility.creator;
-
-		if (creator == address(0)) {
-			revert InvalidCreator();
-		}
-
-		visibility.claimableFeeBalance = 0;
-
-		Address.sendValue(payable(creator), claimableFeeBalance);
-
-		emit CreatorFeeClaimed(creator, claimableFeeBalance);
-	}
-
-	/**
-	 * @notice Grants the `CREDITS_TRANSFER_ROLE` to a specified account.
-	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
-	 * @param grantee The address to grant the role. *
-	 */
-	function grantCreatorTransferRole(
-		address grantee
-	) external onlyRole(DEFAULT_ADMIN_ROLE) {
-		_grantRole(CREDITS_TRANSFER_ROLE, grantee);
-	}
-
-	/**
-	 * @notice Sets the creator for a specific visibility ID.
-	 * @dev Only callable by an account with the `CREATORS_CHECKER_ROLE`.
-	 * @param visibilityId The ID representing the visibility credits.
-	 * @param creator The address of the creator, can be address(0).
-	 */
-	function setCreatorVisibility(
+	function _setCreatorVisibility(
 		string calldata visibilityId,
 		address creator
-	) external onlyRole(CREATORS_CHECKER_ROLE) {
+	) private {
 		Visibility storage visibility = visibilityCredits[
 			getVisibilityKey(visibilityId)
 		];
 		visibility.creator = creator;
+		visibility.attestationNonce++;
 
 		emit CreatorVisibilitySet(visibilityId, creator);
 	}
 
-	/**
-	 * @notice Transfers visibility credits between users.
-	 * @dev Only callable by an account with the `CREDITS_TRANSFER_ROLE`.
-	 * @param visibilityId The ID representing the visibility credits.
-	 * @param from The address to transfer credits from.
-	 * @param to The address to transfer credits to.
-	 * @param amount The amount of credits to transfer.
-	 */
-	function transferCredits(
+	function _transferCredits(
 		string calldata visibilityId,
 		address from,
 		address to,
 		uint256 amount
-	) external onlyRole(CREDITS_TRANSFER_ROLE) {
+	) private {
+		// credits only leave the supply through sells
+		if (to == address(0)) {
+			revert InvalidAddress();
+		}
+
 		Visibility storage visibility = visibilityCredits[
 			getVisibilityKey(visibilityId)
 		];
@@ -303,128 +1021,145 @@ contract VisibilityCredits is
 		visibility.creditBalances[to] += amount;
 
 		emit CreditsTransfer(visibilityId, from, to, amount);
+
+		_notifyTokenAdapter(from, to, visibilityId, amount);
+	}
+
+	function _notifyTokenAdapter(
+		address from,
+		address to,
+		string calldata visibilityId,
+		uint256 amount
+	) private {
+		if (address(tokenAdapter) != address(0)) {
+			tokenAdapter.onCreditsTransfer(
+				msg.sender,
+				from,
+				to,
+				visibilityId,
+				amount
+			);
+		}
 	}
 
 	/**
-	 * @notice Updates the protocol treasury address.
-	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
-	 * @param treasury The address of the new protocol treasury (cannot be address(0)).
+	 * @dev Settles trades with `msg.sender`: the Ether sent plus the `reimbursement`
+	 *      must cover the `cost`, the excess is sent back.
 	 */
-	function updateTreasury(
-		address treasury
-	) external onlyRole(DEFAULT_ADMIN_ROLE) {
-		if (treasury == address(0)) {
-			revert InvalidAddress();
+	function _settle(uint256 cost, uint256 reimbursement) private {
+		uint256 available = msg.value + reimbursement;
+
+		if (available < cost) {
+			revert NotEnoughEthSent();
+		}
+
+		if (available > cost) {
+			Address.sendValue(payable(msg.sender), available - cost);
 		}
-		protocolTreasury = payable(treasury);
 	}
 
-	function getVisibility(
-		string calldata visibilityId
-	)
-		external
-		view
-		returns (
-			address creator,
-			uint256 totalSupply,
-			uint256 claimableFeeBalance
-		)
-	{
-		Visibility storage visibility = visibilityCredits[
-			getVisibilityKey(visibilityId)
-		];
-		return (
-			visibility.creator,
-			visibility.totalSupply,
-			visibility.claimableFeeBalance
-		);
+	function _checkDeadline(uint256 deadline) private view {
+		if (block.timestamp > deadline) {
+			revert DeadlineExpired();
+		}
 	}
 
-	function getVisibilityCreditBalance(
-		string calldata visibilityId,
-		address account
-	) external view returns (uint256) {
-		return
-			visibilityCredits[getVisibilityKey(visibilityId)].creditBalances[
-				account
-			];
+	/**
+	 * @dev Returns the curve profile of a visibility, falling back to the default parameters.
+	 */
+	function _getCurve(
+		Visibility storage visibility
+	) private view returns (CurveParams memory curve) {
+		curve = visibility.curve;
+		if (curve.basePrice == 0) {
+			curve = CurveParams({ a: A, b: B, basePrice: BASE_PRICE });
+		}
 	}
 
-	function getVisibilityCurrentPrice(
-		string calldata visibilityId
-	) external view returns (uint256) {
-		return
-			_getCurrentPrice(
-				visibilityCredits[getVisibilityKey(visibilityId)].totalSupply
-			);
+	function _setPlatform(
+		string memory prefix,
+		PlatformRules memory rules
+	) private {
+		bytes memory prefixBytes = bytes(prefix);
+		if (
+			prefixBytes.length == 0 ||
+			prefixBytes.length > MAX_PLATFORM_PREFIX_LENGTH ||
+			rules.minHandleLength == 0 ||
+			rules.minHandleLength > rules.maxHandleLength
+		) {
+			revert InvalidPlatformRules();
+		}
+
+		for (uint256 i = 0; i < prefixBytes.length; i++) {
+			bytes1 char = prefixBytes[i];
+			if (
+				!((char >= "a" && char <= "z") || (char >= "0" && char <= "9"))
+			) {
+				revert InvalidPlatformRules();
+			}
+		}
+
+		_platforms[keccak256(prefixBytes)] = rules;
+
+		emit PlatformSet(prefix, rules);
 	}
 
-	function buyCostWithFees(
-		string calldata visibilityId,
-		uint256 amount,
-		address referrer
-	)
-		external
-		view
-		returns (
-			uint256 totalCost,
-			uint256 tradeCost,
-			uint256 creatorFee,
-			uint256 protocolFee,
-			uint256 referrerFee
-		)
-	{
-		uint256 totalSupply = visibilityCredits[getVisibilityKey(visibilityId)]
-			.totalSupply;
-		(tradeCost, creatorFee, protocolFee, referrerFee) = _tradeCostWithFees(
-			totalSupply,
-			amount,
-			true,
-			referrer
-		);
-		totalCost = tradeCost + creatorFee + protocolFee + referrerFee;
+	function _containsByte(
+		bytes memory data,
+		bytes1 value
+	) private pure returns (bool) {
+		for (uint256 i = 0; i < data.length; i++) {
+			if (data[i] == value) {
+				return true;
+			}
+		}
+		return false;
 	}
 
-	function sellCostWithFees(
-		string calldata visibilityId,
-		uint256 amount,
-		address referrer
-	)
-		external
-		view
-		returns (
-			uint256 reimbursement,
-			uint256 tradeCost,
-			uint256 creatorFee,
-			uint256 protocolFee,
-			uint256 referrerFee
-		)
-	{
-		uint256 totalSupply = visibilityCredits[getVisibilityKey(visibilityId)]
-			.totalSupply;
-		(tradeCost, creatorFee, protocolFee, referrerFee) = _tradeCostWithFees(
-			totalSupply,
-			amount,
-			false,
-			referrer
+	function _setFees(FeeParams memory newFees) private {
+		_checkFees(newFees);
+		fees = newFees;
+
+		emit FeeChangeApplied(
+			newFees.creatorFee,
+			newFees.protocolFee,
+			newFees.referrerFee
 		);
-		reimbursement = tradeCost - creatorFee - protocolFee - referrerFee;
 	}
 
-	function getVisibilityKey(
-		string calldata visibilityId
-	) public pure returns (bytes32) {
-		return keccak256(abi.encode(visibilityId));
+	/**
+	 * @dev Sets the pending fee change, emitting `FeeChangeCanceled` if one was replaced.
+	 */
+	function _setPendingFees(
+		FeeParams memory newFees,
+		uint48 effectSchedule
+	) private {
+		if (_pendingFeesSchedule != 0) {
+			emit FeeChangeCanceled();
+		}
+
+		_pendingFees = newFees;
+		_pendingFeesSchedule = effectSchedule;
+	}
+
+	function _checkFees(FeeParams memory newFees) private pure {
+		if (
+			newFees.protocolFee <= newFees.referrerFee ||
+			newFees.creatorFee + newFees.protocolFee > MAX_TOTAL_FEE
+		) {
+			revert InvalidFeeParams();
+		}
 	}
 
 	function _tradeCostWithFees(
+		CurveParams memory curve,
 		uint256 totalSupply,
 		uint256 amount,
 		bool isBuy,
 		address referrer
 	)
 		private
-		pure
+		view
 		returns (
 			uint256 tradeCost,
 			uint256 creatorFee,
@@ -440,30 +1175,37 @@ contract VisibilityCredits is
 
 		uint256 fromSupply = isBuy ? totalSupply : totalSupply - amount;
 
-		tradeCost = _tradeCost(fromSupply, amount);
+		tradeCost = _tradeCost(curve, fromSupply, amount);
+
+		FeeParams memory tradeFees = fees;
 
-		creatorFee = (tradeCost * CREATOR_FEE) / FEE_DENOMINATOR;
+		creatorFee = (tradeCost * tradeFees.creatorFee) / FEE_DENOMINATOR;
 
 		if (referrer != address(0)) {
-			referrerFee = (tradeCost * REFERRER_FEE) / FEE_DENOMINATOR;
+			referrerFee = (tradeCost * tradeFees.referrerFee) / FEE_DENOMINATOR;
 			protocolFee =
-				(tradeCost * (PROTOCOL_FEE - REFERRER_FEE)) /
+				(tradeCost * (tradeFees.protocolFee - tradeFees.referrerFee)) /
 				FEE_DENOMINATOR;
 		} else {
-			protocolFee = (tradeCost * PROTOCOL_FEE) / FEE_DENOMINATOR;
+			protocolFee = (tradeCost * tradeFees.protocolFee) / FEE_DENOMINATOR;
 		}
 	}
 
 	/**
 	 * @dev Calculates the current price per visibility credit based on the total supply.
+	 * @param curve The bonding curve parameters of the visibility.
 	 * @param totalSupply The current total supply of visibility credits.
 	 * @return The current price per credit in wei.
 	 */
 	function _getCurrentPrice(
+		CurveParams memory curve,
 		uint256 totalSupply
 	) private pure returns (uint256) {
 		// Compute the current price using the bonding curve formula
-		return BASE_PRICE + (A * (totalSupply ** 2)) + (B * totalSupply);
+		return
+			curve.basePrice +
+			(curve.a * (totalSupply ** 2)) +
+			(curve.b * totalSupply);
 	}
 
 	/**
@@ -487,11 +1229,13 @@ contract VisibilityCredits is
 	 *        - When fromSupply is zero (e.g., initial purchase or selling all credits),
 	 *          special care is taken to avoid underflow in calculations.
 	 *
+	 * @param curve The bonding curve parameters of the visibility.
 	 * @param fromSupply The total supply of visibility credits before the trade if buying, or after the trade if selling.
 	 * @param amount The amount of credits to buy or sell.
 	 * @return The total cost in wei for the transaction.
 	 */
 	function _tradeCost(
+		CurveParams memory curve,
 		uint256 fromSupply,
 		uint256 amount
 	) private pure returns (uint256) {
@@ -539,6 +1283,9 @@ contract VisibilityCredits is
 		}
 
 		// Total cost is the sum of base prices and the bonding curve contributions
-		return (BASE_PRICE * amount) + (A * sumSquares) + (B * sumFirstN);
+		return
+			(curve.basePrice * amount) +
+			(curve.a * sumSquares) +
+			(curve.b * sumFirstN);
 	}
 }
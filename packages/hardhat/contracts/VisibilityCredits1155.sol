@@ -0,0 +1,149 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/interfaces/draft-IERC6093.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165.sol";
+import "./interfaces/IVisibilityCredits.sol";
+import "./interfaces/IVisibilityCreditsAdapter.sol";
+
+/**
+ * @title VisibilityCredits1155
+ * @notice Read-only ERC-1155 view of visibility credits, so that wallets, explorers
+ *         and marketplaces can display them.
+ * @dev The token ID of a visibility is `uint256(getVisibilityKey(visibilityId))`.
+ *      Balances are read from `VisibilityCredits`, which notifies this contract of
+ *      every mint, burn and transfer to emit the matching `TransferSingle` events.
+ *
+ *      Credits cannot be moved through this contract: use `transferCreditsFrom`
+ *      and `setOperatorApproval` on `VisibilityCredits`.
+ */
+contract VisibilityCredits1155 is
+	IERC1155,
+	IERC1155MetadataURI,
+	IERC1155Errors,
+	IVisibilityCreditsAdapter,
+	ERC165
+{
+	IVisibilityCredits public immutable visibilityCredits;
+
+	/// @notice Prefix of the metadata URIs, completed with the visibility ID.
+	string public baseURI;
+
+	/// @notice Visibility ID of each token ID, set on its first credit movement.
+	mapping(uint256 => string) public visibilityIds;
+
+	error NotVisibilityCredits();
+	error TransfersNotSupported();
+
+	constructor(address _visibilityCredits, string memory _baseURI) {
+		visibilityCredits = IVisibilityCredits(_visibilityCredits);
+		baseURI = _baseURI;
+	}
+
+	/**
+	 * @notice Mirrors a credit movement of `VisibilityCredits`.
+	 * @dev Only callable by the `VisibilityCredits` contract.
+	 */
+	function onCreditsTransfer(
+		address operator,
+		address from,
+		address to,
+		string calldata visibilityId,
+		uint256 amount
+	) external {
+		if (msg.sender != address(visibilityCredits)) {
+			revert NotVisibilityCredits();
+		}
+
+		uint256 id = getTokenId(visibilityId);
+
+		if (bytes(visibilityIds[id]).length == 0) {
+			visibilityIds[id] = visibilityId;
+			emit URI(string.concat(baseURI, visibilityId), id);
+		}
+
+		emit TransferSingle(operator, from, to, id, amount);
+	}
+
+	function safeTransferFrom(
+		address,
+		address,
+		uint256,
+		uint256,
+		bytes calldata
+	) external pure {
+		revert TransfersNotSupported();
+	}
+
+	function safeBatchTransferFrom(
+		address,
+		address,
+		uint256[] calldata,
+		uint256[] calldata,
+		bytes calldata
+	) external pure {
+		revert TransfersNotSupported();
+	}
+
+	function setApprovalForAll(address, bool) external pure {
+		revert TransfersNotSupported();
+	}
+
+	function balanceOf(
+		address account,
+		uint256 id
+	) public view returns (uint256) {
+		return
+			visibilityCredits.getVisibilityCreditBalanceByKey(
+				bytes32(id),
+				account
+			);
+	}
+
+	function balanceOfBatch(
+		address[] calldata accounts,
+		uint256[] calldata ids
+	) external view returns (uint256[] memory balances) {
+		if (accounts.length != ids.length) {
+			revert ERC1155InvalidArrayLength(ids.length, accounts.length);
+		}
+
+		balances = new uint256[](accounts.length);
+		for (uint256 i = 0; i < accounts.length; i++) {
+			balances[i] = balanceOf(accounts[i], ids[i]);
+		}
+	}
+
+	function isApprovedForAll(address, address) external pure returns (bool) {
+		return false;
+	}
+
+	/**
+	 * @notice Returns the metadata URI of a token ID, empty if no credits of
+	 *         its visibility were ever traded.
+	 */
+	function uri(uint256 id) external view returns (string memory) {
+		string memory visibilityId = visibilityIds[id];
+		if (bytes(visibilityId).length == 0) {
+			return "";
+		}
+		return string.concat(baseURI, visibilityId);
+	}
+
+	function getTokenId(
+		string calldata visibilityId
+	) public view returns (uint256) {
+		return uint256(visibilityCredits.getVisibilityKey(visibilityId));
+	}
+
+	function supportsInterface(
+		bytes4 interfaceId
+	) public view override(ERC165, IERC165) returns (bool) {
+		return
+			interfaceId == type(IERC1155).interfaceId ||
+			interfaceId == type(IERC1155MetadataURI).interfaceId ||
+			super.supportsInterface(interfaceId);
+	}
+}
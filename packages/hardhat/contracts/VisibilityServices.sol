@@ -16,7 +16,8 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		ACCEPTED,
 		DISPUTED,
 		REFUNDED,
-		VALIDATED
+		VALIDATED,
+		SPLIT
 	}
 
 	// Struct for tracking service execution details
@@ -24,16 +25,26 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		ExecutionState state; // Current state of the execution
 		address requester; // Address that requested the execution
 		uint256 lastUpdateTimestamp; // Timestamp of the last update
+		uint256 creditsCostAmount; // Credits escrowed at request time, unaffected by later price updates
+		uint256 acceptanceDeadline; // Timestamp after which a REQUESTED execution can be expired
+		uint256 disputeDeadline; // Timestamp after which a DISPUTED execution can be settled by default
+		uint256 defaultRefundBps; // Share refunded by the default outcome, fixed when disputed
+		uint256 disputeBondAmount; // Credits posted by the requester when disputing, released with the dispute
 	}
 
 	// Struct representing a service
 	struct Service {
 		bool enabled; // Indicates if the service is active
 		string serviceType; // Service type identifier (e.g., "x-post" for post publication)
-		string visibilityId; // Visibility identifier (e.g., "x-VitalikButerin" for specific accounts)
+		string visibilityId; // Visibility identifier (e.g., "x-vitalikbuterin" for specific accounts)
 		uint256 creditsCostAmount; // Cost in credits for the service
 		uint256 executionsNonce; // Counter for execution IDs
 		mapping(uint256 => Execution) executions; // Mapping of executions by nonce
+		string metadataURI; // Description and terms of the deliverable
+		uint256 maxOpenExecutions; // Maximum executions in progress at once, 0 for no limit
+		uint256 openExecutions; // Executions requested and not yet refunded or validated
+		uint256 acceptanceDelay; // Time given to the creator to accept a request
+		uint256 validationDelay; // Time given to the requester to review an accepted execution
 	}
 
 	// Events emitted for various service actions
@@ -41,10 +52,19 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		uint256 indexed nonce,
 		string serviceType,
 		string visibilityId,
-		uint256 creditsCostAmount
+		uint256 creditsCostAmount,
+		uint256 validationDelay,
+		uint256 acceptanceDelay
 	);
 
-	event ServiceUpdated(uint256 indexed nonce, bool enabled);
+	event ServiceUpdated(
+		uint256 indexed nonce,
+		bool enabled,
+		uint256 creditsCostAmount,
+		string metadataURI,
+		uint256 maxOpenExecutions,
+		uint256 acceptanceDelay
+	);
 
 	event ServiceExecutionRequested(
 		uint256 indexed serviceNonce,
@@ -60,6 +80,11 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		string cancelData
 	);
 
+	event ServiceExecutionExpired(
+		uint256 indexed serviceNonce,
+		uint256 indexed executionNonce
+	);
+
 	event ServiceExecutionAccepted(
 		uint256 indexed serviceNonce,
 		uint256 indexed executionNonce,
@@ -77,25 +102,78 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		string disputeData
 	);
 
+	event ServiceExecutionEvidenceSubmitted(
+		uint256 indexed serviceNonce,
+		uint256 indexed executionNonce,
+		address indexed from,
+		string evidence
+	);
+
 	event ServiceExecutionResolved(
 		uint256 indexed serviceNonce,
 		uint256 indexed executionNonce,
-		bool refund,
+		uint256 refundBps,
+		uint256 refundAmount,
+		uint256 creatorAmount,
 		string resolveData
 	);
 
+	event ServiceExecutionDisputeDefaulted(
+		uint256 indexed serviceNonce,
+		uint256 indexed executionNonce,
+		address indexed from,
+		uint256 refundBps,
+		uint256 refundAmount,
+		uint256 creatorAmount
+	);
+
+	event DisputeDefaultsUpdated(
+		uint256 disputeResolutionDelay,
+		uint256 defaultRefundBps
+	);
+
+	event DisputeBondUpdated(uint256 disputeBondBps);
+
+	event DisputeBondPosted(
+		uint256 indexed serviceNonce,
+		uint256 indexed executionNonce,
+		uint256 bondAmount
+	);
+
+	event DisputeBondReleased(
+		uint256 indexed serviceNonce,
+		uint256 indexed executionNonce,
+		uint256 requesterAmount,
+		uint256 creatorAmount
+	);
+
 	// Custom errors for more specific revert reasons
+	error AcceptanceDeadlineNotReached(); // Error for expiring a request before its acceptance deadline
 	error DisabledService(); // Error for using a disabled service
+	error ExecutionsLimitReached(); // Error for requesting a service with too many executions in progress
+	error ExecutionExpired(); // Error for accepting a request after its acceptance deadline
+	error InvalidAcceptanceDelay(); // Error for a service without acceptance window
+	error InvalidValidationDelay(); // Error for a validation window out of the protocol bounds
 	error InvalidAddress(); // Error for invalid address inputs
 	error InvalidCreator(); // Error for invalid creator authentication
+	error InvalidDisputeBondBps(); // Error for a dispute bond above the execution cost
+	error InvalidDisputeResolutionDelay(); // Error for a dispute without resolution window
 	error InvalidExecutionState(); // Error for invalid execution state transitions
+	error InvalidRefundBps(); // Error for a refund share above 100%
 	error UnauthorizedExecutionAction(); // Error for unauthorized execution actions
 
-	uint256 public constant AUTO_VALIDATION_DELAY = 5 days; // Auto-validation delay period
+	uint256 public constant MIN_VALIDATION_DELAY = 1 days; // Shortest auto-validation delay of a service
+	uint256 public constant MAX_VALIDATION_DELAY = 30 days; // Longest auto-validation delay of a service
+
+	uint256 public constant BPS_DENOMINATOR = 10000; // Basis points of a dispute resolution split
 
 	bytes32 public constant DISPUTE_RESOLVER_ROLE =
 		keccak256("DISPUTE_RESOLVER_ROLE"); // Role identifier for dispute resolution
 
+	uint256 public disputeResolutionDelay; // Time given to the dispute resolver before the default outcome
+	uint256 public defaultRefundBps; // Share refunded to the requester by the default outcome, in basis points
+	uint256 public disputeBondBps; // Share of the execution cost posted by a disputing requester, 0 for no bond
+
 	uint256 public servicesNonce; // Counter for service IDs
 	mapping(uint256 => Service) public services; // Mapping of services by nonce
 
@@ -112,6 +190,39 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 	) AccessControlDefaultAdminRules(3 days, msg.sender) {
 		_grantRole(DISPUTE_RESOLVER_ROLE, disputeResolver);
 		visibilityCredits = IVisibilityCredits(_visibilityCredits);
+
+		// absent a resolution within a week, the requester gets a full refund
+		_setDisputeDefaults(7 days, BPS_DENOMINATOR);
+	}
+
+	/**
+	 * @notice Sets the dispute resolution window and the outcome applied once it has passed.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 *      Executions already disputed keep their deadline and default outcome.
+	 * @param _disputeResolutionDelay The time given to the dispute resolver.
+	 * @param _defaultRefundBps The share refunded to the requester by default, in basis points.
+	 */
+	function setDisputeDefaults(
+		uint256 _disputeResolutionDelay,
+		uint256 _defaultRefundBps
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		_setDisputeDefaults(_disputeResolutionDelay, _defaultRefundBps);
+	}
+
+	/**
+	 * @notice Sets the bond a requester posts, in credits, to dispute an execution.
+	 * @dev Only callable by an account with the `DEFAULT_ADMIN_ROLE`.
+	 *      Executions already disputed keep the bond they posted.
+	 * @param _disputeBondBps The bond as a share of the execution cost, in basis points, 0 for no bond.
+	 */
+	function setDisputeBondBps(
+		uint256 _disputeBondBps
+	) external onlyRole(DEFAULT_ADMIN_ROLE) {
+		if (_disputeBondBps > BPS_DENOMINATOR) revert InvalidDisputeBondBps();
+
+		disputeBondBps = _disputeBondBps;
+
+		emit DisputeBondUpdated(_disputeBondBps);
 	}
 
 	/**
@@ -119,14 +230,23 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 	 * @param serviceType The type of the service.
 	 * @param visibilityId The visibility ID associated with the service.
 	 * @param creditsCostAmount The cost in credits for the service.
+	 * @param validationDelay The time after acceptance from which anyone can validate an execution.
+	 * @param acceptanceDelay The time given to accept a request before it can be expired.
 	 */
 	function createService(
 		string memory serviceType,
 		string memory visibilityId,
-		uint256 creditsCostAmount
+		uint256 creditsCostAmount,
+		uint256 validationDelay,
+		uint256 acceptanceDelay
 	) external {
 		(address creator, , ) = visibilityCredits.getVisibility(visibilityId);
 		if (creator != msg.sender) revert InvalidCreator();
+		if (
+			validationDelay < MIN_VALIDATION_DELAY ||
+			validationDelay > MAX_VALIDATION_DELAY
+		) revert InvalidValidationDelay();
+		if (acceptanceDelay == 0) revert InvalidAcceptanceDelay();
 
 		uint256 nonce = servicesNonce;
 		services[nonce].enabled = true;
@@ -134,30 +254,59 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		services[nonce].visibilityId = visibilityId;
 		services[nonce].creditsCostAmount = creditsCostAmount;
 		services[nonce].executionsNonce = 0;
+		services[nonce].acceptanceDelay = acceptanceDelay;
+		services[nonce].validationDelay = validationDelay;
 
 		servicesNonce += 1;
 		emit ServiceCreated(
 			nonce,
 			serviceType,
 			visibilityId,
-			creditsCostAmount
+			creditsCostAmount,
+			validationDelay,
+			acceptanceDelay
 		);
 	}
 
 	/**
-	 * @notice Updates the status of an existing service.
+	 * @notice Updates the status and terms of an existing service.
+	 * @dev Executions already requested keep the cost they escrowed.
 	 * @param serviceNonce The ID of the service to update.
 	 * @param enabled The new status of the service (true for enabled, false for disabled).
+	 * @param creditsCostAmount The new cost in credits for the service.
+	 * @param metadataURI The URI describing the deliverable and its terms.
+	 * @param maxOpenExecutions The maximum executions in progress at once, 0 for no limit.
+	 * @param acceptanceDelay The time given to accept a request before it can be expired.
 	 */
-	function updateService(uint256 serviceNonce, bool enabled) external {
+	function updateService(
+		uint256 serviceNonce,
+		bool enabled,
+		uint256 creditsCostAmount,
+		string calldata metadataURI,
+		uint256 maxOpenExecutions,
+		uint256 acceptanceDelay
+	) external {
 		Service storage service = services[serviceNonce];
 		string memory visibilityId = service.visibilityId;
 
 		(address creator, , ) = visibilityCredits.getVisibility(visibilityId);
 		if (creator != msg.sender) revert InvalidCreator();
+		if (acceptanceDelay == 0) revert InvalidAcceptanceDelay();
 
 		service.enabled = enabled;
-		emit ServiceUpdated(serviceNonce, enabled);
+		service.creditsCostAmount = creditsCostAmount;
+		service.metadataURI = metadataURI;
+		service.maxOpenExecutions = maxOpenExecutions;
+		service.acceptanceDelay = acceptanceDelay;
+
+		emit ServiceUpdated(
+			serviceNonce,
+			enabled,
+			creditsCostAmount,
+			metadataURI,
+			maxOpenExecutions,
+			acceptanceDelay
+		);
 	}
 
 	/**
@@ -171,14 +320,24 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 	) external {
 		Service storage service = services[serviceNonce];
 		if (!service.enabled) revert DisabledService();
+		if (
+			service.maxOpenExecutions != 0 &&
+			service.openExecutions >= service.maxOpenExecutions
+		) revert ExecutionsLimitReached();
 
 		uint256 executionNonce = service.executionsNonce;
 		service.executions[executionNonce].state = ExecutionState.REQUESTED;
 		service.executions[executionNonce].requester = msg.sender;
 		service.executions[executionNonce].lastUpdateTimestamp = block
 			.timestamp;
+		service.executions[executionNonce].creditsCostAmount = service
+			.creditsCostAmount;
+		service.executions[executionNonce].acceptanceDeadline =
+			block.timestamp +
+			service.acceptanceDelay;
 
 		service.executionsNonce += 1;
+		service.openExecutions += 1;
 		visibilityCredits.transferCredits(
 			service.visibilityId,
 			msg.sender,
@@ -214,6 +373,8 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		string memory visibilityId = service.visibilityId;
 		(address creator, , ) = visibilityCredits.getVisibility(visibilityId);
 		if (creator != msg.sender) revert UnauthorizedExecutionAction();
+		if (block.timestamp > execution.acceptanceDeadline)
+			revert ExecutionExpired();
 
 		execution.state = ExecutionState.ACCEPTED;
 		execution.lastUpdateTimestamp = block.timestamp;
@@ -251,12 +412,13 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 
 		execution.state = ExecutionState.REFUNDED;
 		execution.lastUpdateTimestamp = block.timestamp;
+		service.openExecutions -= 1;
 
 		visibilityCredits.transferCredits(
 			visibilityId,
 			address(this),
 			requester,
-			service.creditsCostAmount
+			execution.creditsCostAmount
 		);
 
 		emit ServiceExecutionCanceled(
@@ -267,6 +429,38 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		);
 	}
 
+	/**
+	 * @notice Expires a request the creator did not accept in time, refunding the requester.
+	 * @dev Callable by anyone once the acceptance deadline has passed.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 */
+	function expireServiceExecution(
+		uint256 serviceNonce,
+		uint256 executionNonce
+	) external {
+		Service storage service = services[serviceNonce];
+		Execution storage execution = service.executions[executionNonce];
+
+		if (execution.state != ExecutionState.REQUESTED)
+			revert InvalidExecutionState();
+		if (block.timestamp <= execution.acceptanceDeadline)
+			revert AcceptanceDeadlineNotReached();
+
+		execution.state = ExecutionState.REFUNDED;
+		execution.lastUpdateTimestamp = block.timestamp;
+		service.openExecutions -= 1;
+
+		visibilityCredits.transferCredits(
+			service.visibilityId,
+			address(this),
+			execution.requester,
+			execution.creditsCostAmount
+		);
+
+		emit ServiceExecutionExpired(serviceNonce, executionNonce);
+	}
+
 	/**
 	 * @notice Validates a service execution.
 	 * @param serviceNonce The ID of the service.
@@ -284,7 +478,7 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 
 		if (
 			!(execution.requester == msg.sender ||
-				(AUTO_VALIDATION_DELAY + execution.lastUpdateTimestamp <
+				(service.validationDelay + execution.lastUpdateTimestamp <
 					block.timestamp))
 		) revert UnauthorizedExecutionAction();
 
@@ -294,12 +488,13 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 
 		execution.state = ExecutionState.VALIDATED;
 		execution.lastUpdateTimestamp = block.timestamp;
+		service.openExecutions -= 1;
 
 		visibilityCredits.transferCredits(
 			service.visibilityId,
 			address(this),
 			creator,
-			service.creditsCostAmount
+			execution.creditsCostAmount
 		);
 
 		emit ServiceExecutionValidated(serviceNonce, executionNonce);
@@ -307,6 +502,7 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 
 	/**
 	 * @notice Disputes a service execution.
+	 * @dev Escrows the dispute bond from the requester, if any, in credits of the service visibility.
 	 * @param serviceNonce The ID of the service.
 	 * @param executionNonce The ID of the execution.
 	 * @param disputeData The data related to the dispute.
@@ -326,25 +522,96 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 
 		execution.state = ExecutionState.DISPUTED;
 		execution.lastUpdateTimestamp = block.timestamp;
+		execution.disputeDeadline = block.timestamp + disputeResolutionDelay;
+		execution.defaultRefundBps = defaultRefundBps;
+
+		uint256 bondAmount = (execution.creditsCostAmount * disputeBondBps) /
+			BPS_DENOMINATOR;
+		execution.disputeBondAmount = bondAmount;
 
 		emit ServiceExecutionDisputed(
 			serviceNonce,
 			executionNonce,
 			disputeData
 		);
+
+		if (bondAmount > 0) {
+			visibilityCredits.transferCredits(
+				service.visibilityId,
+				msg.sender,
+				address(this),
+				bondAmount
+			);
+
+			emit DisputeBondPosted(serviceNonce, executionNonce, bondAmount);
+		}
 	}
 
 	/**
-	 * @notice Resolves a disputed service execution.
+	 * @notice Appends evidence to the thread of a disputed service execution.
+	 * @dev Callable by the requester, the creator and the dispute resolvers.
 	 * @param serviceNonce The ID of the service.
 	 * @param executionNonce The ID of the execution.
-	 * @param refund Whether the resolution includes a refund.
+	 * @param evidence The evidence, or a URI pointing to it.
+	 */
+	function submitDisputeEvidence(
+		uint256 serviceNonce,
+		uint256 executionNonce,
+		string calldata evidence
+	) external {
+		Service storage service = services[serviceNonce];
+		Execution storage execution = service.executions[executionNonce];
+
+		(address creator, , ) = visibilityCredits.getVisibility(
+			service.visibilityId
+		);
+		if (
+			!(execution.requester == msg.sender ||
+				creator == msg.sender ||
+				hasRole(DISPUTE_RESOLVER_ROLE, msg.sender))
+		) revert UnauthorizedExecutionAction();
+
+		_submitDisputeEvidence(
+			serviceNonce,
+			executionNonce,
+			msg.sender,
+			evidence
+		);
+	}
+
+	/**
+	 * @notice Appends evidence to the thread of a disputed service execution on behalf of an author.
+	 * @dev Lets a resolver contract, such as DisputeArbitration, relay the evidence of its members.
+	 *      The resolver is trusted to have authorized the author.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 * @param author The address of the author of the evidence.
+	 * @param evidence The evidence, or a URI pointing to it.
+	 */
+	function submitDisputeEvidenceFor(
+		uint256 serviceNonce,
+		uint256 executionNonce,
+		address author,
+		string calldata evidence
+	) external onlyRole(DISPUTE_RESOLVER_ROLE) {
+		_submitDisputeEvidence(serviceNonce, executionNonce, author, evidence);
+	}
+
+	/**
+	 * @notice Resolves a disputed service execution, splitting the escrowed credits.
+	 * @dev The execution ends REFUNDED for a full refund, VALIDATED for none, SPLIT otherwise.
+	 *      The refund is rounded down, in favor of the creator. The dispute bond is split the
+	 *      same way. The resolver can still act after the dispute deadline, as long as nobody
+	 *      settled the default outcome.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 * @param refundBps The share of the escrowed credits refunded to the requester, in basis points.
 	 * @param resolveData The data related to the resolution.
 	 */
 	function resolveServiceExecution(
 		uint256 serviceNonce,
 		uint256 executionNonce,
-		bool refund,
+		uint256 refundBps,
 		string calldata resolveData
 	) external onlyRole(DISPUTE_RESOLVER_ROLE) {
 		Service storage service = services[serviceNonce];
@@ -352,38 +619,65 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 
 		if (execution.state != ExecutionState.DISPUTED)
 			revert InvalidExecutionState();
+		if (refundBps > BPS_DENOMINATOR) revert InvalidRefundBps();
 
-		if (refund) {
-			execution.state = ExecutionState.REFUNDED;
-			visibilityCredits.transferCredits(
-				service.visibilityId,
-				address(this),
-				execution.requester,
-				service.creditsCostAmount
-			);
-		} else {
-			execution.state = ExecutionState.VALIDATED;
-			(address creator, , ) = visibilityCredits.getVisibility(
-				service.visibilityId
-			);
-			visibilityCredits.transferCredits(
-				service.visibilityId,
-				address(this),
-				creator,
-				service.creditsCostAmount
-			);
-		}
-
-		execution.lastUpdateTimestamp = block.timestamp;
+		(uint256 refundAmount, uint256 creatorAmount) = _settleDispute(
+			serviceNonce,
+			executionNonce,
+			refundBps
+		);
 
 		emit ServiceExecutionResolved(
 			serviceNonce,
 			executionNonce,
-			refund,
+			refundBps,
+			refundAmount,
+			creatorAmount,
 			resolveData
 		);
 	}
 
+	/**
+	 * @notice Settles a dispute with the default outcome, once the resolution window has passed.
+	 * @dev Callable by the requester or the creator. The default outcome is the one
+	 *      in force when the execution was disputed.
+	 * @param serviceNonce The ID of the service.
+	 * @param executionNonce The ID of the execution.
+	 */
+	function settleExpiredDispute(
+		uint256 serviceNonce,
+		uint256 executionNonce
+	) external {
+		Service storage service = services[serviceNonce];
+		Execution storage execution = service.executions[executionNonce];
+
+		if (execution.state != ExecutionState.DISPUTED)
+			revert InvalidExecutionState();
+
+		(address creator, , ) = visibilityCredits.getVisibility(
+			service.visibilityId
+		);
+		if (
+			!(execution.requester == msg.sender || creator == msg.sender) ||
+			block.timestamp <= execution.disputeDeadline
+		) revert UnauthorizedExecutionAction();
+
+		(uint256 refundAmount, uint256 creatorAmount) = _settleDispute(
+			serviceNonce,
+			executionNonce,
+			execution.defaultRefundBps
+		);
+
+		emit ServiceExecutionDisputeDefaulted(
+			serviceNonce,
+			executionNonce,
+			msg.sender,
+			execution.defaultRefundBps,
+			refundAmount,
+			creatorAmount
+		);
+	}
+
 	/**
 	 * @notice Retrieves the details of a specific service execution.
 	 * @param serviceNonce The ID of the service.
@@ -391,6 +685,10 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 	 * @return state The current state of the execution.
 	 * @return requester The address that requested the execution.
 	 * @return lastUpdateTimestamp The timestamp of the last update.
+	 * @return creditsCostAmount The credits escrowed for the execution.
+	 * @return acceptanceDeadline The timestamp after which a request can be expired.
+	 * @return disputeDeadline The timestamp after which a dispute can be settled by default.
+	 * @return disputeBondAmount The credits posted by the requester to dispute the execution.
 	 */
 	function getServiceExecution(
 		uint256 serviceNonce,
@@ -401,7 +699,11 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		returns (
 			ExecutionState state,
 			address requester,
-			uint256 lastUpdateTimestamp
+			uint256 lastUpdateTimestamp,
+			uint256 creditsCostAmount,
+			uint256 acceptanceDeadline,
+			uint256 disputeDeadline,
+			uint256 disputeBondAmount
 		)
 	{
 		Execution storage execution = services[serviceNonce].executions[
@@ -410,7 +712,110 @@ contract VisibilityServices is AccessControlDefaultAdminRules {
 		return (
 			execution.state,
 			execution.requester,
-			execution.lastUpdateTimestamp
+			execution.lastUpdateTimestamp,
+			execution.creditsCostAmount,
+			execution.acceptanceDeadline,
+			execution.disputeDeadline,
+			execution.disputeBondAmount
 		);
 	}
+
+	function _setDisputeDefaults(
+		uint256 _disputeResolutionDelay,
+		uint256 _defaultRefundBps
+	) private {
+		if (_disputeResolutionDelay == 0)
+			revert InvalidDisputeResolutionDelay();
+		if (_defaultRefundBps > BPS_DENOMINATOR) revert InvalidRefundBps();
+
+		disputeResolutionDelay = _disputeResolutionDelay;
+		defaultRefundBps = _defaultRefundBps;
+
+		emit DisputeDefaultsUpdated(_disputeResolutionDelay, _defaultRefundBps);
+	}
+
+	function _submitDisputeEvidence(
+		uint256 serviceNonce,
+		uint256 executionNonce,
+		address author,
+		string calldata evidence
+	) private {
+		if (
+			services[serviceNonce].executions[executionNonce].state !=
+			ExecutionState.DISPUTED
+		) revert InvalidExecutionState();
+
+		emit ServiceExecutionEvidenceSubmitted(
+			serviceNonce,
+			executionNonce,
+			author,
+			evidence
+		);
+	}
+
+	/**
+	 * @dev Splits the escrowed credits of a disputed execution and closes it:
+	 *      REFUNDED for a full refund, VALIDATED for none, SPLIT otherwise.
+	 *      The refund is rounded down, in favor of the creator. The dispute bond
+	 *      follows the same split: returned to a winning requester, forfeited to
+	 *      the creator otherwise.
+	 */
+	function _settleDispute(
+		uint256 serviceNonce,
+		uint256 executionNonce,
+		uint256 refundBps
+	) private returns (uint256 refundAmount, uint256 creatorAmount) {
+		Service storage service = services[serviceNonce];
+		Execution storage execution = service.executions[executionNonce];
+
+		refundAmount =
+			(execution.creditsCostAmount * refundBps) /
+			BPS_DENOMINATOR;
+		creatorAmount = execution.creditsCostAmount - refundAmount;
+
+		uint256 requesterBondAmount = (execution.disputeBondAmount *
+			refundBps) / BPS_DENOMINATOR;
+		uint256 creatorBondAmount = execution.disputeBondAmount -
+			requesterBondAmount;
+
+		if (refundBps == BPS_DENOMINATOR) {
+			execution.state = ExecutionState.REFUNDED;
+		} else if (refundBps == 0) {
+			execution.state = ExecutionState.VALIDATED;
+		} else {
+			execution.state = ExecutionState.SPLIT;
+		}
+
+		execution.lastUpdateTimestamp = block.timestamp;
+		service.openExecutions -= 1;
+
+		if (refundAmount + requesterBondAmount > 0) {
+			visibilityCredits.transferCredits(
+				service.visibilityId,
+				address(this),
+				execution.requester,
+				refundAmount + requesterBondAmount
+			);
+		}
+		if (creatorAmount + creatorBondAmount > 0) {
+			(address creator, , ) = visibilityCredits.getVisibility(
+				service.visibilityId
+			);
+			visibilityCredits.transferCredits(
+				service.visibilityId,
+				address(this),
+				creator,
+				creatorAmount + creatorBondAmount
+			);
+		}
+
+		if (execution.disputeBondAmount > 0) {
+			emit DisputeBondReleased(
+				serviceNonce,
+				executionNonce,
+				requesterBondAmount,
+				creatorBondAmount
+			);
+		}
+	}
 }
@@ -2,6 +2,43 @@
 pragma solidity ^0.8.20;
 
 interface IVisibilityCredits {
+	struct CurveParams {
+		uint256 a;
+		uint256 b;
+		uint256 basePrice;
+	}
+
+	/**
+	 * @param enabled Whether new visibility IDs can be traded on this platform.
+	 * @param lowercase Whether handles are case insensitive, canonical in lowercase.
+	 * @param minHandleLength The minimum length of a handle, in bytes.
+	 * @param maxHandleLength The maximum length of a handle, in bytes.
+	 * @param allowedSymbols The characters allowed in handles besides ASCII letters and digits.
+	 */
+	struct PlatformRules {
+		bool enabled;
+		bool lowercase;
+		uint8 minHandleLength;
+		uint8 maxHandleLength;
+		string allowedSymbols;
+	}
+
+	struct FeeParams {
+		uint256 creatorFee;
+		uint256 protocolFee;
+		uint256 referrerFee;
+	}
+
+	/**
+	 * @param limit The maximum total cost of a buy, or the minimum reimbursement of a sell.
+	 */
+	struct TradeLeg {
+		string visibilityId;
+		uint256 amount;
+		bool isBuy;
+		uint256 limit;
+	}
+
 	struct CreditsTradeEvent {
 		address from;
 		string visibilityId;
@@ -16,12 +53,44 @@ interface IVisibilityCredits {
 		uint256 newCurrentPrice;
 	}
 
-	event CreatorFeeClaimed(address indexed creator, uint256 amount);
+	event CreatorFeeClaimed(
+		address indexed creator,
+		string visibilityId,
+		uint256 amount
+	);
 
 	event CreatorVisibilitySet(string visibilityId, address creator);
 
+	event CurveSet(
+		string visibilityId,
+		uint256 a,
+		uint256 b,
+		uint256 basePrice
+	);
+
 	event CreditsTrade(CreditsTradeEvent tradeEvent);
 
+	event FeeChangeApplied(
+		uint256 creatorFee,
+		uint256 protocolFee,
+		uint256 referrerFee
+	);
+
+	event FeeChangeCanceled();
+
+	event PlatformSet(string prefix, PlatformRules rules);
+
+	event ProtocolFeesClaimed(address indexed treasury, uint256 amount);
+
+	event ReferrerFeesClaimed(address indexed referrer, uint256 amount);
+
+	event FeeChangeScheduled(
+		uint256 creatorFee,
+		uint256 protocolFee,
+		uint256 referrerFee,
+		uint48 effectSchedule
+	);
+
 	event CreditsTransfer(
 		string visibilityId,
 		address indexed from,
@@ -29,12 +98,32 @@ interface IVisibilityCredits {
 		uint256 amount
 	);
 
+	event OperatorApprovalSet(
+		string visibilityId,
+		address indexed owner,
+		address indexed operator,
+		bool approved
+	);
+
+	event TokenAdapterSet(address adapter);
+
+	error CurveLocked();
+	error DeadlineExpired();
+	error FeeChangeNotReady();
 	error InvalidAddress();
+	error InvalidAttestation();
 	error InvalidCreator();
 	error InvalidAmount();
+	error InvalidCurveParams();
 	error InvalidFeeParams();
+	error InvalidPlatformRules();
+	error InvalidVisibilityId();
+	error MaxTotalCostExceeded();
+	error MinReimbursementNotReached();
 	error NotEnoughEthSent();
 	error NotEnoughCreditsOwned();
+	error NotOperator();
+	error TokenAdapterLocked();
 
 	function buyCredits(
 		string calldata visibilityId,
@@ -42,19 +131,59 @@ interface IVisibilityCredits {
 		address referrer
 	) external payable;
 
+	function buyCreditsWithSlippage(
+		string calldata visibilityId,
+		uint256 amount,
+		address referrer,
+		uint256 maxTotalCost,
+		uint256 deadline
+	) external payable;
+
 	function sellCredits(
 		string calldata visibilityId,
 		uint256 amount,
 		address referrer
 	) external;
 
+	function sellCreditsWithSlippage(
+		string calldata visibilityId,
+		uint256 amount,
+		address referrer,
+		uint256 minReimbursement,
+		uint256 deadline
+	) external;
+
+	function tradeCreditsBatch(
+		TradeLeg[] calldata legs,
+		address referrer,
+		uint256 deadline
+	) external payable;
+
 	function claimCreatorFee(string calldata visibilityId) external;
 
+	function claimReferrerFees() external;
+
+	function claimProtocolFees() external;
+
 	function setCreatorVisibility(
 		string calldata visibilityId,
 		address creator
 	) external;
 
+	function setCreatorVisibilityWithAttestation(
+		string calldata visibilityId,
+		address creator,
+		uint256 deadline,
+		bytes calldata signature
+	) external;
+
+	function setVisibilityCurve(
+		string calldata visibilityId,
+		uint256 a,
+		uint256 b,
+		uint256 basePrice
+	) external;
+
 	function transferCredits(
 		string calldata visibilityId,
 		address from,
@@ -62,8 +191,48 @@ interface IVisibilityCredits {
 		uint256 amount
 	) external;
 
+	function transferCreditsFrom(
+		string calldata visibilityId,
+		address from,
+		address to,
+		uint256 amount
+	) external;
+
+	function setOperatorApproval(
+		string calldata visibilityId,
+		address operator,
+		bool approved
+	) external;
+
 	function updateTreasury(address treasury) external;
 
+	function setPlatform(
+		string calldata prefix,
+		PlatformRules calldata rules
+	) external;
+
+	function setTokenAdapter(address adapter) external;
+
+	function beginFeeChange(
+		uint256 creatorFee,
+		uint256 protocolFee,
+		uint256 referrerFee
+	) external;
+
+	function cancelFeeChange() external;
+
+	function applyFeeChange() external;
+
+	function pendingFeeChange()
+		external
+		view
+		returns (
+			uint256 creatorFee,
+			uint256 protocolFee,
+			uint256 referrerFee,
+			uint48 effectSchedule
+		);
+
 	function getVisibility(
 		string calldata visibilityId
 	)
@@ -75,19 +244,46 @@ interface IVisibilityCredits {
 			uint256 claimableFeeBalance
 		);
 
+	function getCreatorAttestationNonce(
+		string calldata visibilityId
+	) external view returns (uint256);
+
+	function getVisibilityCurve(
+		string calldata visibilityId
+	) external view returns (uint256 a, uint256 b, uint256 basePrice);
+
 	function getVisibilityCreditBalance(
 		string calldata visibilityId,
 		address account
 	) external view returns (uint256);
 
+	function getVisibilityCreditBalanceByKey(
+		bytes32 visibilityKey,
+		address account
+	) external view returns (uint256);
+
+	function isOperatorApproved(
+		string calldata visibilityId,
+		address owner,
+		address operator
+	) external view returns (bool);
+
 	function getVisibilityCurrentPrice(
 		string calldata visibilityId
 	) external view returns (uint256);
 
+	function getPlatform(
+		string calldata prefix
+	) external view returns (PlatformRules memory);
+
 	function getVisibilityKey(
 		string calldata visibilityId
 	) external pure returns (bytes32);
 
+	function isValidVisibilityId(
+		string calldata visibilityId
+	) external view returns (bool);
+
 	function buyCostWithFees(
 		string calldata visibilityId,
 		uint256 amount,
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @notice Receives the credit movements of `VisibilityCredits`, to mirror them
+ *         on a token standard (see `VisibilityCredits1155`).
+ */
+interface IVisibilityCreditsAdapter {
+	/**
+	 * @dev Called after each mint (`from` is address(0)), burn (`to` is address(0))
+	 *      or transfer of visibility credits.
+	 */
+	function onCreditsTransfer(
+		address operator,
+		address from,
+		address to,
+		string calldata visibilityId,
+		uint256 amount
+	) external;
+}
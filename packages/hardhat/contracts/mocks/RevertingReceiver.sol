@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IVisibilityCredits.sol";
+
+/**
+ * @title RevertingReceiver
+ * @notice Test helper rejecting any Ether sent to it, to simulate a broken
+ *         referrer or treasury.
+ */
+contract RevertingReceiver {
+	error EtherRejected();
+
+	receive() external payable {
+		revert EtherRejected();
+	}
+
+	function claimReferrerFees(IVisibilityCredits credits) external {
+		credits.claimReferrerFees();
+	}
+}
@@ -59,6 +59,40 @@ const deployment: DeployFunction = async function (hre: HardhatRuntimeEnvironmen
   const visibilityServicesAddress = await visibilityServices.getAddress();
   console.log("VisibilityServices deployed to:", visibilityServicesAddress);
 
+  // ERC-1155 view of the credits, its metadata is served by the nextjs app
+  const metadataBaseURI = process.env.METADATA_BASE_URI || "http://localhost:3000/api/metadata/";
+
+  await deploy("VisibilityCredits1155", {
+    from: deployer,
+    args: [visibilityCreditsAddress, metadataBaseURI],
+    log: true,
+    autoMine: true,
+  });
+
+  const visibilityCredits1155 = await hre.ethers.getContract<Contract>("VisibilityCredits1155", deployer);
+
+  const visibilityCredits1155Address = await visibilityCredits1155.getAddress();
+  console.log("VisibilityCredits1155 deployed to:", visibilityCredits1155Address);
+
+  await visibilityCredits.setTokenAdapter(visibilityCredits1155Address);
+
+  // panel voting on disputes, within the 7 days before their default outcome
+  const arbitrationArgs = [visibilityServicesAddress, [deployer], 1, 3 * 24 * 60 * 60];
+
+  await deploy("DisputeArbitration", {
+    from: deployer,
+    args: arbitrationArgs,
+    log: true,
+    autoMine: true,
+  });
+
+  const disputeArbitration = await hre.ethers.getContract<Contract>("DisputeArbitration", deployer);
+
+  const disputeArbitrationAddress = await disputeArbitration.getAddress();
+  console.log("DisputeArbitration deployed to:", disputeArbitrationAddress);
+
+  await visibilityServices.grantRole(await visibilityServices.DISPUTE_RESOLVER_ROLE(), disputeArbitrationAddress);
+
   await hre.run("verify:verify", {
     address: visibilityCreditsAddress,
     constructorArguments: [deployer, deployer],
@@ -68,6 +102,16 @@ const deployment: DeployFunction = async function (hre: HardhatRuntimeEnvironmen
     address: visibilityServicesAddress,
     constructorArguments: [visibilityCreditsAddress, deployer],
   });
+
+  await hre.run("verify:verify", {
+    address: visibilityCredits1155Address,
+    constructorArguments: [visibilityCreditsAddress, metadataBaseURI],
+  });
+
+  await hre.run("verify:verify", {
+    address: disputeArbitrationAddress,
+    constructorArguments: arbitrationArgs,
+  });
 };
 
 export default deployment;
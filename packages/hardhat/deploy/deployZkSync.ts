@@ -27,4 +27,26 @@ export default async function (hre: HardhatRuntimeEnvironment) {
   const servicesContract = await deployer.deploy(servicesArtifact, [creditsContractAddr, ethWalletAddr]);
   const servicesContractAddr = await servicesContract.getAddress();
   console.log("VisibilityServices deployed to:", servicesContractAddr);
+
+  const credits1155Artifact = await deployer.loadArtifact("VisibilityCredits1155");
+  console.log("Deploying VisibilityCredits1155...");
+  const metadataBaseURI = process.env.METADATA_BASE_URI || "http://localhost:3000/api/metadata/";
+  const credits1155Contract = await deployer.deploy(credits1155Artifact, [creditsContractAddr, metadataBaseURI]);
+  const credits1155ContractAddr = await credits1155Contract.getAddress();
+  console.log("VisibilityCredits1155 deployed to:", credits1155ContractAddr);
+
+  await creditsContract.setTokenAdapter(credits1155ContractAddr);
+
+  const arbitrationArtifact = await deployer.loadArtifact("DisputeArbitration");
+  console.log("Deploying DisputeArbitration...");
+  const arbitrationContract = await deployer.deploy(arbitrationArtifact, [
+    servicesContractAddr,
+    [ethWalletAddr],
+    1,
+    3 * 24 * 60 * 60,
+  ]);
+  const arbitrationContractAddr = await arbitrationContract.getAddress();
+  console.log("DisputeArbitration deployed to:", arbitrationContractAddr);
+
+  await servicesContract.grantRole(await servicesContract.DISPUTE_RESOLVER_ROLE(), arbitrationContractAddr);
 }
@@ -0,0 +1,57 @@
+import { ethers } from "hardhat";
+import { formatEther } from "ethers";
+import { VisibilityCredits } from "../typechain-types";
+import { getBuyCostWithFees, getCurrentPrice, getSellCostWithFees } from "../../nextjs/utils/bondingCurve";
+import { normalizeVisibilityId, normalizeVisibilityPlatform, PlatformRules } from "../../nextjs/utils/visibilityId";
+
+/**
+ * Quotes a trade off-chain with the shared bonding curve module: only the platform rules,
+ * the visibility total supply, curve profile and current fees are read from the deployed contract.
+ *
+ * Usage: VISIBILITY_ID=x-vitalikbuterin AMOUNT=10 [REFERRER=0x...] yarn quote
+ */
+async function main() {
+  const creditsContract = await ethers.getContract<VisibilityCredits>("VisibilityCredits");
+
+  const input = process.env.VISIBILITY_ID ?? "";
+  const platform = await creditsContract.getPlatform(normalizeVisibilityPlatform(input));
+  const rules = platform.enabled
+    ? new PlatformRules(
+        platform.lowercase,
+        Number(platform.minHandleLength),
+        Number(platform.maxHandleLength),
+        platform.allowedSymbols,
+      )
+    : null;
+
+  const visibilityId = normalizeVisibilityId(input, rules);
+  const amount = BigInt(process.env.AMOUNT ?? "1");
+  const referrer = process.env.REFERRER;
+
+  if (!visibilityId) {
+    console.log("🚫️ Please provide a valid VISIBILITY_ID, e.g. x-vitalikbuterin");
+    return;
+  }
+
+  const [, totalSupply] = await creditsContract.getVisibility(visibilityId);
+  const [a, b, basePrice] = await creditsContract.getVisibilityCurve(visibilityId);
+  const curve = { a, b, basePrice };
+  const [creatorFee, protocolFee, referrerFee] = await creditsContract.fees();
+  const fees = { creatorFee, protocolFee, referrerFee };
+
+  console.log(`📈 ${visibilityId}: ${totalSupply} credits in circulation`);
+  console.log("Current price:", formatEther(getCurrentPrice(totalSupply, curve)), "ETH");
+
+  const buyCost = getBuyCostWithFees(totalSupply, amount, referrer, curve, fees);
+  console.log(`Buying ${amount} credits costs`, formatEther(buyCost.totalCost), "ETH");
+
+  if (amount <= totalSupply) {
+    const sellCost = getSellCostWithFees(totalSupply, amount, referrer, curve, fees);
+    console.log(`Selling ${amount} credits pays`, formatEther(sellCost.reimbursement), "ETH");
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,228 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { parseEther, ZeroAddress } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { VisibilityCredits, VisibilityCredits__factory } from "../typechain-types";
+import {
+  BondingCurveError,
+  CurveParams,
+  DEFAULT_CURVE,
+  DEFAULT_FEES,
+  FeeParams,
+  MAX_TOTAL_SUPPLY,
+  assertBuyWithinMaxSupply,
+  getBuyCostWithFees,
+  getCurrentPrice,
+  getMaxBuyAmount,
+  getMinSellAmount,
+  getSellCostWithFees,
+} from "../../nextjs/utils/bondingCurve";
+
+// Deterministic xorshift PRNG, so that a failing case can be replayed
+const createRandom = (seed: bigint) => {
+  let state = seed;
+  return (max: bigint) => {
+    state ^= (state << 13n) & 0xffffffffffffffffn;
+    state ^= state >> 7n;
+    state ^= (state << 17n) & 0xffffffffffffffffn;
+    return state % (max + 1n);
+  };
+};
+
+describe("Bonding curve SDK", function () {
+  let creditsContract: VisibilityCredits;
+  let trader: HardhatEthersSigner;
+  let creatorLinker: HardhatEthersSigner;
+  let treasury: HardhatEthersSigner;
+  let referrer: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    [trader, creatorLinker, treasury, referrer] = await ethers.getSigners();
+
+    const creditsContractFactory: VisibilityCredits__factory = await ethers.getContractFactory("VisibilityCredits");
+    creditsContract = await creditsContractFactory.deploy(treasury.address, creatorLinker.address);
+    await creditsContract.waitForDeployment();
+
+    // large supplies cost far more than the default test balance
+    await network.provider.send("hardhat_setBalance", [trader.address, "0x" + (2n ** 200n).toString(16)]);
+  });
+
+  // Asserts the SDK either matches the view outputs or throws where the view reverts
+  const expectQuoteParity = async (
+    visibilityId: string,
+    totalSupply: bigint,
+    amount: bigint,
+    withReferrer: boolean,
+    curve: CurveParams = DEFAULT_CURVE,
+    fees: FeeParams = DEFAULT_FEES,
+  ) => {
+    const referrerAddress = withReferrer ? referrer.address : ZeroAddress;
+
+    for (const isBuy of [true, false]) {
+      const quote = isBuy ? getBuyCostWithFees : getSellCostWithFees;
+      const view = isBuy ? creditsContract.buyCostWithFees : creditsContract.sellCostWithFees;
+
+      let expected: bigint[] | undefined;
+      let expectedError: BondingCurveError | undefined;
+      try {
+        const result = quote(totalSupply, amount, referrerAddress, curve, fees);
+        expected = [
+          "totalCost" in result ? result.totalCost : result.reimbursement,
+          result.tradeCost,
+          result.creatorFee,
+          result.protocolFee,
+          result.referrerFee,
+        ];
+      } catch (error) {
+        if (!(error instanceof BondingCurveError)) throw error;
+        expectedError = error;
+      }
+
+      if (expected) {
+        expect([...(await view(visibilityId, amount, referrerAddress))]).to.deep.equal(expected);
+      } else if (expectedError?.errorName === "InvalidAmount") {
+        await expect(view(visibilityId, amount, referrerAddress)).to.be.revertedWithCustomError(
+          creditsContract,
+          "InvalidAmount",
+        );
+      } else {
+        await expect(view(visibilityId, amount, referrerAddress)).to.be.reverted;
+      }
+    }
+  };
+
+  it("Should match the contract quotes for random supplies and amounts", async function () {
+    const random = createRandom(0x5eed_c0ffeen);
+
+    for (let round = 0; round < 10; round++) {
+      const visibilityId = `x-fuzz_${round}`;
+      // mix of tiny supplies, to hit the fromSupply == 0 and == 1 branches, and large ones
+      const totalSupply = round < 3 ? BigInt(round) : random(200_000n);
+
+      if (totalSupply > 0n) {
+        const { totalCost } = getBuyCostWithFees(0n, totalSupply, ZeroAddress);
+        await creditsContract.connect(trader).buyCredits(visibilityId, totalSupply, ZeroAddress, { value: totalCost });
+      }
+      const [, onChainSupply] = await creditsContract.getVisibility(visibilityId);
+      expect(onChainSupply).to.equal(totalSupply);
+      expect(await creditsContract.getVisibilityCurrentPrice(visibilityId)).to.equal(getCurrentPrice(totalSupply));
+
+      const amounts = [0n, 1n, totalSupply, totalSupply + 1n, random(1_000n), random(2n ** 32n)];
+      for (const amount of amounts) {
+        await expectQuoteParity(visibilityId, totalSupply, amount, random(1n) === 1n);
+      }
+    }
+  });
+
+  it("Should match the contract quotes on custom curve profiles", async function () {
+    const random = createRandom(0xc0ffe1n);
+    const maxCurveParam = await creditsContract.MAX_CURVE_PARAM();
+
+    for (let round = 0; round < 5; round++) {
+      const visibilityId = `x-fuzz_curve_${round}`;
+      // zero coefficients give flat or linear curves
+      const curve = {
+        a: round === 0 ? 0n : random(maxCurveParam / 1_000_000n),
+        b: round <= 1 ? 0n : random(maxCurveParam / 1_000n),
+        basePrice: random(maxCurveParam / 100n) + 1n,
+      };
+      await creditsContract.connect(creatorLinker).setVisibilityCurve(visibilityId, curve.a, curve.b, curve.basePrice);
+      expect([...(await creditsContract.getVisibilityCurve(visibilityId))]).to.deep.equal([
+        curve.a,
+        curve.b,
+        curve.basePrice,
+      ]);
+
+      const totalSupply = random(5_000n);
+      if (totalSupply > 0n) {
+        const { totalCost } = getBuyCostWithFees(0n, totalSupply, ZeroAddress, curve);
+        await creditsContract.connect(trader).buyCredits(visibilityId, totalSupply, ZeroAddress, { value: totalCost });
+      }
+      expect(await creditsContract.getVisibilityCurrentPrice(visibilityId)).to.equal(
+        getCurrentPrice(totalSupply, curve),
+      );
+
+      for (const amount of [1n, totalSupply, random(1_000n), random(2n ** 32n)]) {
+        await expectQuoteParity(visibilityId, totalSupply, amount, random(1n) === 1n, curve);
+      }
+    }
+  });
+
+  it("Should match the contract quotes after a fee change", async function () {
+    const [admin] = await ethers.getSigners();
+    const fees = { creatorFee: 35_000n, protocolFee: 45_000n, referrerFee: 15_000n };
+    await creditsContract.connect(admin).beginFeeChange(fees.creatorFee, fees.protocolFee, fees.referrerFee);
+    await ethers.provider.send("evm_increaseTime", [Number(await creditsContract.defaultAdminDelay())]);
+    await ethers.provider.send("evm_mine", []);
+    await creditsContract.connect(admin).applyFeeChange();
+
+    const visibilityId = "x-fuzz_fees";
+    const totalSupply = 1_234n;
+    const { totalCost } = getBuyCostWithFees(0n, totalSupply, ZeroAddress, DEFAULT_CURVE, fees);
+    await creditsContract.connect(trader).buyCredits(visibilityId, totalSupply, ZeroAddress, { value: totalCost });
+
+    for (const amount of [1n, 100n, totalSupply]) {
+      for (const withReferrer of [false, true]) {
+        await expectQuoteParity(visibilityId, totalSupply, amount, withReferrer, DEFAULT_CURVE, fees);
+      }
+    }
+  });
+
+  it("Should solve the largest buy fitting an ETH budget", async function () {
+    const random = createRandom(0xb0d9e7n);
+    const visibilityId = "x-fuzz_budget";
+    await creditsContract.connect(trader).buyCredits(visibilityId, 1_000n, ZeroAddress, {
+      value: getBuyCostWithFees(0n, 1_000n).totalCost,
+    });
+
+    for (let i = 0; i < 10; i++) {
+      const budget = random(parseEther("1000"));
+      const amount = getMaxBuyAmount(1_000n, budget, referrer.address);
+
+      if (amount > 0n) {
+        const [totalCost] = await creditsContract.buyCostWithFees(visibilityId, amount, referrer.address);
+        expect(totalCost).to.be.lte(budget);
+      }
+      const [nextTotalCost] = await creditsContract.buyCostWithFees(visibilityId, amount + 1n, referrer.address);
+      expect(nextTotalCost).to.be.gt(budget);
+    }
+  });
+
+  it("Should solve the smallest sell reaching an ETH target", async function () {
+    const random = createRandom(0x5e11n);
+    const visibilityId = "x-fuzz_target";
+    const totalSupply = 5_000n;
+    await creditsContract.connect(trader).buyCredits(visibilityId, totalSupply, ZeroAddress, {
+      value: getBuyCostWithFees(0n, totalSupply).totalCost,
+    });
+    const [fullReimbursement] = await creditsContract.sellCostWithFees(visibilityId, totalSupply, ZeroAddress);
+
+    for (let i = 0; i < 10; i++) {
+      const target = random(fullReimbursement);
+      const amount = getMinSellAmount(totalSupply, target, ZeroAddress);
+      expect(amount).to.be.a("bigint");
+
+      const [reimbursement] = await creditsContract.sellCostWithFees(visibilityId, amount!, ZeroAddress);
+      expect(reimbursement).to.be.gte(target);
+      if (amount! > 1n) {
+        const [previousReimbursement] = await creditsContract.sellCostWithFees(visibilityId, amount! - 1n, ZeroAddress);
+        expect(previousReimbursement).to.be.lt(target);
+      }
+    }
+
+    expect(getMinSellAmount(totalSupply, fullReimbursement + 1n, ZeroAddress)).to.be.a("undefined");
+  });
+
+  it("Should revert like the contract on overflowing amounts", async function () {
+    for (const amount of [MAX_TOTAL_SUPPLY, 2n ** 128n, 2n ** 255n]) {
+      await expectQuoteParity("x-fuzz_overflow", 0n, amount, false);
+    }
+  });
+
+  it("Should reject buys above MAX_TOTAL_SUPPLY", async function () {
+    expect(() => assertBuyWithinMaxSupply(0n, MAX_TOTAL_SUPPLY)).to.not.throw();
+    expect(() => assertBuyWithinMaxSupply(1n, MAX_TOTAL_SUPPLY))
+      .to.throw(BondingCurveError)
+      .with.property("errorName", "InvalidAmount");
+  });
+});
@@ -0,0 +1,303 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { parseEther, ZeroAddress } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  DisputeArbitration,
+  DisputeArbitration__factory,
+  VisibilityCredits,
+  VisibilityCredits__factory,
+  VisibilityServices,
+  VisibilityServices__factory,
+} from "../typechain-types";
+
+describe("DisputeArbitration", function () {
+  const ONE_DAY = 24 * 60 * 60;
+  const FIVE_DAYS = 5 * ONE_DAY;
+
+  let visibilityCredits: VisibilityCredits;
+  let visibilityServices: VisibilityServices;
+  let disputeArbitration: DisputeArbitration;
+  let deployer: HardhatEthersSigner;
+  let arbiter1: HardhatEthersSigner;
+  let arbiter2: HardhatEthersSigner;
+  let arbiter3: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+  let creator: HardhatEthersSigner;
+
+  const increaseTime = async (seconds: number) => {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine");
+  };
+
+  beforeEach(async function () {
+    [deployer, arbiter1, arbiter2, arbiter3, user1, creator] = await ethers.getSigners();
+
+    const visibilityCreditsFactory: VisibilityCredits__factory = await ethers.getContractFactory("VisibilityCredits");
+    visibilityCredits = await visibilityCreditsFactory.deploy(deployer.address, deployer.address);
+    await visibilityCredits.waitForDeployment();
+
+    const visibilityServicesFactory: VisibilityServices__factory =
+      await ethers.getContractFactory("VisibilityServices");
+    visibilityServices = await visibilityServicesFactory.deploy(await visibilityCredits.getAddress(), deployer.address);
+    await visibilityServices.waitForDeployment();
+
+    const disputeArbitrationFactory: DisputeArbitration__factory =
+      await ethers.getContractFactory("DisputeArbitration");
+    disputeArbitration = await disputeArbitrationFactory.deploy(
+      await visibilityServices.getAddress(),
+      [arbiter1.address, arbiter2.address, arbiter3.address],
+      2,
+      ONE_DAY,
+    );
+    await disputeArbitration.waitForDeployment();
+
+    await visibilityServices.grantRole(
+      await visibilityServices.DISPUTE_RESOLVER_ROLE(),
+      await disputeArbitration.getAddress(),
+    );
+    await visibilityCredits.grantCreatorTransferRole(await visibilityServices.getAddress());
+
+    // 10 credits escrowed in a disputed execution
+    await visibilityCredits.setCreatorVisibility("x-vitalikbuterin", creator.address);
+    await visibilityServices.connect(creator).createService("x-post", "x-vitalikbuterin", 10, FIVE_DAYS, 3 * ONE_DAY);
+    await visibilityCredits.connect(user1).buyCredits("x-vitalikbuterin", 50, ZeroAddress, { value: parseEther("1") });
+    await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+    await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+  });
+
+  describe("Panel management", function () {
+    it("Should add and remove arbiters", async function () {
+      expect(await disputeArbitration.arbitersCount()).to.equal(3);
+      expect([...(await disputeArbitration.getArbiters())]).to.have.members([
+        arbiter1.address,
+        arbiter2.address,
+        arbiter3.address,
+      ]);
+
+      await expect(disputeArbitration.removeArbiter(arbiter3.address))
+        .to.emit(disputeArbitration, "ArbiterRemoved")
+        .withArgs(arbiter3.address);
+      expect(await disputeArbitration.isArbiter(arbiter3.address)).to.equal(false);
+      expect(await disputeArbitration.arbitersCount()).to.equal(2);
+      expect(await disputeArbitration.getArbiters()).to.not.include(arbiter3.address);
+
+      await expect(disputeArbitration.addArbiter(arbiter3.address))
+        .to.emit(disputeArbitration, "ArbiterAdded")
+        .withArgs(arbiter3.address);
+      expect(await disputeArbitration.isArbiter(arbiter3.address)).to.equal(true);
+    });
+
+    it("Should revert on invalid panel updates", async function () {
+      await expect(disputeArbitration.addArbiter(arbiter1.address)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "InvalidArbiter",
+      );
+      await expect(disputeArbitration.addArbiter(ZeroAddress)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "InvalidArbiter",
+      );
+      await expect(disputeArbitration.removeArbiter(user1.address)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "InvalidArbiter",
+      );
+      await expect(disputeArbitration.connect(arbiter1).addArbiter(user1.address)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "AccessControlUnauthorizedAccount",
+      );
+
+      // the panel cannot get smaller than the quorum of 2
+      await disputeArbitration.removeArbiter(arbiter3.address);
+      await expect(disputeArbitration.removeArbiter(arbiter2.address)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "InvalidQuorum",
+      );
+    });
+
+    it("Should let the admin configure the quorum and the voting period", async function () {
+      await expect(disputeArbitration.setArbitrationSettings(0, ONE_DAY)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "InvalidQuorum",
+      );
+      await expect(disputeArbitration.setArbitrationSettings(4, ONE_DAY)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "InvalidQuorum",
+      );
+      await expect(disputeArbitration.setArbitrationSettings(2, 0)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "InvalidVotingPeriod",
+      );
+      // the 7 days dispute resolution delay of VisibilityServices
+      await expect(disputeArbitration.setArbitrationSettings(2, 7 * ONE_DAY)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "InvalidVotingPeriod",
+      );
+      await expect(
+        disputeArbitration.connect(arbiter1).setArbitrationSettings(1, ONE_DAY),
+      ).to.be.revertedWithCustomError(disputeArbitration, "AccessControlUnauthorizedAccount");
+
+      await expect(disputeArbitration.setArbitrationSettings(3, 2 * ONE_DAY))
+        .to.emit(disputeArbitration, "ArbitrationSettingsUpdated")
+        .withArgs(3, 2 * ONE_DAY);
+      expect(await disputeArbitration.quorum()).to.equal(3);
+      expect(await disputeArbitration.votingPeriod()).to.equal(2 * ONE_DAY);
+    });
+  });
+
+  describe("Voting", function () {
+    it("Should only accept votes on disputed executions", async function () {
+      await expect(
+        disputeArbitration.connect(arbiter1).castVote(0, 0, 10000, "Not posted"),
+      ).to.be.revertedWithCustomError(disputeArbitration, "NotDisputed");
+    });
+
+    it("Should record the votes of the panel", async function () {
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+      await expect(disputeArbitration.connect(arbiter1).castVote(0, 0, 10000, "Not posted"))
+        .to.emit(disputeArbitration, "DisputeVoteCast")
+        .withArgs(0, 0, arbiter1.address, 10000, "Not posted");
+      await disputeArbitration.connect(arbiter2).castVote(0, 0, 5000, "Posted late");
+
+      expect(await disputeArbitration.hasVoted(0, 0, arbiter1.address)).to.equal(true);
+      expect(await disputeArbitration.hasVoted(0, 0, arbiter3.address)).to.equal(false);
+      const [votesCount, refundBpsSum] = await disputeArbitration.getBallot(0, 0);
+      expect(votesCount).to.equal(2);
+      expect(refundBpsSum).to.equal(15000);
+    });
+
+    it("Should revert on invalid votes", async function () {
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+      await expect(disputeArbitration.connect(user1).castVote(0, 0, 10000, "Not posted")).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "NotArbiter",
+      );
+      await expect(
+        disputeArbitration.connect(arbiter1).castVote(0, 0, 10001, "Not posted"),
+      ).to.be.revertedWithCustomError(disputeArbitration, "InvalidRefundBps");
+
+      await disputeArbitration.connect(arbiter1).castVote(0, 0, 10000, "Not posted");
+      await expect(
+        disputeArbitration.connect(arbiter1).castVote(0, 0, 0, "Changed my mind"),
+      ).to.be.revertedWithCustomError(disputeArbitration, "AlreadyVoted");
+    });
+
+    it("Should close the vote after the voting period", async function () {
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+      const disputedAt = (await ethers.provider.getBlock("latest"))!.timestamp;
+      expect(await disputeArbitration.getVotingDeadline(0, 0)).to.equal(disputedAt + ONE_DAY);
+
+      await increaseTime(ONE_DAY + 1);
+
+      await expect(
+        disputeArbitration.connect(arbiter1).castVote(0, 0, 10000, "Not posted"),
+      ).to.be.revertedWithCustomError(disputeArbitration, "VotingClosed");
+    });
+
+    it("Should keep the settings of a dispute from its first vote", async function () {
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+      await disputeArbitration.connect(arbiter1).castVote(0, 0, 10000, "Not posted");
+      const votingDeadline = await disputeArbitration.getVotingDeadline(0, 0);
+
+      await disputeArbitration.setArbitrationSettings(3, 2 * ONE_DAY);
+      expect(await disputeArbitration.getVotingDeadline(0, 0)).to.equal(votingDeadline);
+      expect(await disputeArbitration.getQuorum(0, 0)).to.equal(2);
+
+      await disputeArbitration.connect(arbiter2).castVote(0, 0, 10000, "Not posted");
+      await increaseTime(ONE_DAY + 1);
+
+      await expect(
+        disputeArbitration.connect(arbiter3).castVote(0, 0, 10000, "Not posted"),
+      ).to.be.revertedWithCustomError(disputeArbitration, "VotingClosed");
+      await expect(disputeArbitration.tallyVotes(0, 0)).to.emit(disputeArbitration, "DisputeVotesTallied");
+    });
+  });
+
+  describe("Evidence", function () {
+    it("Should let arbiters submit evidence to the dispute thread", async function () {
+      await expect(
+        disputeArbitration.connect(arbiter1).submitEvidence(0, 0, "Post deleted?"),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidExecutionState");
+
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+      await expect(disputeArbitration.connect(arbiter1).submitEvidence(0, 0, "Post deleted?"))
+        .to.emit(visibilityServices, "ServiceExecutionEvidenceSubmitted")
+        .withArgs(0, 0, arbiter1.address, "Post deleted?");
+
+      await expect(disputeArbitration.connect(user1).submitEvidence(0, 0, "Spam")).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "NotArbiter",
+      );
+      await expect(
+        visibilityServices.connect(arbiter1).submitDisputeEvidenceFor(0, 0, arbiter1.address, "Spam"),
+      ).to.be.revertedWithCustomError(visibilityServices, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Tally", function () {
+    beforeEach(async function () {
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+    });
+
+    it("Should resolve the dispute with the average of the votes", async function () {
+      await disputeArbitration.connect(arbiter1).castVote(0, 0, 10000, "Not posted");
+      await disputeArbitration.connect(arbiter2).castVote(0, 0, 5000, "Posted late");
+
+      await expect(disputeArbitration.connect(user1).tallyVotes(0, 0)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "VotingOpen",
+      );
+
+      await increaseTime(ONE_DAY + 1);
+
+      // 75% of the 10 credits escrowed rounds down to 7
+      await expect(disputeArbitration.connect(user1).tallyVotes(0, 0))
+        .to.emit(disputeArbitration, "DisputeVotesTallied")
+        .withArgs(0, 0, 2, 7500)
+        .and.to.emit(visibilityServices, "ServiceExecutionResolved")
+        .withArgs(0, 0, 7500, 7, 3, "");
+
+      const [state] = await visibilityServices.getServiceExecution(0, 0);
+      expect(state).to.equal(6); // SPLIT
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(47);
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", creator.address)).to.equal(3);
+
+      await expect(disputeArbitration.connect(user1).tallyVotes(0, 0)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "NotDisputed",
+      );
+    });
+
+    it("Should count the votes of removed arbiters", async function () {
+      await disputeArbitration.connect(arbiter1).castVote(0, 0, 0, "Posted");
+      await disputeArbitration.connect(arbiter2).castVote(0, 0, 0, "Posted");
+      await disputeArbitration.removeArbiter(arbiter2.address);
+
+      await increaseTime(ONE_DAY + 1);
+      await disputeArbitration.tallyVotes(0, 0);
+
+      const [state] = await visibilityServices.getServiceExecution(0, 0);
+      expect(state).to.equal(5); // VALIDATED
+    });
+
+    it("Should fall back to the default outcome without quorum", async function () {
+      await disputeArbitration.connect(arbiter1).castVote(0, 0, 0, "Posted");
+
+      await increaseTime(ONE_DAY + 1);
+
+      await expect(disputeArbitration.tallyVotes(0, 0)).to.be.revertedWithCustomError(
+        disputeArbitration,
+        "QuorumNotReached",
+      );
+
+      // Simulate passing of the dispute resolution delay
+      await increaseTime(6 * ONE_DAY);
+
+      await visibilityServices.connect(user1).settleExpiredDispute(0, 0);
+      const [state] = await visibilityServices.getServiceExecution(0, 0);
+      expect(state).to.equal(4); // REFUNDED
+    });
+  });
+});
@@ -1,11 +1,18 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { parseEther, ZeroAddress } from "ethers";
+import { parseEther, toQuantity, ZeroAddress } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { VisibilityCredits, VisibilityCredits__factory } from "../typechain-types";
+import {
+  getVisibilityPlatform,
+  isCanonicalVisibilityId,
+  normalizeVisibilityId,
+  normalizeVisibilityPlatform,
+  PlatformRules,
+} from "../../nextjs/utils/visibilityId";
 
 describe("VisibilityCredits", function () {
-  const visibilityId1 = "x-VitalikButerin";
+  const visibilityId1 = "x-vitalikbuterin";
 
   let creditsContract: VisibilityCredits;
   let creator1: HardhatEthersSigner;
@@ -59,16 +66,21 @@ describe("VisibilityCredits", function () {
     it("Should handle multiple purchases and update balances and protocol fees correctly", async function () {
       const amounts = [2, 4, 1];
       for (const amount of amounts) {
-        const [buyCost, tradeCost, creatorFee, protocolFee, referrerFee] = await creditsContract.buyCostWithFees(
+        const [buyCost, , , protocolFee, referrerFee] = await creditsContract.buyCostWithFees(
           visibilityId1,
           amount,
           referrer.address,
         );
+        const protocolFeesBefore = await creditsContract.claimableProtocolFees();
+        const referrerFeesBefore = await creditsContract.claimableReferrerFees(referrer.address);
+
+        // protocol and referrer fees stay in the contract until claimed
         await expect(
           creditsContract.connect(user1).buyCredits(visibilityId1, amount, referrer.address, { value: buyCost }),
-        ).to.changeEtherBalances(
-          [user1, creditsContract, treasury, referrer],
-          [-buyCost, tradeCost + creatorFee, protocolFee, referrerFee],
+        ).to.changeEtherBalances([user1, creditsContract, treasury, referrer], [-buyCost, buyCost, 0, 0]);
+        expect(await creditsContract.claimableProtocolFees()).to.equal(protocolFeesBefore + protocolFee);
+        expect(await creditsContract.claimableReferrerFees(referrer.address)).to.equal(
+          referrerFeesBefore + referrerFee,
         );
       }
     });
@@ -104,11 +116,15 @@ describe("VisibilityCredits", function () {
           amount,
           referrer.address,
         );
+        const protocolFeesBefore = await creditsContract.claimableProtocolFees();
+        const referrerFeesBefore = await creditsContract.claimableReferrerFees(referrer.address);
+
         await expect(
           creditsContract.connect(user2).sellCredits(visibilityId1, amount, referrer.address),
-        ).to.changeEtherBalances(
-          [user2, creditsContract, treasury, referrer],
-          [reimbursement, -reimbursement - protocolFee - referrerFee, protocolFee, referrerFee],
+        ).to.changeEtherBalances([user2, creditsContract, treasury, referrer], [reimbursement, -reimbursement, 0, 0]);
+        expect(await creditsContract.claimableProtocolFees()).to.equal(protocolFeesBefore + protocolFee);
+        expect(await creditsContract.claimableReferrerFees(referrer.address)).to.equal(
+          referrerFeesBefore + referrerFee,
         );
       }
     });
@@ -122,11 +138,75 @@ describe("VisibilityCredits", function () {
       await creditsContract.connect(user1).buyCredits(visibilityId1, amount, referrer, { value: buyCost });
 
       const initialCreatorBalance = await ethers.provider.getBalance(creator1.address);
-      await creditsContract.connect(user1).claimCreatorFee(visibilityId1);
+      const [, , claimableFeeBalance] = await creditsContract.getVisibility(visibilityId1);
+      await expect(creditsContract.connect(user1).claimCreatorFee(visibilityId1))
+        .to.emit(creditsContract, "CreatorFeeClaimed")
+        .withArgs(creator1.address, visibilityId1, claimableFeeBalance);
       const finalCreatorBalanceee = await ethers.provider.getBalance(creator1.address);
 
       expect(finalCreatorBalanceee).to.be.gt(initialCreatorBalance);
     });
+
+    it("Should allow the referrer to claim accumulated fees", async function () {
+      const [buyCost, , , , referrerFee] = await creditsContract.buyCostWithFees(visibilityId1, 5, referrer.address);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 5, referrer.address, { value: buyCost });
+
+      const claimTx = creditsContract.connect(referrer).claimReferrerFees();
+      await expect(claimTx).to.emit(creditsContract, "ReferrerFeesClaimed").withArgs(referrer.address, referrerFee);
+      await expect(claimTx).to.changeEtherBalances([referrer, creditsContract], [referrerFee, -referrerFee]);
+      expect(await creditsContract.claimableReferrerFees(referrer.address)).to.equal(0);
+
+      await expect(creditsContract.connect(referrer).claimReferrerFees()).to.be.revertedWithCustomError(
+        creditsContract,
+        "InvalidAmount",
+      );
+    });
+
+    it("Should send the accumulated protocol fees to the treasury", async function () {
+      const [buyCost, , , protocolFee] = await creditsContract.buyCostWithFees(visibilityId1, 5, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 5, ZeroAddress, { value: buyCost });
+
+      // anyone can trigger the payout, the treasury is the only recipient
+      const claimTx = creditsContract.connect(user2).claimProtocolFees();
+      await expect(claimTx).to.emit(creditsContract, "ProtocolFeesClaimed").withArgs(treasury.address, protocolFee);
+      await expect(claimTx).to.changeEtherBalances([treasury, creditsContract], [protocolFee, -protocolFee]);
+      expect(await creditsContract.claimableProtocolFees()).to.equal(0);
+
+      await expect(creditsContract.connect(user2).claimProtocolFees()).to.be.revertedWithCustomError(
+        creditsContract,
+        "InvalidAmount",
+      );
+    });
+
+    it("Should keep trading through a referrer that rejects Ether", async function () {
+      const revertingReceiver = await (await ethers.getContractFactory("RevertingReceiver")).deploy();
+      const revertingReferrer = await revertingReceiver.getAddress();
+
+      const [buyCost, , , , referrerFee] = await creditsContract.buyCostWithFees(visibilityId1, 3, revertingReferrer);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 3, revertingReferrer, { value: buyCost });
+      await creditsContract.connect(user1).sellCredits(visibilityId1, 1, revertingReferrer);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user1.address)).to.equal(2);
+      expect(await creditsContract.claimableReferrerFees(revertingReferrer)).to.be.gt(referrerFee);
+
+      // only its own claim fails
+      await expect(revertingReceiver.claimReferrerFees(await creditsContract.getAddress())).to.be.reverted;
+    });
+
+    it("Should keep trading while the treasury rejects Ether", async function () {
+      const revertingReceiver = await (await ethers.getContractFactory("RevertingReceiver")).deploy();
+      await creditsContract.connect(creator1).updateTreasury(await revertingReceiver.getAddress());
+
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, 3, referrer.address);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 3, referrer.address, { value: buyCost });
+      await creditsContract.connect(user1).sellCredits(visibilityId1, 3, referrer.address);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user1.address)).to.equal(0);
+
+      await expect(creditsContract.claimProtocolFees()).to.be.reverted;
+
+      // fixing the treasury releases the fees
+      await creditsContract.connect(creator1).updateTreasury(treasury.address);
+      await expect(creditsContract.claimProtocolFees()).to.emit(creditsContract, "ProtocolFeesClaimed");
+    });
   });
 
   describe("Edge Cases", function () {
@@ -139,26 +219,19 @@ describe("VisibilityCredits", function () {
       ).to.be.reverted;
 
       const minimalAmount = 1;
-      const [buyCost, tradeCost, creatorFee1] = await creditsContract.buyCostWithFees(
-        visibilityId1,
-        minimalAmount,
-        referrer,
-      );
+      const [buyCost, , creatorFee1] = await creditsContract.buyCostWithFees(visibilityId1, minimalAmount, referrer);
       await expect(
         creditsContract.connect(user1).buyCredits(visibilityId1, minimalAmount, referrer.address, { value: buyCost }),
-      ).to.changeEtherBalances([user1, creditsContract], [-buyCost, tradeCost + creatorFee1]);
+      ).to.changeEtherBalances([user1, creditsContract], [-buyCost, buyCost]);
 
-      const [reimbursement, , creatorFee2, protocolFee, referrerFee] = await creditsContract.sellCostWithFees(
+      const [reimbursement, , creatorFee2] = await creditsContract.sellCostWithFees(
         visibilityId1,
         minimalAmount,
         referrer.address,
       );
       await expect(
         creditsContract.connect(user1).sellCredits(visibilityId1, minimalAmount, referrer.address),
-      ).to.changeEtherBalances(
-        [user1, creditsContract, treasury, referrer],
-        [reimbursement, -reimbursement - protocolFee - referrerFee, protocolFee, referrerFee],
-      );
+      ).to.changeEtherBalances([user1, creditsContract, treasury, referrer], [reimbursement, -reimbursement, 0, 0]);
       expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user2.address)).to.be.equal(0);
       await expect(creditsContract.connect(creator1).claimCreatorFee(visibilityId1)).to.changeEtherBalances(
         [creator1, creditsContract],
@@ -167,6 +240,755 @@ describe("VisibilityCredits", function () {
     });
   });
 
+  describe("Slippage Protection", function () {
+    const getDeadline = async (secondsFromNow = 600) => {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      return BigInt(latestBlock!.timestamp + secondsFromNow);
+    };
+
+    it("Should buy within the max total cost and refund the excess", async function () {
+      const amount = 5;
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, amount, ZeroAddress);
+      const maxTotalCost = buyCost + buyCost / 100n;
+
+      await expect(
+        creditsContract
+          .connect(user1)
+          .buyCreditsWithSlippage(visibilityId1, amount, ZeroAddress, maxTotalCost, await getDeadline(), {
+            value: maxTotalCost,
+          }),
+      ).to.changeEtherBalance(user1, -buyCost);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user1.address)).to.be.equal(amount);
+    });
+
+    it("Should revert a buy front-run by a large purchase", async function () {
+      const amount = 5;
+      const [quotedCost] = await creditsContract.buyCostWithFees(visibilityId1, amount, ZeroAddress);
+      const deadline = await getDeadline();
+
+      // the attacker buys first, pushing the price up
+      const [frontRunCost] = await creditsContract.buyCostWithFees(visibilityId1, 50, ZeroAddress);
+      await creditsContract.connect(user2).buyCredits(visibilityId1, 50, ZeroAddress, { value: frontRunCost });
+
+      await expect(
+        creditsContract
+          .connect(user1)
+          .buyCreditsWithSlippage(visibilityId1, amount, ZeroAddress, quotedCost, deadline, { value: quotedCost * 2n }),
+      ).to.be.revertedWithCustomError(creditsContract, "MaxTotalCostExceeded");
+
+      // without protection the victim would have filled at the worse price
+      const [newCost] = await creditsContract.buyCostWithFees(visibilityId1, amount, ZeroAddress);
+      expect(newCost).to.be.greaterThan(quotedCost);
+    });
+
+    it("Should still require enough Ether to be sent", async function () {
+      const amount = 1;
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, amount, ZeroAddress);
+
+      await expect(
+        creditsContract
+          .connect(user1)
+          .buyCreditsWithSlippage(visibilityId1, amount, ZeroAddress, buyCost, await getDeadline(), {
+            value: buyCost - 1n,
+          }),
+      ).to.be.revertedWithCustomError(creditsContract, "NotEnoughEthSent");
+    });
+
+    it("Should revert a sell front-run by a large sale", async function () {
+      const [buyCost1] = await creditsContract.buyCostWithFees(visibilityId1, 10, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 10, ZeroAddress, { value: buyCost1 });
+      const [buyCost2] = await creditsContract.buyCostWithFees(visibilityId1, 40, ZeroAddress);
+      await creditsContract.connect(user2).buyCredits(visibilityId1, 40, ZeroAddress, { value: buyCost2 });
+
+      const [quotedReimbursement] = await creditsContract.sellCostWithFees(visibilityId1, 10, ZeroAddress);
+      const deadline = await getDeadline();
+
+      // the attacker dumps first, pushing the price down
+      await creditsContract.connect(user2).sellCredits(visibilityId1, 40, ZeroAddress);
+
+      await expect(
+        creditsContract
+          .connect(user1)
+          .sellCreditsWithSlippage(visibilityId1, 10, ZeroAddress, quotedReimbursement, deadline),
+      ).to.be.revertedWithCustomError(creditsContract, "MinReimbursementNotReached");
+    });
+
+    it("Should sell when the reimbursement reaches the minimum", async function () {
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, 10, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 10, ZeroAddress, { value: buyCost });
+
+      const [reimbursement] = await creditsContract.sellCostWithFees(visibilityId1, 10, ZeroAddress);
+
+      await expect(
+        creditsContract
+          .connect(user1)
+          .sellCreditsWithSlippage(visibilityId1, 10, ZeroAddress, reimbursement, await getDeadline()),
+      ).to.changeEtherBalance(user1, reimbursement);
+    });
+
+    it("Should revert trades mined after the deadline", async function () {
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, 1, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 1, ZeroAddress, { value: buyCost });
+
+      const deadline = await getDeadline(60);
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        creditsContract
+          .connect(user1)
+          .buyCreditsWithSlippage(visibilityId1, 1, ZeroAddress, buyCost * 2n, deadline, { value: buyCost * 2n }),
+      ).to.be.revertedWithCustomError(creditsContract, "DeadlineExpired");
+      await expect(
+        creditsContract.connect(user1).sellCreditsWithSlippage(visibilityId1, 1, ZeroAddress, 0, deadline),
+      ).to.be.revertedWithCustomError(creditsContract, "DeadlineExpired");
+    });
+  });
+
+  describe("Curve Profiles", function () {
+    const nicheCurve = { a: parseEther("0.00000001"), b: parseEther("0.00001"), basePrice: parseEther("0.00005") };
+
+    it("Should use the default curve when no profile is set", async function () {
+      expect([...(await creditsContract.getVisibilityCurve(visibilityId1))]).to.deep.equal([
+        await creditsContract.A(),
+        await creditsContract.B(),
+        await creditsContract.BASE_PRICE(),
+      ]);
+    });
+
+    it("Should let the creators checker and the admin set a curve before the first trade", async function () {
+      const { a, b, basePrice } = nicheCurve;
+
+      await expect(creditsContract.connect(creatorLinker).setVisibilityCurve(visibilityId1, a, b, basePrice))
+        .to.emit(creditsContract, "CurveSet")
+        .withArgs(visibilityId1, a, b, basePrice);
+      expect([...(await creditsContract.getVisibilityCurve(visibilityId1))]).to.deep.equal([a, b, basePrice]);
+
+      await creditsContract.connect(creator1).setVisibilityCurve(visibilityId1, a, b, basePrice * 2n);
+      expect(await creditsContract.getVisibilityCurrentPrice(visibilityId1)).to.equal(basePrice * 2n);
+    });
+
+    it("Should revert if the caller has neither role", async function () {
+      const { a, b, basePrice } = nicheCurve;
+      await expect(
+        creditsContract.connect(user1).setVisibilityCurve(visibilityId1, a, b, basePrice),
+      ).to.be.revertedWithCustomError(creditsContract, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should revert on out of range parameters", async function () {
+      const maxParam = await creditsContract.MAX_CURVE_PARAM();
+      const { a, b } = nicheCurve;
+
+      await expect(
+        creditsContract.connect(creatorLinker).setVisibilityCurve(visibilityId1, a, b, 0),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidCurveParams");
+      await expect(
+        creditsContract.connect(creatorLinker).setVisibilityCurve(visibilityId1, maxParam + 1n, b, maxParam),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidCurveParams");
+    });
+
+    it("Should price trades along the visibility curve", async function () {
+      const { a, b, basePrice } = nicheCurve;
+      await creditsContract.connect(creatorLinker).setVisibilityCurve(visibilityId1, a, b, basePrice);
+
+      const amount = 3n;
+      // sum of basePrice + a * k^2 + b * k for k in 0..2
+      const expectedTradeCost = basePrice * amount + a * 5n + b * 3n;
+      const [totalCost, tradeCost] = await creditsContract.buyCostWithFees(visibilityId1, amount, ZeroAddress);
+      expect(tradeCost).to.equal(expectedTradeCost);
+
+      await creditsContract.connect(user1).buyCredits(visibilityId1, amount, ZeroAddress, { value: totalCost });
+      expect(await creditsContract.getVisibilityCurrentPrice(visibilityId1)).to.equal(basePrice + a * 9n + b * 3n);
+
+      const [, sellTradeCost] = await creditsContract.sellCostWithFees(visibilityId1, amount, ZeroAddress);
+      expect(sellTradeCost).to.equal(expectedTradeCost);
+    });
+
+    it("Should trade up to MAX_TOTAL_SUPPLY with the maximum parameters", async function () {
+      const maxParam = await creditsContract.MAX_CURVE_PARAM();
+      const maxTotalSupply = await creditsContract.MAX_TOTAL_SUPPLY();
+      await creditsContract.connect(creatorLinker).setVisibilityCurve(visibilityId1, maxParam, maxParam, maxParam);
+
+      // the highest fee a trade cost is multiplied by
+      await creditsContract.connect(creator1).beginFeeChange(0, await creditsContract.MAX_TOTAL_FEE(), 0);
+      await ethers.provider.send("evm_increaseTime", [Number(await creditsContract.defaultAdminDelay())]);
+      await ethers.provider.send("evm_mine", []);
+      await creditsContract.connect(creator1).applyFeeChange();
+
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, maxTotalSupply, ZeroAddress);
+      await ethers.provider.send("hardhat_setBalance", [user1.address, toQuantity(buyCost + parseEther("1"))]);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, maxTotalSupply, ZeroAddress, { value: buyCost });
+
+      const [, totalSupply] = await creditsContract.getVisibility(visibilityId1);
+      expect(totalSupply).to.equal(maxTotalSupply);
+      expect(await creditsContract.getVisibilityCurrentPrice(visibilityId1)).to.equal(
+        maxParam + maxParam * maxTotalSupply ** 2n + maxParam * maxTotalSupply,
+      );
+
+      await creditsContract.connect(user1).sellCredits(visibilityId1, maxTotalSupply, ZeroAddress);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user1.address)).to.equal(0);
+    });
+
+    it("Should lock the curve once credits are in circulation", async function () {
+      const { a, b, basePrice } = nicheCurve;
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, 1, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 1, ZeroAddress, { value: buyCost });
+
+      await expect(
+        creditsContract.connect(creatorLinker).setVisibilityCurve(visibilityId1, a, b, basePrice),
+      ).to.be.revertedWithCustomError(creditsContract, "CurveLocked");
+    });
+  });
+
+  describe("Fee Schedule", function () {
+    const newFees = { creatorFee: 30_000n, protocolFee: 25_000n, referrerFee: 5_000n };
+
+    const scheduleNewFees = () =>
+      creditsContract.connect(creator1).beginFeeChange(newFees.creatorFee, newFees.protocolFee, newFees.referrerFee);
+
+    it("Should start with the initial fees and no pending change", async function () {
+      expect([...(await creditsContract.fees())]).to.deep.equal([20_000n, 20_000n, 10_000n]);
+      expect([...(await creditsContract.pendingFeeChange())]).to.deep.equal([0n, 0n, 0n, 0n]);
+    });
+
+    it("Should schedule a fee change after the admin delay", async function () {
+      const delay = await creditsContract.defaultAdminDelay();
+
+      const tx = await scheduleNewFees();
+      const block = await ethers.provider.getBlock(tx.blockNumber!);
+      const effectSchedule = BigInt(block!.timestamp) + delay;
+
+      await expect(tx)
+        .to.emit(creditsContract, "FeeChangeScheduled")
+        .withArgs(newFees.creatorFee, newFees.protocolFee, newFees.referrerFee, effectSchedule);
+      expect([...(await creditsContract.pendingFeeChange())]).to.deep.equal([
+        newFees.creatorFee,
+        newFees.protocolFee,
+        newFees.referrerFee,
+        effectSchedule,
+      ]);
+      expect([...(await creditsContract.fees())]).to.deep.equal([20_000n, 20_000n, 10_000n]);
+
+      await expect(creditsContract.connect(creator1).applyFeeChange()).to.be.revertedWithCustomError(
+        creditsContract,
+        "FeeChangeNotReady",
+      );
+    });
+
+    it("Should apply the fee change once the delay has passed", async function () {
+      await scheduleNewFees();
+      await ethers.provider.send("evm_increaseTime", [Number(await creditsContract.defaultAdminDelay())]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(creditsContract.connect(creator1).applyFeeChange())
+        .to.emit(creditsContract, "FeeChangeApplied")
+        .withArgs(newFees.creatorFee, newFees.protocolFee, newFees.referrerFee);
+      expect([...(await creditsContract.fees())]).to.deep.equal([
+        newFees.creatorFee,
+        newFees.protocolFee,
+        newFees.referrerFee,
+      ]);
+      expect([...(await creditsContract.pendingFeeChange())]).to.deep.equal([0n, 0n, 0n, 0n]);
+
+      const [, tradeCost, creatorFee, protocolFee, referrerFee] = await creditsContract.buyCostWithFees(
+        visibilityId1,
+        10,
+        referrer.address,
+      );
+      expect(creatorFee).to.equal((tradeCost * newFees.creatorFee) / 1_000_000n);
+      expect(protocolFee).to.equal((tradeCost * (newFees.protocolFee - newFees.referrerFee)) / 1_000_000n);
+      expect(referrerFee).to.equal((tradeCost * newFees.referrerFee) / 1_000_000n);
+    });
+
+    it("Should cancel a pending fee change", async function () {
+      await scheduleNewFees();
+
+      await expect(creditsContract.connect(creator1).cancelFeeChange()).to.emit(creditsContract, "FeeChangeCanceled");
+      expect([...(await creditsContract.pendingFeeChange())]).to.deep.equal([0n, 0n, 0n, 0n]);
+
+      await ethers.provider.send("evm_increaseTime", [Number(await creditsContract.defaultAdminDelay())]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(creditsContract.connect(creator1).applyFeeChange()).to.be.revertedWithCustomError(
+        creditsContract,
+        "FeeChangeNotReady",
+      );
+    });
+
+    it("Should cancel the pending change when scheduling a new one", async function () {
+      await scheduleNewFees();
+      await expect(creditsContract.connect(creator1).beginFeeChange(10_000n, 15_000n, 5_000n))
+        .to.emit(creditsContract, "FeeChangeCanceled")
+        .and.to.emit(creditsContract, "FeeChangeScheduled");
+
+      const [creatorFee] = await creditsContract.pendingFeeChange();
+      expect(creatorFee).to.equal(10_000n);
+    });
+
+    it("Should revert invalid fee params", async function () {
+      // protocol fee not above the referrer fee
+      await expect(
+        creditsContract.connect(creator1).beginFeeChange(20_000n, 10_000n, 10_000n),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidFeeParams");
+      // above MAX_TOTAL_FEE
+      await expect(
+        creditsContract.connect(creator1).beginFeeChange(60_000n, 50_000n, 10_000n),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidFeeParams");
+    });
+
+    it("Should only let the admin manage fee changes", async function () {
+      await expect(
+        creditsContract.connect(user1).beginFeeChange(30_000n, 25_000n, 5_000n),
+      ).to.be.revertedWithCustomError(creditsContract, "AccessControlUnauthorizedAccount");
+      await expect(creditsContract.connect(user1).cancelFeeChange()).to.be.revertedWithCustomError(
+        creditsContract,
+        "AccessControlUnauthorizedAccount",
+      );
+      await expect(creditsContract.connect(user1).applyFeeChange()).to.be.revertedWithCustomError(
+        creditsContract,
+        "AccessControlUnauthorizedAccount",
+      );
+    });
+  });
+
+  describe("Credit Transfers", function () {
+    beforeEach(async function () {
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, 10, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 10, ZeroAddress, { value: buyCost });
+    });
+
+    it("Should let holders send their own credits", async function () {
+      await expect(creditsContract.connect(user1).transferCreditsFrom(visibilityId1, user1.address, user2.address, 4))
+        .to.emit(creditsContract, "CreditsTransfer")
+        .withArgs(visibilityId1, user1.address, user2.address, 4);
+
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user1.address)).to.equal(6);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user2.address)).to.equal(4);
+    });
+
+    it("Should revert when sending more credits than owned or to the zero address", async function () {
+      await expect(
+        creditsContract.connect(user1).transferCreditsFrom(visibilityId1, user1.address, user2.address, 11),
+      ).to.be.revertedWithCustomError(creditsContract, "NotEnoughCreditsOwned");
+      await expect(
+        creditsContract.connect(user1).transferCreditsFrom(visibilityId1, user1.address, ZeroAddress, 1),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAddress");
+    });
+
+    it("Should let an approved operator transfer credits of this visibility only", async function () {
+      await expect(
+        creditsContract.connect(user2).transferCreditsFrom(visibilityId1, user1.address, user2.address, 1),
+      ).to.be.revertedWithCustomError(creditsContract, "NotOperator");
+
+      await expect(creditsContract.connect(user1).setOperatorApproval(visibilityId1, user2.address, true))
+        .to.emit(creditsContract, "OperatorApprovalSet")
+        .withArgs(visibilityId1, user1.address, user2.address, true);
+      expect(await creditsContract.isOperatorApproved(visibilityId1, user1.address, user2.address)).to.equal(true);
+      expect(await creditsContract.isOperatorApproved("x-other", user1.address, user2.address)).to.equal(false);
+
+      await creditsContract.connect(user2).transferCreditsFrom(visibilityId1, user1.address, referrer.address, 3);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, referrer.address)).to.equal(3);
+
+      await creditsContract.connect(user1).setOperatorApproval(visibilityId1, user2.address, false);
+      await expect(
+        creditsContract.connect(user2).transferCreditsFrom(visibilityId1, user1.address, user2.address, 1),
+      ).to.be.revertedWithCustomError(creditsContract, "NotOperator");
+    });
+
+    it("Should keep role-gated transfers for protocol contracts", async function () {
+      await expect(
+        creditsContract.connect(user2).transferCredits(visibilityId1, user1.address, user2.address, 1),
+      ).to.be.revertedWithCustomError(creditsContract, "AccessControlUnauthorizedAccount");
+
+      await creditsContract.connect(creator1).grantCreatorTransferRole(user2.address);
+      await creditsContract.connect(user2).transferCredits(visibilityId1, user1.address, user2.address, 1);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user2.address)).to.equal(1);
+
+      await expect(
+        creditsContract.connect(user2).transferCredits(visibilityId1, user1.address, ZeroAddress, 1),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAddress");
+    });
+  });
+
+  describe("Creator Attestations", function () {
+    const visibilityId2 = "x-jessepollak";
+
+    const getDeadline = async (secondsFromNow = 600) => {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      return BigInt(latestBlock!.timestamp + secondsFromNow);
+    };
+
+    const signAttestation = async (
+      signer: HardhatEthersSigner,
+      visibilityId: string,
+      creator: string,
+      deadline: bigint,
+    ) => {
+      const domain = {
+        name: "VisibilityCredits",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await creditsContract.getAddress(),
+      };
+      const types = {
+        CreatorAttestation: [
+          { name: "visibilityId", type: "string" },
+          { name: "creator", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      return signer.signTypedData(domain, types, {
+        visibilityId,
+        creator,
+        nonce: await creditsContract.getCreatorAttestationNonce(visibilityId),
+        deadline,
+      });
+    };
+
+    it("Should let anyone submit an attestation signed by the creators checker", async function () {
+      const deadline = await getDeadline();
+      const signature = await signAttestation(creatorLinker, visibilityId2, user1.address, deadline);
+
+      await expect(
+        creditsContract
+          .connect(user2)
+          .setCreatorVisibilityWithAttestation(visibilityId2, user1.address, deadline, signature),
+      )
+        .to.emit(creditsContract, "CreatorVisibilitySet")
+        .withArgs(visibilityId2, user1.address);
+
+      const [creator] = await creditsContract.getVisibility(visibilityId2);
+      expect(creator).to.equal(user1.address);
+      expect(await creditsContract.getCreatorAttestationNonce(visibilityId2)).to.equal(1);
+    });
+
+    it("Should not replay an attestation", async function () {
+      const deadline = await getDeadline();
+      const signature = await signAttestation(creatorLinker, visibilityId2, user1.address, deadline);
+      await creditsContract.setCreatorVisibilityWithAttestation(visibilityId2, user1.address, deadline, signature);
+
+      // the checker unlinks the creator, the previous attestation must not restore it
+      await creditsContract.connect(creatorLinker).setCreatorVisibility(visibilityId2, ZeroAddress);
+
+      await expect(
+        creditsContract.setCreatorVisibilityWithAttestation(visibilityId2, user1.address, deadline, signature),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAttestation");
+    });
+
+    it("Should be invalidated by a manual link", async function () {
+      const deadline = await getDeadline();
+      const signature = await signAttestation(creatorLinker, visibilityId2, user1.address, deadline);
+
+      await creditsContract.connect(creatorLinker).setCreatorVisibility(visibilityId2, user2.address);
+
+      await expect(
+        creditsContract.setCreatorVisibilityWithAttestation(visibilityId2, user1.address, deadline, signature),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAttestation");
+    });
+
+    it("Should revert expired attestations", async function () {
+      const deadline = await getDeadline(60);
+      const signature = await signAttestation(creatorLinker, visibilityId2, user1.address, deadline);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        creditsContract.setCreatorVisibilityWithAttestation(visibilityId2, user1.address, deadline, signature),
+      ).to.be.revertedWithCustomError(creditsContract, "DeadlineExpired");
+    });
+
+    it("Should revert attestations not signed by the creators checker or tampered with", async function () {
+      const deadline = await getDeadline();
+
+      const forgedSignature = await signAttestation(user1, visibilityId2, user1.address, deadline);
+      await expect(
+        creditsContract.setCreatorVisibilityWithAttestation(visibilityId2, user1.address, deadline, forgedSignature),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAttestation");
+
+      const signature = await signAttestation(creatorLinker, visibilityId2, user1.address, deadline);
+      await expect(
+        creditsContract.setCreatorVisibilityWithAttestation(visibilityId2, user2.address, deadline, signature),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAttestation");
+      await expect(
+        creditsContract.setCreatorVisibilityWithAttestation(visibilityId1, user1.address, deadline, signature),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAttestation");
+      await expect(
+        creditsContract.setCreatorVisibilityWithAttestation(visibilityId2, user1.address, deadline, "0x1234"),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAttestation");
+    });
+  });
+
+  describe("Batch Trading", function () {
+    const visibilityId2 = "x-jessepollak";
+    const visibilityId3 = "x-brian_armstrong";
+
+    const getDeadline = async (secondsFromNow = 600) => {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      return BigInt(latestBlock!.timestamp + secondsFromNow);
+    };
+
+    beforeEach(async function () {
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, 20, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 20, ZeroAddress, { value: buyCost });
+    });
+
+    it("Should execute buys and sells with a single settlement", async function () {
+      const [sellReimbursement] = await creditsContract.sellCostWithFees(visibilityId1, 8, referrer.address);
+      const [buyCost2] = await creditsContract.buyCostWithFees(visibilityId2, 5, referrer.address);
+      const [buyCost3] = await creditsContract.buyCostWithFees(visibilityId3, 3, referrer.address);
+      const legs = [
+        { visibilityId: visibilityId1, amount: 8, isBuy: false, limit: sellReimbursement },
+        { visibilityId: visibilityId2, amount: 5, isBuy: true, limit: buyCost2 },
+        { visibilityId: visibilityId3, amount: 3, isBuy: true, limit: buyCost3 },
+      ];
+      // the sell reimbursement funds part of the buys, the excess sent is refunded
+      const netCost = buyCost2 + buyCost3 - sellReimbursement;
+
+      const tx = creditsContract
+        .connect(user1)
+        .tradeCreditsBatch(legs, referrer.address, await getDeadline(), { value: netCost + parseEther("1") });
+      await expect(tx).to.changeEtherBalance(user1, -netCost);
+      await expect(tx).to.emit(creditsContract, "CreditsTrade");
+
+      const receipt = await (await tx).wait();
+      const tradeEvents = receipt!.logs
+        .map(log => creditsContract.interface.parseLog(log))
+        .filter(event => event?.name === "CreditsTrade");
+      expect(
+        tradeEvents.map(event => [event!.args.tradeEvent.visibilityId, event!.args.tradeEvent.isBuy]),
+      ).to.deep.equal([
+        [visibilityId1, false],
+        [visibilityId2, true],
+        [visibilityId3, true],
+      ]);
+
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user1.address)).to.equal(12);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId2, user1.address)).to.equal(5);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId3, user1.address)).to.equal(3);
+      const referrerFees = tradeEvents.reduce((sum, event) => sum + event!.args.tradeEvent.referrerFee, 0n);
+      expect(await creditsContract.claimableReferrerFees(referrer.address)).to.equal(referrerFees);
+    });
+
+    it("Should pay out the net reimbursement when sells exceed buys", async function () {
+      const [sellReimbursement] = await creditsContract.sellCostWithFees(visibilityId1, 20, ZeroAddress);
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId2, 1, ZeroAddress);
+      const legs = [
+        { visibilityId: visibilityId1, amount: 20, isBuy: false, limit: sellReimbursement },
+        { visibilityId: visibilityId2, amount: 1, isBuy: true, limit: buyCost },
+      ];
+
+      await expect(
+        creditsContract.connect(user1).tradeCreditsBatch(legs, ZeroAddress, await getDeadline()),
+      ).to.changeEtherBalance(user1, sellReimbursement - buyCost);
+    });
+
+    it("Should revert the whole batch if any leg exceeds its limit", async function () {
+      const [sellReimbursement] = await creditsContract.sellCostWithFees(visibilityId1, 5, ZeroAddress);
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId2, 5, ZeroAddress);
+      const deadline = await getDeadline();
+
+      await expect(
+        creditsContract.connect(user1).tradeCreditsBatch(
+          [
+            { visibilityId: visibilityId1, amount: 5, isBuy: false, limit: sellReimbursement },
+            { visibilityId: visibilityId2, amount: 5, isBuy: true, limit: buyCost - 1n },
+          ],
+          ZeroAddress,
+          deadline,
+          { value: buyCost },
+        ),
+      ).to.be.revertedWithCustomError(creditsContract, "MaxTotalCostExceeded");
+
+      await expect(
+        creditsContract.connect(user1).tradeCreditsBatch(
+          [
+            { visibilityId: visibilityId2, amount: 5, isBuy: true, limit: buyCost },
+            { visibilityId: visibilityId1, amount: 5, isBuy: false, limit: sellReimbursement + 1n },
+          ],
+          ZeroAddress,
+          deadline,
+          { value: buyCost },
+        ),
+      ).to.be.revertedWithCustomError(creditsContract, "MinReimbursementNotReached");
+
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId1, user1.address)).to.equal(20);
+      expect(await creditsContract.getVisibilityCreditBalance(visibilityId2, user1.address)).to.equal(0);
+    });
+
+    it("Should revert if the Ether sent and reimbursements do not cover the buys", async function () {
+      const [sellReimbursement] = await creditsContract.sellCostWithFees(visibilityId1, 1, ZeroAddress);
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId2, 10, ZeroAddress);
+
+      await expect(
+        creditsContract.connect(user1).tradeCreditsBatch(
+          [
+            { visibilityId: visibilityId1, amount: 1, isBuy: false, limit: 0 },
+            { visibilityId: visibilityId2, amount: 10, isBuy: true, limit: buyCost },
+          ],
+          ZeroAddress,
+          await getDeadline(),
+          { value: buyCost - sellReimbursement - 1n },
+        ),
+      ).to.be.revertedWithCustomError(creditsContract, "NotEnoughEthSent");
+    });
+
+    it("Should revert empty or expired batches", async function () {
+      await expect(
+        creditsContract.connect(user1).tradeCreditsBatch([], ZeroAddress, await getDeadline()),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidAmount");
+
+      const deadline = await getDeadline(60);
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        creditsContract
+          .connect(user1)
+          .tradeCreditsBatch(
+            [{ visibilityId: visibilityId1, amount: 1, isBuy: false, limit: 0 }],
+            ZeroAddress,
+            deadline,
+          ),
+      ).to.be.revertedWithCustomError(creditsContract, "DeadlineExpired");
+    });
+  });
+
+  describe("Visibility IDs", function () {
+    const visibilityIds = [
+      "x-jessepollak",
+      "x-brian_armstrong",
+      "x-JessePollak",
+      "x-",
+      "x-way_too_long_handle",
+      "x-dot.handle",
+      "-jessepollak",
+      "jessepollak",
+      "X-jessepollak",
+      "ig-jessepollak",
+      "fc-dwr-eth",
+      "fc-dwr.eth",
+      "yt-ab",
+      "yt-mr.beast_6000",
+    ];
+
+    it("Should register the default platforms", async function () {
+      const [enabled, lowercase, minHandleLength, maxHandleLength, allowedSymbols] =
+        await creditsContract.getPlatform("x");
+      expect([enabled, lowercase, minHandleLength, maxHandleLength, allowedSymbols]).to.deep.equal([
+        true,
+        true,
+        1n,
+        15n,
+        "_",
+      ]);
+      expect((await creditsContract.getPlatform("ig")).enabled).to.be.equal(false);
+    });
+
+    // Rules of the shared validator, read from the registry as the frontend does
+    const getPlatformRules = async (prefix: string) => {
+      const platform = await creditsContract.getPlatform(prefix);
+      if (!platform.enabled) return null;
+      return new PlatformRules(
+        platform.lowercase,
+        Number(platform.minHandleLength),
+        Number(platform.maxHandleLength),
+        platform.allowedSymbols,
+      );
+    };
+
+    it("Should match the shared visibility ID validator", async function () {
+      const checkVisibilityIds = async () => {
+        for (const visibilityId of visibilityIds) {
+          expect(await creditsContract.isValidVisibilityId(visibilityId), visibilityId).to.be.equal(
+            isCanonicalVisibilityId(visibilityId, await getPlatformRules(getVisibilityPlatform(visibilityId))),
+          );
+
+          const normalized = normalizeVisibilityId(
+            visibilityId,
+            await getPlatformRules(normalizeVisibilityPlatform(visibilityId)),
+          );
+          if (normalized) {
+            expect(await creditsContract.isValidVisibilityId(normalized), normalized).to.be.equal(true);
+          }
+        }
+      };
+
+      await checkVisibilityIds();
+      expect(normalizeVisibilityId(" X-@JessePollak ", await getPlatformRules("x"))).to.be.equal("x-jessepollak");
+
+      // still in sync once the registry changes
+      await creditsContract.setPlatform("ig", {
+        enabled: true,
+        lowercase: true,
+        minHandleLength: 1,
+        maxHandleLength: 30,
+        allowedSymbols: "._",
+      });
+      await creditsContract.setPlatform("yt", {
+        enabled: false,
+        lowercase: true,
+        minHandleLength: 3,
+        maxHandleLength: 30,
+        allowedSymbols: "._-",
+      });
+      await checkVisibilityIds();
+      expect(await creditsContract.isValidVisibilityId("ig-jessepollak")).to.be.equal(true);
+    });
+
+    it("Should reject malformed visibility IDs on first trade", async function () {
+      for (const visibilityId of ["x-JessePollak", "ig-jessepollak", "jessepollak"]) {
+        const [buyCost] = await creditsContract.buyCostWithFees(visibilityId, 1, ZeroAddress);
+        await expect(
+          creditsContract.connect(user1).buyCredits(visibilityId, 1, ZeroAddress, { value: buyCost }),
+        ).to.be.revertedWithCustomError(creditsContract, "InvalidVisibilityId");
+      }
+    });
+
+    it("Should keep trading visibilities of a disabled platform", async function () {
+      const [buyCost] = await creditsContract.buyCostWithFees(visibilityId1, 2, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 2, ZeroAddress, { value: buyCost });
+
+      const rules = { enabled: false, lowercase: true, minHandleLength: 1, maxHandleLength: 15, allowedSymbols: "_" };
+      await expect(creditsContract.connect(creator1).setPlatform("x", rules))
+        .to.emit(creditsContract, "PlatformSet")
+        .withArgs("x", Object.values(rules));
+
+      const [nextBuyCost] = await creditsContract.buyCostWithFees(visibilityId1, 1, ZeroAddress);
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 1, ZeroAddress, { value: nextBuyCost });
+
+      const [newBuyCost] = await creditsContract.buyCostWithFees("x-jessepollak", 1, ZeroAddress);
+      await expect(
+        creditsContract.connect(user1).buyCredits("x-jessepollak", 1, ZeroAddress, { value: newBuyCost }),
+      ).to.be.revertedWithCustomError(creditsContract, "InvalidVisibilityId");
+    });
+
+    it("Should let only the admin register valid platforms", async function () {
+      const rules = { enabled: true, lowercase: false, minHandleLength: 3, maxHandleLength: 30, allowedSymbols: "._" };
+
+      await expect(creditsContract.connect(user1).setPlatform("ig", rules)).to.be.revertedWithCustomError(
+        creditsContract,
+        "AccessControlUnauthorizedAccount",
+      );
+      for (const [prefix, invalidRules] of [
+        ["", rules],
+        ["IG", rules],
+        ["i-g", rules],
+        ["ig", { ...rules, minHandleLength: 0 }],
+        ["ig", { ...rules, maxHandleLength: 2 }],
+      ] as const) {
+        await expect(creditsContract.connect(creator1).setPlatform(prefix, invalidRules)).to.be.revertedWithCustomError(
+          creditsContract,
+          "InvalidPlatformRules",
+        );
+      }
+
+      await creditsContract.connect(creator1).setPlatform("ig", rules);
+      expect(await creditsContract.isValidVisibilityId("ig-Jesse.Pollak")).to.be.equal(true);
+      expect(await creditsContract.isValidVisibilityId("ig-jp")).to.be.equal(false);
+    });
+  });
+
   describe("Role Management", function () {
     it("Should allow admin to grant and revoke roles", async function () {
       await creditsContract.connect(creator1).grantCreatorTransferRole(user1.address);
@@ -0,0 +1,239 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { parseEther, ZeroAddress } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  VisibilityCredits,
+  VisibilityCredits1155,
+  VisibilityCredits1155__factory,
+  VisibilityCredits__factory,
+  VisibilityServices,
+  VisibilityServices__factory,
+} from "../typechain-types";
+
+describe("VisibilityCredits1155", function () {
+  const visibilityId1 = "x-vitalikbuterin";
+  const visibilityId2 = "x-jessepollak";
+  const baseURI = "https://noodles.example/api/metadata/";
+
+  let creditsContract: VisibilityCredits;
+  let tokenContract: VisibilityCredits1155;
+  let servicesContract: VisibilityServices;
+  let admin: HardhatEthersSigner;
+  let creator1: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+  let user2: HardhatEthersSigner;
+  let tokenId1: bigint;
+  let tokenId2: bigint;
+
+  beforeEach(async function () {
+    [admin, creator1, user1, user2] = await ethers.getSigners();
+
+    const creditsContractFactory: VisibilityCredits__factory = await ethers.getContractFactory("VisibilityCredits");
+    creditsContract = await creditsContractFactory.deploy(admin.address, admin.address);
+    await creditsContract.waitForDeployment();
+
+    const tokenContractFactory: VisibilityCredits1155__factory =
+      await ethers.getContractFactory("VisibilityCredits1155");
+    tokenContract = await tokenContractFactory.deploy(await creditsContract.getAddress(), baseURI);
+    await tokenContract.waitForDeployment();
+
+    const servicesContractFactory: VisibilityServices__factory = await ethers.getContractFactory("VisibilityServices");
+    servicesContract = await servicesContractFactory.deploy(await creditsContract.getAddress(), admin.address);
+    await servicesContract.waitForDeployment();
+
+    await creditsContract.setTokenAdapter(await tokenContract.getAddress());
+    await creditsContract.grantCreatorTransferRole(await servicesContract.getAddress());
+    await creditsContract.setCreatorVisibility(visibilityId1, creator1.address);
+
+    tokenId1 = BigInt(await creditsContract.getVisibilityKey(visibilityId1));
+    tokenId2 = BigInt(await creditsContract.getVisibilityKey(visibilityId2));
+  });
+
+  // Asserts the ERC-1155 balances of every user match `getVisibilityCreditBalance`
+  const expectConsistentBalances = async () => {
+    const accounts = [creator1, user1, user2].flatMap(account => [account.address, account.address]);
+    const visibilityIds = accounts.map((_, i) => (i % 2 === 0 ? visibilityId1 : visibilityId2));
+
+    const expected = await Promise.all(
+      accounts.map((account, i) => creditsContract.getVisibilityCreditBalance(visibilityIds[i], account)),
+    );
+    const ids = visibilityIds.map(visibilityId => (visibilityId === visibilityId1 ? tokenId1 : tokenId2));
+
+    expect([...(await tokenContract.balanceOfBatch(accounts, ids))]).to.deep.equal(expected);
+    for (let i = 0; i < accounts.length; i++) {
+      expect(await tokenContract.balanceOf(accounts[i], ids[i])).to.equal(expected[i]);
+    }
+  };
+
+  describe("Token IDs and Metadata", function () {
+    it("Should use the visibility key as token ID", async function () {
+      expect(await tokenContract.getTokenId(visibilityId1)).to.equal(tokenId1);
+    });
+
+    it("Should resolve the metadata URI once credits were traded", async function () {
+      expect(await tokenContract.uri(tokenId1)).to.equal("");
+
+      await expect(creditsContract.connect(user1).buyCredits(visibilityId1, 1, ZeroAddress, { value: parseEther("1") }))
+        .to.emit(tokenContract, "URI")
+        .withArgs(baseURI + visibilityId1, tokenId1);
+
+      expect(await tokenContract.uri(tokenId1)).to.equal(baseURI + visibilityId1);
+      expect(await tokenContract.visibilityIds(tokenId1)).to.equal(visibilityId1);
+
+      // emitted once per token ID
+      await expect(
+        creditsContract.connect(user2).buyCredits(visibilityId1, 1, ZeroAddress, { value: parseEther("1") }),
+      ).to.not.emit(tokenContract, "URI");
+    });
+
+    it("Should support the ERC-1155 interfaces", async function () {
+      expect(await tokenContract.supportsInterface("0xd9b67a26")).to.equal(true); // IERC1155
+      expect(await tokenContract.supportsInterface("0x0e89341c")).to.equal(true); // IERC1155MetadataURI
+      expect(await tokenContract.supportsInterface("0x01ffc9a7")).to.equal(true); // IERC165
+      expect(await tokenContract.supportsInterface("0xffffffff")).to.equal(false);
+    });
+  });
+
+  describe("Transfer Events", function () {
+    it("Should emit TransferSingle on buys and sells", async function () {
+      await expect(creditsContract.connect(user1).buyCredits(visibilityId1, 5, ZeroAddress, { value: parseEther("1") }))
+        .to.emit(tokenContract, "TransferSingle")
+        .withArgs(user1.address, ZeroAddress, user1.address, tokenId1, 5);
+
+      await expect(creditsContract.connect(user1).sellCredits(visibilityId1, 2, ZeroAddress))
+        .to.emit(tokenContract, "TransferSingle")
+        .withArgs(user1.address, user1.address, ZeroAddress, tokenId1, 2);
+    });
+
+    it("Should emit TransferSingle on transfers, with the caller as operator", async function () {
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 20, ZeroAddress, { value: parseEther("1") });
+
+      await expect(creditsContract.connect(user1).transferCreditsFrom(visibilityId1, user1.address, user2.address, 3))
+        .to.emit(tokenContract, "TransferSingle")
+        .withArgs(user1.address, user1.address, user2.address, tokenId1, 3);
+
+      await creditsContract.connect(user1).setOperatorApproval(visibilityId1, creator1.address, true);
+      await expect(
+        creditsContract.connect(creator1).transferCreditsFrom(visibilityId1, user1.address, user2.address, 4),
+      )
+        .to.emit(tokenContract, "TransferSingle")
+        .withArgs(creator1.address, user1.address, user2.address, tokenId1, 4);
+
+      await servicesContract
+        .connect(creator1)
+        .createService("x-post", visibilityId1, 10, 5 * 24 * 60 * 60, 3 * 24 * 60 * 60);
+      await expect(servicesContract.connect(user1).requestServiceExecution(0, "Request Data"))
+        .to.emit(tokenContract, "TransferSingle")
+        .withArgs(
+          await servicesContract.getAddress(),
+          user1.address,
+          await servicesContract.getAddress(),
+          tokenId1,
+          10,
+        );
+    });
+
+    it("Should only accept notifications from VisibilityCredits", async function () {
+      await expect(
+        tokenContract.onCreditsTransfer(user1.address, ZeroAddress, user1.address, visibilityId1, 1),
+      ).to.be.revertedWithCustomError(tokenContract, "NotVisibilityCredits");
+    });
+
+    it("Should stop notifying once the adapter is unset", async function () {
+      await expect(creditsContract.setTokenAdapter(ZeroAddress))
+        .to.emit(creditsContract, "TokenAdapterSet")
+        .withArgs(ZeroAddress);
+
+      await expect(
+        creditsContract.connect(user1).buyCredits(visibilityId1, 1, ZeroAddress, { value: parseEther("1") }),
+      ).to.not.emit(tokenContract, "TransferSingle");
+    });
+
+    it("Should only allow the admin to set the adapter", async function () {
+      await expect(creditsContract.connect(user1).setTokenAdapter(user1.address)).to.be.revertedWithCustomError(
+        creditsContract,
+        "AccessControlUnauthorizedAccount",
+      );
+    });
+
+    it("Should lock the adapter once credits were bought", async function () {
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 1, ZeroAddress, { value: parseEther("1") });
+      await creditsContract.connect(user1).sellCredits(visibilityId1, 1, ZeroAddress);
+
+      // a new adapter would miss the balances minted so far
+      await expect(creditsContract.setTokenAdapter(ZeroAddress)).to.be.revertedWithCustomError(
+        creditsContract,
+        "TokenAdapterLocked",
+      );
+    });
+  });
+
+  describe("Balances", function () {
+    it("Should stay consistent with getVisibilityCreditBalance", async function () {
+      await expectConsistentBalances();
+
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 30, ZeroAddress, { value: parseEther("1") });
+      await creditsContract.connect(user2).buyCredits(visibilityId2, 7, ZeroAddress, { value: parseEther("1") });
+      await expectConsistentBalances();
+
+      await creditsContract.connect(user1).transferCreditsFrom(visibilityId1, user1.address, user2.address, 12);
+      await creditsContract.connect(user2).sellCredits(visibilityId2, 7, ZeroAddress);
+      await expectConsistentBalances();
+
+      await servicesContract
+        .connect(creator1)
+        .createService("x-post", visibilityId1, 10, 5 * 24 * 60 * 60, 3 * 24 * 60 * 60);
+      await servicesContract.connect(user2).requestServiceExecution(0, "Request Data");
+      await servicesContract.connect(creator1).acceptServiceExecution(0, 0, "Response Data");
+      await servicesContract.connect(user2).validateServiceExecution(0, 0);
+      await expectConsistentBalances();
+      expect(await tokenContract.balanceOf(creator1.address, tokenId1)).to.equal(10);
+    });
+
+    it("Should sum the TransferSingle events to the balances", async function () {
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 9, ZeroAddress, { value: parseEther("1") });
+      await creditsContract.connect(user1).transferCreditsFrom(visibilityId1, user1.address, user2.address, 4);
+      await creditsContract.connect(user2).sellCredits(visibilityId1, 1, ZeroAddress);
+
+      const balances = new Map<string, bigint>();
+      const events = await tokenContract.queryFilter(tokenContract.filters.TransferSingle());
+      for (const { args } of events) {
+        balances.set(args.from, (balances.get(args.from) ?? 0n) - args.value);
+        balances.set(args.to, (balances.get(args.to) ?? 0n) + args.value);
+      }
+
+      for (const account of [user1.address, user2.address]) {
+        expect(balances.get(account)).to.equal(
+          await creditsContract.getVisibilityCreditBalance(visibilityId1, account),
+        );
+      }
+      const [, totalSupply] = await creditsContract.getVisibility(visibilityId1);
+      expect(-(balances.get(ZeroAddress) ?? 0n)).to.equal(totalSupply);
+    });
+
+    it("Should revert balanceOfBatch on mismatching array lengths", async function () {
+      await expect(tokenContract.balanceOfBatch([user1.address], [tokenId1, tokenId2]))
+        .to.be.revertedWithCustomError(tokenContract, "ERC1155InvalidArrayLength")
+        .withArgs(2, 1);
+    });
+  });
+
+  describe("Transfers", function () {
+    it("Should not allow moving credits through the ERC-1155 interface", async function () {
+      await creditsContract.connect(user1).buyCredits(visibilityId1, 3, ZeroAddress, { value: parseEther("1") });
+
+      await expect(
+        tokenContract.connect(user1).safeTransferFrom(user1.address, user2.address, tokenId1, 1, "0x"),
+      ).to.be.revertedWithCustomError(tokenContract, "TransfersNotSupported");
+      await expect(
+        tokenContract.connect(user1).safeBatchTransferFrom(user1.address, user2.address, [tokenId1], [1], "0x"),
+      ).to.be.revertedWithCustomError(tokenContract, "TransfersNotSupported");
+      await expect(tokenContract.connect(user1).setApprovalForAll(user2.address, true)).to.be.revertedWithCustomError(
+        tokenContract,
+        "TransfersNotSupported",
+      );
+      expect(await tokenContract.isApprovedForAll(user1.address, user2.address)).to.equal(false);
+    });
+  });
+});
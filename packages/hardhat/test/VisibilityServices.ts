@@ -10,6 +10,9 @@ import {
 } from "../typechain-types";
 
 describe("VisibilityServices", function () {
+  const FIVE_DAYS = 5 * 24 * 60 * 60;
+  const THREE_DAYS = 3 * 24 * 60 * 60;
+
   let visibilityServicesFactory: VisibilityServices__factory;
   let visibilityServices: VisibilityServices;
   let visibilityCreditsFactory: VisibilityCredits__factory;
@@ -36,8 +39,8 @@ describe("VisibilityServices", function () {
     await visibilityServices.waitForDeployment();
 
     // Grant creator role to `creator`
-    await visibilityCredits.connect(deployer).setCreatorVisibility("x-VitalikButerin", creator.address);
-    await visibilityServices.connect(creator).createService("x-post", "x-VitalikButerin", 10);
+    await visibilityCredits.connect(deployer).setCreatorVisibility("x-vitalikbuterin", creator.address);
+    await visibilityServices.connect(creator).createService("x-post", "x-vitalikbuterin", 10, FIVE_DAYS, THREE_DAYS);
 
     // Authorize visibilityServices to manage credits
     await visibilityCredits.grantCreatorTransferRole(await visibilityServices.getAddress());
@@ -61,27 +64,64 @@ describe("VisibilityServices", function () {
 
       expect(service.enabled).to.equal(true);
       expect(service.serviceType).to.equal("x-post");
-      expect(service.visibilityId).to.equal("x-VitalikButerin");
+      expect(service.visibilityId).to.equal("x-vitalikbuterin");
       expect(service.creditsCostAmount).to.equal(10);
+      expect(service.validationDelay).to.equal(FIVE_DAYS);
+      expect(service.acceptanceDelay).to.equal(THREE_DAYS);
+    });
+
+    it("Should require an acceptance window on new services", async function () {
+      await expect(
+        visibilityServices.connect(creator).createService("x-post", "x-vitalikbuterin", 10, FIVE_DAYS, 0),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidAcceptanceDelay");
+
+      await visibilityServices.connect(creator).createService("x-repost", "x-vitalikbuterin", 10, FIVE_DAYS, 3600);
+      expect((await visibilityServices.services(1)).acceptanceDelay).to.equal(3600);
+    });
+
+    it("Should bound the validation delay of new services", async function () {
+      const minDelay = await visibilityServices.MIN_VALIDATION_DELAY();
+      const maxDelay = await visibilityServices.MAX_VALIDATION_DELAY();
+
+      await expect(
+        visibilityServices.connect(creator).createService("x-post", "x-vitalikbuterin", 10, minDelay - 1n, THREE_DAYS),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidValidationDelay");
+      await expect(
+        visibilityServices.connect(creator).createService("x-post", "x-vitalikbuterin", 10, maxDelay + 1n, THREE_DAYS),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidValidationDelay");
+
+      await expect(
+        visibilityServices.connect(creator).createService("x-repost", "x-vitalikbuterin", 1, minDelay, THREE_DAYS),
+      )
+        .to.emit(visibilityServices, "ServiceCreated")
+        .withArgs(1, "x-repost", "x-vitalikbuterin", 1, minDelay, THREE_DAYS);
     });
 
     it("Should update a service successfully", async function () {
-      await visibilityServices.connect(creator).updateService(0, false);
+      await expect(visibilityServices.connect(creator).updateService(0, false, 20, "ipfs://terms", 3, 3600))
+        .to.emit(visibilityServices, "ServiceUpdated")
+        .withArgs(0, false, 20, "ipfs://terms", 3, 3600);
       const service = await visibilityServices.services(0);
 
       expect(service.enabled).to.equal(false);
+      expect(service.creditsCostAmount).to.equal(20);
+      expect(service.metadataURI).to.equal("ipfs://terms");
+      expect(service.maxOpenExecutions).to.equal(3);
+      expect(service.acceptanceDelay).to.equal(3600);
     });
 
     it("Should revert if non-creator tries to create a service", async function () {
-      await expect(visibilityServices.connect(user1).createService("x-post", "x-VitalikButerin", 10)).to.be.reverted;
+      await expect(
+        visibilityServices.connect(user1).createService("x-post", "x-vitalikbuterin", 10, FIVE_DAYS, THREE_DAYS),
+      ).to.be.reverted;
     });
 
     it("Should revert if non-creator tries to update a service", async function () {
-      await expect(visibilityServices.connect(user1).updateService(0, false)).to.be.reverted;
+      await expect(visibilityServices.connect(user1).updateService(0, false, 10, "", 0, 3600)).to.be.reverted;
     });
 
     it("Should revert with invalid service nonce", async function () {
-      await expect(visibilityServices.connect(creator).updateService(1, false)).to.be.reverted;
+      await expect(visibilityServices.connect(creator).updateService(1, false, 10, "", 0, 3600)).to.be.reverted;
     });
   });
 
@@ -89,7 +129,7 @@ describe("VisibilityServices", function () {
     beforeEach(async function () {
       await visibilityCredits
         .connect(user1)
-        .buyCredits("x-VitalikButerin", 50, ZeroAddress, { value: parseEther("1") });
+        .buyCredits("x-vitalikbuterin", 50, ZeroAddress, { value: parseEther("1") });
     });
 
     it("Should request service execution successfully", async function () {
@@ -99,17 +139,46 @@ describe("VisibilityServices", function () {
       expect(state).to.equal(1); // REQUESTED
       expect(requester).to.equal(user1.address);
 
-      const user1BalanceAfter = await visibilityCredits.getVisibilityCreditBalance("x-VitalikButerin", user1.address);
+      const user1BalanceAfter = await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address);
       expect(user1BalanceAfter).to.be.equal(40); // Ensure user1 received the refund
     });
 
     it("Should not allow requesting execution on a disabled service", async function () {
-      await visibilityServices.connect(creator).updateService(0, false);
+      await visibilityServices.connect(creator).updateService(0, false, 10, "", 0, 3600);
       await expect(visibilityServices.connect(user1).requestServiceExecution(0, "Request Data")).to.be.reverted;
     });
 
+    it("Should keep the cost escrowed at request time after a price update", async function () {
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      await visibilityServices.connect(creator).updateService(0, true, 25, "", 0, 3600);
+
+      const [, , , creditsCostAmount] = await visibilityServices.getServiceExecution(0, 0);
+      expect(creditsCostAmount).to.equal(10);
+
+      await visibilityServices.connect(user1).cancelServiceExecution(0, 0, "Cancel Data");
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(50);
+
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(25);
+    });
+
+    it("Should limit the executions in progress", async function () {
+      await visibilityServices.connect(creator).updateService(0, true, 10, "", 1, 3600);
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+
+      await expect(
+        visibilityServices.connect(user1).requestServiceExecution(0, "Request Data"),
+      ).to.be.revertedWithCustomError(visibilityServices, "ExecutionsLimitReached");
+
+      await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+      await visibilityServices.connect(user1).validateServiceExecution(0, 0);
+
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      expect((await visibilityServices.services(0)).openExecutions).to.equal(1);
+    });
+
     it("Should revert if the user does not have enough credits for execution", async function () {
-      await visibilityCredits.connect(user2).buyCredits("x-VitalikButerin", 1, ZeroAddress, { value: parseEther("1") });
+      await visibilityCredits.connect(user2).buyCredits("x-vitalikbuterin", 1, ZeroAddress, { value: parseEther("1") });
       await expect(visibilityServices.connect(user2).requestServiceExecution(0, "Request Data")).to.be.reverted;
     });
 
@@ -121,6 +190,64 @@ describe("VisibilityServices", function () {
       expect(state).to.equal(2); // ACCEPTED
     });
 
+    it("Should expire a request not accepted in time and refund the requester", async function () {
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      const [, , , , acceptanceDeadline] = await visibilityServices.getServiceExecution(0, 0);
+      const requestedAt = (await ethers.provider.getBlock("latest"))!.timestamp;
+      expect(acceptanceDeadline).to.equal(BigInt(requestedAt + THREE_DAYS));
+
+      await expect(visibilityServices.connect(user2).expireServiceExecution(0, 0)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "AcceptanceDeadlineNotReached",
+      );
+
+      // Simulate passing of the acceptance delay
+      await ethers.provider.send("evm_increaseTime", [3 * 24 * 60 * 60 + 1]); // 3 days + 1 second
+      await ethers.provider.send("evm_mine");
+
+      await expect(
+        visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data"),
+      ).to.be.revertedWithCustomError(visibilityServices, "ExecutionExpired");
+
+      await expect(visibilityServices.connect(user2).expireServiceExecution(0, 0))
+        .to.emit(visibilityServices, "ServiceExecutionExpired")
+        .withArgs(0, 0);
+
+      const [state] = await visibilityServices.getServiceExecution(0, 0);
+      expect(state).to.equal(4); // REFUNDED
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(50);
+      expect((await visibilityServices.services(0)).openExecutions).to.equal(0);
+    });
+
+    it("Should not expire accepted executions", async function () {
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+
+      await ethers.provider.send("evm_increaseTime", [3 * 24 * 60 * 60 + 1]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(visibilityServices.connect(user2).expireServiceExecution(0, 0)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "InvalidExecutionState",
+      );
+    });
+
+    it("Should keep the acceptance deadline set at request time", async function () {
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      await visibilityServices.connect(creator).updateService(0, true, 10, "", 0, 60);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(visibilityServices.connect(user2).expireServiceExecution(0, 0)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "AcceptanceDeadlineNotReached",
+      );
+      await expect(
+        visibilityServices.connect(creator).updateService(0, true, 10, "", 0, 0),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidAcceptanceDelay");
+    });
+
     it("Should revert if a non-creator tries to accept execution", async function () {
       await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
       await expect(visibilityServices.connect(user2).acceptServiceExecution(0, 0, "Response Data")).to.be.reverted;
@@ -139,7 +266,7 @@ describe("VisibilityServices", function () {
       await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
       await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
 
-      // Simulate passing of AUTO_VALIDATION_DELAY
+      // Simulate passing of the service validation delay
       await ethers.provider.send("evm_increaseTime", [5 * 24 * 60 * 60 + 1]); // 5 days + 1 second
       await ethers.provider.send("evm_mine");
 
@@ -149,12 +276,31 @@ describe("VisibilityServices", function () {
       expect(state).to.equal(5); // VALIDATED
 
       const creatorBalanceAfter = await visibilityCredits.getVisibilityCreditBalance(
-        "x-VitalikButerin",
+        "x-vitalikbuterin",
         creator.address,
       );
       expect(creatorBalanceAfter).to.be.equal(10); // Ensure user1 received the refund
     });
 
+    it("Should honor the validation delay of the service", async function () {
+      const oneDay = 24 * 60 * 60;
+      await visibilityServices.connect(creator).createService("x-repost", "x-vitalikbuterin", 10, oneDay, THREE_DAYS);
+      await visibilityServices.connect(user1).requestServiceExecution(1, "Request Data");
+      await visibilityServices.connect(creator).acceptServiceExecution(1, 0, "Response Data");
+
+      await expect(visibilityServices.connect(user2).validateServiceExecution(1, 0)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "UnauthorizedExecutionAction",
+      );
+
+      await ethers.provider.send("evm_increaseTime", [oneDay + 1]);
+      await ethers.provider.send("evm_mine");
+
+      await visibilityServices.connect(user2).validateServiceExecution(1, 0);
+      const [state] = await visibilityServices.getServiceExecution(1, 0);
+      expect(state).to.equal(5); // VALIDATED
+    });
+
     it("Should dispute a service execution correctly", async function () {
       await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
       await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
@@ -175,45 +321,295 @@ describe("VisibilityServices", function () {
       await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
       await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
       await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
-      await visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, true, "Resolved with Refund");
+      await visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 10000, "Resolved with Refund");
 
       const [state] = await visibilityServices.getServiceExecution(0, 0);
       expect(state).to.equal(4); // REFUNDED
 
       // Verify the refund process
-      const user1BalanceAfter = await visibilityCredits.getVisibilityCreditBalance("x-VitalikButerin", user1.address);
+      const user1BalanceAfter = await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address);
       expect(user1BalanceAfter).to.be.equal(50); // Ensure user1 received the refund
     });
 
     it("Should resolve a dispute with validation", async function () {
       await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
 
-      const user1BalanceBefore = await visibilityCredits.getVisibilityCreditBalance("x-VitalikButerin", user1.address);
+      const user1BalanceBefore = await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address);
 
       await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
       await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
-      await visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, false, "Resolved without Refund");
+      await visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 0, "Resolved without Refund");
 
       const [state] = await visibilityServices.getServiceExecution(0, 0);
       expect(state).to.equal(5); // VALIDATED
 
       const creatorBalanceAfter = await visibilityCredits.getVisibilityCreditBalance(
-        "x-VitalikButerin",
+        "x-vitalikbuterin",
         creator.address,
       );
       expect(creatorBalanceAfter).to.equal(10);
 
       // Verify that credits were not returned to the user
-      const user1BalanceAfter = await visibilityCredits.getVisibilityCreditBalance("x-VitalikButerin", user1.address);
+      const user1BalanceAfter = await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address);
       expect(user1BalanceAfter).to.equal(user1BalanceBefore);
     });
 
+    it("Should resolve a dispute with a split", async function () {
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+      await expect(
+        visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 10001, "Too much"),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidRefundBps");
+
+      // 10 credits escrowed, 25% refunded rounds down to 2
+      await expect(visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 2500, "Posted late"))
+        .to.emit(visibilityServices, "ServiceExecutionResolved")
+        .withArgs(0, 0, 2500, 2, 8, "Posted late");
+
+      const [state] = await visibilityServices.getServiceExecution(0, 0);
+      expect(state).to.equal(6); // SPLIT
+
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(42);
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", creator.address)).to.equal(8);
+      expect((await visibilityServices.services(0)).openExecutions).to.equal(0);
+    });
+
+    it("Should settle a dispute with the default outcome after the resolution window", async function () {
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+
+      await expect(visibilityServices.connect(user1).settleExpiredDispute(0, 0)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "InvalidExecutionState",
+      );
+
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+      const [, , , , , disputeDeadline] = await visibilityServices.getServiceExecution(0, 0);
+      const disputedAt = (await ethers.provider.getBlock("latest"))!.timestamp;
+      expect(disputeDeadline).to.equal(BigInt(disputedAt) + (await visibilityServices.disputeResolutionDelay()));
+
+      await expect(visibilityServices.connect(creator).settleExpiredDispute(0, 0)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "UnauthorizedExecutionAction",
+      );
+
+      // Simulate passing of the dispute resolution delay
+      await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60 + 1]); // 7 days + 1 second
+      await ethers.provider.send("evm_mine");
+
+      await expect(visibilityServices.connect(user2).settleExpiredDispute(0, 0)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "UnauthorizedExecutionAction",
+      );
+
+      await expect(visibilityServices.connect(creator).settleExpiredDispute(0, 0))
+        .to.emit(visibilityServices, "ServiceExecutionDisputeDefaulted")
+        .withArgs(0, 0, creator.address, 10000, 10, 0);
+
+      const [state] = await visibilityServices.getServiceExecution(0, 0);
+      expect(state).to.equal(4); // REFUNDED
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(50);
+
+      await expect(visibilityServices.connect(user1).settleExpiredDispute(0, 0)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "InvalidExecutionState",
+      );
+      await expect(
+        visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 0, "Too late"),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidExecutionState");
+    });
+
+    it("Should let the admin configure the dispute defaults", async function () {
+      await expect(visibilityServices.connect(user1).setDisputeDefaults(60, 5000)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "AccessControlUnauthorizedAccount",
+      );
+      await expect(visibilityServices.connect(deployer).setDisputeDefaults(0, 5000)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "InvalidDisputeResolutionDelay",
+      );
+      await expect(visibilityServices.connect(deployer).setDisputeDefaults(60, 10001)).to.be.revertedWithCustomError(
+        visibilityServices,
+        "InvalidRefundBps",
+      );
+
+      await expect(visibilityServices.connect(deployer).setDisputeDefaults(60, 5000))
+        .to.emit(visibilityServices, "DisputeDefaultsUpdated")
+        .withArgs(60, 5000);
+
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine");
+
+      await visibilityServices.connect(user1).settleExpiredDispute(0, 0);
+      const [state] = await visibilityServices.getServiceExecution(0, 0);
+      expect(state).to.equal(6); // SPLIT
+      expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", creator.address)).to.equal(5);
+    });
+
+    it("Should settle with the default outcome in force when disputed", async function () {
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+      await visibilityServices.connect(deployer).setDisputeDefaults(60, 0);
+
+      // Simulate passing of the dispute resolution delay of the dispute
+      await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60 + 1]); // 7 days + 1 second
+      await ethers.provider.send("evm_mine");
+
+      await expect(visibilityServices.connect(creator).settleExpiredDispute(0, 0))
+        .to.emit(visibilityServices, "ServiceExecutionDisputeDefaulted")
+        .withArgs(0, 0, creator.address, 10000, 10, 0);
+
+      const [state] = await visibilityServices.getServiceExecution(0, 0);
+      expect(state).to.equal(4); // REFUNDED
+    });
+
+    it("Should let both parties and the resolver submit dispute evidence", async function () {
+      await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+      await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+
+      await expect(
+        visibilityServices.connect(user1).submitDisputeEvidence(0, 0, "ipfs://screenshot"),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidExecutionState");
+
+      await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+      await expect(visibilityServices.connect(user1).submitDisputeEvidence(0, 0, "ipfs://screenshot"))
+        .to.emit(visibilityServices, "ServiceExecutionEvidenceSubmitted")
+        .withArgs(0, 0, user1.address, "ipfs://screenshot");
+      await expect(visibilityServices.connect(creator).submitDisputeEvidence(0, 0, "https://x.com/post"))
+        .to.emit(visibilityServices, "ServiceExecutionEvidenceSubmitted")
+        .withArgs(0, 0, creator.address, "https://x.com/post");
+      await expect(visibilityServices.connect(disputeResolver).submitDisputeEvidence(0, 0, "Post deleted?"))
+        .to.emit(visibilityServices, "ServiceExecutionEvidenceSubmitted")
+        .withArgs(0, 0, disputeResolver.address, "Post deleted?");
+
+      await expect(visibilityServices.connect(user2).submitDisputeEvidence(0, 0, "Spam")).to.be.revertedWithCustomError(
+        visibilityServices,
+        "UnauthorizedExecutionAction",
+      );
+
+      await visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 0, "Posted");
+      await expect(
+        visibilityServices.connect(creator).submitDisputeEvidence(0, 0, "Too late"),
+      ).to.be.revertedWithCustomError(visibilityServices, "InvalidExecutionState");
+    });
+
     it("Should revert if non-resolver tries to resolve a dispute", async function () {
       await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
       await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
       await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
-      await expect(visibilityServices.connect(user2).resolveServiceExecution(0, 0, true, "Unauthorized resolution")).to
+      await expect(visibilityServices.connect(user2).resolveServiceExecution(0, 0, 10000, "Unauthorized resolution")).to
         .be.reverted;
     });
+
+    describe("Dispute bonds", function () {
+      beforeEach(async function () {
+        // 10 credits escrowed, disputing bonds 5 more
+        await visibilityServices.connect(deployer).setDisputeBondBps(5000);
+        await visibilityServices.connect(user1).requestServiceExecution(0, "Request Data");
+        await visibilityServices.connect(creator).acceptServiceExecution(0, 0, "Response Data");
+      });
+
+      it("Should let the admin configure the dispute bond", async function () {
+        await expect(visibilityServices.connect(user1).setDisputeBondBps(100)).to.be.revertedWithCustomError(
+          visibilityServices,
+          "AccessControlUnauthorizedAccount",
+        );
+        await expect(visibilityServices.connect(deployer).setDisputeBondBps(10001)).to.be.revertedWithCustomError(
+          visibilityServices,
+          "InvalidDisputeBondBps",
+        );
+        await expect(visibilityServices.connect(deployer).setDisputeBondBps(0))
+          .to.emit(visibilityServices, "DisputeBondUpdated")
+          .withArgs(0);
+
+        await expect(visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data")).not.to.emit(
+          visibilityServices,
+          "DisputeBondPosted",
+        );
+        const [, , , , , , disputeBondAmount] = await visibilityServices.getServiceExecution(0, 0);
+        expect(disputeBondAmount).to.equal(0);
+      });
+
+      it("Should escrow the bond when disputing", async function () {
+        await expect(visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data"))
+          .to.emit(visibilityServices, "DisputeBondPosted")
+          .withArgs(0, 0, 5);
+
+        const [, , , , , , disputeBondAmount] = await visibilityServices.getServiceExecution(0, 0);
+        expect(disputeBondAmount).to.equal(5);
+        expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(35);
+      });
+
+      it("Should not dispute without enough credits for the bond", async function () {
+        await visibilityCredits
+          .connect(user1)
+          .transferCreditsFrom("x-vitalikbuterin", user1.address, user2.address, 36);
+
+        await expect(
+          visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data"),
+        ).to.be.revertedWithCustomError(visibilityCredits, "NotEnoughCreditsOwned");
+      });
+
+      it("Should return the bond to a refunded requester", async function () {
+        await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+        await expect(visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 10000, "Not posted"))
+          .to.emit(visibilityServices, "DisputeBondReleased")
+          .withArgs(0, 0, 5, 0);
+
+        expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(50);
+        expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", creator.address)).to.equal(0);
+      });
+
+      it("Should forfeit the bond to the creator when the dispute is rejected", async function () {
+        await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+        await expect(visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 0, "Posted"))
+          .to.emit(visibilityServices, "DisputeBondReleased")
+          .withArgs(0, 0, 0, 5);
+
+        expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(35);
+        expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", creator.address)).to.equal(15);
+      });
+
+      it("Should split the bond like the escrowed credits", async function () {
+        await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+
+        // 25% of the 5 credits bond rounds down to 1, in favor of the creator
+        await expect(visibilityServices.connect(disputeResolver).resolveServiceExecution(0, 0, 2500, "Posted late"))
+          .to.emit(visibilityServices, "DisputeBondReleased")
+          .withArgs(0, 0, 1, 4);
+
+        expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(38);
+        expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", creator.address)).to.equal(12);
+        expect(
+          await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", await visibilityServices.getAddress()),
+        ).to.equal(0);
+      });
+
+      it("Should release the bond with the default outcome", async function () {
+        await visibilityServices.connect(user1).disputeServiceExecution(0, 0, "Dispute Data");
+        // bonds already posted are not affected by later updates
+        await visibilityServices.connect(deployer).setDisputeBondBps(0);
+
+        await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60 + 1]); // 7 days + 1 second
+        await ethers.provider.send("evm_mine");
+
+        await expect(visibilityServices.connect(user1).settleExpiredDispute(0, 0))
+          .to.emit(visibilityServices, "DisputeBondReleased")
+          .withArgs(0, 0, 5, 0);
+
+        expect(await visibilityCredits.getVisibilityCreditBalance("x-vitalikbuterin", user1.address)).to.equal(50);
+      });
+    });
   });
 });
@@ -21,8 +21,8 @@ import { getMesh, ExecuteMeshFn, SubscribeMeshFn, MeshContext as BaseMeshContext
 import { MeshStore, FsStoreStorageAdapter } from '@graphql-mesh/store';
 import { path as pathModule } from '@graphql-mesh/cross-helpers';
 import { ImportFn } from '@graphql-mesh/types';
-import type { YourContractTypes } from './sources/YourContract/types';
-import * as importedModule$0 from "./sources/YourContract/introspectionSchema";
+import type { NoodlesTypes } from './sources/Noodles/types';
+import * as importedModule$0 from "./sources/Noodles/introspectionSchema";
 export type Maybe<T> = T | null;
 export type InputMaybe<T> = Maybe<T>;
 export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
@@ -44,6 +44,7 @@ export type Scalars = {
   BigDecimal: { input: any; output: any; }
   BigInt: { input: any; output: any; }
   Bytes: { input: any; output: any; }
+  /** 8 bytes signed integer */
   Int8: { input: any; output: any; }
 };
 
@@ -57,287 +58,8875 @@ export type Block_height = {
   number_gte?: InputMaybe<Scalars['Int']['input']>;
 };
 
-export type Greeting = {
-  id: Scalars['ID']['output'];
-  sender: Sender;
-  greeting: Scalars['String']['output'];
-  premium?: Maybe<Scalars['Boolean']['output']>;
-  value?: Maybe<Scalars['BigInt']['output']>;
-  createdAt: Scalars['BigInt']['output'];
-  transactionHash: Scalars['String']['output'];
-};
-
-export type Greeting_filter = {
-  id?: InputMaybe<Scalars['ID']['input']>;
-  id_not?: InputMaybe<Scalars['ID']['input']>;
-  id_gt?: InputMaybe<Scalars['ID']['input']>;
-  id_lt?: InputMaybe<Scalars['ID']['input']>;
-  id_gte?: InputMaybe<Scalars['ID']['input']>;
-  id_lte?: InputMaybe<Scalars['ID']['input']>;
-  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
-  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
-  sender?: InputMaybe<Scalars['String']['input']>;
-  sender_not?: InputMaybe<Scalars['String']['input']>;
-  sender_gt?: InputMaybe<Scalars['String']['input']>;
-  sender_lt?: InputMaybe<Scalars['String']['input']>;
-  sender_gte?: InputMaybe<Scalars['String']['input']>;
-  sender_lte?: InputMaybe<Scalars['String']['input']>;
-  sender_in?: InputMaybe<Array<Scalars['String']['input']>>;
-  sender_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
-  sender_contains?: InputMaybe<Scalars['String']['input']>;
-  sender_contains_nocase?: InputMaybe<Scalars['String']['input']>;
-  sender_not_contains?: InputMaybe<Scalars['String']['input']>;
-  sender_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
-  sender_starts_with?: InputMaybe<Scalars['String']['input']>;
-  sender_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  sender_not_starts_with?: InputMaybe<Scalars['String']['input']>;
-  sender_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  sender_ends_with?: InputMaybe<Scalars['String']['input']>;
-  sender_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  sender_not_ends_with?: InputMaybe<Scalars['String']['input']>;
-  sender_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  sender_?: InputMaybe<Sender_filter>;
-  greeting?: InputMaybe<Scalars['String']['input']>;
-  greeting_not?: InputMaybe<Scalars['String']['input']>;
-  greeting_gt?: InputMaybe<Scalars['String']['input']>;
-  greeting_lt?: InputMaybe<Scalars['String']['input']>;
-  greeting_gte?: InputMaybe<Scalars['String']['input']>;
-  greeting_lte?: InputMaybe<Scalars['String']['input']>;
-  greeting_in?: InputMaybe<Array<Scalars['String']['input']>>;
-  greeting_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
-  greeting_contains?: InputMaybe<Scalars['String']['input']>;
-  greeting_contains_nocase?: InputMaybe<Scalars['String']['input']>;
-  greeting_not_contains?: InputMaybe<Scalars['String']['input']>;
-  greeting_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
-  greeting_starts_with?: InputMaybe<Scalars['String']['input']>;
-  greeting_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  greeting_not_starts_with?: InputMaybe<Scalars['String']['input']>;
-  greeting_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  greeting_ends_with?: InputMaybe<Scalars['String']['input']>;
-  greeting_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  greeting_not_ends_with?: InputMaybe<Scalars['String']['input']>;
-  greeting_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  premium?: InputMaybe<Scalars['Boolean']['input']>;
-  premium_not?: InputMaybe<Scalars['Boolean']['input']>;
-  premium_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
-  premium_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
-  value?: InputMaybe<Scalars['BigInt']['input']>;
-  value_not?: InputMaybe<Scalars['BigInt']['input']>;
-  value_gt?: InputMaybe<Scalars['BigInt']['input']>;
-  value_lt?: InputMaybe<Scalars['BigInt']['input']>;
-  value_gte?: InputMaybe<Scalars['BigInt']['input']>;
-  value_lte?: InputMaybe<Scalars['BigInt']['input']>;
-  value_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
-  value_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
-  createdAt?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_not?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
-  createdAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
-  transactionHash?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_not?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_gt?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_lt?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_gte?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_lte?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_in?: InputMaybe<Array<Scalars['String']['input']>>;
-  transactionHash_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
-  transactionHash_contains?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_contains_nocase?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_not_contains?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_starts_with?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_not_starts_with?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_ends_with?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_not_ends_with?: InputMaybe<Scalars['String']['input']>;
-  transactionHash_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
-  /** Filter for the block changed event. */
-  _change_block?: InputMaybe<BlockChangedFilter>;
-  and?: InputMaybe<Array<InputMaybe<Greeting_filter>>>;
-  or?: InputMaybe<Array<InputMaybe<Greeting_filter>>>;
-};
-
-export type Greeting_orderBy =
-  | 'id'
-  | 'sender'
-  | 'sender__id'
-  | 'sender__address'
-  | 'sender__createdAt'
-  | 'sender__greetingCount'
-  | 'greeting'
-  | 'premium'
-  | 'value'
-  | 'createdAt'
-  | 'transactionHash';
-
 /** Defines the order direction, either ascending or descending */
 export type OrderDirection =
   | 'asc'
   | 'desc';
 
-export type Query = {
-  greeting?: Maybe<Greeting>;
-  greetings: Array<Greeting>;
-  sender?: Maybe<Sender>;
-  senders: Array<Sender>;
-  /** Access to subgraph metadata */
-  _meta?: Maybe<_Meta_>;
+export type _Block_ = {
+  /** The hash of the block */
+  hash?: Maybe<Scalars['Bytes']['output']>;
+  /** The block number */
+  number: Scalars['Int']['output'];
+  /** Integer representation of the timestamp stored in blocks for the chain */
+  timestamp?: Maybe<Scalars['Int']['output']>;
+};
+
+/** The type for the top-level _meta field */
+export type _Meta_ = {
+  /**
+   * Information about a specific subgraph block. The hash of the block
+   * will be null if the _meta field has a block constraint that asks for
+   * a block number. It will be filled if the _meta field has no block constraint
+   * and therefore asks for the latest  block
+   */
+  block: _Block_;
+  /** The deployment ID */
+  deployment: Scalars['String']['output'];
+  /** If `true`, the subgraph encountered indexing errors at some past block */
+  hasIndexingErrors: Scalars['Boolean']['output'];
+};
+
+export type _SubgraphErrorPolicy_ =
+  /** Data will be returned even if the subgraph has indexing errors */
+  | 'allow'
+  /** If the subgraph has indexing errors, data will be omitted. The default. */
+  | 'deny';
+
+export type ExecutionState =
+  | 'UNINITIALIZED'
+  | 'REQUESTED'
+  | 'ACCEPTED'
+  | 'DISPUTED'
+  | 'REFUNDED'
+  | 'VALIDATED'
+  | 'SPLIT';
+
+export type DisputeParty =
+  | 'REQUESTER'
+  | 'CREATOR'
+  | 'RESOLVER';
+
+export type CandleInterval =
+  | 'HOUR'
+  | 'DAY';
+
+export type FeeChangeStatus =
+  | 'SCHEDULED'
+  | 'CANCELED'
+  | 'APPLIED';
+
+export type Creator = {
+  id: Scalars['Bytes']['output'];
+  totalFeesAccrued: Scalars['BigInt']['output'];
+  totalFeesClaimed: Scalars['BigInt']['output'];
+  claimableFeeBalance: Scalars['BigInt']['output'];
+  visibilities: Array<Visibility>;
+};
+
+
+export type CreatorvisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Visibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Visibility_filter>;
+};
+
+export type Creator_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  totalFeesAccrued?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesAccrued_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  visibilities_?: InputMaybe<Visibility_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Creator_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Creator_filter>>>;
+};
+
+export type Creator_orderBy =
+  | 'id'
+  | 'totalFeesAccrued'
+  | 'totalFeesClaimed'
+  | 'claimableFeeBalance'
+  | 'visibilities';
+
+export type Visibility = {
+  id: Scalars['String']['output'];
+  platform?: Maybe<Scalars['String']['output']>;
+  handle?: Maybe<Scalars['String']['output']>;
+  creator?: Maybe<Creator>;
+  currentPrice: Scalars['BigInt']['output'];
+  totalSupply: Scalars['BigInt']['output'];
+  creatorFeesAccrued: Scalars['BigInt']['output'];
+  creatorFeesClaimed: Scalars['BigInt']['output'];
+  claimableFeeBalance: Scalars['BigInt']['output'];
+  curveA: Scalars['BigInt']['output'];
+  curveB: Scalars['BigInt']['output'];
+  curveBasePrice: Scalars['BigInt']['output'];
+  balances: Array<VisibilityBalance>;
+  operatorApprovals: Array<OperatorApproval>;
+  trades: Array<CreditsTrade>;
+  services: Array<VisibilityService>;
+  candles: Array<VisibilityCandle>;
+};
+
+
+export type VisibilitybalancesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityBalance_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityBalance_filter>;
+};
+
+
+export type VisibilityoperatorApprovalsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApproval_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApproval_filter>;
+};
+
+
+export type VisibilitytradesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTrade_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTrade_filter>;
+};
+
+
+export type VisibilityservicesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityService_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityService_filter>;
+};
+
+
+export type VisibilitycandlesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityCandle_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityCandle_filter>;
+};
+
+export type Visibility_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform?: InputMaybe<Scalars['String']['input']>;
+  platform_not?: InputMaybe<Scalars['String']['input']>;
+  platform_gt?: InputMaybe<Scalars['String']['input']>;
+  platform_lt?: InputMaybe<Scalars['String']['input']>;
+  platform_gte?: InputMaybe<Scalars['String']['input']>;
+  platform_lte?: InputMaybe<Scalars['String']['input']>;
+  platform_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  platform_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  platform_contains?: InputMaybe<Scalars['String']['input']>;
+  platform_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_not_contains?: InputMaybe<Scalars['String']['input']>;
+  platform_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_starts_with?: InputMaybe<Scalars['String']['input']>;
+  platform_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  platform_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_ends_with?: InputMaybe<Scalars['String']['input']>;
+  platform_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  platform_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle?: InputMaybe<Scalars['String']['input']>;
+  handle_not?: InputMaybe<Scalars['String']['input']>;
+  handle_gt?: InputMaybe<Scalars['String']['input']>;
+  handle_lt?: InputMaybe<Scalars['String']['input']>;
+  handle_gte?: InputMaybe<Scalars['String']['input']>;
+  handle_lte?: InputMaybe<Scalars['String']['input']>;
+  handle_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  handle_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  handle_contains?: InputMaybe<Scalars['String']['input']>;
+  handle_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_not_contains?: InputMaybe<Scalars['String']['input']>;
+  handle_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_starts_with?: InputMaybe<Scalars['String']['input']>;
+  handle_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  handle_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_ends_with?: InputMaybe<Scalars['String']['input']>;
+  handle_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  handle_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator?: InputMaybe<Scalars['String']['input']>;
+  creator_not?: InputMaybe<Scalars['String']['input']>;
+  creator_gt?: InputMaybe<Scalars['String']['input']>;
+  creator_lt?: InputMaybe<Scalars['String']['input']>;
+  creator_gte?: InputMaybe<Scalars['String']['input']>;
+  creator_lte?: InputMaybe<Scalars['String']['input']>;
+  creator_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  creator_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  creator_contains?: InputMaybe<Scalars['String']['input']>;
+  creator_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_not_contains?: InputMaybe<Scalars['String']['input']>;
+  creator_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_starts_with?: InputMaybe<Scalars['String']['input']>;
+  creator_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  creator_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_ends_with?: InputMaybe<Scalars['String']['input']>;
+  creator_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  creator_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_?: InputMaybe<Creator_filter>;
+  currentPrice?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_not?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  currentPrice_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalSupply?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalSupply_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFeesAccrued?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFeesAccrued_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFeesClaimed?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFeesClaimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveA?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_not?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveA_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveB?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_not?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveB_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveBasePrice?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_not?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveBasePrice_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  balances_?: InputMaybe<VisibilityBalance_filter>;
+  operatorApprovals_?: InputMaybe<OperatorApproval_filter>;
+  trades_?: InputMaybe<CreditsTrade_filter>;
+  services_?: InputMaybe<VisibilityService_filter>;
+  candles_?: InputMaybe<VisibilityCandle_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Visibility_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Visibility_filter>>>;
+};
+
+export type Visibility_orderBy =
+  | 'id'
+  | 'platform'
+  | 'handle'
+  | 'creator'
+  | 'creator__id'
+  | 'creator__totalFeesAccrued'
+  | 'creator__totalFeesClaimed'
+  | 'creator__claimableFeeBalance'
+  | 'currentPrice'
+  | 'totalSupply'
+  | 'creatorFeesAccrued'
+  | 'creatorFeesClaimed'
+  | 'claimableFeeBalance'
+  | 'curveA'
+  | 'curveB'
+  | 'curveBasePrice'
+  | 'balances'
+  | 'operatorApprovals'
+  | 'trades'
+  | 'services'
+  | 'candles';
+
+export type VisibilityBalance = {
+  id: Scalars['String']['output'];
+  visibility: Visibility;
+  user: Scalars['Bytes']['output'];
+  balance: Scalars['BigInt']['output'];
+  costBasis: Scalars['BigInt']['output'];
+  averageEntryCost: Scalars['BigInt']['output'];
+  realizedPnl: Scalars['BigInt']['output'];
+  totalFeesPaid: Scalars['BigInt']['output'];
+};
+
+export type VisibilityBalance_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  user?: InputMaybe<Scalars['Bytes']['input']>;
+  user_not?: InputMaybe<Scalars['Bytes']['input']>;
+  user_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  user_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  user_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  user_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  user_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  user_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  balance?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  balance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  costBasis?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_not?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  costBasis_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  averageEntryCost?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_not?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  averageEntryCost_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  realizedPnl?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_not?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  realizedPnl_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesPaid?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesPaid_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityBalance_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityBalance_filter>>>;
+};
+
+export type VisibilityBalance_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'user'
+  | 'balance'
+  | 'costBasis'
+  | 'averageEntryCost'
+  | 'realizedPnl'
+  | 'totalFeesPaid';
+
+export type OperatorApproval = {
+  id: Scalars['String']['output'];
+  visibility: Visibility;
+  owner: Scalars['Bytes']['output'];
+  operator: Scalars['Bytes']['output'];
+  approved: Scalars['Boolean']['output'];
+};
+
+export type OperatorApproval_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  owner?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_not?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  owner_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  owner_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  operator?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_not?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  operator_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  operator_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  approved?: InputMaybe<Scalars['Boolean']['input']>;
+  approved_not?: InputMaybe<Scalars['Boolean']['input']>;
+  approved_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  approved_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<OperatorApproval_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<OperatorApproval_filter>>>;
+};
+
+export type OperatorApproval_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'owner'
+  | 'operator'
+  | 'approved';
+
+export type VisibilityService = {
+  id: Scalars['String']['output'];
+  visibility: Visibility;
+  serviceType: Scalars['String']['output'];
+  creditsCostAmount: Scalars['BigInt']['output'];
+  enabled: Scalars['Boolean']['output'];
+  metadataURI?: Maybe<Scalars['String']['output']>;
+  maxOpenExecutions: Scalars['BigInt']['output'];
+  acceptanceDelay: Scalars['BigInt']['output'];
+  validationDelay: Scalars['BigInt']['output'];
+  executions: Array<VisibilityServiceExecution>;
+  updates: Array<ServiceUpdated>;
+};
+
+
+export type VisibilityServiceexecutionsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServiceExecution_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServiceExecution_filter>;
+};
+
+
+export type VisibilityServiceupdatesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceUpdated_filter>;
+};
+
+export type VisibilityService_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  serviceType?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not?: InputMaybe<Scalars['String']['input']>;
+  serviceType_gt?: InputMaybe<Scalars['String']['input']>;
+  serviceType_lt?: InputMaybe<Scalars['String']['input']>;
+  serviceType_gte?: InputMaybe<Scalars['String']['input']>;
+  serviceType_lte?: InputMaybe<Scalars['String']['input']>;
+  serviceType_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  serviceType_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  serviceType_contains?: InputMaybe<Scalars['String']['input']>;
+  serviceType_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_contains?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_starts_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_ends_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creditsCostAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creditsCostAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  enabled?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_not?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  enabled_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  metadataURI?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_gt?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_lt?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_gte?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_lte?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  metadataURI_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  metadataURI_contains?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_contains?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_starts_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_ends_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  maxOpenExecutions?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_not?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  maxOpenExecutions_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  validationDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  validationDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executions_?: InputMaybe<VisibilityServiceExecution_filter>;
+  updates_?: InputMaybe<ServiceUpdated_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityService_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityService_filter>>>;
+};
+
+export type VisibilityService_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'serviceType'
+  | 'creditsCostAmount'
+  | 'enabled'
+  | 'metadataURI'
+  | 'maxOpenExecutions'
+  | 'acceptanceDelay'
+  | 'validationDelay'
+  | 'executions'
+  | 'updates';
+
+export type VisibilityServiceExecution = {
+  id: Scalars['String']['output'];
+  state: ExecutionState;
+  service: VisibilityService;
+  executionNonce: Scalars['BigInt']['output'];
+  requester: Scalars['Bytes']['output'];
+  creditsCostAmount: Scalars['BigInt']['output'];
+  acceptanceDeadline: Scalars['BigInt']['output'];
+  autoValidationTimestamp?: Maybe<Scalars['BigInt']['output']>;
+  disputeDeadline?: Maybe<Scalars['BigInt']['output']>;
+  requestData: Scalars['String']['output'];
+  responseData?: Maybe<Scalars['String']['output']>;
+  cancelData?: Maybe<Scalars['String']['output']>;
+  disputeData?: Maybe<Scalars['String']['output']>;
+  resolveData?: Maybe<Scalars['String']['output']>;
+  refundBps?: Maybe<Scalars['BigInt']['output']>;
+  refundAmount?: Maybe<Scalars['BigInt']['output']>;
+  creatorAmount?: Maybe<Scalars['BigInt']['output']>;
+  disputeBondAmount?: Maybe<Scalars['BigInt']['output']>;
+  disputeBondRequesterAmount?: Maybe<Scalars['BigInt']['output']>;
+  disputeBondCreatorAmount?: Maybe<Scalars['BigInt']['output']>;
+  arbitrationVotes: Array<DisputeVote>;
+  arbitrationRefundBps?: Maybe<Scalars['BigInt']['output']>;
+  evidence: Array<DisputeEvidence>;
+  evidenceCount: Scalars['BigInt']['output'];
+  lastUpdated: Scalars['BigInt']['output'];
+};
+
+
+export type VisibilityServiceExecutionarbitrationVotesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVote_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVote_filter>;
+};
+
+
+export type VisibilityServiceExecutionevidenceArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeEvidence_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeEvidence_filter>;
+};
+
+export type VisibilityServiceExecution_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  state?: InputMaybe<ExecutionState>;
+  state_not?: InputMaybe<ExecutionState>;
+  state_in?: InputMaybe<Array<ExecutionState>>;
+  state_not_in?: InputMaybe<Array<ExecutionState>>;
+  service?: InputMaybe<Scalars['String']['input']>;
+  service_not?: InputMaybe<Scalars['String']['input']>;
+  service_gt?: InputMaybe<Scalars['String']['input']>;
+  service_lt?: InputMaybe<Scalars['String']['input']>;
+  service_gte?: InputMaybe<Scalars['String']['input']>;
+  service_lte?: InputMaybe<Scalars['String']['input']>;
+  service_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  service_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  service_contains?: InputMaybe<Scalars['String']['input']>;
+  service_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_contains?: InputMaybe<Scalars['String']['input']>;
+  service_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_starts_with?: InputMaybe<Scalars['String']['input']>;
+  service_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  service_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_ends_with?: InputMaybe<Scalars['String']['input']>;
+  service_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  service_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_?: InputMaybe<VisibilityService_filter>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requester?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_not?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  requester_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  requester_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creditsCostAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creditsCostAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDeadline?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDeadline_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  autoValidationTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  autoValidationTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeDeadline?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeDeadline_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requestData?: InputMaybe<Scalars['String']['input']>;
+  requestData_not?: InputMaybe<Scalars['String']['input']>;
+  requestData_gt?: InputMaybe<Scalars['String']['input']>;
+  requestData_lt?: InputMaybe<Scalars['String']['input']>;
+  requestData_gte?: InputMaybe<Scalars['String']['input']>;
+  requestData_lte?: InputMaybe<Scalars['String']['input']>;
+  requestData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  requestData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  requestData_contains?: InputMaybe<Scalars['String']['input']>;
+  requestData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData?: InputMaybe<Scalars['String']['input']>;
+  responseData_not?: InputMaybe<Scalars['String']['input']>;
+  responseData_gt?: InputMaybe<Scalars['String']['input']>;
+  responseData_lt?: InputMaybe<Scalars['String']['input']>;
+  responseData_gte?: InputMaybe<Scalars['String']['input']>;
+  responseData_lte?: InputMaybe<Scalars['String']['input']>;
+  responseData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  responseData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  responseData_contains?: InputMaybe<Scalars['String']['input']>;
+  responseData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not?: InputMaybe<Scalars['String']['input']>;
+  cancelData_gt?: InputMaybe<Scalars['String']['input']>;
+  cancelData_lt?: InputMaybe<Scalars['String']['input']>;
+  cancelData_gte?: InputMaybe<Scalars['String']['input']>;
+  cancelData_lte?: InputMaybe<Scalars['String']['input']>;
+  cancelData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelData_contains?: InputMaybe<Scalars['String']['input']>;
+  cancelData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not?: InputMaybe<Scalars['String']['input']>;
+  disputeData_gt?: InputMaybe<Scalars['String']['input']>;
+  disputeData_lt?: InputMaybe<Scalars['String']['input']>;
+  disputeData_gte?: InputMaybe<Scalars['String']['input']>;
+  disputeData_lte?: InputMaybe<Scalars['String']['input']>;
+  disputeData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  disputeData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  disputeData_contains?: InputMaybe<Scalars['String']['input']>;
+  disputeData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not?: InputMaybe<Scalars['String']['input']>;
+  resolveData_gt?: InputMaybe<Scalars['String']['input']>;
+  resolveData_lt?: InputMaybe<Scalars['String']['input']>;
+  resolveData_gte?: InputMaybe<Scalars['String']['input']>;
+  resolveData_lte?: InputMaybe<Scalars['String']['input']>;
+  resolveData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  resolveData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  resolveData_contains?: InputMaybe<Scalars['String']['input']>;
+  resolveData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondRequesterAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondRequesterAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondCreatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondCreatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbitrationVotes_?: InputMaybe<DisputeVote_filter>;
+  arbitrationRefundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbitrationRefundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  evidence_?: InputMaybe<DisputeEvidence_filter>;
+  evidenceCount?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  evidenceCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastUpdated?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_not?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastUpdated_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServiceExecution_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServiceExecution_filter>>>;
+};
+
+export type VisibilityServiceExecution_orderBy =
+  | 'id'
+  | 'state'
+  | 'service'
+  | 'service__id'
+  | 'service__serviceType'
+  | 'service__creditsCostAmount'
+  | 'service__enabled'
+  | 'service__metadataURI'
+  | 'service__maxOpenExecutions'
+  | 'service__acceptanceDelay'
+  | 'service__validationDelay'
+  | 'executionNonce'
+  | 'requester'
+  | 'creditsCostAmount'
+  | 'acceptanceDeadline'
+  | 'autoValidationTimestamp'
+  | 'disputeDeadline'
+  | 'requestData'
+  | 'responseData'
+  | 'cancelData'
+  | 'disputeData'
+  | 'resolveData'
+  | 'refundBps'
+  | 'refundAmount'
+  | 'creatorAmount'
+  | 'disputeBondAmount'
+  | 'disputeBondRequesterAmount'
+  | 'disputeBondCreatorAmount'
+  | 'arbitrationVotes'
+  | 'arbitrationRefundBps'
+  | 'evidence'
+  | 'evidenceCount'
+  | 'lastUpdated';
+
+export type Referrer = {
+  id: Scalars['Bytes']['output'];
+  totalVolume: Scalars['BigInt']['output'];
+  totalFeesEarned: Scalars['BigInt']['output'];
+  totalFeesClaimed: Scalars['BigInt']['output'];
+  claimableFeeBalance: Scalars['BigInt']['output'];
+  tradeCount: Scalars['BigInt']['output'];
+  referredTraderCount: Scalars['BigInt']['output'];
+  visibilities: Array<ReferrerVisibility>;
+  referredTraders: Array<ReferredTrader>;
+};
+
+
+export type ReferrervisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerVisibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerVisibility_filter>;
+};
+
+
+export type ReferrerreferredTradersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferredTrader_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferredTrader_filter>;
+};
+
+export type Referrer_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  totalVolume?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalVolume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesEarned?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesEarned_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referredTraderCount?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referredTraderCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  visibilities_?: InputMaybe<ReferrerVisibility_filter>;
+  referredTraders_?: InputMaybe<ReferredTrader_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Referrer_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Referrer_filter>>>;
+};
+
+export type Referrer_orderBy =
+  | 'id'
+  | 'totalVolume'
+  | 'totalFeesEarned'
+  | 'totalFeesClaimed'
+  | 'claimableFeeBalance'
+  | 'tradeCount'
+  | 'referredTraderCount'
+  | 'visibilities'
+  | 'referredTraders';
+
+export type ReferrerVisibility = {
+  id: Scalars['String']['output'];
+  referrer: Referrer;
+  visibility: Visibility;
+  volume: Scalars['BigInt']['output'];
+  feesEarned: Scalars['BigInt']['output'];
+  tradeCount: Scalars['BigInt']['output'];
+};
+
+export type ReferrerVisibility_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer?: InputMaybe<Scalars['String']['input']>;
+  referrer_not?: InputMaybe<Scalars['String']['input']>;
+  referrer_gt?: InputMaybe<Scalars['String']['input']>;
+  referrer_lt?: InputMaybe<Scalars['String']['input']>;
+  referrer_gte?: InputMaybe<Scalars['String']['input']>;
+  referrer_lte?: InputMaybe<Scalars['String']['input']>;
+  referrer_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  referrer_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  referrer_contains?: InputMaybe<Scalars['String']['input']>;
+  referrer_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_contains?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_starts_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_ends_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_?: InputMaybe<Referrer_filter>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  volume?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  volume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  feesEarned?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_not?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  feesEarned_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ReferrerVisibility_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ReferrerVisibility_filter>>>;
+};
+
+export type ReferrerVisibility_orderBy =
+  | 'id'
+  | 'referrer'
+  | 'referrer__id'
+  | 'referrer__totalVolume'
+  | 'referrer__totalFeesEarned'
+  | 'referrer__totalFeesClaimed'
+  | 'referrer__claimableFeeBalance'
+  | 'referrer__tradeCount'
+  | 'referrer__referredTraderCount'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'volume'
+  | 'feesEarned'
+  | 'tradeCount';
+
+export type ReferredTrader = {
+  id: Scalars['String']['output'];
+  referrer: Referrer;
+  trader: Scalars['Bytes']['output'];
+  volume: Scalars['BigInt']['output'];
+  tradeCount: Scalars['BigInt']['output'];
+};
+
+export type ReferredTrader_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer?: InputMaybe<Scalars['String']['input']>;
+  referrer_not?: InputMaybe<Scalars['String']['input']>;
+  referrer_gt?: InputMaybe<Scalars['String']['input']>;
+  referrer_lt?: InputMaybe<Scalars['String']['input']>;
+  referrer_gte?: InputMaybe<Scalars['String']['input']>;
+  referrer_lte?: InputMaybe<Scalars['String']['input']>;
+  referrer_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  referrer_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  referrer_contains?: InputMaybe<Scalars['String']['input']>;
+  referrer_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_contains?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_starts_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_ends_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_?: InputMaybe<Referrer_filter>;
+  trader?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_not?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  trader_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  trader_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  volume?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  volume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ReferredTrader_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ReferredTrader_filter>>>;
+};
+
+export type ReferredTrader_orderBy =
+  | 'id'
+  | 'referrer'
+  | 'referrer__id'
+  | 'referrer__totalVolume'
+  | 'referrer__totalFeesEarned'
+  | 'referrer__totalFeesClaimed'
+  | 'referrer__claimableFeeBalance'
+  | 'referrer__tradeCount'
+  | 'referrer__referredTraderCount'
+  | 'trader'
+  | 'volume'
+  | 'tradeCount';
+
+export type VisibilityCandle = {
+  id: Scalars['String']['output'];
+  visibility: Visibility;
+  interval: CandleInterval;
+  periodStart: Scalars['BigInt']['output'];
+  open: Scalars['BigInt']['output'];
+  high: Scalars['BigInt']['output'];
+  low: Scalars['BigInt']['output'];
+  close: Scalars['BigInt']['output'];
+  buyVolumeCredits: Scalars['BigInt']['output'];
+  sellVolumeCredits: Scalars['BigInt']['output'];
+  buyVolumeWei: Scalars['BigInt']['output'];
+  sellVolumeWei: Scalars['BigInt']['output'];
+  tradeCount: Scalars['BigInt']['output'];
+  creatorFees: Scalars['BigInt']['output'];
+  protocolFees: Scalars['BigInt']['output'];
+  referrerFees: Scalars['BigInt']['output'];
+};
+
+export type VisibilityCandle_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  interval?: InputMaybe<CandleInterval>;
+  interval_not?: InputMaybe<CandleInterval>;
+  interval_in?: InputMaybe<Array<CandleInterval>>;
+  interval_not_in?: InputMaybe<Array<CandleInterval>>;
+  periodStart?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_not?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  periodStart_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  open?: InputMaybe<Scalars['BigInt']['input']>;
+  open_not?: InputMaybe<Scalars['BigInt']['input']>;
+  open_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  open_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  open_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  open_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  open_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  open_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  high?: InputMaybe<Scalars['BigInt']['input']>;
+  high_not?: InputMaybe<Scalars['BigInt']['input']>;
+  high_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  high_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  high_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  high_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  high_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  high_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  low?: InputMaybe<Scalars['BigInt']['input']>;
+  low_not?: InputMaybe<Scalars['BigInt']['input']>;
+  low_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  low_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  low_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  low_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  low_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  low_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  close?: InputMaybe<Scalars['BigInt']['input']>;
+  close_not?: InputMaybe<Scalars['BigInt']['input']>;
+  close_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  close_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  close_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  close_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  close_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  close_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  buyVolumeCredits?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_not?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  buyVolumeCredits_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sellVolumeCredits?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_not?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sellVolumeCredits_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  buyVolumeWei?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_not?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  buyVolumeWei_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sellVolumeWei?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_not?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sellVolumeWei_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFees?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFees_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFees?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_not?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFees_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFees?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_not?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFees_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityCandle_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityCandle_filter>>>;
+};
+
+export type VisibilityCandle_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'interval'
+  | 'periodStart'
+  | 'open'
+  | 'high'
+  | 'low'
+  | 'close'
+  | 'buyVolumeCredits'
+  | 'sellVolumeCredits'
+  | 'buyVolumeWei'
+  | 'sellVolumeWei'
+  | 'tradeCount'
+  | 'creatorFees'
+  | 'protocolFees'
+  | 'referrerFees';
+
+export type ProtocolTreasury = {
+  id: Scalars['String']['output'];
+  totalFeesAccrued: Scalars['BigInt']['output'];
+  totalFeesClaimed: Scalars['BigInt']['output'];
+  claimableFeeBalance: Scalars['BigInt']['output'];
+};
+
+export type ProtocolTreasury_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  totalFeesAccrued?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesAccrued_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ProtocolTreasury_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ProtocolTreasury_filter>>>;
+};
+
+export type ProtocolTreasury_orderBy =
+  | 'id'
+  | 'totalFeesAccrued'
+  | 'totalFeesClaimed'
+  | 'claimableFeeBalance';
+
+export type CreatorFeeClaimed = {
+  id: Scalars['Bytes']['output'];
+  creator: Scalars['Bytes']['output'];
+  visibilityId: Scalars['String']['output'];
+  amount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CreatorFeeClaimed_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creator?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_not?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  creator_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  creator_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibilityId?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CreatorFeeClaimed_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CreatorFeeClaimed_filter>>>;
+};
+
+export type CreatorFeeClaimed_orderBy =
+  | 'id'
+  | 'creator'
+  | 'visibilityId'
+  | 'amount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ProtocolFeesClaimed = {
+  id: Scalars['Bytes']['output'];
+  treasury: Scalars['Bytes']['output'];
+  amount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ProtocolFeesClaimed_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_not?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  treasury_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  treasury_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ProtocolFeesClaimed_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ProtocolFeesClaimed_filter>>>;
+};
+
+export type ProtocolFeesClaimed_orderBy =
+  | 'id'
+  | 'treasury'
+  | 'amount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ReferrerFeesClaimed = {
+  id: Scalars['Bytes']['output'];
+  referrer: Scalars['Bytes']['output'];
+  amount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ReferrerFeesClaimed_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_not?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  referrer_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  referrer_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ReferrerFeesClaimed_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ReferrerFeesClaimed_filter>>>;
+};
+
+export type ReferrerFeesClaimed_orderBy =
+  | 'id'
+  | 'referrer'
+  | 'amount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type OperatorApprovalSet = {
+  id: Scalars['Bytes']['output'];
+  visibilityId: Scalars['String']['output'];
+  owner: Scalars['Bytes']['output'];
+  operator: Scalars['Bytes']['output'];
+  approved: Scalars['Boolean']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type OperatorApprovalSet_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibilityId?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  owner?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_not?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  owner_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  owner_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  operator?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_not?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  operator_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  operator_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  approved?: InputMaybe<Scalars['Boolean']['input']>;
+  approved_not?: InputMaybe<Scalars['Boolean']['input']>;
+  approved_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  approved_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<OperatorApprovalSet_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<OperatorApprovalSet_filter>>>;
+};
+
+export type OperatorApprovalSet_orderBy =
+  | 'id'
+  | 'visibilityId'
+  | 'owner'
+  | 'operator'
+  | 'approved'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type CreatorVisibilitySet = {
+  id: Scalars['Bytes']['output'];
+  visibilityId: Scalars['String']['output'];
+  creator: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CreatorVisibilitySet_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibilityId?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_not?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  creator_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  creator_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CreatorVisibilitySet_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CreatorVisibilitySet_filter>>>;
+};
+
+export type CreatorVisibilitySet_orderBy =
+  | 'id'
+  | 'visibilityId'
+  | 'creator'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type CurveSet = {
+  id: Scalars['Bytes']['output'];
+  visibilityId: Scalars['String']['output'];
+  a: Scalars['BigInt']['output'];
+  b: Scalars['BigInt']['output'];
+  basePrice: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CurveSet_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibilityId?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  a?: InputMaybe<Scalars['BigInt']['input']>;
+  a_not?: InputMaybe<Scalars['BigInt']['input']>;
+  a_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  a_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  a_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  a_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  a_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  a_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  b?: InputMaybe<Scalars['BigInt']['input']>;
+  b_not?: InputMaybe<Scalars['BigInt']['input']>;
+  b_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  b_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  b_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  b_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  b_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  b_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  basePrice?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_not?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  basePrice_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CurveSet_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CurveSet_filter>>>;
+};
+
+export type CurveSet_orderBy =
+  | 'id'
+  | 'visibilityId'
+  | 'a'
+  | 'b'
+  | 'basePrice'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type Platform = {
+  id: Scalars['String']['output'];
+  enabled: Scalars['Boolean']['output'];
+  lowercase: Scalars['Boolean']['output'];
+  minHandleLength: Scalars['Int']['output'];
+  maxHandleLength: Scalars['Int']['output'];
+  allowedSymbols: Scalars['String']['output'];
+  updatedAt: Scalars['BigInt']['output'];
+};
+
+export type Platform_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  enabled?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_not?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  enabled_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  lowercase?: InputMaybe<Scalars['Boolean']['input']>;
+  lowercase_not?: InputMaybe<Scalars['Boolean']['input']>;
+  lowercase_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  lowercase_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  minHandleLength?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_not?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_gt?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_lt?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_gte?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_lte?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  minHandleLength_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  maxHandleLength?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_not?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_gt?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_lt?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_gte?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_lte?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  maxHandleLength_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  allowedSymbols?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_gt?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_lt?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_gte?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_lte?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  allowedSymbols_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  allowedSymbols_contains?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_contains?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_starts_with?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_ends_with?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  updatedAt?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  updatedAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Platform_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Platform_filter>>>;
+};
+
+export type Platform_orderBy =
+  | 'id'
+  | 'enabled'
+  | 'lowercase'
+  | 'minHandleLength'
+  | 'maxHandleLength'
+  | 'allowedSymbols'
+  | 'updatedAt';
+
+export type PlatformSet = {
+  id: Scalars['Bytes']['output'];
+  prefix: Scalars['String']['output'];
+  rules_enabled: Scalars['Boolean']['output'];
+  rules_lowercase: Scalars['Boolean']['output'];
+  rules_minHandleLength: Scalars['Int']['output'];
+  rules_maxHandleLength: Scalars['Int']['output'];
+  rules_allowedSymbols: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type PlatformSet_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  prefix?: InputMaybe<Scalars['String']['input']>;
+  prefix_not?: InputMaybe<Scalars['String']['input']>;
+  prefix_gt?: InputMaybe<Scalars['String']['input']>;
+  prefix_lt?: InputMaybe<Scalars['String']['input']>;
+  prefix_gte?: InputMaybe<Scalars['String']['input']>;
+  prefix_lte?: InputMaybe<Scalars['String']['input']>;
+  prefix_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  prefix_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  prefix_contains?: InputMaybe<Scalars['String']['input']>;
+  prefix_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_contains?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_starts_with?: InputMaybe<Scalars['String']['input']>;
+  prefix_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_ends_with?: InputMaybe<Scalars['String']['input']>;
+  prefix_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_enabled?: InputMaybe<Scalars['Boolean']['input']>;
+  rules_enabled_not?: InputMaybe<Scalars['Boolean']['input']>;
+  rules_enabled_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  rules_enabled_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  rules_lowercase?: InputMaybe<Scalars['Boolean']['input']>;
+  rules_lowercase_not?: InputMaybe<Scalars['Boolean']['input']>;
+  rules_lowercase_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  rules_lowercase_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  rules_minHandleLength?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_not?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_gt?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_lt?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_gte?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_lte?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rules_minHandleLength_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rules_maxHandleLength?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_not?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_gt?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_lt?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_gte?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_lte?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rules_maxHandleLength_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rules_allowedSymbols?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_gt?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_lt?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_gte?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_lte?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  rules_allowedSymbols_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  rules_allowedSymbols_contains?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_contains?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_starts_with?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_ends_with?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<PlatformSet_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<PlatformSet_filter>>>;
+};
+
+export type PlatformSet_orderBy =
+  | 'id'
+  | 'prefix'
+  | 'rules_enabled'
+  | 'rules_lowercase'
+  | 'rules_minHandleLength'
+  | 'rules_maxHandleLength'
+  | 'rules_allowedSymbols'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type FeeSchedule = {
+  id: Scalars['String']['output'];
+  creatorFee: Scalars['BigInt']['output'];
+  protocolFee: Scalars['BigInt']['output'];
+  referrerFee: Scalars['BigInt']['output'];
+  pendingChange?: Maybe<FeeChange>;
+};
+
+export type FeeSchedule_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creatorFee?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFee?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFee?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  pendingChange?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_gt?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_lt?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_gte?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_lte?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  pendingChange_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  pendingChange_contains?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_contains?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_starts_with?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_ends_with?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_?: InputMaybe<FeeChange_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<FeeSchedule_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<FeeSchedule_filter>>>;
+};
+
+export type FeeSchedule_orderBy =
+  | 'id'
+  | 'creatorFee'
+  | 'protocolFee'
+  | 'referrerFee'
+  | 'pendingChange'
+  | 'pendingChange__id'
+  | 'pendingChange__creatorFee'
+  | 'pendingChange__protocolFee'
+  | 'pendingChange__referrerFee'
+  | 'pendingChange__status'
+  | 'pendingChange__effectSchedule'
+  | 'pendingChange__scheduledAt'
+  | 'pendingChange__canceledAt'
+  | 'pendingChange__appliedAt'
+  | 'pendingChange__transactionHash';
+
+export type FeeChange = {
+  id: Scalars['Bytes']['output'];
+  creatorFee: Scalars['BigInt']['output'];
+  protocolFee: Scalars['BigInt']['output'];
+  referrerFee: Scalars['BigInt']['output'];
+  status: FeeChangeStatus;
+  effectSchedule?: Maybe<Scalars['BigInt']['output']>;
+  scheduledAt?: Maybe<Scalars['BigInt']['output']>;
+  canceledAt?: Maybe<Scalars['BigInt']['output']>;
+  appliedAt?: Maybe<Scalars['BigInt']['output']>;
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type FeeChange_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creatorFee?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFee?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFee?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  status?: InputMaybe<FeeChangeStatus>;
+  status_not?: InputMaybe<FeeChangeStatus>;
+  status_in?: InputMaybe<Array<FeeChangeStatus>>;
+  status_not_in?: InputMaybe<Array<FeeChangeStatus>>;
+  effectSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  scheduledAt?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  scheduledAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  canceledAt?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  canceledAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  appliedAt?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  appliedAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<FeeChange_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<FeeChange_filter>>>;
+};
+
+export type FeeChange_orderBy =
+  | 'id'
+  | 'creatorFee'
+  | 'protocolFee'
+  | 'referrerFee'
+  | 'status'
+  | 'effectSchedule'
+  | 'scheduledAt'
+  | 'canceledAt'
+  | 'appliedAt'
+  | 'transactionHash';
+
+export type CreditsTrade = {
+  id: Scalars['Bytes']['output'];
+  tradeEvent_from: Scalars['Bytes']['output'];
+  visibility: Visibility;
+  tradeEvent_amount: Scalars['BigInt']['output'];
+  tradeEvent_isBuy: Scalars['Boolean']['output'];
+  tradeEvent_tradeCost: Scalars['BigInt']['output'];
+  tradeEvent_creatorFee: Scalars['BigInt']['output'];
+  tradeEvent_protocolFee: Scalars['BigInt']['output'];
+  tradeEvent_referrerFee: Scalars['BigInt']['output'];
+  tradeEvent_referrer: Scalars['Bytes']['output'];
+  tradeEvent_newTotalSupply: Scalars['BigInt']['output'];
+  tradeEvent_newCurrentPrice: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CreditsTrade_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  tradeEvent_from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  tradeEvent_from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  tradeEvent_amount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_isBuy?: InputMaybe<Scalars['Boolean']['input']>;
+  tradeEvent_isBuy_not?: InputMaybe<Scalars['Boolean']['input']>;
+  tradeEvent_isBuy_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  tradeEvent_isBuy_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  tradeEvent_tradeCost?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_tradeCost_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_creatorFee?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_creatorFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_protocolFee?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_protocolFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_referrerFee?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_referrerFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_referrer?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_not?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  tradeEvent_referrer_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  tradeEvent_referrer_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_newTotalSupply?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_newTotalSupply_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_newCurrentPrice?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_newCurrentPrice_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CreditsTrade_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CreditsTrade_filter>>>;
+};
+
+export type CreditsTrade_orderBy =
+  | 'id'
+  | 'tradeEvent_from'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'tradeEvent_amount'
+  | 'tradeEvent_isBuy'
+  | 'tradeEvent_tradeCost'
+  | 'tradeEvent_creatorFee'
+  | 'tradeEvent_protocolFee'
+  | 'tradeEvent_referrerFee'
+  | 'tradeEvent_referrer'
+  | 'tradeEvent_newTotalSupply'
+  | 'tradeEvent_newCurrentPrice'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type CreditsTransfer = {
+  id: Scalars['Bytes']['output'];
+  visibility: Visibility;
+  from: Scalars['Bytes']['output'];
+  to: Scalars['Bytes']['output'];
+  amount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CreditsTransfer_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  from?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  to?: InputMaybe<Scalars['Bytes']['input']>;
+  to_not?: InputMaybe<Scalars['Bytes']['input']>;
+  to_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  to_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  to_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  to_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  to_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  to_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  to_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  to_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CreditsTransfer_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CreditsTransfer_filter>>>;
+};
+
+export type CreditsTransfer_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'from'
+  | 'to'
+  | 'amount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DefaultAdminDelayChangeCanceled = {
+  id: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DefaultAdminDelayChangeCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DefaultAdminDelayChangeCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DefaultAdminDelayChangeCanceled_filter>>>;
+};
+
+export type DefaultAdminDelayChangeCanceled_orderBy =
+  | 'id'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DefaultAdminDelayChangeScheduled = {
+  id: Scalars['Bytes']['output'];
+  newDelay: Scalars['BigInt']['output'];
+  effectSchedule: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DefaultAdminDelayChangeScheduled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  newDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DefaultAdminDelayChangeScheduled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DefaultAdminDelayChangeScheduled_filter>>>;
+};
+
+export type DefaultAdminDelayChangeScheduled_orderBy =
+  | 'id'
+  | 'newDelay'
+  | 'effectSchedule'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DefaultAdminTransferCanceled = {
+  id: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DefaultAdminTransferCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DefaultAdminTransferCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DefaultAdminTransferCanceled_filter>>>;
+};
+
+export type DefaultAdminTransferCanceled_orderBy =
+  | 'id'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DefaultAdminTransferScheduled = {
+  id: Scalars['Bytes']['output'];
+  newAdmin: Scalars['Bytes']['output'];
+  acceptSchedule: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DefaultAdminTransferScheduled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_not?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdmin_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdmin_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  acceptSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DefaultAdminTransferScheduled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DefaultAdminTransferScheduled_filter>>>;
+};
+
+export type DefaultAdminTransferScheduled_orderBy =
+  | 'id'
+  | 'newAdmin'
+  | 'acceptSchedule'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type RoleAdminChanged = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  previousAdminRole: Scalars['Bytes']['output'];
+  newAdminRole: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type RoleAdminChanged_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_not?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  previousAdminRole_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  previousAdminRole_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_not?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdminRole_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdminRole_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<RoleAdminChanged_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<RoleAdminChanged_filter>>>;
+};
+
+export type RoleAdminChanged_orderBy =
+  | 'id'
+  | 'role'
+  | 'previousAdminRole'
+  | 'newAdminRole'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type RoleGranted = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  account: Scalars['Bytes']['output'];
+  sender: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type RoleGranted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<RoleGranted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<RoleGranted_filter>>>;
+};
+
+export type RoleGranted_orderBy =
+  | 'id'
+  | 'role'
+  | 'account'
+  | 'sender'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type RoleRevoked = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  account: Scalars['Bytes']['output'];
+  sender: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type RoleRevoked_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<RoleRevoked_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<RoleRevoked_filter>>>;
+};
+
+export type RoleRevoked_orderBy =
+  | 'id'
+  | 'role'
+  | 'account'
+  | 'sender'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesDefaultAdminDelayChangeCanceled = {
+  id: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesDefaultAdminDelayChangeCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_filter>>>;
+};
+
+export type VisibilityServicesDefaultAdminDelayChangeCanceled_orderBy =
+  | 'id'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesDefaultAdminDelayChangeScheduled = {
+  id: Scalars['Bytes']['output'];
+  newDelay: Scalars['BigInt']['output'];
+  effectSchedule: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesDefaultAdminDelayChangeScheduled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  newDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_filter>>>;
+};
+
+export type VisibilityServicesDefaultAdminDelayChangeScheduled_orderBy =
+  | 'id'
+  | 'newDelay'
+  | 'effectSchedule'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesDefaultAdminTransferCanceled = {
+  id: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesDefaultAdminTransferCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_filter>>>;
+};
+
+export type VisibilityServicesDefaultAdminTransferCanceled_orderBy =
+  | 'id'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesDefaultAdminTransferScheduled = {
+  id: Scalars['Bytes']['output'];
+  newAdmin: Scalars['Bytes']['output'];
+  acceptSchedule: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesDefaultAdminTransferScheduled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_not?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdmin_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdmin_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  acceptSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_filter>>>;
+};
+
+export type VisibilityServicesDefaultAdminTransferScheduled_orderBy =
+  | 'id'
+  | 'newAdmin'
+  | 'acceptSchedule'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesRoleAdminChanged = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  previousAdminRole: Scalars['Bytes']['output'];
+  newAdminRole: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesRoleAdminChanged_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_not?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  previousAdminRole_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  previousAdminRole_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_not?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdminRole_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdminRole_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleAdminChanged_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleAdminChanged_filter>>>;
+};
+
+export type VisibilityServicesRoleAdminChanged_orderBy =
+  | 'id'
+  | 'role'
+  | 'previousAdminRole'
+  | 'newAdminRole'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesRoleGranted = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  account: Scalars['Bytes']['output'];
+  sender: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesRoleGranted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleGranted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleGranted_filter>>>;
+};
+
+export type VisibilityServicesRoleGranted_orderBy =
+  | 'id'
+  | 'role'
+  | 'account'
+  | 'sender'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesRoleRevoked = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  account: Scalars['Bytes']['output'];
+  sender: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesRoleRevoked_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleRevoked_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleRevoked_filter>>>;
+};
+
+export type VisibilityServicesRoleRevoked_orderBy =
+  | 'id'
+  | 'role'
+  | 'account'
+  | 'sender'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceCreated = {
+  id: Scalars['Bytes']['output'];
+  nonce: Scalars['BigInt']['output'];
+  serviceType: Scalars['String']['output'];
+  visibility: Visibility;
+  creditsCostAmount: Scalars['BigInt']['output'];
+  validationDelay: Scalars['BigInt']['output'];
+  acceptanceDelay: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceCreated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  nonce?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  nonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceType?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not?: InputMaybe<Scalars['String']['input']>;
+  serviceType_gt?: InputMaybe<Scalars['String']['input']>;
+  serviceType_lt?: InputMaybe<Scalars['String']['input']>;
+  serviceType_gte?: InputMaybe<Scalars['String']['input']>;
+  serviceType_lte?: InputMaybe<Scalars['String']['input']>;
+  serviceType_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  serviceType_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  serviceType_contains?: InputMaybe<Scalars['String']['input']>;
+  serviceType_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_contains?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_starts_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_ends_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  creditsCostAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creditsCostAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  validationDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  validationDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceCreated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceCreated_filter>>>;
+};
+
+export type ServiceCreated_orderBy =
+  | 'id'
+  | 'nonce'
+  | 'serviceType'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'creditsCostAmount'
+  | 'validationDelay'
+  | 'acceptanceDelay'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionAccepted = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  responseData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionAccepted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  responseData?: InputMaybe<Scalars['String']['input']>;
+  responseData_not?: InputMaybe<Scalars['String']['input']>;
+  responseData_gt?: InputMaybe<Scalars['String']['input']>;
+  responseData_lt?: InputMaybe<Scalars['String']['input']>;
+  responseData_gte?: InputMaybe<Scalars['String']['input']>;
+  responseData_lte?: InputMaybe<Scalars['String']['input']>;
+  responseData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  responseData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  responseData_contains?: InputMaybe<Scalars['String']['input']>;
+  responseData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionAccepted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionAccepted_filter>>>;
+};
+
+export type ServiceExecutionAccepted_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'responseData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionCanceled = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  from: Scalars['Bytes']['output'];
+  cancelData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  from?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  cancelData?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not?: InputMaybe<Scalars['String']['input']>;
+  cancelData_gt?: InputMaybe<Scalars['String']['input']>;
+  cancelData_lt?: InputMaybe<Scalars['String']['input']>;
+  cancelData_gte?: InputMaybe<Scalars['String']['input']>;
+  cancelData_lte?: InputMaybe<Scalars['String']['input']>;
+  cancelData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelData_contains?: InputMaybe<Scalars['String']['input']>;
+  cancelData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionCanceled_filter>>>;
+};
+
+export type ServiceExecutionCanceled_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'from'
+  | 'cancelData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeSettings = {
+  id: Scalars['String']['output'];
+  disputeResolutionDelay: Scalars['BigInt']['output'];
+  defaultRefundBps: Scalars['BigInt']['output'];
+  disputeBondBps: Scalars['BigInt']['output'];
+};
+
+export type DisputeSettings_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeResolutionDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeResolutionDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  defaultRefundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  defaultRefundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondBps?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeSettings_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeSettings_filter>>>;
+};
+
+export type DisputeSettings_orderBy =
+  | 'id'
+  | 'disputeResolutionDelay'
+  | 'defaultRefundBps'
+  | 'disputeBondBps';
+
+export type DisputeBondUpdated = {
+  id: Scalars['Bytes']['output'];
+  disputeBondBps: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeBondUpdated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  disputeBondBps?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeBondUpdated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeBondUpdated_filter>>>;
+};
+
+export type DisputeBondUpdated_orderBy =
+  | 'id'
+  | 'disputeBondBps'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeBondPosted = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  bondAmount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeBondPosted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  bondAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  bondAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeBondPosted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeBondPosted_filter>>>;
+};
+
+export type DisputeBondPosted_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'bondAmount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeBondReleased = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  requesterAmount: Scalars['BigInt']['output'];
+  creatorAmount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeBondReleased_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requesterAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requesterAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeBondReleased_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeBondReleased_filter>>>;
+};
+
+export type DisputeBondReleased_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'requesterAmount'
+  | 'creatorAmount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeDefaultsUpdated = {
+  id: Scalars['Bytes']['output'];
+  disputeResolutionDelay: Scalars['BigInt']['output'];
+  defaultRefundBps: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeDefaultsUpdated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  disputeResolutionDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeResolutionDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  defaultRefundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  defaultRefundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeDefaultsUpdated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeDefaultsUpdated_filter>>>;
+};
+
+export type DisputeDefaultsUpdated_orderBy =
+  | 'id'
+  | 'disputeResolutionDelay'
+  | 'defaultRefundBps'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionDisputeDefaulted = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  from: Scalars['Bytes']['output'];
+  refundBps: Scalars['BigInt']['output'];
+  refundAmount: Scalars['BigInt']['output'];
+  creatorAmount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionDisputeDefaulted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  from?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionDisputeDefaulted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionDisputeDefaulted_filter>>>;
+};
+
+export type ServiceExecutionDisputeDefaulted_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'from'
+  | 'refundBps'
+  | 'refundAmount'
+  | 'creatorAmount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionExpired = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionExpired_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionExpired_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionExpired_filter>>>;
+};
+
+export type ServiceExecutionExpired_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionDisputed = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  disputeData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionDisputed_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeData?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not?: InputMaybe<Scalars['String']['input']>;
+  disputeData_gt?: InputMaybe<Scalars['String']['input']>;
+  disputeData_lt?: InputMaybe<Scalars['String']['input']>;
+  disputeData_gte?: InputMaybe<Scalars['String']['input']>;
+  disputeData_lte?: InputMaybe<Scalars['String']['input']>;
+  disputeData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  disputeData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  disputeData_contains?: InputMaybe<Scalars['String']['input']>;
+  disputeData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionDisputed_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionDisputed_filter>>>;
+};
+
+export type ServiceExecutionDisputed_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'disputeData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionRequested = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  requester: Scalars['Bytes']['output'];
+  requestData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionRequested_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requester?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_not?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  requester_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  requester_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  requestData?: InputMaybe<Scalars['String']['input']>;
+  requestData_not?: InputMaybe<Scalars['String']['input']>;
+  requestData_gt?: InputMaybe<Scalars['String']['input']>;
+  requestData_lt?: InputMaybe<Scalars['String']['input']>;
+  requestData_gte?: InputMaybe<Scalars['String']['input']>;
+  requestData_lte?: InputMaybe<Scalars['String']['input']>;
+  requestData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  requestData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  requestData_contains?: InputMaybe<Scalars['String']['input']>;
+  requestData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionRequested_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionRequested_filter>>>;
+};
+
+export type ServiceExecutionRequested_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'requester'
+  | 'requestData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeEvidence = {
+  id: Scalars['String']['output'];
+  execution: VisibilityServiceExecution;
+  index: Scalars['BigInt']['output'];
+  from: Scalars['Bytes']['output'];
+  party: DisputeParty;
+  evidence: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeEvidence_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution?: InputMaybe<Scalars['String']['input']>;
+  execution_not?: InputMaybe<Scalars['String']['input']>;
+  execution_gt?: InputMaybe<Scalars['String']['input']>;
+  execution_lt?: InputMaybe<Scalars['String']['input']>;
+  execution_gte?: InputMaybe<Scalars['String']['input']>;
+  execution_lte?: InputMaybe<Scalars['String']['input']>;
+  execution_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  execution_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  execution_contains?: InputMaybe<Scalars['String']['input']>;
+  execution_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_contains?: InputMaybe<Scalars['String']['input']>;
+  execution_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_starts_with?: InputMaybe<Scalars['String']['input']>;
+  execution_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  execution_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_ends_with?: InputMaybe<Scalars['String']['input']>;
+  execution_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  execution_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_?: InputMaybe<VisibilityServiceExecution_filter>;
+  index?: InputMaybe<Scalars['BigInt']['input']>;
+  index_not?: InputMaybe<Scalars['BigInt']['input']>;
+  index_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  index_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  index_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  index_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  index_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  index_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  from?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  party?: InputMaybe<DisputeParty>;
+  party_not?: InputMaybe<DisputeParty>;
+  party_in?: InputMaybe<Array<DisputeParty>>;
+  party_not_in?: InputMaybe<Array<DisputeParty>>;
+  evidence?: InputMaybe<Scalars['String']['input']>;
+  evidence_not?: InputMaybe<Scalars['String']['input']>;
+  evidence_gt?: InputMaybe<Scalars['String']['input']>;
+  evidence_lt?: InputMaybe<Scalars['String']['input']>;
+  evidence_gte?: InputMaybe<Scalars['String']['input']>;
+  evidence_lte?: InputMaybe<Scalars['String']['input']>;
+  evidence_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  evidence_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  evidence_contains?: InputMaybe<Scalars['String']['input']>;
+  evidence_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_contains?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_starts_with?: InputMaybe<Scalars['String']['input']>;
+  evidence_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_ends_with?: InputMaybe<Scalars['String']['input']>;
+  evidence_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeEvidence_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeEvidence_filter>>>;
+};
+
+export type DisputeEvidence_orderBy =
+  | 'id'
+  | 'execution'
+  | 'execution__id'
+  | 'execution__state'
+  | 'execution__executionNonce'
+  | 'execution__requester'
+  | 'execution__creditsCostAmount'
+  | 'execution__acceptanceDeadline'
+  | 'execution__autoValidationTimestamp'
+  | 'execution__disputeDeadline'
+  | 'execution__requestData'
+  | 'execution__responseData'
+  | 'execution__cancelData'
+  | 'execution__disputeData'
+  | 'execution__resolveData'
+  | 'execution__refundBps'
+  | 'execution__refundAmount'
+  | 'execution__creatorAmount'
+  | 'execution__disputeBondAmount'
+  | 'execution__disputeBondRequesterAmount'
+  | 'execution__disputeBondCreatorAmount'
+  | 'execution__arbitrationRefundBps'
+  | 'execution__evidenceCount'
+  | 'execution__lastUpdated'
+  | 'index'
+  | 'from'
+  | 'party'
+  | 'evidence'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionResolved = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  refundBps: Scalars['BigInt']['output'];
+  refundAmount: Scalars['BigInt']['output'];
+  creatorAmount: Scalars['BigInt']['output'];
+  resolveData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionResolved_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  resolveData?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not?: InputMaybe<Scalars['String']['input']>;
+  resolveData_gt?: InputMaybe<Scalars['String']['input']>;
+  resolveData_lt?: InputMaybe<Scalars['String']['input']>;
+  resolveData_gte?: InputMaybe<Scalars['String']['input']>;
+  resolveData_lte?: InputMaybe<Scalars['String']['input']>;
+  resolveData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  resolveData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  resolveData_contains?: InputMaybe<Scalars['String']['input']>;
+  resolveData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionResolved_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionResolved_filter>>>;
+};
+
+export type ServiceExecutionResolved_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'refundBps'
+  | 'refundAmount'
+  | 'creatorAmount'
+  | 'resolveData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionValidated = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionValidated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionValidated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionValidated_filter>>>;
+};
+
+export type ServiceExecutionValidated_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceUpdated = {
+  id: Scalars['Bytes']['output'];
+  nonce: Scalars['BigInt']['output'];
+  service: VisibilityService;
+  enabled: Scalars['Boolean']['output'];
+  creditsCostAmount: Scalars['BigInt']['output'];
+  metadataURI: Scalars['String']['output'];
+  maxOpenExecutions: Scalars['BigInt']['output'];
+  acceptanceDelay: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceUpdated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  nonce?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  nonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  service?: InputMaybe<Scalars['String']['input']>;
+  service_not?: InputMaybe<Scalars['String']['input']>;
+  service_gt?: InputMaybe<Scalars['String']['input']>;
+  service_lt?: InputMaybe<Scalars['String']['input']>;
+  service_gte?: InputMaybe<Scalars['String']['input']>;
+  service_lte?: InputMaybe<Scalars['String']['input']>;
+  service_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  service_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  service_contains?: InputMaybe<Scalars['String']['input']>;
+  service_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_contains?: InputMaybe<Scalars['String']['input']>;
+  service_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_starts_with?: InputMaybe<Scalars['String']['input']>;
+  service_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  service_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_ends_with?: InputMaybe<Scalars['String']['input']>;
+  service_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  service_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_?: InputMaybe<VisibilityService_filter>;
+  enabled?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_not?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  enabled_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  creditsCostAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creditsCostAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  metadataURI?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_gt?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_lt?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_gte?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_lte?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  metadataURI_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  metadataURI_contains?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_contains?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_starts_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_ends_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  maxOpenExecutions?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_not?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  maxOpenExecutions_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceUpdated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceUpdated_filter>>>;
+};
+
+export type ServiceUpdated_orderBy =
+  | 'id'
+  | 'nonce'
+  | 'service'
+  | 'service__id'
+  | 'service__serviceType'
+  | 'service__creditsCostAmount'
+  | 'service__enabled'
+  | 'service__metadataURI'
+  | 'service__maxOpenExecutions'
+  | 'service__acceptanceDelay'
+  | 'service__validationDelay'
+  | 'enabled'
+  | 'creditsCostAmount'
+  | 'metadataURI'
+  | 'maxOpenExecutions'
+  | 'acceptanceDelay'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type Arbiter = {
+  id: Scalars['Bytes']['output'];
+  arbitration: ArbitrationSettings;
+  address: Scalars['Bytes']['output'];
+  active: Scalars['Boolean']['output'];
+  addedAt: Scalars['BigInt']['output'];
+  removedAt?: Maybe<Scalars['BigInt']['output']>;
+  votes: Array<DisputeVote>;
+};
+
+
+export type ArbitervotesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVote_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVote_filter>;
+};
+
+export type Arbiter_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbitration?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not?: InputMaybe<Scalars['String']['input']>;
+  arbitration_gt?: InputMaybe<Scalars['String']['input']>;
+  arbitration_lt?: InputMaybe<Scalars['String']['input']>;
+  arbitration_gte?: InputMaybe<Scalars['String']['input']>;
+  arbitration_lte?: InputMaybe<Scalars['String']['input']>;
+  arbitration_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  arbitration_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  arbitration_contains?: InputMaybe<Scalars['String']['input']>;
+  arbitration_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_contains?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_starts_with?: InputMaybe<Scalars['String']['input']>;
+  arbitration_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_ends_with?: InputMaybe<Scalars['String']['input']>;
+  arbitration_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_?: InputMaybe<ArbitrationSettings_filter>;
+  address?: InputMaybe<Scalars['Bytes']['input']>;
+  address_not?: InputMaybe<Scalars['Bytes']['input']>;
+  address_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  address_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  address_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  address_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  address_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  address_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  address_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  address_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  active?: InputMaybe<Scalars['Boolean']['input']>;
+  active_not?: InputMaybe<Scalars['Boolean']['input']>;
+  active_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  active_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  addedAt?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  addedAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  removedAt?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  removedAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votes_?: InputMaybe<DisputeVote_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Arbiter_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Arbiter_filter>>>;
+};
+
+export type Arbiter_orderBy =
+  | 'id'
+  | 'arbitration'
+  | 'arbitration__id'
+  | 'arbitration__active'
+  | 'arbitration__quorum'
+  | 'arbitration__votingPeriod'
+  | 'arbitration__arbitersCount'
+  | 'address'
+  | 'active'
+  | 'addedAt'
+  | 'removedAt'
+  | 'votes';
+
+export type ArbitrationSettings = {
+  id: Scalars['Bytes']['output'];
+  active: Scalars['Boolean']['output'];
+  quorum: Scalars['BigInt']['output'];
+  votingPeriod: Scalars['BigInt']['output'];
+  arbitersCount: Scalars['BigInt']['output'];
+  arbiters: Array<Arbiter>;
+};
+
+
+export type ArbitrationSettingsarbitersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Arbiter_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Arbiter_filter>;
+};
+
+export type ArbitrationSettings_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  active?: InputMaybe<Scalars['Boolean']['input']>;
+  active_not?: InputMaybe<Scalars['Boolean']['input']>;
+  active_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  active_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  quorum?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_not?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  quorum_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votingPeriod?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_not?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votingPeriod_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbitersCount?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbitersCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbiters_?: InputMaybe<Arbiter_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ArbitrationSettings_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ArbitrationSettings_filter>>>;
+};
+
+export type ArbitrationSettings_orderBy =
+  | 'id'
+  | 'active'
+  | 'quorum'
+  | 'votingPeriod'
+  | 'arbitersCount'
+  | 'arbiters';
+
+export type DisputeVote = {
+  id: Scalars['String']['output'];
+  execution: VisibilityServiceExecution;
+  arbiter: Arbiter;
+  refundBps: Scalars['BigInt']['output'];
+  reason: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeVote_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution?: InputMaybe<Scalars['String']['input']>;
+  execution_not?: InputMaybe<Scalars['String']['input']>;
+  execution_gt?: InputMaybe<Scalars['String']['input']>;
+  execution_lt?: InputMaybe<Scalars['String']['input']>;
+  execution_gte?: InputMaybe<Scalars['String']['input']>;
+  execution_lte?: InputMaybe<Scalars['String']['input']>;
+  execution_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  execution_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  execution_contains?: InputMaybe<Scalars['String']['input']>;
+  execution_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_contains?: InputMaybe<Scalars['String']['input']>;
+  execution_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_starts_with?: InputMaybe<Scalars['String']['input']>;
+  execution_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  execution_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_ends_with?: InputMaybe<Scalars['String']['input']>;
+  execution_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  execution_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_?: InputMaybe<VisibilityServiceExecution_filter>;
+  arbiter?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not?: InputMaybe<Scalars['String']['input']>;
+  arbiter_gt?: InputMaybe<Scalars['String']['input']>;
+  arbiter_lt?: InputMaybe<Scalars['String']['input']>;
+  arbiter_gte?: InputMaybe<Scalars['String']['input']>;
+  arbiter_lte?: InputMaybe<Scalars['String']['input']>;
+  arbiter_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  arbiter_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  arbiter_contains?: InputMaybe<Scalars['String']['input']>;
+  arbiter_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_contains?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_starts_with?: InputMaybe<Scalars['String']['input']>;
+  arbiter_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_ends_with?: InputMaybe<Scalars['String']['input']>;
+  arbiter_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_?: InputMaybe<Arbiter_filter>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  reason?: InputMaybe<Scalars['String']['input']>;
+  reason_not?: InputMaybe<Scalars['String']['input']>;
+  reason_gt?: InputMaybe<Scalars['String']['input']>;
+  reason_lt?: InputMaybe<Scalars['String']['input']>;
+  reason_gte?: InputMaybe<Scalars['String']['input']>;
+  reason_lte?: InputMaybe<Scalars['String']['input']>;
+  reason_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  reason_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  reason_contains?: InputMaybe<Scalars['String']['input']>;
+  reason_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_not_contains?: InputMaybe<Scalars['String']['input']>;
+  reason_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_starts_with?: InputMaybe<Scalars['String']['input']>;
+  reason_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  reason_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_ends_with?: InputMaybe<Scalars['String']['input']>;
+  reason_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  reason_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeVote_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeVote_filter>>>;
+};
+
+export type DisputeVote_orderBy =
+  | 'id'
+  | 'execution'
+  | 'execution__id'
+  | 'execution__state'
+  | 'execution__executionNonce'
+  | 'execution__requester'
+  | 'execution__creditsCostAmount'
+  | 'execution__acceptanceDeadline'
+  | 'execution__autoValidationTimestamp'
+  | 'execution__disputeDeadline'
+  | 'execution__requestData'
+  | 'execution__responseData'
+  | 'execution__cancelData'
+  | 'execution__disputeData'
+  | 'execution__resolveData'
+  | 'execution__refundBps'
+  | 'execution__refundAmount'
+  | 'execution__creatorAmount'
+  | 'execution__disputeBondAmount'
+  | 'execution__disputeBondRequesterAmount'
+  | 'execution__disputeBondCreatorAmount'
+  | 'execution__arbitrationRefundBps'
+  | 'execution__evidenceCount'
+  | 'execution__lastUpdated'
+  | 'arbiter'
+  | 'arbiter__id'
+  | 'arbiter__address'
+  | 'arbiter__active'
+  | 'arbiter__addedAt'
+  | 'arbiter__removedAt'
+  | 'refundBps'
+  | 'reason'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ArbiterAdded = {
+  id: Scalars['Bytes']['output'];
+  arbiter: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ArbiterAdded_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_not?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  arbiter_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  arbiter_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ArbiterAdded_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ArbiterAdded_filter>>>;
+};
+
+export type ArbiterAdded_orderBy =
+  | 'id'
+  | 'arbiter'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ArbiterRemoved = {
+  id: Scalars['Bytes']['output'];
+  arbiter: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ArbiterRemoved_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_not?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  arbiter_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  arbiter_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ArbiterRemoved_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ArbiterRemoved_filter>>>;
+};
+
+export type ArbiterRemoved_orderBy =
+  | 'id'
+  | 'arbiter'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ArbitrationSettingsUpdated = {
+  id: Scalars['Bytes']['output'];
+  quorum: Scalars['BigInt']['output'];
+  votingPeriod: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ArbitrationSettingsUpdated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  quorum?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_not?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  quorum_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votingPeriod?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_not?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votingPeriod_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ArbitrationSettingsUpdated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ArbitrationSettingsUpdated_filter>>>;
+};
+
+export type ArbitrationSettingsUpdated_orderBy =
+  | 'id'
+  | 'quorum'
+  | 'votingPeriod'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeVotesTallied = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  votesCount: Scalars['BigInt']['output'];
+  refundBps: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeVotesTallied_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votesCount?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votesCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeVotesTallied_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeVotesTallied_filter>>>;
+};
+
+export type DisputeVotesTallied_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'votesCount'
+  | 'refundBps'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type Query = {
+  creator?: Maybe<Creator>;
+  creators: Array<Creator>;
+  visibility?: Maybe<Visibility>;
+  visibilities: Array<Visibility>;
+  visibilityBalance?: Maybe<VisibilityBalance>;
+  visibilityBalances: Array<VisibilityBalance>;
+  operatorApproval?: Maybe<OperatorApproval>;
+  operatorApprovals: Array<OperatorApproval>;
+  visibilityService?: Maybe<VisibilityService>;
+  visibilityServices: Array<VisibilityService>;
+  visibilityServiceExecution?: Maybe<VisibilityServiceExecution>;
+  visibilityServiceExecutions: Array<VisibilityServiceExecution>;
+  referrer?: Maybe<Referrer>;
+  referrers: Array<Referrer>;
+  referrerVisibility?: Maybe<ReferrerVisibility>;
+  referrerVisibilities: Array<ReferrerVisibility>;
+  referredTrader?: Maybe<ReferredTrader>;
+  referredTraders: Array<ReferredTrader>;
+  visibilityCandle?: Maybe<VisibilityCandle>;
+  visibilityCandles: Array<VisibilityCandle>;
+  protocolTreasury?: Maybe<ProtocolTreasury>;
+  protocolTreasuries: Array<ProtocolTreasury>;
+  creatorFeeClaimed?: Maybe<CreatorFeeClaimed>;
+  creatorFeeClaimeds: Array<CreatorFeeClaimed>;
+  protocolFeesClaimed?: Maybe<ProtocolFeesClaimed>;
+  protocolFeesClaimeds: Array<ProtocolFeesClaimed>;
+  referrerFeesClaimed?: Maybe<ReferrerFeesClaimed>;
+  referrerFeesClaimeds: Array<ReferrerFeesClaimed>;
+  operatorApprovalSet?: Maybe<OperatorApprovalSet>;
+  operatorApprovalSets: Array<OperatorApprovalSet>;
+  creatorVisibilitySet?: Maybe<CreatorVisibilitySet>;
+  creatorVisibilitySets: Array<CreatorVisibilitySet>;
+  curveSet?: Maybe<CurveSet>;
+  curveSets: Array<CurveSet>;
+  platform?: Maybe<Platform>;
+  platforms: Array<Platform>;
+  platformSet?: Maybe<PlatformSet>;
+  platformSets: Array<PlatformSet>;
+  feeSchedule?: Maybe<FeeSchedule>;
+  feeSchedules: Array<FeeSchedule>;
+  feeChange?: Maybe<FeeChange>;
+  feeChanges: Array<FeeChange>;
+  creditsTrade?: Maybe<CreditsTrade>;
+  creditsTrades: Array<CreditsTrade>;
+  creditsTransfer?: Maybe<CreditsTransfer>;
+  creditsTransfers: Array<CreditsTransfer>;
+  defaultAdminDelayChangeCanceled?: Maybe<DefaultAdminDelayChangeCanceled>;
+  defaultAdminDelayChangeCanceleds: Array<DefaultAdminDelayChangeCanceled>;
+  defaultAdminDelayChangeScheduled?: Maybe<DefaultAdminDelayChangeScheduled>;
+  defaultAdminDelayChangeScheduleds: Array<DefaultAdminDelayChangeScheduled>;
+  defaultAdminTransferCanceled?: Maybe<DefaultAdminTransferCanceled>;
+  defaultAdminTransferCanceleds: Array<DefaultAdminTransferCanceled>;
+  defaultAdminTransferScheduled?: Maybe<DefaultAdminTransferScheduled>;
+  defaultAdminTransferScheduleds: Array<DefaultAdminTransferScheduled>;
+  roleAdminChanged?: Maybe<RoleAdminChanged>;
+  roleAdminChangeds: Array<RoleAdminChanged>;
+  roleGranted?: Maybe<RoleGranted>;
+  roleGranteds: Array<RoleGranted>;
+  roleRevoked?: Maybe<RoleRevoked>;
+  roleRevokeds: Array<RoleRevoked>;
+  visibilityServicesDefaultAdminDelayChangeCanceled?: Maybe<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  visibilityServicesDefaultAdminDelayChangeCanceleds: Array<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  visibilityServicesDefaultAdminDelayChangeScheduled?: Maybe<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  visibilityServicesDefaultAdminDelayChangeScheduleds: Array<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  visibilityServicesDefaultAdminTransferCanceled?: Maybe<VisibilityServicesDefaultAdminTransferCanceled>;
+  visibilityServicesDefaultAdminTransferCanceleds: Array<VisibilityServicesDefaultAdminTransferCanceled>;
+  visibilityServicesDefaultAdminTransferScheduled?: Maybe<VisibilityServicesDefaultAdminTransferScheduled>;
+  visibilityServicesDefaultAdminTransferScheduleds: Array<VisibilityServicesDefaultAdminTransferScheduled>;
+  visibilityServicesRoleAdminChanged?: Maybe<VisibilityServicesRoleAdminChanged>;
+  visibilityServicesRoleAdminChangeds: Array<VisibilityServicesRoleAdminChanged>;
+  visibilityServicesRoleGranted?: Maybe<VisibilityServicesRoleGranted>;
+  visibilityServicesRoleGranteds: Array<VisibilityServicesRoleGranted>;
+  visibilityServicesRoleRevoked?: Maybe<VisibilityServicesRoleRevoked>;
+  visibilityServicesRoleRevokeds: Array<VisibilityServicesRoleRevoked>;
+  serviceCreated?: Maybe<ServiceCreated>;
+  serviceCreateds: Array<ServiceCreated>;
+  serviceExecutionAccepted?: Maybe<ServiceExecutionAccepted>;
+  serviceExecutionAccepteds: Array<ServiceExecutionAccepted>;
+  serviceExecutionCanceled?: Maybe<ServiceExecutionCanceled>;
+  serviceExecutionCanceleds: Array<ServiceExecutionCanceled>;
+  disputeSettings?: Maybe<DisputeSettings>;
+  disputeSettingses: Array<DisputeSettings>;
+  disputeBondUpdated?: Maybe<DisputeBondUpdated>;
+  disputeBondUpdateds: Array<DisputeBondUpdated>;
+  disputeBondPosted?: Maybe<DisputeBondPosted>;
+  disputeBondPosteds: Array<DisputeBondPosted>;
+  disputeBondReleased?: Maybe<DisputeBondReleased>;
+  disputeBondReleaseds: Array<DisputeBondReleased>;
+  disputeDefaultsUpdated?: Maybe<DisputeDefaultsUpdated>;
+  disputeDefaultsUpdateds: Array<DisputeDefaultsUpdated>;
+  serviceExecutionDisputeDefaulted?: Maybe<ServiceExecutionDisputeDefaulted>;
+  serviceExecutionDisputeDefaulteds: Array<ServiceExecutionDisputeDefaulted>;
+  serviceExecutionExpired?: Maybe<ServiceExecutionExpired>;
+  serviceExecutionExpireds: Array<ServiceExecutionExpired>;
+  serviceExecutionDisputed?: Maybe<ServiceExecutionDisputed>;
+  serviceExecutionDisputeds: Array<ServiceExecutionDisputed>;
+  serviceExecutionRequested?: Maybe<ServiceExecutionRequested>;
+  serviceExecutionRequesteds: Array<ServiceExecutionRequested>;
+  disputeEvidence?: Maybe<DisputeEvidence>;
+  disputeEvidences: Array<DisputeEvidence>;
+  serviceExecutionResolved?: Maybe<ServiceExecutionResolved>;
+  serviceExecutionResolveds: Array<ServiceExecutionResolved>;
+  serviceExecutionValidated?: Maybe<ServiceExecutionValidated>;
+  serviceExecutionValidateds: Array<ServiceExecutionValidated>;
+  serviceUpdated?: Maybe<ServiceUpdated>;
+  serviceUpdateds: Array<ServiceUpdated>;
+  arbiter?: Maybe<Arbiter>;
+  arbiters: Array<Arbiter>;
+  arbitrationSettings?: Maybe<ArbitrationSettings>;
+  arbitrationSettingses: Array<ArbitrationSettings>;
+  disputeVote?: Maybe<DisputeVote>;
+  disputeVotes: Array<DisputeVote>;
+  arbiterAdded?: Maybe<ArbiterAdded>;
+  arbiterAddeds: Array<ArbiterAdded>;
+  arbiterRemoved?: Maybe<ArbiterRemoved>;
+  arbiterRemoveds: Array<ArbiterRemoved>;
+  arbitrationSettingsUpdated?: Maybe<ArbitrationSettingsUpdated>;
+  arbitrationSettingsUpdateds: Array<ArbitrationSettingsUpdated>;
+  disputeVotesTallied?: Maybe<DisputeVotesTallied>;
+  disputeVotesTallieds: Array<DisputeVotesTallied>;
+  /** Access to subgraph metadata */
+  _meta?: Maybe<_Meta_>;
+};
+
+
+export type QuerycreatorArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Creator_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Creator_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Visibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Visibility_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityBalanceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityBalancesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityBalance_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityBalance_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryoperatorApprovalArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryoperatorApprovalsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApproval_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApproval_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServiceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityService_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityService_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServiceExecutionArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServiceExecutionsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServiceExecution_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServiceExecution_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Referrer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Referrer_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerVisibilityArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerVisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerVisibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerVisibility_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferredTraderArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferredTradersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferredTrader_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferredTrader_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityCandleArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityCandlesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityCandle_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityCandle_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryprotocolTreasuryArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryprotocolTreasuriesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ProtocolTreasury_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ProtocolTreasury_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorFeeClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorFeeClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreatorFeeClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreatorFeeClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryprotocolFeesClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryprotocolFeesClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ProtocolFeesClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ProtocolFeesClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerFeesClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerFeesClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerFeesClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerFeesClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryoperatorApprovalSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryoperatorApprovalSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApprovalSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApprovalSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorVisibilitySetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorVisibilitySetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreatorVisibilitySet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreatorVisibilitySet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycurveSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycurveSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CurveSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CurveSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryplatformArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryplatformsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Platform_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Platform_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryplatformSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryplatformSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<PlatformSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<PlatformSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryfeeScheduleArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryfeeSchedulesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<FeeSchedule_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<FeeSchedule_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryfeeChangeArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryfeeChangesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<FeeChange_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<FeeChange_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreditsTradeArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreditsTradesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTrade_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTrade_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreditsTransferArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreditsTransfersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTransfer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTransfer_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminDelayChangeCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminDelayChangeCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminDelayChangeCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminDelayChangeCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminDelayChangeScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminDelayChangeScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminDelayChangeScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminDelayChangeScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminTransferCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminTransferCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminTransferCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminTransferCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminTransferScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminTransferScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminTransferScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminTransferScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleAdminChangedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleAdminChangedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleAdminChanged_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleAdminChanged_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleGrantedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleGrantedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleGranted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleGranted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleRevokedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleRevokedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleRevoked_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleRevoked_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminDelayChangeCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminDelayChangeCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminDelayChangeScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminDelayChangeScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminTransferCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminTransferCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminTransferScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminTransferScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleAdminChangedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleAdminChangedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleAdminChanged_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleAdminChanged_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleGrantedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleGrantedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleGranted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleGranted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleRevokedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleRevokedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleRevoked_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleRevoked_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceCreatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceCreatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceCreated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceCreated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionAcceptedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionAcceptedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionAccepted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionAccepted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeSettingsArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeSettingsesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeSettings_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeSettings_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondPostedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondPostedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondPosted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondPosted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondReleasedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondReleasedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondReleased_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondReleased_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeDefaultsUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeDefaultsUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeDefaultsUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeDefaultsUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionDisputeDefaultedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionDisputeDefaultedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionDisputeDefaulted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionDisputeDefaulted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionExpiredArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionExpiredsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionExpired_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionExpired_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionDisputedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionDisputedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionDisputed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionDisputed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionRequestedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionRequestedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionRequested_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionRequested_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeEvidenceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeEvidencesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeEvidence_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeEvidence_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionResolvedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionResolvedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionResolved_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionResolved_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionValidatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionValidatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionValidated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionValidated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Arbiter_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Arbiter_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitrationSettingsArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitrationSettingsesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbitrationSettings_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbitrationSettings_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeVoteArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeVotesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVote_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVote_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterAddedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterAddedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbiterAdded_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbiterAdded_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterRemovedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterRemovedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbiterRemoved_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbiterRemoved_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitrationSettingsUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitrationSettingsUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbitrationSettingsUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbitrationSettingsUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeVotesTalliedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeVotesTalliedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVotesTallied_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVotesTallied_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type Query_metaArgs = {
+  block?: InputMaybe<Block_height>;
+};
+
+export type Subscription = {
+  creator?: Maybe<Creator>;
+  creators: Array<Creator>;
+  visibility?: Maybe<Visibility>;
+  visibilities: Array<Visibility>;
+  visibilityBalance?: Maybe<VisibilityBalance>;
+  visibilityBalances: Array<VisibilityBalance>;
+  operatorApproval?: Maybe<OperatorApproval>;
+  operatorApprovals: Array<OperatorApproval>;
+  visibilityService?: Maybe<VisibilityService>;
+  visibilityServices: Array<VisibilityService>;
+  visibilityServiceExecution?: Maybe<VisibilityServiceExecution>;
+  visibilityServiceExecutions: Array<VisibilityServiceExecution>;
+  referrer?: Maybe<Referrer>;
+  referrers: Array<Referrer>;
+  referrerVisibility?: Maybe<ReferrerVisibility>;
+  referrerVisibilities: Array<ReferrerVisibility>;
+  referredTrader?: Maybe<ReferredTrader>;
+  referredTraders: Array<ReferredTrader>;
+  visibilityCandle?: Maybe<VisibilityCandle>;
+  visibilityCandles: Array<VisibilityCandle>;
+  protocolTreasury?: Maybe<ProtocolTreasury>;
+  protocolTreasuries: Array<ProtocolTreasury>;
+  creatorFeeClaimed?: Maybe<CreatorFeeClaimed>;
+  creatorFeeClaimeds: Array<CreatorFeeClaimed>;
+  protocolFeesClaimed?: Maybe<ProtocolFeesClaimed>;
+  protocolFeesClaimeds: Array<ProtocolFeesClaimed>;
+  referrerFeesClaimed?: Maybe<ReferrerFeesClaimed>;
+  referrerFeesClaimeds: Array<ReferrerFeesClaimed>;
+  operatorApprovalSet?: Maybe<OperatorApprovalSet>;
+  operatorApprovalSets: Array<OperatorApprovalSet>;
+  creatorVisibilitySet?: Maybe<CreatorVisibilitySet>;
+  creatorVisibilitySets: Array<CreatorVisibilitySet>;
+  curveSet?: Maybe<CurveSet>;
+  curveSets: Array<CurveSet>;
+  platform?: Maybe<Platform>;
+  platforms: Array<Platform>;
+  platformSet?: Maybe<PlatformSet>;
+  platformSets: Array<PlatformSet>;
+  feeSchedule?: Maybe<FeeSchedule>;
+  feeSchedules: Array<FeeSchedule>;
+  feeChange?: Maybe<FeeChange>;
+  feeChanges: Array<FeeChange>;
+  creditsTrade?: Maybe<CreditsTrade>;
+  creditsTrades: Array<CreditsTrade>;
+  creditsTransfer?: Maybe<CreditsTransfer>;
+  creditsTransfers: Array<CreditsTransfer>;
+  defaultAdminDelayChangeCanceled?: Maybe<DefaultAdminDelayChangeCanceled>;
+  defaultAdminDelayChangeCanceleds: Array<DefaultAdminDelayChangeCanceled>;
+  defaultAdminDelayChangeScheduled?: Maybe<DefaultAdminDelayChangeScheduled>;
+  defaultAdminDelayChangeScheduleds: Array<DefaultAdminDelayChangeScheduled>;
+  defaultAdminTransferCanceled?: Maybe<DefaultAdminTransferCanceled>;
+  defaultAdminTransferCanceleds: Array<DefaultAdminTransferCanceled>;
+  defaultAdminTransferScheduled?: Maybe<DefaultAdminTransferScheduled>;
+  defaultAdminTransferScheduleds: Array<DefaultAdminTransferScheduled>;
+  roleAdminChanged?: Maybe<RoleAdminChanged>;
+  roleAdminChangeds: Array<RoleAdminChanged>;
+  roleGranted?: Maybe<RoleGranted>;
+  roleGranteds: Array<RoleGranted>;
+  roleRevoked?: Maybe<RoleRevoked>;
+  roleRevokeds: Array<RoleRevoked>;
+  visibilityServicesDefaultAdminDelayChangeCanceled?: Maybe<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  visibilityServicesDefaultAdminDelayChangeCanceleds: Array<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  visibilityServicesDefaultAdminDelayChangeScheduled?: Maybe<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  visibilityServicesDefaultAdminDelayChangeScheduleds: Array<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  visibilityServicesDefaultAdminTransferCanceled?: Maybe<VisibilityServicesDefaultAdminTransferCanceled>;
+  visibilityServicesDefaultAdminTransferCanceleds: Array<VisibilityServicesDefaultAdminTransferCanceled>;
+  visibilityServicesDefaultAdminTransferScheduled?: Maybe<VisibilityServicesDefaultAdminTransferScheduled>;
+  visibilityServicesDefaultAdminTransferScheduleds: Array<VisibilityServicesDefaultAdminTransferScheduled>;
+  visibilityServicesRoleAdminChanged?: Maybe<VisibilityServicesRoleAdminChanged>;
+  visibilityServicesRoleAdminChangeds: Array<VisibilityServicesRoleAdminChanged>;
+  visibilityServicesRoleGranted?: Maybe<VisibilityServicesRoleGranted>;
+  visibilityServicesRoleGranteds: Array<VisibilityServicesRoleGranted>;
+  visibilityServicesRoleRevoked?: Maybe<VisibilityServicesRoleRevoked>;
+  visibilityServicesRoleRevokeds: Array<VisibilityServicesRoleRevoked>;
+  serviceCreated?: Maybe<ServiceCreated>;
+  serviceCreateds: Array<ServiceCreated>;
+  serviceExecutionAccepted?: Maybe<ServiceExecutionAccepted>;
+  serviceExecutionAccepteds: Array<ServiceExecutionAccepted>;
+  serviceExecutionCanceled?: Maybe<ServiceExecutionCanceled>;
+  serviceExecutionCanceleds: Array<ServiceExecutionCanceled>;
+  disputeSettings?: Maybe<DisputeSettings>;
+  disputeSettingses: Array<DisputeSettings>;
+  disputeBondUpdated?: Maybe<DisputeBondUpdated>;
+  disputeBondUpdateds: Array<DisputeBondUpdated>;
+  disputeBondPosted?: Maybe<DisputeBondPosted>;
+  disputeBondPosteds: Array<DisputeBondPosted>;
+  disputeBondReleased?: Maybe<DisputeBondReleased>;
+  disputeBondReleaseds: Array<DisputeBondReleased>;
+  disputeDefaultsUpdated?: Maybe<DisputeDefaultsUpdated>;
+  disputeDefaultsUpdateds: Array<DisputeDefaultsUpdated>;
+  serviceExecutionDisputeDefaulted?: Maybe<ServiceExecutionDisputeDefaulted>;
+  serviceExecutionDisputeDefaulteds: Array<ServiceExecutionDisputeDefaulted>;
+  serviceExecutionExpired?: Maybe<ServiceExecutionExpired>;
+  serviceExecutionExpireds: Array<ServiceExecutionExpired>;
+  serviceExecutionDisputed?: Maybe<ServiceExecutionDisputed>;
+  serviceExecutionDisputeds: Array<ServiceExecutionDisputed>;
+  serviceExecutionRequested?: Maybe<ServiceExecutionRequested>;
+  serviceExecutionRequesteds: Array<ServiceExecutionRequested>;
+  disputeEvidence?: Maybe<DisputeEvidence>;
+  disputeEvidences: Array<DisputeEvidence>;
+  serviceExecutionResolved?: Maybe<ServiceExecutionResolved>;
+  serviceExecutionResolveds: Array<ServiceExecutionResolved>;
+  serviceExecutionValidated?: Maybe<ServiceExecutionValidated>;
+  serviceExecutionValidateds: Array<ServiceExecutionValidated>;
+  serviceUpdated?: Maybe<ServiceUpdated>;
+  serviceUpdateds: Array<ServiceUpdated>;
+  arbiter?: Maybe<Arbiter>;
+  arbiters: Array<Arbiter>;
+  arbitrationSettings?: Maybe<ArbitrationSettings>;
+  arbitrationSettingses: Array<ArbitrationSettings>;
+  disputeVote?: Maybe<DisputeVote>;
+  disputeVotes: Array<DisputeVote>;
+  arbiterAdded?: Maybe<ArbiterAdded>;
+  arbiterAddeds: Array<ArbiterAdded>;
+  arbiterRemoved?: Maybe<ArbiterRemoved>;
+  arbiterRemoveds: Array<ArbiterRemoved>;
+  arbitrationSettingsUpdated?: Maybe<ArbitrationSettingsUpdated>;
+  arbitrationSettingsUpdateds: Array<ArbitrationSettingsUpdated>;
+  disputeVotesTallied?: Maybe<DisputeVotesTallied>;
+  disputeVotesTallieds: Array<DisputeVotesTallied>;
+  /** Access to subgraph metadata */
+  _meta?: Maybe<_Meta_>;
+};
+
+
+export type SubscriptioncreatorArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Creator_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Creator_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Visibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Visibility_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityBalanceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityBalancesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityBalance_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityBalance_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionoperatorApprovalArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionoperatorApprovalsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApproval_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApproval_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServiceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityService_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityService_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServiceExecutionArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServiceExecutionsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServiceExecution_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServiceExecution_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Referrer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Referrer_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerVisibilityArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerVisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerVisibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerVisibility_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferredTraderArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferredTradersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferredTrader_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferredTrader_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityCandleArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityCandlesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityCandle_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityCandle_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionprotocolTreasuryArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionprotocolTreasuriesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ProtocolTreasury_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ProtocolTreasury_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorFeeClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorFeeClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreatorFeeClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreatorFeeClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionprotocolFeesClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionprotocolFeesClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ProtocolFeesClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ProtocolFeesClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerFeesClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerFeesClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerFeesClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerFeesClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionoperatorApprovalSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionoperatorApprovalSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApprovalSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApprovalSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorVisibilitySetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorVisibilitySetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreatorVisibilitySet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreatorVisibilitySet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncurveSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncurveSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CurveSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CurveSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionplatformArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionplatformsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Platform_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Platform_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionplatformSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionplatformSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<PlatformSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<PlatformSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionfeeScheduleArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionfeeSchedulesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<FeeSchedule_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<FeeSchedule_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionfeeChangeArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionfeeChangesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<FeeChange_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<FeeChange_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreditsTradeArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreditsTradesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTrade_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTrade_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreditsTransferArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreditsTransfersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTransfer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTransfer_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminDelayChangeCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminDelayChangeCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminDelayChangeCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminDelayChangeCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminDelayChangeScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminDelayChangeScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminDelayChangeScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminDelayChangeScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminTransferCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminTransferCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminTransferCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminTransferCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminTransferScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminTransferScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminTransferScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminTransferScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleAdminChangedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleAdminChangedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleAdminChanged_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleAdminChanged_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleGrantedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleGrantedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleGranted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleGranted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleRevokedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleRevokedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleRevoked_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleRevoked_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminDelayChangeCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminDelayChangeCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminDelayChangeScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminDelayChangeScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminTransferCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminTransferCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminTransferScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminTransferScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleAdminChangedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleAdminChangedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleAdminChanged_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleAdminChanged_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleGrantedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleGrantedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleGranted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleGranted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleRevokedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleRevokedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleRevoked_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleRevoked_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceCreatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceCreatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceCreated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceCreated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionAcceptedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionAcceptedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionAccepted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionAccepted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeSettingsArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeSettingsesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeSettings_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeSettings_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondPostedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondPostedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondPosted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondPosted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondReleasedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondReleasedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondReleased_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondReleased_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeDefaultsUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeDefaultsUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeDefaultsUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeDefaultsUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionDisputeDefaultedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionDisputeDefaultedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionDisputeDefaulted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionDisputeDefaulted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionExpiredArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionExpiredsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionExpired_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionExpired_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionDisputedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionDisputedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionDisputed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionDisputed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionRequestedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionRequestedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionRequested_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionRequested_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeEvidenceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeEvidencesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeEvidence_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeEvidence_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionResolvedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionResolvedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionResolved_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionResolved_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionValidatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionValidatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionValidated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionValidated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbiterArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbitersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Arbiter_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Arbiter_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbitrationSettingsArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbitrationSettingsesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbitrationSettings_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbitrationSettings_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type QuerygreetingArgs = {
+export type SubscriptiondisputeVoteArgs = {
   id: Scalars['ID']['input'];
   block?: InputMaybe<Block_height>;
   subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type QuerygreetingsArgs = {
+export type SubscriptiondisputeVotesArgs = {
   skip?: InputMaybe<Scalars['Int']['input']>;
   first?: InputMaybe<Scalars['Int']['input']>;
-  orderBy?: InputMaybe<Greeting_orderBy>;
+  orderBy?: InputMaybe<DisputeVote_orderBy>;
   orderDirection?: InputMaybe<OrderDirection>;
-  where?: InputMaybe<Greeting_filter>;
+  where?: InputMaybe<DisputeVote_filter>;
   block?: InputMaybe<Block_height>;
   subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type QuerysenderArgs = {
+export type SubscriptionarbiterAddedArgs = {
   id: Scalars['ID']['input'];
   block?: InputMaybe<Block_height>;
   subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type QuerysendersArgs = {
+export type SubscriptionarbiterAddedsArgs = {
   skip?: InputMaybe<Scalars['Int']['input']>;
   first?: InputMaybe<Scalars['Int']['input']>;
-  orderBy?: InputMaybe<Sender_orderBy>;
+  orderBy?: InputMaybe<ArbiterAdded_orderBy>;
   orderDirection?: InputMaybe<OrderDirection>;
-  where?: InputMaybe<Sender_filter>;
+  where?: InputMaybe<ArbiterAdded_filter>;
   block?: InputMaybe<Block_height>;
   subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type Query_metaArgs = {
+export type SubscriptionarbiterRemovedArgs = {
+  id: Scalars['ID']['input'];
   block?: InputMaybe<Block_height>;
-};
-
-export type Sender = {
-  id: Scalars['ID']['output'];
-  address: Scalars['Bytes']['output'];
-  greetings?: Maybe<Array<Greeting>>;
-  createdAt: Scalars['BigInt']['output'];
-  greetingCount: Scalars['BigInt']['output'];
+  subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type SendergreetingsArgs = {
+export type SubscriptionarbiterRemovedsArgs = {
   skip?: InputMaybe<Scalars['Int']['input']>;
   first?: InputMaybe<Scalars['Int']['input']>;
-  orderBy?: InputMaybe<Greeting_orderBy>;
+  orderBy?: InputMaybe<ArbiterRemoved_orderBy>;
   orderDirection?: InputMaybe<OrderDirection>;
-  where?: InputMaybe<Greeting_filter>;
-};
-
-export type Sender_filter = {
-  id?: InputMaybe<Scalars['ID']['input']>;
-  id_not?: InputMaybe<Scalars['ID']['input']>;
-  id_gt?: InputMaybe<Scalars['ID']['input']>;
-  id_lt?: InputMaybe<Scalars['ID']['input']>;
-  id_gte?: InputMaybe<Scalars['ID']['input']>;
-  id_lte?: InputMaybe<Scalars['ID']['input']>;
-  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
-  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
-  address?: InputMaybe<Scalars['Bytes']['input']>;
-  address_not?: InputMaybe<Scalars['Bytes']['input']>;
-  address_gt?: InputMaybe<Scalars['Bytes']['input']>;
-  address_lt?: InputMaybe<Scalars['Bytes']['input']>;
-  address_gte?: InputMaybe<Scalars['Bytes']['input']>;
-  address_lte?: InputMaybe<Scalars['Bytes']['input']>;
-  address_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
-  address_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
-  address_contains?: InputMaybe<Scalars['Bytes']['input']>;
-  address_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
-  greetings_?: InputMaybe<Greeting_filter>;
-  createdAt?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_not?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
-  createdAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
-  createdAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
-  greetingCount?: InputMaybe<Scalars['BigInt']['input']>;
-  greetingCount_not?: InputMaybe<Scalars['BigInt']['input']>;
-  greetingCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
-  greetingCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
-  greetingCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
-  greetingCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
-  greetingCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
-  greetingCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
-  /** Filter for the block changed event. */
-  _change_block?: InputMaybe<BlockChangedFilter>;
-  and?: InputMaybe<Array<InputMaybe<Sender_filter>>>;
-  or?: InputMaybe<Array<InputMaybe<Sender_filter>>>;
-};
-
-export type Sender_orderBy =
-  | 'id'
-  | 'address'
-  | 'greetings'
-  | 'createdAt'
-  | 'greetingCount';
-
-export type Subscription = {
-  greeting?: Maybe<Greeting>;
-  greetings: Array<Greeting>;
-  sender?: Maybe<Sender>;
-  senders: Array<Sender>;
-  /** Access to subgraph metadata */
-  _meta?: Maybe<_Meta_>;
+  where?: InputMaybe<ArbiterRemoved_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type SubscriptiongreetingArgs = {
+export type SubscriptionarbitrationSettingsUpdatedArgs = {
   id: Scalars['ID']['input'];
   block?: InputMaybe<Block_height>;
   subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type SubscriptiongreetingsArgs = {
+export type SubscriptionarbitrationSettingsUpdatedsArgs = {
   skip?: InputMaybe<Scalars['Int']['input']>;
   first?: InputMaybe<Scalars['Int']['input']>;
-  orderBy?: InputMaybe<Greeting_orderBy>;
+  orderBy?: InputMaybe<ArbitrationSettingsUpdated_orderBy>;
   orderDirection?: InputMaybe<OrderDirection>;
-  where?: InputMaybe<Greeting_filter>;
+  where?: InputMaybe<ArbitrationSettingsUpdated_filter>;
   block?: InputMaybe<Block_height>;
   subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type SubscriptionsenderArgs = {
+export type SubscriptiondisputeVotesTalliedArgs = {
   id: Scalars['ID']['input'];
   block?: InputMaybe<Block_height>;
   subgraphError?: _SubgraphErrorPolicy_;
 };
 
 
-export type SubscriptionsendersArgs = {
+export type SubscriptiondisputeVotesTalliedsArgs = {
   skip?: InputMaybe<Scalars['Int']['input']>;
   first?: InputMaybe<Scalars['Int']['input']>;
-  orderBy?: InputMaybe<Sender_orderBy>;
+  orderBy?: InputMaybe<DisputeVotesTallied_orderBy>;
   orderDirection?: InputMaybe<OrderDirection>;
-  where?: InputMaybe<Sender_filter>;
+  where?: InputMaybe<DisputeVotesTallied_filter>;
   block?: InputMaybe<Block_height>;
   subgraphError?: _SubgraphErrorPolicy_;
 };
@@ -347,37 +8936,6 @@ export type Subscription_metaArgs = {
   block?: InputMaybe<Block_height>;
 };
 
-export type _Block_ = {
-  /** The hash of the block */
-  hash?: Maybe<Scalars['Bytes']['output']>;
-  /** The block number */
-  number: Scalars['Int']['output'];
-  /** Integer representation of the timestamp stored in blocks for the chain */
-  timestamp?: Maybe<Scalars['Int']['output']>;
-};
-
-/** The type for the top-level _meta field */
-export type _Meta_ = {
-  /**
-   * Information about a specific subgraph block. The hash of the block
-   * will be null if the _meta field has a block constraint that asks for
-   * a block number. It will be filled if the _meta field has no block constraint
-   * and therefore asks for the latest  block
-   *
-   */
-  block: _Block_;
-  /** The deployment ID */
-  deployment: Scalars['String']['output'];
-  /** If `true`, the subgraph encountered indexing errors at some past block */
-  hasIndexingErrors: Scalars['Boolean']['output'];
-};
-
-export type _SubgraphErrorPolicy_ =
-  /** Data will be returned even if the subgraph has indexing errors */
-  | 'allow'
-  /** If the subgraph has indexing errors, data will be omitted. The default. */
-  | 'deny';
-
 export type WithIndex<TObject> = TObject & Record<string, any>;
 export type ResolversObject<TObject> = WithIndex<TObject>;
 
@@ -466,145 +9024,1403 @@ export type DirectiveResolverFn<TResult = {}, TParent = {}, TContext = {}, TArgs
 export type ResolversTypes = ResolversObject<{
   BigDecimal: ResolverTypeWrapper<Scalars['BigDecimal']['output']>;
   BigInt: ResolverTypeWrapper<Scalars['BigInt']['output']>;
-  BlockChangedFilter: BlockChangedFilter;
-  Block_height: Block_height;
-  Boolean: ResolverTypeWrapper<Scalars['Boolean']['output']>;
   Bytes: ResolverTypeWrapper<Scalars['Bytes']['output']>;
-  Float: ResolverTypeWrapper<Scalars['Float']['output']>;
-  Greeting: ResolverTypeWrapper<Greeting>;
-  Greeting_filter: Greeting_filter;
-  Greeting_orderBy: Greeting_orderBy;
-  ID: ResolverTypeWrapper<Scalars['ID']['output']>;
-  Int: ResolverTypeWrapper<Scalars['Int']['output']>;
   Int8: ResolverTypeWrapper<Scalars['Int8']['output']>;
+  BlockChangedFilter: BlockChangedFilter;
+  Int: ResolverTypeWrapper<Scalars['Int']['output']>;
+  Block_height: Block_height;
   OrderDirection: OrderDirection;
-  Query: ResolverTypeWrapper<{}>;
-  Sender: ResolverTypeWrapper<Sender>;
-  Sender_filter: Sender_filter;
-  Sender_orderBy: Sender_orderBy;
-  String: ResolverTypeWrapper<Scalars['String']['output']>;
-  Subscription: ResolverTypeWrapper<{}>;
   _Block_: ResolverTypeWrapper<_Block_>;
   _Meta_: ResolverTypeWrapper<_Meta_>;
+  String: ResolverTypeWrapper<Scalars['String']['output']>;
+  Boolean: ResolverTypeWrapper<Scalars['Boolean']['output']>;
   _SubgraphErrorPolicy_: _SubgraphErrorPolicy_;
+  ExecutionState: ExecutionState;
+  DisputeParty: DisputeParty;
+  CandleInterval: CandleInterval;
+  FeeChangeStatus: FeeChangeStatus;
+  Creator: ResolverTypeWrapper<Creator>;
+  Creator_filter: Creator_filter;
+  Creator_orderBy: Creator_orderBy;
+  Visibility: ResolverTypeWrapper<Visibility>;
+  Visibility_filter: Visibility_filter;
+  Visibility_orderBy: Visibility_orderBy;
+  VisibilityBalance: ResolverTypeWrapper<VisibilityBalance>;
+  VisibilityBalance_filter: VisibilityBalance_filter;
+  VisibilityBalance_orderBy: VisibilityBalance_orderBy;
+  OperatorApproval: ResolverTypeWrapper<OperatorApproval>;
+  OperatorApproval_filter: OperatorApproval_filter;
+  OperatorApproval_orderBy: OperatorApproval_orderBy;
+  VisibilityService: ResolverTypeWrapper<VisibilityService>;
+  VisibilityService_filter: VisibilityService_filter;
+  VisibilityService_orderBy: VisibilityService_orderBy;
+  VisibilityServiceExecution: ResolverTypeWrapper<VisibilityServiceExecution>;
+  VisibilityServiceExecution_filter: VisibilityServiceExecution_filter;
+  VisibilityServiceExecution_orderBy: VisibilityServiceExecution_orderBy;
+  Referrer: ResolverTypeWrapper<Referrer>;
+  Referrer_filter: Referrer_filter;
+  Referrer_orderBy: Referrer_orderBy;
+  ReferrerVisibility: ResolverTypeWrapper<ReferrerVisibility>;
+  ReferrerVisibility_filter: ReferrerVisibility_filter;
+  ReferrerVisibility_orderBy: ReferrerVisibility_orderBy;
+  ReferredTrader: ResolverTypeWrapper<ReferredTrader>;
+  ReferredTrader_filter: ReferredTrader_filter;
+  ReferredTrader_orderBy: ReferredTrader_orderBy;
+  VisibilityCandle: ResolverTypeWrapper<VisibilityCandle>;
+  VisibilityCandle_filter: VisibilityCandle_filter;
+  VisibilityCandle_orderBy: VisibilityCandle_orderBy;
+  ProtocolTreasury: ResolverTypeWrapper<ProtocolTreasury>;
+  ProtocolTreasury_filter: ProtocolTreasury_filter;
+  ProtocolTreasury_orderBy: ProtocolTreasury_orderBy;
+  CreatorFeeClaimed: ResolverTypeWrapper<CreatorFeeClaimed>;
+  CreatorFeeClaimed_filter: CreatorFeeClaimed_filter;
+  CreatorFeeClaimed_orderBy: CreatorFeeClaimed_orderBy;
+  ProtocolFeesClaimed: ResolverTypeWrapper<ProtocolFeesClaimed>;
+  ProtocolFeesClaimed_filter: ProtocolFeesClaimed_filter;
+  ProtocolFeesClaimed_orderBy: ProtocolFeesClaimed_orderBy;
+  ReferrerFeesClaimed: ResolverTypeWrapper<ReferrerFeesClaimed>;
+  ReferrerFeesClaimed_filter: ReferrerFeesClaimed_filter;
+  ReferrerFeesClaimed_orderBy: ReferrerFeesClaimed_orderBy;
+  OperatorApprovalSet: ResolverTypeWrapper<OperatorApprovalSet>;
+  OperatorApprovalSet_filter: OperatorApprovalSet_filter;
+  OperatorApprovalSet_orderBy: OperatorApprovalSet_orderBy;
+  CreatorVisibilitySet: ResolverTypeWrapper<CreatorVisibilitySet>;
+  CreatorVisibilitySet_filter: CreatorVisibilitySet_filter;
+  CreatorVisibilitySet_orderBy: CreatorVisibilitySet_orderBy;
+  CurveSet: ResolverTypeWrapper<CurveSet>;
+  CurveSet_filter: CurveSet_filter;
+  CurveSet_orderBy: CurveSet_orderBy;
+  Platform: ResolverTypeWrapper<Platform>;
+  Platform_filter: Platform_filter;
+  Platform_orderBy: Platform_orderBy;
+  PlatformSet: ResolverTypeWrapper<PlatformSet>;
+  PlatformSet_filter: PlatformSet_filter;
+  PlatformSet_orderBy: PlatformSet_orderBy;
+  FeeSchedule: ResolverTypeWrapper<FeeSchedule>;
+  FeeSchedule_filter: FeeSchedule_filter;
+  FeeSchedule_orderBy: FeeSchedule_orderBy;
+  FeeChange: ResolverTypeWrapper<FeeChange>;
+  FeeChange_filter: FeeChange_filter;
+  FeeChange_orderBy: FeeChange_orderBy;
+  CreditsTrade: ResolverTypeWrapper<CreditsTrade>;
+  CreditsTrade_filter: CreditsTrade_filter;
+  CreditsTrade_orderBy: CreditsTrade_orderBy;
+  CreditsTransfer: ResolverTypeWrapper<CreditsTransfer>;
+  CreditsTransfer_filter: CreditsTransfer_filter;
+  CreditsTransfer_orderBy: CreditsTransfer_orderBy;
+  DefaultAdminDelayChangeCanceled: ResolverTypeWrapper<DefaultAdminDelayChangeCanceled>;
+  DefaultAdminDelayChangeCanceled_filter: DefaultAdminDelayChangeCanceled_filter;
+  DefaultAdminDelayChangeCanceled_orderBy: DefaultAdminDelayChangeCanceled_orderBy;
+  DefaultAdminDelayChangeScheduled: ResolverTypeWrapper<DefaultAdminDelayChangeScheduled>;
+  DefaultAdminDelayChangeScheduled_filter: DefaultAdminDelayChangeScheduled_filter;
+  DefaultAdminDelayChangeScheduled_orderBy: DefaultAdminDelayChangeScheduled_orderBy;
+  DefaultAdminTransferCanceled: ResolverTypeWrapper<DefaultAdminTransferCanceled>;
+  DefaultAdminTransferCanceled_filter: DefaultAdminTransferCanceled_filter;
+  DefaultAdminTransferCanceled_orderBy: DefaultAdminTransferCanceled_orderBy;
+  DefaultAdminTransferScheduled: ResolverTypeWrapper<DefaultAdminTransferScheduled>;
+  DefaultAdminTransferScheduled_filter: DefaultAdminTransferScheduled_filter;
+  DefaultAdminTransferScheduled_orderBy: DefaultAdminTransferScheduled_orderBy;
+  RoleAdminChanged: ResolverTypeWrapper<RoleAdminChanged>;
+  RoleAdminChanged_filter: RoleAdminChanged_filter;
+  RoleAdminChanged_orderBy: RoleAdminChanged_orderBy;
+  RoleGranted: ResolverTypeWrapper<RoleGranted>;
+  RoleGranted_filter: RoleGranted_filter;
+  RoleGranted_orderBy: RoleGranted_orderBy;
+  RoleRevoked: ResolverTypeWrapper<RoleRevoked>;
+  RoleRevoked_filter: RoleRevoked_filter;
+  RoleRevoked_orderBy: RoleRevoked_orderBy;
+  VisibilityServicesDefaultAdminDelayChangeCanceled: ResolverTypeWrapper<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  VisibilityServicesDefaultAdminDelayChangeCanceled_filter: VisibilityServicesDefaultAdminDelayChangeCanceled_filter;
+  VisibilityServicesDefaultAdminDelayChangeCanceled_orderBy: VisibilityServicesDefaultAdminDelayChangeCanceled_orderBy;
+  VisibilityServicesDefaultAdminDelayChangeScheduled: ResolverTypeWrapper<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  VisibilityServicesDefaultAdminDelayChangeScheduled_filter: VisibilityServicesDefaultAdminDelayChangeScheduled_filter;
+  VisibilityServicesDefaultAdminDelayChangeScheduled_orderBy: VisibilityServicesDefaultAdminDelayChangeScheduled_orderBy;
+  VisibilityServicesDefaultAdminTransferCanceled: ResolverTypeWrapper<VisibilityServicesDefaultAdminTransferCanceled>;
+  VisibilityServicesDefaultAdminTransferCanceled_filter: VisibilityServicesDefaultAdminTransferCanceled_filter;
+  VisibilityServicesDefaultAdminTransferCanceled_orderBy: VisibilityServicesDefaultAdminTransferCanceled_orderBy;
+  VisibilityServicesDefaultAdminTransferScheduled: ResolverTypeWrapper<VisibilityServicesDefaultAdminTransferScheduled>;
+  VisibilityServicesDefaultAdminTransferScheduled_filter: VisibilityServicesDefaultAdminTransferScheduled_filter;
+  VisibilityServicesDefaultAdminTransferScheduled_orderBy: VisibilityServicesDefaultAdminTransferScheduled_orderBy;
+  VisibilityServicesRoleAdminChanged: ResolverTypeWrapper<VisibilityServicesRoleAdminChanged>;
+  VisibilityServicesRoleAdminChanged_filter: VisibilityServicesRoleAdminChanged_filter;
+  VisibilityServicesRoleAdminChanged_orderBy: VisibilityServicesRoleAdminChanged_orderBy;
+  VisibilityServicesRoleGranted: ResolverTypeWrapper<VisibilityServicesRoleGranted>;
+  VisibilityServicesRoleGranted_filter: VisibilityServicesRoleGranted_filter;
+  VisibilityServicesRoleGranted_orderBy: VisibilityServicesRoleGranted_orderBy;
+  VisibilityServicesRoleRevoked: ResolverTypeWrapper<VisibilityServicesRoleRevoked>;
+  VisibilityServicesRoleRevoked_filter: VisibilityServicesRoleRevoked_filter;
+  VisibilityServicesRoleRevoked_orderBy: VisibilityServicesRoleRevoked_orderBy;
+  ServiceCreated: ResolverTypeWrapper<ServiceCreated>;
+  ServiceCreated_filter: ServiceCreated_filter;
+  ServiceCreated_orderBy: ServiceCreated_orderBy;
+  ServiceExecutionAccepted: ResolverTypeWrapper<ServiceExecutionAccepted>;
+  ServiceExecutionAccepted_filter: ServiceExecutionAccepted_filter;
+  ServiceExecutionAccepted_orderBy: ServiceExecutionAccepted_orderBy;
+  ServiceExecutionCanceled: ResolverTypeWrapper<ServiceExecutionCanceled>;
+  ServiceExecutionCanceled_filter: ServiceExecutionCanceled_filter;
+  ServiceExecutionCanceled_orderBy: ServiceExecutionCanceled_orderBy;
+  DisputeSettings: ResolverTypeWrapper<DisputeSettings>;
+  DisputeSettings_filter: DisputeSettings_filter;
+  DisputeSettings_orderBy: DisputeSettings_orderBy;
+  DisputeBondUpdated: ResolverTypeWrapper<DisputeBondUpdated>;
+  DisputeBondUpdated_filter: DisputeBondUpdated_filter;
+  DisputeBondUpdated_orderBy: DisputeBondUpdated_orderBy;
+  DisputeBondPosted: ResolverTypeWrapper<DisputeBondPosted>;
+  DisputeBondPosted_filter: DisputeBondPosted_filter;
+  DisputeBondPosted_orderBy: DisputeBondPosted_orderBy;
+  DisputeBondReleased: ResolverTypeWrapper<DisputeBondReleased>;
+  DisputeBondReleased_filter: DisputeBondReleased_filter;
+  DisputeBondReleased_orderBy: DisputeBondReleased_orderBy;
+  DisputeDefaultsUpdated: ResolverTypeWrapper<DisputeDefaultsUpdated>;
+  DisputeDefaultsUpdated_filter: DisputeDefaultsUpdated_filter;
+  DisputeDefaultsUpdated_orderBy: DisputeDefaultsUpdated_orderBy;
+  ServiceExecutionDisputeDefaulted: ResolverTypeWrapper<ServiceExecutionDisputeDefaulted>;
+  ServiceExecutionDisputeDefaulted_filter: ServiceExecutionDisputeDefaulted_filter;
+  ServiceExecutionDisputeDefaulted_orderBy: ServiceExecutionDisputeDefaulted_orderBy;
+  ServiceExecutionExpired: ResolverTypeWrapper<ServiceExecutionExpired>;
+  ServiceExecutionExpired_filter: ServiceExecutionExpired_filter;
+  ServiceExecutionExpired_orderBy: ServiceExecutionExpired_orderBy;
+  ServiceExecutionDisputed: ResolverTypeWrapper<ServiceExecutionDisputed>;
+  ServiceExecutionDisputed_filter: ServiceExecutionDisputed_filter;
+  ServiceExecutionDisputed_orderBy: ServiceExecutionDisputed_orderBy;
+  ServiceExecutionRequested: ResolverTypeWrapper<ServiceExecutionRequested>;
+  ServiceExecutionRequested_filter: ServiceExecutionRequested_filter;
+  ServiceExecutionRequested_orderBy: ServiceExecutionRequested_orderBy;
+  DisputeEvidence: ResolverTypeWrapper<DisputeEvidence>;
+  DisputeEvidence_filter: DisputeEvidence_filter;
+  DisputeEvidence_orderBy: DisputeEvidence_orderBy;
+  ServiceExecutionResolved: ResolverTypeWrapper<ServiceExecutionResolved>;
+  ServiceExecutionResolved_filter: ServiceExecutionResolved_filter;
+  ServiceExecutionResolved_orderBy: ServiceExecutionResolved_orderBy;
+  ServiceExecutionValidated: ResolverTypeWrapper<ServiceExecutionValidated>;
+  ServiceExecutionValidated_filter: ServiceExecutionValidated_filter;
+  ServiceExecutionValidated_orderBy: ServiceExecutionValidated_orderBy;
+  ServiceUpdated: ResolverTypeWrapper<ServiceUpdated>;
+  ServiceUpdated_filter: ServiceUpdated_filter;
+  ServiceUpdated_orderBy: ServiceUpdated_orderBy;
+  Arbiter: ResolverTypeWrapper<Arbiter>;
+  Arbiter_filter: Arbiter_filter;
+  Arbiter_orderBy: Arbiter_orderBy;
+  ArbitrationSettings: ResolverTypeWrapper<ArbitrationSettings>;
+  ArbitrationSettings_filter: ArbitrationSettings_filter;
+  ArbitrationSettings_orderBy: ArbitrationSettings_orderBy;
+  DisputeVote: ResolverTypeWrapper<DisputeVote>;
+  DisputeVote_filter: DisputeVote_filter;
+  DisputeVote_orderBy: DisputeVote_orderBy;
+  ArbiterAdded: ResolverTypeWrapper<ArbiterAdded>;
+  ArbiterAdded_filter: ArbiterAdded_filter;
+  ArbiterAdded_orderBy: ArbiterAdded_orderBy;
+  ArbiterRemoved: ResolverTypeWrapper<ArbiterRemoved>;
+  ArbiterRemoved_filter: ArbiterRemoved_filter;
+  ArbiterRemoved_orderBy: ArbiterRemoved_orderBy;
+  ArbitrationSettingsUpdated: ResolverTypeWrapper<ArbitrationSettingsUpdated>;
+  ArbitrationSettingsUpdated_filter: ArbitrationSettingsUpdated_filter;
+  ArbitrationSettingsUpdated_orderBy: ArbitrationSettingsUpdated_orderBy;
+  DisputeVotesTallied: ResolverTypeWrapper<DisputeVotesTallied>;
+  DisputeVotesTallied_filter: DisputeVotesTallied_filter;
+  DisputeVotesTallied_orderBy: DisputeVotesTallied_orderBy;
+  Query: ResolverTypeWrapper<{}>;
+  ID: ResolverTypeWrapper<Scalars['ID']['output']>;
+  Subscription: ResolverTypeWrapper<{}>;
+}>;
+
+/** Mapping between all available schema types and the resolvers parents */
+export type ResolversParentTypes = ResolversObject<{
+  BigDecimal: Scalars['BigDecimal']['output'];
+  BigInt: Scalars['BigInt']['output'];
+  Bytes: Scalars['Bytes']['output'];
+  Int8: Scalars['Int8']['output'];
+  BlockChangedFilter: BlockChangedFilter;
+  Int: Scalars['Int']['output'];
+  Block_height: Block_height;
+  _Block_: _Block_;
+  _Meta_: _Meta_;
+  String: Scalars['String']['output'];
+  Boolean: Scalars['Boolean']['output'];
+  Creator: Creator;
+  Creator_filter: Creator_filter;
+  Visibility: Visibility;
+  Visibility_filter: Visibility_filter;
+  VisibilityBalance: VisibilityBalance;
+  VisibilityBalance_filter: VisibilityBalance_filter;
+  OperatorApproval: OperatorApproval;
+  OperatorApproval_filter: OperatorApproval_filter;
+  VisibilityService: VisibilityService;
+  VisibilityService_filter: VisibilityService_filter;
+  VisibilityServiceExecution: VisibilityServiceExecution;
+  VisibilityServiceExecution_filter: VisibilityServiceExecution_filter;
+  Referrer: Referrer;
+  Referrer_filter: Referrer_filter;
+  ReferrerVisibility: ReferrerVisibility;
+  ReferrerVisibility_filter: ReferrerVisibility_filter;
+  ReferredTrader: ReferredTrader;
+  ReferredTrader_filter: ReferredTrader_filter;
+  VisibilityCandle: VisibilityCandle;
+  VisibilityCandle_filter: VisibilityCandle_filter;
+  ProtocolTreasury: ProtocolTreasury;
+  ProtocolTreasury_filter: ProtocolTreasury_filter;
+  CreatorFeeClaimed: CreatorFeeClaimed;
+  CreatorFeeClaimed_filter: CreatorFeeClaimed_filter;
+  ProtocolFeesClaimed: ProtocolFeesClaimed;
+  ProtocolFeesClaimed_filter: ProtocolFeesClaimed_filter;
+  ReferrerFeesClaimed: ReferrerFeesClaimed;
+  ReferrerFeesClaimed_filter: ReferrerFeesClaimed_filter;
+  OperatorApprovalSet: OperatorApprovalSet;
+  OperatorApprovalSet_filter: OperatorApprovalSet_filter;
+  CreatorVisibilitySet: CreatorVisibilitySet;
+  CreatorVisibilitySet_filter: CreatorVisibilitySet_filter;
+  CurveSet: CurveSet;
+  CurveSet_filter: CurveSet_filter;
+  Platform: Platform;
+  Platform_filter: Platform_filter;
+  PlatformSet: PlatformSet;
+  PlatformSet_filter: PlatformSet_filter;
+  FeeSchedule: FeeSchedule;
+  FeeSchedule_filter: FeeSchedule_filter;
+  FeeChange: FeeChange;
+  FeeChange_filter: FeeChange_filter;
+  CreditsTrade: CreditsTrade;
+  CreditsTrade_filter: CreditsTrade_filter;
+  CreditsTransfer: CreditsTransfer;
+  CreditsTransfer_filter: CreditsTransfer_filter;
+  DefaultAdminDelayChangeCanceled: DefaultAdminDelayChangeCanceled;
+  DefaultAdminDelayChangeCanceled_filter: DefaultAdminDelayChangeCanceled_filter;
+  DefaultAdminDelayChangeScheduled: DefaultAdminDelayChangeScheduled;
+  DefaultAdminDelayChangeScheduled_filter: DefaultAdminDelayChangeScheduled_filter;
+  DefaultAdminTransferCanceled: DefaultAdminTransferCanceled;
+  DefaultAdminTransferCanceled_filter: DefaultAdminTransferCanceled_filter;
+  DefaultAdminTransferScheduled: DefaultAdminTransferScheduled;
+  DefaultAdminTransferScheduled_filter: DefaultAdminTransferScheduled_filter;
+  RoleAdminChanged: RoleAdminChanged;
+  RoleAdminChanged_filter: RoleAdminChanged_filter;
+  RoleGranted: RoleGranted;
+  RoleGranted_filter: RoleGranted_filter;
+  RoleRevoked: RoleRevoked;
+  RoleRevoked_filter: RoleRevoked_filter;
+  VisibilityServicesDefaultAdminDelayChangeCanceled: VisibilityServicesDefaultAdminDelayChangeCanceled;
+  VisibilityServicesDefaultAdminDelayChangeCanceled_filter: VisibilityServicesDefaultAdminDelayChangeCanceled_filter;
+  VisibilityServicesDefaultAdminDelayChangeScheduled: VisibilityServicesDefaultAdminDelayChangeScheduled;
+  VisibilityServicesDefaultAdminDelayChangeScheduled_filter: VisibilityServicesDefaultAdminDelayChangeScheduled_filter;
+  VisibilityServicesDefaultAdminTransferCanceled: VisibilityServicesDefaultAdminTransferCanceled;
+  VisibilityServicesDefaultAdminTransferCanceled_filter: VisibilityServicesDefaultAdminTransferCanceled_filter;
+  VisibilityServicesDefaultAdminTransferScheduled: VisibilityServicesDefaultAdminTransferScheduled;
+  VisibilityServicesDefaultAdminTransferScheduled_filter: VisibilityServicesDefaultAdminTransferScheduled_filter;
+  VisibilityServicesRoleAdminChanged: VisibilityServicesRoleAdminChanged;
+  VisibilityServicesRoleAdminChanged_filter: VisibilityServicesRoleAdminChanged_filter;
+  VisibilityServicesRoleGranted: VisibilityServicesRoleGranted;
+  VisibilityServicesRoleGranted_filter: VisibilityServicesRoleGranted_filter;
+  VisibilityServicesRoleRevoked: VisibilityServicesRoleRevoked;
+  VisibilityServicesRoleRevoked_filter: VisibilityServicesRoleRevoked_filter;
+  ServiceCreated: ServiceCreated;
+  ServiceCreated_filter: ServiceCreated_filter;
+  ServiceExecutionAccepted: ServiceExecutionAccepted;
+  ServiceExecutionAccepted_filter: ServiceExecutionAccepted_filter;
+  ServiceExecutionCanceled: ServiceExecutionCanceled;
+  ServiceExecutionCanceled_filter: ServiceExecutionCanceled_filter;
+  DisputeSettings: DisputeSettings;
+  DisputeSettings_filter: DisputeSettings_filter;
+  DisputeBondUpdated: DisputeBondUpdated;
+  DisputeBondUpdated_filter: DisputeBondUpdated_filter;
+  DisputeBondPosted: DisputeBondPosted;
+  DisputeBondPosted_filter: DisputeBondPosted_filter;
+  DisputeBondReleased: DisputeBondReleased;
+  DisputeBondReleased_filter: DisputeBondReleased_filter;
+  DisputeDefaultsUpdated: DisputeDefaultsUpdated;
+  DisputeDefaultsUpdated_filter: DisputeDefaultsUpdated_filter;
+  ServiceExecutionDisputeDefaulted: ServiceExecutionDisputeDefaulted;
+  ServiceExecutionDisputeDefaulted_filter: ServiceExecutionDisputeDefaulted_filter;
+  ServiceExecutionExpired: ServiceExecutionExpired;
+  ServiceExecutionExpired_filter: ServiceExecutionExpired_filter;
+  ServiceExecutionDisputed: ServiceExecutionDisputed;
+  ServiceExecutionDisputed_filter: ServiceExecutionDisputed_filter;
+  ServiceExecutionRequested: ServiceExecutionRequested;
+  ServiceExecutionRequested_filter: ServiceExecutionRequested_filter;
+  DisputeEvidence: DisputeEvidence;
+  DisputeEvidence_filter: DisputeEvidence_filter;
+  ServiceExecutionResolved: ServiceExecutionResolved;
+  ServiceExecutionResolved_filter: ServiceExecutionResolved_filter;
+  ServiceExecutionValidated: ServiceExecutionValidated;
+  ServiceExecutionValidated_filter: ServiceExecutionValidated_filter;
+  ServiceUpdated: ServiceUpdated;
+  ServiceUpdated_filter: ServiceUpdated_filter;
+  Arbiter: Arbiter;
+  Arbiter_filter: Arbiter_filter;
+  ArbitrationSettings: ArbitrationSettings;
+  ArbitrationSettings_filter: ArbitrationSettings_filter;
+  DisputeVote: DisputeVote;
+  DisputeVote_filter: DisputeVote_filter;
+  ArbiterAdded: ArbiterAdded;
+  ArbiterAdded_filter: ArbiterAdded_filter;
+  ArbiterRemoved: ArbiterRemoved;
+  ArbiterRemoved_filter: ArbiterRemoved_filter;
+  ArbitrationSettingsUpdated: ArbitrationSettingsUpdated;
+  ArbitrationSettingsUpdated_filter: ArbitrationSettingsUpdated_filter;
+  DisputeVotesTallied: DisputeVotesTallied;
+  DisputeVotesTallied_filter: DisputeVotesTallied_filter;
+  Query: {};
+  ID: Scalars['ID']['output'];
+  Subscription: {};
+}>;
+
+export type entityDirectiveArgs = { };
+
+export type entityDirectiveResolver<Result, Parent, ContextType = MeshContext, Args = entityDirectiveArgs> = DirectiveResolverFn<Result, Parent, ContextType, Args>;
+
+export type subgraphIdDirectiveArgs = {
+  id: Scalars['String']['input'];
+};
+
+export type subgraphIdDirectiveResolver<Result, Parent, ContextType = MeshContext, Args = subgraphIdDirectiveArgs> = DirectiveResolverFn<Result, Parent, ContextType, Args>;
+
+export type derivedFromDirectiveArgs = {
+  field: Scalars['String']['input'];
+};
+
+export type derivedFromDirectiveResolver<Result, Parent, ContextType = MeshContext, Args = derivedFromDirectiveArgs> = DirectiveResolverFn<Result, Parent, ContextType, Args>;
+
+export interface BigDecimalScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['BigDecimal'], any> {
+  name: 'BigDecimal';
+}
+
+export interface BigIntScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['BigInt'], any> {
+  name: 'BigInt';
+}
+
+export interface BytesScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['Bytes'], any> {
+  name: 'Bytes';
+}
+
+export interface Int8ScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['Int8'], any> {
+  name: 'Int8';
+}
+
+export type _Block_Resolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['_Block_'] = ResolversParentTypes['_Block_']> = ResolversObject<{
+  hash?: Resolver<Maybe<ResolversTypes['Bytes']>, ParentType, ContextType>;
+  number?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  timestamp?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type _Meta_Resolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['_Meta_'] = ResolversParentTypes['_Meta_']> = ResolversObject<{
+  block?: Resolver<ResolversTypes['_Block_'], ParentType, ContextType>;
+  deployment?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  hasIndexingErrors?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type CreatorResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Creator'] = ResolversParentTypes['Creator']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  totalFeesAccrued?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  totalFeesClaimed?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  claimableFeeBalance?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  visibilities?: Resolver<Array<ResolversTypes['Visibility']>, ParentType, ContextType, RequireFields<CreatorvisibilitiesArgs, 'skip' | 'first'>>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Visibility'] = ResolversParentTypes['Visibility']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  platform?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  handle?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  creator?: Resolver<Maybe<ResolversTypes['Creator']>, ParentType, ContextType>;
+  currentPrice?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  totalSupply?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  creatorFeesAccrued?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  creatorFeesClaimed?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  claimableFeeBalance?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  curveA?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  curveB?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  curveBasePrice?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  balances?: Resolver<Array<ResolversTypes['VisibilityBalance']>, ParentType, ContextType, RequireFields<VisibilitybalancesArgs, 'skip' | 'first'>>;
+  operatorApprovals?: Resolver<Array<ResolversTypes['OperatorApproval']>, ParentType, ContextType, RequireFields<VisibilityoperatorApprovalsArgs, 'skip' | 'first'>>;
+  trades?: Resolver<Array<ResolversTypes['CreditsTrade']>, ParentType, ContextType, RequireFields<VisibilitytradesArgs, 'skip' | 'first'>>;
+  services?: Resolver<Array<ResolversTypes['VisibilityService']>, ParentType, ContextType, RequireFields<VisibilityservicesArgs, 'skip' | 'first'>>;
+  candles?: Resolver<Array<ResolversTypes['VisibilityCandle']>, ParentType, ContextType, RequireFields<VisibilitycandlesArgs, 'skip' | 'first'>>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityBalanceResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityBalance'] = ResolversParentTypes['VisibilityBalance']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  visibility?: Resolver<ResolversTypes['Visibility'], ParentType, ContextType>;
+  user?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  balance?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  costBasis?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  averageEntryCost?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  realizedPnl?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  totalFeesPaid?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type OperatorApprovalResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['OperatorApproval'] = ResolversParentTypes['OperatorApproval']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  visibility?: Resolver<ResolversTypes['Visibility'], ParentType, ContextType>;
+  owner?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  operator?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  approved?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServiceResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityService'] = ResolversParentTypes['VisibilityService']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  visibility?: Resolver<ResolversTypes['Visibility'], ParentType, ContextType>;
+  serviceType?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  creditsCostAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  enabled?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  metadataURI?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  maxOpenExecutions?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  acceptanceDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  validationDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executions?: Resolver<Array<ResolversTypes['VisibilityServiceExecution']>, ParentType, ContextType, RequireFields<VisibilityServiceexecutionsArgs, 'skip' | 'first'>>;
+  updates?: Resolver<Array<ResolversTypes['ServiceUpdated']>, ParentType, ContextType, RequireFields<VisibilityServiceupdatesArgs, 'skip' | 'first'>>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServiceExecutionResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityServiceExecution'] = ResolversParentTypes['VisibilityServiceExecution']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  state?: Resolver<ResolversTypes['ExecutionState'], ParentType, ContextType>;
+  service?: Resolver<ResolversTypes['VisibilityService'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  requester?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  creditsCostAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  acceptanceDeadline?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  autoValidationTimestamp?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  disputeDeadline?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  requestData?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  responseData?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  cancelData?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  disputeData?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  resolveData?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  refundBps?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  refundAmount?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  creatorAmount?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  disputeBondAmount?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  disputeBondRequesterAmount?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  disputeBondCreatorAmount?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  arbitrationVotes?: Resolver<Array<ResolversTypes['DisputeVote']>, ParentType, ContextType, RequireFields<VisibilityServiceExecutionarbitrationVotesArgs, 'skip' | 'first'>>;
+  arbitrationRefundBps?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  evidence?: Resolver<Array<ResolversTypes['DisputeEvidence']>, ParentType, ContextType, RequireFields<VisibilityServiceExecutionevidenceArgs, 'skip' | 'first'>>;
+  evidenceCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  lastUpdated?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ReferrerResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Referrer'] = ResolversParentTypes['Referrer']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  totalVolume?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  totalFeesEarned?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  totalFeesClaimed?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  claimableFeeBalance?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  referredTraderCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  visibilities?: Resolver<Array<ResolversTypes['ReferrerVisibility']>, ParentType, ContextType, RequireFields<ReferrervisibilitiesArgs, 'skip' | 'first'>>;
+  referredTraders?: Resolver<Array<ResolversTypes['ReferredTrader']>, ParentType, ContextType, RequireFields<ReferrerreferredTradersArgs, 'skip' | 'first'>>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ReferrerVisibilityResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ReferrerVisibility'] = ResolversParentTypes['ReferrerVisibility']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  referrer?: Resolver<ResolversTypes['Referrer'], ParentType, ContextType>;
+  visibility?: Resolver<ResolversTypes['Visibility'], ParentType, ContextType>;
+  volume?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  feesEarned?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ReferredTraderResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ReferredTrader'] = ResolversParentTypes['ReferredTrader']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  referrer?: Resolver<ResolversTypes['Referrer'], ParentType, ContextType>;
+  trader?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  volume?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityCandleResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityCandle'] = ResolversParentTypes['VisibilityCandle']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  visibility?: Resolver<ResolversTypes['Visibility'], ParentType, ContextType>;
+  interval?: Resolver<ResolversTypes['CandleInterval'], ParentType, ContextType>;
+  periodStart?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  open?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  high?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  low?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  close?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  buyVolumeCredits?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  sellVolumeCredits?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  buyVolumeWei?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  sellVolumeWei?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  creatorFees?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  protocolFees?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  referrerFees?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ProtocolTreasuryResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ProtocolTreasury'] = ResolversParentTypes['ProtocolTreasury']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  totalFeesAccrued?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  totalFeesClaimed?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  claimableFeeBalance?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type CreatorFeeClaimedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['CreatorFeeClaimed'] = ResolversParentTypes['CreatorFeeClaimed']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  creator?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  visibilityId?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  amount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ProtocolFeesClaimedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ProtocolFeesClaimed'] = ResolversParentTypes['ProtocolFeesClaimed']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  treasury?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  amount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ReferrerFeesClaimedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ReferrerFeesClaimed'] = ResolversParentTypes['ReferrerFeesClaimed']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  referrer?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  amount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type OperatorApprovalSetResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['OperatorApprovalSet'] = ResolversParentTypes['OperatorApprovalSet']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  visibilityId?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  owner?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  operator?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  approved?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type CreatorVisibilitySetResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['CreatorVisibilitySet'] = ResolversParentTypes['CreatorVisibilitySet']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  visibilityId?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  creator?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type CurveSetResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['CurveSet'] = ResolversParentTypes['CurveSet']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  visibilityId?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  a?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  b?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  basePrice?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type PlatformResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Platform'] = ResolversParentTypes['Platform']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  enabled?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  lowercase?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  minHandleLength?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  maxHandleLength?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  allowedSymbols?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type PlatformSetResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['PlatformSet'] = ResolversParentTypes['PlatformSet']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  prefix?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  rules_enabled?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  rules_lowercase?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  rules_minHandleLength?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  rules_maxHandleLength?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  rules_allowedSymbols?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type FeeScheduleResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['FeeSchedule'] = ResolversParentTypes['FeeSchedule']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  creatorFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  protocolFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  referrerFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  pendingChange?: Resolver<Maybe<ResolversTypes['FeeChange']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type FeeChangeResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['FeeChange'] = ResolversParentTypes['FeeChange']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  creatorFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  protocolFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  referrerFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['FeeChangeStatus'], ParentType, ContextType>;
+  effectSchedule?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  scheduledAt?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  canceledAt?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  appliedAt?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type CreditsTradeResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['CreditsTrade'] = ResolversParentTypes['CreditsTrade']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  tradeEvent_from?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  visibility?: Resolver<ResolversTypes['Visibility'], ParentType, ContextType>;
+  tradeEvent_amount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeEvent_isBuy?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  tradeEvent_tradeCost?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeEvent_creatorFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeEvent_protocolFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeEvent_referrerFee?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeEvent_referrer?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  tradeEvent_newTotalSupply?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  tradeEvent_newCurrentPrice?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type CreditsTransferResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['CreditsTransfer'] = ResolversParentTypes['CreditsTransfer']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  visibility?: Resolver<ResolversTypes['Visibility'], ParentType, ContextType>;
+  from?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  to?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  amount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type DefaultAdminDelayChangeCanceledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DefaultAdminDelayChangeCanceled'] = ResolversParentTypes['DefaultAdminDelayChangeCanceled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type DefaultAdminDelayChangeScheduledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DefaultAdminDelayChangeScheduled'] = ResolversParentTypes['DefaultAdminDelayChangeScheduled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  newDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  effectSchedule?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type DefaultAdminTransferCanceledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DefaultAdminTransferCanceled'] = ResolversParentTypes['DefaultAdminTransferCanceled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type DefaultAdminTransferScheduledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DefaultAdminTransferScheduled'] = ResolversParentTypes['DefaultAdminTransferScheduled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  newAdmin?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  acceptSchedule?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type RoleAdminChangedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['RoleAdminChanged'] = ResolversParentTypes['RoleAdminChanged']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  previousAdminRole?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  newAdminRole?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type RoleGrantedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['RoleGranted'] = ResolversParentTypes['RoleGranted']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  account?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  sender?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type RoleRevokedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['RoleRevoked'] = ResolversParentTypes['RoleRevoked']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  account?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  sender?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServicesDefaultAdminDelayChangeCanceledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityServicesDefaultAdminDelayChangeCanceled'] = ResolversParentTypes['VisibilityServicesDefaultAdminDelayChangeCanceled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServicesDefaultAdminDelayChangeScheduledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityServicesDefaultAdminDelayChangeScheduled'] = ResolversParentTypes['VisibilityServicesDefaultAdminDelayChangeScheduled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  newDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  effectSchedule?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServicesDefaultAdminTransferCanceledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityServicesDefaultAdminTransferCanceled'] = ResolversParentTypes['VisibilityServicesDefaultAdminTransferCanceled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServicesDefaultAdminTransferScheduledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityServicesDefaultAdminTransferScheduled'] = ResolversParentTypes['VisibilityServicesDefaultAdminTransferScheduled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  newAdmin?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  acceptSchedule?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServicesRoleAdminChangedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityServicesRoleAdminChanged'] = ResolversParentTypes['VisibilityServicesRoleAdminChanged']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  previousAdminRole?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  newAdminRole?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServicesRoleGrantedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityServicesRoleGranted'] = ResolversParentTypes['VisibilityServicesRoleGranted']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  account?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  sender?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type VisibilityServicesRoleRevokedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['VisibilityServicesRoleRevoked'] = ResolversParentTypes['VisibilityServicesRoleRevoked']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  account?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  sender?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ServiceCreatedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceCreated'] = ResolversParentTypes['ServiceCreated']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  nonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  serviceType?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  visibility?: Resolver<ResolversTypes['Visibility'], ParentType, ContextType>;
+  creditsCostAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  validationDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  acceptanceDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ServiceExecutionAcceptedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceExecutionAccepted'] = ResolversParentTypes['ServiceExecutionAccepted']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  responseData?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ServiceExecutionCanceledResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceExecutionCanceled'] = ResolversParentTypes['ServiceExecutionCanceled']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  from?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  cancelData?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
 }>;
 
-/** Mapping between all available schema types and the resolvers parents */
-export type ResolversParentTypes = ResolversObject<{
-  BigDecimal: Scalars['BigDecimal']['output'];
-  BigInt: Scalars['BigInt']['output'];
-  BlockChangedFilter: BlockChangedFilter;
-  Block_height: Block_height;
-  Boolean: Scalars['Boolean']['output'];
-  Bytes: Scalars['Bytes']['output'];
-  Float: Scalars['Float']['output'];
-  Greeting: Greeting;
-  Greeting_filter: Greeting_filter;
-  ID: Scalars['ID']['output'];
-  Int: Scalars['Int']['output'];
-  Int8: Scalars['Int8']['output'];
-  Query: {};
-  Sender: Sender;
-  Sender_filter: Sender_filter;
-  String: Scalars['String']['output'];
-  Subscription: {};
-  _Block_: _Block_;
-  _Meta_: _Meta_;
+export type DisputeSettingsResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DisputeSettings'] = ResolversParentTypes['DisputeSettings']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  disputeResolutionDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  defaultRefundBps?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  disputeBondBps?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
 }>;
 
-export type entityDirectiveArgs = { };
+export type DisputeBondUpdatedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DisputeBondUpdated'] = ResolversParentTypes['DisputeBondUpdated']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  disputeBondBps?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export type entityDirectiveResolver<Result, Parent, ContextType = MeshContext, Args = entityDirectiveArgs> = DirectiveResolverFn<Result, Parent, ContextType, Args>;
+export type DisputeBondPostedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DisputeBondPosted'] = ResolversParentTypes['DisputeBondPosted']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  bondAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export type subgraphIdDirectiveArgs = {
-  id: Scalars['String']['input'];
-};
+export type DisputeBondReleasedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DisputeBondReleased'] = ResolversParentTypes['DisputeBondReleased']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  requesterAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  creatorAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export type subgraphIdDirectiveResolver<Result, Parent, ContextType = MeshContext, Args = subgraphIdDirectiveArgs> = DirectiveResolverFn<Result, Parent, ContextType, Args>;
+export type DisputeDefaultsUpdatedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DisputeDefaultsUpdated'] = ResolversParentTypes['DisputeDefaultsUpdated']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  disputeResolutionDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  defaultRefundBps?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export type derivedFromDirectiveArgs = {
-  field: Scalars['String']['input'];
-};
+export type ServiceExecutionDisputeDefaultedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceExecutionDisputeDefaulted'] = ResolversParentTypes['ServiceExecutionDisputeDefaulted']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  from?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  refundBps?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  refundAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  creatorAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export type derivedFromDirectiveResolver<Result, Parent, ContextType = MeshContext, Args = derivedFromDirectiveArgs> = DirectiveResolverFn<Result, Parent, ContextType, Args>;
+export type ServiceExecutionExpiredResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceExecutionExpired'] = ResolversParentTypes['ServiceExecutionExpired']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export interface BigDecimalScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['BigDecimal'], any> {
-  name: 'BigDecimal';
-}
+export type ServiceExecutionDisputedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceExecutionDisputed'] = ResolversParentTypes['ServiceExecutionDisputed']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  disputeData?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export interface BigIntScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['BigInt'], any> {
-  name: 'BigInt';
-}
+export type ServiceExecutionRequestedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceExecutionRequested'] = ResolversParentTypes['ServiceExecutionRequested']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  requester?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  requestData?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export interface BytesScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['Bytes'], any> {
-  name: 'Bytes';
-}
+export type DisputeEvidenceResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DisputeEvidence'] = ResolversParentTypes['DisputeEvidence']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  execution?: Resolver<ResolversTypes['VisibilityServiceExecution'], ParentType, ContextType>;
+  index?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  from?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  party?: Resolver<ResolversTypes['DisputeParty'], ParentType, ContextType>;
+  evidence?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export type GreetingResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Greeting'] = ResolversParentTypes['Greeting']> = ResolversObject<{
-  id?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
-  sender?: Resolver<ResolversTypes['Sender'], ParentType, ContextType>;
-  greeting?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
-  premium?: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>;
-  value?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
-  createdAt?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
-  transactionHash?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+export type ServiceExecutionResolvedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceExecutionResolved'] = ResolversParentTypes['ServiceExecutionResolved']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  refundBps?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  refundAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  creatorAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  resolveData?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
   __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
 }>;
 
-export interface Int8ScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['Int8'], any> {
-  name: 'Int8';
-}
+export type ServiceExecutionValidatedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceExecutionValidated'] = ResolversParentTypes['ServiceExecutionValidated']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
 
-export type QueryResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Query'] = ResolversParentTypes['Query']> = ResolversObject<{
-  greeting?: Resolver<Maybe<ResolversTypes['Greeting']>, ParentType, ContextType, RequireFields<QuerygreetingArgs, 'id' | 'subgraphError'>>;
-  greetings?: Resolver<Array<ResolversTypes['Greeting']>, ParentType, ContextType, RequireFields<QuerygreetingsArgs, 'skip' | 'first' | 'subgraphError'>>;
-  sender?: Resolver<Maybe<ResolversTypes['Sender']>, ParentType, ContextType, RequireFields<QuerysenderArgs, 'id' | 'subgraphError'>>;
-  senders?: Resolver<Array<ResolversTypes['Sender']>, ParentType, ContextType, RequireFields<QuerysendersArgs, 'skip' | 'first' | 'subgraphError'>>;
-  _meta?: Resolver<Maybe<ResolversTypes['_Meta_']>, ParentType, ContextType, Partial<Query_metaArgs>>;
+export type ServiceUpdatedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ServiceUpdated'] = ResolversParentTypes['ServiceUpdated']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  nonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  service?: Resolver<ResolversTypes['VisibilityService'], ParentType, ContextType>;
+  enabled?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  creditsCostAmount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  metadataURI?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  maxOpenExecutions?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  acceptanceDelay?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
 }>;
 
-export type SenderResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Sender'] = ResolversParentTypes['Sender']> = ResolversObject<{
-  id?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+export type ArbiterResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Arbiter'] = ResolversParentTypes['Arbiter']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  arbitration?: Resolver<ResolversTypes['ArbitrationSettings'], ParentType, ContextType>;
   address?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
-  greetings?: Resolver<Maybe<Array<ResolversTypes['Greeting']>>, ParentType, ContextType, RequireFields<SendergreetingsArgs, 'skip' | 'first'>>;
-  createdAt?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
-  greetingCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  active?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  addedAt?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  removedAt?: Resolver<Maybe<ResolversTypes['BigInt']>, ParentType, ContextType>;
+  votes?: Resolver<Array<ResolversTypes['DisputeVote']>, ParentType, ContextType, RequireFields<ArbitervotesArgs, 'skip' | 'first'>>;
   __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
 }>;
 
-export type SubscriptionResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Subscription'] = ResolversParentTypes['Subscription']> = ResolversObject<{
-  greeting?: SubscriptionResolver<Maybe<ResolversTypes['Greeting']>, "greeting", ParentType, ContextType, RequireFields<SubscriptiongreetingArgs, 'id' | 'subgraphError'>>;
-  greetings?: SubscriptionResolver<Array<ResolversTypes['Greeting']>, "greetings", ParentType, ContextType, RequireFields<SubscriptiongreetingsArgs, 'skip' | 'first' | 'subgraphError'>>;
-  sender?: SubscriptionResolver<Maybe<ResolversTypes['Sender']>, "sender", ParentType, ContextType, RequireFields<SubscriptionsenderArgs, 'id' | 'subgraphError'>>;
-  senders?: SubscriptionResolver<Array<ResolversTypes['Sender']>, "senders", ParentType, ContextType, RequireFields<SubscriptionsendersArgs, 'skip' | 'first' | 'subgraphError'>>;
-  _meta?: SubscriptionResolver<Maybe<ResolversTypes['_Meta_']>, "_meta", ParentType, ContextType, Partial<Subscription_metaArgs>>;
+export type ArbitrationSettingsResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ArbitrationSettings'] = ResolversParentTypes['ArbitrationSettings']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  active?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  quorum?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  votingPeriod?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  arbitersCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  arbiters?: Resolver<Array<ResolversTypes['Arbiter']>, ParentType, ContextType, RequireFields<ArbitrationSettingsarbitersArgs, 'skip' | 'first'>>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
 }>;
 
-export type _Block_Resolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['_Block_'] = ResolversParentTypes['_Block_']> = ResolversObject<{
-  hash?: Resolver<Maybe<ResolversTypes['Bytes']>, ParentType, ContextType>;
-  number?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
-  timestamp?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+export type DisputeVoteResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DisputeVote'] = ResolversParentTypes['DisputeVote']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  execution?: Resolver<ResolversTypes['VisibilityServiceExecution'], ParentType, ContextType>;
+  arbiter?: Resolver<ResolversTypes['Arbiter'], ParentType, ContextType>;
+  refundBps?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  reason?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
   __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
 }>;
 
-export type _Meta_Resolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['_Meta_'] = ResolversParentTypes['_Meta_']> = ResolversObject<{
-  block?: Resolver<ResolversTypes['_Block_'], ParentType, ContextType>;
-  deployment?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
-  hasIndexingErrors?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+export type ArbiterAddedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ArbiterAdded'] = ResolversParentTypes['ArbiterAdded']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  arbiter?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ArbiterRemovedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ArbiterRemoved'] = ResolversParentTypes['ArbiterRemoved']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  arbiter?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ArbitrationSettingsUpdatedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['ArbitrationSettingsUpdated'] = ResolversParentTypes['ArbitrationSettingsUpdated']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  quorum?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  votingPeriod?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type DisputeVotesTalliedResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['DisputeVotesTallied'] = ResolversParentTypes['DisputeVotesTallied']> = ResolversObject<{
+  id?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
+  serviceNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  executionNonce?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  votesCount?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  refundBps?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockNumber?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  blockTimestamp?: Resolver<ResolversTypes['BigInt'], ParentType, ContextType>;
+  transactionHash?: Resolver<ResolversTypes['Bytes'], ParentType, ContextType>;
   __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
 }>;
 
+export type QueryResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Query'] = ResolversParentTypes['Query']> = ResolversObject<{
+  creator?: Resolver<Maybe<ResolversTypes['Creator']>, ParentType, ContextType, RequireFields<QuerycreatorArgs, 'id' | 'subgraphError'>>;
+  creators?: Resolver<Array<ResolversTypes['Creator']>, ParentType, ContextType, RequireFields<QuerycreatorsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibility?: Resolver<Maybe<ResolversTypes['Visibility']>, ParentType, ContextType, RequireFields<QueryvisibilityArgs, 'id' | 'subgraphError'>>;
+  visibilities?: Resolver<Array<ResolversTypes['Visibility']>, ParentType, ContextType, RequireFields<QueryvisibilitiesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityBalance?: Resolver<Maybe<ResolversTypes['VisibilityBalance']>, ParentType, ContextType, RequireFields<QueryvisibilityBalanceArgs, 'id' | 'subgraphError'>>;
+  visibilityBalances?: Resolver<Array<ResolversTypes['VisibilityBalance']>, ParentType, ContextType, RequireFields<QueryvisibilityBalancesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  operatorApproval?: Resolver<Maybe<ResolversTypes['OperatorApproval']>, ParentType, ContextType, RequireFields<QueryoperatorApprovalArgs, 'id' | 'subgraphError'>>;
+  operatorApprovals?: Resolver<Array<ResolversTypes['OperatorApproval']>, ParentType, ContextType, RequireFields<QueryoperatorApprovalsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityService?: Resolver<Maybe<ResolversTypes['VisibilityService']>, ParentType, ContextType, RequireFields<QueryvisibilityServiceArgs, 'id' | 'subgraphError'>>;
+  visibilityServices?: Resolver<Array<ResolversTypes['VisibilityService']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServiceExecution?: Resolver<Maybe<ResolversTypes['VisibilityServiceExecution']>, ParentType, ContextType, RequireFields<QueryvisibilityServiceExecutionArgs, 'id' | 'subgraphError'>>;
+  visibilityServiceExecutions?: Resolver<Array<ResolversTypes['VisibilityServiceExecution']>, ParentType, ContextType, RequireFields<QueryvisibilityServiceExecutionsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  referrer?: Resolver<Maybe<ResolversTypes['Referrer']>, ParentType, ContextType, RequireFields<QueryreferrerArgs, 'id' | 'subgraphError'>>;
+  referrers?: Resolver<Array<ResolversTypes['Referrer']>, ParentType, ContextType, RequireFields<QueryreferrersArgs, 'skip' | 'first' | 'subgraphError'>>;
+  referrerVisibility?: Resolver<Maybe<ResolversTypes['ReferrerVisibility']>, ParentType, ContextType, RequireFields<QueryreferrerVisibilityArgs, 'id' | 'subgraphError'>>;
+  referrerVisibilities?: Resolver<Array<ResolversTypes['ReferrerVisibility']>, ParentType, ContextType, RequireFields<QueryreferrerVisibilitiesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  referredTrader?: Resolver<Maybe<ResolversTypes['ReferredTrader']>, ParentType, ContextType, RequireFields<QueryreferredTraderArgs, 'id' | 'subgraphError'>>;
+  referredTraders?: Resolver<Array<ResolversTypes['ReferredTrader']>, ParentType, ContextType, RequireFields<QueryreferredTradersArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityCandle?: Resolver<Maybe<ResolversTypes['VisibilityCandle']>, ParentType, ContextType, RequireFields<QueryvisibilityCandleArgs, 'id' | 'subgraphError'>>;
+  visibilityCandles?: Resolver<Array<ResolversTypes['VisibilityCandle']>, ParentType, ContextType, RequireFields<QueryvisibilityCandlesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  protocolTreasury?: Resolver<Maybe<ResolversTypes['ProtocolTreasury']>, ParentType, ContextType, RequireFields<QueryprotocolTreasuryArgs, 'id' | 'subgraphError'>>;
+  protocolTreasuries?: Resolver<Array<ResolversTypes['ProtocolTreasury']>, ParentType, ContextType, RequireFields<QueryprotocolTreasuriesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  creatorFeeClaimed?: Resolver<Maybe<ResolversTypes['CreatorFeeClaimed']>, ParentType, ContextType, RequireFields<QuerycreatorFeeClaimedArgs, 'id' | 'subgraphError'>>;
+  creatorFeeClaimeds?: Resolver<Array<ResolversTypes['CreatorFeeClaimed']>, ParentType, ContextType, RequireFields<QuerycreatorFeeClaimedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  protocolFeesClaimed?: Resolver<Maybe<ResolversTypes['ProtocolFeesClaimed']>, ParentType, ContextType, RequireFields<QueryprotocolFeesClaimedArgs, 'id' | 'subgraphError'>>;
+  protocolFeesClaimeds?: Resolver<Array<ResolversTypes['ProtocolFeesClaimed']>, ParentType, ContextType, RequireFields<QueryprotocolFeesClaimedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  referrerFeesClaimed?: Resolver<Maybe<ResolversTypes['ReferrerFeesClaimed']>, ParentType, ContextType, RequireFields<QueryreferrerFeesClaimedArgs, 'id' | 'subgraphError'>>;
+  referrerFeesClaimeds?: Resolver<Array<ResolversTypes['ReferrerFeesClaimed']>, ParentType, ContextType, RequireFields<QueryreferrerFeesClaimedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  operatorApprovalSet?: Resolver<Maybe<ResolversTypes['OperatorApprovalSet']>, ParentType, ContextType, RequireFields<QueryoperatorApprovalSetArgs, 'id' | 'subgraphError'>>;
+  operatorApprovalSets?: Resolver<Array<ResolversTypes['OperatorApprovalSet']>, ParentType, ContextType, RequireFields<QueryoperatorApprovalSetsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  creatorVisibilitySet?: Resolver<Maybe<ResolversTypes['CreatorVisibilitySet']>, ParentType, ContextType, RequireFields<QuerycreatorVisibilitySetArgs, 'id' | 'subgraphError'>>;
+  creatorVisibilitySets?: Resolver<Array<ResolversTypes['CreatorVisibilitySet']>, ParentType, ContextType, RequireFields<QuerycreatorVisibilitySetsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  curveSet?: Resolver<Maybe<ResolversTypes['CurveSet']>, ParentType, ContextType, RequireFields<QuerycurveSetArgs, 'id' | 'subgraphError'>>;
+  curveSets?: Resolver<Array<ResolversTypes['CurveSet']>, ParentType, ContextType, RequireFields<QuerycurveSetsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  platform?: Resolver<Maybe<ResolversTypes['Platform']>, ParentType, ContextType, RequireFields<QueryplatformArgs, 'id' | 'subgraphError'>>;
+  platforms?: Resolver<Array<ResolversTypes['Platform']>, ParentType, ContextType, RequireFields<QueryplatformsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  platformSet?: Resolver<Maybe<ResolversTypes['PlatformSet']>, ParentType, ContextType, RequireFields<QueryplatformSetArgs, 'id' | 'subgraphError'>>;
+  platformSets?: Resolver<Array<ResolversTypes['PlatformSet']>, ParentType, ContextType, RequireFields<QueryplatformSetsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  feeSchedule?: Resolver<Maybe<ResolversTypes['FeeSchedule']>, ParentType, ContextType, RequireFields<QueryfeeScheduleArgs, 'id' | 'subgraphError'>>;
+  feeSchedules?: Resolver<Array<ResolversTypes['FeeSchedule']>, ParentType, ContextType, RequireFields<QueryfeeSchedulesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  feeChange?: Resolver<Maybe<ResolversTypes['FeeChange']>, ParentType, ContextType, RequireFields<QueryfeeChangeArgs, 'id' | 'subgraphError'>>;
+  feeChanges?: Resolver<Array<ResolversTypes['FeeChange']>, ParentType, ContextType, RequireFields<QueryfeeChangesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  creditsTrade?: Resolver<Maybe<ResolversTypes['CreditsTrade']>, ParentType, ContextType, RequireFields<QuerycreditsTradeArgs, 'id' | 'subgraphError'>>;
+  creditsTrades?: Resolver<Array<ResolversTypes['CreditsTrade']>, ParentType, ContextType, RequireFields<QuerycreditsTradesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  creditsTransfer?: Resolver<Maybe<ResolversTypes['CreditsTransfer']>, ParentType, ContextType, RequireFields<QuerycreditsTransferArgs, 'id' | 'subgraphError'>>;
+  creditsTransfers?: Resolver<Array<ResolversTypes['CreditsTransfer']>, ParentType, ContextType, RequireFields<QuerycreditsTransfersArgs, 'skip' | 'first' | 'subgraphError'>>;
+  defaultAdminDelayChangeCanceled?: Resolver<Maybe<ResolversTypes['DefaultAdminDelayChangeCanceled']>, ParentType, ContextType, RequireFields<QuerydefaultAdminDelayChangeCanceledArgs, 'id' | 'subgraphError'>>;
+  defaultAdminDelayChangeCanceleds?: Resolver<Array<ResolversTypes['DefaultAdminDelayChangeCanceled']>, ParentType, ContextType, RequireFields<QuerydefaultAdminDelayChangeCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  defaultAdminDelayChangeScheduled?: Resolver<Maybe<ResolversTypes['DefaultAdminDelayChangeScheduled']>, ParentType, ContextType, RequireFields<QuerydefaultAdminDelayChangeScheduledArgs, 'id' | 'subgraphError'>>;
+  defaultAdminDelayChangeScheduleds?: Resolver<Array<ResolversTypes['DefaultAdminDelayChangeScheduled']>, ParentType, ContextType, RequireFields<QuerydefaultAdminDelayChangeScheduledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  defaultAdminTransferCanceled?: Resolver<Maybe<ResolversTypes['DefaultAdminTransferCanceled']>, ParentType, ContextType, RequireFields<QuerydefaultAdminTransferCanceledArgs, 'id' | 'subgraphError'>>;
+  defaultAdminTransferCanceleds?: Resolver<Array<ResolversTypes['DefaultAdminTransferCanceled']>, ParentType, ContextType, RequireFields<QuerydefaultAdminTransferCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  defaultAdminTransferScheduled?: Resolver<Maybe<ResolversTypes['DefaultAdminTransferScheduled']>, ParentType, ContextType, RequireFields<QuerydefaultAdminTransferScheduledArgs, 'id' | 'subgraphError'>>;
+  defaultAdminTransferScheduleds?: Resolver<Array<ResolversTypes['DefaultAdminTransferScheduled']>, ParentType, ContextType, RequireFields<QuerydefaultAdminTransferScheduledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  roleAdminChanged?: Resolver<Maybe<ResolversTypes['RoleAdminChanged']>, ParentType, ContextType, RequireFields<QueryroleAdminChangedArgs, 'id' | 'subgraphError'>>;
+  roleAdminChangeds?: Resolver<Array<ResolversTypes['RoleAdminChanged']>, ParentType, ContextType, RequireFields<QueryroleAdminChangedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  roleGranted?: Resolver<Maybe<ResolversTypes['RoleGranted']>, ParentType, ContextType, RequireFields<QueryroleGrantedArgs, 'id' | 'subgraphError'>>;
+  roleGranteds?: Resolver<Array<ResolversTypes['RoleGranted']>, ParentType, ContextType, RequireFields<QueryroleGrantedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  roleRevoked?: Resolver<Maybe<ResolversTypes['RoleRevoked']>, ParentType, ContextType, RequireFields<QueryroleRevokedArgs, 'id' | 'subgraphError'>>;
+  roleRevokeds?: Resolver<Array<ResolversTypes['RoleRevoked']>, ParentType, ContextType, RequireFields<QueryroleRevokedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminDelayChangeCanceled?: Resolver<Maybe<ResolversTypes['VisibilityServicesDefaultAdminDelayChangeCanceled']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesDefaultAdminDelayChangeCanceledArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminDelayChangeCanceleds?: Resolver<Array<ResolversTypes['VisibilityServicesDefaultAdminDelayChangeCanceled']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesDefaultAdminDelayChangeCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminDelayChangeScheduled?: Resolver<Maybe<ResolversTypes['VisibilityServicesDefaultAdminDelayChangeScheduled']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesDefaultAdminDelayChangeScheduledArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminDelayChangeScheduleds?: Resolver<Array<ResolversTypes['VisibilityServicesDefaultAdminDelayChangeScheduled']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesDefaultAdminDelayChangeScheduledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminTransferCanceled?: Resolver<Maybe<ResolversTypes['VisibilityServicesDefaultAdminTransferCanceled']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesDefaultAdminTransferCanceledArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminTransferCanceleds?: Resolver<Array<ResolversTypes['VisibilityServicesDefaultAdminTransferCanceled']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesDefaultAdminTransferCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminTransferScheduled?: Resolver<Maybe<ResolversTypes['VisibilityServicesDefaultAdminTransferScheduled']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesDefaultAdminTransferScheduledArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminTransferScheduleds?: Resolver<Array<ResolversTypes['VisibilityServicesDefaultAdminTransferScheduled']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesDefaultAdminTransferScheduledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesRoleAdminChanged?: Resolver<Maybe<ResolversTypes['VisibilityServicesRoleAdminChanged']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesRoleAdminChangedArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesRoleAdminChangeds?: Resolver<Array<ResolversTypes['VisibilityServicesRoleAdminChanged']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesRoleAdminChangedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesRoleGranted?: Resolver<Maybe<ResolversTypes['VisibilityServicesRoleGranted']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesRoleGrantedArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesRoleGranteds?: Resolver<Array<ResolversTypes['VisibilityServicesRoleGranted']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesRoleGrantedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesRoleRevoked?: Resolver<Maybe<ResolversTypes['VisibilityServicesRoleRevoked']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesRoleRevokedArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesRoleRevokeds?: Resolver<Array<ResolversTypes['VisibilityServicesRoleRevoked']>, ParentType, ContextType, RequireFields<QueryvisibilityServicesRoleRevokedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceCreated?: Resolver<Maybe<ResolversTypes['ServiceCreated']>, ParentType, ContextType, RequireFields<QueryserviceCreatedArgs, 'id' | 'subgraphError'>>;
+  serviceCreateds?: Resolver<Array<ResolversTypes['ServiceCreated']>, ParentType, ContextType, RequireFields<QueryserviceCreatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionAccepted?: Resolver<Maybe<ResolversTypes['ServiceExecutionAccepted']>, ParentType, ContextType, RequireFields<QueryserviceExecutionAcceptedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionAccepteds?: Resolver<Array<ResolversTypes['ServiceExecutionAccepted']>, ParentType, ContextType, RequireFields<QueryserviceExecutionAcceptedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionCanceled?: Resolver<Maybe<ResolversTypes['ServiceExecutionCanceled']>, ParentType, ContextType, RequireFields<QueryserviceExecutionCanceledArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionCanceleds?: Resolver<Array<ResolversTypes['ServiceExecutionCanceled']>, ParentType, ContextType, RequireFields<QueryserviceExecutionCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeSettings?: Resolver<Maybe<ResolversTypes['DisputeSettings']>, ParentType, ContextType, RequireFields<QuerydisputeSettingsArgs, 'id' | 'subgraphError'>>;
+  disputeSettingses?: Resolver<Array<ResolversTypes['DisputeSettings']>, ParentType, ContextType, RequireFields<QuerydisputeSettingsesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeBondUpdated?: Resolver<Maybe<ResolversTypes['DisputeBondUpdated']>, ParentType, ContextType, RequireFields<QuerydisputeBondUpdatedArgs, 'id' | 'subgraphError'>>;
+  disputeBondUpdateds?: Resolver<Array<ResolversTypes['DisputeBondUpdated']>, ParentType, ContextType, RequireFields<QuerydisputeBondUpdatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeBondPosted?: Resolver<Maybe<ResolversTypes['DisputeBondPosted']>, ParentType, ContextType, RequireFields<QuerydisputeBondPostedArgs, 'id' | 'subgraphError'>>;
+  disputeBondPosteds?: Resolver<Array<ResolversTypes['DisputeBondPosted']>, ParentType, ContextType, RequireFields<QuerydisputeBondPostedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeBondReleased?: Resolver<Maybe<ResolversTypes['DisputeBondReleased']>, ParentType, ContextType, RequireFields<QuerydisputeBondReleasedArgs, 'id' | 'subgraphError'>>;
+  disputeBondReleaseds?: Resolver<Array<ResolversTypes['DisputeBondReleased']>, ParentType, ContextType, RequireFields<QuerydisputeBondReleasedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeDefaultsUpdated?: Resolver<Maybe<ResolversTypes['DisputeDefaultsUpdated']>, ParentType, ContextType, RequireFields<QuerydisputeDefaultsUpdatedArgs, 'id' | 'subgraphError'>>;
+  disputeDefaultsUpdateds?: Resolver<Array<ResolversTypes['DisputeDefaultsUpdated']>, ParentType, ContextType, RequireFields<QuerydisputeDefaultsUpdatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionDisputeDefaulted?: Resolver<Maybe<ResolversTypes['ServiceExecutionDisputeDefaulted']>, ParentType, ContextType, RequireFields<QueryserviceExecutionDisputeDefaultedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionDisputeDefaulteds?: Resolver<Array<ResolversTypes['ServiceExecutionDisputeDefaulted']>, ParentType, ContextType, RequireFields<QueryserviceExecutionDisputeDefaultedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionExpired?: Resolver<Maybe<ResolversTypes['ServiceExecutionExpired']>, ParentType, ContextType, RequireFields<QueryserviceExecutionExpiredArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionExpireds?: Resolver<Array<ResolversTypes['ServiceExecutionExpired']>, ParentType, ContextType, RequireFields<QueryserviceExecutionExpiredsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionDisputed?: Resolver<Maybe<ResolversTypes['ServiceExecutionDisputed']>, ParentType, ContextType, RequireFields<QueryserviceExecutionDisputedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionDisputeds?: Resolver<Array<ResolversTypes['ServiceExecutionDisputed']>, ParentType, ContextType, RequireFields<QueryserviceExecutionDisputedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionRequested?: Resolver<Maybe<ResolversTypes['ServiceExecutionRequested']>, ParentType, ContextType, RequireFields<QueryserviceExecutionRequestedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionRequesteds?: Resolver<Array<ResolversTypes['ServiceExecutionRequested']>, ParentType, ContextType, RequireFields<QueryserviceExecutionRequestedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeEvidence?: Resolver<Maybe<ResolversTypes['DisputeEvidence']>, ParentType, ContextType, RequireFields<QuerydisputeEvidenceArgs, 'id' | 'subgraphError'>>;
+  disputeEvidences?: Resolver<Array<ResolversTypes['DisputeEvidence']>, ParentType, ContextType, RequireFields<QuerydisputeEvidencesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionResolved?: Resolver<Maybe<ResolversTypes['ServiceExecutionResolved']>, ParentType, ContextType, RequireFields<QueryserviceExecutionResolvedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionResolveds?: Resolver<Array<ResolversTypes['ServiceExecutionResolved']>, ParentType, ContextType, RequireFields<QueryserviceExecutionResolvedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionValidated?: Resolver<Maybe<ResolversTypes['ServiceExecutionValidated']>, ParentType, ContextType, RequireFields<QueryserviceExecutionValidatedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionValidateds?: Resolver<Array<ResolversTypes['ServiceExecutionValidated']>, ParentType, ContextType, RequireFields<QueryserviceExecutionValidatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceUpdated?: Resolver<Maybe<ResolversTypes['ServiceUpdated']>, ParentType, ContextType, RequireFields<QueryserviceUpdatedArgs, 'id' | 'subgraphError'>>;
+  serviceUpdateds?: Resolver<Array<ResolversTypes['ServiceUpdated']>, ParentType, ContextType, RequireFields<QueryserviceUpdatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbiter?: Resolver<Maybe<ResolversTypes['Arbiter']>, ParentType, ContextType, RequireFields<QueryarbiterArgs, 'id' | 'subgraphError'>>;
+  arbiters?: Resolver<Array<ResolversTypes['Arbiter']>, ParentType, ContextType, RequireFields<QueryarbitersArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbitrationSettings?: Resolver<Maybe<ResolversTypes['ArbitrationSettings']>, ParentType, ContextType, RequireFields<QueryarbitrationSettingsArgs, 'id' | 'subgraphError'>>;
+  arbitrationSettingses?: Resolver<Array<ResolversTypes['ArbitrationSettings']>, ParentType, ContextType, RequireFields<QueryarbitrationSettingsesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeVote?: Resolver<Maybe<ResolversTypes['DisputeVote']>, ParentType, ContextType, RequireFields<QuerydisputeVoteArgs, 'id' | 'subgraphError'>>;
+  disputeVotes?: Resolver<Array<ResolversTypes['DisputeVote']>, ParentType, ContextType, RequireFields<QuerydisputeVotesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbiterAdded?: Resolver<Maybe<ResolversTypes['ArbiterAdded']>, ParentType, ContextType, RequireFields<QueryarbiterAddedArgs, 'id' | 'subgraphError'>>;
+  arbiterAddeds?: Resolver<Array<ResolversTypes['ArbiterAdded']>, ParentType, ContextType, RequireFields<QueryarbiterAddedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbiterRemoved?: Resolver<Maybe<ResolversTypes['ArbiterRemoved']>, ParentType, ContextType, RequireFields<QueryarbiterRemovedArgs, 'id' | 'subgraphError'>>;
+  arbiterRemoveds?: Resolver<Array<ResolversTypes['ArbiterRemoved']>, ParentType, ContextType, RequireFields<QueryarbiterRemovedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbitrationSettingsUpdated?: Resolver<Maybe<ResolversTypes['ArbitrationSettingsUpdated']>, ParentType, ContextType, RequireFields<QueryarbitrationSettingsUpdatedArgs, 'id' | 'subgraphError'>>;
+  arbitrationSettingsUpdateds?: Resolver<Array<ResolversTypes['ArbitrationSettingsUpdated']>, ParentType, ContextType, RequireFields<QueryarbitrationSettingsUpdatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeVotesTallied?: Resolver<Maybe<ResolversTypes['DisputeVotesTallied']>, ParentType, ContextType, RequireFields<QuerydisputeVotesTalliedArgs, 'id' | 'subgraphError'>>;
+  disputeVotesTallieds?: Resolver<Array<ResolversTypes['DisputeVotesTallied']>, ParentType, ContextType, RequireFields<QuerydisputeVotesTalliedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  _meta?: Resolver<Maybe<ResolversTypes['_Meta_']>, ParentType, ContextType, Partial<Query_metaArgs>>;
+}>;
+
+export type SubscriptionResolvers<ContextType = MeshContext, ParentType extends ResolversParentTypes['Subscription'] = ResolversParentTypes['Subscription']> = ResolversObject<{
+  creator?: SubscriptionResolver<Maybe<ResolversTypes['Creator']>, "creator", ParentType, ContextType, RequireFields<SubscriptioncreatorArgs, 'id' | 'subgraphError'>>;
+  creators?: SubscriptionResolver<Array<ResolversTypes['Creator']>, "creators", ParentType, ContextType, RequireFields<SubscriptioncreatorsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibility?: SubscriptionResolver<Maybe<ResolversTypes['Visibility']>, "visibility", ParentType, ContextType, RequireFields<SubscriptionvisibilityArgs, 'id' | 'subgraphError'>>;
+  visibilities?: SubscriptionResolver<Array<ResolversTypes['Visibility']>, "visibilities", ParentType, ContextType, RequireFields<SubscriptionvisibilitiesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityBalance?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityBalance']>, "visibilityBalance", ParentType, ContextType, RequireFields<SubscriptionvisibilityBalanceArgs, 'id' | 'subgraphError'>>;
+  visibilityBalances?: SubscriptionResolver<Array<ResolversTypes['VisibilityBalance']>, "visibilityBalances", ParentType, ContextType, RequireFields<SubscriptionvisibilityBalancesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  operatorApproval?: SubscriptionResolver<Maybe<ResolversTypes['OperatorApproval']>, "operatorApproval", ParentType, ContextType, RequireFields<SubscriptionoperatorApprovalArgs, 'id' | 'subgraphError'>>;
+  operatorApprovals?: SubscriptionResolver<Array<ResolversTypes['OperatorApproval']>, "operatorApprovals", ParentType, ContextType, RequireFields<SubscriptionoperatorApprovalsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityService?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityService']>, "visibilityService", ParentType, ContextType, RequireFields<SubscriptionvisibilityServiceArgs, 'id' | 'subgraphError'>>;
+  visibilityServices?: SubscriptionResolver<Array<ResolversTypes['VisibilityService']>, "visibilityServices", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServiceExecution?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityServiceExecution']>, "visibilityServiceExecution", ParentType, ContextType, RequireFields<SubscriptionvisibilityServiceExecutionArgs, 'id' | 'subgraphError'>>;
+  visibilityServiceExecutions?: SubscriptionResolver<Array<ResolversTypes['VisibilityServiceExecution']>, "visibilityServiceExecutions", ParentType, ContextType, RequireFields<SubscriptionvisibilityServiceExecutionsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  referrer?: SubscriptionResolver<Maybe<ResolversTypes['Referrer']>, "referrer", ParentType, ContextType, RequireFields<SubscriptionreferrerArgs, 'id' | 'subgraphError'>>;
+  referrers?: SubscriptionResolver<Array<ResolversTypes['Referrer']>, "referrers", ParentType, ContextType, RequireFields<SubscriptionreferrersArgs, 'skip' | 'first' | 'subgraphError'>>;
+  referrerVisibility?: SubscriptionResolver<Maybe<ResolversTypes['ReferrerVisibility']>, "referrerVisibility", ParentType, ContextType, RequireFields<SubscriptionreferrerVisibilityArgs, 'id' | 'subgraphError'>>;
+  referrerVisibilities?: SubscriptionResolver<Array<ResolversTypes['ReferrerVisibility']>, "referrerVisibilities", ParentType, ContextType, RequireFields<SubscriptionreferrerVisibilitiesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  referredTrader?: SubscriptionResolver<Maybe<ResolversTypes['ReferredTrader']>, "referredTrader", ParentType, ContextType, RequireFields<SubscriptionreferredTraderArgs, 'id' | 'subgraphError'>>;
+  referredTraders?: SubscriptionResolver<Array<ResolversTypes['ReferredTrader']>, "referredTraders", ParentType, ContextType, RequireFields<SubscriptionreferredTradersArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityCandle?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityCandle']>, "visibilityCandle", ParentType, ContextType, RequireFields<SubscriptionvisibilityCandleArgs, 'id' | 'subgraphError'>>;
+  visibilityCandles?: SubscriptionResolver<Array<ResolversTypes['VisibilityCandle']>, "visibilityCandles", ParentType, ContextType, RequireFields<SubscriptionvisibilityCandlesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  protocolTreasury?: SubscriptionResolver<Maybe<ResolversTypes['ProtocolTreasury']>, "protocolTreasury", ParentType, ContextType, RequireFields<SubscriptionprotocolTreasuryArgs, 'id' | 'subgraphError'>>;
+  protocolTreasuries?: SubscriptionResolver<Array<ResolversTypes['ProtocolTreasury']>, "protocolTreasuries", ParentType, ContextType, RequireFields<SubscriptionprotocolTreasuriesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  creatorFeeClaimed?: SubscriptionResolver<Maybe<ResolversTypes['CreatorFeeClaimed']>, "creatorFeeClaimed", ParentType, ContextType, RequireFields<SubscriptioncreatorFeeClaimedArgs, 'id' | 'subgraphError'>>;
+  creatorFeeClaimeds?: SubscriptionResolver<Array<ResolversTypes['CreatorFeeClaimed']>, "creatorFeeClaimeds", ParentType, ContextType, RequireFields<SubscriptioncreatorFeeClaimedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  protocolFeesClaimed?: SubscriptionResolver<Maybe<ResolversTypes['ProtocolFeesClaimed']>, "protocolFeesClaimed", ParentType, ContextType, RequireFields<SubscriptionprotocolFeesClaimedArgs, 'id' | 'subgraphError'>>;
+  protocolFeesClaimeds?: SubscriptionResolver<Array<ResolversTypes['ProtocolFeesClaimed']>, "protocolFeesClaimeds", ParentType, ContextType, RequireFields<SubscriptionprotocolFeesClaimedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  referrerFeesClaimed?: SubscriptionResolver<Maybe<ResolversTypes['ReferrerFeesClaimed']>, "referrerFeesClaimed", ParentType, ContextType, RequireFields<SubscriptionreferrerFeesClaimedArgs, 'id' | 'subgraphError'>>;
+  referrerFeesClaimeds?: SubscriptionResolver<Array<ResolversTypes['ReferrerFeesClaimed']>, "referrerFeesClaimeds", ParentType, ContextType, RequireFields<SubscriptionreferrerFeesClaimedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  operatorApprovalSet?: SubscriptionResolver<Maybe<ResolversTypes['OperatorApprovalSet']>, "operatorApprovalSet", ParentType, ContextType, RequireFields<SubscriptionoperatorApprovalSetArgs, 'id' | 'subgraphError'>>;
+  operatorApprovalSets?: SubscriptionResolver<Array<ResolversTypes['OperatorApprovalSet']>, "operatorApprovalSets", ParentType, ContextType, RequireFields<SubscriptionoperatorApprovalSetsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  creatorVisibilitySet?: SubscriptionResolver<Maybe<ResolversTypes['CreatorVisibilitySet']>, "creatorVisibilitySet", ParentType, ContextType, RequireFields<SubscriptioncreatorVisibilitySetArgs, 'id' | 'subgraphError'>>;
+  creatorVisibilitySets?: SubscriptionResolver<Array<ResolversTypes['CreatorVisibilitySet']>, "creatorVisibilitySets", ParentType, ContextType, RequireFields<SubscriptioncreatorVisibilitySetsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  curveSet?: SubscriptionResolver<Maybe<ResolversTypes['CurveSet']>, "curveSet", ParentType, ContextType, RequireFields<SubscriptioncurveSetArgs, 'id' | 'subgraphError'>>;
+  curveSets?: SubscriptionResolver<Array<ResolversTypes['CurveSet']>, "curveSets", ParentType, ContextType, RequireFields<SubscriptioncurveSetsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  platform?: SubscriptionResolver<Maybe<ResolversTypes['Platform']>, "platform", ParentType, ContextType, RequireFields<SubscriptionplatformArgs, 'id' | 'subgraphError'>>;
+  platforms?: SubscriptionResolver<Array<ResolversTypes['Platform']>, "platforms", ParentType, ContextType, RequireFields<SubscriptionplatformsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  platformSet?: SubscriptionResolver<Maybe<ResolversTypes['PlatformSet']>, "platformSet", ParentType, ContextType, RequireFields<SubscriptionplatformSetArgs, 'id' | 'subgraphError'>>;
+  platformSets?: SubscriptionResolver<Array<ResolversTypes['PlatformSet']>, "platformSets", ParentType, ContextType, RequireFields<SubscriptionplatformSetsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  feeSchedule?: SubscriptionResolver<Maybe<ResolversTypes['FeeSchedule']>, "feeSchedule", ParentType, ContextType, RequireFields<SubscriptionfeeScheduleArgs, 'id' | 'subgraphError'>>;
+  feeSchedules?: SubscriptionResolver<Array<ResolversTypes['FeeSchedule']>, "feeSchedules", ParentType, ContextType, RequireFields<SubscriptionfeeSchedulesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  feeChange?: SubscriptionResolver<Maybe<ResolversTypes['FeeChange']>, "feeChange", ParentType, ContextType, RequireFields<SubscriptionfeeChangeArgs, 'id' | 'subgraphError'>>;
+  feeChanges?: SubscriptionResolver<Array<ResolversTypes['FeeChange']>, "feeChanges", ParentType, ContextType, RequireFields<SubscriptionfeeChangesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  creditsTrade?: SubscriptionResolver<Maybe<ResolversTypes['CreditsTrade']>, "creditsTrade", ParentType, ContextType, RequireFields<SubscriptioncreditsTradeArgs, 'id' | 'subgraphError'>>;
+  creditsTrades?: SubscriptionResolver<Array<ResolversTypes['CreditsTrade']>, "creditsTrades", ParentType, ContextType, RequireFields<SubscriptioncreditsTradesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  creditsTransfer?: SubscriptionResolver<Maybe<ResolversTypes['CreditsTransfer']>, "creditsTransfer", ParentType, ContextType, RequireFields<SubscriptioncreditsTransferArgs, 'id' | 'subgraphError'>>;
+  creditsTransfers?: SubscriptionResolver<Array<ResolversTypes['CreditsTransfer']>, "creditsTransfers", ParentType, ContextType, RequireFields<SubscriptioncreditsTransfersArgs, 'skip' | 'first' | 'subgraphError'>>;
+  defaultAdminDelayChangeCanceled?: SubscriptionResolver<Maybe<ResolversTypes['DefaultAdminDelayChangeCanceled']>, "defaultAdminDelayChangeCanceled", ParentType, ContextType, RequireFields<SubscriptiondefaultAdminDelayChangeCanceledArgs, 'id' | 'subgraphError'>>;
+  defaultAdminDelayChangeCanceleds?: SubscriptionResolver<Array<ResolversTypes['DefaultAdminDelayChangeCanceled']>, "defaultAdminDelayChangeCanceleds", ParentType, ContextType, RequireFields<SubscriptiondefaultAdminDelayChangeCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  defaultAdminDelayChangeScheduled?: SubscriptionResolver<Maybe<ResolversTypes['DefaultAdminDelayChangeScheduled']>, "defaultAdminDelayChangeScheduled", ParentType, ContextType, RequireFields<SubscriptiondefaultAdminDelayChangeScheduledArgs, 'id' | 'subgraphError'>>;
+  defaultAdminDelayChangeScheduleds?: SubscriptionResolver<Array<ResolversTypes['DefaultAdminDelayChangeScheduled']>, "defaultAdminDelayChangeScheduleds", ParentType, ContextType, RequireFields<SubscriptiondefaultAdminDelayChangeScheduledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  defaultAdminTransferCanceled?: SubscriptionResolver<Maybe<ResolversTypes['DefaultAdminTransferCanceled']>, "defaultAdminTransferCanceled", ParentType, ContextType, RequireFields<SubscriptiondefaultAdminTransferCanceledArgs, 'id' | 'subgraphError'>>;
+  defaultAdminTransferCanceleds?: SubscriptionResolver<Array<ResolversTypes['DefaultAdminTransferCanceled']>, "defaultAdminTransferCanceleds", ParentType, ContextType, RequireFields<SubscriptiondefaultAdminTransferCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  defaultAdminTransferScheduled?: SubscriptionResolver<Maybe<ResolversTypes['DefaultAdminTransferScheduled']>, "defaultAdminTransferScheduled", ParentType, ContextType, RequireFields<SubscriptiondefaultAdminTransferScheduledArgs, 'id' | 'subgraphError'>>;
+  defaultAdminTransferScheduleds?: SubscriptionResolver<Array<ResolversTypes['DefaultAdminTransferScheduled']>, "defaultAdminTransferScheduleds", ParentType, ContextType, RequireFields<SubscriptiondefaultAdminTransferScheduledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  roleAdminChanged?: SubscriptionResolver<Maybe<ResolversTypes['RoleAdminChanged']>, "roleAdminChanged", ParentType, ContextType, RequireFields<SubscriptionroleAdminChangedArgs, 'id' | 'subgraphError'>>;
+  roleAdminChangeds?: SubscriptionResolver<Array<ResolversTypes['RoleAdminChanged']>, "roleAdminChangeds", ParentType, ContextType, RequireFields<SubscriptionroleAdminChangedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  roleGranted?: SubscriptionResolver<Maybe<ResolversTypes['RoleGranted']>, "roleGranted", ParentType, ContextType, RequireFields<SubscriptionroleGrantedArgs, 'id' | 'subgraphError'>>;
+  roleGranteds?: SubscriptionResolver<Array<ResolversTypes['RoleGranted']>, "roleGranteds", ParentType, ContextType, RequireFields<SubscriptionroleGrantedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  roleRevoked?: SubscriptionResolver<Maybe<ResolversTypes['RoleRevoked']>, "roleRevoked", ParentType, ContextType, RequireFields<SubscriptionroleRevokedArgs, 'id' | 'subgraphError'>>;
+  roleRevokeds?: SubscriptionResolver<Array<ResolversTypes['RoleRevoked']>, "roleRevokeds", ParentType, ContextType, RequireFields<SubscriptionroleRevokedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminDelayChangeCanceled?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityServicesDefaultAdminDelayChangeCanceled']>, "visibilityServicesDefaultAdminDelayChangeCanceled", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesDefaultAdminDelayChangeCanceledArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminDelayChangeCanceleds?: SubscriptionResolver<Array<ResolversTypes['VisibilityServicesDefaultAdminDelayChangeCanceled']>, "visibilityServicesDefaultAdminDelayChangeCanceleds", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesDefaultAdminDelayChangeCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminDelayChangeScheduled?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityServicesDefaultAdminDelayChangeScheduled']>, "visibilityServicesDefaultAdminDelayChangeScheduled", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesDefaultAdminDelayChangeScheduledArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminDelayChangeScheduleds?: SubscriptionResolver<Array<ResolversTypes['VisibilityServicesDefaultAdminDelayChangeScheduled']>, "visibilityServicesDefaultAdminDelayChangeScheduleds", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesDefaultAdminDelayChangeScheduledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminTransferCanceled?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityServicesDefaultAdminTransferCanceled']>, "visibilityServicesDefaultAdminTransferCanceled", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesDefaultAdminTransferCanceledArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminTransferCanceleds?: SubscriptionResolver<Array<ResolversTypes['VisibilityServicesDefaultAdminTransferCanceled']>, "visibilityServicesDefaultAdminTransferCanceleds", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesDefaultAdminTransferCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminTransferScheduled?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityServicesDefaultAdminTransferScheduled']>, "visibilityServicesDefaultAdminTransferScheduled", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesDefaultAdminTransferScheduledArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesDefaultAdminTransferScheduleds?: SubscriptionResolver<Array<ResolversTypes['VisibilityServicesDefaultAdminTransferScheduled']>, "visibilityServicesDefaultAdminTransferScheduleds", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesDefaultAdminTransferScheduledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesRoleAdminChanged?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityServicesRoleAdminChanged']>, "visibilityServicesRoleAdminChanged", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesRoleAdminChangedArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesRoleAdminChangeds?: SubscriptionResolver<Array<ResolversTypes['VisibilityServicesRoleAdminChanged']>, "visibilityServicesRoleAdminChangeds", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesRoleAdminChangedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesRoleGranted?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityServicesRoleGranted']>, "visibilityServicesRoleGranted", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesRoleGrantedArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesRoleGranteds?: SubscriptionResolver<Array<ResolversTypes['VisibilityServicesRoleGranted']>, "visibilityServicesRoleGranteds", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesRoleGrantedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  visibilityServicesRoleRevoked?: SubscriptionResolver<Maybe<ResolversTypes['VisibilityServicesRoleRevoked']>, "visibilityServicesRoleRevoked", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesRoleRevokedArgs, 'id' | 'subgraphError'>>;
+  visibilityServicesRoleRevokeds?: SubscriptionResolver<Array<ResolversTypes['VisibilityServicesRoleRevoked']>, "visibilityServicesRoleRevokeds", ParentType, ContextType, RequireFields<SubscriptionvisibilityServicesRoleRevokedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceCreated?: SubscriptionResolver<Maybe<ResolversTypes['ServiceCreated']>, "serviceCreated", ParentType, ContextType, RequireFields<SubscriptionserviceCreatedArgs, 'id' | 'subgraphError'>>;
+  serviceCreateds?: SubscriptionResolver<Array<ResolversTypes['ServiceCreated']>, "serviceCreateds", ParentType, ContextType, RequireFields<SubscriptionserviceCreatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionAccepted?: SubscriptionResolver<Maybe<ResolversTypes['ServiceExecutionAccepted']>, "serviceExecutionAccepted", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionAcceptedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionAccepteds?: SubscriptionResolver<Array<ResolversTypes['ServiceExecutionAccepted']>, "serviceExecutionAccepteds", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionAcceptedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionCanceled?: SubscriptionResolver<Maybe<ResolversTypes['ServiceExecutionCanceled']>, "serviceExecutionCanceled", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionCanceledArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionCanceleds?: SubscriptionResolver<Array<ResolversTypes['ServiceExecutionCanceled']>, "serviceExecutionCanceleds", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionCanceledsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeSettings?: SubscriptionResolver<Maybe<ResolversTypes['DisputeSettings']>, "disputeSettings", ParentType, ContextType, RequireFields<SubscriptiondisputeSettingsArgs, 'id' | 'subgraphError'>>;
+  disputeSettingses?: SubscriptionResolver<Array<ResolversTypes['DisputeSettings']>, "disputeSettingses", ParentType, ContextType, RequireFields<SubscriptiondisputeSettingsesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeBondUpdated?: SubscriptionResolver<Maybe<ResolversTypes['DisputeBondUpdated']>, "disputeBondUpdated", ParentType, ContextType, RequireFields<SubscriptiondisputeBondUpdatedArgs, 'id' | 'subgraphError'>>;
+  disputeBondUpdateds?: SubscriptionResolver<Array<ResolversTypes['DisputeBondUpdated']>, "disputeBondUpdateds", ParentType, ContextType, RequireFields<SubscriptiondisputeBondUpdatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeBondPosted?: SubscriptionResolver<Maybe<ResolversTypes['DisputeBondPosted']>, "disputeBondPosted", ParentType, ContextType, RequireFields<SubscriptiondisputeBondPostedArgs, 'id' | 'subgraphError'>>;
+  disputeBondPosteds?: SubscriptionResolver<Array<ResolversTypes['DisputeBondPosted']>, "disputeBondPosteds", ParentType, ContextType, RequireFields<SubscriptiondisputeBondPostedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeBondReleased?: SubscriptionResolver<Maybe<ResolversTypes['DisputeBondReleased']>, "disputeBondReleased", ParentType, ContextType, RequireFields<SubscriptiondisputeBondReleasedArgs, 'id' | 'subgraphError'>>;
+  disputeBondReleaseds?: SubscriptionResolver<Array<ResolversTypes['DisputeBondReleased']>, "disputeBondReleaseds", ParentType, ContextType, RequireFields<SubscriptiondisputeBondReleasedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeDefaultsUpdated?: SubscriptionResolver<Maybe<ResolversTypes['DisputeDefaultsUpdated']>, "disputeDefaultsUpdated", ParentType, ContextType, RequireFields<SubscriptiondisputeDefaultsUpdatedArgs, 'id' | 'subgraphError'>>;
+  disputeDefaultsUpdateds?: SubscriptionResolver<Array<ResolversTypes['DisputeDefaultsUpdated']>, "disputeDefaultsUpdateds", ParentType, ContextType, RequireFields<SubscriptiondisputeDefaultsUpdatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionDisputeDefaulted?: SubscriptionResolver<Maybe<ResolversTypes['ServiceExecutionDisputeDefaulted']>, "serviceExecutionDisputeDefaulted", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionDisputeDefaultedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionDisputeDefaulteds?: SubscriptionResolver<Array<ResolversTypes['ServiceExecutionDisputeDefaulted']>, "serviceExecutionDisputeDefaulteds", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionDisputeDefaultedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionExpired?: SubscriptionResolver<Maybe<ResolversTypes['ServiceExecutionExpired']>, "serviceExecutionExpired", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionExpiredArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionExpireds?: SubscriptionResolver<Array<ResolversTypes['ServiceExecutionExpired']>, "serviceExecutionExpireds", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionExpiredsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionDisputed?: SubscriptionResolver<Maybe<ResolversTypes['ServiceExecutionDisputed']>, "serviceExecutionDisputed", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionDisputedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionDisputeds?: SubscriptionResolver<Array<ResolversTypes['ServiceExecutionDisputed']>, "serviceExecutionDisputeds", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionDisputedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionRequested?: SubscriptionResolver<Maybe<ResolversTypes['ServiceExecutionRequested']>, "serviceExecutionRequested", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionRequestedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionRequesteds?: SubscriptionResolver<Array<ResolversTypes['ServiceExecutionRequested']>, "serviceExecutionRequesteds", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionRequestedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeEvidence?: SubscriptionResolver<Maybe<ResolversTypes['DisputeEvidence']>, "disputeEvidence", ParentType, ContextType, RequireFields<SubscriptiondisputeEvidenceArgs, 'id' | 'subgraphError'>>;
+  disputeEvidences?: SubscriptionResolver<Array<ResolversTypes['DisputeEvidence']>, "disputeEvidences", ParentType, ContextType, RequireFields<SubscriptiondisputeEvidencesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionResolved?: SubscriptionResolver<Maybe<ResolversTypes['ServiceExecutionResolved']>, "serviceExecutionResolved", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionResolvedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionResolveds?: SubscriptionResolver<Array<ResolversTypes['ServiceExecutionResolved']>, "serviceExecutionResolveds", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionResolvedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceExecutionValidated?: SubscriptionResolver<Maybe<ResolversTypes['ServiceExecutionValidated']>, "serviceExecutionValidated", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionValidatedArgs, 'id' | 'subgraphError'>>;
+  serviceExecutionValidateds?: SubscriptionResolver<Array<ResolversTypes['ServiceExecutionValidated']>, "serviceExecutionValidateds", ParentType, ContextType, RequireFields<SubscriptionserviceExecutionValidatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  serviceUpdated?: SubscriptionResolver<Maybe<ResolversTypes['ServiceUpdated']>, "serviceUpdated", ParentType, ContextType, RequireFields<SubscriptionserviceUpdatedArgs, 'id' | 'subgraphError'>>;
+  serviceUpdateds?: SubscriptionResolver<Array<ResolversTypes['ServiceUpdated']>, "serviceUpdateds", ParentType, ContextType, RequireFields<SubscriptionserviceUpdatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbiter?: SubscriptionResolver<Maybe<ResolversTypes['Arbiter']>, "arbiter", ParentType, ContextType, RequireFields<SubscriptionarbiterArgs, 'id' | 'subgraphError'>>;
+  arbiters?: SubscriptionResolver<Array<ResolversTypes['Arbiter']>, "arbiters", ParentType, ContextType, RequireFields<SubscriptionarbitersArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbitrationSettings?: SubscriptionResolver<Maybe<ResolversTypes['ArbitrationSettings']>, "arbitrationSettings", ParentType, ContextType, RequireFields<SubscriptionarbitrationSettingsArgs, 'id' | 'subgraphError'>>;
+  arbitrationSettingses?: SubscriptionResolver<Array<ResolversTypes['ArbitrationSettings']>, "arbitrationSettingses", ParentType, ContextType, RequireFields<SubscriptionarbitrationSettingsesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeVote?: SubscriptionResolver<Maybe<ResolversTypes['DisputeVote']>, "disputeVote", ParentType, ContextType, RequireFields<SubscriptiondisputeVoteArgs, 'id' | 'subgraphError'>>;
+  disputeVotes?: SubscriptionResolver<Array<ResolversTypes['DisputeVote']>, "disputeVotes", ParentType, ContextType, RequireFields<SubscriptiondisputeVotesArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbiterAdded?: SubscriptionResolver<Maybe<ResolversTypes['ArbiterAdded']>, "arbiterAdded", ParentType, ContextType, RequireFields<SubscriptionarbiterAddedArgs, 'id' | 'subgraphError'>>;
+  arbiterAddeds?: SubscriptionResolver<Array<ResolversTypes['ArbiterAdded']>, "arbiterAddeds", ParentType, ContextType, RequireFields<SubscriptionarbiterAddedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbiterRemoved?: SubscriptionResolver<Maybe<ResolversTypes['ArbiterRemoved']>, "arbiterRemoved", ParentType, ContextType, RequireFields<SubscriptionarbiterRemovedArgs, 'id' | 'subgraphError'>>;
+  arbiterRemoveds?: SubscriptionResolver<Array<ResolversTypes['ArbiterRemoved']>, "arbiterRemoveds", ParentType, ContextType, RequireFields<SubscriptionarbiterRemovedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  arbitrationSettingsUpdated?: SubscriptionResolver<Maybe<ResolversTypes['ArbitrationSettingsUpdated']>, "arbitrationSettingsUpdated", ParentType, ContextType, RequireFields<SubscriptionarbitrationSettingsUpdatedArgs, 'id' | 'subgraphError'>>;
+  arbitrationSettingsUpdateds?: SubscriptionResolver<Array<ResolversTypes['ArbitrationSettingsUpdated']>, "arbitrationSettingsUpdateds", ParentType, ContextType, RequireFields<SubscriptionarbitrationSettingsUpdatedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  disputeVotesTallied?: SubscriptionResolver<Maybe<ResolversTypes['DisputeVotesTallied']>, "disputeVotesTallied", ParentType, ContextType, RequireFields<SubscriptiondisputeVotesTalliedArgs, 'id' | 'subgraphError'>>;
+  disputeVotesTallieds?: SubscriptionResolver<Array<ResolversTypes['DisputeVotesTallied']>, "disputeVotesTallieds", ParentType, ContextType, RequireFields<SubscriptiondisputeVotesTalliedsArgs, 'skip' | 'first' | 'subgraphError'>>;
+  _meta?: SubscriptionResolver<Maybe<ResolversTypes['_Meta_']>, "_meta", ParentType, ContextType, Partial<Subscription_metaArgs>>;
+}>;
+
 export type Resolvers<ContextType = MeshContext> = ResolversObject<{
   BigDecimal?: GraphQLScalarType;
   BigInt?: GraphQLScalarType;
   Bytes?: GraphQLScalarType;
-  Greeting?: GreetingResolvers<ContextType>;
   Int8?: GraphQLScalarType;
-  Query?: QueryResolvers<ContextType>;
-  Sender?: SenderResolvers<ContextType>;
-  Subscription?: SubscriptionResolvers<ContextType>;
   _Block_?: _Block_Resolvers<ContextType>;
   _Meta_?: _Meta_Resolvers<ContextType>;
+  Creator?: CreatorResolvers<ContextType>;
+  Visibility?: VisibilityResolvers<ContextType>;
+  VisibilityBalance?: VisibilityBalanceResolvers<ContextType>;
+  OperatorApproval?: OperatorApprovalResolvers<ContextType>;
+  VisibilityService?: VisibilityServiceResolvers<ContextType>;
+  VisibilityServiceExecution?: VisibilityServiceExecutionResolvers<ContextType>;
+  Referrer?: ReferrerResolvers<ContextType>;
+  ReferrerVisibility?: ReferrerVisibilityResolvers<ContextType>;
+  ReferredTrader?: ReferredTraderResolvers<ContextType>;
+  VisibilityCandle?: VisibilityCandleResolvers<ContextType>;
+  ProtocolTreasury?: ProtocolTreasuryResolvers<ContextType>;
+  CreatorFeeClaimed?: CreatorFeeClaimedResolvers<ContextType>;
+  ProtocolFeesClaimed?: ProtocolFeesClaimedResolvers<ContextType>;
+  ReferrerFeesClaimed?: ReferrerFeesClaimedResolvers<ContextType>;
+  OperatorApprovalSet?: OperatorApprovalSetResolvers<ContextType>;
+  CreatorVisibilitySet?: CreatorVisibilitySetResolvers<ContextType>;
+  CurveSet?: CurveSetResolvers<ContextType>;
+  Platform?: PlatformResolvers<ContextType>;
+  PlatformSet?: PlatformSetResolvers<ContextType>;
+  FeeSchedule?: FeeScheduleResolvers<ContextType>;
+  FeeChange?: FeeChangeResolvers<ContextType>;
+  CreditsTrade?: CreditsTradeResolvers<ContextType>;
+  CreditsTransfer?: CreditsTransferResolvers<ContextType>;
+  DefaultAdminDelayChangeCanceled?: DefaultAdminDelayChangeCanceledResolvers<ContextType>;
+  DefaultAdminDelayChangeScheduled?: DefaultAdminDelayChangeScheduledResolvers<ContextType>;
+  DefaultAdminTransferCanceled?: DefaultAdminTransferCanceledResolvers<ContextType>;
+  DefaultAdminTransferScheduled?: DefaultAdminTransferScheduledResolvers<ContextType>;
+  RoleAdminChanged?: RoleAdminChangedResolvers<ContextType>;
+  RoleGranted?: RoleGrantedResolvers<ContextType>;
+  RoleRevoked?: RoleRevokedResolvers<ContextType>;
+  VisibilityServicesDefaultAdminDelayChangeCanceled?: VisibilityServicesDefaultAdminDelayChangeCanceledResolvers<ContextType>;
+  VisibilityServicesDefaultAdminDelayChangeScheduled?: VisibilityServicesDefaultAdminDelayChangeScheduledResolvers<ContextType>;
+  VisibilityServicesDefaultAdminTransferCanceled?: VisibilityServicesDefaultAdminTransferCanceledResolvers<ContextType>;
+  VisibilityServicesDefaultAdminTransferScheduled?: VisibilityServicesDefaultAdminTransferScheduledResolvers<ContextType>;
+  VisibilityServicesRoleAdminChanged?: VisibilityServicesRoleAdminChangedResolvers<ContextType>;
+  VisibilityServicesRoleGranted?: VisibilityServicesRoleGrantedResolvers<ContextType>;
+  VisibilityServicesRoleRevoked?: VisibilityServicesRoleRevokedResolvers<ContextType>;
+  ServiceCreated?: ServiceCreatedResolvers<ContextType>;
+  ServiceExecutionAccepted?: ServiceExecutionAcceptedResolvers<ContextType>;
+  ServiceExecutionCanceled?: ServiceExecutionCanceledResolvers<ContextType>;
+  DisputeSettings?: DisputeSettingsResolvers<ContextType>;
+  DisputeBondUpdated?: DisputeBondUpdatedResolvers<ContextType>;
+  DisputeBondPosted?: DisputeBondPostedResolvers<ContextType>;
+  DisputeBondReleased?: DisputeBondReleasedResolvers<ContextType>;
+  DisputeDefaultsUpdated?: DisputeDefaultsUpdatedResolvers<ContextType>;
+  ServiceExecutionDisputeDefaulted?: ServiceExecutionDisputeDefaultedResolvers<ContextType>;
+  ServiceExecutionExpired?: ServiceExecutionExpiredResolvers<ContextType>;
+  ServiceExecutionDisputed?: ServiceExecutionDisputedResolvers<ContextType>;
+  ServiceExecutionRequested?: ServiceExecutionRequestedResolvers<ContextType>;
+  DisputeEvidence?: DisputeEvidenceResolvers<ContextType>;
+  ServiceExecutionResolved?: ServiceExecutionResolvedResolvers<ContextType>;
+  ServiceExecutionValidated?: ServiceExecutionValidatedResolvers<ContextType>;
+  ServiceUpdated?: ServiceUpdatedResolvers<ContextType>;
+  Arbiter?: ArbiterResolvers<ContextType>;
+  ArbitrationSettings?: ArbitrationSettingsResolvers<ContextType>;
+  DisputeVote?: DisputeVoteResolvers<ContextType>;
+  ArbiterAdded?: ArbiterAddedResolvers<ContextType>;
+  ArbiterRemoved?: ArbiterRemovedResolvers<ContextType>;
+  ArbitrationSettingsUpdated?: ArbitrationSettingsUpdatedResolvers<ContextType>;
+  DisputeVotesTallied?: DisputeVotesTalliedResolvers<ContextType>;
+  Query?: QueryResolvers<ContextType>;
+  Subscription?: SubscriptionResolvers<ContextType>;
 }>;
 
 export type DirectiveResolvers<ContextType = MeshContext> = ResolversObject<{
@@ -613,7 +10429,7 @@ export type DirectiveResolvers<ContextType = MeshContext> = ResolversObject<{
   derivedFrom?: derivedFromDirectiveResolver<any, any, ContextType>;
 }>;
 
-export type MeshContext = YourContractTypes.Context & BaseMeshContext;
+export type MeshContext = NoodlesTypes.Context & BaseMeshContext;
 
 
 import { fileURLToPath } from '@graphql-mesh/utils';
@@ -622,7 +10438,7 @@ const baseDir = pathModule.join(pathModule.dirname(fileURLToPath(import.meta.url
 const importFn: ImportFn = <T>(moduleId: string) => {
   const relativeModuleId = (pathModule.isAbsolute(moduleId) ? pathModule.relative(baseDir, moduleId) : moduleId).split('\\').join('/').replace(baseDir + '/', '');
   switch(relativeModuleId) {
-    case ".graphclient/sources/YourContract/introspectionSchema":
+    case ".graphclient/sources/Noodles/introspectionSchema":
       return Promise.resolve(importedModule$0) as T;
     
     default:
@@ -655,22 +10471,22 @@ const cache = new (MeshCache as any)({
 const sources: MeshResolvedSource[] = [];
 const transforms: MeshTransform[] = [];
 const additionalEnvelopPlugins: MeshPlugin<any>[] = [];
-const yourContractTransforms = [];
+const noodlesTransforms = [];
 const additionalTypeDefs = [] as any[];
-const yourContractHandler = new GraphqlHandler({
-              name: "YourContract",
+const noodlesHandler = new GraphqlHandler({
+              name: "Noodles",
               config: {"endpoint":"http://localhost:8000/subgraphs/name/scaffold-eth/your-contract"},
               baseDir,
               cache,
               pubsub,
-              store: sourcesStore.child("YourContract"),
-              logger: logger.child("YourContract"),
+              store: sourcesStore.child("Noodles"),
+              logger: logger.child("Noodles"),
               importFn,
             });
 sources[0] = {
-          name: 'YourContract',
-          handler: yourContractHandler,
-          transforms: yourContractTransforms
+          name: 'Noodles',
+          handler: noodlesHandler,
+          transforms: noodlesTransforms
         }
 const additionalResolvers = [] as any[]
 const merger = new(BareMerger as any)({
@@ -680,7 +10496,17 @@ const merger = new(BareMerger as any)({
         store: rootStore.child('bareMerger')
       })
 const documentHashMap = {
-        "0f297a8d2a5ec4bc2a5724a8582baf2b6027a6394dc10901d073d4602d66e9d4": GetGreetingsDocument
+        "4ebe69d31ea2ad12ac4259fadf809c352854053ec8e213f5220cc02eae9f07e7": GetArbitrationPanelDocument,
+"39bbba5d95d7c67c645c004eacea575fdf02f83bab93cd45ab44c7d2c9d92d0b": GetCreatorDocument,
+"e7d007d4e1ad856fda3dc3d8d45258d985c3282c3e0f25e3dedb746a1f88c070": GetCreditsTradesDocument,
+"7384e0291e70921085ad52e029d8a73c6bdbbf947be1922b9c036fe8c5763815": GetReferrersDocument,
+"7384e0291e70921085ad52e029d8a73c6bdbbf947be1922b9c036fe8c5763815": GetReferrerDocument,
+"375a81307483d9788e11cf5122108ee00b6d161d989e6b19cc32db1fa107fd94": GetVisibilitiesDocument,
+"375a81307483d9788e11cf5122108ee00b6d161d989e6b19cc32db1fa107fd94": GetVisibilityDocument,
+"002afb023f101f21d81cfdedab824d4b2019a07a94aa6c3b0f57bcf293db316d": GetVisibilityBalancesDocument,
+"e8ce2020896cc795a7e9626f5dd706921357ff25877c61d9a92b23e5c73cd427": GetVisibilityServiceExecutionsDocument,
+"e8ce2020896cc795a7e9626f5dd706921357ff25877c61d9a92b23e5c73cd427": GetVisibilityServiceExecutionDocument,
+"f8bcc68e52f619fd9fa80924e9726023de731b5acabed2fc64214d2bba328889": GetVisibilityServicesDocument
       }
 additionalEnvelopPlugins.push(usePersistedOperations({
         getPersistedOperation(key) {
@@ -702,12 +10528,82 @@ additionalEnvelopPlugins.push(usePersistedOperations({
     get documents() {
       return [
       {
-        document: GetGreetingsDocument,
+        document: GetArbitrationPanelDocument,
+        get rawSDL() {
+          return printWithCache(GetArbitrationPanelDocument);
+        },
+        location: 'GetArbitrationPanelDocument.graphql',
+        sha256Hash: '4ebe69d31ea2ad12ac4259fadf809c352854053ec8e213f5220cc02eae9f07e7'
+      },{
+        document: GetCreatorDocument,
         get rawSDL() {
-          return printWithCache(GetGreetingsDocument);
+          return printWithCache(GetCreatorDocument);
         },
-        location: 'GetGreetingsDocument.graphql',
-        sha256Hash: '0f297a8d2a5ec4bc2a5724a8582baf2b6027a6394dc10901d073d4602d66e9d4'
+        location: 'GetCreatorDocument.graphql',
+        sha256Hash: '39bbba5d95d7c67c645c004eacea575fdf02f83bab93cd45ab44c7d2c9d92d0b'
+      },{
+        document: GetCreditsTradesDocument,
+        get rawSDL() {
+          return printWithCache(GetCreditsTradesDocument);
+        },
+        location: 'GetCreditsTradesDocument.graphql',
+        sha256Hash: 'e7d007d4e1ad856fda3dc3d8d45258d985c3282c3e0f25e3dedb746a1f88c070'
+      },{
+        document: GetReferrersDocument,
+        get rawSDL() {
+          return printWithCache(GetReferrersDocument);
+        },
+        location: 'GetReferrersDocument.graphql',
+        sha256Hash: '7384e0291e70921085ad52e029d8a73c6bdbbf947be1922b9c036fe8c5763815'
+      },{
+        document: GetReferrerDocument,
+        get rawSDL() {
+          return printWithCache(GetReferrerDocument);
+        },
+        location: 'GetReferrerDocument.graphql',
+        sha256Hash: '7384e0291e70921085ad52e029d8a73c6bdbbf947be1922b9c036fe8c5763815'
+      },{
+        document: GetVisibilitiesDocument,
+        get rawSDL() {
+          return printWithCache(GetVisibilitiesDocument);
+        },
+        location: 'GetVisibilitiesDocument.graphql',
+        sha256Hash: '375a81307483d9788e11cf5122108ee00b6d161d989e6b19cc32db1fa107fd94'
+      },{
+        document: GetVisibilityDocument,
+        get rawSDL() {
+          return printWithCache(GetVisibilityDocument);
+        },
+        location: 'GetVisibilityDocument.graphql',
+        sha256Hash: '375a81307483d9788e11cf5122108ee00b6d161d989e6b19cc32db1fa107fd94'
+      },{
+        document: GetVisibilityBalancesDocument,
+        get rawSDL() {
+          return printWithCache(GetVisibilityBalancesDocument);
+        },
+        location: 'GetVisibilityBalancesDocument.graphql',
+        sha256Hash: '002afb023f101f21d81cfdedab824d4b2019a07a94aa6c3b0f57bcf293db316d'
+      },{
+        document: GetVisibilityServiceExecutionsDocument,
+        get rawSDL() {
+          return printWithCache(GetVisibilityServiceExecutionsDocument);
+        },
+        location: 'GetVisibilityServiceExecutionsDocument.graphql',
+        sha256Hash: 'e8ce2020896cc795a7e9626f5dd706921357ff25877c61d9a92b23e5c73cd427'
+      },{
+        document: GetVisibilityServiceExecutionDocument,
+        get rawSDL() {
+          return printWithCache(GetVisibilityServiceExecutionDocument);
+        },
+        location: 'GetVisibilityServiceExecutionDocument.graphql',
+        sha256Hash: 'e8ce2020896cc795a7e9626f5dd706921357ff25877c61d9a92b23e5c73cd427'
+      },{
+        document: GetVisibilityServicesDocument,
+        get rawSDL() {
+          return printWithCache(GetVisibilityServicesDocument);
+        },
+        location: 'GetVisibilityServicesDocument.graphql',
+        sha256Hash: 'f8bcc68e52f619fd9fa80924e9726023de731b5acabed2fc64214d2bba328889'
       }
     ];
     },
@@ -762,37 +10658,478 @@ export function getBuiltGraphSDK<TGlobalContext = any, TOperationContext = any>(
   const sdkRequester$ = getBuiltGraphClient().then(({ sdkRequesterFactory }) => sdkRequesterFactory(globalContext));
   return getSdk<TOperationContext, TGlobalContext>((...args) => sdkRequester$.then(sdkRequester => sdkRequester(...args)));
 }
-export type GetGreetingsQueryVariables = Exact<{ [key: string]: never; }>;
+export type GetArbitrationPanelQueryVariables = Exact<{
+  arbitration: Scalars['ID']['input'];
+}>;
 
 
-export type GetGreetingsQuery = { greetings: Array<(
-    Pick<Greeting, 'id' | 'greeting' | 'premium' | 'value' | 'createdAt'>
-    & { sender: Pick<Sender, 'address' | 'greetingCount'> }
+export type GetArbitrationPanelQuery = { arbitrationSettings?: Maybe<(
+    Pick<ArbitrationSettings, 'active' | 'quorum' | 'votingPeriod' | 'arbitersCount'>
+    & { arbiters: Array<Pick<Arbiter, 'address' | 'addedAt'>> }
   )> };
 
+export type GetCreatorQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
 
-export const GetGreetingsDocument = gql`
-    query GetGreetings {
-  greetings(first: 25, orderBy: createdAt, orderDirection: desc) {
-    id
-    greeting
-    premium
-    value
-    createdAt
-    sender {
+export type GetCreatorQuery = { creator?: Maybe<(
+    Pick<Creator, 'id' | 'totalFeesAccrued' | 'totalFeesClaimed' | 'claimableFeeBalance'>
+    & { visibilities: Array<Pick<Visibility, 'id' | 'currentPrice' | 'totalSupply' | 'creatorFeesAccrued' | 'creatorFeesClaimed' | 'claimableFeeBalance'>> }
+  )> };
+
+export type GetCreditsTradesQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTrade_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTrade_filter>;
+}>;
+
+
+export type GetCreditsTradesQuery = { creditsTrades: Array<(
+    Pick<CreditsTrade, 'id' | 'tradeEvent_from' | 'tradeEvent_amount' | 'tradeEvent_isBuy' | 'tradeEvent_tradeCost' | 'tradeEvent_creatorFee' | 'tradeEvent_protocolFee' | 'tradeEvent_referrerFee' | 'tradeEvent_referrer' | 'tradeEvent_newTotalSupply' | 'tradeEvent_newCurrentPrice' | 'blockNumber' | 'blockTimestamp' | 'transactionHash'>
+    & { visibility: Pick<Visibility, 'id'> }
+  )> };
+
+export type GetReferrersQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Referrer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Referrer_filter>;
+}>;
+
+
+export type GetReferrersQuery = { referrers: Array<Pick<Referrer, 'id' | 'totalVolume' | 'totalFeesEarned' | 'tradeCount' | 'referredTraderCount'>> };
+
+export type GetReferrerQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetReferrerQuery = { referrer?: Maybe<(
+    Pick<Referrer, 'id' | 'totalVolume' | 'totalFeesEarned' | 'tradeCount' | 'referredTraderCount'>
+    & { visibilities: Array<(
+      Pick<ReferrerVisibility, 'id' | 'volume' | 'feesEarned' | 'tradeCount'>
+      & { visibility: Pick<Visibility, 'id'> }
+    )> }
+  )> };
+
+export type GetVisibilitiesQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Visibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Visibility_filter>;
+}>;
+
+
+export type GetVisibilitiesQuery = { visibilities: Array<(
+    Pick<Visibility, 'id' | 'currentPrice' | 'totalSupply'>
+    & { creator?: Maybe<Pick<Creator, 'id'>> }
+  )> };
+
+export type GetVisibilityQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetVisibilityQuery = { visibility?: Maybe<(
+    Pick<Visibility, 'id' | 'currentPrice' | 'totalSupply' | 'creatorFeesAccrued' | 'creatorFeesClaimed' | 'claimableFeeBalance'>
+    & { creator?: Maybe<Pick<Creator, 'id'>>, services: Array<Pick<VisibilityService, 'id' | 'serviceType' | 'creditsCostAmount' | 'enabled'>> }
+  )> };
+
+export type GetVisibilityBalancesQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityBalance_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityBalance_filter>;
+}>;
+
+
+export type GetVisibilityBalancesQuery = { visibilityBalances: Array<(
+    Pick<VisibilityBalance, 'id' | 'user' | 'balance' | 'costBasis' | 'averageEntryCost' | 'realizedPnl' | 'totalFeesPaid'>
+    & { visibility: Pick<Visibility, 'id' | 'currentPrice' | 'totalSupply'> }
+  )> };
+
+export type GetVisibilityServiceExecutionsQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServiceExecution_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServiceExecution_filter>;
+}>;
+
+
+export type GetVisibilityServiceExecutionsQuery = { visibilityServiceExecutions: Array<(
+    Pick<VisibilityServiceExecution, 'id' | 'state' | 'executionNonce' | 'requester' | 'creditsCostAmount' | 'acceptanceDeadline' | 'autoValidationTimestamp' | 'disputeDeadline' | 'requestData' | 'responseData' | 'cancelData' | 'disputeData' | 'resolveData' | 'refundAmount' | 'creatorAmount' | 'disputeBondAmount' | 'disputeBondRequesterAmount' | 'disputeBondCreatorAmount' | 'arbitrationRefundBps' | 'lastUpdated'>
+    & { arbitrationVotes: Array<(
+      Pick<DisputeVote, 'id' | 'refundBps' | 'reason'>
+      & { arbiter: Pick<Arbiter, 'address'> }
+    )>, service: (
+      Pick<VisibilityService, 'id' | 'serviceType' | 'creditsCostAmount'>
+      & { visibility: (
+        Pick<Visibility, 'id'>
+        & { creator?: Maybe<Pick<Creator, 'id'>> }
+      ) }
+    ) }
+  )> };
+
+export type GetVisibilityServiceExecutionQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetVisibilityServiceExecutionQuery = { visibilityServiceExecution?: Maybe<(
+    Pick<VisibilityServiceExecution, 'id' | 'state' | 'executionNonce' | 'requester' | 'creditsCostAmount' | 'disputeDeadline' | 'requestData' | 'responseData' | 'cancelData' | 'disputeData' | 'resolveData' | 'refundAmount' | 'creatorAmount' | 'lastUpdated'>
+    & { service: (
+      Pick<VisibilityService, 'id' | 'serviceType' | 'metadataURI'>
+      & { visibility: (
+        Pick<Visibility, 'id'>
+        & { creator?: Maybe<Pick<Creator, 'id'>> }
+      ) }
+    ), evidence: Array<Pick<DisputeEvidence, 'id' | 'from' | 'party' | 'evidence' | 'blockTimestamp'>> }
+  )> };
+
+export type GetVisibilityServicesQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityService_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityService_filter>;
+}>;
+
+
+export type GetVisibilityServicesQuery = { visibilityServices: Array<(
+    Pick<VisibilityService, 'id' | 'serviceType' | 'creditsCostAmount' | 'enabled'>
+    & { visibility: (
+      Pick<Visibility, 'id'>
+      & { creator?: Maybe<Pick<Creator, 'id'>> }
+    ) }
+  )> };
+
+
+export const GetArbitrationPanelDocument = gql`
+    query GetArbitrationPanel($arbitration: ID!) {
+  arbitrationSettings(id: $arbitration) {
+    active
+    quorum
+    votingPeriod
+    arbitersCount
+    arbiters(where: {active: true}, orderBy: addedAt) {
       address
-      greetingCount
+      addedAt
+    }
+  }
+}
+    ` as unknown as DocumentNode<GetArbitrationPanelQuery, GetArbitrationPanelQueryVariables>;
+export const GetCreatorDocument = gql`
+    query GetCreator($id: ID!) {
+  creator(id: $id) {
+    id
+    totalFeesAccrued
+    totalFeesClaimed
+    claimableFeeBalance
+    visibilities(orderBy: totalSupply, orderDirection: desc) {
+      id
+      currentPrice
+      totalSupply
+      creatorFeesAccrued
+      creatorFeesClaimed
+      claimableFeeBalance
+    }
+  }
+}
+    ` as unknown as DocumentNode<GetCreatorQuery, GetCreatorQueryVariables>;
+export const GetCreditsTradesDocument = gql`
+    query GetCreditsTrades($first: Int = 25, $skip: Int = 0, $orderBy: CreditsTrade_orderBy = blockTimestamp, $orderDirection: OrderDirection = desc, $where: CreditsTrade_filter) {
+  creditsTrades(
+    first: $first
+    skip: $skip
+    orderBy: $orderBy
+    orderDirection: $orderDirection
+    where: $where
+  ) {
+    id
+    visibility {
+      id
+    }
+    tradeEvent_from
+    tradeEvent_amount
+    tradeEvent_isBuy
+    tradeEvent_tradeCost
+    tradeEvent_creatorFee
+    tradeEvent_protocolFee
+    tradeEvent_referrerFee
+    tradeEvent_referrer
+    tradeEvent_newTotalSupply
+    tradeEvent_newCurrentPrice
+    blockNumber
+    blockTimestamp
+    transactionHash
+  }
+}
+    ` as unknown as DocumentNode<GetCreditsTradesQuery, GetCreditsTradesQueryVariables>;
+export const GetReferrersDocument = gql`
+    query GetReferrers($first: Int = 25, $skip: Int = 0, $orderBy: Referrer_orderBy = totalFeesEarned, $orderDirection: OrderDirection = desc, $where: Referrer_filter) {
+  referrers(
+    first: $first
+    skip: $skip
+    orderBy: $orderBy
+    orderDirection: $orderDirection
+    where: $where
+  ) {
+    id
+    totalVolume
+    totalFeesEarned
+    tradeCount
+    referredTraderCount
+  }
+}
+    ` as unknown as DocumentNode<GetReferrersQuery, GetReferrersQueryVariables>;
+export const GetReferrerDocument = gql`
+    query GetReferrer($id: ID!) {
+  referrer(id: $id) {
+    id
+    totalVolume
+    totalFeesEarned
+    tradeCount
+    referredTraderCount
+    visibilities(orderBy: feesEarned, orderDirection: desc) {
+      id
+      visibility {
+        id
+      }
+      volume
+      feesEarned
+      tradeCount
+    }
+  }
+}
+    ` as unknown as DocumentNode<GetReferrerQuery, GetReferrerQueryVariables>;
+export const GetVisibilitiesDocument = gql`
+    query GetVisibilities($first: Int = 25, $skip: Int = 0, $orderBy: Visibility_orderBy = totalSupply, $orderDirection: OrderDirection = desc, $where: Visibility_filter) {
+  visibilities(
+    first: $first
+    skip: $skip
+    orderBy: $orderBy
+    orderDirection: $orderDirection
+    where: $where
+  ) {
+    id
+    creator {
+      id
+    }
+    currentPrice
+    totalSupply
+  }
+}
+    ` as unknown as DocumentNode<GetVisibilitiesQuery, GetVisibilitiesQueryVariables>;
+export const GetVisibilityDocument = gql`
+    query GetVisibility($id: ID!) {
+  visibility(id: $id) {
+    id
+    creator {
+      id
+    }
+    currentPrice
+    totalSupply
+    creatorFeesAccrued
+    creatorFeesClaimed
+    claimableFeeBalance
+    services(orderBy: id) {
+      id
+      serviceType
+      creditsCostAmount
+      enabled
+    }
+  }
+}
+    ` as unknown as DocumentNode<GetVisibilityQuery, GetVisibilityQueryVariables>;
+export const GetVisibilityBalancesDocument = gql`
+    query GetVisibilityBalances($first: Int = 25, $skip: Int = 0, $orderBy: VisibilityBalance_orderBy = balance, $orderDirection: OrderDirection = desc, $where: VisibilityBalance_filter) {
+  visibilityBalances(
+    first: $first
+    skip: $skip
+    orderBy: $orderBy
+    orderDirection: $orderDirection
+    where: $where
+  ) {
+    id
+    user
+    balance
+    costBasis
+    averageEntryCost
+    realizedPnl
+    totalFeesPaid
+    visibility {
+      id
+      currentPrice
+      totalSupply
+    }
+  }
+}
+    ` as unknown as DocumentNode<GetVisibilityBalancesQuery, GetVisibilityBalancesQueryVariables>;
+export const GetVisibilityServiceExecutionsDocument = gql`
+    query GetVisibilityServiceExecutions($first: Int = 25, $skip: Int = 0, $orderBy: VisibilityServiceExecution_orderBy = lastUpdated, $orderDirection: OrderDirection = desc, $where: VisibilityServiceExecution_filter) {
+  visibilityServiceExecutions(
+    first: $first
+    skip: $skip
+    orderBy: $orderBy
+    orderDirection: $orderDirection
+    where: $where
+  ) {
+    id
+    state
+    executionNonce
+    requester
+    creditsCostAmount
+    acceptanceDeadline
+    autoValidationTimestamp
+    disputeDeadline
+    requestData
+    responseData
+    cancelData
+    disputeData
+    resolveData
+    refundAmount
+    creatorAmount
+    disputeBondAmount
+    disputeBondRequesterAmount
+    disputeBondCreatorAmount
+    arbitrationRefundBps
+    arbitrationVotes {
+      id
+      arbiter {
+        address
+      }
+      refundBps
+      reason
+    }
+    lastUpdated
+    service {
+      id
+      serviceType
+      creditsCostAmount
+      visibility {
+        id
+        creator {
+          id
+        }
+      }
     }
   }
 }
-    ` as unknown as DocumentNode<GetGreetingsQuery, GetGreetingsQueryVariables>;
+    ` as unknown as DocumentNode<GetVisibilityServiceExecutionsQuery, GetVisibilityServiceExecutionsQueryVariables>;
+export const GetVisibilityServiceExecutionDocument = gql`
+    query GetVisibilityServiceExecution($id: ID!) {
+  visibilityServiceExecution(id: $id) {
+    id
+    state
+    executionNonce
+    requester
+    creditsCostAmount
+    disputeDeadline
+    requestData
+    responseData
+    cancelData
+    disputeData
+    resolveData
+    refundAmount
+    creatorAmount
+    lastUpdated
+    service {
+      id
+      serviceType
+      metadataURI
+      visibility {
+        id
+        creator {
+          id
+        }
+      }
+    }
+    evidence(orderBy: index, orderDirection: asc) {
+      id
+      from
+      party
+      evidence
+      blockTimestamp
+    }
+  }
+}
+    ` as unknown as DocumentNode<GetVisibilityServiceExecutionQuery, GetVisibilityServiceExecutionQueryVariables>;
+export const GetVisibilityServicesDocument = gql`
+    query GetVisibilityServices($first: Int = 25, $skip: Int = 0, $orderBy: VisibilityService_orderBy = id, $orderDirection: OrderDirection = asc, $where: VisibilityService_filter) {
+  visibilityServices(
+    first: $first
+    skip: $skip
+    orderBy: $orderBy
+    orderDirection: $orderDirection
+    where: $where
+  ) {
+    id
+    serviceType
+    creditsCostAmount
+    enabled
+    visibility {
+      id
+      creator {
+        id
+      }
+    }
+  }
+}
+    ` as unknown as DocumentNode<GetVisibilityServicesQuery, GetVisibilityServicesQueryVariables>;
+
+
+
+
+
+
+
+
+
+
 
 
 export type Requester<C = {}, E = unknown> = <R, V>(doc: DocumentNode, vars?: V, options?: C) => Promise<R> | AsyncIterable<R>
 export function getSdk<C, E>(requester: Requester<C, E>) {
   return {
-    GetGreetings(variables?: GetGreetingsQueryVariables, options?: C): Promise<GetGreetingsQuery> {
-      return requester<GetGreetingsQuery, GetGreetingsQueryVariables>(GetGreetingsDocument, variables, options) as Promise<GetGreetingsQuery>;
+    GetArbitrationPanel(variables: GetArbitrationPanelQueryVariables, options?: C): Promise<GetArbitrationPanelQuery> {
+      return requester<GetArbitrationPanelQuery, GetArbitrationPanelQueryVariables>(GetArbitrationPanelDocument, variables, options) as Promise<GetArbitrationPanelQuery>;
+    },
+    GetCreator(variables: GetCreatorQueryVariables, options?: C): Promise<GetCreatorQuery> {
+      return requester<GetCreatorQuery, GetCreatorQueryVariables>(GetCreatorDocument, variables, options) as Promise<GetCreatorQuery>;
+    },
+    GetCreditsTrades(variables?: GetCreditsTradesQueryVariables, options?: C): Promise<GetCreditsTradesQuery> {
+      return requester<GetCreditsTradesQuery, GetCreditsTradesQueryVariables>(GetCreditsTradesDocument, variables, options) as Promise<GetCreditsTradesQuery>;
+    },
+    GetReferrers(variables?: GetReferrersQueryVariables, options?: C): Promise<GetReferrersQuery> {
+      return requester<GetReferrersQuery, GetReferrersQueryVariables>(GetReferrersDocument, variables, options) as Promise<GetReferrersQuery>;
+    },
+    GetReferrer(variables: GetReferrerQueryVariables, options?: C): Promise<GetReferrerQuery> {
+      return requester<GetReferrerQuery, GetReferrerQueryVariables>(GetReferrerDocument, variables, options) as Promise<GetReferrerQuery>;
+    },
+    GetVisibilities(variables?: GetVisibilitiesQueryVariables, options?: C): Promise<GetVisibilitiesQuery> {
+      return requester<GetVisibilitiesQuery, GetVisibilitiesQueryVariables>(GetVisibilitiesDocument, variables, options) as Promise<GetVisibilitiesQuery>;
+    },
+    GetVisibility(variables: GetVisibilityQueryVariables, options?: C): Promise<GetVisibilityQuery> {
+      return requester<GetVisibilityQuery, GetVisibilityQueryVariables>(GetVisibilityDocument, variables, options) as Promise<GetVisibilityQuery>;
+    },
+    GetVisibilityBalances(variables?: GetVisibilityBalancesQueryVariables, options?: C): Promise<GetVisibilityBalancesQuery> {
+      return requester<GetVisibilityBalancesQuery, GetVisibilityBalancesQueryVariables>(GetVisibilityBalancesDocument, variables, options) as Promise<GetVisibilityBalancesQuery>;
+    },
+    GetVisibilityServiceExecutions(variables?: GetVisibilityServiceExecutionsQueryVariables, options?: C): Promise<GetVisibilityServiceExecutionsQuery> {
+      return requester<GetVisibilityServiceExecutionsQuery, GetVisibilityServiceExecutionsQueryVariables>(GetVisibilityServiceExecutionsDocument, variables, options) as Promise<GetVisibilityServiceExecutionsQuery>;
+    },
+    GetVisibilityServiceExecution(variables: GetVisibilityServiceExecutionQueryVariables, options?: C): Promise<GetVisibilityServiceExecutionQuery> {
+      return requester<GetVisibilityServiceExecutionQuery, GetVisibilityServiceExecutionQueryVariables>(GetVisibilityServiceExecutionDocument, variables, options) as Promise<GetVisibilityServiceExecutionQuery>;
+    },
+    GetVisibilityServices(variables?: GetVisibilityServicesQueryVariables, options?: C): Promise<GetVisibilityServicesQuery> {
+      return requester<GetVisibilityServicesQuery, GetVisibilityServicesQueryVariables>(GetVisibilityServicesDocument, variables, options) as Promise<GetVisibilityServicesQuery>;
     }
   };
 }
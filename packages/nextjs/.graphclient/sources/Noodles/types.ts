@@ -0,0 +1,9414 @@
+// @ts-nocheck
+
+import { InContextSdkMethod } from '@graphql-mesh/types';
+import { MeshContext } from '@graphql-mesh/runtime';
+
+export namespace NoodlesTypes {
+  export type Maybe<T> = T | null;
+export type InputMaybe<T> = Maybe<T>;
+export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+export type MakeOptional<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]?: Maybe<T[SubKey]> };
+export type MakeMaybe<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]: Maybe<T[SubKey]> };
+export type MakeEmpty<T extends { [key: string]: unknown }, K extends keyof T> = { [_ in K]?: never };
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+/** All built-in and custom scalars, mapped to their actual values */
+export type Scalars = {
+  ID: { input: string; output: string; }
+  String: { input: string; output: string; }
+  Boolean: { input: boolean; output: boolean; }
+  Int: { input: number; output: number; }
+  Float: { input: number; output: number; }
+  BigDecimal: { input: any; output: any; }
+  BigInt: { input: any; output: any; }
+  Bytes: { input: any; output: any; }
+  /** 8 bytes signed integer */
+  Int8: { input: any; output: any; }
+};
+
+export type BlockChangedFilter = {
+  number_gte: Scalars['Int']['input'];
+};
+
+export type Block_height = {
+  hash?: InputMaybe<Scalars['Bytes']['input']>;
+  number?: InputMaybe<Scalars['Int']['input']>;
+  number_gte?: InputMaybe<Scalars['Int']['input']>;
+};
+
+/** Defines the order direction, either ascending or descending */
+export type OrderDirection =
+  | 'asc'
+  | 'desc';
+
+export type _Block_ = {
+  /** The hash of the block */
+  hash?: Maybe<Scalars['Bytes']['output']>;
+  /** The block number */
+  number: Scalars['Int']['output'];
+  /** Integer representation of the timestamp stored in blocks for the chain */
+  timestamp?: Maybe<Scalars['Int']['output']>;
+};
+
+/** The type for the top-level _meta field */
+export type _Meta_ = {
+  /**
+   * Information about a specific subgraph block. The hash of the block
+   * will be null if the _meta field has a block constraint that asks for
+   * a block number. It will be filled if the _meta field has no block constraint
+   * and therefore asks for the latest  block
+   */
+  block: _Block_;
+  /** The deployment ID */
+  deployment: Scalars['String']['output'];
+  /** If `true`, the subgraph encountered indexing errors at some past block */
+  hasIndexingErrors: Scalars['Boolean']['output'];
+};
+
+export type _SubgraphErrorPolicy_ =
+  /** Data will be returned even if the subgraph has indexing errors */
+  | 'allow'
+  /** If the subgraph has indexing errors, data will be omitted. The default. */
+  | 'deny';
+
+export type ExecutionState =
+  | 'UNINITIALIZED'
+  | 'REQUESTED'
+  | 'ACCEPTED'
+  | 'DISPUTED'
+  | 'REFUNDED'
+  | 'VALIDATED'
+  | 'SPLIT';
+
+export type DisputeParty =
+  | 'REQUESTER'
+  | 'CREATOR'
+  | 'RESOLVER';
+
+export type CandleInterval =
+  | 'HOUR'
+  | 'DAY';
+
+export type FeeChangeStatus =
+  | 'SCHEDULED'
+  | 'CANCELED'
+  | 'APPLIED';
+
+export type Creator = {
+  id: Scalars['Bytes']['output'];
+  totalFeesAccrued: Scalars['BigInt']['output'];
+  totalFeesClaimed: Scalars['BigInt']['output'];
+  claimableFeeBalance: Scalars['BigInt']['output'];
+  visibilities: Array<Visibility>;
+};
+
+
+export type CreatorvisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Visibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Visibility_filter>;
+};
+
+export type Creator_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  totalFeesAccrued?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesAccrued_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  visibilities_?: InputMaybe<Visibility_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Creator_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Creator_filter>>>;
+};
+
+export type Creator_orderBy =
+  | 'id'
+  | 'totalFeesAccrued'
+  | 'totalFeesClaimed'
+  | 'claimableFeeBalance'
+  | 'visibilities';
+
+export type Visibility = {
+  id: Scalars['String']['output'];
+  platform?: Maybe<Scalars['String']['output']>;
+  handle?: Maybe<Scalars['String']['output']>;
+  creator?: Maybe<Creator>;
+  currentPrice: Scalars['BigInt']['output'];
+  totalSupply: Scalars['BigInt']['output'];
+  creatorFeesAccrued: Scalars['BigInt']['output'];
+  creatorFeesClaimed: Scalars['BigInt']['output'];
+  claimableFeeBalance: Scalars['BigInt']['output'];
+  curveA: Scalars['BigInt']['output'];
+  curveB: Scalars['BigInt']['output'];
+  curveBasePrice: Scalars['BigInt']['output'];
+  balances: Array<VisibilityBalance>;
+  operatorApprovals: Array<OperatorApproval>;
+  trades: Array<CreditsTrade>;
+  services: Array<VisibilityService>;
+  candles: Array<VisibilityCandle>;
+};
+
+
+export type VisibilitybalancesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityBalance_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityBalance_filter>;
+};
+
+
+export type VisibilityoperatorApprovalsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApproval_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApproval_filter>;
+};
+
+
+export type VisibilitytradesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTrade_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTrade_filter>;
+};
+
+
+export type VisibilityservicesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityService_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityService_filter>;
+};
+
+
+export type VisibilitycandlesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityCandle_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityCandle_filter>;
+};
+
+export type Visibility_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform?: InputMaybe<Scalars['String']['input']>;
+  platform_not?: InputMaybe<Scalars['String']['input']>;
+  platform_gt?: InputMaybe<Scalars['String']['input']>;
+  platform_lt?: InputMaybe<Scalars['String']['input']>;
+  platform_gte?: InputMaybe<Scalars['String']['input']>;
+  platform_lte?: InputMaybe<Scalars['String']['input']>;
+  platform_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  platform_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  platform_contains?: InputMaybe<Scalars['String']['input']>;
+  platform_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_not_contains?: InputMaybe<Scalars['String']['input']>;
+  platform_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_starts_with?: InputMaybe<Scalars['String']['input']>;
+  platform_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  platform_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_ends_with?: InputMaybe<Scalars['String']['input']>;
+  platform_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  platform_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  platform_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle?: InputMaybe<Scalars['String']['input']>;
+  handle_not?: InputMaybe<Scalars['String']['input']>;
+  handle_gt?: InputMaybe<Scalars['String']['input']>;
+  handle_lt?: InputMaybe<Scalars['String']['input']>;
+  handle_gte?: InputMaybe<Scalars['String']['input']>;
+  handle_lte?: InputMaybe<Scalars['String']['input']>;
+  handle_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  handle_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  handle_contains?: InputMaybe<Scalars['String']['input']>;
+  handle_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_not_contains?: InputMaybe<Scalars['String']['input']>;
+  handle_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_starts_with?: InputMaybe<Scalars['String']['input']>;
+  handle_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  handle_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_ends_with?: InputMaybe<Scalars['String']['input']>;
+  handle_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  handle_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  handle_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator?: InputMaybe<Scalars['String']['input']>;
+  creator_not?: InputMaybe<Scalars['String']['input']>;
+  creator_gt?: InputMaybe<Scalars['String']['input']>;
+  creator_lt?: InputMaybe<Scalars['String']['input']>;
+  creator_gte?: InputMaybe<Scalars['String']['input']>;
+  creator_lte?: InputMaybe<Scalars['String']['input']>;
+  creator_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  creator_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  creator_contains?: InputMaybe<Scalars['String']['input']>;
+  creator_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_not_contains?: InputMaybe<Scalars['String']['input']>;
+  creator_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_starts_with?: InputMaybe<Scalars['String']['input']>;
+  creator_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  creator_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_ends_with?: InputMaybe<Scalars['String']['input']>;
+  creator_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  creator_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator_?: InputMaybe<Creator_filter>;
+  currentPrice?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_not?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  currentPrice_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  currentPrice_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalSupply?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalSupply_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalSupply_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFeesAccrued?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesAccrued_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFeesAccrued_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFeesClaimed?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFeesClaimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFeesClaimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveA?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_not?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveA_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveA_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveB?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_not?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveB_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveB_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveBasePrice?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_not?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  curveBasePrice_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  curveBasePrice_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  balances_?: InputMaybe<VisibilityBalance_filter>;
+  operatorApprovals_?: InputMaybe<OperatorApproval_filter>;
+  trades_?: InputMaybe<CreditsTrade_filter>;
+  services_?: InputMaybe<VisibilityService_filter>;
+  candles_?: InputMaybe<VisibilityCandle_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Visibility_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Visibility_filter>>>;
+};
+
+export type Visibility_orderBy =
+  | 'id'
+  | 'platform'
+  | 'handle'
+  | 'creator'
+  | 'creator__id'
+  | 'creator__totalFeesAccrued'
+  | 'creator__totalFeesClaimed'
+  | 'creator__claimableFeeBalance'
+  | 'currentPrice'
+  | 'totalSupply'
+  | 'creatorFeesAccrued'
+  | 'creatorFeesClaimed'
+  | 'claimableFeeBalance'
+  | 'curveA'
+  | 'curveB'
+  | 'curveBasePrice'
+  | 'balances'
+  | 'operatorApprovals'
+  | 'trades'
+  | 'services'
+  | 'candles';
+
+export type VisibilityBalance = {
+  id: Scalars['String']['output'];
+  visibility: Visibility;
+  user: Scalars['Bytes']['output'];
+  balance: Scalars['BigInt']['output'];
+  costBasis: Scalars['BigInt']['output'];
+  averageEntryCost: Scalars['BigInt']['output'];
+  realizedPnl: Scalars['BigInt']['output'];
+  totalFeesPaid: Scalars['BigInt']['output'];
+};
+
+export type VisibilityBalance_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  user?: InputMaybe<Scalars['Bytes']['input']>;
+  user_not?: InputMaybe<Scalars['Bytes']['input']>;
+  user_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  user_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  user_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  user_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  user_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  user_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  balance?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  balance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  balance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  costBasis?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_not?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  costBasis_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  costBasis_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  averageEntryCost?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_not?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  averageEntryCost_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  averageEntryCost_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  realizedPnl?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_not?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  realizedPnl_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  realizedPnl_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesPaid?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesPaid_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesPaid_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityBalance_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityBalance_filter>>>;
+};
+
+export type VisibilityBalance_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'user'
+  | 'balance'
+  | 'costBasis'
+  | 'averageEntryCost'
+  | 'realizedPnl'
+  | 'totalFeesPaid';
+
+export type OperatorApproval = {
+  id: Scalars['String']['output'];
+  visibility: Visibility;
+  owner: Scalars['Bytes']['output'];
+  operator: Scalars['Bytes']['output'];
+  approved: Scalars['Boolean']['output'];
+};
+
+export type OperatorApproval_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  owner?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_not?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  owner_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  owner_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  operator?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_not?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  operator_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  operator_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  approved?: InputMaybe<Scalars['Boolean']['input']>;
+  approved_not?: InputMaybe<Scalars['Boolean']['input']>;
+  approved_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  approved_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<OperatorApproval_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<OperatorApproval_filter>>>;
+};
+
+export type OperatorApproval_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'owner'
+  | 'operator'
+  | 'approved';
+
+export type VisibilityService = {
+  id: Scalars['String']['output'];
+  visibility: Visibility;
+  serviceType: Scalars['String']['output'];
+  creditsCostAmount: Scalars['BigInt']['output'];
+  enabled: Scalars['Boolean']['output'];
+  metadataURI?: Maybe<Scalars['String']['output']>;
+  maxOpenExecutions: Scalars['BigInt']['output'];
+  acceptanceDelay: Scalars['BigInt']['output'];
+  validationDelay: Scalars['BigInt']['output'];
+  executions: Array<VisibilityServiceExecution>;
+  updates: Array<ServiceUpdated>;
+};
+
+
+export type VisibilityServiceexecutionsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServiceExecution_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServiceExecution_filter>;
+};
+
+
+export type VisibilityServiceupdatesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceUpdated_filter>;
+};
+
+export type VisibilityService_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  serviceType?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not?: InputMaybe<Scalars['String']['input']>;
+  serviceType_gt?: InputMaybe<Scalars['String']['input']>;
+  serviceType_lt?: InputMaybe<Scalars['String']['input']>;
+  serviceType_gte?: InputMaybe<Scalars['String']['input']>;
+  serviceType_lte?: InputMaybe<Scalars['String']['input']>;
+  serviceType_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  serviceType_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  serviceType_contains?: InputMaybe<Scalars['String']['input']>;
+  serviceType_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_contains?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_starts_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_ends_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creditsCostAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creditsCostAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  enabled?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_not?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  enabled_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  metadataURI?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_gt?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_lt?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_gte?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_lte?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  metadataURI_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  metadataURI_contains?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_contains?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_starts_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_ends_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  maxOpenExecutions?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_not?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  maxOpenExecutions_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  validationDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  validationDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executions_?: InputMaybe<VisibilityServiceExecution_filter>;
+  updates_?: InputMaybe<ServiceUpdated_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityService_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityService_filter>>>;
+};
+
+export type VisibilityService_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'serviceType'
+  | 'creditsCostAmount'
+  | 'enabled'
+  | 'metadataURI'
+  | 'maxOpenExecutions'
+  | 'acceptanceDelay'
+  | 'validationDelay'
+  | 'executions'
+  | 'updates';
+
+export type VisibilityServiceExecution = {
+  id: Scalars['String']['output'];
+  state: ExecutionState;
+  service: VisibilityService;
+  executionNonce: Scalars['BigInt']['output'];
+  requester: Scalars['Bytes']['output'];
+  creditsCostAmount: Scalars['BigInt']['output'];
+  acceptanceDeadline: Scalars['BigInt']['output'];
+  autoValidationTimestamp?: Maybe<Scalars['BigInt']['output']>;
+  disputeDeadline?: Maybe<Scalars['BigInt']['output']>;
+  requestData: Scalars['String']['output'];
+  responseData?: Maybe<Scalars['String']['output']>;
+  cancelData?: Maybe<Scalars['String']['output']>;
+  disputeData?: Maybe<Scalars['String']['output']>;
+  resolveData?: Maybe<Scalars['String']['output']>;
+  refundBps?: Maybe<Scalars['BigInt']['output']>;
+  refundAmount?: Maybe<Scalars['BigInt']['output']>;
+  creatorAmount?: Maybe<Scalars['BigInt']['output']>;
+  disputeBondAmount?: Maybe<Scalars['BigInt']['output']>;
+  disputeBondRequesterAmount?: Maybe<Scalars['BigInt']['output']>;
+  disputeBondCreatorAmount?: Maybe<Scalars['BigInt']['output']>;
+  arbitrationVotes: Array<DisputeVote>;
+  arbitrationRefundBps?: Maybe<Scalars['BigInt']['output']>;
+  evidence: Array<DisputeEvidence>;
+  evidenceCount: Scalars['BigInt']['output'];
+  lastUpdated: Scalars['BigInt']['output'];
+};
+
+
+export type VisibilityServiceExecutionarbitrationVotesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVote_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVote_filter>;
+};
+
+
+export type VisibilityServiceExecutionevidenceArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeEvidence_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeEvidence_filter>;
+};
+
+export type VisibilityServiceExecution_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  state?: InputMaybe<ExecutionState>;
+  state_not?: InputMaybe<ExecutionState>;
+  state_in?: InputMaybe<Array<ExecutionState>>;
+  state_not_in?: InputMaybe<Array<ExecutionState>>;
+  service?: InputMaybe<Scalars['String']['input']>;
+  service_not?: InputMaybe<Scalars['String']['input']>;
+  service_gt?: InputMaybe<Scalars['String']['input']>;
+  service_lt?: InputMaybe<Scalars['String']['input']>;
+  service_gte?: InputMaybe<Scalars['String']['input']>;
+  service_lte?: InputMaybe<Scalars['String']['input']>;
+  service_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  service_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  service_contains?: InputMaybe<Scalars['String']['input']>;
+  service_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_contains?: InputMaybe<Scalars['String']['input']>;
+  service_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_starts_with?: InputMaybe<Scalars['String']['input']>;
+  service_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  service_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_ends_with?: InputMaybe<Scalars['String']['input']>;
+  service_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  service_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_?: InputMaybe<VisibilityService_filter>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requester?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_not?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  requester_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  requester_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creditsCostAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creditsCostAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDeadline?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDeadline_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDeadline_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  autoValidationTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  autoValidationTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  autoValidationTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeDeadline?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeDeadline_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeDeadline_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requestData?: InputMaybe<Scalars['String']['input']>;
+  requestData_not?: InputMaybe<Scalars['String']['input']>;
+  requestData_gt?: InputMaybe<Scalars['String']['input']>;
+  requestData_lt?: InputMaybe<Scalars['String']['input']>;
+  requestData_gte?: InputMaybe<Scalars['String']['input']>;
+  requestData_lte?: InputMaybe<Scalars['String']['input']>;
+  requestData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  requestData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  requestData_contains?: InputMaybe<Scalars['String']['input']>;
+  requestData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData?: InputMaybe<Scalars['String']['input']>;
+  responseData_not?: InputMaybe<Scalars['String']['input']>;
+  responseData_gt?: InputMaybe<Scalars['String']['input']>;
+  responseData_lt?: InputMaybe<Scalars['String']['input']>;
+  responseData_gte?: InputMaybe<Scalars['String']['input']>;
+  responseData_lte?: InputMaybe<Scalars['String']['input']>;
+  responseData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  responseData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  responseData_contains?: InputMaybe<Scalars['String']['input']>;
+  responseData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not?: InputMaybe<Scalars['String']['input']>;
+  cancelData_gt?: InputMaybe<Scalars['String']['input']>;
+  cancelData_lt?: InputMaybe<Scalars['String']['input']>;
+  cancelData_gte?: InputMaybe<Scalars['String']['input']>;
+  cancelData_lte?: InputMaybe<Scalars['String']['input']>;
+  cancelData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelData_contains?: InputMaybe<Scalars['String']['input']>;
+  cancelData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not?: InputMaybe<Scalars['String']['input']>;
+  disputeData_gt?: InputMaybe<Scalars['String']['input']>;
+  disputeData_lt?: InputMaybe<Scalars['String']['input']>;
+  disputeData_gte?: InputMaybe<Scalars['String']['input']>;
+  disputeData_lte?: InputMaybe<Scalars['String']['input']>;
+  disputeData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  disputeData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  disputeData_contains?: InputMaybe<Scalars['String']['input']>;
+  disputeData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not?: InputMaybe<Scalars['String']['input']>;
+  resolveData_gt?: InputMaybe<Scalars['String']['input']>;
+  resolveData_lt?: InputMaybe<Scalars['String']['input']>;
+  resolveData_gte?: InputMaybe<Scalars['String']['input']>;
+  resolveData_lte?: InputMaybe<Scalars['String']['input']>;
+  resolveData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  resolveData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  resolveData_contains?: InputMaybe<Scalars['String']['input']>;
+  resolveData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondRequesterAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondRequesterAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondRequesterAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondCreatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondCreatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondCreatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbitrationVotes_?: InputMaybe<DisputeVote_filter>;
+  arbitrationRefundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitrationRefundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbitrationRefundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  evidence_?: InputMaybe<DisputeEvidence_filter>;
+  evidenceCount?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  evidenceCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  evidenceCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastUpdated?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_not?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdated_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastUpdated_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServiceExecution_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServiceExecution_filter>>>;
+};
+
+export type VisibilityServiceExecution_orderBy =
+  | 'id'
+  | 'state'
+  | 'service'
+  | 'service__id'
+  | 'service__serviceType'
+  | 'service__creditsCostAmount'
+  | 'service__enabled'
+  | 'service__metadataURI'
+  | 'service__maxOpenExecutions'
+  | 'service__acceptanceDelay'
+  | 'service__validationDelay'
+  | 'executionNonce'
+  | 'requester'
+  | 'creditsCostAmount'
+  | 'acceptanceDeadline'
+  | 'autoValidationTimestamp'
+  | 'disputeDeadline'
+  | 'requestData'
+  | 'responseData'
+  | 'cancelData'
+  | 'disputeData'
+  | 'resolveData'
+  | 'refundBps'
+  | 'refundAmount'
+  | 'creatorAmount'
+  | 'disputeBondAmount'
+  | 'disputeBondRequesterAmount'
+  | 'disputeBondCreatorAmount'
+  | 'arbitrationVotes'
+  | 'arbitrationRefundBps'
+  | 'evidence'
+  | 'evidenceCount'
+  | 'lastUpdated';
+
+export type Referrer = {
+  id: Scalars['Bytes']['output'];
+  totalVolume: Scalars['BigInt']['output'];
+  totalFeesEarned: Scalars['BigInt']['output'];
+  totalFeesClaimed: Scalars['BigInt']['output'];
+  claimableFeeBalance: Scalars['BigInt']['output'];
+  tradeCount: Scalars['BigInt']['output'];
+  referredTraderCount: Scalars['BigInt']['output'];
+  visibilities: Array<ReferrerVisibility>;
+  referredTraders: Array<ReferredTrader>;
+};
+
+
+export type ReferrervisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerVisibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerVisibility_filter>;
+};
+
+
+export type ReferrerreferredTradersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferredTrader_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferredTrader_filter>;
+};
+
+export type Referrer_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  totalVolume?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalVolume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalVolume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesEarned?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesEarned_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesEarned_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referredTraderCount?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  referredTraderCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referredTraderCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  visibilities_?: InputMaybe<ReferrerVisibility_filter>;
+  referredTraders_?: InputMaybe<ReferredTrader_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Referrer_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Referrer_filter>>>;
+};
+
+export type Referrer_orderBy =
+  | 'id'
+  | 'totalVolume'
+  | 'totalFeesEarned'
+  | 'totalFeesClaimed'
+  | 'claimableFeeBalance'
+  | 'tradeCount'
+  | 'referredTraderCount'
+  | 'visibilities'
+  | 'referredTraders';
+
+export type ReferrerVisibility = {
+  id: Scalars['String']['output'];
+  referrer: Referrer;
+  visibility: Visibility;
+  volume: Scalars['BigInt']['output'];
+  feesEarned: Scalars['BigInt']['output'];
+  tradeCount: Scalars['BigInt']['output'];
+};
+
+export type ReferrerVisibility_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer?: InputMaybe<Scalars['String']['input']>;
+  referrer_not?: InputMaybe<Scalars['String']['input']>;
+  referrer_gt?: InputMaybe<Scalars['String']['input']>;
+  referrer_lt?: InputMaybe<Scalars['String']['input']>;
+  referrer_gte?: InputMaybe<Scalars['String']['input']>;
+  referrer_lte?: InputMaybe<Scalars['String']['input']>;
+  referrer_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  referrer_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  referrer_contains?: InputMaybe<Scalars['String']['input']>;
+  referrer_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_contains?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_starts_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_ends_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_?: InputMaybe<Referrer_filter>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  volume?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  volume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  feesEarned?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_not?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  feesEarned_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  feesEarned_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ReferrerVisibility_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ReferrerVisibility_filter>>>;
+};
+
+export type ReferrerVisibility_orderBy =
+  | 'id'
+  | 'referrer'
+  | 'referrer__id'
+  | 'referrer__totalVolume'
+  | 'referrer__totalFeesEarned'
+  | 'referrer__totalFeesClaimed'
+  | 'referrer__claimableFeeBalance'
+  | 'referrer__tradeCount'
+  | 'referrer__referredTraderCount'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'volume'
+  | 'feesEarned'
+  | 'tradeCount';
+
+export type ReferredTrader = {
+  id: Scalars['String']['output'];
+  referrer: Referrer;
+  trader: Scalars['Bytes']['output'];
+  volume: Scalars['BigInt']['output'];
+  tradeCount: Scalars['BigInt']['output'];
+};
+
+export type ReferredTrader_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer?: InputMaybe<Scalars['String']['input']>;
+  referrer_not?: InputMaybe<Scalars['String']['input']>;
+  referrer_gt?: InputMaybe<Scalars['String']['input']>;
+  referrer_lt?: InputMaybe<Scalars['String']['input']>;
+  referrer_gte?: InputMaybe<Scalars['String']['input']>;
+  referrer_lte?: InputMaybe<Scalars['String']['input']>;
+  referrer_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  referrer_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  referrer_contains?: InputMaybe<Scalars['String']['input']>;
+  referrer_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_contains?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_starts_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_ends_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  referrer_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  referrer_?: InputMaybe<Referrer_filter>;
+  trader?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_not?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  trader_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  trader_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  trader_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  volume?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  volume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  volume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ReferredTrader_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ReferredTrader_filter>>>;
+};
+
+export type ReferredTrader_orderBy =
+  | 'id'
+  | 'referrer'
+  | 'referrer__id'
+  | 'referrer__totalVolume'
+  | 'referrer__totalFeesEarned'
+  | 'referrer__totalFeesClaimed'
+  | 'referrer__claimableFeeBalance'
+  | 'referrer__tradeCount'
+  | 'referrer__referredTraderCount'
+  | 'trader'
+  | 'volume'
+  | 'tradeCount';
+
+export type VisibilityCandle = {
+  id: Scalars['String']['output'];
+  visibility: Visibility;
+  interval: CandleInterval;
+  periodStart: Scalars['BigInt']['output'];
+  open: Scalars['BigInt']['output'];
+  high: Scalars['BigInt']['output'];
+  low: Scalars['BigInt']['output'];
+  close: Scalars['BigInt']['output'];
+  buyVolumeCredits: Scalars['BigInt']['output'];
+  sellVolumeCredits: Scalars['BigInt']['output'];
+  buyVolumeWei: Scalars['BigInt']['output'];
+  sellVolumeWei: Scalars['BigInt']['output'];
+  tradeCount: Scalars['BigInt']['output'];
+  creatorFees: Scalars['BigInt']['output'];
+  protocolFees: Scalars['BigInt']['output'];
+  referrerFees: Scalars['BigInt']['output'];
+};
+
+export type VisibilityCandle_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  interval?: InputMaybe<CandleInterval>;
+  interval_not?: InputMaybe<CandleInterval>;
+  interval_in?: InputMaybe<Array<CandleInterval>>;
+  interval_not_in?: InputMaybe<Array<CandleInterval>>;
+  periodStart?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_not?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  periodStart_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  open?: InputMaybe<Scalars['BigInt']['input']>;
+  open_not?: InputMaybe<Scalars['BigInt']['input']>;
+  open_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  open_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  open_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  open_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  open_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  open_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  high?: InputMaybe<Scalars['BigInt']['input']>;
+  high_not?: InputMaybe<Scalars['BigInt']['input']>;
+  high_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  high_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  high_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  high_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  high_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  high_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  low?: InputMaybe<Scalars['BigInt']['input']>;
+  low_not?: InputMaybe<Scalars['BigInt']['input']>;
+  low_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  low_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  low_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  low_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  low_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  low_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  close?: InputMaybe<Scalars['BigInt']['input']>;
+  close_not?: InputMaybe<Scalars['BigInt']['input']>;
+  close_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  close_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  close_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  close_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  close_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  close_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  buyVolumeCredits?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_not?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeCredits_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  buyVolumeCredits_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sellVolumeCredits?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_not?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeCredits_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sellVolumeCredits_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  buyVolumeWei?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_not?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  buyVolumeWei_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  buyVolumeWei_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sellVolumeWei?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_not?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  sellVolumeWei_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sellVolumeWei_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFees?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFees_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFees_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFees?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_not?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFees_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFees_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFees?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_not?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFees_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFees_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityCandle_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityCandle_filter>>>;
+};
+
+export type VisibilityCandle_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'interval'
+  | 'periodStart'
+  | 'open'
+  | 'high'
+  | 'low'
+  | 'close'
+  | 'buyVolumeCredits'
+  | 'sellVolumeCredits'
+  | 'buyVolumeWei'
+  | 'sellVolumeWei'
+  | 'tradeCount'
+  | 'creatorFees'
+  | 'protocolFees'
+  | 'referrerFees';
+
+export type ProtocolTreasury = {
+  id: Scalars['String']['output'];
+  totalFeesAccrued: Scalars['BigInt']['output'];
+  totalFeesClaimed: Scalars['BigInt']['output'];
+  claimableFeeBalance: Scalars['BigInt']['output'];
+};
+
+export type ProtocolTreasury_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  totalFeesAccrued?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesAccrued_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesAccrued_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalFeesClaimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalFeesClaimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimableFeeBalance_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimableFeeBalance_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ProtocolTreasury_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ProtocolTreasury_filter>>>;
+};
+
+export type ProtocolTreasury_orderBy =
+  | 'id'
+  | 'totalFeesAccrued'
+  | 'totalFeesClaimed'
+  | 'claimableFeeBalance';
+
+export type CreatorFeeClaimed = {
+  id: Scalars['Bytes']['output'];
+  creator: Scalars['Bytes']['output'];
+  visibilityId: Scalars['String']['output'];
+  amount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CreatorFeeClaimed_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creator?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_not?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  creator_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  creator_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibilityId?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CreatorFeeClaimed_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CreatorFeeClaimed_filter>>>;
+};
+
+export type CreatorFeeClaimed_orderBy =
+  | 'id'
+  | 'creator'
+  | 'visibilityId'
+  | 'amount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ProtocolFeesClaimed = {
+  id: Scalars['Bytes']['output'];
+  treasury: Scalars['Bytes']['output'];
+  amount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ProtocolFeesClaimed_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_not?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  treasury_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  treasury_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  treasury_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ProtocolFeesClaimed_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ProtocolFeesClaimed_filter>>>;
+};
+
+export type ProtocolFeesClaimed_orderBy =
+  | 'id'
+  | 'treasury'
+  | 'amount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ReferrerFeesClaimed = {
+  id: Scalars['Bytes']['output'];
+  referrer: Scalars['Bytes']['output'];
+  amount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ReferrerFeesClaimed_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_not?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  referrer_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  referrer_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  referrer_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ReferrerFeesClaimed_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ReferrerFeesClaimed_filter>>>;
+};
+
+export type ReferrerFeesClaimed_orderBy =
+  | 'id'
+  | 'referrer'
+  | 'amount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type OperatorApprovalSet = {
+  id: Scalars['Bytes']['output'];
+  visibilityId: Scalars['String']['output'];
+  owner: Scalars['Bytes']['output'];
+  operator: Scalars['Bytes']['output'];
+  approved: Scalars['Boolean']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type OperatorApprovalSet_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibilityId?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  owner?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_not?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  owner_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  owner_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  owner_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  operator?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_not?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  operator_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  operator_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  operator_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  approved?: InputMaybe<Scalars['Boolean']['input']>;
+  approved_not?: InputMaybe<Scalars['Boolean']['input']>;
+  approved_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  approved_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<OperatorApprovalSet_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<OperatorApprovalSet_filter>>>;
+};
+
+export type OperatorApprovalSet_orderBy =
+  | 'id'
+  | 'visibilityId'
+  | 'owner'
+  | 'operator'
+  | 'approved'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type CreatorVisibilitySet = {
+  id: Scalars['Bytes']['output'];
+  visibilityId: Scalars['String']['output'];
+  creator: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CreatorVisibilitySet_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibilityId?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creator?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_not?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  creator_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  creator_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creator_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CreatorVisibilitySet_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CreatorVisibilitySet_filter>>>;
+};
+
+export type CreatorVisibilitySet_orderBy =
+  | 'id'
+  | 'visibilityId'
+  | 'creator'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type CurveSet = {
+  id: Scalars['Bytes']['output'];
+  visibilityId: Scalars['String']['output'];
+  a: Scalars['BigInt']['output'];
+  b: Scalars['BigInt']['output'];
+  basePrice: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CurveSet_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibilityId?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lt?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_gte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_lte?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibilityId_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibilityId_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  a?: InputMaybe<Scalars['BigInt']['input']>;
+  a_not?: InputMaybe<Scalars['BigInt']['input']>;
+  a_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  a_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  a_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  a_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  a_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  a_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  b?: InputMaybe<Scalars['BigInt']['input']>;
+  b_not?: InputMaybe<Scalars['BigInt']['input']>;
+  b_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  b_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  b_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  b_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  b_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  b_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  basePrice?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_not?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  basePrice_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  basePrice_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CurveSet_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CurveSet_filter>>>;
+};
+
+export type CurveSet_orderBy =
+  | 'id'
+  | 'visibilityId'
+  | 'a'
+  | 'b'
+  | 'basePrice'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type Platform = {
+  id: Scalars['String']['output'];
+  enabled: Scalars['Boolean']['output'];
+  lowercase: Scalars['Boolean']['output'];
+  minHandleLength: Scalars['Int']['output'];
+  maxHandleLength: Scalars['Int']['output'];
+  allowedSymbols: Scalars['String']['output'];
+  updatedAt: Scalars['BigInt']['output'];
+};
+
+export type Platform_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  enabled?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_not?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  enabled_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  lowercase?: InputMaybe<Scalars['Boolean']['input']>;
+  lowercase_not?: InputMaybe<Scalars['Boolean']['input']>;
+  lowercase_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  lowercase_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  minHandleLength?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_not?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_gt?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_lt?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_gte?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_lte?: InputMaybe<Scalars['Int']['input']>;
+  minHandleLength_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  minHandleLength_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  maxHandleLength?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_not?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_gt?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_lt?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_gte?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_lte?: InputMaybe<Scalars['Int']['input']>;
+  maxHandleLength_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  maxHandleLength_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  allowedSymbols?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_gt?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_lt?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_gte?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_lte?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  allowedSymbols_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  allowedSymbols_contains?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_contains?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_starts_with?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_ends_with?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  allowedSymbols_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  updatedAt?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  updatedAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  updatedAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Platform_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Platform_filter>>>;
+};
+
+export type Platform_orderBy =
+  | 'id'
+  | 'enabled'
+  | 'lowercase'
+  | 'minHandleLength'
+  | 'maxHandleLength'
+  | 'allowedSymbols'
+  | 'updatedAt';
+
+export type PlatformSet = {
+  id: Scalars['Bytes']['output'];
+  prefix: Scalars['String']['output'];
+  rules_enabled: Scalars['Boolean']['output'];
+  rules_lowercase: Scalars['Boolean']['output'];
+  rules_minHandleLength: Scalars['Int']['output'];
+  rules_maxHandleLength: Scalars['Int']['output'];
+  rules_allowedSymbols: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type PlatformSet_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  prefix?: InputMaybe<Scalars['String']['input']>;
+  prefix_not?: InputMaybe<Scalars['String']['input']>;
+  prefix_gt?: InputMaybe<Scalars['String']['input']>;
+  prefix_lt?: InputMaybe<Scalars['String']['input']>;
+  prefix_gte?: InputMaybe<Scalars['String']['input']>;
+  prefix_lte?: InputMaybe<Scalars['String']['input']>;
+  prefix_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  prefix_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  prefix_contains?: InputMaybe<Scalars['String']['input']>;
+  prefix_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_contains?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_starts_with?: InputMaybe<Scalars['String']['input']>;
+  prefix_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_ends_with?: InputMaybe<Scalars['String']['input']>;
+  prefix_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  prefix_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_enabled?: InputMaybe<Scalars['Boolean']['input']>;
+  rules_enabled_not?: InputMaybe<Scalars['Boolean']['input']>;
+  rules_enabled_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  rules_enabled_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  rules_lowercase?: InputMaybe<Scalars['Boolean']['input']>;
+  rules_lowercase_not?: InputMaybe<Scalars['Boolean']['input']>;
+  rules_lowercase_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  rules_lowercase_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  rules_minHandleLength?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_not?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_gt?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_lt?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_gte?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_lte?: InputMaybe<Scalars['Int']['input']>;
+  rules_minHandleLength_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rules_minHandleLength_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rules_maxHandleLength?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_not?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_gt?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_lt?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_gte?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_lte?: InputMaybe<Scalars['Int']['input']>;
+  rules_maxHandleLength_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rules_maxHandleLength_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rules_allowedSymbols?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_gt?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_lt?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_gte?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_lte?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  rules_allowedSymbols_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  rules_allowedSymbols_contains?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_contains?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_starts_with?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_ends_with?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  rules_allowedSymbols_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<PlatformSet_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<PlatformSet_filter>>>;
+};
+
+export type PlatformSet_orderBy =
+  | 'id'
+  | 'prefix'
+  | 'rules_enabled'
+  | 'rules_lowercase'
+  | 'rules_minHandleLength'
+  | 'rules_maxHandleLength'
+  | 'rules_allowedSymbols'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type FeeSchedule = {
+  id: Scalars['String']['output'];
+  creatorFee: Scalars['BigInt']['output'];
+  protocolFee: Scalars['BigInt']['output'];
+  referrerFee: Scalars['BigInt']['output'];
+  pendingChange?: Maybe<FeeChange>;
+};
+
+export type FeeSchedule_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  creatorFee?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFee?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFee?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  pendingChange?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_gt?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_lt?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_gte?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_lte?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  pendingChange_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  pendingChange_contains?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_contains?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_starts_with?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_ends_with?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  pendingChange_?: InputMaybe<FeeChange_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<FeeSchedule_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<FeeSchedule_filter>>>;
+};
+
+export type FeeSchedule_orderBy =
+  | 'id'
+  | 'creatorFee'
+  | 'protocolFee'
+  | 'referrerFee'
+  | 'pendingChange'
+  | 'pendingChange__id'
+  | 'pendingChange__creatorFee'
+  | 'pendingChange__protocolFee'
+  | 'pendingChange__referrerFee'
+  | 'pendingChange__status'
+  | 'pendingChange__effectSchedule'
+  | 'pendingChange__scheduledAt'
+  | 'pendingChange__canceledAt'
+  | 'pendingChange__appliedAt'
+  | 'pendingChange__transactionHash';
+
+export type FeeChange = {
+  id: Scalars['Bytes']['output'];
+  creatorFee: Scalars['BigInt']['output'];
+  protocolFee: Scalars['BigInt']['output'];
+  referrerFee: Scalars['BigInt']['output'];
+  status: FeeChangeStatus;
+  effectSchedule?: Maybe<Scalars['BigInt']['output']>;
+  scheduledAt?: Maybe<Scalars['BigInt']['output']>;
+  canceledAt?: Maybe<Scalars['BigInt']['output']>;
+  appliedAt?: Maybe<Scalars['BigInt']['output']>;
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type FeeChange_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  creatorFee?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFee?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  protocolFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocolFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFee?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  referrerFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  referrerFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  status?: InputMaybe<FeeChangeStatus>;
+  status_not?: InputMaybe<FeeChangeStatus>;
+  status_in?: InputMaybe<Array<FeeChangeStatus>>;
+  status_not_in?: InputMaybe<Array<FeeChangeStatus>>;
+  effectSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  scheduledAt?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  scheduledAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  scheduledAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  canceledAt?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  canceledAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  canceledAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  appliedAt?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  appliedAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  appliedAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<FeeChange_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<FeeChange_filter>>>;
+};
+
+export type FeeChange_orderBy =
+  | 'id'
+  | 'creatorFee'
+  | 'protocolFee'
+  | 'referrerFee'
+  | 'status'
+  | 'effectSchedule'
+  | 'scheduledAt'
+  | 'canceledAt'
+  | 'appliedAt'
+  | 'transactionHash';
+
+export type CreditsTrade = {
+  id: Scalars['Bytes']['output'];
+  tradeEvent_from: Scalars['Bytes']['output'];
+  visibility: Visibility;
+  tradeEvent_amount: Scalars['BigInt']['output'];
+  tradeEvent_isBuy: Scalars['Boolean']['output'];
+  tradeEvent_tradeCost: Scalars['BigInt']['output'];
+  tradeEvent_creatorFee: Scalars['BigInt']['output'];
+  tradeEvent_protocolFee: Scalars['BigInt']['output'];
+  tradeEvent_referrerFee: Scalars['BigInt']['output'];
+  tradeEvent_referrer: Scalars['Bytes']['output'];
+  tradeEvent_newTotalSupply: Scalars['BigInt']['output'];
+  tradeEvent_newCurrentPrice: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CreditsTrade_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  tradeEvent_from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  tradeEvent_from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  tradeEvent_amount?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_isBuy?: InputMaybe<Scalars['Boolean']['input']>;
+  tradeEvent_isBuy_not?: InputMaybe<Scalars['Boolean']['input']>;
+  tradeEvent_isBuy_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  tradeEvent_isBuy_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  tradeEvent_tradeCost?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_tradeCost_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_tradeCost_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_creatorFee?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_creatorFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_creatorFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_protocolFee?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_protocolFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_protocolFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_referrerFee?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_referrerFee_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_referrerFee_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_referrer?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_not?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  tradeEvent_referrer_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  tradeEvent_referrer_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_referrer_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  tradeEvent_newTotalSupply?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newTotalSupply_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_newTotalSupply_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_newCurrentPrice?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_not?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  tradeEvent_newCurrentPrice_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  tradeEvent_newCurrentPrice_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CreditsTrade_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CreditsTrade_filter>>>;
+};
+
+export type CreditsTrade_orderBy =
+  | 'id'
+  | 'tradeEvent_from'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'tradeEvent_amount'
+  | 'tradeEvent_isBuy'
+  | 'tradeEvent_tradeCost'
+  | 'tradeEvent_creatorFee'
+  | 'tradeEvent_protocolFee'
+  | 'tradeEvent_referrerFee'
+  | 'tradeEvent_referrer'
+  | 'tradeEvent_newTotalSupply'
+  | 'tradeEvent_newCurrentPrice'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type CreditsTransfer = {
+  id: Scalars['Bytes']['output'];
+  visibility: Visibility;
+  from: Scalars['Bytes']['output'];
+  to: Scalars['Bytes']['output'];
+  amount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CreditsTransfer_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  from?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  to?: InputMaybe<Scalars['Bytes']['input']>;
+  to_not?: InputMaybe<Scalars['Bytes']['input']>;
+  to_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  to_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  to_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  to_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  to_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  to_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  to_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  to_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<CreditsTransfer_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<CreditsTransfer_filter>>>;
+};
+
+export type CreditsTransfer_orderBy =
+  | 'id'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'from'
+  | 'to'
+  | 'amount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DefaultAdminDelayChangeCanceled = {
+  id: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DefaultAdminDelayChangeCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DefaultAdminDelayChangeCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DefaultAdminDelayChangeCanceled_filter>>>;
+};
+
+export type DefaultAdminDelayChangeCanceled_orderBy =
+  | 'id'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DefaultAdminDelayChangeScheduled = {
+  id: Scalars['Bytes']['output'];
+  newDelay: Scalars['BigInt']['output'];
+  effectSchedule: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DefaultAdminDelayChangeScheduled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  newDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DefaultAdminDelayChangeScheduled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DefaultAdminDelayChangeScheduled_filter>>>;
+};
+
+export type DefaultAdminDelayChangeScheduled_orderBy =
+  | 'id'
+  | 'newDelay'
+  | 'effectSchedule'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DefaultAdminTransferCanceled = {
+  id: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DefaultAdminTransferCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DefaultAdminTransferCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DefaultAdminTransferCanceled_filter>>>;
+};
+
+export type DefaultAdminTransferCanceled_orderBy =
+  | 'id'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DefaultAdminTransferScheduled = {
+  id: Scalars['Bytes']['output'];
+  newAdmin: Scalars['Bytes']['output'];
+  acceptSchedule: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DefaultAdminTransferScheduled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_not?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdmin_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdmin_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  acceptSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DefaultAdminTransferScheduled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DefaultAdminTransferScheduled_filter>>>;
+};
+
+export type DefaultAdminTransferScheduled_orderBy =
+  | 'id'
+  | 'newAdmin'
+  | 'acceptSchedule'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type RoleAdminChanged = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  previousAdminRole: Scalars['Bytes']['output'];
+  newAdminRole: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type RoleAdminChanged_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_not?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  previousAdminRole_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  previousAdminRole_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_not?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdminRole_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdminRole_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<RoleAdminChanged_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<RoleAdminChanged_filter>>>;
+};
+
+export type RoleAdminChanged_orderBy =
+  | 'id'
+  | 'role'
+  | 'previousAdminRole'
+  | 'newAdminRole'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type RoleGranted = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  account: Scalars['Bytes']['output'];
+  sender: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type RoleGranted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<RoleGranted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<RoleGranted_filter>>>;
+};
+
+export type RoleGranted_orderBy =
+  | 'id'
+  | 'role'
+  | 'account'
+  | 'sender'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type RoleRevoked = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  account: Scalars['Bytes']['output'];
+  sender: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type RoleRevoked_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<RoleRevoked_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<RoleRevoked_filter>>>;
+};
+
+export type RoleRevoked_orderBy =
+  | 'id'
+  | 'role'
+  | 'account'
+  | 'sender'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesDefaultAdminDelayChangeCanceled = {
+  id: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesDefaultAdminDelayChangeCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_filter>>>;
+};
+
+export type VisibilityServicesDefaultAdminDelayChangeCanceled_orderBy =
+  | 'id'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesDefaultAdminDelayChangeScheduled = {
+  id: Scalars['Bytes']['output'];
+  newDelay: Scalars['BigInt']['output'];
+  effectSchedule: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesDefaultAdminDelayChangeScheduled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  newDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  newDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  effectSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  effectSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_filter>>>;
+};
+
+export type VisibilityServicesDefaultAdminDelayChangeScheduled_orderBy =
+  | 'id'
+  | 'newDelay'
+  | 'effectSchedule'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesDefaultAdminTransferCanceled = {
+  id: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesDefaultAdminTransferCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_filter>>>;
+};
+
+export type VisibilityServicesDefaultAdminTransferCanceled_orderBy =
+  | 'id'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesDefaultAdminTransferScheduled = {
+  id: Scalars['Bytes']['output'];
+  newAdmin: Scalars['Bytes']['output'];
+  acceptSchedule: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesDefaultAdminTransferScheduled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_not?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdmin_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdmin_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdmin_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  acceptSchedule?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptSchedule_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptSchedule_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_filter>>>;
+};
+
+export type VisibilityServicesDefaultAdminTransferScheduled_orderBy =
+  | 'id'
+  | 'newAdmin'
+  | 'acceptSchedule'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesRoleAdminChanged = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  previousAdminRole: Scalars['Bytes']['output'];
+  newAdminRole: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesRoleAdminChanged_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_not?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  previousAdminRole_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  previousAdminRole_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  previousAdminRole_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_not?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdminRole_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  newAdminRole_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  newAdminRole_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleAdminChanged_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleAdminChanged_filter>>>;
+};
+
+export type VisibilityServicesRoleAdminChanged_orderBy =
+  | 'id'
+  | 'role'
+  | 'previousAdminRole'
+  | 'newAdminRole'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesRoleGranted = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  account: Scalars['Bytes']['output'];
+  sender: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesRoleGranted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleGranted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleGranted_filter>>>;
+};
+
+export type VisibilityServicesRoleGranted_orderBy =
+  | 'id'
+  | 'role'
+  | 'account'
+  | 'sender'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type VisibilityServicesRoleRevoked = {
+  id: Scalars['Bytes']['output'];
+  role: Scalars['Bytes']['output'];
+  account: Scalars['Bytes']['output'];
+  sender: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type VisibilityServicesRoleRevoked_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  role_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  role_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  role_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  role_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  account_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  account_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  account_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  account_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleRevoked_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<VisibilityServicesRoleRevoked_filter>>>;
+};
+
+export type VisibilityServicesRoleRevoked_orderBy =
+  | 'id'
+  | 'role'
+  | 'account'
+  | 'sender'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceCreated = {
+  id: Scalars['Bytes']['output'];
+  nonce: Scalars['BigInt']['output'];
+  serviceType: Scalars['String']['output'];
+  visibility: Visibility;
+  creditsCostAmount: Scalars['BigInt']['output'];
+  validationDelay: Scalars['BigInt']['output'];
+  acceptanceDelay: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceCreated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  nonce?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  nonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceType?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not?: InputMaybe<Scalars['String']['input']>;
+  serviceType_gt?: InputMaybe<Scalars['String']['input']>;
+  serviceType_lt?: InputMaybe<Scalars['String']['input']>;
+  serviceType_gte?: InputMaybe<Scalars['String']['input']>;
+  serviceType_lte?: InputMaybe<Scalars['String']['input']>;
+  serviceType_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  serviceType_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  serviceType_contains?: InputMaybe<Scalars['String']['input']>;
+  serviceType_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_contains?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_starts_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_ends_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  serviceType_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility?: InputMaybe<Scalars['String']['input']>;
+  visibility_not?: InputMaybe<Scalars['String']['input']>;
+  visibility_gt?: InputMaybe<Scalars['String']['input']>;
+  visibility_lt?: InputMaybe<Scalars['String']['input']>;
+  visibility_gte?: InputMaybe<Scalars['String']['input']>;
+  visibility_lte?: InputMaybe<Scalars['String']['input']>;
+  visibility_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  visibility_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  visibility_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  visibility_?: InputMaybe<Visibility_filter>;
+  creditsCostAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creditsCostAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  validationDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  validationDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  validationDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceCreated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceCreated_filter>>>;
+};
+
+export type ServiceCreated_orderBy =
+  | 'id'
+  | 'nonce'
+  | 'serviceType'
+  | 'visibility'
+  | 'visibility__id'
+  | 'visibility__platform'
+  | 'visibility__handle'
+  | 'visibility__currentPrice'
+  | 'visibility__totalSupply'
+  | 'visibility__creatorFeesAccrued'
+  | 'visibility__creatorFeesClaimed'
+  | 'visibility__claimableFeeBalance'
+  | 'visibility__curveA'
+  | 'visibility__curveB'
+  | 'visibility__curveBasePrice'
+  | 'creditsCostAmount'
+  | 'validationDelay'
+  | 'acceptanceDelay'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionAccepted = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  responseData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionAccepted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  responseData?: InputMaybe<Scalars['String']['input']>;
+  responseData_not?: InputMaybe<Scalars['String']['input']>;
+  responseData_gt?: InputMaybe<Scalars['String']['input']>;
+  responseData_lt?: InputMaybe<Scalars['String']['input']>;
+  responseData_gte?: InputMaybe<Scalars['String']['input']>;
+  responseData_lte?: InputMaybe<Scalars['String']['input']>;
+  responseData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  responseData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  responseData_contains?: InputMaybe<Scalars['String']['input']>;
+  responseData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  responseData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionAccepted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionAccepted_filter>>>;
+};
+
+export type ServiceExecutionAccepted_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'responseData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionCanceled = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  from: Scalars['Bytes']['output'];
+  cancelData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionCanceled_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  from?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  cancelData?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not?: InputMaybe<Scalars['String']['input']>;
+  cancelData_gt?: InputMaybe<Scalars['String']['input']>;
+  cancelData_lt?: InputMaybe<Scalars['String']['input']>;
+  cancelData_gte?: InputMaybe<Scalars['String']['input']>;
+  cancelData_lte?: InputMaybe<Scalars['String']['input']>;
+  cancelData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelData_contains?: InputMaybe<Scalars['String']['input']>;
+  cancelData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  cancelData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionCanceled_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionCanceled_filter>>>;
+};
+
+export type ServiceExecutionCanceled_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'from'
+  | 'cancelData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeSettings = {
+  id: Scalars['String']['output'];
+  disputeResolutionDelay: Scalars['BigInt']['output'];
+  defaultRefundBps: Scalars['BigInt']['output'];
+  disputeBondBps: Scalars['BigInt']['output'];
+};
+
+export type DisputeSettings_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeResolutionDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeResolutionDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  defaultRefundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  defaultRefundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondBps?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeSettings_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeSettings_filter>>>;
+};
+
+export type DisputeSettings_orderBy =
+  | 'id'
+  | 'disputeResolutionDelay'
+  | 'defaultRefundBps'
+  | 'disputeBondBps';
+
+export type DisputeBondUpdated = {
+  id: Scalars['Bytes']['output'];
+  disputeBondBps: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeBondUpdated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  disputeBondBps?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeBondBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeBondBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeBondUpdated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeBondUpdated_filter>>>;
+};
+
+export type DisputeBondUpdated_orderBy =
+  | 'id'
+  | 'disputeBondBps'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeBondPosted = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  bondAmount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeBondPosted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  bondAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  bondAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  bondAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeBondPosted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeBondPosted_filter>>>;
+};
+
+export type DisputeBondPosted_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'bondAmount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeBondReleased = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  requesterAmount: Scalars['BigInt']['output'];
+  creatorAmount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeBondReleased_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requesterAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  requesterAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requesterAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeBondReleased_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeBondReleased_filter>>>;
+};
+
+export type DisputeBondReleased_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'requesterAmount'
+  | 'creatorAmount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeDefaultsUpdated = {
+  id: Scalars['Bytes']['output'];
+  disputeResolutionDelay: Scalars['BigInt']['output'];
+  defaultRefundBps: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeDefaultsUpdated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  disputeResolutionDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  disputeResolutionDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeResolutionDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  defaultRefundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  defaultRefundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  defaultRefundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeDefaultsUpdated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeDefaultsUpdated_filter>>>;
+};
+
+export type DisputeDefaultsUpdated_orderBy =
+  | 'id'
+  | 'disputeResolutionDelay'
+  | 'defaultRefundBps'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionDisputeDefaulted = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  from: Scalars['Bytes']['output'];
+  refundBps: Scalars['BigInt']['output'];
+  refundAmount: Scalars['BigInt']['output'];
+  creatorAmount: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionDisputeDefaulted_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  from?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionDisputeDefaulted_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionDisputeDefaulted_filter>>>;
+};
+
+export type ServiceExecutionDisputeDefaulted_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'from'
+  | 'refundBps'
+  | 'refundAmount'
+  | 'creatorAmount'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionExpired = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionExpired_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionExpired_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionExpired_filter>>>;
+};
+
+export type ServiceExecutionExpired_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionDisputed = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  disputeData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionDisputed_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  disputeData?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not?: InputMaybe<Scalars['String']['input']>;
+  disputeData_gt?: InputMaybe<Scalars['String']['input']>;
+  disputeData_lt?: InputMaybe<Scalars['String']['input']>;
+  disputeData_gte?: InputMaybe<Scalars['String']['input']>;
+  disputeData_lte?: InputMaybe<Scalars['String']['input']>;
+  disputeData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  disputeData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  disputeData_contains?: InputMaybe<Scalars['String']['input']>;
+  disputeData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  disputeData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionDisputed_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionDisputed_filter>>>;
+};
+
+export type ServiceExecutionDisputed_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'disputeData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionRequested = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  requester: Scalars['Bytes']['output'];
+  requestData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionRequested_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  requester?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_not?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  requester_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  requester_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  requester_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  requestData?: InputMaybe<Scalars['String']['input']>;
+  requestData_not?: InputMaybe<Scalars['String']['input']>;
+  requestData_gt?: InputMaybe<Scalars['String']['input']>;
+  requestData_lt?: InputMaybe<Scalars['String']['input']>;
+  requestData_gte?: InputMaybe<Scalars['String']['input']>;
+  requestData_lte?: InputMaybe<Scalars['String']['input']>;
+  requestData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  requestData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  requestData_contains?: InputMaybe<Scalars['String']['input']>;
+  requestData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  requestData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionRequested_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionRequested_filter>>>;
+};
+
+export type ServiceExecutionRequested_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'requester'
+  | 'requestData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeEvidence = {
+  id: Scalars['String']['output'];
+  execution: VisibilityServiceExecution;
+  index: Scalars['BigInt']['output'];
+  from: Scalars['Bytes']['output'];
+  party: DisputeParty;
+  evidence: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeEvidence_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution?: InputMaybe<Scalars['String']['input']>;
+  execution_not?: InputMaybe<Scalars['String']['input']>;
+  execution_gt?: InputMaybe<Scalars['String']['input']>;
+  execution_lt?: InputMaybe<Scalars['String']['input']>;
+  execution_gte?: InputMaybe<Scalars['String']['input']>;
+  execution_lte?: InputMaybe<Scalars['String']['input']>;
+  execution_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  execution_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  execution_contains?: InputMaybe<Scalars['String']['input']>;
+  execution_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_contains?: InputMaybe<Scalars['String']['input']>;
+  execution_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_starts_with?: InputMaybe<Scalars['String']['input']>;
+  execution_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  execution_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_ends_with?: InputMaybe<Scalars['String']['input']>;
+  execution_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  execution_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_?: InputMaybe<VisibilityServiceExecution_filter>;
+  index?: InputMaybe<Scalars['BigInt']['input']>;
+  index_not?: InputMaybe<Scalars['BigInt']['input']>;
+  index_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  index_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  index_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  index_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  index_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  index_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  from?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  from_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  from_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  from_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  from_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  party?: InputMaybe<DisputeParty>;
+  party_not?: InputMaybe<DisputeParty>;
+  party_in?: InputMaybe<Array<DisputeParty>>;
+  party_not_in?: InputMaybe<Array<DisputeParty>>;
+  evidence?: InputMaybe<Scalars['String']['input']>;
+  evidence_not?: InputMaybe<Scalars['String']['input']>;
+  evidence_gt?: InputMaybe<Scalars['String']['input']>;
+  evidence_lt?: InputMaybe<Scalars['String']['input']>;
+  evidence_gte?: InputMaybe<Scalars['String']['input']>;
+  evidence_lte?: InputMaybe<Scalars['String']['input']>;
+  evidence_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  evidence_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  evidence_contains?: InputMaybe<Scalars['String']['input']>;
+  evidence_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_contains?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_starts_with?: InputMaybe<Scalars['String']['input']>;
+  evidence_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_ends_with?: InputMaybe<Scalars['String']['input']>;
+  evidence_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  evidence_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeEvidence_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeEvidence_filter>>>;
+};
+
+export type DisputeEvidence_orderBy =
+  | 'id'
+  | 'execution'
+  | 'execution__id'
+  | 'execution__state'
+  | 'execution__executionNonce'
+  | 'execution__requester'
+  | 'execution__creditsCostAmount'
+  | 'execution__acceptanceDeadline'
+  | 'execution__autoValidationTimestamp'
+  | 'execution__disputeDeadline'
+  | 'execution__requestData'
+  | 'execution__responseData'
+  | 'execution__cancelData'
+  | 'execution__disputeData'
+  | 'execution__resolveData'
+  | 'execution__refundBps'
+  | 'execution__refundAmount'
+  | 'execution__creatorAmount'
+  | 'execution__disputeBondAmount'
+  | 'execution__disputeBondRequesterAmount'
+  | 'execution__disputeBondCreatorAmount'
+  | 'execution__arbitrationRefundBps'
+  | 'execution__evidenceCount'
+  | 'execution__lastUpdated'
+  | 'index'
+  | 'from'
+  | 'party'
+  | 'evidence'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionResolved = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  refundBps: Scalars['BigInt']['output'];
+  refundAmount: Scalars['BigInt']['output'];
+  creatorAmount: Scalars['BigInt']['output'];
+  resolveData: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionResolved_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creatorAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creatorAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  resolveData?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not?: InputMaybe<Scalars['String']['input']>;
+  resolveData_gt?: InputMaybe<Scalars['String']['input']>;
+  resolveData_lt?: InputMaybe<Scalars['String']['input']>;
+  resolveData_gte?: InputMaybe<Scalars['String']['input']>;
+  resolveData_lte?: InputMaybe<Scalars['String']['input']>;
+  resolveData_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  resolveData_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  resolveData_contains?: InputMaybe<Scalars['String']['input']>;
+  resolveData_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_contains?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_starts_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_ends_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  resolveData_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionResolved_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionResolved_filter>>>;
+};
+
+export type ServiceExecutionResolved_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'refundBps'
+  | 'refundAmount'
+  | 'creatorAmount'
+  | 'resolveData'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceExecutionValidated = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceExecutionValidated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceExecutionValidated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceExecutionValidated_filter>>>;
+};
+
+export type ServiceExecutionValidated_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ServiceUpdated = {
+  id: Scalars['Bytes']['output'];
+  nonce: Scalars['BigInt']['output'];
+  service: VisibilityService;
+  enabled: Scalars['Boolean']['output'];
+  creditsCostAmount: Scalars['BigInt']['output'];
+  metadataURI: Scalars['String']['output'];
+  maxOpenExecutions: Scalars['BigInt']['output'];
+  acceptanceDelay: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ServiceUpdated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  nonce?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  nonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  nonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  service?: InputMaybe<Scalars['String']['input']>;
+  service_not?: InputMaybe<Scalars['String']['input']>;
+  service_gt?: InputMaybe<Scalars['String']['input']>;
+  service_lt?: InputMaybe<Scalars['String']['input']>;
+  service_gte?: InputMaybe<Scalars['String']['input']>;
+  service_lte?: InputMaybe<Scalars['String']['input']>;
+  service_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  service_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  service_contains?: InputMaybe<Scalars['String']['input']>;
+  service_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_contains?: InputMaybe<Scalars['String']['input']>;
+  service_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_starts_with?: InputMaybe<Scalars['String']['input']>;
+  service_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  service_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_ends_with?: InputMaybe<Scalars['String']['input']>;
+  service_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  service_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  service_?: InputMaybe<VisibilityService_filter>;
+  enabled?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_not?: InputMaybe<Scalars['Boolean']['input']>;
+  enabled_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  enabled_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  creditsCostAmount?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  creditsCostAmount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  creditsCostAmount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  metadataURI?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_gt?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_lt?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_gte?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_lte?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  metadataURI_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  metadataURI_contains?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_contains?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_starts_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_ends_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  metadataURI_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  maxOpenExecutions?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_not?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxOpenExecutions_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  maxOpenExecutions_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_not?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  acceptanceDelay_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  acceptanceDelay_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ServiceUpdated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ServiceUpdated_filter>>>;
+};
+
+export type ServiceUpdated_orderBy =
+  | 'id'
+  | 'nonce'
+  | 'service'
+  | 'service__id'
+  | 'service__serviceType'
+  | 'service__creditsCostAmount'
+  | 'service__enabled'
+  | 'service__metadataURI'
+  | 'service__maxOpenExecutions'
+  | 'service__acceptanceDelay'
+  | 'service__validationDelay'
+  | 'enabled'
+  | 'creditsCostAmount'
+  | 'metadataURI'
+  | 'maxOpenExecutions'
+  | 'acceptanceDelay'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type Arbiter = {
+  id: Scalars['Bytes']['output'];
+  arbitration: ArbitrationSettings;
+  address: Scalars['Bytes']['output'];
+  active: Scalars['Boolean']['output'];
+  addedAt: Scalars['BigInt']['output'];
+  removedAt?: Maybe<Scalars['BigInt']['output']>;
+  votes: Array<DisputeVote>;
+};
+
+
+export type ArbitervotesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVote_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVote_filter>;
+};
+
+export type Arbiter_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbitration?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not?: InputMaybe<Scalars['String']['input']>;
+  arbitration_gt?: InputMaybe<Scalars['String']['input']>;
+  arbitration_lt?: InputMaybe<Scalars['String']['input']>;
+  arbitration_gte?: InputMaybe<Scalars['String']['input']>;
+  arbitration_lte?: InputMaybe<Scalars['String']['input']>;
+  arbitration_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  arbitration_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  arbitration_contains?: InputMaybe<Scalars['String']['input']>;
+  arbitration_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_contains?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_starts_with?: InputMaybe<Scalars['String']['input']>;
+  arbitration_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_ends_with?: InputMaybe<Scalars['String']['input']>;
+  arbitration_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  arbitration_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbitration_?: InputMaybe<ArbitrationSettings_filter>;
+  address?: InputMaybe<Scalars['Bytes']['input']>;
+  address_not?: InputMaybe<Scalars['Bytes']['input']>;
+  address_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  address_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  address_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  address_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  address_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  address_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  address_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  address_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  active?: InputMaybe<Scalars['Boolean']['input']>;
+  active_not?: InputMaybe<Scalars['Boolean']['input']>;
+  active_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  active_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  addedAt?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  addedAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  addedAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  removedAt?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_not?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  removedAt_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  removedAt_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votes_?: InputMaybe<DisputeVote_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Arbiter_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<Arbiter_filter>>>;
+};
+
+export type Arbiter_orderBy =
+  | 'id'
+  | 'arbitration'
+  | 'arbitration__id'
+  | 'arbitration__active'
+  | 'arbitration__quorum'
+  | 'arbitration__votingPeriod'
+  | 'arbitration__arbitersCount'
+  | 'address'
+  | 'active'
+  | 'addedAt'
+  | 'removedAt'
+  | 'votes';
+
+export type ArbitrationSettings = {
+  id: Scalars['Bytes']['output'];
+  active: Scalars['Boolean']['output'];
+  quorum: Scalars['BigInt']['output'];
+  votingPeriod: Scalars['BigInt']['output'];
+  arbitersCount: Scalars['BigInt']['output'];
+  arbiters: Array<Arbiter>;
+};
+
+
+export type ArbitrationSettingsarbitersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Arbiter_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Arbiter_filter>;
+};
+
+export type ArbitrationSettings_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  active?: InputMaybe<Scalars['Boolean']['input']>;
+  active_not?: InputMaybe<Scalars['Boolean']['input']>;
+  active_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  active_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  quorum?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_not?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  quorum_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votingPeriod?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_not?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votingPeriod_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbitersCount?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  arbitersCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbitersCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  arbiters_?: InputMaybe<Arbiter_filter>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ArbitrationSettings_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ArbitrationSettings_filter>>>;
+};
+
+export type ArbitrationSettings_orderBy =
+  | 'id'
+  | 'active'
+  | 'quorum'
+  | 'votingPeriod'
+  | 'arbitersCount'
+  | 'arbiters';
+
+export type DisputeVote = {
+  id: Scalars['String']['output'];
+  execution: VisibilityServiceExecution;
+  arbiter: Arbiter;
+  refundBps: Scalars['BigInt']['output'];
+  reason: Scalars['String']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeVote_filter = {
+  id?: InputMaybe<Scalars['String']['input']>;
+  id_not?: InputMaybe<Scalars['String']['input']>;
+  id_gt?: InputMaybe<Scalars['String']['input']>;
+  id_lt?: InputMaybe<Scalars['String']['input']>;
+  id_gte?: InputMaybe<Scalars['String']['input']>;
+  id_lte?: InputMaybe<Scalars['String']['input']>;
+  id_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id_contains?: InputMaybe<Scalars['String']['input']>;
+  id_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains?: InputMaybe<Scalars['String']['input']>;
+  id_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  id_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution?: InputMaybe<Scalars['String']['input']>;
+  execution_not?: InputMaybe<Scalars['String']['input']>;
+  execution_gt?: InputMaybe<Scalars['String']['input']>;
+  execution_lt?: InputMaybe<Scalars['String']['input']>;
+  execution_gte?: InputMaybe<Scalars['String']['input']>;
+  execution_lte?: InputMaybe<Scalars['String']['input']>;
+  execution_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  execution_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  execution_contains?: InputMaybe<Scalars['String']['input']>;
+  execution_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_contains?: InputMaybe<Scalars['String']['input']>;
+  execution_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_starts_with?: InputMaybe<Scalars['String']['input']>;
+  execution_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  execution_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_ends_with?: InputMaybe<Scalars['String']['input']>;
+  execution_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  execution_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  execution_?: InputMaybe<VisibilityServiceExecution_filter>;
+  arbiter?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not?: InputMaybe<Scalars['String']['input']>;
+  arbiter_gt?: InputMaybe<Scalars['String']['input']>;
+  arbiter_lt?: InputMaybe<Scalars['String']['input']>;
+  arbiter_gte?: InputMaybe<Scalars['String']['input']>;
+  arbiter_lte?: InputMaybe<Scalars['String']['input']>;
+  arbiter_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  arbiter_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  arbiter_contains?: InputMaybe<Scalars['String']['input']>;
+  arbiter_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_contains?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_starts_with?: InputMaybe<Scalars['String']['input']>;
+  arbiter_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_ends_with?: InputMaybe<Scalars['String']['input']>;
+  arbiter_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  arbiter_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  arbiter_?: InputMaybe<Arbiter_filter>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  reason?: InputMaybe<Scalars['String']['input']>;
+  reason_not?: InputMaybe<Scalars['String']['input']>;
+  reason_gt?: InputMaybe<Scalars['String']['input']>;
+  reason_lt?: InputMaybe<Scalars['String']['input']>;
+  reason_gte?: InputMaybe<Scalars['String']['input']>;
+  reason_lte?: InputMaybe<Scalars['String']['input']>;
+  reason_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  reason_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  reason_contains?: InputMaybe<Scalars['String']['input']>;
+  reason_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_not_contains?: InputMaybe<Scalars['String']['input']>;
+  reason_not_contains_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_starts_with?: InputMaybe<Scalars['String']['input']>;
+  reason_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_not_starts_with?: InputMaybe<Scalars['String']['input']>;
+  reason_not_starts_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_ends_with?: InputMaybe<Scalars['String']['input']>;
+  reason_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  reason_not_ends_with?: InputMaybe<Scalars['String']['input']>;
+  reason_not_ends_with_nocase?: InputMaybe<Scalars['String']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeVote_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeVote_filter>>>;
+};
+
+export type DisputeVote_orderBy =
+  | 'id'
+  | 'execution'
+  | 'execution__id'
+  | 'execution__state'
+  | 'execution__executionNonce'
+  | 'execution__requester'
+  | 'execution__creditsCostAmount'
+  | 'execution__acceptanceDeadline'
+  | 'execution__autoValidationTimestamp'
+  | 'execution__disputeDeadline'
+  | 'execution__requestData'
+  | 'execution__responseData'
+  | 'execution__cancelData'
+  | 'execution__disputeData'
+  | 'execution__resolveData'
+  | 'execution__refundBps'
+  | 'execution__refundAmount'
+  | 'execution__creatorAmount'
+  | 'execution__disputeBondAmount'
+  | 'execution__disputeBondRequesterAmount'
+  | 'execution__disputeBondCreatorAmount'
+  | 'execution__arbitrationRefundBps'
+  | 'execution__evidenceCount'
+  | 'execution__lastUpdated'
+  | 'arbiter'
+  | 'arbiter__id'
+  | 'arbiter__address'
+  | 'arbiter__active'
+  | 'arbiter__addedAt'
+  | 'arbiter__removedAt'
+  | 'refundBps'
+  | 'reason'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ArbiterAdded = {
+  id: Scalars['Bytes']['output'];
+  arbiter: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ArbiterAdded_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_not?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  arbiter_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  arbiter_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ArbiterAdded_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ArbiterAdded_filter>>>;
+};
+
+export type ArbiterAdded_orderBy =
+  | 'id'
+  | 'arbiter'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ArbiterRemoved = {
+  id: Scalars['Bytes']['output'];
+  arbiter: Scalars['Bytes']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ArbiterRemoved_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_not?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  arbiter_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  arbiter_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  arbiter_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ArbiterRemoved_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ArbiterRemoved_filter>>>;
+};
+
+export type ArbiterRemoved_orderBy =
+  | 'id'
+  | 'arbiter'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type ArbitrationSettingsUpdated = {
+  id: Scalars['Bytes']['output'];
+  quorum: Scalars['BigInt']['output'];
+  votingPeriod: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type ArbitrationSettingsUpdated_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  quorum?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_not?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  quorum_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  quorum_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votingPeriod?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_not?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  votingPeriod_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votingPeriod_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ArbitrationSettingsUpdated_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<ArbitrationSettingsUpdated_filter>>>;
+};
+
+export type ArbitrationSettingsUpdated_orderBy =
+  | 'id'
+  | 'quorum'
+  | 'votingPeriod'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type DisputeVotesTallied = {
+  id: Scalars['Bytes']['output'];
+  serviceNonce: Scalars['BigInt']['output'];
+  executionNonce: Scalars['BigInt']['output'];
+  votesCount: Scalars['BigInt']['output'];
+  refundBps: Scalars['BigInt']['output'];
+  blockNumber: Scalars['BigInt']['output'];
+  blockTimestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type DisputeVotesTallied_filter = {
+  id?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  id_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  id_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  id_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  serviceNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  serviceNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  serviceNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_not?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  executionNonce_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  executionNonce_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votesCount?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  votesCount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  votesCount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundBps_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundBps_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_contains?: InputMaybe<Scalars['Bytes']['input']>;
+  /** Filter for the block changed event. */
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DisputeVotesTallied_filter>>>;
+  or?: InputMaybe<Array<InputMaybe<DisputeVotesTallied_filter>>>;
+};
+
+export type DisputeVotesTallied_orderBy =
+  | 'id'
+  | 'serviceNonce'
+  | 'executionNonce'
+  | 'votesCount'
+  | 'refundBps'
+  | 'blockNumber'
+  | 'blockTimestamp'
+  | 'transactionHash';
+
+export type Query = {
+  creator?: Maybe<Creator>;
+  creators: Array<Creator>;
+  visibility?: Maybe<Visibility>;
+  visibilities: Array<Visibility>;
+  visibilityBalance?: Maybe<VisibilityBalance>;
+  visibilityBalances: Array<VisibilityBalance>;
+  operatorApproval?: Maybe<OperatorApproval>;
+  operatorApprovals: Array<OperatorApproval>;
+  visibilityService?: Maybe<VisibilityService>;
+  visibilityServices: Array<VisibilityService>;
+  visibilityServiceExecution?: Maybe<VisibilityServiceExecution>;
+  visibilityServiceExecutions: Array<VisibilityServiceExecution>;
+  referrer?: Maybe<Referrer>;
+  referrers: Array<Referrer>;
+  referrerVisibility?: Maybe<ReferrerVisibility>;
+  referrerVisibilities: Array<ReferrerVisibility>;
+  referredTrader?: Maybe<ReferredTrader>;
+  referredTraders: Array<ReferredTrader>;
+  visibilityCandle?: Maybe<VisibilityCandle>;
+  visibilityCandles: Array<VisibilityCandle>;
+  protocolTreasury?: Maybe<ProtocolTreasury>;
+  protocolTreasuries: Array<ProtocolTreasury>;
+  creatorFeeClaimed?: Maybe<CreatorFeeClaimed>;
+  creatorFeeClaimeds: Array<CreatorFeeClaimed>;
+  protocolFeesClaimed?: Maybe<ProtocolFeesClaimed>;
+  protocolFeesClaimeds: Array<ProtocolFeesClaimed>;
+  referrerFeesClaimed?: Maybe<ReferrerFeesClaimed>;
+  referrerFeesClaimeds: Array<ReferrerFeesClaimed>;
+  operatorApprovalSet?: Maybe<OperatorApprovalSet>;
+  operatorApprovalSets: Array<OperatorApprovalSet>;
+  creatorVisibilitySet?: Maybe<CreatorVisibilitySet>;
+  creatorVisibilitySets: Array<CreatorVisibilitySet>;
+  curveSet?: Maybe<CurveSet>;
+  curveSets: Array<CurveSet>;
+  platform?: Maybe<Platform>;
+  platforms: Array<Platform>;
+  platformSet?: Maybe<PlatformSet>;
+  platformSets: Array<PlatformSet>;
+  feeSchedule?: Maybe<FeeSchedule>;
+  feeSchedules: Array<FeeSchedule>;
+  feeChange?: Maybe<FeeChange>;
+  feeChanges: Array<FeeChange>;
+  creditsTrade?: Maybe<CreditsTrade>;
+  creditsTrades: Array<CreditsTrade>;
+  creditsTransfer?: Maybe<CreditsTransfer>;
+  creditsTransfers: Array<CreditsTransfer>;
+  defaultAdminDelayChangeCanceled?: Maybe<DefaultAdminDelayChangeCanceled>;
+  defaultAdminDelayChangeCanceleds: Array<DefaultAdminDelayChangeCanceled>;
+  defaultAdminDelayChangeScheduled?: Maybe<DefaultAdminDelayChangeScheduled>;
+  defaultAdminDelayChangeScheduleds: Array<DefaultAdminDelayChangeScheduled>;
+  defaultAdminTransferCanceled?: Maybe<DefaultAdminTransferCanceled>;
+  defaultAdminTransferCanceleds: Array<DefaultAdminTransferCanceled>;
+  defaultAdminTransferScheduled?: Maybe<DefaultAdminTransferScheduled>;
+  defaultAdminTransferScheduleds: Array<DefaultAdminTransferScheduled>;
+  roleAdminChanged?: Maybe<RoleAdminChanged>;
+  roleAdminChangeds: Array<RoleAdminChanged>;
+  roleGranted?: Maybe<RoleGranted>;
+  roleGranteds: Array<RoleGranted>;
+  roleRevoked?: Maybe<RoleRevoked>;
+  roleRevokeds: Array<RoleRevoked>;
+  visibilityServicesDefaultAdminDelayChangeCanceled?: Maybe<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  visibilityServicesDefaultAdminDelayChangeCanceleds: Array<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  visibilityServicesDefaultAdminDelayChangeScheduled?: Maybe<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  visibilityServicesDefaultAdminDelayChangeScheduleds: Array<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  visibilityServicesDefaultAdminTransferCanceled?: Maybe<VisibilityServicesDefaultAdminTransferCanceled>;
+  visibilityServicesDefaultAdminTransferCanceleds: Array<VisibilityServicesDefaultAdminTransferCanceled>;
+  visibilityServicesDefaultAdminTransferScheduled?: Maybe<VisibilityServicesDefaultAdminTransferScheduled>;
+  visibilityServicesDefaultAdminTransferScheduleds: Array<VisibilityServicesDefaultAdminTransferScheduled>;
+  visibilityServicesRoleAdminChanged?: Maybe<VisibilityServicesRoleAdminChanged>;
+  visibilityServicesRoleAdminChangeds: Array<VisibilityServicesRoleAdminChanged>;
+  visibilityServicesRoleGranted?: Maybe<VisibilityServicesRoleGranted>;
+  visibilityServicesRoleGranteds: Array<VisibilityServicesRoleGranted>;
+  visibilityServicesRoleRevoked?: Maybe<VisibilityServicesRoleRevoked>;
+  visibilityServicesRoleRevokeds: Array<VisibilityServicesRoleRevoked>;
+  serviceCreated?: Maybe<ServiceCreated>;
+  serviceCreateds: Array<ServiceCreated>;
+  serviceExecutionAccepted?: Maybe<ServiceExecutionAccepted>;
+  serviceExecutionAccepteds: Array<ServiceExecutionAccepted>;
+  serviceExecutionCanceled?: Maybe<ServiceExecutionCanceled>;
+  serviceExecutionCanceleds: Array<ServiceExecutionCanceled>;
+  disputeSettings?: Maybe<DisputeSettings>;
+  disputeSettingses: Array<DisputeSettings>;
+  disputeBondUpdated?: Maybe<DisputeBondUpdated>;
+  disputeBondUpdateds: Array<DisputeBondUpdated>;
+  disputeBondPosted?: Maybe<DisputeBondPosted>;
+  disputeBondPosteds: Array<DisputeBondPosted>;
+  disputeBondReleased?: Maybe<DisputeBondReleased>;
+  disputeBondReleaseds: Array<DisputeBondReleased>;
+  disputeDefaultsUpdated?: Maybe<DisputeDefaultsUpdated>;
+  disputeDefaultsUpdateds: Array<DisputeDefaultsUpdated>;
+  serviceExecutionDisputeDefaulted?: Maybe<ServiceExecutionDisputeDefaulted>;
+  serviceExecutionDisputeDefaulteds: Array<ServiceExecutionDisputeDefaulted>;
+  serviceExecutionExpired?: Maybe<ServiceExecutionExpired>;
+  serviceExecutionExpireds: Array<ServiceExecutionExpired>;
+  serviceExecutionDisputed?: Maybe<ServiceExecutionDisputed>;
+  serviceExecutionDisputeds: Array<ServiceExecutionDisputed>;
+  serviceExecutionRequested?: Maybe<ServiceExecutionRequested>;
+  serviceExecutionRequesteds: Array<ServiceExecutionRequested>;
+  disputeEvidence?: Maybe<DisputeEvidence>;
+  disputeEvidences: Array<DisputeEvidence>;
+  serviceExecutionResolved?: Maybe<ServiceExecutionResolved>;
+  serviceExecutionResolveds: Array<ServiceExecutionResolved>;
+  serviceExecutionValidated?: Maybe<ServiceExecutionValidated>;
+  serviceExecutionValidateds: Array<ServiceExecutionValidated>;
+  serviceUpdated?: Maybe<ServiceUpdated>;
+  serviceUpdateds: Array<ServiceUpdated>;
+  arbiter?: Maybe<Arbiter>;
+  arbiters: Array<Arbiter>;
+  arbitrationSettings?: Maybe<ArbitrationSettings>;
+  arbitrationSettingses: Array<ArbitrationSettings>;
+  disputeVote?: Maybe<DisputeVote>;
+  disputeVotes: Array<DisputeVote>;
+  arbiterAdded?: Maybe<ArbiterAdded>;
+  arbiterAddeds: Array<ArbiterAdded>;
+  arbiterRemoved?: Maybe<ArbiterRemoved>;
+  arbiterRemoveds: Array<ArbiterRemoved>;
+  arbitrationSettingsUpdated?: Maybe<ArbitrationSettingsUpdated>;
+  arbitrationSettingsUpdateds: Array<ArbitrationSettingsUpdated>;
+  disputeVotesTallied?: Maybe<DisputeVotesTallied>;
+  disputeVotesTallieds: Array<DisputeVotesTallied>;
+  /** Access to subgraph metadata */
+  _meta?: Maybe<_Meta_>;
+};
+
+
+export type QuerycreatorArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Creator_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Creator_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Visibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Visibility_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityBalanceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityBalancesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityBalance_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityBalance_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryoperatorApprovalArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryoperatorApprovalsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApproval_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApproval_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServiceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityService_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityService_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServiceExecutionArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServiceExecutionsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServiceExecution_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServiceExecution_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Referrer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Referrer_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerVisibilityArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerVisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerVisibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerVisibility_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferredTraderArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferredTradersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferredTrader_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferredTrader_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityCandleArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityCandlesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityCandle_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityCandle_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryprotocolTreasuryArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryprotocolTreasuriesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ProtocolTreasury_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ProtocolTreasury_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorFeeClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorFeeClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreatorFeeClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreatorFeeClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryprotocolFeesClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryprotocolFeesClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ProtocolFeesClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ProtocolFeesClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerFeesClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryreferrerFeesClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerFeesClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerFeesClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryoperatorApprovalSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryoperatorApprovalSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApprovalSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApprovalSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorVisibilitySetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreatorVisibilitySetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreatorVisibilitySet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreatorVisibilitySet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycurveSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycurveSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CurveSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CurveSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryplatformArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryplatformsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Platform_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Platform_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryplatformSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryplatformSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<PlatformSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<PlatformSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryfeeScheduleArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryfeeSchedulesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<FeeSchedule_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<FeeSchedule_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryfeeChangeArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryfeeChangesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<FeeChange_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<FeeChange_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreditsTradeArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreditsTradesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTrade_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTrade_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreditsTransferArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerycreditsTransfersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTransfer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTransfer_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminDelayChangeCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminDelayChangeCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminDelayChangeCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminDelayChangeCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminDelayChangeScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminDelayChangeScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminDelayChangeScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminDelayChangeScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminTransferCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminTransferCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminTransferCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminTransferCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminTransferScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydefaultAdminTransferScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminTransferScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminTransferScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleAdminChangedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleAdminChangedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleAdminChanged_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleAdminChanged_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleGrantedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleGrantedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleGranted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleGranted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleRevokedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryroleRevokedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleRevoked_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleRevoked_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminDelayChangeCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminDelayChangeCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminDelayChangeScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminDelayChangeScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminTransferCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminTransferCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminTransferScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesDefaultAdminTransferScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleAdminChangedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleAdminChangedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleAdminChanged_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleAdminChanged_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleGrantedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleGrantedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleGranted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleGranted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleRevokedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryvisibilityServicesRoleRevokedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleRevoked_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleRevoked_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceCreatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceCreatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceCreated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceCreated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionAcceptedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionAcceptedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionAccepted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionAccepted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeSettingsArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeSettingsesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeSettings_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeSettings_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondPostedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondPostedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondPosted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondPosted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondReleasedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeBondReleasedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondReleased_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondReleased_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeDefaultsUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeDefaultsUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeDefaultsUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeDefaultsUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionDisputeDefaultedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionDisputeDefaultedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionDisputeDefaulted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionDisputeDefaulted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionExpiredArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionExpiredsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionExpired_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionExpired_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionDisputedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionDisputedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionDisputed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionDisputed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionRequestedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionRequestedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionRequested_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionRequested_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeEvidenceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeEvidencesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeEvidence_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeEvidence_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionResolvedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionResolvedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionResolved_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionResolved_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionValidatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceExecutionValidatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionValidated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionValidated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryserviceUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Arbiter_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Arbiter_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitrationSettingsArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitrationSettingsesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbitrationSettings_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbitrationSettings_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeVoteArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeVotesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVote_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVote_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterAddedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterAddedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbiterAdded_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbiterAdded_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterRemovedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbiterRemovedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbiterRemoved_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbiterRemoved_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitrationSettingsUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryarbitrationSettingsUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbitrationSettingsUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbitrationSettingsUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeVotesTalliedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QuerydisputeVotesTalliedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVotesTallied_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVotesTallied_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type Query_metaArgs = {
+  block?: InputMaybe<Block_height>;
+};
+
+export type Subscription = {
+  creator?: Maybe<Creator>;
+  creators: Array<Creator>;
+  visibility?: Maybe<Visibility>;
+  visibilities: Array<Visibility>;
+  visibilityBalance?: Maybe<VisibilityBalance>;
+  visibilityBalances: Array<VisibilityBalance>;
+  operatorApproval?: Maybe<OperatorApproval>;
+  operatorApprovals: Array<OperatorApproval>;
+  visibilityService?: Maybe<VisibilityService>;
+  visibilityServices: Array<VisibilityService>;
+  visibilityServiceExecution?: Maybe<VisibilityServiceExecution>;
+  visibilityServiceExecutions: Array<VisibilityServiceExecution>;
+  referrer?: Maybe<Referrer>;
+  referrers: Array<Referrer>;
+  referrerVisibility?: Maybe<ReferrerVisibility>;
+  referrerVisibilities: Array<ReferrerVisibility>;
+  referredTrader?: Maybe<ReferredTrader>;
+  referredTraders: Array<ReferredTrader>;
+  visibilityCandle?: Maybe<VisibilityCandle>;
+  visibilityCandles: Array<VisibilityCandle>;
+  protocolTreasury?: Maybe<ProtocolTreasury>;
+  protocolTreasuries: Array<ProtocolTreasury>;
+  creatorFeeClaimed?: Maybe<CreatorFeeClaimed>;
+  creatorFeeClaimeds: Array<CreatorFeeClaimed>;
+  protocolFeesClaimed?: Maybe<ProtocolFeesClaimed>;
+  protocolFeesClaimeds: Array<ProtocolFeesClaimed>;
+  referrerFeesClaimed?: Maybe<ReferrerFeesClaimed>;
+  referrerFeesClaimeds: Array<ReferrerFeesClaimed>;
+  operatorApprovalSet?: Maybe<OperatorApprovalSet>;
+  operatorApprovalSets: Array<OperatorApprovalSet>;
+  creatorVisibilitySet?: Maybe<CreatorVisibilitySet>;
+  creatorVisibilitySets: Array<CreatorVisibilitySet>;
+  curveSet?: Maybe<CurveSet>;
+  curveSets: Array<CurveSet>;
+  platform?: Maybe<Platform>;
+  platforms: Array<Platform>;
+  platformSet?: Maybe<PlatformSet>;
+  platformSets: Array<PlatformSet>;
+  feeSchedule?: Maybe<FeeSchedule>;
+  feeSchedules: Array<FeeSchedule>;
+  feeChange?: Maybe<FeeChange>;
+  feeChanges: Array<FeeChange>;
+  creditsTrade?: Maybe<CreditsTrade>;
+  creditsTrades: Array<CreditsTrade>;
+  creditsTransfer?: Maybe<CreditsTransfer>;
+  creditsTransfers: Array<CreditsTransfer>;
+  defaultAdminDelayChangeCanceled?: Maybe<DefaultAdminDelayChangeCanceled>;
+  defaultAdminDelayChangeCanceleds: Array<DefaultAdminDelayChangeCanceled>;
+  defaultAdminDelayChangeScheduled?: Maybe<DefaultAdminDelayChangeScheduled>;
+  defaultAdminDelayChangeScheduleds: Array<DefaultAdminDelayChangeScheduled>;
+  defaultAdminTransferCanceled?: Maybe<DefaultAdminTransferCanceled>;
+  defaultAdminTransferCanceleds: Array<DefaultAdminTransferCanceled>;
+  defaultAdminTransferScheduled?: Maybe<DefaultAdminTransferScheduled>;
+  defaultAdminTransferScheduleds: Array<DefaultAdminTransferScheduled>;
+  roleAdminChanged?: Maybe<RoleAdminChanged>;
+  roleAdminChangeds: Array<RoleAdminChanged>;
+  roleGranted?: Maybe<RoleGranted>;
+  roleGranteds: Array<RoleGranted>;
+  roleRevoked?: Maybe<RoleRevoked>;
+  roleRevokeds: Array<RoleRevoked>;
+  visibilityServicesDefaultAdminDelayChangeCanceled?: Maybe<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  visibilityServicesDefaultAdminDelayChangeCanceleds: Array<VisibilityServicesDefaultAdminDelayChangeCanceled>;
+  visibilityServicesDefaultAdminDelayChangeScheduled?: Maybe<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  visibilityServicesDefaultAdminDelayChangeScheduleds: Array<VisibilityServicesDefaultAdminDelayChangeScheduled>;
+  visibilityServicesDefaultAdminTransferCanceled?: Maybe<VisibilityServicesDefaultAdminTransferCanceled>;
+  visibilityServicesDefaultAdminTransferCanceleds: Array<VisibilityServicesDefaultAdminTransferCanceled>;
+  visibilityServicesDefaultAdminTransferScheduled?: Maybe<VisibilityServicesDefaultAdminTransferScheduled>;
+  visibilityServicesDefaultAdminTransferScheduleds: Array<VisibilityServicesDefaultAdminTransferScheduled>;
+  visibilityServicesRoleAdminChanged?: Maybe<VisibilityServicesRoleAdminChanged>;
+  visibilityServicesRoleAdminChangeds: Array<VisibilityServicesRoleAdminChanged>;
+  visibilityServicesRoleGranted?: Maybe<VisibilityServicesRoleGranted>;
+  visibilityServicesRoleGranteds: Array<VisibilityServicesRoleGranted>;
+  visibilityServicesRoleRevoked?: Maybe<VisibilityServicesRoleRevoked>;
+  visibilityServicesRoleRevokeds: Array<VisibilityServicesRoleRevoked>;
+  serviceCreated?: Maybe<ServiceCreated>;
+  serviceCreateds: Array<ServiceCreated>;
+  serviceExecutionAccepted?: Maybe<ServiceExecutionAccepted>;
+  serviceExecutionAccepteds: Array<ServiceExecutionAccepted>;
+  serviceExecutionCanceled?: Maybe<ServiceExecutionCanceled>;
+  serviceExecutionCanceleds: Array<ServiceExecutionCanceled>;
+  disputeSettings?: Maybe<DisputeSettings>;
+  disputeSettingses: Array<DisputeSettings>;
+  disputeBondUpdated?: Maybe<DisputeBondUpdated>;
+  disputeBondUpdateds: Array<DisputeBondUpdated>;
+  disputeBondPosted?: Maybe<DisputeBondPosted>;
+  disputeBondPosteds: Array<DisputeBondPosted>;
+  disputeBondReleased?: Maybe<DisputeBondReleased>;
+  disputeBondReleaseds: Array<DisputeBondReleased>;
+  disputeDefaultsUpdated?: Maybe<DisputeDefaultsUpdated>;
+  disputeDefaultsUpdateds: Array<DisputeDefaultsUpdated>;
+  serviceExecutionDisputeDefaulted?: Maybe<ServiceExecutionDisputeDefaulted>;
+  serviceExecutionDisputeDefaulteds: Array<ServiceExecutionDisputeDefaulted>;
+  serviceExecutionExpired?: Maybe<ServiceExecutionExpired>;
+  serviceExecutionExpireds: Array<ServiceExecutionExpired>;
+  serviceExecutionDisputed?: Maybe<ServiceExecutionDisputed>;
+  serviceExecutionDisputeds: Array<ServiceExecutionDisputed>;
+  serviceExecutionRequested?: Maybe<ServiceExecutionRequested>;
+  serviceExecutionRequesteds: Array<ServiceExecutionRequested>;
+  disputeEvidence?: Maybe<DisputeEvidence>;
+  disputeEvidences: Array<DisputeEvidence>;
+  serviceExecutionResolved?: Maybe<ServiceExecutionResolved>;
+  serviceExecutionResolveds: Array<ServiceExecutionResolved>;
+  serviceExecutionValidated?: Maybe<ServiceExecutionValidated>;
+  serviceExecutionValidateds: Array<ServiceExecutionValidated>;
+  serviceUpdated?: Maybe<ServiceUpdated>;
+  serviceUpdateds: Array<ServiceUpdated>;
+  arbiter?: Maybe<Arbiter>;
+  arbiters: Array<Arbiter>;
+  arbitrationSettings?: Maybe<ArbitrationSettings>;
+  arbitrationSettingses: Array<ArbitrationSettings>;
+  disputeVote?: Maybe<DisputeVote>;
+  disputeVotes: Array<DisputeVote>;
+  arbiterAdded?: Maybe<ArbiterAdded>;
+  arbiterAddeds: Array<ArbiterAdded>;
+  arbiterRemoved?: Maybe<ArbiterRemoved>;
+  arbiterRemoveds: Array<ArbiterRemoved>;
+  arbitrationSettingsUpdated?: Maybe<ArbitrationSettingsUpdated>;
+  arbitrationSettingsUpdateds: Array<ArbitrationSettingsUpdated>;
+  disputeVotesTallied?: Maybe<DisputeVotesTallied>;
+  disputeVotesTallieds: Array<DisputeVotesTallied>;
+  /** Access to subgraph metadata */
+  _meta?: Maybe<_Meta_>;
+};
+
+
+export type SubscriptioncreatorArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Creator_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Creator_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Visibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Visibility_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityBalanceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityBalancesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityBalance_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityBalance_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionoperatorApprovalArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionoperatorApprovalsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApproval_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApproval_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServiceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityService_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityService_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServiceExecutionArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServiceExecutionsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServiceExecution_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServiceExecution_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Referrer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Referrer_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerVisibilityArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerVisibilitiesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerVisibility_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerVisibility_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferredTraderArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferredTradersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferredTrader_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferredTrader_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityCandleArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityCandlesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityCandle_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityCandle_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionprotocolTreasuryArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionprotocolTreasuriesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ProtocolTreasury_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ProtocolTreasury_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorFeeClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorFeeClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreatorFeeClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreatorFeeClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionprotocolFeesClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionprotocolFeesClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ProtocolFeesClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ProtocolFeesClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerFeesClaimedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionreferrerFeesClaimedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ReferrerFeesClaimed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ReferrerFeesClaimed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionoperatorApprovalSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionoperatorApprovalSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<OperatorApprovalSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<OperatorApprovalSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorVisibilitySetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreatorVisibilitySetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreatorVisibilitySet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreatorVisibilitySet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncurveSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncurveSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CurveSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CurveSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionplatformArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionplatformsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Platform_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Platform_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionplatformSetArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionplatformSetsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<PlatformSet_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<PlatformSet_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionfeeScheduleArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionfeeSchedulesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<FeeSchedule_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<FeeSchedule_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionfeeChangeArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionfeeChangesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<FeeChange_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<FeeChange_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreditsTradeArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreditsTradesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTrade_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTrade_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreditsTransferArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptioncreditsTransfersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CreditsTransfer_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<CreditsTransfer_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminDelayChangeCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminDelayChangeCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminDelayChangeCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminDelayChangeCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminDelayChangeScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminDelayChangeScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminDelayChangeScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminDelayChangeScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminTransferCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminTransferCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminTransferCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminTransferCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminTransferScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondefaultAdminTransferScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DefaultAdminTransferScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DefaultAdminTransferScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleAdminChangedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleAdminChangedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleAdminChanged_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleAdminChanged_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleGrantedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleGrantedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleGranted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleGranted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleRevokedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionroleRevokedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<RoleRevoked_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<RoleRevoked_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminDelayChangeCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminDelayChangeCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminDelayChangeScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminDelayChangeScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminDelayChangeScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminTransferCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminTransferCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminTransferCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminTransferScheduledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesDefaultAdminTransferScheduledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesDefaultAdminTransferScheduled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleAdminChangedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleAdminChangedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleAdminChanged_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleAdminChanged_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleGrantedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleGrantedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleGranted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleGranted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleRevokedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionvisibilityServicesRoleRevokedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<VisibilityServicesRoleRevoked_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<VisibilityServicesRoleRevoked_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceCreatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceCreatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceCreated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceCreated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionAcceptedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionAcceptedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionAccepted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionAccepted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionCanceledArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionCanceledsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionCanceled_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionCanceled_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeSettingsArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeSettingsesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeSettings_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeSettings_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondPostedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondPostedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondPosted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondPosted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondReleasedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeBondReleasedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeBondReleased_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeBondReleased_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeDefaultsUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeDefaultsUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeDefaultsUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeDefaultsUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionDisputeDefaultedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionDisputeDefaultedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionDisputeDefaulted_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionDisputeDefaulted_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionExpiredArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionExpiredsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionExpired_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionExpired_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionDisputedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionDisputedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionDisputed_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionDisputed_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionRequestedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionRequestedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionRequested_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionRequested_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeEvidenceArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeEvidencesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeEvidence_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeEvidence_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionResolvedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionResolvedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionResolved_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionResolved_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionValidatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceExecutionValidatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceExecutionValidated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceExecutionValidated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionserviceUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ServiceUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ServiceUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbiterArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbitersArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Arbiter_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<Arbiter_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbitrationSettingsArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbitrationSettingsesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbitrationSettings_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbitrationSettings_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeVoteArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeVotesArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVote_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVote_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbiterAddedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbiterAddedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbiterAdded_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbiterAdded_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbiterRemovedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbiterRemovedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbiterRemoved_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbiterRemoved_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbitrationSettingsUpdatedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptionarbitrationSettingsUpdatedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ArbitrationSettingsUpdated_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<ArbitrationSettingsUpdated_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeVotesTalliedArgs = {
+  id: Scalars['ID']['input'];
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type SubscriptiondisputeVotesTalliedsArgs = {
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DisputeVotesTallied_orderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  where?: InputMaybe<DisputeVotesTallied_filter>;
+  block?: InputMaybe<Block_height>;
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type Subscription_metaArgs = {
+  block?: InputMaybe<Block_height>;
+};
+
+  export type QuerySdk = {
+      /** undefined **/
+  creator: InContextSdkMethod<Query['creator'], QuerycreatorArgs, MeshContext>,
+  /** undefined **/
+  creators: InContextSdkMethod<Query['creators'], QuerycreatorsArgs, MeshContext>,
+  /** undefined **/
+  visibility: InContextSdkMethod<Query['visibility'], QueryvisibilityArgs, MeshContext>,
+  /** undefined **/
+  visibilities: InContextSdkMethod<Query['visibilities'], QueryvisibilitiesArgs, MeshContext>,
+  /** undefined **/
+  visibilityBalance: InContextSdkMethod<Query['visibilityBalance'], QueryvisibilityBalanceArgs, MeshContext>,
+  /** undefined **/
+  visibilityBalances: InContextSdkMethod<Query['visibilityBalances'], QueryvisibilityBalancesArgs, MeshContext>,
+  /** undefined **/
+  operatorApproval: InContextSdkMethod<Query['operatorApproval'], QueryoperatorApprovalArgs, MeshContext>,
+  /** undefined **/
+  operatorApprovals: InContextSdkMethod<Query['operatorApprovals'], QueryoperatorApprovalsArgs, MeshContext>,
+  /** undefined **/
+  visibilityService: InContextSdkMethod<Query['visibilityService'], QueryvisibilityServiceArgs, MeshContext>,
+  /** undefined **/
+  visibilityServices: InContextSdkMethod<Query['visibilityServices'], QueryvisibilityServicesArgs, MeshContext>,
+  /** undefined **/
+  visibilityServiceExecution: InContextSdkMethod<Query['visibilityServiceExecution'], QueryvisibilityServiceExecutionArgs, MeshContext>,
+  /** undefined **/
+  visibilityServiceExecutions: InContextSdkMethod<Query['visibilityServiceExecutions'], QueryvisibilityServiceExecutionsArgs, MeshContext>,
+  /** undefined **/
+  referrer: InContextSdkMethod<Query['referrer'], QueryreferrerArgs, MeshContext>,
+  /** undefined **/
+  referrers: InContextSdkMethod<Query['referrers'], QueryreferrersArgs, MeshContext>,
+  /** undefined **/
+  referrerVisibility: InContextSdkMethod<Query['referrerVisibility'], QueryreferrerVisibilityArgs, MeshContext>,
+  /** undefined **/
+  referrerVisibilities: InContextSdkMethod<Query['referrerVisibilities'], QueryreferrerVisibilitiesArgs, MeshContext>,
+  /** undefined **/
+  referredTrader: InContextSdkMethod<Query['referredTrader'], QueryreferredTraderArgs, MeshContext>,
+  /** undefined **/
+  referredTraders: InContextSdkMethod<Query['referredTraders'], QueryreferredTradersArgs, MeshContext>,
+  /** undefined **/
+  visibilityCandle: InContextSdkMethod<Query['visibilityCandle'], QueryvisibilityCandleArgs, MeshContext>,
+  /** undefined **/
+  visibilityCandles: InContextSdkMethod<Query['visibilityCandles'], QueryvisibilityCandlesArgs, MeshContext>,
+  /** undefined **/
+  protocolTreasury: InContextSdkMethod<Query['protocolTreasury'], QueryprotocolTreasuryArgs, MeshContext>,
+  /** undefined **/
+  protocolTreasuries: InContextSdkMethod<Query['protocolTreasuries'], QueryprotocolTreasuriesArgs, MeshContext>,
+  /** undefined **/
+  creatorFeeClaimed: InContextSdkMethod<Query['creatorFeeClaimed'], QuerycreatorFeeClaimedArgs, MeshContext>,
+  /** undefined **/
+  creatorFeeClaimeds: InContextSdkMethod<Query['creatorFeeClaimeds'], QuerycreatorFeeClaimedsArgs, MeshContext>,
+  /** undefined **/
+  protocolFeesClaimed: InContextSdkMethod<Query['protocolFeesClaimed'], QueryprotocolFeesClaimedArgs, MeshContext>,
+  /** undefined **/
+  protocolFeesClaimeds: InContextSdkMethod<Query['protocolFeesClaimeds'], QueryprotocolFeesClaimedsArgs, MeshContext>,
+  /** undefined **/
+  referrerFeesClaimed: InContextSdkMethod<Query['referrerFeesClaimed'], QueryreferrerFeesClaimedArgs, MeshContext>,
+  /** undefined **/
+  referrerFeesClaimeds: InContextSdkMethod<Query['referrerFeesClaimeds'], QueryreferrerFeesClaimedsArgs, MeshContext>,
+  /** undefined **/
+  operatorApprovalSet: InContextSdkMethod<Query['operatorApprovalSet'], QueryoperatorApprovalSetArgs, MeshContext>,
+  /** undefined **/
+  operatorApprovalSets: InContextSdkMethod<Query['operatorApprovalSets'], QueryoperatorApprovalSetsArgs, MeshContext>,
+  /** undefined **/
+  creatorVisibilitySet: InContextSdkMethod<Query['creatorVisibilitySet'], QuerycreatorVisibilitySetArgs, MeshContext>,
+  /** undefined **/
+  creatorVisibilitySets: InContextSdkMethod<Query['creatorVisibilitySets'], QuerycreatorVisibilitySetsArgs, MeshContext>,
+  /** undefined **/
+  curveSet: InContextSdkMethod<Query['curveSet'], QuerycurveSetArgs, MeshContext>,
+  /** undefined **/
+  curveSets: InContextSdkMethod<Query['curveSets'], QuerycurveSetsArgs, MeshContext>,
+  /** undefined **/
+  platform: InContextSdkMethod<Query['platform'], QueryplatformArgs, MeshContext>,
+  /** undefined **/
+  platforms: InContextSdkMethod<Query['platforms'], QueryplatformsArgs, MeshContext>,
+  /** undefined **/
+  platformSet: InContextSdkMethod<Query['platformSet'], QueryplatformSetArgs, MeshContext>,
+  /** undefined **/
+  platformSets: InContextSdkMethod<Query['platformSets'], QueryplatformSetsArgs, MeshContext>,
+  /** undefined **/
+  feeSchedule: InContextSdkMethod<Query['feeSchedule'], QueryfeeScheduleArgs, MeshContext>,
+  /** undefined **/
+  feeSchedules: InContextSdkMethod<Query['feeSchedules'], QueryfeeSchedulesArgs, MeshContext>,
+  /** undefined **/
+  feeChange: InContextSdkMethod<Query['feeChange'], QueryfeeChangeArgs, MeshContext>,
+  /** undefined **/
+  feeChanges: InContextSdkMethod<Query['feeChanges'], QueryfeeChangesArgs, MeshContext>,
+  /** undefined **/
+  creditsTrade: InContextSdkMethod<Query['creditsTrade'], QuerycreditsTradeArgs, MeshContext>,
+  /** undefined **/
+  creditsTrades: InContextSdkMethod<Query['creditsTrades'], QuerycreditsTradesArgs, MeshContext>,
+  /** undefined **/
+  creditsTransfer: InContextSdkMethod<Query['creditsTransfer'], QuerycreditsTransferArgs, MeshContext>,
+  /** undefined **/
+  creditsTransfers: InContextSdkMethod<Query['creditsTransfers'], QuerycreditsTransfersArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminDelayChangeCanceled: InContextSdkMethod<Query['defaultAdminDelayChangeCanceled'], QuerydefaultAdminDelayChangeCanceledArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminDelayChangeCanceleds: InContextSdkMethod<Query['defaultAdminDelayChangeCanceleds'], QuerydefaultAdminDelayChangeCanceledsArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminDelayChangeScheduled: InContextSdkMethod<Query['defaultAdminDelayChangeScheduled'], QuerydefaultAdminDelayChangeScheduledArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminDelayChangeScheduleds: InContextSdkMethod<Query['defaultAdminDelayChangeScheduleds'], QuerydefaultAdminDelayChangeScheduledsArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminTransferCanceled: InContextSdkMethod<Query['defaultAdminTransferCanceled'], QuerydefaultAdminTransferCanceledArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminTransferCanceleds: InContextSdkMethod<Query['defaultAdminTransferCanceleds'], QuerydefaultAdminTransferCanceledsArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminTransferScheduled: InContextSdkMethod<Query['defaultAdminTransferScheduled'], QuerydefaultAdminTransferScheduledArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminTransferScheduleds: InContextSdkMethod<Query['defaultAdminTransferScheduleds'], QuerydefaultAdminTransferScheduledsArgs, MeshContext>,
+  /** undefined **/
+  roleAdminChanged: InContextSdkMethod<Query['roleAdminChanged'], QueryroleAdminChangedArgs, MeshContext>,
+  /** undefined **/
+  roleAdminChangeds: InContextSdkMethod<Query['roleAdminChangeds'], QueryroleAdminChangedsArgs, MeshContext>,
+  /** undefined **/
+  roleGranted: InContextSdkMethod<Query['roleGranted'], QueryroleGrantedArgs, MeshContext>,
+  /** undefined **/
+  roleGranteds: InContextSdkMethod<Query['roleGranteds'], QueryroleGrantedsArgs, MeshContext>,
+  /** undefined **/
+  roleRevoked: InContextSdkMethod<Query['roleRevoked'], QueryroleRevokedArgs, MeshContext>,
+  /** undefined **/
+  roleRevokeds: InContextSdkMethod<Query['roleRevokeds'], QueryroleRevokedsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminDelayChangeCanceled: InContextSdkMethod<Query['visibilityServicesDefaultAdminDelayChangeCanceled'], QueryvisibilityServicesDefaultAdminDelayChangeCanceledArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminDelayChangeCanceleds: InContextSdkMethod<Query['visibilityServicesDefaultAdminDelayChangeCanceleds'], QueryvisibilityServicesDefaultAdminDelayChangeCanceledsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminDelayChangeScheduled: InContextSdkMethod<Query['visibilityServicesDefaultAdminDelayChangeScheduled'], QueryvisibilityServicesDefaultAdminDelayChangeScheduledArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminDelayChangeScheduleds: InContextSdkMethod<Query['visibilityServicesDefaultAdminDelayChangeScheduleds'], QueryvisibilityServicesDefaultAdminDelayChangeScheduledsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminTransferCanceled: InContextSdkMethod<Query['visibilityServicesDefaultAdminTransferCanceled'], QueryvisibilityServicesDefaultAdminTransferCanceledArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminTransferCanceleds: InContextSdkMethod<Query['visibilityServicesDefaultAdminTransferCanceleds'], QueryvisibilityServicesDefaultAdminTransferCanceledsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminTransferScheduled: InContextSdkMethod<Query['visibilityServicesDefaultAdminTransferScheduled'], QueryvisibilityServicesDefaultAdminTransferScheduledArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminTransferScheduleds: InContextSdkMethod<Query['visibilityServicesDefaultAdminTransferScheduleds'], QueryvisibilityServicesDefaultAdminTransferScheduledsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleAdminChanged: InContextSdkMethod<Query['visibilityServicesRoleAdminChanged'], QueryvisibilityServicesRoleAdminChangedArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleAdminChangeds: InContextSdkMethod<Query['visibilityServicesRoleAdminChangeds'], QueryvisibilityServicesRoleAdminChangedsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleGranted: InContextSdkMethod<Query['visibilityServicesRoleGranted'], QueryvisibilityServicesRoleGrantedArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleGranteds: InContextSdkMethod<Query['visibilityServicesRoleGranteds'], QueryvisibilityServicesRoleGrantedsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleRevoked: InContextSdkMethod<Query['visibilityServicesRoleRevoked'], QueryvisibilityServicesRoleRevokedArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleRevokeds: InContextSdkMethod<Query['visibilityServicesRoleRevokeds'], QueryvisibilityServicesRoleRevokedsArgs, MeshContext>,
+  /** undefined **/
+  serviceCreated: InContextSdkMethod<Query['serviceCreated'], QueryserviceCreatedArgs, MeshContext>,
+  /** undefined **/
+  serviceCreateds: InContextSdkMethod<Query['serviceCreateds'], QueryserviceCreatedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionAccepted: InContextSdkMethod<Query['serviceExecutionAccepted'], QueryserviceExecutionAcceptedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionAccepteds: InContextSdkMethod<Query['serviceExecutionAccepteds'], QueryserviceExecutionAcceptedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionCanceled: InContextSdkMethod<Query['serviceExecutionCanceled'], QueryserviceExecutionCanceledArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionCanceleds: InContextSdkMethod<Query['serviceExecutionCanceleds'], QueryserviceExecutionCanceledsArgs, MeshContext>,
+  /** undefined **/
+  disputeSettings: InContextSdkMethod<Query['disputeSettings'], QuerydisputeSettingsArgs, MeshContext>,
+  /** undefined **/
+  disputeSettingses: InContextSdkMethod<Query['disputeSettingses'], QuerydisputeSettingsesArgs, MeshContext>,
+  /** undefined **/
+  disputeBondUpdated: InContextSdkMethod<Query['disputeBondUpdated'], QuerydisputeBondUpdatedArgs, MeshContext>,
+  /** undefined **/
+  disputeBondUpdateds: InContextSdkMethod<Query['disputeBondUpdateds'], QuerydisputeBondUpdatedsArgs, MeshContext>,
+  /** undefined **/
+  disputeBondPosted: InContextSdkMethod<Query['disputeBondPosted'], QuerydisputeBondPostedArgs, MeshContext>,
+  /** undefined **/
+  disputeBondPosteds: InContextSdkMethod<Query['disputeBondPosteds'], QuerydisputeBondPostedsArgs, MeshContext>,
+  /** undefined **/
+  disputeBondReleased: InContextSdkMethod<Query['disputeBondReleased'], QuerydisputeBondReleasedArgs, MeshContext>,
+  /** undefined **/
+  disputeBondReleaseds: InContextSdkMethod<Query['disputeBondReleaseds'], QuerydisputeBondReleasedsArgs, MeshContext>,
+  /** undefined **/
+  disputeDefaultsUpdated: InContextSdkMethod<Query['disputeDefaultsUpdated'], QuerydisputeDefaultsUpdatedArgs, MeshContext>,
+  /** undefined **/
+  disputeDefaultsUpdateds: InContextSdkMethod<Query['disputeDefaultsUpdateds'], QuerydisputeDefaultsUpdatedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionDisputeDefaulted: InContextSdkMethod<Query['serviceExecutionDisputeDefaulted'], QueryserviceExecutionDisputeDefaultedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionDisputeDefaulteds: InContextSdkMethod<Query['serviceExecutionDisputeDefaulteds'], QueryserviceExecutionDisputeDefaultedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionExpired: InContextSdkMethod<Query['serviceExecutionExpired'], QueryserviceExecutionExpiredArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionExpireds: InContextSdkMethod<Query['serviceExecutionExpireds'], QueryserviceExecutionExpiredsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionDisputed: InContextSdkMethod<Query['serviceExecutionDisputed'], QueryserviceExecutionDisputedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionDisputeds: InContextSdkMethod<Query['serviceExecutionDisputeds'], QueryserviceExecutionDisputedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionRequested: InContextSdkMethod<Query['serviceExecutionRequested'], QueryserviceExecutionRequestedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionRequesteds: InContextSdkMethod<Query['serviceExecutionRequesteds'], QueryserviceExecutionRequestedsArgs, MeshContext>,
+  /** undefined **/
+  disputeEvidence: InContextSdkMethod<Query['disputeEvidence'], QuerydisputeEvidenceArgs, MeshContext>,
+  /** undefined **/
+  disputeEvidences: InContextSdkMethod<Query['disputeEvidences'], QuerydisputeEvidencesArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionResolved: InContextSdkMethod<Query['serviceExecutionResolved'], QueryserviceExecutionResolvedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionResolveds: InContextSdkMethod<Query['serviceExecutionResolveds'], QueryserviceExecutionResolvedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionValidated: InContextSdkMethod<Query['serviceExecutionValidated'], QueryserviceExecutionValidatedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionValidateds: InContextSdkMethod<Query['serviceExecutionValidateds'], QueryserviceExecutionValidatedsArgs, MeshContext>,
+  /** undefined **/
+  serviceUpdated: InContextSdkMethod<Query['serviceUpdated'], QueryserviceUpdatedArgs, MeshContext>,
+  /** undefined **/
+  serviceUpdateds: InContextSdkMethod<Query['serviceUpdateds'], QueryserviceUpdatedsArgs, MeshContext>,
+  /** undefined **/
+  arbiter: InContextSdkMethod<Query['arbiter'], QueryarbiterArgs, MeshContext>,
+  /** undefined **/
+  arbiters: InContextSdkMethod<Query['arbiters'], QueryarbitersArgs, MeshContext>,
+  /** undefined **/
+  arbitrationSettings: InContextSdkMethod<Query['arbitrationSettings'], QueryarbitrationSettingsArgs, MeshContext>,
+  /** undefined **/
+  arbitrationSettingses: InContextSdkMethod<Query['arbitrationSettingses'], QueryarbitrationSettingsesArgs, MeshContext>,
+  /** undefined **/
+  disputeVote: InContextSdkMethod<Query['disputeVote'], QuerydisputeVoteArgs, MeshContext>,
+  /** undefined **/
+  disputeVotes: InContextSdkMethod<Query['disputeVotes'], QuerydisputeVotesArgs, MeshContext>,
+  /** undefined **/
+  arbiterAdded: InContextSdkMethod<Query['arbiterAdded'], QueryarbiterAddedArgs, MeshContext>,
+  /** undefined **/
+  arbiterAddeds: InContextSdkMethod<Query['arbiterAddeds'], QueryarbiterAddedsArgs, MeshContext>,
+  /** undefined **/
+  arbiterRemoved: InContextSdkMethod<Query['arbiterRemoved'], QueryarbiterRemovedArgs, MeshContext>,
+  /** undefined **/
+  arbiterRemoveds: InContextSdkMethod<Query['arbiterRemoveds'], QueryarbiterRemovedsArgs, MeshContext>,
+  /** undefined **/
+  arbitrationSettingsUpdated: InContextSdkMethod<Query['arbitrationSettingsUpdated'], QueryarbitrationSettingsUpdatedArgs, MeshContext>,
+  /** undefined **/
+  arbitrationSettingsUpdateds: InContextSdkMethod<Query['arbitrationSettingsUpdateds'], QueryarbitrationSettingsUpdatedsArgs, MeshContext>,
+  /** undefined **/
+  disputeVotesTallied: InContextSdkMethod<Query['disputeVotesTallied'], QuerydisputeVotesTalliedArgs, MeshContext>,
+  /** undefined **/
+  disputeVotesTallieds: InContextSdkMethod<Query['disputeVotesTallieds'], QuerydisputeVotesTalliedsArgs, MeshContext>,
+  /** Access to subgraph metadata **/
+  _meta: InContextSdkMethod<Query['_meta'], Query_metaArgs, MeshContext>
+  };
+
+  export type MutationSdk = {
+    
+  };
+
+  export type SubscriptionSdk = {
+      /** undefined **/
+  creator: InContextSdkMethod<Subscription['creator'], SubscriptioncreatorArgs, MeshContext>,
+  /** undefined **/
+  creators: InContextSdkMethod<Subscription['creators'], SubscriptioncreatorsArgs, MeshContext>,
+  /** undefined **/
+  visibility: InContextSdkMethod<Subscription['visibility'], SubscriptionvisibilityArgs, MeshContext>,
+  /** undefined **/
+  visibilities: InContextSdkMethod<Subscription['visibilities'], SubscriptionvisibilitiesArgs, MeshContext>,
+  /** undefined **/
+  visibilityBalance: InContextSdkMethod<Subscription['visibilityBalance'], SubscriptionvisibilityBalanceArgs, MeshContext>,
+  /** undefined **/
+  visibilityBalances: InContextSdkMethod<Subscription['visibilityBalances'], SubscriptionvisibilityBalancesArgs, MeshContext>,
+  /** undefined **/
+  operatorApproval: InContextSdkMethod<Subscription['operatorApproval'], SubscriptionoperatorApprovalArgs, MeshContext>,
+  /** undefined **/
+  operatorApprovals: InContextSdkMethod<Subscription['operatorApprovals'], SubscriptionoperatorApprovalsArgs, MeshContext>,
+  /** undefined **/
+  visibilityService: InContextSdkMethod<Subscription['visibilityService'], SubscriptionvisibilityServiceArgs, MeshContext>,
+  /** undefined **/
+  visibilityServices: InContextSdkMethod<Subscription['visibilityServices'], SubscriptionvisibilityServicesArgs, MeshContext>,
+  /** undefined **/
+  visibilityServiceExecution: InContextSdkMethod<Subscription['visibilityServiceExecution'], SubscriptionvisibilityServiceExecutionArgs, MeshContext>,
+  /** undefined **/
+  visibilityServiceExecutions: InContextSdkMethod<Subscription['visibilityServiceExecutions'], SubscriptionvisibilityServiceExecutionsArgs, MeshContext>,
+  /** undefined **/
+  referrer: InContextSdkMethod<Subscription['referrer'], SubscriptionreferrerArgs, MeshContext>,
+  /** undefined **/
+  referrers: InContextSdkMethod<Subscription['referrers'], SubscriptionreferrersArgs, MeshContext>,
+  /** undefined **/
+  referrerVisibility: InContextSdkMethod<Subscription['referrerVisibility'], SubscriptionreferrerVisibilityArgs, MeshContext>,
+  /** undefined **/
+  referrerVisibilities: InContextSdkMethod<Subscription['referrerVisibilities'], SubscriptionreferrerVisibilitiesArgs, MeshContext>,
+  /** undefined **/
+  referredTrader: InContextSdkMethod<Subscription['referredTrader'], SubscriptionreferredTraderArgs, MeshContext>,
+  /** undefined **/
+  referredTraders: InContextSdkMethod<Subscription['referredTraders'], SubscriptionreferredTradersArgs, MeshContext>,
+  /** undefined **/
+  visibilityCandle: InContextSdkMethod<Subscription['visibilityCandle'], SubscriptionvisibilityCandleArgs, MeshContext>,
+  /** undefined **/
+  visibilityCandles: InContextSdkMethod<Subscription['visibilityCandles'], SubscriptionvisibilityCandlesArgs, MeshContext>,
+  /** undefined **/
+  protocolTreasury: InContextSdkMethod<Subscription['protocolTreasury'], SubscriptionprotocolTreasuryArgs, MeshContext>,
+  /** undefined **/
+  protocolTreasuries: InContextSdkMethod<Subscription['protocolTreasuries'], SubscriptionprotocolTreasuriesArgs, MeshContext>,
+  /** undefined **/
+  creatorFeeClaimed: InContextSdkMethod<Subscription['creatorFeeClaimed'], SubscriptioncreatorFeeClaimedArgs, MeshContext>,
+  /** undefined **/
+  creatorFeeClaimeds: InContextSdkMethod<Subscription['creatorFeeClaimeds'], SubscriptioncreatorFeeClaimedsArgs, MeshContext>,
+  /** undefined **/
+  protocolFeesClaimed: InContextSdkMethod<Subscription['protocolFeesClaimed'], SubscriptionprotocolFeesClaimedArgs, MeshContext>,
+  /** undefined **/
+  protocolFeesClaimeds: InContextSdkMethod<Subscription['protocolFeesClaimeds'], SubscriptionprotocolFeesClaimedsArgs, MeshContext>,
+  /** undefined **/
+  referrerFeesClaimed: InContextSdkMethod<Subscription['referrerFeesClaimed'], SubscriptionreferrerFeesClaimedArgs, MeshContext>,
+  /** undefined **/
+  referrerFeesClaimeds: InContextSdkMethod<Subscription['referrerFeesClaimeds'], SubscriptionreferrerFeesClaimedsArgs, MeshContext>,
+  /** undefined **/
+  operatorApprovalSet: InContextSdkMethod<Subscription['operatorApprovalSet'], SubscriptionoperatorApprovalSetArgs, MeshContext>,
+  /** undefined **/
+  operatorApprovalSets: InContextSdkMethod<Subscription['operatorApprovalSets'], SubscriptionoperatorApprovalSetsArgs, MeshContext>,
+  /** undefined **/
+  creatorVisibilitySet: InContextSdkMethod<Subscription['creatorVisibilitySet'], SubscriptioncreatorVisibilitySetArgs, MeshContext>,
+  /** undefined **/
+  creatorVisibilitySets: InContextSdkMethod<Subscription['creatorVisibilitySets'], SubscriptioncreatorVisibilitySetsArgs, MeshContext>,
+  /** undefined **/
+  curveSet: InContextSdkMethod<Subscription['curveSet'], SubscriptioncurveSetArgs, MeshContext>,
+  /** undefined **/
+  curveSets: InContextSdkMethod<Subscription['curveSets'], SubscriptioncurveSetsArgs, MeshContext>,
+  /** undefined **/
+  platform: InContextSdkMethod<Subscription['platform'], SubscriptionplatformArgs, MeshContext>,
+  /** undefined **/
+  platforms: InContextSdkMethod<Subscription['platforms'], SubscriptionplatformsArgs, MeshContext>,
+  /** undefined **/
+  platformSet: InContextSdkMethod<Subscription['platformSet'], SubscriptionplatformSetArgs, MeshContext>,
+  /** undefined **/
+  platformSets: InContextSdkMethod<Subscription['platformSets'], SubscriptionplatformSetsArgs, MeshContext>,
+  /** undefined **/
+  feeSchedule: InContextSdkMethod<Subscription['feeSchedule'], SubscriptionfeeScheduleArgs, MeshContext>,
+  /** undefined **/
+  feeSchedules: InContextSdkMethod<Subscription['feeSchedules'], SubscriptionfeeSchedulesArgs, MeshContext>,
+  /** undefined **/
+  feeChange: InContextSdkMethod<Subscription['feeChange'], SubscriptionfeeChangeArgs, MeshContext>,
+  /** undefined **/
+  feeChanges: InContextSdkMethod<Subscription['feeChanges'], SubscriptionfeeChangesArgs, MeshContext>,
+  /** undefined **/
+  creditsTrade: InContextSdkMethod<Subscription['creditsTrade'], SubscriptioncreditsTradeArgs, MeshContext>,
+  /** undefined **/
+  creditsTrades: InContextSdkMethod<Subscription['creditsTrades'], SubscriptioncreditsTradesArgs, MeshContext>,
+  /** undefined **/
+  creditsTransfer: InContextSdkMethod<Subscription['creditsTransfer'], SubscriptioncreditsTransferArgs, MeshContext>,
+  /** undefined **/
+  creditsTransfers: InContextSdkMethod<Subscription['creditsTransfers'], SubscriptioncreditsTransfersArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminDelayChangeCanceled: InContextSdkMethod<Subscription['defaultAdminDelayChangeCanceled'], SubscriptiondefaultAdminDelayChangeCanceledArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminDelayChangeCanceleds: InContextSdkMethod<Subscription['defaultAdminDelayChangeCanceleds'], SubscriptiondefaultAdminDelayChangeCanceledsArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminDelayChangeScheduled: InContextSdkMethod<Subscription['defaultAdminDelayChangeScheduled'], SubscriptiondefaultAdminDelayChangeScheduledArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminDelayChangeScheduleds: InContextSdkMethod<Subscription['defaultAdminDelayChangeScheduleds'], SubscriptiondefaultAdminDelayChangeScheduledsArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminTransferCanceled: InContextSdkMethod<Subscription['defaultAdminTransferCanceled'], SubscriptiondefaultAdminTransferCanceledArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminTransferCanceleds: InContextSdkMethod<Subscription['defaultAdminTransferCanceleds'], SubscriptiondefaultAdminTransferCanceledsArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminTransferScheduled: InContextSdkMethod<Subscription['defaultAdminTransferScheduled'], SubscriptiondefaultAdminTransferScheduledArgs, MeshContext>,
+  /** undefined **/
+  defaultAdminTransferScheduleds: InContextSdkMethod<Subscription['defaultAdminTransferScheduleds'], SubscriptiondefaultAdminTransferScheduledsArgs, MeshContext>,
+  /** undefined **/
+  roleAdminChanged: InContextSdkMethod<Subscription['roleAdminChanged'], SubscriptionroleAdminChangedArgs, MeshContext>,
+  /** undefined **/
+  roleAdminChangeds: InContextSdkMethod<Subscription['roleAdminChangeds'], SubscriptionroleAdminChangedsArgs, MeshContext>,
+  /** undefined **/
+  roleGranted: InContextSdkMethod<Subscription['roleGranted'], SubscriptionroleGrantedArgs, MeshContext>,
+  /** undefined **/
+  roleGranteds: InContextSdkMethod<Subscription['roleGranteds'], SubscriptionroleGrantedsArgs, MeshContext>,
+  /** undefined **/
+  roleRevoked: InContextSdkMethod<Subscription['roleRevoked'], SubscriptionroleRevokedArgs, MeshContext>,
+  /** undefined **/
+  roleRevokeds: InContextSdkMethod<Subscription['roleRevokeds'], SubscriptionroleRevokedsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminDelayChangeCanceled: InContextSdkMethod<Subscription['visibilityServicesDefaultAdminDelayChangeCanceled'], SubscriptionvisibilityServicesDefaultAdminDelayChangeCanceledArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminDelayChangeCanceleds: InContextSdkMethod<Subscription['visibilityServicesDefaultAdminDelayChangeCanceleds'], SubscriptionvisibilityServicesDefaultAdminDelayChangeCanceledsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminDelayChangeScheduled: InContextSdkMethod<Subscription['visibilityServicesDefaultAdminDelayChangeScheduled'], SubscriptionvisibilityServicesDefaultAdminDelayChangeScheduledArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminDelayChangeScheduleds: InContextSdkMethod<Subscription['visibilityServicesDefaultAdminDelayChangeScheduleds'], SubscriptionvisibilityServicesDefaultAdminDelayChangeScheduledsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminTransferCanceled: InContextSdkMethod<Subscription['visibilityServicesDefaultAdminTransferCanceled'], SubscriptionvisibilityServicesDefaultAdminTransferCanceledArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminTransferCanceleds: InContextSdkMethod<Subscription['visibilityServicesDefaultAdminTransferCanceleds'], SubscriptionvisibilityServicesDefaultAdminTransferCanceledsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminTransferScheduled: InContextSdkMethod<Subscription['visibilityServicesDefaultAdminTransferScheduled'], SubscriptionvisibilityServicesDefaultAdminTransferScheduledArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesDefaultAdminTransferScheduleds: InContextSdkMethod<Subscription['visibilityServicesDefaultAdminTransferScheduleds'], SubscriptionvisibilityServicesDefaultAdminTransferScheduledsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleAdminChanged: InContextSdkMethod<Subscription['visibilityServicesRoleAdminChanged'], SubscriptionvisibilityServicesRoleAdminChangedArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleAdminChangeds: InContextSdkMethod<Subscription['visibilityServicesRoleAdminChangeds'], SubscriptionvisibilityServicesRoleAdminChangedsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleGranted: InContextSdkMethod<Subscription['visibilityServicesRoleGranted'], SubscriptionvisibilityServicesRoleGrantedArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleGranteds: InContextSdkMethod<Subscription['visibilityServicesRoleGranteds'], SubscriptionvisibilityServicesRoleGrantedsArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleRevoked: InContextSdkMethod<Subscription['visibilityServicesRoleRevoked'], SubscriptionvisibilityServicesRoleRevokedArgs, MeshContext>,
+  /** undefined **/
+  visibilityServicesRoleRevokeds: InContextSdkMethod<Subscription['visibilityServicesRoleRevokeds'], SubscriptionvisibilityServicesRoleRevokedsArgs, MeshContext>,
+  /** undefined **/
+  serviceCreated: InContextSdkMethod<Subscription['serviceCreated'], SubscriptionserviceCreatedArgs, MeshContext>,
+  /** undefined **/
+  serviceCreateds: InContextSdkMethod<Subscription['serviceCreateds'], SubscriptionserviceCreatedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionAccepted: InContextSdkMethod<Subscription['serviceExecutionAccepted'], SubscriptionserviceExecutionAcceptedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionAccepteds: InContextSdkMethod<Subscription['serviceExecutionAccepteds'], SubscriptionserviceExecutionAcceptedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionCanceled: InContextSdkMethod<Subscription['serviceExecutionCanceled'], SubscriptionserviceExecutionCanceledArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionCanceleds: InContextSdkMethod<Subscription['serviceExecutionCanceleds'], SubscriptionserviceExecutionCanceledsArgs, MeshContext>,
+  /** undefined **/
+  disputeSettings: InContextSdkMethod<Subscription['disputeSettings'], SubscriptiondisputeSettingsArgs, MeshContext>,
+  /** undefined **/
+  disputeSettingses: InContextSdkMethod<Subscription['disputeSettingses'], SubscriptiondisputeSettingsesArgs, MeshContext>,
+  /** undefined **/
+  disputeBondUpdated: InContextSdkMethod<Subscription['disputeBondUpdated'], SubscriptiondisputeBondUpdatedArgs, MeshContext>,
+  /** undefined **/
+  disputeBondUpdateds: InContextSdkMethod<Subscription['disputeBondUpdateds'], SubscriptiondisputeBondUpdatedsArgs, MeshContext>,
+  /** undefined **/
+  disputeBondPosted: InContextSdkMethod<Subscription['disputeBondPosted'], SubscriptiondisputeBondPostedArgs, MeshContext>,
+  /** undefined **/
+  disputeBondPosteds: InContextSdkMethod<Subscription['disputeBondPosteds'], SubscriptiondisputeBondPostedsArgs, MeshContext>,
+  /** undefined **/
+  disputeBondReleased: InContextSdkMethod<Subscription['disputeBondReleased'], SubscriptiondisputeBondReleasedArgs, MeshContext>,
+  /** undefined **/
+  disputeBondReleaseds: InContextSdkMethod<Subscription['disputeBondReleaseds'], SubscriptiondisputeBondReleasedsArgs, MeshContext>,
+  /** undefined **/
+  disputeDefaultsUpdated: InContextSdkMethod<Subscription['disputeDefaultsUpdated'], SubscriptiondisputeDefaultsUpdatedArgs, MeshContext>,
+  /** undefined **/
+  disputeDefaultsUpdateds: InContextSdkMethod<Subscription['disputeDefaultsUpdateds'], SubscriptiondisputeDefaultsUpdatedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionDisputeDefaulted: InContextSdkMethod<Subscription['serviceExecutionDisputeDefaulted'], SubscriptionserviceExecutionDisputeDefaultedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionDisputeDefaulteds: InContextSdkMethod<Subscription['serviceExecutionDisputeDefaulteds'], SubscriptionserviceExecutionDisputeDefaultedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionExpired: InContextSdkMethod<Subscription['serviceExecutionExpired'], SubscriptionserviceExecutionExpiredArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionExpireds: InContextSdkMethod<Subscription['serviceExecutionExpireds'], SubscriptionserviceExecutionExpiredsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionDisputed: InContextSdkMethod<Subscription['serviceExecutionDisputed'], SubscriptionserviceExecutionDisputedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionDisputeds: InContextSdkMethod<Subscription['serviceExecutionDisputeds'], SubscriptionserviceExecutionDisputedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionRequested: InContextSdkMethod<Subscription['serviceExecutionRequested'], SubscriptionserviceExecutionRequestedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionRequesteds: InContextSdkMethod<Subscription['serviceExecutionRequesteds'], SubscriptionserviceExecutionRequestedsArgs, MeshContext>,
+  /** undefined **/
+  disputeEvidence: InContextSdkMethod<Subscription['disputeEvidence'], SubscriptiondisputeEvidenceArgs, MeshContext>,
+  /** undefined **/
+  disputeEvidences: InContextSdkMethod<Subscription['disputeEvidences'], SubscriptiondisputeEvidencesArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionResolved: InContextSdkMethod<Subscription['serviceExecutionResolved'], SubscriptionserviceExecutionResolvedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionResolveds: InContextSdkMethod<Subscription['serviceExecutionResolveds'], SubscriptionserviceExecutionResolvedsArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionValidated: InContextSdkMethod<Subscription['serviceExecutionValidated'], SubscriptionserviceExecutionValidatedArgs, MeshContext>,
+  /** undefined **/
+  serviceExecutionValidateds: InContextSdkMethod<Subscription['serviceExecutionValidateds'], SubscriptionserviceExecutionValidatedsArgs, MeshContext>,
+  /** undefined **/
+  serviceUpdated: InContextSdkMethod<Subscription['serviceUpdated'], SubscriptionserviceUpdatedArgs, MeshContext>,
+  /** undefined **/
+  serviceUpdateds: InContextSdkMethod<Subscription['serviceUpdateds'], SubscriptionserviceUpdatedsArgs, MeshContext>,
+  /** undefined **/
+  arbiter: InContextSdkMethod<Subscription['arbiter'], SubscriptionarbiterArgs, MeshContext>,
+  /** undefined **/
+  arbiters: InContextSdkMethod<Subscription['arbiters'], SubscriptionarbitersArgs, MeshContext>,
+  /** undefined **/
+  arbitrationSettings: InContextSdkMethod<Subscription['arbitrationSettings'], SubscriptionarbitrationSettingsArgs, MeshContext>,
+  /** undefined **/
+  arbitrationSettingses: InContextSdkMethod<Subscription['arbitrationSettingses'], SubscriptionarbitrationSettingsesArgs, MeshContext>,
+  /** undefined **/
+  disputeVote: InContextSdkMethod<Subscription['disputeVote'], SubscriptiondisputeVoteArgs, MeshContext>,
+  /** undefined **/
+  disputeVotes: InContextSdkMethod<Subscription['disputeVotes'], SubscriptiondisputeVotesArgs, MeshContext>,
+  /** undefined **/
+  arbiterAdded: InContextSdkMethod<Subscription['arbiterAdded'], SubscriptionarbiterAddedArgs, MeshContext>,
+  /** undefined **/
+  arbiterAddeds: InContextSdkMethod<Subscription['arbiterAddeds'], SubscriptionarbiterAddedsArgs, MeshContext>,
+  /** undefined **/
+  arbiterRemoved: InContextSdkMethod<Subscription['arbiterRemoved'], SubscriptionarbiterRemovedArgs, MeshContext>,
+  /** undefined **/
+  arbiterRemoveds: InContextSdkMethod<Subscription['arbiterRemoveds'], SubscriptionarbiterRemovedsArgs, MeshContext>,
+  /** undefined **/
+  arbitrationSettingsUpdated: InContextSdkMethod<Subscription['arbitrationSettingsUpdated'], SubscriptionarbitrationSettingsUpdatedArgs, MeshContext>,
+  /** undefined **/
+  arbitrationSettingsUpdateds: InContextSdkMethod<Subscription['arbitrationSettingsUpdateds'], SubscriptionarbitrationSettingsUpdatedsArgs, MeshContext>,
+  /** undefined **/
+  disputeVotesTallied: InContextSdkMethod<Subscription['disputeVotesTallied'], SubscriptiondisputeVotesTalliedArgs, MeshContext>,
+  /** undefined **/
+  disputeVotesTallieds: InContextSdkMethod<Subscription['disputeVotesTallieds'], SubscriptiondisputeVotesTalliedsArgs, MeshContext>,
+  /** Access to subgraph metadata **/
+  _meta: InContextSdkMethod<Subscription['_meta'], Subscription_metaArgs, MeshContext>
+  };
+
+  export type Context = {
+      ["Noodles"]: { Query: QuerySdk, Mutation: MutationSdk, Subscription: SubscriptionSdk },
+      
+    };
+}
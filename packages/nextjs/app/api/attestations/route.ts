@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { isAddress, isHex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import deployedContracts from "~~/contracts/deployedContracts";
+import {
+  CREATOR_ATTESTATION_TYPES,
+  CREATOR_ATTESTATION_VALIDITY_SECONDS,
+  CreatorAttestation,
+  getCreatorAttestationDomain,
+  verifyVisibilityOwnership,
+} from "~~/utils/creatorAttestations";
+import { publicClient, targetNetwork } from "~~/utils/publicClient";
+
+/**
+ * Issues a `CreatorAttestation` linking a visibility ID to a creator address, once the platform
+ * ownership check passed. Anyone can then submit it with `setCreatorVisibilityWithAttestation`.
+ *
+ * Signed with `CREATORS_CHECKER_PRIVATE_KEY`, the key of an account with the `CREATORS_CHECKER_ROLE`.
+ */
+export async function POST(request: Request) {
+  const privateKey = process.env.CREATORS_CHECKER_PRIVATE_KEY;
+  if (!privateKey || !isHex(privateKey)) {
+    return NextResponse.json({ error: "Attestations are not configured" }, { status: 503 });
+  }
+
+  const { visibilityId, creator, proof } = (await request.json().catch(() => ({}))) as {
+    visibilityId?: unknown;
+    creator?: unknown;
+    proof?: unknown;
+  };
+  if (typeof visibilityId !== "string" || typeof creator !== "string" || !isAddress(creator)) {
+    return NextResponse.json({ error: "Invalid visibility ID or creator address" }, { status: 400 });
+  }
+
+  if (!(await verifyVisibilityOwnership(visibilityId, creator, typeof proof === "string" ? proof : ""))) {
+    return NextResponse.json({ error: `Could not verify that ${creator} owns ${visibilityId}` }, { status: 403 });
+  }
+
+  const { address, abi } = deployedContracts[targetNetwork.id].VisibilityCredits;
+
+  try {
+    const nonce = await publicClient.readContract({
+      address,
+      abi,
+      functionName: "getCreatorAttestationNonce",
+      args: [visibilityId],
+    });
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + CREATOR_ATTESTATION_VALIDITY_SECONDS);
+
+    const signature = await privateKeyToAccount(privateKey).signTypedData({
+      domain: getCreatorAttestationDomain(targetNetwork.id, address),
+      types: CREATOR_ATTESTATION_TYPES,
+      primaryType: "CreatorAttestation",
+      message: { visibilityId, creator, nonce, deadline },
+    });
+
+    const attestation: CreatorAttestation = {
+      visibilityId,
+      creator,
+      nonce: nonce.toString(),
+      deadline: deadline.toString(),
+      signature,
+    };
+    return NextResponse.json(attestation);
+  } catch (e) {
+    console.error("Error issuing a creator attestation", e);
+    return NextResponse.json({ error: "Could not issue the attestation" }, { status: 502 });
+  }
+}
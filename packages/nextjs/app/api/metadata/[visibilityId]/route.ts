@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { formatEther } from "viem";
+import deployedContracts from "~~/contracts/deployedContracts";
+import { publicClient, targetNetwork } from "~~/utils/publicClient";
+
+const baseUrl = process.env.VERCEL_PROJECT_PRODUCTION_URL
+  ? `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`
+  : `http://localhost:${process.env.PORT || 3000}`;
+
+/**
+ * ERC-1155 metadata of a visibility, resolved by `VisibilityCredits1155.uri`.
+ */
+export async function GET(_request: Request, { params }: { params: { visibilityId: string } }) {
+  const visibilityId = decodeURIComponent(params.visibilityId);
+  const { address, abi } = deployedContracts[targetNetwork.id].VisibilityCredits;
+
+  try {
+    const [[creator, totalSupply], currentPrice] = await Promise.all([
+      publicClient.readContract({ address, abi, functionName: "getVisibility", args: [visibilityId] }),
+      publicClient.readContract({ address, abi, functionName: "getVisibilityCurrentPrice", args: [visibilityId] }),
+    ]);
+
+    return NextResponse.json({
+      name: visibilityId,
+      description: `Visibility credits of ${visibilityId}, traded along a bonding curve on Noodles.`,
+      image: `${baseUrl}/thumbnail.jpg`,
+      external_url: `${baseUrl}/visibility/${encodeURIComponent(visibilityId)}`,
+      decimals: 0,
+      properties: {
+        creator,
+        totalSupply: totalSupply.toString(),
+        currentPrice: `${formatEther(currentPrice)} ETH`,
+      },
+    });
+  } catch (e) {
+    console.error("Error reading visibility metadata", e);
+    return NextResponse.json({ error: "Could not read the visibility" }, { status: 502 });
+  }
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { useBasket } from "./useBasket";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatEther, zeroAddress } from "viem";
+import { useAccount, useBlockNumber, useReadContracts } from "wagmi";
+import { TrashIcon } from "@heroicons/react/24/outline";
+import { SlippageSettings, useSlippageBps } from "~~/app/visibility/_components";
+import {
+  getMaxBuyValue,
+  getMinSellReimbursement,
+  getTradeDeadline,
+  parseCreditsAmount,
+} from "~~/app/visibility/_components/utils";
+import { useDeployedContractInfo, useScaffoldWriteContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+export const Basket = () => {
+  const { address: connectedAddress } = useAccount();
+  const { legs, removeLeg, clearBasket } = useBasket();
+  const [slippageBps, setSlippageBps] = useSlippageBps();
+
+  const { targetNetwork } = useTargetNetwork();
+  const { data: deployedContractData } = useDeployedContractInfo("VisibilityCredits");
+
+  // One quote per leg, against the current supply since a basket holds one leg per visibility
+  const { data: quotes, queryKey } = useReadContracts({
+    contracts: legs.map(({ visibilityId, amount, isBuy }) => ({
+      chainId: targetNetwork.id,
+      address: deployedContractData?.address,
+      abi: deployedContractData?.abi,
+      functionName: isBuy ? ("buyCostWithFees" as const) : ("sellCostWithFees" as const),
+      args: [visibilityId, parseCreditsAmount(amount) ?? 0n, zeroAddress],
+    })),
+    query: { enabled: deployedContractData !== undefined && legs.length > 0 },
+  });
+
+  const queryClient = useQueryClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [blockNumber]);
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityCredits");
+
+  // Each leg is limited by its own slippage tolerance, the contract refunds whatever the trades did not use
+  const pricedLegs = legs.map((leg, i) => {
+    // totalCost of a buy or reimbursement of a sell, the union of function names erases the result type
+    const [quote] = (quotes?.[i]?.result as readonly bigint[] | undefined) ?? [];
+    const limit =
+      quote === undefined
+        ? undefined
+        : leg.isBuy
+          ? getMaxBuyValue(quote, slippageBps)
+          : getMinSellReimbursement(quote, slippageBps);
+    return { ...leg, quote, limit };
+  });
+  const isPriced = pricedLegs.length > 0 && pricedLegs.every(({ limit }) => limit !== undefined);
+
+  const netQuote = pricedLegs.reduce((sum, { isBuy, quote = 0n }) => (isBuy ? sum + quote : sum - quote), 0n);
+  const maxValue = pricedLegs.reduce((sum, { isBuy, limit = 0n }) => (isBuy ? sum + limit : sum - limit), 0n);
+
+  const handleCheckout = async () => {
+    if (!isPriced) return;
+
+    try {
+      await writeContractAsync({
+        functionName: "tradeCreditsBatch",
+        args: [
+          pricedLegs.map(({ visibilityId, amount, isBuy, limit }) => ({
+            visibilityId,
+            amount: BigInt(amount),
+            isBuy,
+            limit: limit ?? 0n,
+          })),
+          zeroAddress,
+          getTradeDeadline(),
+        ],
+        value: maxValue > 0n ? maxValue : 0n,
+      });
+      clearBasket();
+    } catch (e) {
+      console.error("Error checking out the basket", e);
+    }
+  };
+
+  if (legs.length === 0) {
+    return (
+      <p className="text-center">
+        Your basket is empty, add buys and sells from the pages of the{" "}
+        <Link href="/" className="link">
+          visibilities
+        </Link>{" "}
+        you trade.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="overflow-x-auto shadow-lg rounded-xl">
+        <table className="table table-zebra w-full">
+          <thead>
+            <tr className="bg-secondary">
+              <th>Visibility</th>
+              <th>Side</th>
+              <th className="text-right">Credits</th>
+              <th className="text-right">Quote</th>
+              <th className="text-right">Limit</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {pricedLegs.map(({ visibilityId, amount, isBuy, quote, limit }) => (
+              <tr key={visibilityId}>
+                <td>
+                  <Link href={`/visibility/${encodeURIComponent(visibilityId)}`} className="link">
+                    {visibilityId}
+                  </Link>
+                </td>
+                <td className={isBuy ? "text-success" : "text-error"}>{isBuy ? "Buy" : "Sell"}</td>
+                <td className="text-right">{amount}</td>
+                <td className="text-right">{quote !== undefined ? `${formatEther(quote)} ETH` : "..."}</td>
+                <td className="text-right text-xs opacity-70">
+                  {limit !== undefined ? `${isBuy ? "max" : "min"} ${formatEther(limit)} ETH` : "..."}
+                </td>
+                <td>
+                  <button className="btn btn-ghost btn-xs" onClick={() => removeLeg(visibilityId)}>
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />
+      {isPriced && (
+        <div className="text-sm">
+          <p className="my-0 font-bold">
+            {netQuote >= 0n ? `Total: ${formatEther(netQuote)} ETH` : `You receive: ${formatEther(-netQuote)} ETH`}
+          </p>
+          <p className="my-0 text-xs opacity-70">
+            {maxValue > 0n
+              ? `Up to ${formatEther(maxValue)} ETH will be sent, any excess is refunded in the same transaction.`
+              : `At least ${formatEther(-maxValue)} ETH will be received.`}{" "}
+            Sell reimbursements fund the buys, and the whole basket reverts if any trade moves beyond its limit.
+          </p>
+        </div>
+      )}
+      <div className="flex gap-2 justify-end">
+        <button className="btn btn-ghost btn-sm" onClick={clearBasket} disabled={isMining}>
+          Clear
+        </button>
+        <button
+          className="btn btn-primary btn-sm"
+          onClick={handleCheckout}
+          disabled={isMining || !connectedAddress || !isPriced}
+        >
+          {isMining ? <span className="loading loading-spinner loading-xs"></span> : "Checkout"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export * from "./Basket";
+export * from "./useBasket";
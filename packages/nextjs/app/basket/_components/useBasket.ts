@@ -0,0 +1,26 @@
+import { useLocalStorage } from "usehooks-ts";
+
+export type BasketLeg = {
+  visibilityId: string;
+  // Kept as a string, bigints are not JSON serializable
+  amount: string;
+  isBuy: boolean;
+};
+
+/**
+ * Trades queued for a single `tradeCreditsBatch` checkout, persisted across pages.
+ * A basket holds at most one leg per visibility, so that each leg can be quoted against the current supply.
+ */
+export const useBasket = () => {
+  const [legs, setLegs] = useLocalStorage<BasketLeg[]>("noodles.basket", [], { initializeWithValue: false });
+
+  const addLeg = (leg: BasketLeg) =>
+    setLegs(previous => [...previous.filter(({ visibilityId }) => visibilityId !== leg.visibilityId), leg]);
+
+  const removeLeg = (visibilityId: string) =>
+    setLegs(previous => previous.filter(leg => leg.visibilityId !== visibilityId));
+
+  const clearBasket = () => setLegs([]);
+
+  return { legs, addLeg, removeLeg, clearBasket };
+};
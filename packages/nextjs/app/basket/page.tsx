@@ -0,0 +1,13 @@
+import { Basket } from "./_components";
+import type { NextPage } from "next";
+
+const BasketPage: NextPage = () => {
+  return (
+    <div className="container mx-auto my-10 px-4 flex flex-col gap-10 max-w-4xl">
+      <h1 className="text-center text-4xl font-bold">Basket</h1>
+      <Basket />
+    </div>
+  );
+};
+
+export default BasketPage;
@@ -0,0 +1,38 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Address } from "~~/components/scaffold-eth";
+import { useDeployedContractInfo } from "~~/hooks/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+export const ArbitrationPanel = () => {
+  // the subgraph indexes every DisputeArbitration granted the dispute resolver role
+  const { data: disputeArbitration } = useDeployedContractInfo("DisputeArbitration");
+  const { data, error } = useQuery({
+    queryKey: ["GetArbitrationPanel", disputeArbitration?.address],
+    queryFn: () =>
+      getSubgraphSdk().GetArbitrationPanel({ arbitration: disputeArbitration?.address.toLowerCase() ?? "" }),
+    enabled: !!disputeArbitration,
+  });
+
+  if (error || !data?.arbitrationSettings?.active) {
+    return null;
+  }
+
+  const { quorum, votingPeriod, arbiters } = data.arbitrationSettings;
+
+  return (
+    <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3">
+      <h2 className="text-xl font-bold my-0">Arbitration panel</h2>
+      <p className="my-0 text-sm">
+        Disputes are resolved with the average vote of the arbiters, given at least {quorum} votes within{" "}
+        {Number(votingPeriod) / 3600} hours of the dispute. Both are fixed by the first vote on a dispute.
+      </p>
+      <div className="flex flex-wrap gap-4">
+        {arbiters.map(arbiter => (
+          <Address key={arbiter.address} address={arbiter.address} size="sm" />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { RefundSplitInput } from "./RefundSplitInput";
+import { isAddressEqual } from "viem";
+import { useAccount } from "wagmi";
+import { Countdown } from "~~/components/Countdown";
+import { Address } from "~~/components/scaffold-eth";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+type ArbitrationVote = {
+  id: string;
+  arbiter: { address: string };
+  refundBps: string;
+  reason: string;
+};
+
+type ArbitrationVotesProps = {
+  serviceNonce: bigint;
+  executionNonce: bigint;
+  creditsCostAmount: bigint;
+  votes: ArbitrationVote[];
+  onUpdated?: () => void;
+};
+
+/**
+ * Votes of the arbitration panel on a dispute, with the vote form of the connected arbiter
+ * and the tally once the voting period is over.
+ */
+export const ArbitrationVotes = ({
+  serviceNonce,
+  executionNonce,
+  creditsCostAmount,
+  votes,
+  onUpdated,
+}: ArbitrationVotesProps) => {
+  const { address: connectedAddress } = useAccount();
+
+  const [refundBps, setRefundBps] = useState(5000);
+  const [reason, setReason] = useState("");
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("DisputeArbitration");
+
+  const { data: isArbiter } = useScaffoldReadContract({
+    contractName: "DisputeArbitration",
+    functionName: "isArbiter",
+    args: [connectedAddress],
+  });
+
+  // fixed by the first vote on the dispute
+  const { data: quorum } = useScaffoldReadContract({
+    contractName: "DisputeArbitration",
+    functionName: "getQuorum",
+    args: [serviceNonce, executionNonce],
+  });
+
+  const { data: votingDeadline } = useScaffoldReadContract({
+    contractName: "DisputeArbitration",
+    functionName: "getVotingDeadline",
+    args: [serviceNonce, executionNonce],
+  });
+
+  const hasVoted =
+    connectedAddress !== undefined && votes.some(vote => isAddressEqual(vote.arbiter.address, connectedAddress));
+  const isVotingOpen = votingDeadline !== undefined && Number(votingDeadline) * 1000 >= Date.now();
+  const canTally =
+    votingDeadline !== undefined && !isVotingOpen && quorum !== undefined && votes.length > 0 && votes.length >= quorum;
+
+  const handleVote = async () => {
+    try {
+      await writeContractAsync({
+        functionName: "castVote",
+        args: [serviceNonce, executionNonce, BigInt(refundBps), reason],
+      });
+      setReason("");
+      onUpdated?.();
+    } catch (e) {
+      console.error("Error voting on the dispute", e);
+    }
+  };
+
+  const handleTally = async () => {
+    try {
+      await writeContractAsync({
+        functionName: "tallyVotes",
+        args: [serviceNonce, executionNonce],
+      });
+      onUpdated?.();
+    } catch (e) {
+      console.error("Error tallying the dispute votes", e);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-bold">Arbitration:</span>
+        <span>
+          {votes.length}
+          {quorum !== undefined && ` / ${quorum}`} votes
+        </span>
+        {votingDeadline !== undefined && (
+          <>
+            <span>, voting ends in</span>
+            <Countdown deadline={votingDeadline} expiredLabel="ended" />
+          </>
+        )}
+        {canTally && (
+          <button className="btn btn-xs btn-secondary" disabled={isMining} onClick={handleTally}>
+            Tally votes
+          </button>
+        )}
+      </div>
+      {votes.map(vote => (
+        <div key={vote.id} className="flex flex-wrap items-center gap-2">
+          <Address address={vote.arbiter.address} size="sm" />
+          <span>
+            refund {Number(vote.refundBps) / 100}%{vote.reason && `: ${vote.reason}`}
+          </span>
+        </div>
+      ))}
+      {isArbiter && !hasVoted && isVotingOpen && (
+        <div className="flex flex-col gap-2">
+          <RefundSplitInput creditsCostAmount={creditsCostAmount} refundBps={refundBps} onChange={setRefundBps} />
+          <input
+            className="input input-bordered input-sm"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Reason of the vote"
+          />
+          <button className="btn btn-primary btn-sm" onClick={handleVote} disabled={isMining}>
+            {isMining ? <span className="loading loading-spinner loading-xs"></span> : "Vote"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+"use client";
+
+import Link from "next/link";
+import { ArbitrationVotes } from "./ArbitrationVotes";
+import { ResolveDisputeForm } from "./ResolveDisputeForm";
+import { useQuery } from "@tanstack/react-query";
+import { isAddressEqual } from "viem";
+import { useAccount } from "wagmi";
+import { Countdown } from "~~/components/Countdown";
+import { Address } from "~~/components/scaffold-eth";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+export const DisputedExecutions = () => {
+  const { address: connectedAddress } = useAccount();
+
+  const { data, error, refetch } = useQuery({
+    queryKey: ["GetVisibilityServiceExecutions", "DISPUTED"],
+    queryFn: () =>
+      getSubgraphSdk().GetVisibilityServiceExecutions({
+        first: 100,
+        orderDirection: "asc",
+        where: { state: "DISPUTED" },
+      }),
+  });
+
+  const { data: disputeResolverRole } = useScaffoldReadContract({
+    contractName: "VisibilityServices",
+    functionName: "DISPUTE_RESOLVER_ROLE",
+  });
+
+  const { data: isDisputeResolver } = useScaffoldReadContract({
+    contractName: "VisibilityServices",
+    functionName: "hasRole",
+    args: [disputeResolverRole, connectedAddress],
+  });
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityServices");
+
+  if (error) {
+    return <p className="text-center my-0">Could not load the disputes.</p>;
+  }
+
+  const executions = data?.visibilityServiceExecutions ?? [];
+
+  if (executions.length === 0) {
+    return <p className="text-center my-0">No dispute to resolve.</p>;
+  }
+
+  // either party can apply the default outcome once the resolution window is over
+  const isParty = (requester: string, creator?: string) =>
+    connectedAddress !== undefined &&
+    (isAddressEqual(requester, connectedAddress) ||
+      (creator !== undefined && isAddressEqual(creator, connectedAddress)));
+
+  const settle = async (serviceNonce: string, executionNonce: bigint) => {
+    try {
+      await writeContractAsync({
+        functionName: "settleExpiredDispute",
+        args: [BigInt(serviceNonce), executionNonce],
+      });
+      await refetch();
+    } catch (e) {
+      console.error("Error settling the dispute", e);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      {!isDisputeResolver && (
+        <p className="text-center my-0">Only accounts with the dispute resolver role can resolve disputes directly.</p>
+      )}
+      {executions.map(execution => (
+        <div
+          key={execution.id}
+          className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3"
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-xl font-bold my-0">
+              {execution.service.serviceType} on{" "}
+              <Link href={`/visibility/${encodeURIComponent(execution.service.visibility.id)}`} className="link">
+                {execution.service.visibility.id}
+              </Link>
+            </h3>
+            <span className="text-sm">
+              Execution{" "}
+              <Link href={`/execution/${execution.id}`} className="link">
+                {execution.id}
+              </Link>
+              , {execution.creditsCostAmount} credits escrowed
+              {execution.disputeBondAmount && `, ${execution.disputeBondAmount} credits bonded`}
+            </span>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <span>Requested by</span>
+            <Address address={execution.requester} size="sm" />
+          </div>
+          <p className="my-0 text-sm">
+            <span className="font-bold">Request:</span> {execution.requestData}
+          </p>
+          <p className="my-0 text-sm">
+            <span className="font-bold">Response:</span> {execution.responseData}
+          </p>
+          <p className="my-0 text-sm">
+            <span className="font-bold">Dispute:</span> {execution.disputeData}
+          </p>
+          {execution.disputeDeadline && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-bold">Resolution window:</span>
+              <Countdown deadline={BigInt(execution.disputeDeadline)} expiredLabel="ended" />
+              {Number(execution.disputeDeadline) * 1000 < Date.now() &&
+                isParty(execution.requester, execution.service.visibility.creator?.id) && (
+                  <button
+                    className="btn btn-xs btn-secondary"
+                    disabled={isMining}
+                    onClick={() => settle(execution.service.id, BigInt(execution.executionNonce))}
+                  >
+                    Settle with default outcome
+                  </button>
+                )}
+            </div>
+          )}
+          <ArbitrationVotes
+            serviceNonce={BigInt(execution.service.id)}
+            executionNonce={BigInt(execution.executionNonce)}
+            creditsCostAmount={BigInt(execution.creditsCostAmount)}
+            votes={execution.arbitrationVotes}
+            onUpdated={refetch}
+          />
+          {isDisputeResolver && (
+            <ResolveDisputeForm
+              serviceNonce={BigInt(execution.service.id)}
+              executionNonce={BigInt(execution.executionNonce)}
+              creditsCostAmount={BigInt(execution.creditsCostAmount)}
+              onResolved={refetch}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+// VisibilityServices BPS_DENOMINATOR
+export const BPS_DENOMINATOR = 10000n;
+
+type RefundSplitInputProps = {
+  creditsCostAmount: bigint;
+  refundBps: number;
+  onChange: (refundBps: number) => void;
+};
+
+/**
+ * Share of the escrowed credits refunded to the requester, with a preview of both amounts.
+ */
+export const RefundSplitInput = ({ creditsCostAmount, refundBps, onChange }: RefundSplitInputProps) => {
+  // rounded down like on-chain, in favor of the creator
+  const refundAmount = (creditsCostAmount * BigInt(refundBps)) / BPS_DENOMINATOR;
+  const creatorAmount = creditsCostAmount - refundAmount;
+
+  return (
+    <>
+      <input
+        type="range"
+        className="range range-primary range-sm"
+        min={0}
+        max={Number(BPS_DENOMINATOR)}
+        step={100}
+        value={refundBps}
+        onChange={e => onChange(Number(e.target.value))}
+      />
+      <div className="flex justify-between text-sm">
+        <span>
+          Requester: {refundAmount.toString()} credits ({refundBps / 100}%)
+        </span>
+        <span>
+          Creator: {creatorAmount.toString()} credits ({100 - refundBps / 100}%)
+        </span>
+      </div>
+    </>
+  );
+};
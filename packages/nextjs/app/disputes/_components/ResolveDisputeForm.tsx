@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { RefundSplitInput } from "./RefundSplitInput";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+type ResolveDisputeFormProps = {
+  serviceNonce: bigint;
+  executionNonce: bigint;
+  creditsCostAmount: bigint;
+  onResolved?: () => void;
+};
+
+export const ResolveDisputeForm = ({
+  serviceNonce,
+  executionNonce,
+  creditsCostAmount,
+  onResolved,
+}: ResolveDisputeFormProps) => {
+  const [refundBps, setRefundBps] = useState(5000);
+  const [resolveData, setResolveData] = useState("");
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityServices");
+
+  const handleResolve = async () => {
+    try {
+      await writeContractAsync({
+        functionName: "resolveServiceExecution",
+        args: [serviceNonce, executionNonce, BigInt(refundBps), resolveData],
+      });
+      setResolveData("");
+      onResolved?.();
+    } catch (e) {
+      console.error("Error resolving the dispute", e);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <RefundSplitInput creditsCostAmount={creditsCostAmount} refundBps={refundBps} onChange={setRefundBps} />
+      <input
+        className="input input-bordered input-sm"
+        value={resolveData}
+        onChange={e => setResolveData(e.target.value)}
+        placeholder="Resolution details"
+      />
+      <button className="btn btn-primary btn-sm" onClick={handleResolve} disabled={isMining}>
+        {isMining ? <span className="loading loading-spinner loading-xs"></span> : "Resolve"}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,5 @@
+export * from "./ArbitrationPanel";
+export * from "./ArbitrationVotes";
+export * from "./DisputedExecutions";
+export * from "./RefundSplitInput";
+export * from "./ResolveDisputeForm";
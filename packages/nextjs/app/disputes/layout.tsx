@@ -0,0 +1,12 @@
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Disputes",
+  description: "Resolve and vote on disputed Noodles.Fun service executions",
+});
+
+const DisputesLayout = ({ children }: { children: React.ReactNode }) => {
+  return <>{children}</>;
+};
+
+export default DisputesLayout;
@@ -0,0 +1,14 @@
+import { ArbitrationPanel, DisputedExecutions } from "./_components";
+import type { NextPage } from "next";
+
+const Disputes: NextPage = () => {
+  return (
+    <div className="container mx-auto my-10 px-4 flex flex-col gap-10 max-w-5xl">
+      <h1 className="text-center text-4xl font-bold">Disputes</h1>
+      <ArbitrationPanel />
+      <DisputedExecutions />
+    </div>
+  );
+};
+
+export default Disputes;
@@ -0,0 +1,20 @@
+import { ExecutionDetails } from "../_components";
+import type { NextPage } from "next";
+
+type PageProps = {
+  params: { executionId: string };
+};
+
+export function generateStaticParams() {
+  // An workaround to enable static exports in Next.js, generating single dummy page.
+  return [{ executionId: "0-0" }];
+}
+
+const ExecutionPage: NextPage<PageProps> = ({ params }: PageProps) => {
+  // `{serviceNonce}-{executionNonce}`, as indexed by the subgraph
+  const executionId = decodeURIComponent(params.executionId);
+
+  return <ExecutionDetails executionId={executionId} />;
+};
+
+export default ExecutionPage;
@@ -0,0 +1,47 @@
+import { DisputeParty } from "~~/.graphclient";
+import { Address } from "~~/components/scaffold-eth";
+
+type Evidence = {
+  id: string;
+  from: string;
+  party: DisputeParty;
+  evidence: string;
+  blockTimestamp: string;
+};
+
+const PARTY_BADGES: Record<DisputeParty, string> = {
+  REQUESTER: "badge-primary",
+  CREATOR: "badge-secondary",
+  RESOLVER: "badge-accent",
+};
+
+/**
+ * Evidence thread of a disputed execution, oldest first.
+ */
+export const EvidenceTimeline = ({ evidence }: { evidence: Evidence[] }) => {
+  if (evidence.length === 0) {
+    return <p className="text-center my-0 text-sm">No evidence submitted yet.</p>;
+  }
+
+  return (
+    <ul className="timeline timeline-vertical timeline-compact">
+      {evidence.map((item, index) => (
+        <li key={item.id}>
+          {index > 0 && <hr />}
+          <div className="timeline-middle">
+            <span className="block w-3 h-3 rounded-full bg-primary"></span>
+          </div>
+          <div className="timeline-end timeline-box flex flex-col gap-2 w-full mb-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className={`badge badge-sm ${PARTY_BADGES[item.party]}`}>{item.party.toLowerCase()}</span>
+              <Address address={item.from} size="sm" />
+              <span>{new Date(Number(item.blockTimestamp) * 1000).toLocaleString()}</span>
+            </div>
+            <p className="my-0 break-words">{item.evidence}</p>
+          </div>
+          {index < evidence.length - 1 && <hr />}
+        </li>
+      ))}
+    </ul>
+  );
+};
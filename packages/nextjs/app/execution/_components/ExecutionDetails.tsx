@@ -0,0 +1,128 @@
+"use client";
+
+import Link from "next/link";
+import { EvidenceTimeline } from "./EvidenceTimeline";
+import { SubmitEvidenceForm } from "./SubmitEvidenceForm";
+import { useQuery } from "@tanstack/react-query";
+import { isAddressEqual } from "viem";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+export const ExecutionDetails = ({ executionId }: { executionId: string }) => {
+  const { address: connectedAddress } = useAccount();
+
+  const { data, error, isLoading, refetch } = useQuery({
+    queryKey: ["GetVisibilityServiceExecution", executionId],
+    queryFn: () => getSubgraphSdk().GetVisibilityServiceExecution({ id: executionId }),
+  });
+
+  const { data: disputeResolverRole } = useScaffoldReadContract({
+    contractName: "VisibilityServices",
+    functionName: "DISPUTE_RESOLVER_ROLE",
+  });
+
+  const { data: isDisputeResolver } = useScaffoldReadContract({
+    contractName: "VisibilityServices",
+    functionName: "hasRole",
+    args: [disputeResolverRole, connectedAddress],
+  });
+
+  const { data: isArbiter } = useScaffoldReadContract({
+    contractName: "DisputeArbitration",
+    functionName: "isArbiter",
+    args: [connectedAddress],
+  });
+
+  if (error) {
+    return <p className="text-center text-xl my-10">Could not load the execution, is the subgraph running?</p>;
+  }
+
+  const execution = data?.visibilityServiceExecution;
+
+  if (!execution) {
+    return isLoading ? null : <p className="text-center text-xl my-10">Unknown execution: {executionId}</p>;
+  }
+
+  const creator = execution.service.visibility.creator?.id;
+
+  const isParty =
+    connectedAddress !== undefined &&
+    (isAddressEqual(execution.requester, connectedAddress) ||
+      (creator !== undefined && isAddressEqual(creator, connectedAddress)));
+
+  // the requester, the creator and the dispute resolvers can append evidence while disputed,
+  // the arbiters through the DisputeArbitration contract
+  const submitsAsArbiter = !isParty && isDisputeResolver !== true && isArbiter === true;
+  const canSubmitEvidence =
+    execution.state === "DISPUTED" && (isParty || isDisputeResolver === true || submitsAsArbiter);
+
+  return (
+    <div className="container mx-auto my-10 px-4 flex flex-col gap-6 max-w-3xl">
+      <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold my-0">
+            {execution.service.serviceType} on{" "}
+            <Link href={`/visibility/${encodeURIComponent(execution.service.visibility.id)}`} className="link">
+              {execution.service.visibility.id}
+            </Link>
+          </h1>
+          <span className="badge badge-primary">{execution.state}</span>
+        </div>
+        <span className="text-sm">
+          Execution {execution.id}, {execution.creditsCostAmount} credits escrowed
+        </span>
+        {execution.service.metadataURI && (
+          <a href={execution.service.metadataURI} target="_blank" rel="noreferrer" className="link text-sm">
+            Service terms
+          </a>
+        )}
+        <div className="flex items-center gap-2 text-sm">
+          <span>Requested by</span>
+          <Address address={execution.requester} size="sm" />
+        </div>
+        <p className="my-0 text-sm">
+          <span className="font-bold">Request:</span> {execution.requestData}
+        </p>
+        {execution.responseData && (
+          <p className="my-0 text-sm">
+            <span className="font-bold">Response:</span> {execution.responseData}
+          </p>
+        )}
+        {execution.cancelData && (
+          <p className="my-0 text-sm">
+            <span className="font-bold">Cancellation:</span> {execution.cancelData}
+          </p>
+        )}
+        {execution.disputeData && (
+          <p className="my-0 text-sm">
+            <span className="font-bold">Dispute:</span> {execution.disputeData}
+          </p>
+        )}
+        {execution.refundAmount && execution.creatorAmount && (
+          <p className="my-0 text-sm">
+            <span className="font-bold">Resolution:</span> {execution.refundAmount} credits refunded,{" "}
+            {execution.creatorAmount} credits to the creator
+            {execution.resolveData && ` (${execution.resolveData})`}
+          </p>
+        )}
+      </div>
+
+      {execution.disputeData !== null && execution.disputeData !== undefined && (
+        <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3">
+          <h2 className="text-xl font-bold my-0">Evidence</h2>
+          <EvidenceTimeline evidence={execution.evidence} />
+          {canSubmitEvidence && (
+            <SubmitEvidenceForm
+              serviceNonce={BigInt(execution.service.id)}
+              executionNonce={BigInt(execution.executionNonce)}
+              asArbiter={submitsAsArbiter}
+              onSubmitted={refetch}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
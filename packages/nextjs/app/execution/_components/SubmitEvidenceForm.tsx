@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+type SubmitEvidenceFormProps = {
+  serviceNonce: bigint;
+  executionNonce: bigint;
+  // relays the evidence through DisputeArbitration, for arbiters without a direct role
+  asArbiter?: boolean;
+  onSubmitted?: () => void;
+};
+
+export const SubmitEvidenceForm = ({
+  serviceNonce,
+  executionNonce,
+  asArbiter,
+  onSubmitted,
+}: SubmitEvidenceFormProps) => {
+  const [evidence, setEvidence] = useState("");
+
+  const { writeContractAsync: writeVisibilityServices, isMining: isMiningEvidence } =
+    useScaffoldWriteContract("VisibilityServices");
+  const { writeContractAsync: writeDisputeArbitration, isMining: isMiningArbiterEvidence } =
+    useScaffoldWriteContract("DisputeArbitration");
+  const isMining = isMiningEvidence || isMiningArbiterEvidence;
+
+  const handleSubmit = async () => {
+    try {
+      if (asArbiter) {
+        await writeDisputeArbitration({
+          functionName: "submitEvidence",
+          args: [serviceNonce, executionNonce, evidence],
+        });
+      } else {
+        await writeVisibilityServices({
+          functionName: "submitDisputeEvidence",
+          args: [serviceNonce, executionNonce, evidence],
+        });
+      }
+      setEvidence("");
+      onSubmitted?.();
+    } catch (e) {
+      console.error("Error submitting the dispute evidence", e);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <textarea
+        className="textarea textarea-bordered"
+        value={evidence}
+        onChange={e => setEvidence(e.target.value)}
+        placeholder="Evidence, or a link to it"
+      />
+      <button className="btn btn-primary btn-sm" onClick={handleSubmit} disabled={isMining || !evidence}>
+        {isMining ? <span className="loading loading-spinner loading-xs"></span> : "Submit evidence"}
+      </button>
+    </div>
+  );
+};
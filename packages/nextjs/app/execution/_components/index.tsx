@@ -0,0 +1,3 @@
+export * from "./EvidenceTimeline";
+export * from "./ExecutionDetails";
+export * from "./SubmitEvidenceForm";
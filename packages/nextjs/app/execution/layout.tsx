@@ -0,0 +1,12 @@
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Service execution",
+  description: "Noodles.Fun service execution details and dispute evidence",
+});
+
+const ExecutionLayout = ({ children }: { children: React.ReactNode }) => {
+  return <>{children}</>;
+};
+
+export default ExecutionLayout;
@@ -0,0 +1,110 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+export const MyReferrals = () => {
+  const { address: connectedAddress } = useAccount();
+
+  const { data } = useQuery({
+    queryKey: ["GetReferrer", connectedAddress],
+    queryFn: () => getSubgraphSdk().GetReferrer({ id: connectedAddress?.toLowerCase() ?? "" }),
+    enabled: !!connectedAddress,
+  });
+
+  // Referral fees are credited on each trade and pulled by the referrer
+  const { data: claimableFees } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "claimableReferrerFees",
+    args: [connectedAddress],
+  });
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityCredits");
+
+  const handleClaim = async () => {
+    try {
+      await writeContractAsync({ functionName: "claimReferrerFees" });
+    } catch (e) {
+      console.error("Error claiming referrer fees", e);
+    }
+  };
+
+  if (!connectedAddress) {
+    return <p className="text-center my-0">Connect your wallet to get your referral link and follow your earnings.</p>;
+  }
+
+  const referrer = data?.referrer;
+
+  return (
+    <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3">
+      <h2 className="text-xl font-bold my-0">Your referrals</h2>
+      <p className="my-0 text-sm">
+        Add <code className="bg-base-300 px-1">?ref={connectedAddress}</code> to any visibility trading link, e.g.{" "}
+        <Link href={`/visibility/x-vitalikbuterin?ref=${connectedAddress}`} className="link break-all">
+          /visibility/x-vitalikbuterin?ref={connectedAddress}
+        </Link>
+        , to earn referral fees on the trades you bring.
+      </p>
+      {referrer ? (
+        <>
+          <div className="stats stats-vertical md:stats-horizontal">
+            <div className="stat">
+              <div className="stat-title">Fees earned</div>
+              <div className="stat-value text-xl">{formatEther(BigInt(referrer.totalFeesEarned))} ETH</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Claimable</div>
+              <div className="stat-value text-xl">{formatEther(claimableFees ?? 0n)} ETH</div>
+              <div className="stat-actions">
+                <button className="btn btn-primary btn-xs" onClick={handleClaim} disabled={isMining || !claimableFees}>
+                  {isMining ? <span className="loading loading-spinner loading-xs"></span> : "Claim"}
+                </button>
+              </div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Referred volume</div>
+              <div className="stat-value text-xl">{formatEther(BigInt(referrer.totalVolume))} ETH</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Referred traders</div>
+              <div className="stat-value text-xl">{referrer.referredTraderCount.toString()}</div>
+            </div>
+          </div>
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Visibility</th>
+                <th>Fees earned</th>
+                <th>Volume</th>
+                <th>Trades</th>
+              </tr>
+            </thead>
+            <tbody>
+              {referrer.visibilities.map(referrerVisibility => (
+                <tr key={referrerVisibility.id}>
+                  <td>
+                    <Link
+                      href={`/visibility/${encodeURIComponent(referrerVisibility.visibility.id)}?ref=${connectedAddress}`}
+                      className="link"
+                    >
+                      {referrerVisibility.visibility.id}
+                    </Link>
+                  </td>
+                  <td>{formatEther(BigInt(referrerVisibility.feesEarned))} ETH</td>
+                  <td>{formatEther(BigInt(referrerVisibility.volume))} ETH</td>
+                  <td>{referrerVisibility.tradeCount.toString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : (
+        <p className="my-0 text-sm opacity-70">No referred trades yet.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatEther } from "viem";
+import { Referrer_orderBy } from "~~/.graphclient";
+import { Pagination } from "~~/components/Pagination";
+import { Address } from "~~/components/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+const PAGE_SIZE = 20;
+
+export const ReferrersLeaderboard = () => {
+  const [page, setPage] = useState(0);
+  const [orderBy, setOrderBy] = useState<Referrer_orderBy>("totalFeesEarned");
+
+  const { data, error } = useQuery({
+    queryKey: ["GetReferrers", page, orderBy],
+    queryFn: () =>
+      getSubgraphSdk().GetReferrers({
+        first: PAGE_SIZE + 1,
+        skip: page * PAGE_SIZE,
+        orderBy,
+      }),
+  });
+
+  if (error) {
+    return <p className="text-center">Could not load the leaderboard, is the subgraph running?</p>;
+  }
+
+  const referrers = data?.referrers ?? [];
+
+  return (
+    <div className="flex flex-col items-center w-full">
+      <div className="flex items-center justify-end w-full mb-4">
+        <select
+          className="select select-bordered select-sm"
+          value={orderBy}
+          onChange={e => {
+            setOrderBy(e.target.value as Referrer_orderBy);
+            setPage(0);
+          }}
+        >
+          <option value="totalFeesEarned">Fees earned</option>
+          <option value="totalVolume">Referred volume</option>
+          <option value="referredTraderCount">Referred traders</option>
+        </select>
+      </div>
+      <div className="overflow-x-auto shadow-2xl rounded-xl w-full">
+        <table className="table bg-base-100 table-zebra">
+          <thead>
+            <tr className="rounded-xl">
+              <th className="bg-primary">#</th>
+              <th className="bg-primary">Referrer</th>
+              <th className="bg-primary">Fees earned</th>
+              <th className="bg-primary">Referred volume</th>
+              <th className="bg-primary">Trades</th>
+              <th className="bg-primary">Traders</th>
+            </tr>
+          </thead>
+          <tbody>
+            {referrers.slice(0, PAGE_SIZE).map((referrer, index) => (
+              <tr key={referrer.id}>
+                <th>{page * PAGE_SIZE + index + 1}</th>
+                <td>
+                  <Address address={referrer.id} />
+                </td>
+                <td>{formatEther(BigInt(referrer.totalFeesEarned))} ETH</td>
+                <td>{formatEther(BigInt(referrer.totalVolume))} ETH</td>
+                <td>{referrer.tradeCount.toString()}</td>
+                <td>{referrer.referredTraderCount.toString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <Pagination page={page} hasNextPage={referrers.length > PAGE_SIZE} setPage={setPage} />
+    </div>
+  );
+};
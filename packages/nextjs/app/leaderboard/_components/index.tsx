@@ -0,0 +1,2 @@
+export * from "./MyReferrals";
+export * from "./ReferrersLeaderboard";
@@ -0,0 +1,12 @@
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Leaderboard",
+  description: "Top referrers of Noodles.Fun visibility credits trades",
+});
+
+const LeaderboardLayout = ({ children }: { children: React.ReactNode }) => {
+  return <>{children}</>;
+};
+
+export default LeaderboardLayout;
@@ -0,0 +1,14 @@
+import { MyReferrals, ReferrersLeaderboard } from "./_components";
+import type { NextPage } from "next";
+
+const Leaderboard: NextPage = () => {
+  return (
+    <div className="container mx-auto my-10 px-4 flex flex-col gap-10 max-w-5xl">
+      <h1 className="text-center text-4xl font-bold">Referrers leaderboard</h1>
+      <MyReferrals />
+      <ReferrersLeaderboard />
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -1,13 +1,26 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import type { NextPage } from "next";
 import { useAccount } from "wagmi";
 import { BugAntIcon, MagnifyingGlassIcon } from "@heroicons/react/24/outline";
-import { Address } from "~~/components/scaffold-eth";
+import { Address, InputBase } from "~~/components/scaffold-eth";
+import { usePlatformRules } from "~~/hooks/usePlatformRules";
+import { normalizeVisibilityId, normalizeVisibilityPlatform } from "~~/utils/visibilityId";
 
 const Home: NextPage = () => {
   const { address: connectedAddress } = useAccount();
+  const router = useRouter();
+  const [visibilityId, setVisibilityId] = useState("");
+  const platformRules = usePlatformRules(normalizeVisibilityPlatform(visibilityId));
+  const normalizedVisibilityId = normalizeVisibilityId(visibilityId, platformRules);
+
+  const goToVisibility = () => {
+    if (!normalizedVisibilityId) return;
+    router.push(`/visibility/${encodeURIComponent(normalizedVisibilityId)}`);
+  };
 
   return (
     <>
@@ -15,29 +28,48 @@ const Home: NextPage = () => {
         <div className="px-5">
           <h1 className="text-center">
             <span className="block text-2xl mb-2">Welcome to</span>
-            <span className="block text-4xl font-bold">Scaffold-ETH 2</span>
+            <span className="block text-4xl font-bold">Noodles.Fun</span>
           </h1>
           <div className="flex justify-center items-center space-x-2 flex-col sm:flex-row">
             <p className="my-2 font-medium">Connected Address:</p>
             <Address address={connectedAddress} />
           </div>
+          {connectedAddress && (
+            <p className="text-center my-2">
+              <Link href={`/portfolio/${connectedAddress}`} passHref className="link">
+                View your portfolio
+              </Link>
+            </p>
+          )}
 
           <p className="text-center text-lg">
-            Get started by editing{" "}
+            Trade the visibility credits of a creator, identified as{" "}
             <code className="italic bg-base-300 text-base font-bold max-w-full break-words break-all inline-block">
-              packages/nextjs/app/page.tsx
-            </code>
-          </p>
-          <p className="text-center text-lg">
-            Edit your smart contract{" "}
-            <code className="italic bg-base-300 text-base font-bold max-w-full break-words break-all inline-block">
-              YourContract.sol
-            </code>{" "}
-            in{" "}
-            <code className="italic bg-base-300 text-base font-bold max-w-full break-words break-all inline-block">
-              packages/hardhat/contracts
+              {"{platformPrefix}-{creatorHandle}"}
             </code>
           </p>
+          <form
+            className="flex gap-2 items-center"
+            onSubmit={e => {
+              e.preventDefault();
+              goToVisibility();
+            }}
+          >
+            <div className="flex-grow">
+              <InputBase
+                value={visibilityId}
+                onChange={setVisibilityId}
+                placeholder="x-vitalikbuterin"
+                error={!!visibilityId && !normalizedVisibilityId}
+              />
+            </div>
+            <button type="submit" className="btn btn-primary btn-sm" disabled={!normalizedVisibilityId}>
+              Trade
+            </button>
+          </form>
+          {visibilityId && !normalizedVisibilityId && (
+            <p className="text-center text-sm text-error">Unknown platform or invalid handle, e.g. x-vitalikbuterin</p>
+          )}
         </div>
 
         <div className="flex-grow bg-base-300 w-full mt-16 px-8 py-12">
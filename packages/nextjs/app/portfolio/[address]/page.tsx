@@ -0,0 +1,24 @@
+import { Portfolio } from "../_components";
+import type { NextPage } from "next";
+import { isAddress } from "viem";
+
+type PageProps = {
+  params: { address: string };
+};
+
+export function generateStaticParams() {
+  // An workaround to enable static exports in Next.js, generating single dummy page.
+  return [{ address: "0x0000000000000000000000000000000000000000" }];
+}
+
+const PortfolioPage: NextPage<PageProps> = ({ params }: PageProps) => {
+  const address = params.address;
+
+  if (!isAddress(address)) {
+    return <p className="text-center text-xl my-10">Invalid address: {address}</p>;
+  }
+
+  return <Portfolio address={address} />;
+};
+
+export default PortfolioPage;
@@ -0,0 +1,85 @@
+"use client";
+
+import { PositionRow } from "./PositionRow";
+import { formatPnl, pnlClassName } from "./utils";
+import { useQuery } from "@tanstack/react-query";
+import { Address as AddressType, formatEther } from "viem";
+import { Address } from "~~/components/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+export const Portfolio = ({ address }: { address: AddressType }) => {
+  const { data, error, isLoading } = useQuery({
+    queryKey: ["GetVisibilityBalances", address],
+    queryFn: () =>
+      getSubgraphSdk().GetVisibilityBalances({
+        first: 1000,
+        where: { user: address.toLowerCase() },
+      }),
+  });
+
+  const balances = data?.visibilityBalances ?? [];
+  const openPositions = balances.filter(position => BigInt(position.balance) > 0n);
+
+  const totalCostBasis = openPositions.reduce((total, position) => total + BigInt(position.costBasis), 0n);
+  const totalRealizedPnl = balances.reduce((total, position) => total + BigInt(position.realizedPnl), 0n);
+  const totalFeesPaid = balances.reduce((total, position) => total + BigInt(position.totalFeesPaid), 0n);
+
+  return (
+    <div className="container mx-auto my-10 px-4 flex flex-col gap-6 max-w-6xl">
+      <div className="flex flex-col items-center gap-2">
+        <h1 className="text-4xl font-bold my-0">Portfolio</h1>
+        <Address address={address} />
+      </div>
+
+      {error && <p className="text-center">Could not load the portfolio, is the subgraph running?</p>}
+
+      <div className="stats stats-vertical md:stats-horizontal shadow-md">
+        <div className="stat">
+          <div className="stat-title">Open positions</div>
+          <div className="stat-value text-xl">{openPositions.length}</div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Cost basis</div>
+          <div className="stat-value text-xl">{formatEther(totalCostBasis)} ETH</div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Realized PnL</div>
+          <div className={`stat-value text-xl ${pnlClassName(totalRealizedPnl)}`}>{formatPnl(totalRealizedPnl)}</div>
+        </div>
+        <div className="stat">
+          <div className="stat-title">Fees paid</div>
+          <div className="stat-value text-xl">{formatEther(totalFeesPaid)} ETH</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto shadow-2xl rounded-xl">
+        <table className="table bg-base-100 table-zebra">
+          <thead>
+            <tr className="rounded-xl">
+              <th className="bg-primary">Visibility</th>
+              <th className="bg-primary">Credits</th>
+              <th className="bg-primary">Avg entry cost</th>
+              <th className="bg-primary">Current price</th>
+              <th className="bg-primary">Cost basis</th>
+              <th className="bg-primary">Sell value</th>
+              <th className="bg-primary">Unrealized PnL</th>
+              <th className="bg-primary">Realized PnL</th>
+            </tr>
+          </thead>
+          <tbody>
+            {openPositions.map(position => (
+              <PositionRow key={position.id} position={position} />
+            ))}
+            {!isLoading && openPositions.length === 0 && (
+              <tr>
+                <td colSpan={8} className="text-center">
+                  No open positions
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
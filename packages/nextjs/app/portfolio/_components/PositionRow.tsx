@@ -0,0 +1,49 @@
+"use client";
+
+import Link from "next/link";
+import { formatPnl, pnlClassName } from "./utils";
+import { formatEther, zeroAddress } from "viem";
+import { GetVisibilityBalancesQuery } from "~~/.graphclient";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+
+type Position = GetVisibilityBalancesQuery["visibilityBalances"][number];
+
+export const PositionRow = ({ position }: { position: Position }) => {
+  const balance = BigInt(position.balance);
+  const costBasis = BigInt(position.costBasis);
+
+  const { data: currentPrice } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibilityCurrentPrice",
+    args: [position.visibility.id],
+  });
+
+  // what selling the whole position right now would pay out, fees deducted
+  const { data: sellCost } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "sellCostWithFees",
+    args: [position.visibility.id, balance, zeroAddress],
+  });
+
+  const [reimbursement] = sellCost ?? [];
+  const unrealizedPnl = reimbursement !== undefined ? reimbursement - costBasis : undefined;
+
+  return (
+    <tr>
+      <td>
+        <Link href={`/visibility/${encodeURIComponent(position.visibility.id)}`} className="link">
+          {position.visibility.id}
+        </Link>
+      </td>
+      <td>{balance.toString()}</td>
+      <td>{formatEther(BigInt(position.averageEntryCost))} ETH</td>
+      <td>{currentPrice !== undefined ? `${formatEther(currentPrice)} ETH` : "..."}</td>
+      <td>{formatEther(costBasis)} ETH</td>
+      <td>{reimbursement !== undefined ? `${formatEther(reimbursement)} ETH` : "..."}</td>
+      <td className={unrealizedPnl !== undefined ? pnlClassName(unrealizedPnl) : ""}>
+        {unrealizedPnl !== undefined ? formatPnl(unrealizedPnl) : "..."}
+      </td>
+      <td className={pnlClassName(BigInt(position.realizedPnl))}>{formatPnl(BigInt(position.realizedPnl))}</td>
+    </tr>
+  );
+};
@@ -0,0 +1,2 @@
+export * from "./Portfolio";
+export * from "./PositionRow";
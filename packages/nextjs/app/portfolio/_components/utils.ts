@@ -0,0 +1,8 @@
+import { formatEther } from "viem";
+
+/**
+ * Formats a signed wei amount as ETH, with an explicit `+` for gains.
+ */
+export const formatPnl = (value: bigint) => `${value > 0n ? "+" : ""}${formatEther(value)} ETH`;
+
+export const pnlClassName = (value: bigint) => (value > 0n ? "text-success" : value < 0n ? "text-error" : "");
@@ -0,0 +1,12 @@
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Portfolio",
+  description: "Visibility credits positions with cost basis and PnL",
+});
+
+const PortfolioLayout = ({ children }: { children: React.ReactNode }) => {
+  return <>{children}</>;
+};
+
+export default PortfolioLayout;
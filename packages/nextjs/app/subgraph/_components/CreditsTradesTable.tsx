@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { PAGE_SIZE } from "./constants";
+import { useQuery } from "@tanstack/react-query";
+import { formatEther } from "viem";
+import { Pagination } from "~~/components/Pagination";
+import { Address } from "~~/components/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+type TradeSide = "all" | "buy" | "sell";
+
+const CreditsTradesTable = () => {
+  const [page, setPage] = useState(0);
+  const [side, setSide] = useState<TradeSide>("all");
+
+  const { data, error } = useQuery({
+    queryKey: ["GetCreditsTrades", page, side],
+    queryFn: () =>
+      getSubgraphSdk().GetCreditsTrades({
+        first: PAGE_SIZE + 1,
+        skip: page * PAGE_SIZE,
+        where: side === "all" ? undefined : { tradeEvent_isBuy: side === "buy" },
+      }),
+  });
+
+  if (error) {
+    return null;
+  }
+
+  const trades = data?.creditsTrades ?? [];
+
+  return (
+    <div className="flex flex-col items-center mt-10 w-full">
+      <div className="flex items-center justify-between w-full max-w-5xl mb-4">
+        <h2 className="text-2xl font-bold">Recent trades</h2>
+        <select
+          className="select select-bordered select-sm"
+          value={side}
+          onChange={e => {
+            setSide(e.target.value as TradeSide);
+            setPage(0);
+          }}
+        >
+          <option value="all">All</option>
+          <option value="buy">Buys</option>
+          <option value="sell">Sells</option>
+        </select>
+      </div>
+      <div className="overflow-x-auto shadow-2xl rounded-xl w-full max-w-5xl">
+        <table className="table bg-base-100 table-zebra">
+          <thead>
+            <tr className="rounded-xl">
+              <th className="bg-primary">Date</th>
+              <th className="bg-primary">Visibility</th>
+              <th className="bg-primary">Trader</th>
+              <th className="bg-primary">Side</th>
+              <th className="bg-primary">Amount</th>
+              <th className="bg-primary">Trade cost</th>
+              <th className="bg-primary">New price</th>
+            </tr>
+          </thead>
+          <tbody>
+            {trades.slice(0, PAGE_SIZE).map(trade => (
+              <tr key={trade.id}>
+                <td>{new Date(Number(trade.blockTimestamp) * 1000).toLocaleString()}</td>
+                <td>
+                  <Link href={`/visibility/${encodeURIComponent(trade.visibility.id)}`} className="link">
+                    {trade.visibility.id}
+                  </Link>
+                </td>
+                <td>
+                  <Address address={trade.tradeEvent_from} />
+                </td>
+                <td>{trade.tradeEvent_isBuy ? "Buy" : "Sell"}</td>
+                <td>{trade.tradeEvent_amount.toString()}</td>
+                <td>{formatEther(BigInt(trade.tradeEvent_tradeCost))} ETH</td>
+                <td>{formatEther(BigInt(trade.tradeEvent_newCurrentPrice))} ETH</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <Pagination page={page} hasNextPage={trades.length > PAGE_SIZE} setPage={setPage} />
+    </div>
+  );
+};
+
+export default CreditsTradesTable;
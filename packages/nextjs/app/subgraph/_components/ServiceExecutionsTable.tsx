@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { PAGE_SIZE } from "./constants";
+import { useQuery } from "@tanstack/react-query";
+import { ExecutionState } from "~~/.graphclient";
+import { Countdown } from "~~/components/Countdown";
+import { Pagination } from "~~/components/Pagination";
+import { Address } from "~~/components/scaffold-eth";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+const EXECUTION_STATES: ExecutionState[] = ["REQUESTED", "ACCEPTED", "DISPUTED", "REFUNDED", "VALIDATED", "SPLIT"];
+
+const ServiceExecutionsTable = () => {
+  const [page, setPage] = useState(0);
+  const [state, setState] = useState<ExecutionState | "">("");
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityServices");
+
+  const { data, error, refetch } = useQuery({
+    queryKey: ["GetVisibilityServiceExecutions", page, state],
+    queryFn: () =>
+      getSubgraphSdk().GetVisibilityServiceExecutions({
+        first: PAGE_SIZE + 1,
+        skip: page * PAGE_SIZE,
+        where: state ? { state } : undefined,
+      }),
+  });
+
+  if (error) {
+    return null;
+  }
+
+  const executions = data?.visibilityServiceExecutions ?? [];
+
+  const expire = async (serviceNonce: string, executionNonce: bigint) => {
+    try {
+      await writeContractAsync({
+        functionName: "expireServiceExecution",
+        args: [BigInt(serviceNonce), executionNonce],
+      });
+      await refetch();
+    } catch (e) {
+      console.error("Error expiring the service execution", e);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center mt-10 w-full">
+      <div className="flex items-center justify-between w-full max-w-5xl mb-4">
+        <h2 className="text-2xl font-bold">Service executions</h2>
+        <select
+          className="select select-bordered select-sm"
+          value={state}
+          onChange={e => {
+            setState(e.target.value as ExecutionState | "");
+            setPage(0);
+          }}
+        >
+          <option value="">All states</option>
+          {EXECUTION_STATES.map(executionState => (
+            <option key={executionState} value={executionState}>
+              {executionState}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="overflow-x-auto shadow-2xl rounded-xl w-full max-w-5xl">
+        <table className="table bg-base-100 table-zebra">
+          <thead>
+            <tr className="rounded-xl">
+              <th className="bg-primary">Execution</th>
+              <th className="bg-primary">Visibility</th>
+              <th className="bg-primary">Service type</th>
+              <th className="bg-primary">Requester</th>
+              <th className="bg-primary">State</th>
+              <th className="bg-primary">Deadline</th>
+              <th className="bg-primary">Last updated</th>
+            </tr>
+          </thead>
+          <tbody>
+            {executions.slice(0, PAGE_SIZE).map(execution => (
+              <tr key={execution.id}>
+                <td>
+                  <Link href={`/execution/${execution.id}`} className="link">
+                    {execution.id}
+                  </Link>
+                </td>
+                <td>
+                  <Link href={`/visibility/${encodeURIComponent(execution.service.visibility.id)}`} className="link">
+                    {execution.service.visibility.id}
+                  </Link>
+                </td>
+                <td>{execution.service.serviceType}</td>
+                <td>
+                  <Address address={execution.requester} />
+                </td>
+                <td>{execution.state}</td>
+                <td>
+                  {execution.state === "REQUESTED" && (
+                    <div className="flex items-center gap-2">
+                      <span>Acceptance window</span>
+                      <Countdown deadline={BigInt(execution.acceptanceDeadline)} expiredLabel="ended" />
+                      {Number(execution.acceptanceDeadline) * 1000 < Date.now() && (
+                        <button
+                          className="btn btn-xs btn-secondary"
+                          disabled={isMining}
+                          onClick={() => expire(execution.service.id, BigInt(execution.executionNonce))}
+                        >
+                          Expire
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {execution.state === "ACCEPTED" && execution.autoValidationTimestamp && (
+                    <div className="flex items-center gap-2">
+                      <span>Review window</span>
+                      <Countdown deadline={BigInt(execution.autoValidationTimestamp)} expiredLabel="ended" />
+                    </div>
+                  )}
+                  {execution.state === "DISPUTED" && execution.disputeDeadline && (
+                    <div className="flex items-center gap-2">
+                      <span>Resolution window</span>
+                      <Countdown deadline={BigInt(execution.disputeDeadline)} expiredLabel="ended" />
+                    </div>
+                  )}
+                </td>
+                <td>{new Date(Number(execution.lastUpdated) * 1000).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <Pagination page={page} hasNextPage={executions.length > PAGE_SIZE} setPage={setPage} />
+    </div>
+  );
+};
+
+export default ServiceExecutionsTable;
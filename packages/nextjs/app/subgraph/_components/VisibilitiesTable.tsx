@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { PAGE_SIZE } from "./constants";
+import { useQuery } from "@tanstack/react-query";
+import { formatEther } from "viem";
+import { Pagination } from "~~/components/Pagination";
+import { Address } from "~~/components/scaffold-eth";
+import { getSubgraphSdk } from "~~/utils/subgraph";
+
+const VisibilitiesTable = () => {
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState("");
+
+  const { data, error } = useQuery({
+    queryKey: ["GetVisibilities", page, search],
+    queryFn: () =>
+      getSubgraphSdk().GetVisibilities({
+        // fetch one extra row to know whether a next page exists
+        first: PAGE_SIZE + 1,
+        skip: page * PAGE_SIZE,
+        where: search ? { id_contains_nocase: search } : undefined,
+      }),
+  });
+
+  if (error) {
+    return null;
+  }
+
+  const visibilities = data?.visibilities ?? [];
+
+  return (
+    <div className="flex flex-col items-center mt-10 w-full">
+      <div className="flex items-center justify-between w-full max-w-4xl mb-4">
+        <h2 className="text-2xl font-bold">Visibilities</h2>
+        <input
+          className="input input-bordered input-sm"
+          placeholder="Search by id"
+          value={search}
+          onChange={e => {
+            setSearch(e.target.value);
+            setPage(0);
+          }}
+        />
+      </div>
+      <div className="overflow-x-auto shadow-2xl rounded-xl w-full max-w-4xl">
+        <table className="table bg-base-100 table-zebra">
+          <thead>
+            <tr className="rounded-xl">
+              <th className="bg-primary">Id</th>
+              <th className="bg-primary">Creator</th>
+              <th className="bg-primary">Total supply</th>
+              <th className="bg-primary">Current price</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibilities.slice(0, PAGE_SIZE).map(visibility => (
+              <tr key={visibility.id}>
+                <td>
+                  <Link href={`/visibility/${encodeURIComponent(visibility.id)}`} className="link">
+                    {visibility.id}
+                  </Link>
+                </td>
+                <td>{visibility.creator ? <Address address={visibility.creator.id} /> : "-"}</td>
+                <td>{visibility.totalSupply.toString()}</td>
+                <td>{formatEther(BigInt(visibility.currentPrice))} ETH</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <Pagination page={page} hasNextPage={visibilities.length > PAGE_SIZE} setPage={setPage} />
+    </div>
+  );
+};
+
+export default VisibilitiesTable;
@@ -1,6 +1,8 @@
 import React from "react";
 import Link from "next/link";
-import GreetingsTable from "./_components/GreetingsTable";
+import CreditsTradesTable from "./_components/CreditsTradesTable";
+import ServiceExecutionsTable from "./_components/ServiceExecutionsTable";
+import VisibilitiesTable from "./_components/VisibilitiesTable";
 import type { NextPage } from "next";
 import { MagnifyingGlassIcon, PlusIcon, PowerIcon, RocketLaunchIcon } from "@heroicons/react/24/outline";
 
@@ -26,13 +28,13 @@ const Subgraph: NextPage = () => {
             </code>{" "}
             located in{" "}
             <code className="italic bg-base-300 text-base font-bold max-w-full break-words break-all inline-block">
-              packages/subgraph/src
+              packages/subgraph
             </code>
           </p>
           <p className="text-center text-lg">
             Data is processed using AssemblyScript Mappings in{" "}
             <code className="italic bg-base-300 text-base font-bold max-w-full break-words break-all inline-block">
-              packages/subgraph/src/mapping.ts
+              packages/subgraph/src
             </code>
           </p>
         </div>
@@ -93,7 +95,11 @@ const Subgraph: NextPage = () => {
             </div>
           </div>
         </div>
-        <GreetingsTable />
+        <div className="flex flex-col items-center px-4 pb-12">
+          <VisibilitiesTable />
+          <CreditsTradesTable />
+          <ServiceExecutionsTable />
+        </div>
       </div>
     </>
   );
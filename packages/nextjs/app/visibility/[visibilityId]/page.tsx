@@ -0,0 +1,25 @@
+import { Suspense } from "react";
+import { VisibilityTrading } from "../_components";
+import type { NextPage } from "next";
+
+type PageProps = {
+  params: { visibilityId: string };
+};
+
+export function generateStaticParams() {
+  // An workaround to enable static exports in Next.js, generating single dummy page.
+  return [{ visibilityId: "x-vitalikbuterin" }];
+}
+
+const VisibilityPage: NextPage<PageProps> = ({ params }: PageProps) => {
+  const visibilityId = decodeURIComponent(params.visibilityId);
+
+  // the trading forms read the `?ref=` search param, which requires a suspense boundary
+  return (
+    <Suspense>
+      <VisibilityTrading visibilityId={visibilityId} />
+    </Suspense>
+  );
+};
+
+export default VisibilityPage;
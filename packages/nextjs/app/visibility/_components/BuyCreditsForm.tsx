@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  getBuyBudgetExcludingSlippage,
+  getCreditsTradeFromReceipt,
+  getMaxBuyValue,
+  getTradeDeadline,
+  parseCreditsAmount,
+} from "./utils";
+import { Address, formatEther, parseEther } from "viem";
+import { useBasket } from "~~/app/basket/_components/useBasket";
+import { EtherInput, IntegerInput } from "~~/components/scaffold-eth";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { getMaxBuyAmount } from "~~/utils/bondingCurve";
+import { notification } from "~~/utils/scaffold-eth";
+
+type BuyCreditsFormProps = {
+  visibilityId: string;
+  referrer: Address;
+  slippageBps: bigint;
+};
+
+export const BuyCreditsForm = ({ visibilityId, referrer, slippageBps }: BuyCreditsFormProps) => {
+  const [amount, setAmount] = useState("");
+  const [budget, setBudget] = useState("");
+  const [refund, setRefund] = useState<bigint>();
+
+  const creditsAmount = parseCreditsAmount(amount);
+
+  const { data: deployedContractData } = useDeployedContractInfo("VisibilityCredits");
+
+  const { data: buyCost } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "buyCostWithFees",
+    args: [visibilityId, creditsAmount, referrer],
+  });
+
+  const { data: visibility } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibility",
+    args: [visibilityId],
+  });
+
+  const { data: curve } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibilityCurve",
+    args: [visibilityId],
+  });
+
+  const { data: fees } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "fees",
+  });
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityCredits");
+
+  const { addLeg } = useBasket();
+
+  const [, totalSupply] = visibility ?? [];
+  const curveParams = curve && { a: curve[0], b: curve[1], basePrice: curve[2] };
+  const feeParams = fees && { creatorFee: fees[0], protocolFee: fees[1], referrerFee: fees[2] };
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    setBudget("");
+  };
+
+  // Solve for the largest amount of credits the ETH budget can buy, slippage margin included
+  const handleBudgetChange = (value: string) => {
+    setBudget(value);
+    if (totalSupply === undefined || !curveParams || !feeParams) return;
+    try {
+      const budgetWei = getBuyBudgetExcludingSlippage(parseEther(value), slippageBps);
+      const maxAmount = getMaxBuyAmount(totalSupply, budgetWei, referrer, curveParams, feeParams);
+      setAmount(maxAmount > 0n ? maxAmount.toString() : "");
+    } catch {
+      setAmount("");
+    }
+  };
+
+  const [totalCost, tradeCost, creatorFee, protocolFee, referrerFee] = buyCost ?? [];
+  const maxValue = totalCost !== undefined ? getMaxBuyValue(totalCost, slippageBps) : undefined;
+
+  const handleAddToBasket = () => {
+    if (creditsAmount === undefined) return;
+    addLeg({ visibilityId, amount: creditsAmount.toString(), isBuy: true });
+    notification.success(
+      <span>
+        Buy of {creditsAmount.toString()} credits added to your{" "}
+        <Link href="/basket" className="link">
+          basket
+        </Link>
+      </span>,
+    );
+    setAmount("");
+    setBudget("");
+  };
+
+  const handleBuy = async () => {
+    if (creditsAmount === undefined || maxValue === undefined) return;
+    setRefund(undefined);
+
+    try {
+      await writeContractAsync(
+        {
+          functionName: "buyCreditsWithSlippage",
+          args: [visibilityId, creditsAmount, referrer, maxValue, getTradeDeadline()],
+          value: maxValue,
+        },
+        {
+          onBlockConfirmation: receipt => {
+            if (!deployedContractData) return;
+            const tradeEvent = getCreditsTradeFromReceipt(deployedContractData.abi, receipt);
+            if (!tradeEvent) return;
+            const paid = tradeEvent.tradeCost + tradeEvent.creatorFee + tradeEvent.protocolFee + tradeEvent.referrerFee;
+            setRefund(maxValue - paid);
+          },
+        },
+      );
+      setAmount("");
+      setBudget("");
+    } catch (e) {
+      console.error("Error buying credits", e);
+    }
+  };
+
+  return (
+    <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3">
+      <h3 className="text-xl font-bold">Buy credits</h3>
+      <IntegerInput
+        value={amount}
+        onChange={handleAmountChange}
+        placeholder="Amount of credits"
+        disableMultiplyBy1e18
+      />
+      <EtherInput value={budget} onChange={handleBudgetChange} placeholder="Or ETH to spend" />
+      {budget && !amount && <p className="my-0 text-sm text-error">Not enough to buy a single credit.</p>}
+      {totalCost !== undefined && maxValue !== undefined && (
+        <div className="text-sm">
+          <p className="my-0">Trade cost: {formatEther(tradeCost ?? 0n)} ETH</p>
+          <p className="my-0">
+            Fees: {formatEther((creatorFee ?? 0n) + (protocolFee ?? 0n) + (referrerFee ?? 0n))} ETH
+          </p>
+          <p className="my-0 font-bold">Total: {formatEther(totalCost)} ETH</p>
+          <p className="my-0 text-xs opacity-70">
+            Up to {formatEther(maxValue)} ETH will be sent ({Number(slippageBps) / 100}% slippage), the trade reverts if
+            the price moves further and any excess is refunded automatically.
+          </p>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button
+          className="btn btn-primary btn-sm flex-1"
+          onClick={handleBuy}
+          disabled={isMining || creditsAmount === undefined || maxValue === undefined}
+        >
+          {isMining ? <span className="loading loading-spinner loading-xs"></span> : "Buy"}
+        </button>
+        <button className="btn btn-outline btn-sm" onClick={handleAddToBasket} disabled={creditsAmount === undefined}>
+          Add to basket
+        </button>
+      </div>
+      {refund !== undefined && (
+        <p className="my-0 text-sm text-success">Refunded {formatEther(refund)} ETH of unused slippage margin.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { InputBase } from "~~/components/scaffold-eth";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import type { CreatorAttestation } from "~~/utils/creatorAttestations";
+import { notification } from "~~/utils/scaffold-eth";
+import { isZeroAddress } from "~~/utils/scaffold-eth/common";
+
+/**
+ * Lets the owner of an unlinked visibility link their address, with an attestation issued by `/api/attestations`.
+ */
+export const LinkCreatorForm = ({ visibilityId }: { visibilityId: string }) => {
+  const { address: connectedAddress } = useAccount();
+
+  const [proof, setProof] = useState("");
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const { data: visibility } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibility",
+    args: [visibilityId],
+  });
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityCredits");
+
+  const [creator] = visibility ?? [];
+
+  const handleLink = async () => {
+    if (!connectedAddress) return;
+
+    setIsRequesting(true);
+    try {
+      const response = await fetch("/api/attestations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ visibilityId, creator: connectedAddress, proof }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        notification.error(result.error ?? "Could not get an attestation");
+        return;
+      }
+
+      const attestation = result as CreatorAttestation;
+      await writeContractAsync({
+        functionName: "setCreatorVisibilityWithAttestation",
+        args: [visibilityId, attestation.creator, BigInt(attestation.deadline), attestation.signature],
+      });
+      setProof("");
+    } catch (e) {
+      console.error("Error linking the creator", e);
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  if (!connectedAddress || creator === undefined || !isZeroAddress(creator)) return null;
+
+  return (
+    <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3">
+      <h3 className="text-xl font-bold">Is this you?</h3>
+      <p className="my-0 text-sm">
+        Link your address to {visibilityId} to receive the creator fees. Publish a post containing your address from
+        this account, and paste its URL below.
+      </p>
+      <InputBase value={proof} onChange={setProof} placeholder="https://x.com/..." />
+      <button className="btn btn-primary btn-sm" onClick={handleLink} disabled={isRequesting || isMining}>
+        {isRequesting || isMining ? <span className="loading loading-spinner loading-xs"></span> : "Link my address"}
+      </button>
+    </div>
+  );
+};
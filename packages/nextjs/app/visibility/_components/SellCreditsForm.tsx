@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  getCreditsTradeFromReceipt,
+  getMinSellReimbursement,
+  getSellTargetIncludingSlippage,
+  getTradeDeadline,
+  parseCreditsAmount,
+} from "./utils";
+import { Address, formatEther, parseEther } from "viem";
+import { useBasket } from "~~/app/basket/_components/useBasket";
+import { EtherInput, IntegerInput } from "~~/components/scaffold-eth";
+import { useDeployedContractInfo, useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { getMinSellAmount } from "~~/utils/bondingCurve";
+import { notification } from "~~/utils/scaffold-eth";
+
+type SellCreditsFormProps = {
+  visibilityId: string;
+  referrer: Address;
+  slippageBps: bigint;
+};
+
+export const SellCreditsForm = ({ visibilityId, referrer, slippageBps }: SellCreditsFormProps) => {
+  const [amount, setAmount] = useState("");
+  const [target, setTarget] = useState("");
+  const [received, setReceived] = useState<bigint>();
+
+  const creditsAmount = parseCreditsAmount(amount);
+
+  const { data: deployedContractData } = useDeployedContractInfo("VisibilityCredits");
+
+  const { data: sellCost } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "sellCostWithFees",
+    args: [visibilityId, creditsAmount, referrer],
+  });
+
+  const { data: visibility } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibility",
+    args: [visibilityId],
+  });
+
+  const { data: curve } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibilityCurve",
+    args: [visibilityId],
+  });
+
+  const { data: fees } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "fees",
+  });
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityCredits");
+
+  const { addLeg } = useBasket();
+
+  const [, totalSupply] = visibility ?? [];
+  const curveParams = curve && { a: curve[0], b: curve[1], basePrice: curve[2] };
+  const feeParams = fees && { creatorFee: fees[0], protocolFee: fees[1], referrerFee: fees[2] };
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    setTarget("");
+  };
+
+  // Solve for the fewest credits to sell so that even after slippage the target is received
+  const handleTargetChange = (value: string) => {
+    setTarget(value);
+    if (totalSupply === undefined || !curveParams || !feeParams) return;
+    try {
+      const targetWei = getSellTargetIncludingSlippage(parseEther(value), slippageBps);
+      const minAmount = getMinSellAmount(totalSupply, targetWei, referrer, curveParams, feeParams);
+      setAmount(minAmount !== undefined ? minAmount.toString() : "");
+    } catch {
+      setAmount("");
+    }
+  };
+
+  const [reimbursement, tradeCost, creatorFee, protocolFee, referrerFee] = sellCost ?? [];
+  const minReimbursement =
+    reimbursement !== undefined ? getMinSellReimbursement(reimbursement, slippageBps) : undefined;
+
+  const handleAddToBasket = () => {
+    if (creditsAmount === undefined) return;
+    addLeg({ visibilityId, amount: creditsAmount.toString(), isBuy: false });
+    notification.success(
+      <span>
+        Sell of {creditsAmount.toString()} credits added to your{" "}
+        <Link href="/basket" className="link">
+          basket
+        </Link>
+      </span>,
+    );
+    setAmount("");
+    setTarget("");
+  };
+
+  const handleSell = async () => {
+    if (creditsAmount === undefined || minReimbursement === undefined) return;
+    setReceived(undefined);
+
+    try {
+      await writeContractAsync(
+        {
+          functionName: "sellCreditsWithSlippage",
+          args: [visibilityId, creditsAmount, referrer, minReimbursement, getTradeDeadline()],
+        },
+        {
+          onBlockConfirmation: receipt => {
+            if (!deployedContractData) return;
+            const tradeEvent = getCreditsTradeFromReceipt(deployedContractData.abi, receipt);
+            if (!tradeEvent) return;
+            setReceived(tradeEvent.tradeCost - tradeEvent.creatorFee - tradeEvent.protocolFee - tradeEvent.referrerFee);
+          },
+        },
+      );
+      setAmount("");
+      setTarget("");
+    } catch (e) {
+      console.error("Error selling credits", e);
+    }
+  };
+
+  return (
+    <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3">
+      <h3 className="text-xl font-bold">Sell credits</h3>
+      <IntegerInput
+        value={amount}
+        onChange={handleAmountChange}
+        placeholder="Amount of credits"
+        disableMultiplyBy1e18
+      />
+      <EtherInput value={target} onChange={handleTargetChange} placeholder="Or ETH to receive" />
+      {target && !amount && <p className="my-0 text-sm text-error">Selling the whole supply would not be enough.</p>}
+      {reimbursement !== undefined && minReimbursement !== undefined && (
+        <div className="text-sm">
+          <p className="my-0">Trade value: {formatEther(tradeCost ?? 0n)} ETH</p>
+          <p className="my-0">
+            Fees: {formatEther((creatorFee ?? 0n) + (protocolFee ?? 0n) + (referrerFee ?? 0n))} ETH
+          </p>
+          <p className="my-0 font-bold">You receive: {formatEther(reimbursement)} ETH</p>
+          <p className="my-0 text-xs opacity-70">
+            Minimum received: {formatEther(minReimbursement)} ETH ({Number(slippageBps) / 100}% slippage).
+          </p>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button
+          className="btn btn-primary btn-sm flex-1"
+          onClick={handleSell}
+          disabled={isMining || creditsAmount === undefined || minReimbursement === undefined}
+        >
+          {isMining ? <span className="loading loading-spinner loading-xs"></span> : "Sell"}
+        </button>
+        <button className="btn btn-outline btn-sm" onClick={handleAddToBasket} disabled={creditsAmount === undefined}>
+          Add to basket
+        </button>
+      </div>
+      {received !== undefined && <p className="my-0 text-sm text-success">Received {formatEther(received)} ETH.</p>}
+    </div>
+  );
+};
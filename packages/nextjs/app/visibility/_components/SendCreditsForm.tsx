@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { parseCreditsAmount } from "./utils";
+import { isAddress, isAddressEqual } from "viem";
+import { useAccount } from "wagmi";
+import { AddressInput, IntegerInput } from "~~/components/scaffold-eth";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+export const SendCreditsForm = ({ visibilityId }: { visibilityId: string }) => {
+  const { address: connectedAddress } = useAccount();
+
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+
+  const creditsAmount = parseCreditsAmount(amount);
+
+  const { data: creditBalance } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibilityCreditBalance",
+    args: [visibilityId, connectedAddress],
+  });
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract("VisibilityCredits");
+
+  const isRecipientValid = isAddress(recipient) && (!connectedAddress || !isAddressEqual(recipient, connectedAddress));
+  const exceedsBalance = creditsAmount !== undefined && creditBalance !== undefined && creditsAmount > creditBalance;
+
+  const handleSend = async () => {
+    if (!connectedAddress || !isAddress(recipient) || creditsAmount === undefined) return;
+
+    try {
+      await writeContractAsync({
+        functionName: "transferCreditsFrom",
+        args: [visibilityId, connectedAddress, recipient, creditsAmount],
+      });
+      setRecipient("");
+      setAmount("");
+    } catch (e) {
+      console.error("Error sending credits", e);
+    }
+  };
+
+  if (!connectedAddress) return null;
+
+  return (
+    <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 py-6 flex flex-col gap-3">
+      <h3 className="text-xl font-bold">Send credits</h3>
+      <AddressInput value={recipient} onChange={setRecipient} placeholder="Recipient address or ENS" />
+      <IntegerInput value={amount} onChange={setAmount} placeholder="Amount of credits" disableMultiplyBy1e18 />
+      {exceedsBalance && <p className="my-0 text-sm text-error">You only own {creditBalance?.toString()} credits.</p>}
+      <button
+        className="btn btn-primary btn-sm"
+        onClick={handleSend}
+        disabled={isMining || !isRecipientValid || creditsAmount === undefined || exceedsBalance}
+      >
+        {isMining ? <span className="loading loading-spinner loading-xs"></span> : "Send"}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { SLIPPAGE_PRESETS_BPS, parseSlippagePercent } from "./utils";
+
+type SlippageSettingsProps = {
+  slippageBps: bigint;
+  onChange: (slippageBps: bigint) => void;
+};
+
+const formatPercent = (bps: bigint) => `${Number(bps) / 100}%`;
+
+export const SlippageSettings = ({ slippageBps, onChange }: SlippageSettingsProps) => {
+  const [customValue, setCustomValue] = useState("");
+
+  const isCustom = !SLIPPAGE_PRESETS_BPS.includes(slippageBps);
+  const isCustomInvalid = customValue !== "" && parseSlippagePercent(customValue) === undefined;
+
+  const handleCustomChange = (value: string) => {
+    setCustomValue(value);
+    const parsed = parseSlippagePercent(value);
+    if (parsed !== undefined) onChange(parsed);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span>Slippage tolerance</span>
+      {SLIPPAGE_PRESETS_BPS.map(preset => (
+        <button
+          key={preset.toString()}
+          className={`btn btn-xs ${preset === slippageBps ? "btn-primary" : "btn-ghost"}`}
+          onClick={() => {
+            setCustomValue("");
+            onChange(preset);
+          }}
+        >
+          {formatPercent(preset)}
+        </button>
+      ))}
+      <input
+        className={`input input-bordered input-xs w-20 ${isCustomInvalid ? "input-error" : ""}`}
+        placeholder={isCustom ? formatPercent(slippageBps) : "Custom %"}
+        value={customValue}
+        onChange={e => handleCustomChange(e.target.value)}
+      />
+    </div>
+  );
+};
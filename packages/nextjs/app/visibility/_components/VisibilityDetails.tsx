@@ -0,0 +1,74 @@
+"use client";
+
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { isZeroAddress } from "~~/utils/scaffold-eth/common";
+
+export const VisibilityDetails = ({ visibilityId }: { visibilityId: string }) => {
+  const { address: connectedAddress } = useAccount();
+
+  const { data: visibility } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibility",
+    args: [visibilityId],
+  });
+
+  const { data: currentPrice } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibilityCurrentPrice",
+    args: [visibilityId],
+  });
+
+  const { data: curve } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibilityCurve",
+    args: [visibilityId],
+  });
+
+  const { data: creditBalance } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getVisibilityCreditBalance",
+    args: [visibilityId, connectedAddress],
+  });
+
+  const [creator, totalSupply] = visibility ?? [];
+  const [a, b, basePrice] = curve ?? [];
+
+  return (
+    <div className="bg-base-100 rounded-3xl shadow-md shadow-secondary border border-base-300 px-6 lg:px-8 py-6">
+      <h2 className="text-3xl font-bold mb-4 break-all">{visibilityId}</h2>
+      <table className="table table-sm">
+        <tbody>
+          <tr>
+            <td className="font-bold">Creator</td>
+            <td>{creator && !isZeroAddress(creator) ? <Address address={creator} /> : "Not linked yet"}</td>
+          </tr>
+          <tr>
+            <td className="font-bold">Total supply</td>
+            <td>{totalSupply?.toString() ?? "..."} credits</td>
+          </tr>
+          <tr>
+            <td className="font-bold">Current price</td>
+            <td>{currentPrice !== undefined ? `${formatEther(currentPrice)} ETH` : "..."}</td>
+          </tr>
+          <tr>
+            <td className="font-bold">Bonding curve</td>
+            <td>
+              {basePrice !== undefined
+                ? `${formatEther(basePrice)} + ${formatEther(a ?? 0n)} × supply² + ${formatEther(b ?? 0n)} × supply ETH`
+                : "..."}
+            </td>
+          </tr>
+          {connectedAddress && (
+            <tr>
+              <td className="font-bold">Your balance</td>
+              <td>{creditBalance?.toString() ?? "..."} credits</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { BuyCreditsForm } from "./BuyCreditsForm";
+import { LinkCreatorForm } from "./LinkCreatorForm";
+import { SellCreditsForm } from "./SellCreditsForm";
+import { SendCreditsForm } from "./SendCreditsForm";
+import { SlippageSettings } from "./SlippageSettings";
+import { VisibilityDetails } from "./VisibilityDetails";
+import { useSlippageBps } from "./useSlippageBps";
+import { parseReferrer } from "./utils";
+import { isAddressEqual, zeroAddress } from "viem";
+import { Address } from "~~/components/scaffold-eth";
+import { usePlatformRules } from "~~/hooks/usePlatformRules";
+import {
+  getVisibilityPlatform,
+  isCanonicalVisibilityId,
+  normalizeVisibilityId,
+  normalizeVisibilityPlatform,
+} from "~~/utils/visibilityId";
+
+export const VisibilityTrading = ({ visibilityId }: { visibilityId: string }) => {
+  const searchParams = useSearchParams();
+  const referrer = parseReferrer(searchParams.get("ref"));
+
+  const [slippageBps, setSlippageBps] = useSlippageBps();
+
+  const platformRules = usePlatformRules(getVisibilityPlatform(visibilityId));
+  const normalizedPlatformRules = usePlatformRules(normalizeVisibilityPlatform(visibilityId));
+
+  // non canonical IDs cannot be traded for the first time, point to the canonical market instead
+  const canonicalVisibilityId = isCanonicalVisibilityId(visibilityId, platformRules)
+    ? null
+    : normalizeVisibilityId(visibilityId, normalizedPlatformRules);
+
+  return (
+    <div className="container mx-auto my-10 px-4 flex flex-col gap-6 max-w-3xl">
+      {canonicalVisibilityId && (
+        <div className="alert alert-warning text-sm">
+          <span>
+            Did you mean{" "}
+            <Link href={`/visibility/${encodeURIComponent(canonicalVisibilityId)}`} className="link font-bold">
+              {canonicalVisibilityId}
+            </Link>
+            ?
+          </span>
+        </div>
+      )}
+      <VisibilityDetails visibilityId={visibilityId} />
+      {!isAddressEqual(referrer, zeroAddress) && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Referred by</span>
+          <Address address={referrer} size="sm" />
+        </div>
+      )}
+      <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <BuyCreditsForm visibilityId={visibilityId} referrer={referrer} slippageBps={slippageBps} />
+        <SellCreditsForm visibilityId={visibilityId} referrer={referrer} slippageBps={slippageBps} />
+      </div>
+      <SendCreditsForm visibilityId={visibilityId} />
+      <LinkCreatorForm visibilityId={visibilityId} />
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+export * from "./BuyCreditsForm";
+export * from "./SellCreditsForm";
+export * from "./SlippageSettings";
+export * from "./VisibilityDetails";
+export * from "./VisibilityTrading";
+export * from "./useSlippageBps";
@@ -0,0 +1,16 @@
+import { DEFAULT_SLIPPAGE_BPS } from "./utils";
+import { useLocalStorage } from "usehooks-ts";
+
+/**
+ * Slippage tolerance of the trading forms, in basis points, persisted across pages.
+ */
+export const useSlippageBps = () => {
+  // Kept as a number, bigints are not JSON serializable
+  const [storedSlippageBps, setStoredSlippageBps] = useLocalStorage(
+    "noodles.slippageBps",
+    Number(DEFAULT_SLIPPAGE_BPS),
+    { initializeWithValue: false },
+  );
+
+  return [BigInt(storedSlippageBps), (slippageBps: bigint) => setStoredSlippageBps(Number(slippageBps))] as const;
+};
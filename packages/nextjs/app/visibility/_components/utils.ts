@@ -0,0 +1,82 @@
+import { Address, TransactionReceipt, isAddress, parseEventLogs, zeroAddress } from "viem";
+import { ContractAbi } from "~~/utils/scaffold-eth/contract";
+
+// Tolerance applied on top of the previewed trade cost, in basis points (1% by default)
+export const DEFAULT_SLIPPAGE_BPS = 100n;
+
+export const SLIPPAGE_PRESETS_BPS = [50n, 100n, 200n, 500n];
+
+// Above this tolerance the protection is meaningless, and the sell minimum would go negative at 100%
+export const MAX_SLIPPAGE_BPS = 5_000n;
+
+// How long a signed trade stays valid once submitted
+const TRADE_DEADLINE_SECONDS = 20 * 60;
+
+const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Parses a credits amount typed by the user, credits being indivisible units.
+ * @returns the amount, or undefined if it is not a strictly positive integer
+ */
+export const parseCreditsAmount = (value: string) => {
+  if (!/^\d+$/.test(value)) return undefined;
+  const amount = BigInt(value);
+  return amount > 0n ? amount : undefined;
+};
+
+/**
+ * Reads the `?ref=` URL param passed along referral links.
+ * @returns the referrer address, or the zero address (no referrer) if missing or invalid
+ */
+export const parseReferrer = (ref: string | null): Address => (ref && isAddress(ref) ? ref : zeroAddress);
+
+/**
+ * Parses a slippage tolerance typed by the user as a percentage.
+ * @returns the tolerance in basis points, or undefined if out of the `[0, MAX_SLIPPAGE_BPS]` range
+ */
+export const parseSlippagePercent = (value: string) => {
+  if (!/^\d+(\.\d{0,2})?$/.test(value)) return undefined;
+  const [units, decimals = ""] = value.split(".");
+  const slippageBps = BigInt(units) * 100n + BigInt(decimals.padEnd(2, "0"));
+  return slippageBps <= MAX_SLIPPAGE_BPS ? slippageBps : undefined;
+};
+
+/**
+ * Deadline passed to `buyCreditsWithSlippage` / `sellCreditsWithSlippage`, as a unix timestamp.
+ */
+export const getTradeDeadline = () => BigInt(Math.floor(Date.now() / 1000) + TRADE_DEADLINE_SECONDS);
+
+/**
+ * Maximum amount of ETH to send for a buy previewed at `totalCost`.
+ * The contract refunds anything above the actual cost in the same transaction.
+ */
+export const getMaxBuyValue = (totalCost: bigint, slippageBps: bigint) =>
+  totalCost + (totalCost * slippageBps) / BPS_DENOMINATOR;
+
+/**
+ * Minimum reimbursement accepted for a sell previewed at `reimbursement`.
+ */
+export const getMinSellReimbursement = (reimbursement: bigint, slippageBps: bigint) =>
+  reimbursement - (reimbursement * slippageBps) / BPS_DENOMINATOR;
+
+/**
+ * Part of an ETH budget that can go to the previewed total cost, so that the value sent
+ * with the slippage margin (see `getMaxBuyValue`) stays within the budget.
+ */
+export const getBuyBudgetExcludingSlippage = (budget: bigint, slippageBps: bigint) =>
+  (budget * BPS_DENOMINATOR) / (BPS_DENOMINATOR + slippageBps);
+
+/**
+ * Reimbursement to preview so that the minimum accepted after slippage
+ * (see `getMinSellReimbursement`) still reaches the target.
+ */
+export const getSellTargetIncludingSlippage = (target: bigint, slippageBps: bigint) =>
+  (target * BPS_DENOMINATOR + BPS_DENOMINATOR - slippageBps - 1n) / (BPS_DENOMINATOR - slippageBps);
+
+/**
+ * Extracts the `CreditsTrade` event emitted by a buy or sell transaction.
+ */
+export const getCreditsTradeFromReceipt = (abi: ContractAbi<"VisibilityCredits">, receipt: TransactionReceipt) => {
+  const [tradeLog] = parseEventLogs({ abi, eventName: "CreditsTrade", logs: receipt.logs });
+  return tradeLog?.args.tradeEvent;
+};
@@ -0,0 +1,12 @@
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Visibility",
+  description: "Buy and sell visibility credits along the bonding curve",
+});
+
+const VisibilityLayout = ({ children }: { children: React.ReactNode }) => {
+  return <>{children}</>;
+};
+
+export default VisibilityLayout;
@@ -0,0 +1,33 @@
+import { useState } from "react";
+import { useInterval } from "usehooks-ts";
+
+type CountdownProps = {
+  deadline: bigint; // unix timestamp, in seconds
+  expiredLabel?: string;
+};
+
+const formatDuration = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+/**
+ * Time left until `deadline`, refreshed every second.
+ */
+export const Countdown = ({ deadline, expiredLabel = "Expired" }: CountdownProps) => {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  useInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+
+  const secondsLeft = Number(deadline) - now;
+
+  return (
+    <span title={new Date(Number(deadline) * 1000).toLocaleString()}>
+      {secondsLeft > 0 ? formatDuration(secondsLeft) : expiredLabel}
+    </span>
+  );
+};
@@ -0,0 +1,19 @@
+type PaginationProps = {
+  page: number;
+  hasNextPage: boolean;
+  setPage: (page: number) => void;
+};
+
+export const Pagination = ({ page, hasNextPage, setPage }: PaginationProps) => {
+  return (
+    <div className="join flex justify-center mt-4">
+      <button className="join-item btn btn-sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+        «
+      </button>
+      <button className="join-item btn btn-sm btn-disabled">Page {page + 1}</button>
+      <button className="join-item btn btn-sm" disabled={!hasNextPage} onClick={() => setPage(page + 1)}>
+        »
+      </button>
+    </div>
+  );
+};
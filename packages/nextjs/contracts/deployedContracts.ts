@@ -84,11 +84,26 @@ const deployedContracts = {
           name: "AddressInsufficientBalance",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "CurveLocked",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "DeadlineExpired",
+          type: "error",
+        },
         {
           inputs: [],
           name: "FailedInnerCall",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "FeeChangeNotReady",
+          type: "error",
+        },
         {
           inputs: [],
           name: "InvalidAddress",
@@ -99,16 +114,51 @@ const deployedContracts = {
           name: "InvalidAmount",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "InvalidAttestation",
+          type: "error",
+        },
         {
           inputs: [],
           name: "InvalidCreator",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "InvalidCurveParams",
+          type: "error",
+        },
         {
           inputs: [],
           name: "InvalidFeeParams",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "InvalidPlatformRules",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidShortString",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidVisibilityId",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "MaxTotalCostExceeded",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "MinReimbursementNotReached",
+          type: "error",
+        },
         {
           inputs: [],
           name: "NotEnoughCreditsOwned",
@@ -119,6 +169,11 @@ const deployedContracts = {
           name: "NotEnoughEthSent",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "NotOperator",
+          type: "error",
+        },
         {
           inputs: [],
           name: "ReentrancyGuardReentrantCall",
@@ -140,6 +195,22 @@ const deployedContracts = {
           name: "SafeCastOverflowedUintDowncast",
           type: "error",
         },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "str",
+              type: "string",
+            },
+          ],
+          name: "StringTooLong",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "TokenAdapterLocked",
+          type: "error",
+        },
         {
           anonymous: false,
           inputs: [
@@ -149,6 +220,12 @@ const deployedContracts = {
               name: "creator",
               type: "address",
             },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
             {
               indexed: false,
               internalType: "uint256",
@@ -279,6 +356,37 @@ const deployedContracts = {
           name: "CreditsTransfer",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "a",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "b",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "basePrice",
+              type: "uint256",
+            },
+          ],
+          name: "CurveSet",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [],
@@ -329,6 +437,189 @@ const deployedContracts = {
           name: "DefaultAdminTransferScheduled",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [],
+          name: "EIP712DomainChanged",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "creatorFee",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "protocolFee",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "referrerFee",
+              type: "uint256",
+            },
+          ],
+          name: "FeeChangeApplied",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [],
+          name: "FeeChangeCanceled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "creatorFee",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "protocolFee",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "referrerFee",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint48",
+              name: "effectSchedule",
+              type: "uint48",
+            },
+          ],
+          name: "FeeChangeScheduled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "approved",
+              type: "bool",
+            },
+          ],
+          name: "OperatorApprovalSet",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "string",
+              name: "prefix",
+              type: "string",
+            },
+            {
+              components: [
+                {
+                  internalType: "bool",
+                  name: "enabled",
+                  type: "bool",
+                },
+                {
+                  internalType: "bool",
+                  name: "lowercase",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint8",
+                  name: "minHandleLength",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint8",
+                  name: "maxHandleLength",
+                  type: "uint8",
+                },
+                {
+                  internalType: "string",
+                  name: "allowedSymbols",
+                  type: "string",
+                },
+              ],
+              indexed: false,
+              internalType: "struct IVisibilityCredits.PlatformRules",
+              name: "rules",
+              type: "tuple",
+            },
+          ],
+          name: "PlatformSet",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "treasury",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "ProtocolFeesClaimed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "referrer",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "ReferrerFeesClaimed",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -405,11 +696,24 @@ const deployedContracts = {
           type: "event",
         },
         {
-          inputs: [],
-          name: "A",
-          outputs: [
+          anonymous: false,
+          inputs: [
             {
-              internalType: "uint256",
+              indexed: false,
+              internalType: "address",
+              name: "adapter",
+              type: "address",
+            },
+          ],
+          name: "TokenAdapterSet",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "A",
+          outputs: [
+            {
+              internalType: "uint256",
               name: "",
               type: "uint256",
             },
@@ -458,12 +762,12 @@ const deployedContracts = {
         },
         {
           inputs: [],
-          name: "CREATOR_FEE",
+          name: "CREATOR_ATTESTATION_TYPEHASH",
           outputs: [
             {
-              internalType: "uint256",
+              internalType: "bytes32",
               name: "",
-              type: "uint256",
+              type: "bytes32",
             },
           ],
           stateMutability: "view",
@@ -510,7 +814,20 @@ const deployedContracts = {
         },
         {
           inputs: [],
-          name: "MAX_TOTAL_SUPPLY",
+          name: "MAX_CURVE_PARAM",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_PLATFORM_PREFIX_LENGTH",
           outputs: [
             {
               internalType: "uint256",
@@ -523,7 +840,7 @@ const deployedContracts = {
         },
         {
           inputs: [],
-          name: "PROTOCOL_FEE",
+          name: "MAX_TOTAL_FEE",
           outputs: [
             {
               internalType: "uint256",
@@ -536,7 +853,7 @@ const deployedContracts = {
         },
         {
           inputs: [],
-          name: "REFERRER_FEE",
+          name: "MAX_TOTAL_SUPPLY",
           outputs: [
             {
               internalType: "uint256",
@@ -554,6 +871,13 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [],
+          name: "applyFeeChange",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -567,6 +891,29 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "creatorFee",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "protocolFee",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "referrerFee",
+              type: "uint256",
+            },
+          ],
+          name: "beginFeeChange",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -639,6 +986,39 @@ const deployedContracts = {
           stateMutability: "payable",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "referrer",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "maxTotalCost",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "deadline",
+              type: "uint256",
+            },
+          ],
+          name: "buyCreditsWithSlippage",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
         {
           inputs: [],
           name: "cancelDefaultAdminTransfer",
@@ -646,6 +1026,13 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [],
+          name: "cancelFeeChange",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -672,6 +1059,52 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [],
+          name: "claimProtocolFees",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "claimReferrerFees",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "claimableProtocolFees",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "claimableReferrerFees",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [],
           name: "defaultAdmin",
@@ -711,6 +1144,137 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [],
+          name: "eip712Domain",
+          outputs: [
+            {
+              internalType: "bytes1",
+              name: "fields",
+              type: "bytes1",
+            },
+            {
+              internalType: "string",
+              name: "name",
+              type: "string",
+            },
+            {
+              internalType: "string",
+              name: "version",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "chainId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "verifyingContract",
+              type: "address",
+            },
+            {
+              internalType: "bytes32",
+              name: "salt",
+              type: "bytes32",
+            },
+            {
+              internalType: "uint256[]",
+              name: "extensions",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "fees",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "creatorFee",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "protocolFee",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "referrerFee",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+          ],
+          name: "getCreatorAttestationNonce",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "prefix",
+              type: "string",
+            },
+          ],
+          name: "getPlatform",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "bool",
+                  name: "enabled",
+                  type: "bool",
+                },
+                {
+                  internalType: "bool",
+                  name: "lowercase",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint8",
+                  name: "minHandleLength",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint8",
+                  name: "maxHandleLength",
+                  type: "uint8",
+                },
+                {
+                  internalType: "string",
+                  name: "allowedSymbols",
+                  type: "string",
+                },
+              ],
+              internalType: "struct IVisibilityCredits.PlatformRules",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -786,12 +1350,17 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "string",
-              name: "visibilityId",
-              type: "string",
+              internalType: "bytes32",
+              name: "visibilityKey",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
             },
           ],
-          name: "getVisibilityCurrentPrice",
+          name: "getVisibilityCreditBalanceByKey",
           outputs: [
             {
               internalType: "uint256",
@@ -810,10 +1379,58 @@ const deployedContracts = {
               type: "string",
             },
           ],
-          name: "getVisibilityKey",
+          name: "getVisibilityCurrentPrice",
           outputs: [
             {
-              internalType: "bytes32",
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+          ],
+          name: "getVisibilityCurve",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "a",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "b",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "basePrice",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+          ],
+          name: "getVisibilityKey",
+          outputs: [
+            {
+              internalType: "bytes32",
               name: "",
               type: "bytes32",
             },
@@ -876,6 +1493,54 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+          ],
+          name: "isOperatorApproved",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+          ],
+          name: "isValidVisibilityId",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [],
           name: "owner",
@@ -925,6 +1590,34 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [],
+          name: "pendingFeeChange",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "creatorFee",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "protocolFee",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "referrerFee",
+              type: "uint256",
+            },
+            {
+              internalType: "uint48",
+              name: "effectSchedule",
+              type: "uint48",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [],
           name: "protocolTreasury",
@@ -1060,13 +1753,28 @@ const deployedContracts = {
               name: "visibilityId",
               type: "string",
             },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
             {
               internalType: "address",
-              name: "creator",
+              name: "referrer",
               type: "address",
             },
+            {
+              internalType: "uint256",
+              name: "minReimbursement",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "deadline",
+              type: "uint256",
+            },
           ],
-          name: "setCreatorVisibility",
+          name: "sellCreditsWithSlippage",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -1074,20 +1782,19 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "bytes4",
-              name: "interfaceId",
-              type: "bytes4",
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
             },
-          ],
-          name: "supportsInterface",
-          outputs: [
             {
-              internalType: "bool",
-              name: "",
-              type: "bool",
+              internalType: "address",
+              name: "creator",
+              type: "address",
             },
           ],
-          stateMutability: "view",
+          name: "setCreatorVisibility",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
@@ -1099,34 +1806,44 @@ const deployedContracts = {
             },
             {
               internalType: "address",
-              name: "from",
-              type: "address",
-            },
-            {
-              internalType: "address",
-              name: "to",
+              name: "creator",
               type: "address",
             },
             {
               internalType: "uint256",
-              name: "amount",
+              name: "deadline",
               type: "uint256",
             },
+            {
+              internalType: "bytes",
+              name: "signature",
+              type: "bytes",
+            },
           ],
-          name: "transferCredits",
+          name: "setCreatorVisibilityWithAttestation",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
             {
               internalType: "address",
-              name: "treasury",
+              name: "operator",
               type: "address",
             },
+            {
+              internalType: "bool",
+              name: "approved",
+              type: "bool",
+            },
           ],
-          name: "updateTreasury",
+          name: "setOperatorApproval",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -1134,47 +1851,330 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "bytes32",
-              name: "",
-              type: "bytes32",
+              internalType: "string",
+              name: "prefix",
+              type: "string",
+            },
+            {
+              components: [
+                {
+                  internalType: "bool",
+                  name: "enabled",
+                  type: "bool",
+                },
+                {
+                  internalType: "bool",
+                  name: "lowercase",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint8",
+                  name: "minHandleLength",
+                  type: "uint8",
+                },
+                {
+                  internalType: "uint8",
+                  name: "maxHandleLength",
+                  type: "uint8",
+                },
+                {
+                  internalType: "string",
+                  name: "allowedSymbols",
+                  type: "string",
+                },
+              ],
+              internalType: "struct IVisibilityCredits.PlatformRules",
+              name: "rules",
+              type: "tuple",
             },
           ],
-          name: "visibilityCredits",
-          outputs: [
+          name: "setPlatform",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
               internalType: "address",
-              name: "creator",
+              name: "adapter",
               type: "address",
             },
+          ],
+          name: "setTokenAdapter",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
             {
               internalType: "uint256",
-              name: "totalSupply",
+              name: "a",
               type: "uint256",
             },
             {
               internalType: "uint256",
-              name: "claimableFeeBalance",
+              name: "b",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "basePrice",
               type: "uint256",
             },
           ],
+          name: "setVisibilityCurve",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes4",
+              name: "interfaceId",
+              type: "bytes4",
+            },
+          ],
+          name: "supportsInterface",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
           stateMutability: "view",
           type: "function",
         },
-      ],
-      inheritedFunctions: {
-        buyCostWithFees: "contracts/interfaces/IVisibilityCredits.sol",
-        buyCredits: "contracts/interfaces/IVisibilityCredits.sol",
-        claimCreatorFee: "contracts/interfaces/IVisibilityCredits.sol",
-        getVisibility: "contracts/interfaces/IVisibilityCredits.sol",
-        getVisibilityCreditBalance:
-          "contracts/interfaces/IVisibilityCredits.sol",
-        getVisibilityCurrentPrice:
-          "contracts/interfaces/IVisibilityCredits.sol",
+        {
+          inputs: [],
+          name: "tokenAdapter",
+          outputs: [
+            {
+              internalType: "contract IVisibilityCreditsAdapter",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "visibilityId",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "amount",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isBuy",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint256",
+                  name: "limit",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct IVisibilityCredits.TradeLeg[]",
+              name: "legs",
+              type: "tuple[]",
+            },
+            {
+              internalType: "address",
+              name: "referrer",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "deadline",
+              type: "uint256",
+            },
+          ],
+          name: "tradeCreditsBatch",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "transferCredits",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "transferCreditsFrom",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "treasury",
+              type: "address",
+            },
+          ],
+          name: "updateTreasury",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "",
+              type: "bytes32",
+            },
+          ],
+          name: "visibilityCredits",
+          outputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "totalSupply",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "claimableFeeBalance",
+              type: "uint256",
+            },
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "a",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "b",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "basePrice",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct IVisibilityCredits.CurveParams",
+              name: "curve",
+              type: "tuple",
+            },
+            {
+              internalType: "uint256",
+              name: "attestationNonce",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        applyFeeChange: "contracts/interfaces/IVisibilityCredits.sol",
+        beginFeeChange: "contracts/interfaces/IVisibilityCredits.sol",
+        buyCostWithFees: "contracts/interfaces/IVisibilityCredits.sol",
+        buyCredits: "contracts/interfaces/IVisibilityCredits.sol",
+        buyCreditsWithSlippage: "contracts/interfaces/IVisibilityCredits.sol",
+        cancelFeeChange: "contracts/interfaces/IVisibilityCredits.sol",
+        claimCreatorFee: "contracts/interfaces/IVisibilityCredits.sol",
+        claimProtocolFees: "contracts/interfaces/IVisibilityCredits.sol",
+        claimReferrerFees: "contracts/interfaces/IVisibilityCredits.sol",
+        getCreatorAttestationNonce:
+          "contracts/interfaces/IVisibilityCredits.sol",
+        getPlatform: "contracts/interfaces/IVisibilityCredits.sol",
+        getVisibility: "contracts/interfaces/IVisibilityCredits.sol",
+        getVisibilityCreditBalance:
+          "contracts/interfaces/IVisibilityCredits.sol",
+        getVisibilityCreditBalanceByKey:
+          "contracts/interfaces/IVisibilityCredits.sol",
+        getVisibilityCurrentPrice:
+          "contracts/interfaces/IVisibilityCredits.sol",
+        getVisibilityCurve: "contracts/interfaces/IVisibilityCredits.sol",
         getVisibilityKey: "contracts/interfaces/IVisibilityCredits.sol",
+        isOperatorApproved: "contracts/interfaces/IVisibilityCredits.sol",
+        isValidVisibilityId: "contracts/interfaces/IVisibilityCredits.sol",
+        pendingFeeChange: "contracts/interfaces/IVisibilityCredits.sol",
         sellCostWithFees: "contracts/interfaces/IVisibilityCredits.sol",
         sellCredits: "contracts/interfaces/IVisibilityCredits.sol",
+        sellCreditsWithSlippage: "contracts/interfaces/IVisibilityCredits.sol",
         setCreatorVisibility: "contracts/interfaces/IVisibilityCredits.sol",
+        setCreatorVisibilityWithAttestation:
+          "contracts/interfaces/IVisibilityCredits.sol",
+        setOperatorApproval: "contracts/interfaces/IVisibilityCredits.sol",
+        setPlatform: "contracts/interfaces/IVisibilityCredits.sol",
+        setTokenAdapter: "contracts/interfaces/IVisibilityCredits.sol",
+        setVisibilityCurve: "contracts/interfaces/IVisibilityCredits.sol",
+        tradeCreditsBatch: "contracts/interfaces/IVisibilityCredits.sol",
         transferCredits: "contracts/interfaces/IVisibilityCredits.sol",
+        transferCreditsFrom: "contracts/interfaces/IVisibilityCredits.sol",
         updateTreasury: "contracts/interfaces/IVisibilityCredits.sol",
         DEFAULT_ADMIN_ROLE:
           "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
@@ -1212,6 +2212,7 @@ const deployedContracts = {
           "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
         supportsInterface:
           "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        eip712Domain: "@openzeppelin/contracts/utils/cryptography/EIP712.sol",
       },
     },
     VisibilityServices: {
@@ -1233,6 +2234,11 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "constructor",
         },
+        {
+          inputs: [],
+          name: "AcceptanceDeadlineNotReached",
+          type: "error",
+        },
         {
           inputs: [],
           name: "AccessControlBadConfirmation",
@@ -1286,6 +2292,21 @@ const deployedContracts = {
           name: "DisabledService",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "ExecutionExpired",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "ExecutionsLimitReached",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidAcceptanceDelay",
+          type: "error",
+        },
         {
           inputs: [],
           name: "InvalidAddress",
@@ -1296,11 +2317,31 @@ const deployedContracts = {
           name: "InvalidCreator",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "InvalidDisputeBondBps",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidDisputeResolutionDelay",
+          type: "error",
+        },
         {
           inputs: [],
           name: "InvalidExecutionState",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "InvalidRefundBps",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidValidationDelay",
+          type: "error",
+        },
         {
           inputs: [
             {
@@ -1377,24 +2418,24 @@ const deployedContracts = {
           inputs: [
             {
               indexed: true,
-              internalType: "bytes32",
-              name: "role",
-              type: "bytes32",
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
             },
             {
               indexed: true,
-              internalType: "bytes32",
-              name: "previousAdminRole",
-              type: "bytes32",
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
             },
             {
-              indexed: true,
-              internalType: "bytes32",
-              name: "newAdminRole",
-              type: "bytes32",
+              indexed: false,
+              internalType: "uint256",
+              name: "bondAmount",
+              type: "uint256",
             },
           ],
-          name: "RoleAdminChanged",
+          name: "DisputeBondPosted",
           type: "event",
         },
         {
@@ -1402,26 +2443,114 @@ const deployedContracts = {
           inputs: [
             {
               indexed: true,
-              internalType: "bytes32",
-              name: "role",
-              type: "bytes32",
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
             },
             {
               indexed: true,
-              internalType: "address",
-              name: "account",
-              type: "address",
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
             },
             {
-              indexed: true,
-              internalType: "address",
-              name: "sender",
-              type: "address",
+              indexed: false,
+              internalType: "uint256",
+              name: "requesterAmount",
+              type: "uint256",
             },
-          ],
-          name: "RoleGranted",
-          type: "event",
-        },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "creatorAmount",
+              type: "uint256",
+            },
+          ],
+          name: "DisputeBondReleased",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "disputeBondBps",
+              type: "uint256",
+            },
+          ],
+          name: "DisputeBondUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "disputeResolutionDelay",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "defaultRefundBps",
+              type: "uint256",
+            },
+          ],
+          name: "DisputeDefaultsUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "previousAdminRole",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "newAdminRole",
+              type: "bytes32",
+            },
+          ],
+          name: "RoleAdminChanged",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+          ],
+          name: "RoleGranted",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -1474,6 +2603,18 @@ const deployedContracts = {
               name: "creditsCostAmount",
               type: "uint256",
             },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "validationDelay",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "acceptanceDelay",
+              type: "uint256",
+            },
           ],
           name: "ServiceCreated",
           type: "event",
@@ -1534,6 +2675,49 @@ const deployedContracts = {
           name: "ServiceExecutionCanceled",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "refundBps",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "refundAmount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "creatorAmount",
+              type: "uint256",
+            },
+          ],
+          name: "ServiceExecutionDisputeDefaulted",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -1559,6 +2743,56 @@ const deployedContracts = {
           name: "ServiceExecutionDisputed",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "evidence",
+              type: "string",
+            },
+          ],
+          name: "ServiceExecutionEvidenceSubmitted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+          ],
+          name: "ServiceExecutionExpired",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -1607,9 +2841,21 @@ const deployedContracts = {
             },
             {
               indexed: false,
-              internalType: "bool",
-              name: "refund",
-              type: "bool",
+              internalType: "uint256",
+              name: "refundBps",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "refundAmount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "creatorAmount",
+              type: "uint256",
             },
             {
               indexed: false,
@@ -1655,13 +2901,37 @@ const deployedContracts = {
               name: "enabled",
               type: "bool",
             },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "creditsCostAmount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "metadataURI",
+              type: "string",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "maxOpenExecutions",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "acceptanceDelay",
+              type: "uint256",
+            },
           ],
           name: "ServiceUpdated",
           type: "event",
         },
         {
           inputs: [],
-          name: "AUTO_VALIDATION_DELAY",
+          name: "BPS_DENOMINATOR",
           outputs: [
             {
               internalType: "uint256",
@@ -1698,6 +2968,32 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [],
+          name: "MAX_VALIDATION_DELAY",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MIN_VALIDATION_DELAY",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
         {
           inputs: [],
           name: "acceptDefaultAdminTransfer",
@@ -1801,6 +3097,16 @@ const deployedContracts = {
               name: "creditsCostAmount",
               type: "uint256",
             },
+            {
+              internalType: "uint256",
+              name: "validationDelay",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "acceptanceDelay",
+              type: "uint256",
+            },
           ],
           name: "createService",
           outputs: [],
@@ -1847,15 +3153,54 @@ const deployedContracts = {
           type: "function",
         },
         {
-          inputs: [
+          inputs: [],
+          name: "defaultRefundBps",
+          outputs: [
             {
               internalType: "uint256",
-              name: "serviceNonce",
+              name: "",
               type: "uint256",
             },
-            {
-              internalType: "uint256",
-              name: "executionNonce",
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "disputeBondBps",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "disputeResolutionDelay",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
               type: "uint256",
             },
             {
@@ -1869,6 +3214,24 @@ const deployedContracts = {
           stateMutability: "nonpayable",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+          ],
+          name: "expireServiceExecution",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -1918,6 +3281,26 @@ const deployedContracts = {
               name: "lastUpdateTimestamp",
               type: "uint256",
             },
+            {
+              internalType: "uint256",
+              name: "creditsCostAmount",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "acceptanceDeadline",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "disputeDeadline",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "disputeBondAmount",
+              type: "uint256",
+            },
           ],
           stateMutability: "view",
           type: "function",
@@ -2062,9 +3445,9 @@ const deployedContracts = {
               type: "uint256",
             },
             {
-              internalType: "bool",
-              name: "refund",
-              type: "bool",
+              internalType: "uint256",
+              name: "refundBps",
+              type: "uint256",
             },
             {
               internalType: "string",
@@ -2137,6 +3520,31 @@ const deployedContracts = {
               name: "executionsNonce",
               type: "uint256",
             },
+            {
+              internalType: "string",
+              name: "metadataURI",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "maxOpenExecutions",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "openExecutions",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "acceptanceDelay",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "validationDelay",
+              type: "uint256",
+            },
           ],
           stateMutability: "view",
           type: "function",
@@ -2154,6 +3562,106 @@ const deployedContracts = {
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_disputeBondBps",
+              type: "uint256",
+            },
+          ],
+          name: "setDisputeBondBps",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_disputeResolutionDelay",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_defaultRefundBps",
+              type: "uint256",
+            },
+          ],
+          name: "setDisputeDefaults",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+          ],
+          name: "settleExpiredDispute",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "evidence",
+              type: "string",
+            },
+          ],
+          name: "submitDisputeEvidence",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "author",
+              type: "address",
+            },
+            {
+              internalType: "string",
+              name: "evidence",
+              type: "string",
+            },
+          ],
+          name: "submitDisputeEvidenceFor",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -2185,6 +3693,26 @@ const deployedContracts = {
               name: "enabled",
               type: "bool",
             },
+            {
+              internalType: "uint256",
+              name: "creditsCostAmount",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "metadataURI",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "maxOpenExecutions",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "acceptanceDelay",
+              type: "uint256",
+            },
           ],
           name: "updateService",
           outputs: [],
@@ -2405,6 +3933,1567 @@ const deployedContracts = {
       ],
       inheritedFunctions: {},
     },
+    VisibilityCredits1155: {
+      address: "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9",
+      abi: [
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_visibilityCredits",
+              type: "address",
+            },
+            {
+              internalType: "string",
+              name: "_baseURI",
+              type: "string",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "needed",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "tokenId",
+              type: "uint256",
+            },
+          ],
+          name: "ERC1155InsufficientBalance",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "approver",
+              type: "address",
+            },
+          ],
+          name: "ERC1155InvalidApprover",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "idsLength",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "valuesLength",
+              type: "uint256",
+            },
+          ],
+          name: "ERC1155InvalidArrayLength",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+          ],
+          name: "ERC1155InvalidOperator",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "receiver",
+              type: "address",
+            },
+          ],
+          name: "ERC1155InvalidReceiver",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+          ],
+          name: "ERC1155InvalidSender",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "owner",
+              type: "address",
+            },
+          ],
+          name: "ERC1155MissingApprovalForAll",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "NotVisibilityCredits",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "TransfersNotSupported",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "approved",
+              type: "bool",
+            },
+          ],
+          name: "ApprovalForAll",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256[]",
+              name: "ids",
+              type: "uint256[]",
+            },
+            {
+              indexed: false,
+              internalType: "uint256[]",
+              name: "values",
+              type: "uint256[]",
+            },
+          ],
+          name: "TransferBatch",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "id",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "TransferSingle",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "string",
+              name: "value",
+              type: "string",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "id",
+              type: "uint256",
+            },
+          ],
+          name: "URI",
+          type: "event",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "id",
+              type: "uint256",
+            },
+          ],
+          name: "balanceOf",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address[]",
+              name: "accounts",
+              type: "address[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "ids",
+              type: "uint256[]",
+            },
+          ],
+          name: "balanceOfBatch",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "balances",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "baseURI",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+          ],
+          name: "getTokenId",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "isApprovedForAll",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "operator",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "from",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              internalType: "string",
+              name: "visibilityId",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "onCreditsTransfer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+            {
+              internalType: "uint256[]",
+              name: "",
+              type: "uint256[]",
+            },
+            {
+              internalType: "bytes",
+              name: "",
+              type: "bytes",
+            },
+          ],
+          name: "safeBatchTransferFrom",
+          outputs: [],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes",
+              name: "",
+              type: "bytes",
+            },
+          ],
+          name: "safeTransferFrom",
+          outputs: [],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          name: "setApprovalForAll",
+          outputs: [],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes4",
+              name: "interfaceId",
+              type: "bytes4",
+            },
+          ],
+          name: "supportsInterface",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "id",
+              type: "uint256",
+            },
+          ],
+          name: "uri",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "visibilityCredits",
+          outputs: [
+            {
+              internalType: "contract IVisibilityCredits",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "visibilityIds",
+          outputs: [
+            {
+              internalType: "string",
+              name: "",
+              type: "string",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        balanceOf:
+          "@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI.sol",
+        balanceOfBatch:
+          "@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI.sol",
+        isApprovedForAll:
+          "@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI.sol",
+        safeBatchTransferFrom:
+          "@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI.sol",
+        safeTransferFrom:
+          "@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI.sol",
+        setApprovalForAll:
+          "@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI.sol",
+        supportsInterface:
+          "@openzeppelin/contracts/utils/introspection/ERC165.sol",
+        uri: "@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI.sol",
+        onCreditsTransfer: "contracts/interfaces/IVisibilityCreditsAdapter.sol",
+      },
+    },
+    DisputeArbitration: {
+      address: "0x5FC8d32690cc91D4c39d9d3abcBD16989F875707",
+      abi: [
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "_visibilityServices",
+              type: "address",
+            },
+            {
+              internalType: "address[]",
+              name: "_arbiters",
+              type: "address[]",
+            },
+            {
+              internalType: "uint256",
+              name: "_quorum",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_votingPeriod",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [],
+          name: "AccessControlBadConfirmation",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint48",
+              name: "schedule",
+              type: "uint48",
+            },
+          ],
+          name: "AccessControlEnforcedDefaultAdminDelay",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "AccessControlEnforcedDefaultAdminRules",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "defaultAdmin",
+              type: "address",
+            },
+          ],
+          name: "AccessControlInvalidDefaultAdmin",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+            {
+              internalType: "bytes32",
+              name: "neededRole",
+              type: "bytes32",
+            },
+          ],
+          name: "AccessControlUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "AlreadyVoted",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidArbiter",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidQuorum",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidRefundBps",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidVotingPeriod",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "NotArbiter",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "NotDisputed",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "QuorumNotReached",
+          type: "error",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint8",
+              name: "bits",
+              type: "uint8",
+            },
+            {
+              internalType: "uint256",
+              name: "value",
+              type: "uint256",
+            },
+          ],
+          name: "SafeCastOverflowedUintDowncast",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "VotingClosed",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "VotingOpen",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "arbiter",
+              type: "address",
+            },
+          ],
+          name: "ArbiterAdded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "arbiter",
+              type: "address",
+            },
+          ],
+          name: "ArbiterRemoved",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "quorum",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "votingPeriod",
+              type: "uint256",
+            },
+          ],
+          name: "ArbitrationSettingsUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [],
+          name: "DefaultAdminDelayChangeCanceled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint48",
+              name: "newDelay",
+              type: "uint48",
+            },
+            {
+              indexed: false,
+              internalType: "uint48",
+              name: "effectSchedule",
+              type: "uint48",
+            },
+          ],
+          name: "DefaultAdminDelayChangeScheduled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [],
+          name: "DefaultAdminTransferCanceled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newAdmin",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint48",
+              name: "acceptSchedule",
+              type: "uint48",
+            },
+          ],
+          name: "DefaultAdminTransferScheduled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "arbiter",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "refundBps",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "reason",
+              type: "string",
+            },
+          ],
+          name: "DisputeVoteCast",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "votesCount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "refundBps",
+              type: "uint256",
+            },
+          ],
+          name: "DisputeVotesTallied",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "previousAdminRole",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "newAdminRole",
+              type: "bytes32",
+            },
+          ],
+          name: "RoleAdminChanged",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+          ],
+          name: "RoleGranted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "sender",
+              type: "address",
+            },
+          ],
+          name: "RoleRevoked",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "BPS_DENOMINATOR",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "DEFAULT_ADMIN_ROLE",
+          outputs: [
+            {
+              internalType: "bytes32",
+              name: "",
+              type: "bytes32",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "acceptDefaultAdminTransfer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "arbiter",
+              type: "address",
+            },
+          ],
+          name: "addArbiter",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "arbitersCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newAdmin",
+              type: "address",
+            },
+          ],
+          name: "beginDefaultAdminTransfer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "cancelDefaultAdminTransfer",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "refundBps",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "reason",
+              type: "string",
+            },
+          ],
+          name: "castVote",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint48",
+              name: "newDelay",
+              type: "uint48",
+            },
+          ],
+          name: "changeDefaultAdminDelay",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "defaultAdmin",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "defaultAdminDelay",
+          outputs: [
+            {
+              internalType: "uint48",
+              name: "",
+              type: "uint48",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "defaultAdminDelayIncreaseWait",
+          outputs: [
+            {
+              internalType: "uint48",
+              name: "",
+              type: "uint48",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getArbiters",
+          outputs: [
+            {
+              internalType: "address[]",
+              name: "",
+              type: "address[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+          ],
+          name: "getBallot",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "votesCount",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "refundBpsSum",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+          ],
+          name: "getQuorum",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+          ],
+          name: "getRoleAdmin",
+          outputs: [
+            {
+              internalType: "bytes32",
+              name: "",
+              type: "bytes32",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+          ],
+          name: "getVotingDeadline",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "grantRole",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "hasRole",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "arbiter",
+              type: "address",
+            },
+          ],
+          name: "hasVoted",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "isArbiter",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "pendingDefaultAdmin",
+          outputs: [
+            {
+              internalType: "address",
+              name: "newAdmin",
+              type: "address",
+            },
+            {
+              internalType: "uint48",
+              name: "schedule",
+              type: "uint48",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "pendingDefaultAdminDelay",
+          outputs: [
+            {
+              internalType: "uint48",
+              name: "newDelay",
+              type: "uint48",
+            },
+            {
+              internalType: "uint48",
+              name: "schedule",
+              type: "uint48",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "quorum",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "arbiter",
+              type: "address",
+            },
+          ],
+          name: "removeArbiter",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "renounceRole",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "role",
+              type: "bytes32",
+            },
+            {
+              internalType: "address",
+              name: "account",
+              type: "address",
+            },
+          ],
+          name: "revokeRole",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "rollbackDefaultAdminDelay",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "_quorum",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "_votingPeriod",
+              type: "uint256",
+            },
+          ],
+          name: "setArbitrationSettings",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "evidence",
+              type: "string",
+            },
+          ],
+          name: "submitEvidence",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes4",
+              name: "interfaceId",
+              type: "bytes4",
+            },
+          ],
+          name: "supportsInterface",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "serviceNonce",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "executionNonce",
+              type: "uint256",
+            },
+          ],
+          name: "tallyVotes",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "visibilityServices",
+          outputs: [
+            {
+              internalType: "contract VisibilityServices",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "votingPeriod",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        DEFAULT_ADMIN_ROLE:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        acceptDefaultAdminTransfer:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        beginDefaultAdminTransfer:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        cancelDefaultAdminTransfer:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        changeDefaultAdminDelay:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        defaultAdmin:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        defaultAdminDelay:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        defaultAdminDelayIncreaseWait:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        getRoleAdmin:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        grantRole:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        hasRole:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        owner:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        pendingDefaultAdmin:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        pendingDefaultAdminDelay:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        renounceRole:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        revokeRole:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        rollbackDefaultAdminDelay:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+        supportsInterface:
+          "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol",
+      },
+    },
   },
 } as const;
 
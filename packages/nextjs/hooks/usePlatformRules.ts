@@ -0,0 +1,23 @@
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { PlatformRules } from "~~/utils/visibilityId";
+
+/**
+ * Reads the rules of a platform prefix from the VisibilityCredits registry (see `setPlatform`).
+ * @returns null while loading, or if the platform is unknown or disabled
+ */
+export const usePlatformRules = (prefix: string) => {
+  const { data: platform } = useScaffoldReadContract({
+    contractName: "VisibilityCredits",
+    functionName: "getPlatform",
+    args: [prefix || undefined],
+  });
+
+  if (!platform?.enabled) return null;
+
+  return new PlatformRules(
+    platform.lowercase,
+    platform.minHandleLength,
+    platform.maxHandleLength,
+    platform.allowedSymbols,
+  );
+};
@@ -0,0 +1,272 @@
+/**
+ * Off-chain replica of the VisibilityCredits bonding curve and fee math, in bigint.
+ * Quotes default to the global curve and initial fees, pass the visibility `CurveParams`
+ * for custom profiles and the current `FeeParams` once fees were changed.
+ *
+ * Kept free of any import so that it can be shared with the hardhat package
+ * (scripts and tests import it by relative path). Any change to the curve in
+ * `VisibilityCredits.sol` must be mirrored here, the hardhat parity test will catch drifts.
+ */
+
+export const A = 15_000_000_000n; // 0.000000015 ether
+export const B = 25_000_000_000_000n; // 0.000025 ether
+export const BASE_PRICE = 100_000_000_000_000n; // 0.0001 ether
+
+export const MAX_TOTAL_SUPPLY = 2n ** 64n - 1n; // type(uint64).max
+
+export const FEE_DENOMINATOR = 1_000_000n;
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export type BondingCurveErrorName = "InvalidAmount" | "ArithmeticOverflow";
+
+/**
+ * Thrown where the contract would revert: `InvalidAmount` for the custom error,
+ * `ArithmeticOverflow` for the checked arithmetic panic.
+ */
+export class BondingCurveError extends Error {
+  constructor(public readonly errorName: BondingCurveErrorName) {
+    super(`Bonding curve computation reverted with ${errorName}`);
+    this.name = "BondingCurveError";
+  }
+}
+
+/**
+ * Bonding curve profile of a visibility, as returned by the `getVisibilityCurve` view.
+ */
+export type CurveParams = {
+  a: bigint;
+  b: bigint;
+  basePrice: bigint;
+};
+
+// Profile of the visibilities no curve was assigned to
+export const DEFAULT_CURVE: CurveParams = { a: A, b: B, basePrice: BASE_PRICE };
+
+/**
+ * Trading fees in ppm, as returned by the `fees` view.
+ */
+export type FeeParams = {
+  creatorFee: bigint;
+  protocolFee: bigint;
+  referrerFee: bigint;
+};
+
+// Fees set at deployment, until the admin applies a fee change
+export const DEFAULT_FEES: FeeParams = { creatorFee: 20_000n, protocolFee: 20_000n, referrerFee: 10_000n };
+
+export type TradeCostWithFees = {
+  tradeCost: bigint;
+  creatorFee: bigint;
+  protocolFee: bigint;
+  referrerFee: bigint;
+};
+
+export type BuyCostWithFees = TradeCostWithFees & { totalCost: bigint };
+
+export type SellCostWithFees = TradeCostWithFees & { reimbursement: bigint };
+
+// Solidity 0.8 reverts on overflow and underflow, replicate it on every intermediate result
+const checked = (value: bigint) => {
+  if (value < 0n || value > MAX_UINT256) {
+    throw new BondingCurveError("ArithmeticOverflow");
+  }
+  return value;
+};
+
+const hasReferrer = (referrer?: string) => !!referrer && referrer.toLowerCase() !== ZERO_ADDRESS;
+
+/**
+ * Price of the next credit for a given total supply, mirrors `_getCurrentPrice`.
+ */
+export const getCurrentPrice = (totalSupply: bigint, curve: CurveParams = DEFAULT_CURVE) =>
+  checked(curve.basePrice + checked(curve.a * checked(totalSupply ** 2n)) + checked(curve.b * totalSupply));
+
+/**
+ * Cost of `amount` credits starting at `fromSupply` (excluded fees), mirrors `_tradeCost`.
+ * @param fromSupply the supply before the trade when buying, after the trade when selling
+ */
+export const getTradeCost = (fromSupply: bigint, amount: bigint, curve: CurveParams = DEFAULT_CURVE) => {
+  if (amount === 0n) {
+    throw new BondingCurveError("InvalidAmount");
+  }
+
+  const toSupply = checked(checked(fromSupply + amount) - 1n);
+
+  let sumSquares: bigint;
+  let sumFirstN: bigint;
+
+  if (fromSupply === 0n) {
+    sumSquares = checked(checked(toSupply * (toSupply + 1n)) * checked(2n * toSupply + 1n)) / 6n;
+    sumFirstN = checked(toSupply * (toSupply + 1n)) / 2n;
+  } else {
+    const sumSquaresTo = checked(checked(toSupply * checked(toSupply + 1n)) * checked(2n * toSupply + 1n)) / 6n;
+    const sumSquaresFrom = checked(checked((fromSupply - 1n) * fromSupply) * checked(2n * fromSupply - 1n)) / 6n;
+    sumSquares = checked(sumSquaresTo - sumSquaresFrom);
+
+    const sumFirstNTo = checked(toSupply * checked(toSupply + 1n)) / 2n;
+    const sumFirstNFrom = checked((fromSupply - 1n) * fromSupply) / 2n;
+    sumFirstN = checked(sumFirstNTo - sumFirstNFrom);
+  }
+
+  return checked(checked(curve.basePrice * amount) + checked(curve.a * sumSquares) + checked(curve.b * sumFirstN));
+};
+
+/**
+ * Trade cost and fee split, mirrors `_tradeCostWithFees`.
+ * The referrer fee is carved out of the protocol fee when a referrer is set.
+ */
+export const getTradeCostWithFees = (
+  totalSupply: bigint,
+  amount: bigint,
+  isBuy: boolean,
+  referrer?: string,
+  curve: CurveParams = DEFAULT_CURVE,
+  fees: FeeParams = DEFAULT_FEES,
+): TradeCostWithFees => {
+  if (!isBuy && totalSupply < amount) {
+    throw new BondingCurveError("InvalidAmount");
+  }
+
+  const fromSupply = isBuy ? totalSupply : totalSupply - amount;
+  const tradeCost = getTradeCost(fromSupply, amount, curve);
+
+  const creatorFee = checked(tradeCost * fees.creatorFee) / FEE_DENOMINATOR;
+
+  let protocolFee: bigint;
+  let referrerFee = 0n;
+  if (hasReferrer(referrer)) {
+    referrerFee = checked(tradeCost * fees.referrerFee) / FEE_DENOMINATOR;
+    protocolFee = checked(tradeCost * checked(fees.protocolFee - fees.referrerFee)) / FEE_DENOMINATOR;
+  } else {
+    protocolFee = checked(tradeCost * fees.protocolFee) / FEE_DENOMINATOR;
+  }
+
+  return { tradeCost, creatorFee, protocolFee, referrerFee };
+};
+
+/**
+ * Same quote as the `buyCostWithFees` view.
+ */
+export const getBuyCostWithFees = (
+  totalSupply: bigint,
+  amount: bigint,
+  referrer?: string,
+  curve: CurveParams = DEFAULT_CURVE,
+  fees: FeeParams = DEFAULT_FEES,
+): BuyCostWithFees => {
+  const cost = getTradeCostWithFees(totalSupply, amount, true, referrer, curve, fees);
+  const totalCost = checked(cost.tradeCost + cost.creatorFee + cost.protocolFee + cost.referrerFee);
+  return { totalCost, ...cost };
+};
+
+/**
+ * Same quote as the `sellCostWithFees` view.
+ */
+export const getSellCostWithFees = (
+  totalSupply: bigint,
+  amount: bigint,
+  referrer?: string,
+  curve: CurveParams = DEFAULT_CURVE,
+  fees: FeeParams = DEFAULT_FEES,
+): SellCostWithFees => {
+  const cost = getTradeCostWithFees(totalSupply, amount, false, referrer, curve, fees);
+  const reimbursement = checked(cost.tradeCost - cost.creatorFee - cost.protocolFee - cost.referrerFee);
+  return { reimbursement, ...cost };
+};
+
+/**
+ * Rejects buys that `buyCredits` would revert with `InvalidAmount` for exceeding `MAX_TOTAL_SUPPLY`.
+ * The `buyCostWithFees` view itself does not enforce it.
+ */
+export const assertBuyWithinMaxSupply = (totalSupply: bigint, amount: bigint) => {
+  if (totalSupply + amount > MAX_TOTAL_SUPPLY) {
+    throw new BondingCurveError("InvalidAmount");
+  }
+};
+
+const quoteOrUndefined = <T>(quote: () => T) => {
+  try {
+    return quote();
+  } catch (error) {
+    if (error instanceof BondingCurveError) return undefined;
+    throw error;
+  }
+};
+
+/**
+ * Inverse of `getBuyCostWithFees`: the largest amount of credits whose total cost,
+ * fees included, fits in `budget`. Never exceeds what `MAX_TOTAL_SUPPLY` allows.
+ * @returns 0n when the budget cannot even buy a single credit
+ */
+export const getMaxBuyAmount = (
+  totalSupply: bigint,
+  budget: bigint,
+  referrer?: string,
+  curve: CurveParams = DEFAULT_CURVE,
+  fees: FeeParams = DEFAULT_FEES,
+) => {
+  const fits = (amount: bigint) => {
+    const quote = quoteOrUndefined(() => getBuyCostWithFees(totalSupply, amount, referrer, curve, fees));
+    return quote !== undefined && quote.totalCost <= budget;
+  };
+
+  const maxAmount = MAX_TOTAL_SUPPLY - totalSupply;
+  if (maxAmount <= 0n || !fits(1n)) return 0n;
+
+  // the cost is increasing in the amount: gallop to an upper bound, then bisect
+  let low = 1n;
+  let high = 2n;
+  while (high <= maxAmount && fits(high)) {
+    low = high;
+    high *= 2n;
+  }
+  if (high > maxAmount) {
+    if (fits(maxAmount)) return maxAmount;
+    high = maxAmount;
+  }
+
+  // invariant: fits(low) && !fits(high)
+  while (high - low > 1n) {
+    const middle = (low + high) / 2n;
+    if (fits(middle)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Inverse of `getSellCostWithFees`: the smallest amount of credits to sell to be
+ * reimbursed at least `targetReimbursement`, fees deducted.
+ * @returns undefined when selling the whole supply is not enough
+ */
+export const getMinSellAmount = (
+  totalSupply: bigint,
+  targetReimbursement: bigint,
+  referrer?: string,
+  curve: CurveParams = DEFAULT_CURVE,
+  fees: FeeParams = DEFAULT_FEES,
+) => {
+  const reaches = (amount: bigint) =>
+    getSellCostWithFees(totalSupply, amount, referrer, curve, fees).reimbursement >= targetReimbursement;
+
+  if (totalSupply === 0n || !reaches(totalSupply)) return undefined;
+  if (reaches(1n)) return 1n;
+
+  // invariant: !reaches(low) && reaches(high)
+  let low = 1n;
+  let high = totalSupply;
+  while (high - low > 1n) {
+    const middle = (low + high) / 2n;
+    if (reaches(middle)) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return high;
+};
@@ -0,0 +1,87 @@
+import { Address } from "viem";
+import { hardhat } from "viem/chains";
+import { targetNetwork } from "~~/utils/publicClient";
+
+// Must match `CREATOR_ATTESTATION_TYPEHASH` and the EIP-712 domain of VisibilityCredits
+export const CREATOR_ATTESTATION_TYPES = {
+  CreatorAttestation: [
+    { name: "visibilityId", type: "string" },
+    { name: "creator", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export const getCreatorAttestationDomain = (chainId: number, verifyingContract: Address) => ({
+  name: "VisibilityCredits",
+  version: "1",
+  chainId,
+  verifyingContract,
+});
+
+// How long an issued attestation can wait before being submitted
+export const CREATOR_ATTESTATION_VALIDITY_SECONDS = 60 * 60;
+
+export type CreatorAttestation = {
+  visibilityId: string;
+  creator: Address;
+  nonce: string;
+  deadline: string;
+  signature: `0x${string}`;
+};
+
+/**
+ * Checks that the account `handle` on a platform is controlled by `creator`, given a user supplied `proof`.
+ */
+export type OwnershipVerifier = (handle: string, creator: Address, proof: string) => Promise<boolean>;
+
+/**
+ * Proof: the URL of a public post from the account, containing the creator address.
+ * Read through the oEmbed endpoint, which requires no API key.
+ */
+const verifyXOwnership: OwnershipVerifier = async (handle, creator, proof) => {
+  const response = await fetch(`https://publish.twitter.com/oembed?url=${encodeURIComponent(proof)}`);
+  if (!response.ok) return false;
+
+  const { author_url: authorUrl, html } = (await response.json()) as { author_url?: string; html?: string };
+  return (
+    authorUrl?.toLowerCase().endsWith(`/${handle.toLowerCase()}`) === true &&
+    html?.toLowerCase().includes(creator.toLowerCase()) === true
+  );
+};
+
+/**
+ * Accepts any claim, for local development only (see `ATTESTATION_MOCK_OWNERSHIP`).
+ */
+const mockOwnershipVerifier: OwnershipVerifier = async () => true;
+
+// Ignored unless targeting the local chain, so that a misconfigured deployment cannot sign any claim
+const isMockOwnershipEnabled = () =>
+  process.env.ATTESTATION_MOCK_OWNERSHIP === "true" && targetNetwork.id === hardhat.id;
+
+// Ownership checks by platform prefix, see the `{platformPrefix}-{creatorHandle}` visibility ID convention
+export const ownershipVerifiers: Record<string, OwnershipVerifier> = {
+  x: verifyXOwnership,
+};
+
+/**
+ * Runs the ownership check of the visibility ID platform.
+ * @returns false if the platform is unknown or the check fails
+ */
+export const verifyVisibilityOwnership = async (visibilityId: string, creator: Address, proof: string) => {
+  const separatorIndex = visibilityId.indexOf("-");
+  if (separatorIndex <= 0) return false;
+
+  const platform = visibilityId.slice(0, separatorIndex);
+  const handle = visibilityId.slice(separatorIndex + 1);
+
+  const verifier = isMockOwnershipEnabled() ? mockOwnershipVerifier : ownershipVerifiers[platform];
+  if (!verifier || !handle) return false;
+
+  try {
+    return await verifier(handle, creator, proof);
+  } catch (e) {
+    console.error(`Error verifying the ownership of ${visibilityId}`, e);
+    return false;
+  }
+};
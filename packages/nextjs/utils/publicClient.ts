@@ -0,0 +1,15 @@
+import { createPublicClient, fallback, http } from "viem";
+import scaffoldConfig from "~~/scaffold.config";
+import { getAlchemyHttpUrl } from "~~/utils/scaffold-eth";
+
+export const targetNetwork = scaffoldConfig.targetNetworks[0];
+
+const alchemyHttpUrl = getAlchemyHttpUrl(targetNetwork.id);
+
+/**
+ * Client of the target network for server code (API routes), which cannot use the wagmi hooks.
+ */
+export const publicClient = createPublicClient({
+  chain: targetNetwork,
+  transport: fallback(alchemyHttpUrl ? [http(alchemyHttpUrl), http()] : [http()]),
+});
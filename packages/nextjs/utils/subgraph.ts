@@ -0,0 +1,14 @@
+import { getBuiltGraphSDK } from "~~/.graphclient";
+
+let subgraphSdk: ReturnType<typeof getBuiltGraphSDK> | undefined;
+
+/**
+ * Returns the typed graphclient SDK, building the mesh on first use so that
+ * pages which never hit the subgraph don't pay for it.
+ */
+export const getSubgraphSdk = () => {
+  if (!subgraphSdk) {
+    subgraphSdk = getBuiltGraphSDK();
+  }
+  return subgraphSdk;
+};
@@ -0,0 +1,87 @@
+/**
+ * Canonical visibility IDs, `{platformPrefix}-{creatorHandle}`, as enforced by VisibilityCredits on the first trade.
+ * The platform rules are not duplicated here: callers read them from the on-chain registry (`getPlatform`).
+ *
+ * Shared by the frontend, the hardhat scripts and the subgraph mappings, so this file must also compile
+ * as AssemblyScript: no regular expressions, closures, union types besides `| null`, nor `===` on strings.
+ */
+
+/**
+ * Rules of an enabled platform, see `PlatformRules` of IVisibilityCredits.
+ */
+export class PlatformRules {
+  lowercase: boolean; // handles are case insensitive, canonical in lowercase
+  minHandleLength: number;
+  maxHandleLength: number;
+  allowedSymbols: string; // besides letters and digits
+
+  constructor(lowercase: boolean, minHandleLength: number, maxHandleLength: number, allowedSymbols: string) {
+    this.lowercase = lowercase;
+    this.minHandleLength = minHandleLength;
+    this.maxHandleLength = maxHandleLength;
+    this.allowedSymbols = allowedSymbols;
+  }
+}
+
+/**
+ * @returns the platform prefix of a visibility ID, empty if there is none
+ */
+export function getVisibilityPlatform(visibilityId: string): string {
+  const separatorIndex = visibilityId.indexOf("-");
+  return separatorIndex > 0 ? visibilityId.substring(0, separatorIndex) : "";
+}
+
+/**
+ * @returns the platform prefix of a visibility ID typed by a user, whose rules `normalizeVisibilityId` expects
+ */
+export function normalizeVisibilityPlatform(visibilityId: string): string {
+  return getVisibilityPlatform(visibilityId.trim()).toLowerCase();
+}
+
+/**
+ * @returns the creator handle of a visibility ID, empty if there is no platform prefix
+ */
+export function getVisibilityHandle(visibilityId: string): string {
+  const separatorIndex = visibilityId.indexOf("-");
+  return separatorIndex > 0 ? visibilityId.substring(separatorIndex + 1) : "";
+}
+
+function isValidHandle(handle: string, rules: PlatformRules): boolean {
+  if (handle.length < rules.minHandleLength || handle.length > rules.maxHandleLength) return false;
+
+  for (let i = 0; i < handle.length; i++) {
+    const charCode = handle.charCodeAt(i);
+    const isLowercase = charCode >= 97 && charCode <= 122;
+    const isUppercase = charCode >= 65 && charCode <= 90;
+    const isDigit = charCode >= 48 && charCode <= 57;
+
+    if (isUppercase && rules.lowercase) return false;
+    if (!isLowercase && !isUppercase && !isDigit && rules.allowedSymbols.indexOf(handle.charAt(i)) < 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a visibility ID is in the canonical form accepted on-chain for a first trade.
+ * @param rules the rules of its exact platform prefix, null if the platform is unknown or disabled
+ */
+export function isCanonicalVisibilityId(visibilityId: string, rules: PlatformRules | null): boolean {
+  if (rules == null) return false;
+  return isValidHandle(getVisibilityHandle(visibilityId), rules);
+}
+
+/**
+ * Normalizes a visibility ID typed by a user, e.g. `X-@VitalikButerin` to `x-vitalikbuterin`.
+ * @param rules the rules of its platform (see `normalizeVisibilityPlatform`), null if unknown or disabled
+ * @returns the canonical visibility ID, or null if it is malformed or its platform is unknown
+ */
+export function normalizeVisibilityId(visibilityId: string, rules: PlatformRules | null): string | null {
+  if (rules == null) return null;
+
+  const platform = normalizeVisibilityPlatform(visibilityId);
+  let handle = getVisibilityHandle(visibilityId.trim());
+  if (handle.startsWith("@")) handle = handle.substring(1);
+  if (rules.lowercase) handle = handle.toLowerCase();
+
+  return isValidHandle(handle, rules) ? platform + "-" + handle : null;
+}
@@ -0,0 +1,91 @@
+import { BigInt } from '@graphprotocol/graph-ts'
+import { CreditsTrade as CreditsTradeEvent } from '../generated/VisibilityCredits/VisibilityCredits'
+import { VisibilityCandle } from '../generated/schema'
+
+const HOUR_SECONDS = 3600
+const DAY_SECONDS = 86400
+
+export function updateVisibilityCandles(
+  event: CreditsTradeEvent,
+  previousPrice: BigInt
+): void {
+  updateVisibilityCandle(event, previousPrice, 'HOUR', HOUR_SECONDS)
+  updateVisibilityCandle(event, previousPrice, 'DAY', DAY_SECONDS)
+}
+
+function updateVisibilityCandle(
+  event: CreditsTradeEvent,
+  previousPrice: BigInt,
+  interval: string,
+  intervalSeconds: i32
+): void {
+  let timestamp = event.block.timestamp.toI32()
+  let periodStart = BigInt.fromI32(timestamp - (timestamp % intervalSeconds))
+  let candleId = event.params.tradeEvent.visibilityId
+    .toString()
+    .concat('-')
+    .concat(interval)
+    .concat('-')
+    .concat(periodStart.toString())
+
+  let candle = VisibilityCandle.load(candleId)
+  if (candle == null) {
+    candle = VisibilityCandle.loadInBlock(candleId)
+  }
+  if (candle == null) {
+    candle = new VisibilityCandle(candleId)
+    candle.visibility = event.params.tradeEvent.visibilityId.toString()
+    candle.interval = interval
+    candle.periodStart = periodStart
+    candle.open = previousPrice
+    candle.high = previousPrice
+    candle.low = previousPrice
+    candle.close = previousPrice
+    candle.buyVolumeCredits = BigInt.fromI32(0)
+    candle.sellVolumeCredits = BigInt.fromI32(0)
+    candle.buyVolumeWei = BigInt.fromI32(0)
+    candle.sellVolumeWei = BigInt.fromI32(0)
+    candle.tradeCount = BigInt.fromI32(0)
+    candle.creatorFees = BigInt.fromI32(0)
+    candle.protocolFees = BigInt.fromI32(0)
+    candle.referrerFees = BigInt.fromI32(0)
+  }
+
+  let newPrice = event.params.tradeEvent.newCurrentPrice
+  if (newPrice.gt(candle.high)) {
+    candle.high = newPrice
+  }
+  if (newPrice.lt(candle.low)) {
+    candle.low = newPrice
+  }
+  candle.close = newPrice
+
+  if (event.params.tradeEvent.isBuy) {
+    candle.buyVolumeCredits = candle.buyVolumeCredits.plus(
+      event.params.tradeEvent.amount
+    )
+    candle.buyVolumeWei = candle.buyVolumeWei.plus(
+      event.params.tradeEvent.tradeCost
+    )
+  } else {
+    candle.sellVolumeCredits = candle.sellVolumeCredits.plus(
+      event.params.tradeEvent.amount
+    )
+    candle.sellVolumeWei = candle.sellVolumeWei.plus(
+      event.params.tradeEvent.tradeCost
+    )
+  }
+
+  candle.tradeCount = candle.tradeCount.plus(BigInt.fromI32(1))
+  candle.creatorFees = candle.creatorFees.plus(
+    event.params.tradeEvent.creatorFee
+  )
+  candle.protocolFees = candle.protocolFees.plus(
+    event.params.tradeEvent.protocolFee
+  )
+  candle.referrerFees = candle.referrerFees.plus(
+    event.params.tradeEvent.referrerFee
+  )
+
+  candle.save()
+}
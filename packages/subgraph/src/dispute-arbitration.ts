@@ -0,0 +1,254 @@
+import { Address, BigInt, Bytes, dataSource } from '@graphprotocol/graph-ts'
+import {
+  DisputeArbitration as DisputeArbitrationContract,
+  ArbiterAdded as ArbiterAddedEvent,
+  ArbiterRemoved as ArbiterRemovedEvent,
+  ArbitrationSettingsUpdated as ArbitrationSettingsUpdatedEvent,
+  DisputeVoteCast as DisputeVoteCastEvent,
+  DisputeVotesTallied as DisputeVotesTalliedEvent
+} from '../generated/templates/DisputeArbitration/DisputeArbitration'
+import { DisputeArbitration } from '../generated/templates'
+import {
+  Arbiter,
+  ArbiterAdded,
+  ArbiterRemoved,
+  ArbitrationSettings,
+  ArbitrationSettingsUpdated,
+  DisputeVote,
+  DisputeVotesTallied,
+  VisibilityServiceExecution
+} from '../generated/schema'
+
+function getArbiterId(contract: Address, arbiter: Address): Bytes {
+  return contract.concat(arbiter)
+}
+
+// Sets the arbiter as a member of the live panel of its contract
+function activateArbiter(
+  contract: Address,
+  address: Address,
+  timestamp: BigInt
+): void {
+  let arbiterId = getArbiterId(contract, address)
+  let arbiter = Arbiter.load(arbiterId)
+  if (arbiter == null) {
+    arbiter = new Arbiter(arbiterId)
+    arbiter.arbitration = contract
+    arbiter.address = address
+  }
+  arbiter.active = true
+  arbiter.addedAt = timestamp
+  arbiter.removedAt = null
+  arbiter.save()
+}
+
+// Starts indexing a DisputeArbitration contract granted the dispute resolver
+// role. Its constructor events, and the ones it emitted while it did not hold
+// the role, are not indexed: the panel and the settings are read from the
+// contract. Accounts that are not a DisputeArbitration contract, such as the
+// deployer, are ignored.
+export function trackDisputeArbitration(
+  address: Address,
+  timestamp: BigInt
+): void {
+  let arbitrationSettings = ArbitrationSettings.load(address)
+  if (arbitrationSettings != null && arbitrationSettings.active) {
+    return
+  }
+
+  let contract = DisputeArbitrationContract.bind(address)
+  let arbiters = contract.try_getArbiters()
+  let quorum = contract.try_quorum()
+  let votingPeriod = contract.try_votingPeriod()
+  if (arbiters.reverted || quorum.reverted || votingPeriod.reverted) {
+    return
+  }
+
+  // a data source keeps indexing its contract once created
+  if (arbitrationSettings == null) {
+    DisputeArbitration.create(address)
+    arbitrationSettings = new ArbitrationSettings(address)
+  }
+  arbitrationSettings.active = true
+  arbitrationSettings.quorum = quorum.value
+  arbitrationSettings.votingPeriod = votingPeriod.value
+  arbitrationSettings.arbitersCount = BigInt.fromI32(arbiters.value.length)
+  arbitrationSettings.save()
+
+  for (let i = 0; i < arbiters.value.length; i++) {
+    activateArbiter(address, arbiters.value[i], timestamp)
+  }
+}
+
+// Stops treating a DisputeArbitration contract that lost the dispute resolver
+// role as the live arbitration, deactivating its panel
+export function untrackDisputeArbitration(
+  address: Address,
+  timestamp: BigInt
+): void {
+  let arbitrationSettings = ArbitrationSettings.load(address)
+  if (arbitrationSettings == null || !arbitrationSettings.active) {
+    return
+  }
+  arbitrationSettings.active = false
+  arbitrationSettings.arbitersCount = BigInt.zero()
+  arbitrationSettings.save()
+
+  let arbiters = arbitrationSettings.arbiters.load()
+  for (let i = 0; i < arbiters.length; i++) {
+    let arbiter = arbiters[i]
+    if (arbiter.active) {
+      arbiter.active = false
+      arbiter.removedAt = timestamp
+      arbiter.save()
+    }
+  }
+}
+
+// The panel and the settings of a contract without the dispute resolver role
+// are read again from the contract if it gets the role back
+function loadActiveArbitrationSettings(): ArbitrationSettings | null {
+  let arbitrationSettings = ArbitrationSettings.load(dataSource.address())
+  if (arbitrationSettings == null || !arbitrationSettings.active) {
+    return null
+  }
+  return arbitrationSettings
+}
+
+export function handleArbiterAdded(event: ArbiterAddedEvent): void {
+  let arbitrationSettings = loadActiveArbitrationSettings()
+  if (arbitrationSettings != null) {
+    let arbiter = Arbiter.load(
+      getArbiterId(dataSource.address(), event.params.arbiter)
+    )
+    // already counted when the panel was read in the same block
+    if (arbiter == null || !arbiter.active) {
+      arbitrationSettings.arbitersCount =
+        arbitrationSettings.arbitersCount.plus(BigInt.fromI32(1))
+      arbitrationSettings.save()
+
+      activateArbiter(
+        dataSource.address(),
+        event.params.arbiter,
+        event.block.timestamp
+      )
+    }
+  }
+
+  let entity = new ArbiterAdded(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.arbiter = event.params.arbiter
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleArbiterRemoved(event: ArbiterRemovedEvent): void {
+  let arbitrationSettings = loadActiveArbitrationSettings()
+  let arbiter = Arbiter.load(
+    getArbiterId(dataSource.address(), event.params.arbiter)
+  )
+  if (arbitrationSettings != null && arbiter != null && arbiter.active) {
+    arbiter.active = false
+    arbiter.removedAt = event.block.timestamp
+    arbiter.save()
+
+    arbitrationSettings.arbitersCount = arbitrationSettings.arbitersCount.minus(
+      BigInt.fromI32(1)
+    )
+    arbitrationSettings.save()
+  }
+
+  let entity = new ArbiterRemoved(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.arbiter = event.params.arbiter
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleArbitrationSettingsUpdated(
+  event: ArbitrationSettingsUpdatedEvent
+): void {
+  let arbitrationSettings = loadActiveArbitrationSettings()
+  if (arbitrationSettings != null) {
+    arbitrationSettings.quorum = event.params.quorum
+    arbitrationSettings.votingPeriod = event.params.votingPeriod
+    arbitrationSettings.save()
+  }
+
+  let entity = new ArbitrationSettingsUpdated(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.quorum = event.params.quorum
+  entity.votingPeriod = event.params.votingPeriod
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleDisputeVoteCast(event: DisputeVoteCastEvent): void {
+  let serviceExecutionId = event.params.serviceNonce
+    .toString()
+    .concat('-')
+    .concat(event.params.executionNonce.toString())
+
+  let entity = new DisputeVote(
+    serviceExecutionId.concat('-').concat(event.params.arbiter.toHexString())
+  )
+  entity.execution = serviceExecutionId
+  entity.arbiter = getArbiterId(dataSource.address(), event.params.arbiter)
+  entity.refundBps = event.params.refundBps
+  entity.reason = event.params.reason
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleDisputeVotesTallied(
+  event: DisputeVotesTalliedEvent
+): void {
+  let serviceExecutionId = event.params.serviceNonce
+    .toString()
+    .concat('-')
+    .concat(event.params.executionNonce.toString())
+  let serviceExecution = VisibilityServiceExecution.load(serviceExecutionId)
+  if (serviceExecution == null) {
+    serviceExecution =
+      VisibilityServiceExecution.loadInBlock(serviceExecutionId)
+  }
+
+  // the amounts and the final state come with ServiceExecutionResolved
+  if (serviceExecution != null) {
+    serviceExecution.arbitrationRefundBps = event.params.refundBps
+    serviceExecution.save()
+  }
+
+  let entity = new DisputeVotesTallied(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.serviceNonce = event.params.serviceNonce
+  entity.executionNonce = event.params.executionNonce
+  entity.votesCount = event.params.votesCount
+  entity.refundBps = event.params.refundBps
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
@@ -0,0 +1,85 @@
+import { Address, BigInt } from '@graphprotocol/graph-ts'
+import { CreditsTrade as CreditsTradeEvent } from '../generated/VisibilityCredits/VisibilityCredits'
+import {
+  ReferredTrader,
+  Referrer,
+  ReferrerVisibility
+} from '../generated/schema'
+
+export function updateReferrer(event: CreditsTradeEvent): void {
+  let referrerAddress = event.params.tradeEvent.referrer
+  if (referrerAddress.equals(Address.zero())) {
+    return
+  }
+
+  let tradeCost = event.params.tradeEvent.tradeCost
+  let referrerFee = event.params.tradeEvent.referrerFee
+
+  let referrer = Referrer.load(referrerAddress)
+  if (referrer == null) {
+    referrer = Referrer.loadInBlock(referrerAddress)
+  }
+  if (referrer == null) {
+    referrer = new Referrer(referrerAddress)
+    referrer.totalVolume = BigInt.fromI32(0)
+    referrer.totalFeesEarned = BigInt.fromI32(0)
+    referrer.totalFeesClaimed = BigInt.fromI32(0)
+    referrer.claimableFeeBalance = BigInt.fromI32(0)
+    referrer.tradeCount = BigInt.fromI32(0)
+    referrer.referredTraderCount = BigInt.fromI32(0)
+  }
+
+  let referredTraderId = referrerAddress
+    .toHexString()
+    .concat('-')
+    .concat(event.params.tradeEvent.from.toHexString())
+  let referredTrader = ReferredTrader.load(referredTraderId)
+  if (referredTrader == null) {
+    referredTrader = ReferredTrader.loadInBlock(referredTraderId)
+  }
+  if (referredTrader == null) {
+    referredTrader = new ReferredTrader(referredTraderId)
+    referredTrader.referrer = referrer.id
+    referredTrader.trader = event.params.tradeEvent.from
+    referredTrader.volume = BigInt.fromI32(0)
+    referredTrader.tradeCount = BigInt.fromI32(0)
+
+    referrer.referredTraderCount = referrer.referredTraderCount.plus(
+      BigInt.fromI32(1)
+    )
+  }
+  referredTrader.volume = referredTrader.volume.plus(tradeCost)
+  referredTrader.tradeCount = referredTrader.tradeCount.plus(BigInt.fromI32(1))
+  referredTrader.save()
+
+  let referrerVisibilityId = referrerAddress
+    .toHexString()
+    .concat('-')
+    .concat(event.params.tradeEvent.visibilityId.toString())
+  let referrerVisibility = ReferrerVisibility.load(referrerVisibilityId)
+  if (referrerVisibility == null) {
+    referrerVisibility = ReferrerVisibility.loadInBlock(referrerVisibilityId)
+  }
+  if (referrerVisibility == null) {
+    referrerVisibility = new ReferrerVisibility(referrerVisibilityId)
+    referrerVisibility.referrer = referrer.id
+    referrerVisibility.visibility =
+      event.params.tradeEvent.visibilityId.toString()
+    referrerVisibility.volume = BigInt.fromI32(0)
+    referrerVisibility.feesEarned = BigInt.fromI32(0)
+    referrerVisibility.tradeCount = BigInt.fromI32(0)
+  }
+  referrerVisibility.volume = referrerVisibility.volume.plus(tradeCost)
+  referrerVisibility.feesEarned =
+    referrerVisibility.feesEarned.plus(referrerFee)
+  referrerVisibility.tradeCount = referrerVisibility.tradeCount.plus(
+    BigInt.fromI32(1)
+  )
+  referrerVisibility.save()
+
+  referrer.totalVolume = referrer.totalVolume.plus(tradeCost)
+  referrer.totalFeesEarned = referrer.totalFeesEarned.plus(referrerFee)
+  referrer.claimableFeeBalance = referrer.claimableFeeBalance.plus(referrerFee)
+  referrer.tradeCount = referrer.tradeCount.plus(BigInt.fromI32(1))
+  referrer.save()
+}
@@ -0,0 +1,32 @@
+import { BigInt } from '@graphprotocol/graph-ts'
+import { Visibility } from '../generated/schema'
+import {
+  getVisibilityHandle,
+  getVisibilityPlatform
+} from '../../nextjs/utils/visibilityId'
+
+// VisibilityCredits A, B and BASE_PRICE, used until a CurveSet assigns a profile
+const DEFAULT_CURVE_A = BigInt.fromString('15000000000')
+const DEFAULT_CURVE_B = BigInt.fromString('25000000000000')
+const DEFAULT_CURVE_BASE_PRICE = BigInt.fromString('100000000000000')
+
+export function createVisibility(visibilityId: string): Visibility {
+  let visibility = new Visibility(visibilityId)
+  // price at zero supply on the default curve, as the contract quotes it
+  visibility.currentPrice = DEFAULT_CURVE_BASE_PRICE
+  visibility.totalSupply = BigInt.fromI32(0)
+  visibility.creatorFeesAccrued = BigInt.fromI32(0)
+  visibility.creatorFeesClaimed = BigInt.fromI32(0)
+  visibility.claimableFeeBalance = BigInt.fromI32(0)
+  visibility.curveA = DEFAULT_CURVE_A
+  visibility.curveB = DEFAULT_CURVE_B
+  visibility.curveBasePrice = DEFAULT_CURVE_BASE_PRICE
+
+  // same split as the frontend, IDs traded before the platform registry may not be canonical
+  let platform = getVisibilityPlatform(visibilityId)
+  if (platform.length > 0) {
+    visibility.platform = platform
+    visibility.handle = getVisibilityHandle(visibilityId)
+  }
+  return visibility
+}
@@ -1,39 +1,121 @@
-import { BigInt } from '@graphprotocol/graph-ts'
+import { Address, BigInt, Bytes } from '@graphprotocol/graph-ts'
 import {
   CreatorFeeClaimed as CreatorFeeClaimedEvent,
   CreatorVisibilitySet as CreatorVisibilitySetEvent,
   CreditsTrade as CreditsTradeEvent,
   CreditsTransfer as CreditsTransferEvent,
+  CurveSet as CurveSetEvent,
   DefaultAdminDelayChangeCanceled as DefaultAdminDelayChangeCanceledEvent,
   DefaultAdminDelayChangeScheduled as DefaultAdminDelayChangeScheduledEvent,
   DefaultAdminTransferCanceled as DefaultAdminTransferCanceledEvent,
   DefaultAdminTransferScheduled as DefaultAdminTransferScheduledEvent,
+  FeeChangeApplied as FeeChangeAppliedEvent,
+  FeeChangeCanceled as FeeChangeCanceledEvent,
+  FeeChangeScheduled as FeeChangeScheduledEvent,
+  OperatorApprovalSet as OperatorApprovalSetEvent,
+  PlatformSet as PlatformSetEvent,
+  ProtocolFeesClaimed as ProtocolFeesClaimedEvent,
+  ReferrerFeesClaimed as ReferrerFeesClaimedEvent,
   RoleAdminChanged as RoleAdminChangedEvent,
   RoleGranted as RoleGrantedEvent,
   RoleRevoked as RoleRevokedEvent
 } from '../generated/VisibilityCredits/VisibilityCredits'
 import {
+  Creator,
   CreatorFeeClaimed,
   CreatorVisibilitySet,
   CreditsTrade,
   CreditsTransfer,
+  CurveSet,
   DefaultAdminDelayChangeCanceled,
   DefaultAdminDelayChangeScheduled,
   DefaultAdminTransferCanceled,
   DefaultAdminTransferScheduled,
+  FeeChange,
+  FeeSchedule,
+  OperatorApproval,
+  OperatorApprovalSet,
+  Platform,
+  PlatformSet,
+  ProtocolFeesClaimed,
+  ProtocolTreasury,
+  Referrer,
+  ReferrerFeesClaimed,
   RoleAdminChanged,
   RoleGranted,
   RoleRevoked,
   Visibility,
   VisibilityBalance
 } from '../generated/schema'
+import { updateVisibilityCandles } from './candles'
+import { updateReferrer } from './referrers'
+import { createVisibility } from './visibilities'
 import { log } from 'matchstick-as'
 
+function loadOrCreateCreator(address: Bytes): Creator {
+  let creator = Creator.load(address)
+  if (creator == null) {
+    creator = Creator.loadInBlock(address)
+  }
+  if (creator == null) {
+    creator = new Creator(address)
+    creator.totalFeesAccrued = BigInt.fromI32(0)
+    creator.totalFeesClaimed = BigInt.fromI32(0)
+    creator.claimableFeeBalance = BigInt.fromI32(0)
+  }
+  return creator
+}
+
+function proportionalCostBasis(
+  visibilityBalance: VisibilityBalance,
+  amount: BigInt
+): BigInt {
+  if (visibilityBalance.balance.isZero()) {
+    return BigInt.fromI32(0)
+  }
+  if (amount.ge(visibilityBalance.balance)) {
+    return visibilityBalance.costBasis
+  }
+  return visibilityBalance.costBasis
+    .times(amount)
+    .div(visibilityBalance.balance)
+}
+
+function averageEntryCost(visibilityBalance: VisibilityBalance): BigInt {
+  if (visibilityBalance.balance.isZero()) {
+    return BigInt.fromI32(0)
+  }
+  return visibilityBalance.costBasis.div(visibilityBalance.balance)
+}
+
 export function handleCreatorFeeClaimed(event: CreatorFeeClaimedEvent): void {
+  let creator = loadOrCreateCreator(event.params.creator)
+  creator.totalFeesClaimed = creator.totalFeesClaimed.plus(event.params.amount)
+  creator.claimableFeeBalance = creator.claimableFeeBalance.minus(
+    event.params.amount
+  )
+  creator.save()
+
+  // a claim always withdraws the whole balance of the visibility
+  let visibility = Visibility.load(event.params.visibilityId)
+  if (visibility == null) {
+    visibility = Visibility.loadInBlock(event.params.visibilityId)
+  }
+  if (visibility != null) {
+    visibility.creatorFeesClaimed = visibility.creatorFeesClaimed.plus(
+      event.params.amount
+    )
+    visibility.claimableFeeBalance = BigInt.fromI32(0)
+    visibility.save()
+  }
+
+  /////
+
   let entity = new CreatorFeeClaimed(
     event.transaction.hash.concatI32(event.logIndex.toI32())
   )
   entity.creator = event.params.creator
+  entity.visibilityId = event.params.visibilityId
   entity.amount = event.params.amount
 
   entity.blockNumber = event.block.number
@@ -51,11 +133,36 @@ export function handleCreatorVisibilitySet(
     visibility = Visibility.loadInBlock(event.params.visibilityId.toString())
   }
   if (visibility == null) {
-    visibility = new Visibility(event.params.visibilityId.toString())
-    visibility.currentPrice = BigInt.fromI32(0)
-    visibility.totalSupply = BigInt.fromI32(0)
+    visibility = createVisibility(event.params.visibilityId.toString())
+  }
+
+  // unclaimed fees follow the visibility to its new creator, together with
+  // their accrual so that they are counted once across creators
+  let previousCreatorAddress = visibility.creator
+  if (previousCreatorAddress) {
+    let previousCreator = loadOrCreateCreator(previousCreatorAddress)
+    previousCreator.totalFeesAccrued = previousCreator.totalFeesAccrued.minus(
+      visibility.claimableFeeBalance
+    )
+    previousCreator.claimableFeeBalance =
+      previousCreator.claimableFeeBalance.minus(visibility.claimableFeeBalance)
+    previousCreator.save()
+  }
+
+  if (event.params.creator.equals(Address.zero())) {
+    visibility.creator = null
+  } else {
+    let creator = loadOrCreateCreator(event.params.creator)
+    creator.totalFeesAccrued = creator.totalFeesAccrued.plus(
+      visibility.claimableFeeBalance
+    )
+    creator.claimableFeeBalance = creator.claimableFeeBalance.plus(
+      visibility.claimableFeeBalance
+    )
+    creator.save()
+
+    visibility.creator = creator.id
   }
-  visibility.creator = event.params.creator
   visibility.save()
 
   /////
@@ -83,12 +190,36 @@ export function handleCreditsTrade(event: CreditsTradeEvent): void {
     )
   }
   if (visibility == null) {
-    visibility = new Visibility(event.params.tradeEvent.visibilityId.toString())
+    visibility = createVisibility(
+      event.params.tradeEvent.visibilityId.toString()
+    )
   }
+
+  // the candle opens on the price the visibility had before this trade
+  updateVisibilityCandles(event, visibility.currentPrice)
+
   visibility.currentPrice = event.params.tradeEvent.newCurrentPrice
   visibility.totalSupply = event.params.tradeEvent.newTotalSupply
+  visibility.creatorFeesAccrued = visibility.creatorFeesAccrued.plus(
+    event.params.tradeEvent.creatorFee
+  )
+  visibility.claimableFeeBalance = visibility.claimableFeeBalance.plus(
+    event.params.tradeEvent.creatorFee
+  )
   visibility.save()
 
+  let creatorAddress = visibility.creator
+  if (creatorAddress) {
+    let creator = loadOrCreateCreator(creatorAddress)
+    creator.totalFeesAccrued = creator.totalFeesAccrued.plus(
+      event.params.tradeEvent.creatorFee
+    )
+    creator.claimableFeeBalance = creator.claimableFeeBalance.plus(
+      event.params.tradeEvent.creatorFee
+    )
+    creator.save()
+  }
+
   let visibilityBalance = VisibilityBalance.load(
     event.params.tradeEvent.visibilityId
       .toString()
@@ -113,14 +244,57 @@ export function handleCreditsTrade(event: CreditsTradeEvent): void {
     visibilityBalance.visibility = visibility.id
     visibilityBalance.user = event.params.tradeEvent.from
     visibilityBalance.balance = BigInt.fromI32(0)
+    visibilityBalance.costBasis = BigInt.fromI32(0)
+    visibilityBalance.averageEntryCost = BigInt.fromI32(0)
+    visibilityBalance.realizedPnl = BigInt.fromI32(0)
+    visibilityBalance.totalFeesPaid = BigInt.fromI32(0)
   }
 
-  visibilityBalance.balance = event.params.tradeEvent.isBuy
-    ? visibilityBalance.balance.plus(event.params.tradeEvent.amount)
-    : visibilityBalance.balance.minus(event.params.tradeEvent.amount)
+  let tradeFees = event.params.tradeEvent.creatorFee
+    .plus(event.params.tradeEvent.protocolFee)
+    .plus(event.params.tradeEvent.referrerFee)
+  visibilityBalance.totalFeesPaid =
+    visibilityBalance.totalFeesPaid.plus(tradeFees)
+
+  if (event.params.tradeEvent.isBuy) {
+    visibilityBalance.costBasis = visibilityBalance.costBasis.plus(
+      event.params.tradeEvent.tradeCost.plus(tradeFees)
+    )
+    visibilityBalance.balance = visibilityBalance.balance.plus(
+      event.params.tradeEvent.amount
+    )
+  } else {
+    // average cost method: the credits sold carry their share of the basis
+    let soldCostBasis = proportionalCostBasis(
+      visibilityBalance,
+      event.params.tradeEvent.amount
+    )
+    let reimbursement = event.params.tradeEvent.tradeCost.minus(tradeFees)
+    visibilityBalance.realizedPnl = visibilityBalance.realizedPnl.plus(
+      reimbursement.minus(soldCostBasis)
+    )
+    visibilityBalance.costBasis =
+      visibilityBalance.costBasis.minus(soldCostBasis)
+    visibilityBalance.balance = visibilityBalance.balance.minus(
+      event.params.tradeEvent.amount
+    )
+  }
+  visibilityBalance.averageEntryCost = averageEntryCost(visibilityBalance)
 
   visibilityBalance.save()
 
+  updateReferrer(event)
+
+  let protocolTreasury = loadOrCreateProtocolTreasury()
+  protocolTreasury.totalFeesAccrued = protocolTreasury.totalFeesAccrued.plus(
+    event.params.tradeEvent.protocolFee
+  )
+  protocolTreasury.claimableFeeBalance =
+    protocolTreasury.claimableFeeBalance.plus(
+      event.params.tradeEvent.protocolFee
+    )
+  protocolTreasury.save()
+
   let entity = new CreditsTrade(
     event.transaction.hash.concatI32(event.logIndex.toI32())
   )
@@ -149,9 +323,7 @@ export function handleCreditsTransfer(event: CreditsTransferEvent): void {
     visibility = Visibility.loadInBlock(event.params.visibilityId.toString())
   }
   if (visibility == null) {
-    visibility = new Visibility(event.params.visibilityId.toString())
-    visibility.currentPrice = BigInt.fromI32(0)
-    visibility.totalSupply = BigInt.fromI32(0)
+    visibility = createVisibility(event.params.visibilityId.toString())
   }
   visibility.save()
 
@@ -179,6 +351,10 @@ export function handleCreditsTransfer(event: CreditsTransferEvent): void {
     visibilityBalanceFrom.visibility = visibility.id
     visibilityBalanceFrom.user = event.params.from
     visibilityBalanceFrom.balance = BigInt.fromI32(0)
+    visibilityBalanceFrom.costBasis = BigInt.fromI32(0)
+    visibilityBalanceFrom.averageEntryCost = BigInt.fromI32(0)
+    visibilityBalanceFrom.realizedPnl = BigInt.fromI32(0)
+    visibilityBalanceFrom.totalFeesPaid = BigInt.fromI32(0)
   }
 
   let visibilityBalanceTo = VisibilityBalance.load(
@@ -205,8 +381,22 @@ export function handleCreditsTransfer(event: CreditsTransferEvent): void {
     visibilityBalanceTo.visibility = visibility.id
     visibilityBalanceTo.user = event.params.to
     visibilityBalanceTo.balance = BigInt.fromI32(0)
+    visibilityBalanceTo.costBasis = BigInt.fromI32(0)
+    visibilityBalanceTo.averageEntryCost = BigInt.fromI32(0)
+    visibilityBalanceTo.realizedPnl = BigInt.fromI32(0)
+    visibilityBalanceTo.totalFeesPaid = BigInt.fromI32(0)
   }
 
+  // transferred credits keep their cost basis, no PnL is realized
+  let transferredCostBasis = proportionalCostBasis(
+    visibilityBalanceFrom,
+    event.params.amount
+  )
+  visibilityBalanceFrom.costBasis =
+    visibilityBalanceFrom.costBasis.minus(transferredCostBasis)
+  visibilityBalanceTo.costBasis =
+    visibilityBalanceTo.costBasis.plus(transferredCostBasis)
+
   visibilityBalanceFrom.balance = visibilityBalanceFrom.balance.minus(
     event.params.amount
   )
@@ -214,6 +404,11 @@ export function handleCreditsTransfer(event: CreditsTransferEvent): void {
     event.params.amount
   )
 
+  visibilityBalanceFrom.averageEntryCost = averageEntryCost(
+    visibilityBalanceFrom
+  )
+  visibilityBalanceTo.averageEntryCost = averageEntryCost(visibilityBalanceTo)
+
   visibilityBalanceFrom.save()
   visibilityBalanceTo.save()
 
@@ -232,6 +427,38 @@ export function handleCreditsTransfer(event: CreditsTransferEvent): void {
   entity.save()
 }
 
+export function handleCurveSet(event: CurveSetEvent): void {
+  let visibility = Visibility.load(event.params.visibilityId.toString())
+  if (visibility == null) {
+    visibility = Visibility.loadInBlock(event.params.visibilityId.toString())
+  }
+  if (visibility == null) {
+    visibility = createVisibility(event.params.visibilityId.toString())
+  }
+  visibility.curveA = event.params.a
+  visibility.curveB = event.params.b
+  visibility.curveBasePrice = event.params.basePrice
+  // curves can only be set while no credits are in circulation
+  visibility.currentPrice = event.params.basePrice
+  visibility.save()
+
+  /////
+
+  let entity = new CurveSet(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.visibilityId = event.params.visibilityId
+  entity.a = event.params.a
+  entity.b = event.params.b
+  entity.basePrice = event.params.basePrice
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
 export function handleDefaultAdminDelayChangeCanceled(
   event: DefaultAdminDelayChangeCanceledEvent
 ): void {
@@ -292,6 +519,222 @@ export function handleDefaultAdminTransferScheduled(
   entity.save()
 }
 
+export function handleOperatorApprovalSet(
+  event: OperatorApprovalSetEvent
+): void {
+  let visibility = Visibility.load(event.params.visibilityId.toString())
+  if (visibility == null) {
+    visibility = Visibility.loadInBlock(event.params.visibilityId.toString())
+  }
+  if (visibility == null) {
+    visibility = createVisibility(event.params.visibilityId.toString())
+    visibility.save()
+  }
+
+  let operatorApprovalId = event.params.visibilityId
+    .toString()
+    .concat('-')
+    .concat(event.params.owner.toHexString())
+    .concat('-')
+    .concat(event.params.operator.toHexString())
+  let operatorApproval = OperatorApproval.load(operatorApprovalId)
+  if (operatorApproval == null) {
+    operatorApproval = new OperatorApproval(operatorApprovalId)
+    operatorApproval.visibility = visibility.id
+    operatorApproval.owner = event.params.owner
+    operatorApproval.operator = event.params.operator
+  }
+  operatorApproval.approved = event.params.approved
+  operatorApproval.save()
+
+  /////
+
+  let entity = new OperatorApprovalSet(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.visibilityId = event.params.visibilityId
+  entity.owner = event.params.owner
+  entity.operator = event.params.operator
+  entity.approved = event.params.approved
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handlePlatformSet(event: PlatformSetEvent): void {
+  let platform = new Platform(event.params.prefix)
+  platform.enabled = event.params.rules.enabled
+  platform.lowercase = event.params.rules.lowercase
+  platform.minHandleLength = event.params.rules.minHandleLength
+  platform.maxHandleLength = event.params.rules.maxHandleLength
+  platform.allowedSymbols = event.params.rules.allowedSymbols
+  platform.updatedAt = event.block.timestamp
+  platform.save()
+
+  /////
+
+  let entity = new PlatformSet(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.prefix = event.params.prefix
+  entity.rules_enabled = event.params.rules.enabled
+  entity.rules_lowercase = event.params.rules.lowercase
+  entity.rules_minHandleLength = event.params.rules.minHandleLength
+  entity.rules_maxHandleLength = event.params.rules.maxHandleLength
+  entity.rules_allowedSymbols = event.params.rules.allowedSymbols
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+function loadOrCreateProtocolTreasury(): ProtocolTreasury {
+  let protocolTreasury = ProtocolTreasury.load('current')
+  if (protocolTreasury == null) {
+    protocolTreasury = new ProtocolTreasury('current')
+    protocolTreasury.totalFeesAccrued = BigInt.fromI32(0)
+    protocolTreasury.totalFeesClaimed = BigInt.fromI32(0)
+    protocolTreasury.claimableFeeBalance = BigInt.fromI32(0)
+  }
+  return protocolTreasury
+}
+
+export function handleProtocolFeesClaimed(
+  event: ProtocolFeesClaimedEvent
+): void {
+  let protocolTreasury = loadOrCreateProtocolTreasury()
+  protocolTreasury.totalFeesClaimed = protocolTreasury.totalFeesClaimed.plus(
+    event.params.amount
+  )
+  protocolTreasury.claimableFeeBalance =
+    protocolTreasury.claimableFeeBalance.minus(event.params.amount)
+  protocolTreasury.save()
+
+  /////
+
+  let entity = new ProtocolFeesClaimed(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.treasury = event.params.treasury
+  entity.amount = event.params.amount
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleReferrerFeesClaimed(
+  event: ReferrerFeesClaimedEvent
+): void {
+  // referrers only have fees to claim once credited by a referred trade
+  let referrer = Referrer.load(event.params.referrer)
+  if (referrer) {
+    referrer.totalFeesClaimed = referrer.totalFeesClaimed.plus(
+      event.params.amount
+    )
+    referrer.claimableFeeBalance = referrer.claimableFeeBalance.minus(
+      event.params.amount
+    )
+    referrer.save()
+  }
+
+  /////
+
+  let entity = new ReferrerFeesClaimed(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.referrer = event.params.referrer
+  entity.amount = event.params.amount
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+function loadOrCreateFeeSchedule(): FeeSchedule {
+  let feeSchedule = FeeSchedule.load('current')
+  if (feeSchedule == null) {
+    feeSchedule = new FeeSchedule('current')
+    feeSchedule.creatorFee = BigInt.fromI32(0)
+    feeSchedule.protocolFee = BigInt.fromI32(0)
+    feeSchedule.referrerFee = BigInt.fromI32(0)
+  }
+  return feeSchedule
+}
+
+export function handleFeeChangeScheduled(event: FeeChangeScheduledEvent): void {
+  let feeChange = new FeeChange(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  feeChange.creatorFee = event.params.creatorFee
+  feeChange.protocolFee = event.params.protocolFee
+  feeChange.referrerFee = event.params.referrerFee
+  feeChange.status = 'SCHEDULED'
+  feeChange.effectSchedule = event.params.effectSchedule
+  feeChange.scheduledAt = event.block.timestamp
+  feeChange.transactionHash = event.transaction.hash
+  feeChange.save()
+
+  let feeSchedule = loadOrCreateFeeSchedule()
+  feeSchedule.pendingChange = feeChange.id
+  feeSchedule.save()
+}
+
+export function handleFeeChangeCanceled(event: FeeChangeCanceledEvent): void {
+  let feeSchedule = loadOrCreateFeeSchedule()
+
+  let pendingChangeId = feeSchedule.pendingChange
+  if (pendingChangeId) {
+    let feeChange = FeeChange.load(pendingChangeId)
+    if (feeChange) {
+      feeChange.status = 'CANCELED'
+      feeChange.canceledAt = event.block.timestamp
+      feeChange.save()
+    }
+  }
+
+  feeSchedule.pendingChange = null
+  feeSchedule.save()
+}
+
+export function handleFeeChangeApplied(event: FeeChangeAppliedEvent): void {
+  let feeSchedule = loadOrCreateFeeSchedule()
+
+  let feeChange: FeeChange | null = null
+  let pendingChangeId = feeSchedule.pendingChange
+  if (pendingChangeId) {
+    feeChange = FeeChange.load(pendingChangeId)
+  }
+  // the deployment fees are applied without being scheduled
+  if (feeChange == null) {
+    feeChange = new FeeChange(
+      event.transaction.hash.concatI32(event.logIndex.toI32())
+    )
+    feeChange.creatorFee = event.params.creatorFee
+    feeChange.protocolFee = event.params.protocolFee
+    feeChange.referrerFee = event.params.referrerFee
+    feeChange.transactionHash = event.transaction.hash
+  }
+  feeChange.status = 'APPLIED'
+  feeChange.appliedAt = event.block.timestamp
+  feeChange.save()
+
+  feeSchedule.creatorFee = event.params.creatorFee
+  feeSchedule.protocolFee = event.params.protocolFee
+  feeSchedule.referrerFee = event.params.referrerFee
+  feeSchedule.pendingChange = null
+  feeSchedule.save()
+}
+
 export function handleRoleAdminChanged(event: RoleAdminChangedEvent): void {
   let entity = new RoleAdminChanged(
     event.transaction.hash.concatI32(event.logIndex.toI32())
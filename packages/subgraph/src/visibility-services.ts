@@ -1,16 +1,23 @@
-import { BigInt } from '@graphprotocol/graph-ts'
+import { BigInt, ByteArray, Bytes, crypto } from '@graphprotocol/graph-ts'
 import {
   DefaultAdminDelayChangeCanceled as DefaultAdminDelayChangeCanceledEvent,
   DefaultAdminDelayChangeScheduled as DefaultAdminDelayChangeScheduledEvent,
   DefaultAdminTransferCanceled as DefaultAdminTransferCanceledEvent,
   DefaultAdminTransferScheduled as DefaultAdminTransferScheduledEvent,
+  DisputeBondPosted as DisputeBondPostedEvent,
+  DisputeBondReleased as DisputeBondReleasedEvent,
+  DisputeBondUpdated as DisputeBondUpdatedEvent,
+  DisputeDefaultsUpdated as DisputeDefaultsUpdatedEvent,
   RoleAdminChanged as RoleAdminChangedEvent,
   RoleGranted as RoleGrantedEvent,
   RoleRevoked as RoleRevokedEvent,
   ServiceCreated as ServiceCreatedEvent,
   ServiceExecutionAccepted as ServiceExecutionAcceptedEvent,
   ServiceExecutionCanceled as ServiceExecutionCanceledEvent,
+  ServiceExecutionDisputeDefaulted as ServiceExecutionDisputeDefaultedEvent,
   ServiceExecutionDisputed as ServiceExecutionDisputedEvent,
+  ServiceExecutionEvidenceSubmitted as ServiceExecutionEvidenceSubmittedEvent,
+  ServiceExecutionExpired as ServiceExecutionExpiredEvent,
   ServiceExecutionRequested as ServiceExecutionRequestedEvent,
   ServiceExecutionResolved as ServiceExecutionResolvedEvent,
   ServiceExecutionValidated as ServiceExecutionValidatedEvent,
@@ -21,13 +28,21 @@ import {
   DefaultAdminDelayChangeScheduled,
   DefaultAdminTransferCanceled,
   DefaultAdminTransferScheduled,
+  DisputeBondPosted,
+  DisputeBondReleased,
+  DisputeBondUpdated,
+  DisputeDefaultsUpdated,
+  DisputeEvidence,
+  DisputeSettings,
   RoleAdminChanged,
   RoleGranted,
   RoleRevoked,
   ServiceCreated,
   ServiceExecutionAccepted,
   ServiceExecutionCanceled,
+  ServiceExecutionDisputeDefaulted,
   ServiceExecutionDisputed,
+  ServiceExecutionExpired,
   ServiceExecutionRequested,
   ServiceExecutionResolved,
   ServiceExecutionValidated,
@@ -36,6 +51,54 @@ import {
   VisibilityService,
   VisibilityServiceExecution
 } from '../generated/schema'
+import {
+  trackDisputeArbitration,
+  untrackDisputeArbitration
+} from './dispute-arbitration'
+import { createVisibility } from './visibilities'
+
+// VisibilityServices constructor dispute defaults, until a DisputeDefaultsUpdated
+const DEFAULT_DISPUTE_RESOLUTION_DELAY = BigInt.fromI32(7 * 24 * 60 * 60)
+const DEFAULT_REFUND_BPS = BigInt.fromI32(10000)
+
+// VisibilityServices BPS_DENOMINATOR
+const BPS_DENOMINATOR = BigInt.fromI32(10000)
+
+// VisibilityServices DISPUTE_RESOLVER_ROLE
+const DISPUTE_RESOLVER_ROLE = Bytes.fromByteArray(
+  crypto.keccak256(ByteArray.fromUTF8('DISPUTE_RESOLVER_ROLE'))
+)
+
+function loadOrCreateDisputeSettings(): DisputeSettings {
+  let disputeSettings = DisputeSettings.load('current')
+  if (disputeSettings == null) {
+    disputeSettings = new DisputeSettings('current')
+    disputeSettings.disputeResolutionDelay = DEFAULT_DISPUTE_RESOLUTION_DELAY
+    disputeSettings.defaultRefundBps = DEFAULT_REFUND_BPS
+    disputeSettings.disputeBondBps = BigInt.zero()
+  }
+  return disputeSettings
+}
+
+// Same outcome states as VisibilityServices _settleDispute, from the refund share:
+// the rounded amounts can be zero for a partial refund (e.g. on a zero-cost service)
+function closeDispute(
+  serviceExecution: VisibilityServiceExecution,
+  refundBps: BigInt,
+  refundAmount: BigInt,
+  creatorAmount: BigInt
+): void {
+  if (refundBps.equals(BPS_DENOMINATOR)) {
+    serviceExecution.state = 'REFUNDED'
+  } else if (refundBps.isZero()) {
+    serviceExecution.state = 'VALIDATED'
+  } else {
+    serviceExecution.state = 'SPLIT'
+  }
+  serviceExecution.refundBps = refundBps
+  serviceExecution.refundAmount = refundAmount
+  serviceExecution.creatorAmount = creatorAmount
+}
 
 export function handleDefaultAdminDelayChangeCanceled(
   event: DefaultAdminDelayChangeCanceledEvent
@@ -113,6 +176,10 @@ export function handleRoleAdminChanged(event: RoleAdminChangedEvent): void {
 }
 
 export function handleRoleGranted(event: RoleGrantedEvent): void {
+  if (event.params.role == DISPUTE_RESOLVER_ROLE) {
+    trackDisputeArbitration(event.params.account, event.block.timestamp)
+  }
+
   let entity = new RoleGranted(
     event.transaction.hash.concatI32(event.logIndex.toI32())
   )
@@ -128,6 +195,10 @@ export function handleRoleGranted(event: RoleGrantedEvent): void {
 }
 
 export function handleRoleRevoked(event: RoleRevokedEvent): void {
+  if (event.params.role == DISPUTE_RESOLVER_ROLE) {
+    untrackDisputeArbitration(event.params.account, event.block.timestamp)
+  }
+
   let entity = new RoleRevoked(
     event.transaction.hash.concatI32(event.logIndex.toI32())
   )
@@ -142,15 +213,115 @@ export function handleRoleRevoked(event: RoleRevokedEvent): void {
   entity.save()
 }
 
+export function handleDisputeBondPosted(event: DisputeBondPostedEvent): void {
+  let serviceExecutionId = event.params.serviceNonce
+    .toString()
+    .concat('-')
+    .concat(event.params.executionNonce.toString())
+  let serviceExecution = VisibilityServiceExecution.load(serviceExecutionId)
+  if (serviceExecution == null) {
+    serviceExecution =
+      VisibilityServiceExecution.loadInBlock(serviceExecutionId)
+  }
+
+  if (serviceExecution != null) {
+    serviceExecution.disputeBondAmount = event.params.bondAmount
+    serviceExecution.save()
+  }
+
+  let entity = new DisputeBondPosted(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.serviceNonce = event.params.serviceNonce
+  entity.executionNonce = event.params.executionNonce
+  entity.bondAmount = event.params.bondAmount
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleDisputeBondReleased(
+  event: DisputeBondReleasedEvent
+): void {
+  let serviceExecutionId = event.params.serviceNonce
+    .toString()
+    .concat('-')
+    .concat(event.params.executionNonce.toString())
+  let serviceExecution = VisibilityServiceExecution.load(serviceExecutionId)
+  if (serviceExecution == null) {
+    serviceExecution =
+      VisibilityServiceExecution.loadInBlock(serviceExecutionId)
+  }
+
+  if (serviceExecution != null) {
+    serviceExecution.disputeBondRequesterAmount = event.params.requesterAmount
+    serviceExecution.disputeBondCreatorAmount = event.params.creatorAmount
+    serviceExecution.save()
+  }
+
+  let entity = new DisputeBondReleased(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.serviceNonce = event.params.serviceNonce
+  entity.executionNonce = event.params.executionNonce
+  entity.requesterAmount = event.params.requesterAmount
+  entity.creatorAmount = event.params.creatorAmount
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleDisputeBondUpdated(event: DisputeBondUpdatedEvent): void {
+  let disputeSettings = loadOrCreateDisputeSettings()
+  disputeSettings.disputeBondBps = event.params.disputeBondBps
+  disputeSettings.save()
+
+  let entity = new DisputeBondUpdated(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.disputeBondBps = event.params.disputeBondBps
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleDisputeDefaultsUpdated(
+  event: DisputeDefaultsUpdatedEvent
+): void {
+  let disputeSettings = loadOrCreateDisputeSettings()
+  disputeSettings.disputeResolutionDelay = event.params.disputeResolutionDelay
+  disputeSettings.defaultRefundBps = event.params.defaultRefundBps
+  disputeSettings.save()
+
+  let entity = new DisputeDefaultsUpdated(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.disputeResolutionDelay = event.params.disputeResolutionDelay
+  entity.defaultRefundBps = event.params.defaultRefundBps
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
 export function handleServiceCreated(event: ServiceCreatedEvent): void {
   let visibility = Visibility.load(event.params.visibilityId.toString())
   if (visibility == null) {
     visibility = Visibility.loadInBlock(event.params.visibilityId.toString())
   }
   if (visibility == null) {
-    visibility = new Visibility(event.params.visibilityId.toString())
-    visibility.currentPrice = BigInt.fromI32(0)
-    visibility.totalSupply = BigInt.fromI32(0)
+    visibility = createVisibility(event.params.visibilityId.toString())
   }
   visibility.save()
 
@@ -159,6 +330,9 @@ export function handleServiceCreated(event: ServiceCreatedEvent): void {
   visibilityService.serviceType = event.params.serviceType
   visibilityService.creditsCostAmount = event.params.creditsCostAmount
   visibilityService.enabled = true
+  visibilityService.maxOpenExecutions = BigInt.fromI32(0)
+  visibilityService.acceptanceDelay = event.params.acceptanceDelay
+  visibilityService.validationDelay = event.params.validationDelay
   visibilityService.save()
 
   let entity = new ServiceCreated(
@@ -168,6 +342,8 @@ export function handleServiceCreated(event: ServiceCreatedEvent): void {
   entity.serviceType = event.params.serviceType
   entity.visibility = visibility.id
   entity.creditsCostAmount = event.params.creditsCostAmount
+  entity.validationDelay = event.params.validationDelay
+  entity.acceptanceDelay = event.params.acceptanceDelay
   entity.blockNumber = event.block.number
   entity.blockTimestamp = event.block.timestamp
   entity.transactionHash = event.transaction.hash
@@ -196,6 +372,14 @@ export function handleServiceExecutionAccepted(
     serviceExecution.state = 'ACCEPTED'
     serviceExecution.responseData = event.params.responseData
     serviceExecution.lastUpdated = event.block.timestamp
+
+    let service = VisibilityService.load(serviceExecution.service)
+    // validateServiceExecution requires the validation delay to be strictly over
+    if (service != null) {
+      serviceExecution.autoValidationTimestamp = event.block.timestamp
+        .plus(service.validationDelay)
+        .plus(BigInt.fromI32(1))
+    }
     serviceExecution.save()
   }
 
@@ -253,6 +437,134 @@ export function handleServiceExecutionCanceled(
   entity.save()
 }
 
+export function handleServiceExecutionEvidenceSubmitted(
+  event: ServiceExecutionEvidenceSubmittedEvent
+): void {
+  let serviceExecutionId = event.params.serviceNonce
+    .toString()
+    .concat('-')
+    .concat(event.params.executionNonce.toString())
+  let serviceExecution = VisibilityServiceExecution.load(serviceExecutionId)
+  if (serviceExecution == null) {
+    serviceExecution =
+      VisibilityServiceExecution.loadInBlock(serviceExecutionId)
+  }
+  if (serviceExecution == null) return
+
+  // anyone else allowed to submit evidence holds the DISPUTE_RESOLVER_ROLE, or is an arbiter
+  // of a resolver contract relaying it
+  let party = 'RESOLVER'
+  if (serviceExecution.requester.equals(event.params.from)) {
+    party = 'REQUESTER'
+  } else {
+    let service = VisibilityService.load(serviceExecution.service)
+    if (service != null) {
+      let visibility = Visibility.load(service.visibility)
+      if (visibility != null) {
+        let creator = visibility.creator
+        if (creator && creator.equals(event.params.from)) {
+          party = 'CREATOR'
+        }
+      }
+    }
+  }
+
+  let evidence = new DisputeEvidence(
+    serviceExecutionId
+      .concat('-')
+      .concat(serviceExecution.evidenceCount.toString())
+  )
+  evidence.execution = serviceExecutionId
+  evidence.index = serviceExecution.evidenceCount
+  evidence.from = event.params.from
+  evidence.party = party
+  evidence.evidence = event.params.evidence
+
+  evidence.blockNumber = event.block.number
+  evidence.blockTimestamp = event.block.timestamp
+  evidence.transactionHash = event.transaction.hash
+
+  evidence.save()
+
+  serviceExecution.evidenceCount = serviceExecution.evidenceCount.plus(
+    BigInt.fromI32(1)
+  )
+  serviceExecution.save()
+}
+
+export function handleServiceExecutionExpired(
+  event: ServiceExecutionExpiredEvent
+): void {
+  let serviceExecutionId = event.params.serviceNonce
+    .toString()
+    .concat('-')
+    .concat(event.params.executionNonce.toString())
+  let serviceExecution = VisibilityServiceExecution.load(serviceExecutionId)
+  if (serviceExecution == null) {
+    serviceExecution =
+      VisibilityServiceExecution.loadInBlock(serviceExecutionId)
+  }
+
+  if (serviceExecution != null) {
+    serviceExecution.state = 'REFUNDED'
+    serviceExecution.lastUpdated = event.block.timestamp
+    serviceExecution.save()
+  }
+
+  let entity = new ServiceExecutionExpired(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.serviceNonce = event.params.serviceNonce
+  entity.executionNonce = event.params.executionNonce
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
+export function handleServiceExecutionDisputeDefaulted(
+  event: ServiceExecutionDisputeDefaultedEvent
+): void {
+  let serviceExecutionId = event.params.serviceNonce
+    .toString()
+    .concat('-')
+    .concat(event.params.executionNonce.toString())
+  let serviceExecution = VisibilityServiceExecution.load(serviceExecutionId)
+  if (serviceExecution == null) {
+    serviceExecution =
+      VisibilityServiceExecution.loadInBlock(serviceExecutionId)
+  }
+
+  if (serviceExecution != null) {
+    closeDispute(
+      serviceExecution,
+      event.params.refundBps,
+      event.params.refundAmount,
+      event.params.creatorAmount
+    )
+    serviceExecution.lastUpdated = event.block.timestamp
+    serviceExecution.save()
+  }
+
+  let entity = new ServiceExecutionDisputeDefaulted(
+    event.transaction.hash.concatI32(event.logIndex.toI32())
+  )
+  entity.serviceNonce = event.params.serviceNonce
+  entity.executionNonce = event.params.executionNonce
+  entity.from = event.params.from
+  entity.refundBps = event.params.refundBps
+  entity.refundAmount = event.params.refundAmount
+  entity.creatorAmount = event.params.creatorAmount
+
+  entity.blockNumber = event.block.number
+  entity.blockTimestamp = event.block.timestamp
+  entity.transactionHash = event.transaction.hash
+
+  entity.save()
+}
+
 export function handleServiceExecutionDisputed(
   event: ServiceExecutionDisputedEvent
 ): void {
@@ -274,6 +586,9 @@ export function handleServiceExecutionDisputed(
   if (serviceExecution != null) {
     serviceExecution.state = 'DISPUTED'
     serviceExecution.disputeData = event.params.disputeData
+    serviceExecution.disputeDeadline = event.block.timestamp.plus(
+      loadOrCreateDisputeSettings().disputeResolutionDelay
+    )
     serviceExecution.lastUpdated = event.block.timestamp
     serviceExecution.save()
   }
@@ -312,7 +627,12 @@ export function handleServiceExecutionRequested(
     serviceExecution.service = service.id
     serviceExecution.executionNonce = event.params.executionNonce
     serviceExecution.requester = event.params.requester
+    serviceExecution.creditsCostAmount = service.creditsCostAmount
+    serviceExecution.acceptanceDeadline = event.block.timestamp.plus(
+      service.acceptanceDelay
+    )
     serviceExecution.requestData = event.params.requestData
+    serviceExecution.evidenceCount = BigInt.zero()
     serviceExecution.lastUpdated = event.block.timestamp
     serviceExecution.save()
   }
@@ -351,11 +671,12 @@ export function handleServiceExecutionResolved(
   }
 
   if (serviceExecution != null) {
-    if (event.params.refund) {
-      serviceExecution.state = 'REFUNDED'
-    } else {
-      serviceExecution.state = 'VALIDATED'
-    }
+    closeDispute(
+      serviceExecution,
+      event.params.refundBps,
+      event.params.refundAmount,
+      event.params.creatorAmount
+    )
     serviceExecution.resolveData = event.params.resolveData
     serviceExecution.lastUpdated = event.block.timestamp
     serviceExecution.save()
@@ -366,7 +687,9 @@ export function handleServiceExecutionResolved(
   )
   entity.serviceNonce = event.params.serviceNonce
   entity.executionNonce = event.params.executionNonce
-  entity.refund = event.params.refund
+  entity.refundBps = event.params.refundBps
+  entity.refundAmount = event.params.refundAmount
+  entity.creatorAmount = event.params.creatorAmount
   entity.resolveData = event.params.resolveData
 
   entity.blockNumber = event.block.number
@@ -414,11 +737,29 @@ export function handleServiceExecutionValidated(
 }
 
 export function handleServiceUpdated(event: ServiceUpdatedEvent): void {
+  let service = VisibilityService.load(event.params.nonce.toString())
+  if (service == null) {
+    service = VisibilityService.loadInBlock(event.params.nonce.toString())
+  }
+  if (service != null) {
+    service.enabled = event.params.enabled
+    service.creditsCostAmount = event.params.creditsCostAmount
+    service.metadataURI = event.params.metadataURI
+    service.maxOpenExecutions = event.params.maxOpenExecutions
+    service.acceptanceDelay = event.params.acceptanceDelay
+    service.save()
+  }
+
   let entity = new ServiceUpdated(
     event.transaction.hash.concatI32(event.logIndex.toI32())
   )
   entity.nonce = event.params.nonce
+  entity.service = event.params.nonce.toString()
   entity.enabled = event.params.enabled
+  entity.creditsCostAmount = event.params.creditsCostAmount
+  entity.metadataURI = event.params.metadataURI
+  entity.maxOpenExecutions = event.params.maxOpenExecutions
+  entity.acceptanceDelay = event.params.acceptanceDelay
 
   entity.blockNumber = event.block.number
   entity.blockTimestamp = event.block.timestamp
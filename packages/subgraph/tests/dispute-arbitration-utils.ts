@@ -0,0 +1,154 @@
+import { createMockedFunction, newMockEvent } from 'matchstick-as'
+import { ethereum, BigInt, Address } from '@graphprotocol/graph-ts'
+import {
+  ArbiterAdded,
+  ArbiterRemoved,
+  ArbitrationSettingsUpdated,
+  DisputeVoteCast,
+  DisputeVotesTallied
+} from '../generated/templates/DisputeArbitration/DisputeArbitration'
+
+// Mocks the views read when the contract is granted the dispute resolver role
+export function mockDisputeArbitration(
+  contract: Address,
+  arbiters: Address[],
+  quorum: BigInt,
+  votingPeriod: BigInt
+): void {
+  createMockedFunction(
+    contract,
+    'getArbiters',
+    'getArbiters():(address[])'
+  ).returns([ethereum.Value.fromAddressArray(arbiters)])
+  createMockedFunction(contract, 'quorum', 'quorum():(uint256)').returns([
+    ethereum.Value.fromUnsignedBigInt(quorum)
+  ])
+  createMockedFunction(
+    contract,
+    'votingPeriod',
+    'votingPeriod():(uint256)'
+  ).returns([ethereum.Value.fromUnsignedBigInt(votingPeriod)])
+}
+
+export function createArbiterAddedEvent(arbiter: Address): ArbiterAdded {
+  let arbiterAddedEvent = changetype<ArbiterAdded>(newMockEvent())
+
+  arbiterAddedEvent.parameters = new Array()
+
+  arbiterAddedEvent.parameters.push(
+    new ethereum.EventParam('arbiter', ethereum.Value.fromAddress(arbiter))
+  )
+
+  return arbiterAddedEvent
+}
+
+export function createArbiterRemovedEvent(arbiter: Address): ArbiterRemoved {
+  let arbiterRemovedEvent = changetype<ArbiterRemoved>(newMockEvent())
+
+  arbiterRemovedEvent.parameters = new Array()
+
+  arbiterRemovedEvent.parameters.push(
+    new ethereum.EventParam('arbiter', ethereum.Value.fromAddress(arbiter))
+  )
+
+  return arbiterRemovedEvent
+}
+
+export function createArbitrationSettingsUpdatedEvent(
+  quorum: BigInt,
+  votingPeriod: BigInt
+): ArbitrationSettingsUpdated {
+  let arbitrationSettingsUpdatedEvent =
+    changetype<ArbitrationSettingsUpdated>(newMockEvent())
+
+  arbitrationSettingsUpdatedEvent.parameters = new Array()
+
+  arbitrationSettingsUpdatedEvent.parameters.push(
+    new ethereum.EventParam('quorum', ethereum.Value.fromUnsignedBigInt(quorum))
+  )
+  arbitrationSettingsUpdatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'votingPeriod',
+      ethereum.Value.fromUnsignedBigInt(votingPeriod)
+    )
+  )
+
+  return arbitrationSettingsUpdatedEvent
+}
+
+export function createDisputeVoteCastEvent(
+  serviceNonce: BigInt,
+  executionNonce: BigInt,
+  arbiter: Address,
+  refundBps: BigInt,
+  reason: string
+): DisputeVoteCast {
+  let disputeVoteCastEvent = changetype<DisputeVoteCast>(newMockEvent())
+
+  disputeVoteCastEvent.parameters = new Array()
+
+  disputeVoteCastEvent.parameters.push(
+    new ethereum.EventParam(
+      'serviceNonce',
+      ethereum.Value.fromUnsignedBigInt(serviceNonce)
+    )
+  )
+  disputeVoteCastEvent.parameters.push(
+    new ethereum.EventParam(
+      'executionNonce',
+      ethereum.Value.fromUnsignedBigInt(executionNonce)
+    )
+  )
+  disputeVoteCastEvent.parameters.push(
+    new ethereum.EventParam('arbiter', ethereum.Value.fromAddress(arbiter))
+  )
+  disputeVoteCastEvent.parameters.push(
+    new ethereum.EventParam(
+      'refundBps',
+      ethereum.Value.fromUnsignedBigInt(refundBps)
+    )
+  )
+  disputeVoteCastEvent.parameters.push(
+    new ethereum.EventParam('reason', ethereum.Value.fromString(reason))
+  )
+
+  return disputeVoteCastEvent
+}
+
+export function createDisputeVotesTalliedEvent(
+  serviceNonce: BigInt,
+  executionNonce: BigInt,
+  votesCount: BigInt,
+  refundBps: BigInt
+): DisputeVotesTallied {
+  let disputeVotesTalliedEvent = changetype<DisputeVotesTallied>(newMockEvent())
+
+  disputeVotesTalliedEvent.parameters = new Array()
+
+  disputeVotesTalliedEvent.parameters.push(
+    new ethereum.EventParam(
+      'serviceNonce',
+      ethereum.Value.fromUnsignedBigInt(serviceNonce)
+    )
+  )
+  disputeVotesTalliedEvent.parameters.push(
+    new ethereum.EventParam(
+      'executionNonce',
+      ethereum.Value.fromUnsignedBigInt(executionNonce)
+    )
+  )
+  disputeVotesTalliedEvent.parameters.push(
+    new ethereum.EventParam(
+      'votesCount',
+      ethereum.Value.fromUnsignedBigInt(votesCount)
+    )
+  )
+  disputeVotesTalliedEvent.parameters.push(
+    new ethereum.EventParam(
+      'refundBps',
+      ethereum.Value.fromUnsignedBigInt(refundBps)
+    )
+  )
+
+  return disputeVotesTalliedEvent
+}
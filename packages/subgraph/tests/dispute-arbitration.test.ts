@@ -0,0 +1,397 @@
+import {
+  assert,
+  describe,
+  test,
+  clearStore,
+  beforeAll,
+  afterAll,
+  createMockedFunction,
+  dataSourceMock
+} from 'matchstick-as/assembly/index'
+import {
+  Address,
+  BigInt,
+  ByteArray,
+  Bytes,
+  crypto
+} from '@graphprotocol/graph-ts'
+import {
+  handleArbiterAdded,
+  handleArbiterRemoved,
+  handleArbitrationSettingsUpdated,
+  handleDisputeVoteCast,
+  handleDisputeVotesTallied
+} from '../src/dispute-arbitration'
+import {
+  handleRoleGranted,
+  handleRoleRevoked,
+  handleServiceCreated,
+  handleServiceExecutionRequested
+} from '../src/visibility-services'
+import {
+  createArbiterAddedEvent,
+  createArbiterRemovedEvent,
+  createArbitrationSettingsUpdatedEvent,
+  createDisputeVoteCastEvent,
+  createDisputeVotesTalliedEvent,
+  mockDisputeArbitration
+} from './dispute-arbitration-utils'
+import {
+  createRoleGrantedEvent,
+  createRoleRevokedEvent,
+  createServiceCreatedEvent,
+  createServiceExecutionRequestedEvent
+} from './visibility-services-utils'
+
+const DISPUTE_RESOLVER_ROLE = Bytes.fromByteArray(
+  crypto.keccak256(ByteArray.fromUTF8('DISPUTE_RESOLVER_ROLE'))
+)
+const ADMIN = Address.fromString('0x0000000000000000000000000000000000000001')
+const ARBITRATION = Address.fromString(
+  '0x0000000000000000000000000000000000000010'
+)
+const NEXT_ARBITRATION = Address.fromString(
+  '0x0000000000000000000000000000000000000020'
+)
+const ARBITER_A = '0x0000000000000000000000000000000000000008'
+const ARBITER_B = '0x0000000000000000000000000000000000000009'
+
+function arbiterId(contract: Address, arbiter: string): string {
+  return contract.concat(Address.fromString(arbiter)).toHexString()
+}
+
+// Grants the dispute resolver role to a DisputeArbitration with an empty panel
+function trackArbitration(): void {
+  mockDisputeArbitration(
+    ARBITRATION,
+    [],
+    BigInt.fromI32(1),
+    BigInt.fromI32(3600)
+  )
+  handleRoleGranted(
+    createRoleGrantedEvent(DISPUTE_RESOLVER_ROLE, ARBITRATION, ADMIN)
+  )
+  dataSourceMock.setAddress(ARBITRATION.toHexString())
+}
+
+describe('Arbitration panel', () => {
+  beforeAll(() => {
+    trackArbitration()
+    handleArbitrationSettingsUpdated(
+      createArbitrationSettingsUpdatedEvent(
+        BigInt.fromI32(2),
+        BigInt.fromI32(86400)
+      )
+    )
+
+    let arbiterAddedEvent = createArbiterAddedEvent(
+      Address.fromString(ARBITER_A)
+    )
+    arbiterAddedEvent.logIndex = BigInt.fromI32(1)
+    handleArbiterAdded(arbiterAddedEvent)
+
+    arbiterAddedEvent = createArbiterAddedEvent(Address.fromString(ARBITER_B))
+    arbiterAddedEvent.logIndex = BigInt.fromI32(2)
+    handleArbiterAdded(arbiterAddedEvent)
+  })
+
+  afterAll(() => {
+    clearStore()
+    dataSourceMock.resetValues()
+  })
+
+  test('Arbiters are added to the panel', () => {
+    let arbitration = ARBITRATION.toHexString()
+    assert.entityCount('Arbiter', 2)
+    assert.entityCount('ArbiterAdded', 2)
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_A),
+      'active',
+      'true'
+    )
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_A),
+      'arbitration',
+      arbitration
+    )
+    assert.fieldEquals('ArbitrationSettings', arbitration, 'quorum', '2')
+    assert.fieldEquals(
+      'ArbitrationSettings',
+      arbitration,
+      'votingPeriod',
+      '86400'
+    )
+    assert.fieldEquals('ArbitrationSettings', arbitration, 'arbitersCount', '2')
+  })
+
+  test('Removed arbiters are kept inactive', () => {
+    let arbiterRemovedEvent = createArbiterRemovedEvent(
+      Address.fromString(ARBITER_B)
+    )
+    arbiterRemovedEvent.logIndex = BigInt.fromI32(3)
+    handleArbiterRemoved(arbiterRemovedEvent)
+
+    assert.entityCount('Arbiter', 2)
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_B),
+      'active',
+      'false'
+    )
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_B),
+      'removedAt',
+      '1'
+    )
+    assert.fieldEquals(
+      'ArbitrationSettings',
+      ARBITRATION.toHexString(),
+      'arbitersCount',
+      '1'
+    )
+  })
+})
+
+describe('Arbitration votes', () => {
+  beforeAll(() => {
+    trackArbitration()
+    handleServiceCreated(
+      createServiceCreatedEvent(
+        BigInt.fromI32(0),
+        'x-post',
+        'x-vitalikbuterin',
+        BigInt.fromI32(10),
+        BigInt.fromI32(86400),
+        BigInt.fromI32(259200)
+      )
+    )
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+    handleArbiterAdded(createArbiterAddedEvent(Address.fromString(ARBITER_A)))
+  })
+
+  afterAll(() => {
+    clearStore()
+    dataSourceMock.resetValues()
+  })
+
+  test('Votes are linked to the execution and the arbiter', () => {
+    handleDisputeVoteCast(
+      createDisputeVoteCastEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString(ARBITER_A),
+        BigInt.fromI32(7500),
+        'Posted late'
+      )
+    )
+
+    let voteId = '0-0-'.concat(ARBITER_A)
+    assert.entityCount('DisputeVote', 1)
+    assert.fieldEquals('DisputeVote', voteId, 'execution', '0-0')
+    assert.fieldEquals(
+      'DisputeVote',
+      voteId,
+      'arbiter',
+      arbiterId(ARBITRATION, ARBITER_A)
+    )
+    assert.fieldEquals('DisputeVote', voteId, 'refundBps', '7500')
+    assert.fieldEquals('DisputeVote', voteId, 'reason', 'Posted late')
+  })
+
+  test('Tallies record the applied vote on the execution', () => {
+    handleDisputeVotesTallied(
+      createDisputeVotesTalliedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        BigInt.fromI32(1),
+        BigInt.fromI32(7500)
+      )
+    )
+
+    assert.entityCount('DisputeVotesTallied', 1)
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'arbitrationRefundBps',
+      '7500'
+    )
+  })
+})
+
+describe('Dispute resolver', () => {
+  beforeAll(() => {
+    mockDisputeArbitration(
+      ARBITRATION,
+      [Address.fromString(ARBITER_A), Address.fromString(ARBITER_B)],
+      BigInt.fromI32(2),
+      BigInt.fromI32(259200)
+    )
+    mockDisputeArbitration(
+      NEXT_ARBITRATION,
+      [Address.fromString(ARBITER_A)],
+      BigInt.fromI32(1),
+      BigInt.fromI32(86400)
+    )
+
+    createMockedFunction(
+      ADMIN,
+      'getArbiters',
+      'getArbiters():(address[])'
+    ).reverts()
+    createMockedFunction(ADMIN, 'quorum', 'quorum():(uint256)').reverts()
+    createMockedFunction(
+      ADMIN,
+      'votingPeriod',
+      'votingPeriod():(uint256)'
+    ).reverts()
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Accounts that are not a DisputeArbitration contract are ignored', () => {
+    handleRoleGranted(
+      createRoleGrantedEvent(DISPUTE_RESOLVER_ROLE, ADMIN, ADMIN)
+    )
+
+    assert.dataSourceCount('DisputeArbitration', 0)
+    assert.entityCount('ArbitrationSettings', 0)
+  })
+
+  test('A DisputeArbitration resolver is indexed with its panel', () => {
+    let arbitration = ARBITRATION.toHexString()
+    handleRoleGranted(
+      createRoleGrantedEvent(DISPUTE_RESOLVER_ROLE, ARBITRATION, ADMIN)
+    )
+
+    assert.dataSourceCount('DisputeArbitration', 1)
+    assert.dataSourceExists('DisputeArbitration', arbitration)
+    assert.fieldEquals('ArbitrationSettings', arbitration, 'active', 'true')
+    assert.fieldEquals('ArbitrationSettings', arbitration, 'quorum', '2')
+    assert.fieldEquals(
+      'ArbitrationSettings',
+      arbitration,
+      'votingPeriod',
+      '259200'
+    )
+    assert.fieldEquals('ArbitrationSettings', arbitration, 'arbitersCount', '2')
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_A),
+      'active',
+      'true'
+    )
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_B),
+      'active',
+      'true'
+    )
+
+    // granting the role again neither creates another data source nor re-adds the panel
+    let grantedAgain = createRoleGrantedEvent(
+      DISPUTE_RESOLVER_ROLE,
+      ARBITRATION,
+      ADMIN
+    )
+    grantedAgain.block.timestamp = BigInt.fromI32(100)
+    handleRoleGranted(grantedAgain)
+    assert.dataSourceCount('DisputeArbitration', 1)
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_A),
+      'addedAt',
+      '1'
+    )
+  })
+
+  test('Each DisputeArbitration keeps its own settings and panel', () => {
+    handleRoleGranted(
+      createRoleGrantedEvent(DISPUTE_RESOLVER_ROLE, NEXT_ARBITRATION, ADMIN)
+    )
+
+    assert.dataSourceCount('DisputeArbitration', 2)
+    assert.entityCount('ArbitrationSettings', 2)
+    assert.entityCount('Arbiter', 3)
+    assert.fieldEquals(
+      'ArbitrationSettings',
+      NEXT_ARBITRATION.toHexString(),
+      'quorum',
+      '1'
+    )
+    assert.fieldEquals(
+      'ArbitrationSettings',
+      ARBITRATION.toHexString(),
+      'quorum',
+      '2'
+    )
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(NEXT_ARBITRATION, ARBITER_A),
+      'active',
+      'true'
+    )
+  })
+
+  test('Revoking the role deactivates the contract and its panel only', () => {
+    let revokedEvent = createRoleRevokedEvent(
+      DISPUTE_RESOLVER_ROLE,
+      ARBITRATION,
+      ADMIN
+    )
+    revokedEvent.block.timestamp = BigInt.fromI32(200)
+    handleRoleRevoked(revokedEvent)
+
+    let arbitration = ARBITRATION.toHexString()
+    assert.fieldEquals('ArbitrationSettings', arbitration, 'active', 'false')
+    assert.fieldEquals('ArbitrationSettings', arbitration, 'arbitersCount', '0')
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_A),
+      'active',
+      'false'
+    )
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_B),
+      'removedAt',
+      '200'
+    )
+    assert.fieldEquals(
+      'ArbitrationSettings',
+      NEXT_ARBITRATION.toHexString(),
+      'active',
+      'true'
+    )
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(NEXT_ARBITRATION, ARBITER_A),
+      'active',
+      'true'
+    )
+
+    // events of a contract without the role leave its entities as they are
+    dataSourceMock.setAddress(arbitration)
+    handleArbiterRemoved(
+      createArbiterRemovedEvent(Address.fromString(ARBITER_A))
+    )
+    assert.fieldEquals(
+      'Arbiter',
+      arbiterId(ARBITRATION, ARBITER_A),
+      'removedAt',
+      '200'
+    )
+    dataSourceMock.resetValues()
+  })
+})
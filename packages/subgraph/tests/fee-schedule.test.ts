@@ -0,0 +1,113 @@
+import {
+  assert,
+  describe,
+  test,
+  clearStore,
+  afterAll
+} from 'matchstick-as/assembly/index'
+import { BigInt, ethereum } from '@graphprotocol/graph-ts'
+import {
+  handleFeeChangeApplied,
+  handleFeeChangeCanceled,
+  handleFeeChangeScheduled
+} from '../src/visibility-credits'
+import {
+  createFeeChangeAppliedEvent,
+  createFeeChangeCanceledEvent,
+  createFeeChangeScheduledEvent
+} from './visibility-credits-utils'
+
+function withLogIndex<T extends ethereum.Event>(event: T, logIndex: i32): T {
+  event.logIndex = BigInt.fromI32(logIndex)
+  return event
+}
+
+function eventId(event: ethereum.Event): string {
+  return event.transaction.hash.concatI32(event.logIndex.toI32()).toHexString()
+}
+
+describe('Fee schedule', () => {
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Deployment fees are recorded as an applied change', () => {
+    let event = withLogIndex(
+      createFeeChangeAppliedEvent(
+        BigInt.fromI32(20000),
+        BigInt.fromI32(20000),
+        BigInt.fromI32(10000)
+      ),
+      0
+    )
+    handleFeeChangeApplied(event)
+
+    assert.fieldEquals('FeeSchedule', 'current', 'creatorFee', '20000')
+    assert.fieldEquals('FeeSchedule', 'current', 'protocolFee', '20000')
+    assert.fieldEquals('FeeSchedule', 'current', 'referrerFee', '10000')
+    assert.fieldEquals('FeeChange', eventId(event), 'status', 'APPLIED')
+  })
+
+  test('Scheduling then cancelling keeps the current fees', () => {
+    let scheduled = withLogIndex(
+      createFeeChangeScheduledEvent(
+        BigInt.fromI32(40000),
+        BigInt.fromI32(30000),
+        BigInt.fromI32(10000),
+        BigInt.fromI32(1000)
+      ),
+      1
+    )
+    handleFeeChangeScheduled(scheduled)
+
+    assert.fieldEquals('FeeChange', eventId(scheduled), 'status', 'SCHEDULED')
+    assert.fieldEquals(
+      'FeeChange',
+      eventId(scheduled),
+      'effectSchedule',
+      '1000'
+    )
+    assert.fieldEquals(
+      'FeeSchedule',
+      'current',
+      'pendingChange',
+      eventId(scheduled)
+    )
+
+    handleFeeChangeCanceled(withLogIndex(createFeeChangeCanceledEvent(), 2))
+
+    assert.fieldEquals('FeeChange', eventId(scheduled), 'status', 'CANCELED')
+    assert.fieldEquals('FeeSchedule', 'current', 'pendingChange', 'null')
+    assert.fieldEquals('FeeSchedule', 'current', 'creatorFee', '20000')
+  })
+
+  test('Applying a scheduled change updates the current fees', () => {
+    let scheduled = withLogIndex(
+      createFeeChangeScheduledEvent(
+        BigInt.fromI32(30000),
+        BigInt.fromI32(25000),
+        BigInt.fromI32(5000),
+        BigInt.fromI32(2000)
+      ),
+      3
+    )
+    handleFeeChangeScheduled(scheduled)
+    handleFeeChangeApplied(
+      withLogIndex(
+        createFeeChangeAppliedEvent(
+          BigInt.fromI32(30000),
+          BigInt.fromI32(25000),
+          BigInt.fromI32(5000)
+        ),
+        4
+      )
+    )
+
+    assert.fieldEquals('FeeChange', eventId(scheduled), 'status', 'APPLIED')
+    assert.fieldEquals('FeeSchedule', 'current', 'creatorFee', '30000')
+    assert.fieldEquals('FeeSchedule', 'current', 'protocolFee', '25000')
+    assert.fieldEquals('FeeSchedule', 'current', 'referrerFee', '5000')
+    assert.fieldEquals('FeeSchedule', 'current', 'pendingChange', 'null')
+    assert.entityCount('FeeChange', 3)
+  })
+})
@@ -0,0 +1,150 @@
+import {
+  assert,
+  describe,
+  test,
+  clearStore,
+  beforeAll,
+  afterAll
+} from 'matchstick-as/assembly/index'
+import { Address, BigInt, ethereum } from '@graphprotocol/graph-ts'
+import { CreditsTrade as CreditsTradeEvent } from '../generated/VisibilityCredits/VisibilityCredits'
+import {
+  handleCreditsTrade,
+  handleProtocolFeesClaimed,
+  handleReferrerFeesClaimed
+} from '../src/visibility-credits'
+import {
+  createCreditsTradeEvent,
+  createProtocolFeesClaimedEvent,
+  createReferrerFeesClaimedEvent
+} from './visibility-credits-utils'
+
+const REFERRER = '0x0000000000000000000000000000000000000005'
+const TRADER_A = '0x0000000000000000000000000000000000000006'
+const TRADER_B = '0x0000000000000000000000000000000000000007'
+
+function createReferredTradeEvent(
+  trader: string,
+  visibilityId: string,
+  referrer: Address,
+  tradeCost: i32,
+  referrerFee: i32,
+  logIndex: i32
+): CreditsTradeEvent {
+  let event = createCreditsTradeEvent(
+    changetype<ethereum.Tuple>([
+      ethereum.Value.fromAddress(Address.fromString(trader)),
+      ethereum.Value.fromString(visibilityId),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+      ethereum.Value.fromBoolean(true),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(tradeCost)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(2)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(referrerFee)),
+      ethereum.Value.fromAddress(referrer),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(10))
+    ])
+  )
+  event.logIndex = BigInt.fromI32(logIndex)
+  return event
+}
+
+describe('Referrer aggregates', () => {
+  beforeAll(() => {
+    let referrer = Address.fromString(REFERRER)
+    handleCreditsTrade(
+      createReferredTradeEvent(TRADER_A, 'x-one', referrer, 100, 1, 0)
+    )
+    handleCreditsTrade(
+      createReferredTradeEvent(TRADER_A, 'x-two', referrer, 200, 2, 1)
+    )
+    handleCreditsTrade(
+      createReferredTradeEvent(TRADER_B, 'x-one', referrer, 300, 3, 2)
+    )
+    // trades without a referrer are ignored
+    handleCreditsTrade(
+      createReferredTradeEvent(TRADER_B, 'x-one', Address.zero(), 400, 0, 3)
+    )
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Referrer totals', () => {
+    assert.entityCount('Referrer', 1)
+    assert.fieldEquals('Referrer', REFERRER, 'totalVolume', '600')
+    assert.fieldEquals('Referrer', REFERRER, 'totalFeesEarned', '6')
+    assert.fieldEquals('Referrer', REFERRER, 'tradeCount', '3')
+    assert.fieldEquals('Referrer', REFERRER, 'referredTraderCount', '2')
+  })
+
+  test('Per visibility breakdown', () => {
+    assert.entityCount('ReferrerVisibility', 2)
+    let one = REFERRER + '-x-one'
+    assert.fieldEquals('ReferrerVisibility', one, 'volume', '400')
+    assert.fieldEquals('ReferrerVisibility', one, 'feesEarned', '4')
+    assert.fieldEquals('ReferrerVisibility', one, 'tradeCount', '2')
+    let two = REFERRER + '-x-two'
+    assert.fieldEquals('ReferrerVisibility', two, 'volume', '200')
+    assert.fieldEquals('ReferrerVisibility', two, 'feesEarned', '2')
+  })
+
+  test('Referred traders', () => {
+    assert.entityCount('ReferredTrader', 2)
+    assert.fieldEquals(
+      'ReferredTrader',
+      REFERRER + '-' + TRADER_A,
+      'volume',
+      '300'
+    )
+    assert.fieldEquals(
+      'ReferredTrader',
+      REFERRER + '-' + TRADER_A,
+      'tradeCount',
+      '2'
+    )
+  })
+
+  test('Referrer claims', () => {
+    assert.fieldEquals('Referrer', REFERRER, 'claimableFeeBalance', '6')
+
+    handleReferrerFeesClaimed(
+      createReferrerFeesClaimedEvent(
+        Address.fromString(REFERRER),
+        BigInt.fromI32(6)
+      )
+    )
+
+    assert.fieldEquals('Referrer', REFERRER, 'totalFeesEarned', '6')
+    assert.fieldEquals('Referrer', REFERRER, 'totalFeesClaimed', '6')
+    assert.fieldEquals('Referrer', REFERRER, 'claimableFeeBalance', '0')
+    assert.entityCount('ReferrerFeesClaimed', 1)
+  })
+
+  test('Protocol fees are credited on every trade until claimed', () => {
+    assert.fieldEquals('ProtocolTreasury', 'current', 'totalFeesAccrued', '4')
+    assert.fieldEquals(
+      'ProtocolTreasury',
+      'current',
+      'claimableFeeBalance',
+      '4'
+    )
+
+    handleProtocolFeesClaimed(
+      createProtocolFeesClaimedEvent(
+        Address.fromString(TRADER_B),
+        BigInt.fromI32(4)
+      )
+    )
+
+    assert.fieldEquals('ProtocolTreasury', 'current', 'totalFeesClaimed', '4')
+    assert.fieldEquals(
+      'ProtocolTreasury',
+      'current',
+      'claimableFeeBalance',
+      '0'
+    )
+  })
+})
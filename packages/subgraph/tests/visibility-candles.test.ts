@@ -0,0 +1,204 @@
+import {
+  assert,
+  describe,
+  test,
+  clearStore,
+  beforeAll,
+  afterAll
+} from 'matchstick-as/assembly/index'
+import { Address, BigInt, ethereum } from '@graphprotocol/graph-ts'
+import { CreditsTrade as CreditsTradeEvent } from '../generated/VisibilityCredits/VisibilityCredits'
+import {
+  handleCreatorVisibilitySet,
+  handleCreditsTrade,
+  handleCurveSet
+} from '../src/visibility-credits'
+import {
+  createCreatorVisibilitySetEvent,
+  createCreditsTradeEvent,
+  createCurveSetEvent
+} from './visibility-credits-utils'
+
+const VISIBILITY_ID = 'x-candles'
+const LINKED_VISIBILITY_ID = 'x-linked'
+// VisibilityCredits BASE_PRICE
+const DEFAULT_BASE_PRICE = BigInt.fromString('100000000000000')
+// 2024-01-01T00:00:00Z
+const DAY_START = 1704067200
+const HOUR_START = DAY_START + 3600
+
+function createTradeEvent(
+  isBuy: boolean,
+  amount: i32,
+  tradeCost: i32,
+  newTotalSupply: i32,
+  newCurrentPrice: i32,
+  timestamp: i32,
+  logIndex: i32
+): CreditsTradeEvent {
+  return createVisibilityTradeEvent(
+    VISIBILITY_ID,
+    isBuy,
+    amount,
+    tradeCost,
+    newTotalSupply,
+    BigInt.fromI32(newCurrentPrice),
+    timestamp,
+    logIndex
+  )
+}
+
+function createVisibilityTradeEvent(
+  visibilityId: string,
+  isBuy: boolean,
+  amount: i32,
+  tradeCost: i32,
+  newTotalSupply: i32,
+  newCurrentPrice: BigInt,
+  timestamp: i32,
+  logIndex: i32
+): CreditsTradeEvent {
+  let event = createCreditsTradeEvent(
+    changetype<ethereum.Tuple>([
+      ethereum.Value.fromAddress(
+        Address.fromString('0x0000000000000000000000000000000000000002')
+      ),
+      ethereum.Value.fromString(visibilityId),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(amount)),
+      ethereum.Value.fromBoolean(isBuy),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(tradeCost)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(4)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(2)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+      ethereum.Value.fromAddress(
+        Address.fromString('0x0000000000000000000000000000000000000003')
+      ),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(newTotalSupply)),
+      ethereum.Value.fromUnsignedBigInt(newCurrentPrice)
+    ])
+  )
+  event.block.timestamp = BigInt.fromI32(timestamp)
+  event.logIndex = BigInt.fromI32(logIndex)
+  return event
+}
+
+describe('Visibility candles', () => {
+  beforeAll(() => {
+    handleCurveSet(
+      createCurveSetEvent(
+        VISIBILITY_ID,
+        BigInt.fromI32(0),
+        BigInt.fromI32(1),
+        BigInt.fromI32(100)
+      )
+    )
+    // first hour of the day: buy 10 then sell 4
+    handleCreditsTrade(createTradeEvent(true, 10, 1000, 10, 110, DAY_START, 0))
+    handleCreditsTrade(
+      createTradeEvent(false, 4, 400, 6, 106, DAY_START + 60, 1)
+    )
+    // second hour of the day: buy 2
+    handleCreditsTrade(createTradeEvent(true, 2, 220, 8, 108, HOUR_START, 2))
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Hourly candles are split per hour', () => {
+    assert.entityCount('VisibilityCandle', 3)
+
+    let firstHour = VISIBILITY_ID + '-HOUR-' + DAY_START.toString()
+    assert.fieldEquals('VisibilityCandle', firstHour, 'interval', 'HOUR')
+    assert.fieldEquals(
+      'VisibilityCandle',
+      firstHour,
+      'visibility',
+      VISIBILITY_ID
+    )
+    // opens on the base price, before the first buy
+    assert.fieldEquals('VisibilityCandle', firstHour, 'open', '100')
+    assert.fieldEquals('VisibilityCandle', firstHour, 'high', '110')
+    assert.fieldEquals('VisibilityCandle', firstHour, 'low', '100')
+    assert.fieldEquals('VisibilityCandle', firstHour, 'close', '106')
+    assert.fieldEquals('VisibilityCandle', firstHour, 'buyVolumeCredits', '10')
+    assert.fieldEquals('VisibilityCandle', firstHour, 'sellVolumeCredits', '4')
+    assert.fieldEquals('VisibilityCandle', firstHour, 'buyVolumeWei', '1000')
+    assert.fieldEquals('VisibilityCandle', firstHour, 'sellVolumeWei', '400')
+    assert.fieldEquals('VisibilityCandle', firstHour, 'tradeCount', '2')
+
+    let secondHour = VISIBILITY_ID + '-HOUR-' + HOUR_START.toString()
+    assert.fieldEquals('VisibilityCandle', secondHour, 'open', '106')
+    assert.fieldEquals('VisibilityCandle', secondHour, 'high', '108')
+    assert.fieldEquals('VisibilityCandle', secondHour, 'low', '106')
+    assert.fieldEquals('VisibilityCandle', secondHour, 'close', '108')
+    assert.fieldEquals('VisibilityCandle', secondHour, 'tradeCount', '1')
+  })
+
+  test('Daily candle aggregates all trades of the day', () => {
+    let day = VISIBILITY_ID + '-DAY-' + DAY_START.toString()
+    assert.fieldEquals('VisibilityCandle', day, 'interval', 'DAY')
+    assert.fieldEquals('VisibilityCandle', day, 'open', '100')
+    assert.fieldEquals('VisibilityCandle', day, 'high', '110')
+    assert.fieldEquals('VisibilityCandle', day, 'low', '100')
+    assert.fieldEquals('VisibilityCandle', day, 'close', '108')
+    assert.fieldEquals('VisibilityCandle', day, 'buyVolumeCredits', '12')
+    assert.fieldEquals('VisibilityCandle', day, 'sellVolumeCredits', '4')
+    assert.fieldEquals('VisibilityCandle', day, 'buyVolumeWei', '1220')
+    assert.fieldEquals('VisibilityCandle', day, 'sellVolumeWei', '400')
+    assert.fieldEquals('VisibilityCandle', day, 'tradeCount', '3')
+    assert.fieldEquals('VisibilityCandle', day, 'creatorFees', '12')
+    assert.fieldEquals('VisibilityCandle', day, 'protocolFees', '6')
+    assert.fieldEquals('VisibilityCandle', day, 'referrerFees', '3')
+  })
+})
+
+describe('Visibility candles of a linked visibility', () => {
+  beforeAll(() => {
+    // linking the creator creates the visibility before its first trade
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent(
+        LINKED_VISIBILITY_ID,
+        Address.fromString('0x0000000000000000000000000000000000000003')
+      )
+    )
+    handleCreditsTrade(
+      createVisibilityTradeEvent(
+        LINKED_VISIBILITY_ID,
+        true,
+        1,
+        1000,
+        1,
+        DEFAULT_BASE_PRICE.plus(BigInt.fromI32(40000)),
+        DAY_START,
+        0
+      )
+    )
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('The first candle opens on the default base price', () => {
+    let firstHour = LINKED_VISIBILITY_ID + '-HOUR-' + DAY_START.toString()
+    assert.fieldEquals(
+      'VisibilityCandle',
+      firstHour,
+      'open',
+      DEFAULT_BASE_PRICE.toString()
+    )
+    assert.fieldEquals(
+      'VisibilityCandle',
+      firstHour,
+      'low',
+      DEFAULT_BASE_PRICE.toString()
+    )
+    assert.fieldEquals(
+      'VisibilityCandle',
+      firstHour,
+      'close',
+      DEFAULT_BASE_PRICE.plus(BigInt.fromI32(40000)).toString()
+    )
+  })
+})
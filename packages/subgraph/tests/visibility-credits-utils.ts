@@ -5,10 +5,18 @@ import {
   CreatorVisibilitySet,
   CreditsTrade,
   CreditsTransfer,
+  CurveSet,
   DefaultAdminDelayChangeCanceled,
   DefaultAdminDelayChangeScheduled,
   DefaultAdminTransferCanceled,
   DefaultAdminTransferScheduled,
+  FeeChangeApplied,
+  FeeChangeCanceled,
+  FeeChangeScheduled,
+  OperatorApprovalSet,
+  PlatformSet,
+  ProtocolFeesClaimed,
+  ReferrerFeesClaimed,
   RoleAdminChanged,
   RoleGranted,
   RoleRevoked
@@ -16,6 +24,7 @@ import {
 
 export function createCreatorFeeClaimedEvent(
   creator: Address,
+  visibilityId: string,
   amount: BigInt
 ): CreatorFeeClaimed {
   let creatorFeeClaimedEvent = changetype<CreatorFeeClaimed>(newMockEvent())
@@ -25,6 +34,12 @@ export function createCreatorFeeClaimedEvent(
   creatorFeeClaimedEvent.parameters.push(
     new ethereum.EventParam('creator', ethereum.Value.fromAddress(creator))
   )
+  creatorFeeClaimedEvent.parameters.push(
+    new ethereum.EventParam(
+      'visibilityId',
+      ethereum.Value.fromString(visibilityId)
+    )
+  )
   creatorFeeClaimedEvent.parameters.push(
     new ethereum.EventParam('amount', ethereum.Value.fromUnsignedBigInt(amount))
   )
@@ -98,6 +113,38 @@ export function createCreditsTransferEvent(
   return creditsTransferEvent
 }
 
+export function createCurveSetEvent(
+  visibilityId: string,
+  a: BigInt,
+  b: BigInt,
+  basePrice: BigInt
+): CurveSet {
+  let curveSetEvent = changetype<CurveSet>(newMockEvent())
+
+  curveSetEvent.parameters = new Array()
+
+  curveSetEvent.parameters.push(
+    new ethereum.EventParam(
+      'visibilityId',
+      ethereum.Value.fromString(visibilityId)
+    )
+  )
+  curveSetEvent.parameters.push(
+    new ethereum.EventParam('a', ethereum.Value.fromUnsignedBigInt(a))
+  )
+  curveSetEvent.parameters.push(
+    new ethereum.EventParam('b', ethereum.Value.fromUnsignedBigInt(b))
+  )
+  curveSetEvent.parameters.push(
+    new ethereum.EventParam(
+      'basePrice',
+      ethereum.Value.fromUnsignedBigInt(basePrice)
+    )
+  )
+
+  return curveSetEvent
+}
+
 export function createDefaultAdminDelayChangeCanceledEvent(): DefaultAdminDelayChangeCanceled {
   let defaultAdminDelayChangeCanceledEvent =
     changetype<DefaultAdminDelayChangeCanceled>(newMockEvent())
@@ -163,6 +210,179 @@ export function createDefaultAdminTransferScheduledEvent(
   return defaultAdminTransferScheduledEvent
 }
 
+export function createFeeChangeAppliedEvent(
+  creatorFee: BigInt,
+  protocolFee: BigInt,
+  referrerFee: BigInt
+): FeeChangeApplied {
+  let feeChangeAppliedEvent = changetype<FeeChangeApplied>(newMockEvent())
+
+  feeChangeAppliedEvent.parameters = new Array()
+
+  feeChangeAppliedEvent.parameters.push(
+    new ethereum.EventParam(
+      'creatorFee',
+      ethereum.Value.fromUnsignedBigInt(creatorFee)
+    )
+  )
+  feeChangeAppliedEvent.parameters.push(
+    new ethereum.EventParam(
+      'protocolFee',
+      ethereum.Value.fromUnsignedBigInt(protocolFee)
+    )
+  )
+  feeChangeAppliedEvent.parameters.push(
+    new ethereum.EventParam(
+      'referrerFee',
+      ethereum.Value.fromUnsignedBigInt(referrerFee)
+    )
+  )
+
+  return feeChangeAppliedEvent
+}
+
+export function createFeeChangeCanceledEvent(): FeeChangeCanceled {
+  let feeChangeCanceledEvent = changetype<FeeChangeCanceled>(newMockEvent())
+
+  feeChangeCanceledEvent.parameters = new Array()
+
+  return feeChangeCanceledEvent
+}
+
+export function createFeeChangeScheduledEvent(
+  creatorFee: BigInt,
+  protocolFee: BigInt,
+  referrerFee: BigInt,
+  effectSchedule: BigInt
+): FeeChangeScheduled {
+  let feeChangeScheduledEvent = changetype<FeeChangeScheduled>(newMockEvent())
+
+  feeChangeScheduledEvent.parameters = new Array()
+
+  feeChangeScheduledEvent.parameters.push(
+    new ethereum.EventParam(
+      'creatorFee',
+      ethereum.Value.fromUnsignedBigInt(creatorFee)
+    )
+  )
+  feeChangeScheduledEvent.parameters.push(
+    new ethereum.EventParam(
+      'protocolFee',
+      ethereum.Value.fromUnsignedBigInt(protocolFee)
+    )
+  )
+  feeChangeScheduledEvent.parameters.push(
+    new ethereum.EventParam(
+      'referrerFee',
+      ethereum.Value.fromUnsignedBigInt(referrerFee)
+    )
+  )
+  feeChangeScheduledEvent.parameters.push(
+    new ethereum.EventParam(
+      'effectSchedule',
+      ethereum.Value.fromUnsignedBigInt(effectSchedule)
+    )
+  )
+
+  return feeChangeScheduledEvent
+}
+
+export function createOperatorApprovalSetEvent(
+  visibilityId: string,
+  owner: Address,
+  operator: Address,
+  approved: boolean
+): OperatorApprovalSet {
+  let operatorApprovalSetEvent = changetype<OperatorApprovalSet>(
+    newMockEvent()
+  )
+
+  operatorApprovalSetEvent.parameters = new Array()
+
+  operatorApprovalSetEvent.parameters.push(
+    new ethereum.EventParam(
+      'visibilityId',
+      ethereum.Value.fromString(visibilityId)
+    )
+  )
+  operatorApprovalSetEvent.parameters.push(
+    new ethereum.EventParam('owner', ethereum.Value.fromAddress(owner))
+  )
+  operatorApprovalSetEvent.parameters.push(
+    new ethereum.EventParam('operator', ethereum.Value.fromAddress(operator))
+  )
+  operatorApprovalSetEvent.parameters.push(
+    new ethereum.EventParam('approved', ethereum.Value.fromBoolean(approved))
+  )
+
+  return operatorApprovalSetEvent
+}
+
+export function createPlatformSetEvent(
+  prefix: string,
+  enabled: boolean,
+  lowercase: boolean,
+  minHandleLength: i32,
+  maxHandleLength: i32,
+  allowedSymbols: string
+): PlatformSet {
+  let platformSetEvent = changetype<PlatformSet>(newMockEvent())
+
+  platformSetEvent.parameters = new Array()
+
+  let rules = new ethereum.Tuple()
+  rules.push(ethereum.Value.fromBoolean(enabled))
+  rules.push(ethereum.Value.fromBoolean(lowercase))
+  rules.push(ethereum.Value.fromI32(minHandleLength))
+  rules.push(ethereum.Value.fromI32(maxHandleLength))
+  rules.push(ethereum.Value.fromString(allowedSymbols))
+
+  platformSetEvent.parameters.push(
+    new ethereum.EventParam('prefix', ethereum.Value.fromString(prefix))
+  )
+  platformSetEvent.parameters.push(
+    new ethereum.EventParam('rules', ethereum.Value.fromTuple(rules))
+  )
+
+  return platformSetEvent
+}
+
+export function createProtocolFeesClaimedEvent(
+  treasury: Address,
+  amount: BigInt
+): ProtocolFeesClaimed {
+  let protocolFeesClaimedEvent = changetype<ProtocolFeesClaimed>(newMockEvent())
+
+  protocolFeesClaimedEvent.parameters = new Array()
+
+  protocolFeesClaimedEvent.parameters.push(
+    new ethereum.EventParam('treasury', ethereum.Value.fromAddress(treasury))
+  )
+  protocolFeesClaimedEvent.parameters.push(
+    new ethereum.EventParam('amount', ethereum.Value.fromUnsignedBigInt(amount))
+  )
+
+  return protocolFeesClaimedEvent
+}
+
+export function createReferrerFeesClaimedEvent(
+  referrer: Address,
+  amount: BigInt
+): ReferrerFeesClaimed {
+  let referrerFeesClaimedEvent = changetype<ReferrerFeesClaimed>(newMockEvent())
+
+  referrerFeesClaimedEvent.parameters = new Array()
+
+  referrerFeesClaimedEvent.parameters.push(
+    new ethereum.EventParam('referrer', ethereum.Value.fromAddress(referrer))
+  )
+  referrerFeesClaimedEvent.parameters.push(
+    new ethereum.EventParam('amount', ethereum.Value.fromUnsignedBigInt(amount))
+  )
+
+  return referrerFeesClaimedEvent
+}
+
 export function createRoleAdminChangedEvent(
   role: Bytes,
   previousAdminRole: Bytes,
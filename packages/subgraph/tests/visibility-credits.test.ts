@@ -9,16 +9,27 @@ import {
 } from 'matchstick-as/assembly/index'
 import { Address, BigInt, Bytes, ethereum } from '@graphprotocol/graph-ts'
 import { CreatorFeeClaimed } from '../generated/schema'
-import { CreatorFeeClaimed as CreatorFeeClaimedEvent } from '../generated/VisibilityCredits/VisibilityCredits'
+import {
+  CreatorFeeClaimed as CreatorFeeClaimedEvent,
+  CreditsTrade as CreditsTradeEvent
+} from '../generated/VisibilityCredits/VisibilityCredits'
 import {
   handleCreatorFeeClaimed,
+  handleCreatorVisibilitySet,
   handleCreditsTrade,
-  handleCreditsTransfer
+  handleCreditsTransfer,
+  handleCurveSet,
+  handleOperatorApprovalSet,
+  handlePlatformSet
 } from '../src/visibility-credits'
 import {
   createCreatorFeeClaimedEvent,
+  createCreatorVisibilitySetEvent,
   createCreditsTradeEvent,
-  createCreditsTransferEvent
+  createCreditsTransferEvent,
+  createCurveSetEvent,
+  createOperatorApprovalSetEvent,
+  createPlatformSetEvent
 } from './visibility-credits-utils'
 
 // Tests structure (matchstick-as >=0.5.0)
@@ -32,6 +43,7 @@ describe('Describe entity assertions', () => {
     let amount = BigInt.fromI32(2)
     let newCreatorFeeClaimedEvent = createCreatorFeeClaimedEvent(
       creator,
+      'x-test',
       amount
     )
     handleCreatorFeeClaimed(newCreatorFeeClaimedEvent)
@@ -100,3 +112,300 @@ describe('Describe entity assertions', () => {
     // https://thegraph.com/docs/en/developer/matchstick/#asserts
   })
 })
+
+function createTradeWithCreatorFee(
+  visibilityId: string,
+  creatorFee: BigInt
+): CreditsTradeEvent {
+  return createCreditsTradeEvent(
+    changetype<ethereum.Tuple>([
+      ethereum.Value.fromAddress(
+        Address.fromString('0x0000000000000000000000000000000000000002')
+      ),
+      ethereum.Value.fromString(visibilityId),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+      ethereum.Value.fromBoolean(true),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(100)),
+      ethereum.Value.fromUnsignedBigInt(creatorFee),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(0)),
+      ethereum.Value.fromAddress(Address.zero()),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(10))
+    ])
+  )
+}
+
+const CREATOR = '0x0000000000000000000000000000000000000004'
+
+describe('Creator fee accounting', () => {
+  beforeAll(() => {
+    // fees accrued before the creator is linked
+    handleCreditsTrade(createTradeWithCreatorFee('x-fees', BigInt.fromI32(4)))
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent('x-fees', Address.fromString(CREATOR))
+    )
+    handleCreditsTrade(createTradeWithCreatorFee('x-fees', BigInt.fromI32(6)))
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Accrued fees are tracked on the visibility and its creator', () => {
+    assert.fieldEquals('Visibility', 'x-fees', 'creator', CREATOR)
+    assert.fieldEquals('Visibility', 'x-fees', 'creatorFeesAccrued', '10')
+    assert.fieldEquals('Visibility', 'x-fees', 'claimableFeeBalance', '10')
+    assert.fieldEquals('Creator', CREATOR, 'totalFeesAccrued', '10')
+    assert.fieldEquals('Creator', CREATOR, 'claimableFeeBalance', '10')
+    assert.fieldEquals('Creator', CREATOR, 'totalFeesClaimed', '0')
+  })
+
+  test('Claim empties the visibility claimable balance', () => {
+    handleCreatorFeeClaimed(
+      createCreatorFeeClaimedEvent(
+        Address.fromString(CREATOR),
+        'x-fees',
+        BigInt.fromI32(10)
+      )
+    )
+
+    assert.fieldEquals('Visibility', 'x-fees', 'creatorFeesClaimed', '10')
+    assert.fieldEquals('Visibility', 'x-fees', 'claimableFeeBalance', '0')
+    assert.fieldEquals('Creator', CREATOR, 'totalFeesAccrued', '10')
+    assert.fieldEquals('Creator', CREATOR, 'totalFeesClaimed', '10')
+    assert.fieldEquals('Creator', CREATOR, 'claimableFeeBalance', '0')
+  })
+
+  test('Unlinking moves the claimable balance away from the creator', () => {
+    handleCreditsTrade(createTradeWithCreatorFee('x-fees', BigInt.fromI32(3)))
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent('x-fees', Address.zero())
+    )
+
+    assert.fieldEquals('Visibility', 'x-fees', 'claimableFeeBalance', '3')
+    assert.fieldEquals('Creator', CREATOR, 'totalFeesAccrued', '10')
+    assert.fieldEquals('Creator', CREATOR, 'claimableFeeBalance', '0')
+  })
+})
+
+const OTHER_CREATOR = '0x0000000000000000000000000000000000000005'
+
+describe('Creator fee claims', () => {
+  beforeAll(() => {
+    // two visibilities of the same creator holding the same balance
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent('x-first', Address.fromString(CREATOR))
+    )
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent('x-second', Address.fromString(CREATOR))
+    )
+    handleCreditsTrade(createTradeWithCreatorFee('x-first', BigInt.fromI32(5)))
+    handleCreditsTrade(createTradeWithCreatorFee('x-second', BigInt.fromI32(5)))
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Claims update the visibility they were made for', () => {
+    handleCreatorFeeClaimed(
+      createCreatorFeeClaimedEvent(
+        Address.fromString(CREATOR),
+        'x-second',
+        BigInt.fromI32(5)
+      )
+    )
+
+    assert.fieldEquals('Visibility', 'x-first', 'claimableFeeBalance', '5')
+    assert.fieldEquals('Visibility', 'x-second', 'claimableFeeBalance', '0')
+    assert.fieldEquals('Visibility', 'x-second', 'creatorFeesClaimed', '5')
+    assert.fieldEquals('Creator', CREATOR, 'claimableFeeBalance', '5')
+    assert.fieldEquals('Creator', CREATOR, 'totalFeesClaimed', '5')
+  })
+
+  test('Re-linking moves the unclaimed fees to the new creator once', () => {
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent(
+        'x-first',
+        Address.fromString(OTHER_CREATOR)
+      )
+    )
+
+    assert.fieldEquals('Creator', CREATOR, 'totalFeesAccrued', '5')
+    assert.fieldEquals('Creator', CREATOR, 'claimableFeeBalance', '0')
+    assert.fieldEquals('Creator', OTHER_CREATOR, 'totalFeesAccrued', '5')
+    assert.fieldEquals('Creator', OTHER_CREATOR, 'claimableFeeBalance', '5')
+  })
+})
+
+const HOLDER = '0x0000000000000000000000000000000000000008'
+const RECEIVER = '0x0000000000000000000000000000000000000009'
+
+function createHolderTrade(
+  amount: i32,
+  isBuy: boolean,
+  tradeCost: i32,
+  creatorFee: i32,
+  protocolFee: i32
+): CreditsTradeEvent {
+  return createCreditsTradeEvent(
+    changetype<ethereum.Tuple>([
+      ethereum.Value.fromAddress(Address.fromString(HOLDER)),
+      ethereum.Value.fromString('x-portfolio'),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(amount)),
+      ethereum.Value.fromBoolean(isBuy),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(tradeCost)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(creatorFee)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(protocolFee)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(0)),
+      ethereum.Value.fromAddress(Address.zero()),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(10)),
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(100))
+    ])
+  )
+}
+
+describe('Portfolio cost basis', () => {
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Buys accumulate the cost basis, fees included', () => {
+    handleCreditsTrade(createHolderTrade(10, true, 1000, 20, 10))
+
+    let id = 'x-portfolio-' + HOLDER
+    assert.fieldEquals('VisibilityBalance', id, 'balance', '10')
+    assert.fieldEquals('VisibilityBalance', id, 'costBasis', '1030')
+    assert.fieldEquals('VisibilityBalance', id, 'averageEntryCost', '103')
+    assert.fieldEquals('VisibilityBalance', id, 'realizedPnl', '0')
+    assert.fieldEquals('VisibilityBalance', id, 'totalFeesPaid', '30')
+  })
+
+  test('Sells realize PnL against the average entry cost', () => {
+    // reimbursement of 500 - 10 - 5 = 485 for credits that cost 4 * 103 = 412
+    handleCreditsTrade(createHolderTrade(4, false, 500, 10, 5))
+
+    let id = 'x-portfolio-' + HOLDER
+    assert.fieldEquals('VisibilityBalance', id, 'balance', '6')
+    assert.fieldEquals('VisibilityBalance', id, 'costBasis', '618')
+    assert.fieldEquals('VisibilityBalance', id, 'averageEntryCost', '103')
+    assert.fieldEquals('VisibilityBalance', id, 'realizedPnl', '73')
+    assert.fieldEquals('VisibilityBalance', id, 'totalFeesPaid', '45')
+  })
+
+  test('Transfers move the cost basis with the credits', () => {
+    handleCreditsTransfer(
+      createCreditsTransferEvent(
+        'x-portfolio',
+        Address.fromString(HOLDER),
+        Address.fromString(RECEIVER),
+        BigInt.fromI32(3)
+      )
+    )
+
+    let from = 'x-portfolio-' + HOLDER
+    assert.fieldEquals('VisibilityBalance', from, 'costBasis', '309')
+    assert.fieldEquals('VisibilityBalance', from, 'realizedPnl', '73')
+    let to = 'x-portfolio-' + RECEIVER
+    assert.fieldEquals('VisibilityBalance', to, 'balance', '3')
+    assert.fieldEquals('VisibilityBalance', to, 'costBasis', '309')
+    assert.fieldEquals('VisibilityBalance', to, 'averageEntryCost', '103')
+  })
+})
+
+describe('Curve profiles', () => {
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Visibilities start on the default curve', () => {
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent('x-default', Address.fromString(CREATOR))
+    )
+
+    assert.fieldEquals('Visibility', 'x-default', 'curveA', '15000000000')
+    assert.fieldEquals('Visibility', 'x-default', 'curveB', '25000000000000')
+    assert.fieldEquals(
+      'Visibility',
+      'x-default',
+      'curveBasePrice',
+      '100000000000000'
+    )
+  })
+
+  test('CurveSet assigns the profile and its starting price', () => {
+    handleCurveSet(
+      createCurveSetEvent(
+        'x-niche',
+        BigInt.fromI32(1),
+        BigInt.fromI32(2),
+        BigInt.fromI32(300)
+      )
+    )
+
+    assert.fieldEquals('Visibility', 'x-niche', 'curveA', '1')
+    assert.fieldEquals('Visibility', 'x-niche', 'curveB', '2')
+    assert.fieldEquals('Visibility', 'x-niche', 'curveBasePrice', '300')
+    assert.fieldEquals('Visibility', 'x-niche', 'currentPrice', '300')
+    assert.fieldEquals('Visibility', 'x-niche', 'totalSupply', '0')
+    assert.entityCount('CurveSet', 1)
+  })
+})
+
+describe('Operator approvals', () => {
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Approvals are tracked per visibility, owner and operator', () => {
+    let owner = Address.fromString(HOLDER)
+    let operator = Address.fromString(RECEIVER)
+    let id = 'x-operator-' + HOLDER + '-' + RECEIVER
+
+    handleOperatorApprovalSet(
+      createOperatorApprovalSetEvent('x-operator', owner, operator, true)
+    )
+    assert.fieldEquals('OperatorApproval', id, 'visibility', 'x-operator')
+    assert.fieldEquals('OperatorApproval', id, 'approved', 'true')
+
+    handleOperatorApprovalSet(
+      createOperatorApprovalSetEvent('x-operator', owner, operator, false)
+    )
+    assert.fieldEquals('OperatorApproval', id, 'approved', 'false')
+    assert.entityCount('OperatorApproval', 1)
+  })
+})
+
+describe('Platforms', () => {
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Visibilities are split into platform and handle', () => {
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent('fc-dwr-eth', Address.fromString(CREATOR))
+    )
+    assert.fieldEquals('Visibility', 'fc-dwr-eth', 'platform', 'fc')
+    assert.fieldEquals('Visibility', 'fc-dwr-eth', 'handle', 'dwr-eth')
+
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent('legacy', Address.fromString(CREATOR))
+    )
+    assert.fieldEquals('Visibility', 'legacy', 'platform', 'null')
+    assert.fieldEquals('Visibility', 'legacy', 'handle', 'null')
+  })
+
+  test('PlatformSet registers and updates the platform rules', () => {
+    handlePlatformSet(createPlatformSetEvent('x', true, true, 1, 15, '_'))
+    handlePlatformSet(createPlatformSetEvent('x', false, true, 1, 15, '_'))
+
+    assert.fieldEquals('Platform', 'x', 'enabled', 'false')
+    assert.fieldEquals('Platform', 'x', 'lowercase', 'true')
+    assert.fieldEquals('Platform', 'x', 'minHandleLength', '1')
+    assert.fieldEquals('Platform', 'x', 'maxHandleLength', '15')
+    assert.fieldEquals('Platform', 'x', 'allowedSymbols', '_')
+    assert.entityCount('Platform', 1)
+    assert.entityCount('PlatformSet', 2)
+  })
+})
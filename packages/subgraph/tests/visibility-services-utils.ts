@@ -5,13 +5,20 @@ import {
   DefaultAdminDelayChangeScheduled,
   DefaultAdminTransferCanceled,
   DefaultAdminTransferScheduled,
+  DisputeBondPosted,
+  DisputeBondReleased,
+  DisputeBondUpdated,
+  DisputeDefaultsUpdated,
   RoleAdminChanged,
   RoleGranted,
   RoleRevoked,
   ServiceCreated,
   ServiceExecutionAccepted,
   ServiceExecutionCanceled,
+  ServiceExecutionDisputeDefaulted,
   ServiceExecutionDisputed,
+  ServiceExecutionEvidenceSubmitted,
+  ServiceExecutionExpired,
   ServiceExecutionRequested,
   ServiceExecutionResolved,
   ServiceExecutionValidated,
@@ -83,6 +90,120 @@ export function createDefaultAdminTransferScheduledEvent(
   return defaultAdminTransferScheduledEvent
 }
 
+export function createDisputeBondPostedEvent(
+  serviceNonce: BigInt,
+  executionNonce: BigInt,
+  bondAmount: BigInt
+): DisputeBondPosted {
+  let disputeBondPostedEvent = changetype<DisputeBondPosted>(newMockEvent())
+
+  disputeBondPostedEvent.parameters = new Array()
+
+  disputeBondPostedEvent.parameters.push(
+    new ethereum.EventParam(
+      'serviceNonce',
+      ethereum.Value.fromUnsignedBigInt(serviceNonce)
+    )
+  )
+  disputeBondPostedEvent.parameters.push(
+    new ethereum.EventParam(
+      'executionNonce',
+      ethereum.Value.fromUnsignedBigInt(executionNonce)
+    )
+  )
+  disputeBondPostedEvent.parameters.push(
+    new ethereum.EventParam(
+      'bondAmount',
+      ethereum.Value.fromUnsignedBigInt(bondAmount)
+    )
+  )
+
+  return disputeBondPostedEvent
+}
+
+export function createDisputeBondReleasedEvent(
+  serviceNonce: BigInt,
+  executionNonce: BigInt,
+  requesterAmount: BigInt,
+  creatorAmount: BigInt
+): DisputeBondReleased {
+  let disputeBondReleasedEvent = changetype<DisputeBondReleased>(
+    newMockEvent()
+  )
+
+  disputeBondReleasedEvent.parameters = new Array()
+
+  disputeBondReleasedEvent.parameters.push(
+    new ethereum.EventParam(
+      'serviceNonce',
+      ethereum.Value.fromUnsignedBigInt(serviceNonce)
+    )
+  )
+  disputeBondReleasedEvent.parameters.push(
+    new ethereum.EventParam(
+      'executionNonce',
+      ethereum.Value.fromUnsignedBigInt(executionNonce)
+    )
+  )
+  disputeBondReleasedEvent.parameters.push(
+    new ethereum.EventParam(
+      'requesterAmount',
+      ethereum.Value.fromUnsignedBigInt(requesterAmount)
+    )
+  )
+  disputeBondReleasedEvent.parameters.push(
+    new ethereum.EventParam(
+      'creatorAmount',
+      ethereum.Value.fromUnsignedBigInt(creatorAmount)
+    )
+  )
+
+  return disputeBondReleasedEvent
+}
+
+export function createDisputeBondUpdatedEvent(
+  disputeBondBps: BigInt
+): DisputeBondUpdated {
+  let disputeBondUpdatedEvent = changetype<DisputeBondUpdated>(newMockEvent())
+
+  disputeBondUpdatedEvent.parameters = new Array()
+
+  disputeBondUpdatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'disputeBondBps',
+      ethereum.Value.fromUnsignedBigInt(disputeBondBps)
+    )
+  )
+
+  return disputeBondUpdatedEvent
+}
+
+export function createDisputeDefaultsUpdatedEvent(
+  disputeResolutionDelay: BigInt,
+  defaultRefundBps: BigInt
+): DisputeDefaultsUpdated {
+  let disputeDefaultsUpdatedEvent = changetype<DisputeDefaultsUpdated>(
+    newMockEvent()
+  )
+
+  disputeDefaultsUpdatedEvent.parameters = new Array()
+
+  disputeDefaultsUpdatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'disputeResolutionDelay',
+      ethereum.Value.fromUnsignedBigInt(disputeResolutionDelay)
+    )
+  )
+  disputeDefaultsUpdatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'defaultRefundBps',
+      ethereum.Value.fromUnsignedBigInt(defaultRefundBps)
+    )
+  )
+
+  return disputeDefaultsUpdatedEvent
+}
+
 export function createRoleAdminChangedEvent(
   role: Bytes,
   previousAdminRole: Bytes,
@@ -159,7 +280,9 @@ export function createServiceCreatedEvent(
   nonce: BigInt,
   serviceType: string,
   visibilityId: string,
-  creditsCostAmount: BigInt
+  creditsCostAmount: BigInt,
+  validationDelay: BigInt,
+  acceptanceDelay: BigInt
 ): ServiceCreated {
   let serviceCreatedEvent = changetype<ServiceCreated>(newMockEvent())
 
@@ -186,6 +309,18 @@ export function createServiceCreatedEvent(
       ethereum.Value.fromUnsignedBigInt(creditsCostAmount)
     )
   )
+  serviceCreatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'validationDelay',
+      ethereum.Value.fromUnsignedBigInt(validationDelay)
+    )
+  )
+  serviceCreatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'acceptanceDelay',
+      ethereum.Value.fromUnsignedBigInt(acceptanceDelay)
+    )
+  )
 
   return serviceCreatedEvent
 }
@@ -257,6 +392,56 @@ export function createServiceExecutionCanceledEvent(
   return serviceExecutionCanceledEvent
 }
 
+export function createServiceExecutionDisputeDefaultedEvent(
+  serviceNonce: BigInt,
+  executionNonce: BigInt,
+  from: Address,
+  refundBps: BigInt,
+  refundAmount: BigInt,
+  creatorAmount: BigInt
+): ServiceExecutionDisputeDefaulted {
+  let serviceExecutionDisputeDefaultedEvent =
+    changetype<ServiceExecutionDisputeDefaulted>(newMockEvent())
+
+  serviceExecutionDisputeDefaultedEvent.parameters = new Array()
+
+  serviceExecutionDisputeDefaultedEvent.parameters.push(
+    new ethereum.EventParam(
+      'serviceNonce',
+      ethereum.Value.fromUnsignedBigInt(serviceNonce)
+    )
+  )
+  serviceExecutionDisputeDefaultedEvent.parameters.push(
+    new ethereum.EventParam(
+      'executionNonce',
+      ethereum.Value.fromUnsignedBigInt(executionNonce)
+    )
+  )
+  serviceExecutionDisputeDefaultedEvent.parameters.push(
+    new ethereum.EventParam('from', ethereum.Value.fromAddress(from))
+  )
+  serviceExecutionDisputeDefaultedEvent.parameters.push(
+    new ethereum.EventParam(
+      'refundBps',
+      ethereum.Value.fromUnsignedBigInt(refundBps)
+    )
+  )
+  serviceExecutionDisputeDefaultedEvent.parameters.push(
+    new ethereum.EventParam(
+      'refundAmount',
+      ethereum.Value.fromUnsignedBigInt(refundAmount)
+    )
+  )
+  serviceExecutionDisputeDefaultedEvent.parameters.push(
+    new ethereum.EventParam(
+      'creatorAmount',
+      ethereum.Value.fromUnsignedBigInt(creatorAmount)
+    )
+  )
+
+  return serviceExecutionDisputeDefaultedEvent
+}
+
 export function createServiceExecutionDisputedEvent(
   serviceNonce: BigInt,
   executionNonce: BigInt,
@@ -290,6 +475,65 @@ export function createServiceExecutionDisputedEvent(
   return serviceExecutionDisputedEvent
 }
 
+export function createServiceExecutionEvidenceSubmittedEvent(
+  serviceNonce: BigInt,
+  executionNonce: BigInt,
+  from: Address,
+  evidence: string
+): ServiceExecutionEvidenceSubmitted {
+  let serviceExecutionEvidenceSubmittedEvent =
+    changetype<ServiceExecutionEvidenceSubmitted>(newMockEvent())
+
+  serviceExecutionEvidenceSubmittedEvent.parameters = new Array()
+
+  serviceExecutionEvidenceSubmittedEvent.parameters.push(
+    new ethereum.EventParam(
+      'serviceNonce',
+      ethereum.Value.fromUnsignedBigInt(serviceNonce)
+    )
+  )
+  serviceExecutionEvidenceSubmittedEvent.parameters.push(
+    new ethereum.EventParam(
+      'executionNonce',
+      ethereum.Value.fromUnsignedBigInt(executionNonce)
+    )
+  )
+  serviceExecutionEvidenceSubmittedEvent.parameters.push(
+    new ethereum.EventParam('from', ethereum.Value.fromAddress(from))
+  )
+  serviceExecutionEvidenceSubmittedEvent.parameters.push(
+    new ethereum.EventParam('evidence', ethereum.Value.fromString(evidence))
+  )
+
+  return serviceExecutionEvidenceSubmittedEvent
+}
+
+export function createServiceExecutionExpiredEvent(
+  serviceNonce: BigInt,
+  executionNonce: BigInt
+): ServiceExecutionExpired {
+  let serviceExecutionExpiredEvent = changetype<ServiceExecutionExpired>(
+    newMockEvent()
+  )
+
+  serviceExecutionExpiredEvent.parameters = new Array()
+
+  serviceExecutionExpiredEvent.parameters.push(
+    new ethereum.EventParam(
+      'serviceNonce',
+      ethereum.Value.fromUnsignedBigInt(serviceNonce)
+    )
+  )
+  serviceExecutionExpiredEvent.parameters.push(
+    new ethereum.EventParam(
+      'executionNonce',
+      ethereum.Value.fromUnsignedBigInt(executionNonce)
+    )
+  )
+
+  return serviceExecutionExpiredEvent
+}
+
 export function createServiceExecutionRequestedEvent(
   serviceNonce: BigInt,
   executionNonce: BigInt,
@@ -330,7 +574,9 @@ export function createServiceExecutionRequestedEvent(
 export function createServiceExecutionResolvedEvent(
   serviceNonce: BigInt,
   executionNonce: BigInt,
-  refund: boolean,
+  refundBps: BigInt,
+  refundAmount: BigInt,
+  creatorAmount: BigInt,
   resolveData: string
 ): ServiceExecutionResolved {
   let serviceExecutionResolvedEvent = changetype<ServiceExecutionResolved>(
@@ -352,7 +598,22 @@ export function createServiceExecutionResolvedEvent(
     )
   )
   serviceExecutionResolvedEvent.parameters.push(
-    new ethereum.EventParam('refund', ethereum.Value.fromBoolean(refund))
+    new ethereum.EventParam(
+      'refundBps',
+      ethereum.Value.fromUnsignedBigInt(refundBps)
+    )
+  )
+  serviceExecutionResolvedEvent.parameters.push(
+    new ethereum.EventParam(
+      'refundAmount',
+      ethereum.Value.fromUnsignedBigInt(refundAmount)
+    )
+  )
+  serviceExecutionResolvedEvent.parameters.push(
+    new ethereum.EventParam(
+      'creatorAmount',
+      ethereum.Value.fromUnsignedBigInt(creatorAmount)
+    )
   )
   serviceExecutionResolvedEvent.parameters.push(
     new ethereum.EventParam(
@@ -392,7 +653,11 @@ export function createServiceExecutionValidatedEvent(
 
 export function createServiceUpdatedEvent(
   nonce: BigInt,
-  enabled: boolean
+  enabled: boolean,
+  creditsCostAmount: BigInt,
+  metadataURI: string,
+  maxOpenExecutions: BigInt,
+  acceptanceDelay: BigInt
 ): ServiceUpdated {
   let serviceUpdatedEvent = changetype<ServiceUpdated>(newMockEvent())
 
@@ -404,6 +669,30 @@ export function createServiceUpdatedEvent(
   serviceUpdatedEvent.parameters.push(
     new ethereum.EventParam('enabled', ethereum.Value.fromBoolean(enabled))
   )
+  serviceUpdatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'creditsCostAmount',
+      ethereum.Value.fromUnsignedBigInt(creditsCostAmount)
+    )
+  )
+  serviceUpdatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'metadataURI',
+      ethereum.Value.fromString(metadataURI)
+    )
+  )
+  serviceUpdatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'maxOpenExecutions',
+      ethereum.Value.fromUnsignedBigInt(maxOpenExecutions)
+    )
+  )
+  serviceUpdatedEvent.parameters.push(
+    new ethereum.EventParam(
+      'acceptanceDelay',
+      ethereum.Value.fromUnsignedBigInt(acceptanceDelay)
+    )
+  )
 
   return serviceUpdatedEvent
 }
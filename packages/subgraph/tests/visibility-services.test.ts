@@ -9,8 +9,40 @@ import {
 import { BigInt, Address, Bytes } from '@graphprotocol/graph-ts'
 import { DefaultAdminDelayChangeCanceled } from '../generated/schema'
 import { DefaultAdminDelayChangeCanceled as DefaultAdminDelayChangeCanceledEvent } from '../generated/VisibilityServices/VisibilityServices'
-import { handleDefaultAdminDelayChangeCanceled } from '../src/visibility-services'
-import { createDefaultAdminDelayChangeCanceledEvent } from './visibility-services-utils'
+import {
+  handleDefaultAdminDelayChangeCanceled,
+  handleDisputeBondPosted,
+  handleDisputeBondReleased,
+  handleDisputeBondUpdated,
+  handleDisputeDefaultsUpdated,
+  handleServiceCreated,
+  handleServiceExecutionAccepted,
+  handleServiceExecutionDisputeDefaulted,
+  handleServiceExecutionDisputed,
+  handleServiceExecutionEvidenceSubmitted,
+  handleServiceExecutionExpired,
+  handleServiceExecutionRequested,
+  handleServiceExecutionResolved,
+  handleServiceUpdated
+} from '../src/visibility-services'
+import {
+  createDefaultAdminDelayChangeCanceledEvent,
+  createDisputeBondPostedEvent,
+  createDisputeBondReleasedEvent,
+  createDisputeBondUpdatedEvent,
+  createDisputeDefaultsUpdatedEvent,
+  createServiceCreatedEvent,
+  createServiceExecutionAcceptedEvent,
+  createServiceExecutionDisputeDefaultedEvent,
+  createServiceExecutionDisputedEvent,
+  createServiceExecutionEvidenceSubmittedEvent,
+  createServiceExecutionExpiredEvent,
+  createServiceExecutionRequestedEvent,
+  createServiceExecutionResolvedEvent,
+  createServiceUpdatedEvent
+} from './visibility-services-utils'
+import { handleCreatorVisibilitySet } from '../src/visibility-credits'
+import { createCreatorVisibilitySetEvent } from './visibility-credits-utils'
 
 // Tests structure (matchstick-as >=0.5.0)
 // https://thegraph.com/docs/en/developer/matchstick/#tests-structure-0-5-0
@@ -40,3 +72,493 @@ describe('Describe entity assertions', () => {
     // https://thegraph.com/docs/en/developer/matchstick/#asserts
   })
 })
+
+describe('Service updates', () => {
+  beforeAll(() => {
+    handleServiceCreated(
+      createServiceCreatedEvent(
+        BigInt.fromI32(0),
+        'x-post',
+        'x-vitalikbuterin',
+        BigInt.fromI32(10),
+        BigInt.fromI32(86400),
+        BigInt.fromI32(259200)
+      )
+    )
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+    handleServiceUpdated(
+      createServiceUpdatedEvent(
+        BigInt.fromI32(0),
+        true,
+        BigInt.fromI32(25),
+        'ipfs://terms',
+        BigInt.fromI32(3),
+        BigInt.fromI32(3600)
+      )
+    )
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('ServiceUpdated carries the new terms into the service', () => {
+    assert.fieldEquals('VisibilityService', '0', 'creditsCostAmount', '25')
+    assert.fieldEquals('VisibilityService', '0', 'metadataURI', 'ipfs://terms')
+    assert.fieldEquals('VisibilityService', '0', 'maxOpenExecutions', '3')
+    assert.fieldEquals('VisibilityService', '0', 'acceptanceDelay', '3600')
+    assert.entityCount('ServiceUpdated', 1)
+  })
+
+  test('Executions keep the cost escrowed at request time', () => {
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'creditsCostAmount',
+      '10'
+    )
+  })
+
+  test('Accepted executions expose their auto-validation timestamp', () => {
+    assert.fieldEquals('VisibilityService', '0', 'validationDelay', '86400')
+
+    handleServiceExecutionAccepted(
+      createServiceExecutionAcceptedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        'Response Data'
+      )
+    )
+
+    // newMockEvent() blocks have timestamp 1, validation opens one second after the delay
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'autoValidationTimestamp',
+      '86402'
+    )
+  })
+})
+
+describe('Acceptance deadline', () => {
+  beforeAll(() => {
+    handleServiceCreated(
+      createServiceCreatedEvent(
+        BigInt.fromI32(0),
+        'x-post',
+        'x-vitalikbuterin',
+        BigInt.fromI32(10),
+        BigInt.fromI32(86400),
+        BigInt.fromI32(3600)
+      )
+    )
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Requests are due within the service acceptance delay', () => {
+    assert.fieldEquals('VisibilityService', '0', 'acceptanceDelay', '3600')
+    // newMockEvent() blocks have timestamp 1
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'acceptanceDeadline',
+      '3601'
+    )
+  })
+
+  test('Expired requests are refunded', () => {
+    handleServiceExecutionExpired(
+      createServiceExecutionExpiredEvent(BigInt.fromI32(0), BigInt.fromI32(0))
+    )
+
+    assert.fieldEquals('VisibilityServiceExecution', '0-0', 'state', 'REFUNDED')
+    assert.entityCount('ServiceExecutionExpired', 1)
+  })
+})
+
+describe('Dispute resolution', () => {
+  beforeAll(() => {
+    handleServiceCreated(
+      createServiceCreatedEvent(
+        BigInt.fromI32(0),
+        'x-post',
+        'x-vitalikbuterin',
+        BigInt.fromI32(10),
+        BigInt.fromI32(86400),
+        BigInt.fromI32(259200)
+      )
+    )
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Split resolutions record both amounts', () => {
+    handleServiceExecutionResolved(
+      createServiceExecutionResolvedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        BigInt.fromI32(2500),
+        BigInt.fromI32(2),
+        BigInt.fromI32(8),
+        'Posted late'
+      )
+    )
+
+    assert.fieldEquals('VisibilityServiceExecution', '0-0', 'state', 'SPLIT')
+    assert.fieldEquals('VisibilityServiceExecution', '0-0', 'refundBps', '2500')
+    assert.fieldEquals('VisibilityServiceExecution', '0-0', 'refundAmount', '2')
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'creatorAmount',
+      '8'
+    )
+  })
+
+  test('Small refund shares stay splits when the refund rounds to zero', () => {
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(1),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+    // 5% of 10 credits rounds down to 0
+    handleServiceExecutionResolved(
+      createServiceExecutionResolvedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(1),
+        BigInt.fromI32(500),
+        BigInt.fromI32(0),
+        BigInt.fromI32(10),
+        'Posted late'
+      )
+    )
+
+    assert.fieldEquals('VisibilityServiceExecution', '0-1', 'state', 'SPLIT')
+  })
+
+  test('Zero-cost executions follow the refund share', () => {
+    handleServiceCreated(
+      createServiceCreatedEvent(
+        BigInt.fromI32(1),
+        'x-post',
+        'x-vitalikbuterin',
+        BigInt.fromI32(0),
+        BigInt.fromI32(86400),
+        BigInt.fromI32(259200)
+      )
+    )
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(1),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+    handleServiceExecutionResolved(
+      createServiceExecutionResolvedEvent(
+        BigInt.fromI32(1),
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        'Posted'
+      )
+    )
+
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '1-0',
+      'state',
+      'VALIDATED'
+    )
+  })
+})
+
+describe('Dispute defaults', () => {
+  beforeAll(() => {
+    handleDisputeDefaultsUpdated(
+      createDisputeDefaultsUpdatedEvent(
+        BigInt.fromI32(86400),
+        BigInt.fromI32(5000)
+      )
+    )
+    handleServiceCreated(
+      createServiceCreatedEvent(
+        BigInt.fromI32(0),
+        'x-post',
+        'x-vitalikbuterin',
+        BigInt.fromI32(10),
+        BigInt.fromI32(86400),
+        BigInt.fromI32(259200)
+      )
+    )
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Dispute settings are updated', () => {
+    assert.entityCount('DisputeSettings', 1)
+    assert.entityCount('DisputeDefaultsUpdated', 1)
+    assert.fieldEquals(
+      'DisputeSettings',
+      'current',
+      'disputeResolutionDelay',
+      '86400'
+    )
+    assert.fieldEquals('DisputeSettings', 'current', 'defaultRefundBps', '5000')
+  })
+
+  test('Disputes get a resolution deadline', () => {
+    handleServiceExecutionDisputed(
+      createServiceExecutionDisputedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        'Not posted'
+      )
+    )
+
+    assert.fieldEquals('VisibilityServiceExecution', '0-0', 'state', 'DISPUTED')
+    // mock events are emitted at timestamp 1
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'disputeDeadline',
+      '86401'
+    )
+  })
+
+  test('Defaulted disputes record the default outcome', () => {
+    handleServiceExecutionDisputeDefaulted(
+      createServiceExecutionDisputeDefaultedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        BigInt.fromI32(5000),
+        BigInt.fromI32(5),
+        BigInt.fromI32(5)
+      )
+    )
+
+    assert.entityCount('ServiceExecutionDisputeDefaulted', 1)
+    assert.fieldEquals('VisibilityServiceExecution', '0-0', 'state', 'SPLIT')
+    assert.fieldEquals('VisibilityServiceExecution', '0-0', 'refundAmount', '5')
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'creatorAmount',
+      '5'
+    )
+  })
+})
+
+describe('Dispute bonds', () => {
+  beforeAll(() => {
+    handleDisputeBondUpdated(
+      createDisputeBondUpdatedEvent(BigInt.fromI32(5000))
+    )
+    handleServiceCreated(
+      createServiceCreatedEvent(
+        BigInt.fromI32(0),
+        'x-post',
+        'x-vitalikbuterin',
+        BigInt.fromI32(10),
+        BigInt.fromI32(86400),
+        BigInt.fromI32(259200)
+      )
+    )
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+    handleServiceExecutionDisputed(
+      createServiceExecutionDisputedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        'Not posted'
+      )
+    )
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Dispute bond share is updated', () => {
+    assert.entityCount('DisputeBondUpdated', 1)
+    assert.fieldEquals('DisputeSettings', 'current', 'disputeBondBps', '5000')
+    assert.fieldEquals(
+      'DisputeSettings',
+      'current',
+      'defaultRefundBps',
+      '10000'
+    )
+  })
+
+  test('Posted bonds are recorded on the execution', () => {
+    handleDisputeBondPosted(
+      createDisputeBondPostedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        BigInt.fromI32(5)
+      )
+    )
+
+    assert.entityCount('DisputeBondPosted', 1)
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'disputeBondAmount',
+      '5'
+    )
+  })
+
+  test('Released bonds record both shares', () => {
+    handleDisputeBondReleased(
+      createDisputeBondReleasedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        BigInt.fromI32(1),
+        BigInt.fromI32(4)
+      )
+    )
+
+    assert.entityCount('DisputeBondReleased', 1)
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'disputeBondRequesterAmount',
+      '1'
+    )
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'disputeBondCreatorAmount',
+      '4'
+    )
+  })
+})
+
+describe('Dispute evidence', () => {
+  beforeAll(() => {
+    handleServiceCreated(
+      createServiceCreatedEvent(
+        BigInt.fromI32(0),
+        'x-post',
+        'x-vitalikbuterin',
+        BigInt.fromI32(10),
+        BigInt.fromI32(86400),
+        BigInt.fromI32(259200)
+      )
+    )
+    handleCreatorVisibilitySet(
+      createCreatorVisibilitySetEvent(
+        'x-vitalikbuterin',
+        Address.fromString('0x0000000000000000000000000000000000000003')
+      )
+    )
+    handleServiceExecutionRequested(
+      createServiceExecutionRequestedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'Request Data'
+      )
+    )
+  })
+
+  afterAll(() => {
+    clearStore()
+  })
+
+  test('Evidence is appended in order with the party of its author', () => {
+    handleServiceExecutionEvidenceSubmitted(
+      createServiceExecutionEvidenceSubmittedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000002'),
+        'ipfs://screenshot'
+      )
+    )
+    handleServiceExecutionEvidenceSubmitted(
+      createServiceExecutionEvidenceSubmittedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000003'),
+        'https://x.com/post'
+      )
+    )
+    handleServiceExecutionEvidenceSubmitted(
+      createServiceExecutionEvidenceSubmittedEvent(
+        BigInt.fromI32(0),
+        BigInt.fromI32(0),
+        Address.fromString('0x0000000000000000000000000000000000000004'),
+        'Post deleted?'
+      )
+    )
+
+    assert.entityCount('DisputeEvidence', 3)
+    assert.fieldEquals(
+      'VisibilityServiceExecution',
+      '0-0',
+      'evidenceCount',
+      '3'
+    )
+    assert.fieldEquals('DisputeEvidence', '0-0-0', 'party', 'REQUESTER')
+    assert.fieldEquals(
+      'DisputeEvidence',
+      '0-0-0',
+      'evidence',
+      'ipfs://screenshot'
+    )
+    assert.fieldEquals('DisputeEvidence', '0-0-1', 'party', 'CREATOR')
+    assert.fieldEquals('DisputeEvidence', '0-0-1', 'index', '1')
+    assert.fieldEquals('DisputeEvidence', '0-0-2', 'party', 'RESOLVER')
+    assert.fieldEquals('DisputeEvidence', '0-0-2', 'execution', '0-0')
+  })
+})